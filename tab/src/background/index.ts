@@ -10,6 +10,8 @@ import type { Message, MessageResponse } from '@/types';
  * Background service worker for Chrome Extension
  */
 
+const HIGHLIGHT_MENU_ID = 'tmarks-save-highlight';
+
 // Preload AI context
 tagRecommender.preloadContext().catch(() => {
   // Silently fail - AI features will work on-demand
@@ -22,6 +24,13 @@ chrome.runtime.onInstalled.addListener(async (details) => {
   } else if (details.reason === 'update') {
     // Extension updated
   }
+
+  // 右键菜单：保存选中文本为高亮摘录
+  chrome.contextMenus.create({
+    id: HIGHLIGHT_MENU_ID,
+    title: '保存高亮到 TMarks',
+    contexts: ['selection']
+  });
 });
 
 // Auto-sync cache periodically
@@ -158,6 +167,100 @@ async function startPinnedBookmarksAutoRefresh() {
 // 启动定时刷新
 startPinnedBookmarksAutoRefresh().catch(() => {});
 
+// 书签提醒：由 chrome.alarms 定时检查到期提醒并发送系统通知
+const REMINDER_ALARM = 'tmarks-check-reminders';
+const REMINDER_CHECK_INTERVAL_MINUTES = 30;
+const REMINDER_NOTIFICATION_PREFIX = 'tmarks-reminder:';
+const NOTIFIED_REMINDERS_KEY = 'tmarks_notified_reminders';
+
+// 已通知过的提醒：提醒 id -> 书签 URL（点击通知时打开）
+type NotifiedReminders = Record<string, string>;
+
+async function loadNotifiedReminders(): Promise<NotifiedReminders> {
+  const result = await chrome.storage.local.get(NOTIFIED_REMINDERS_KEY);
+  return (result[NOTIFIED_REMINDERS_KEY] as NotifiedReminders | undefined) ?? {};
+}
+
+async function checkDueReminders() {
+  try {
+    const apiKey = await StorageService.getBookmarkSiteApiKey();
+    if (!apiKey) {
+      return;
+    }
+
+    const reminders = await bookmarkAPI.getDueReminders();
+    const notified = await loadNotifiedReminders();
+    const pending: NotifiedReminders = {};
+
+    for (const reminder of reminders) {
+      pending[reminder.id] = reminder.bookmark.url;
+      if (notified[reminder.id]) {
+        continue;
+      }
+
+      chrome.notifications.create(`${REMINDER_NOTIFICATION_PREFIX}${reminder.id}`, {
+        type: 'basic',
+        iconUrl: '/icons/icon-128.png',
+        title: reminder.source === 'resurface' ? '重温书签' : '书签提醒',
+        message: reminder.bookmark.title,
+        contextMessage: reminder.note || reminder.bookmark.url,
+        buttons: [{ title: '打开' }, { title: '完成' }]
+      });
+    }
+
+    // 只保留仍未处理的提醒，已在其他地方处理的会被移除
+    await chrome.storage.local.set({ [NOTIFIED_REMINDERS_KEY]: pending });
+  } catch (error) {
+    console.warn('[Background] 检查到期提醒失败:', error);
+  }
+}
+
+async function handleReminderNotification(notificationId: string, openBookmark: boolean) {
+  if (!notificationId.startsWith(REMINDER_NOTIFICATION_PREFIX)) {
+    return;
+  }
+
+  const reminderId = notificationId.slice(REMINDER_NOTIFICATION_PREFIX.length);
+  const notified = await loadNotifiedReminders();
+  const url = notified[reminderId];
+
+  chrome.notifications.clear(notificationId);
+  if (openBookmark && url) {
+    await chrome.tabs.create({ url });
+  }
+
+  try {
+    // 打开或点击完成都视为已处理
+    await bookmarkAPI.updateReminder(reminderId, 'done');
+  } catch (error) {
+    console.warn('[Background] 更新提醒状态失败:', error);
+  }
+}
+
+// alarm 在扩展重启后仍然存在，只在不存在时创建，避免每次唤醒都重置计时
+chrome.alarms.get(REMINDER_ALARM).then((alarm) => {
+  if (!alarm) {
+    chrome.alarms.create(REMINDER_ALARM, {
+      delayInMinutes: 1,
+      periodInMinutes: REMINDER_CHECK_INTERVAL_MINUTES
+    });
+  }
+}).catch(() => {});
+
+chrome.alarms.onAlarm.addListener((alarm) => {
+  if (alarm.name === REMINDER_ALARM) {
+    checkDueReminders().catch(() => {});
+  }
+});
+
+chrome.notifications.onClicked.addListener((notificationId) => {
+  handleReminderNotification(notificationId, true).catch(() => {});
+});
+
+chrome.notifications.onButtonClicked.addListener((notificationId, buttonIndex) => {
+  handleReminderNotification(notificationId, buttonIndex === 0).catch(() => {});
+});
+
 // Handle messages from popup/content scripts
 chrome.runtime.onMessage.addListener(
   (
@@ -406,6 +509,25 @@ async function handleMessage(
       }
     }
 
+    case 'UPDATE_READING_STATE': {
+      try {
+        const { bookmarkId, status } = message.payload;
+
+        // 调用 API 更新阅读状态
+        await bookmarkAPI.updateReadingState(bookmarkId, status);
+
+        return {
+          success: true,
+          data: { message: 'Reading state updated successfully' }
+        };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to update reading state'
+        };
+      }
+    }
+
     case 'REFRESH_PINNED_BOOKMARKS': {
       try {
         // 广播消息到所有 NewTab 页面，让它们刷新置顶书签
@@ -519,6 +641,108 @@ async function handleMessage(
   }
 }
 
+// ============ 高亮摘录 ============
+
+interface CapturedSelection {
+  exact: string;
+  prefix?: string;
+  suffix?: string;
+  start?: number;
+  end?: number;
+}
+
+// 在页面中执行：读取当前选区及前后文，作为重新定位原文的文本选择器
+function captureSelection(): CapturedSelection | null {
+  const CONTEXT_LENGTH = 64;
+  const selection = window.getSelection();
+  if (!selection || selection.rangeCount === 0) {
+    return null;
+  }
+
+  const exact = selection.toString().trim();
+  if (!exact) {
+    return null;
+  }
+
+  const range = selection.getRangeAt(0);
+  const fullText = document.body?.innerText || '';
+  const before = document.createRange();
+  before.setStart(document.body, 0);
+  before.setEnd(range.startContainer, range.startOffset);
+  const start = fullText.indexOf(exact, Math.max(0, before.toString().length - CONTEXT_LENGTH));
+
+  if (start === -1) {
+    return { exact };
+  }
+
+  return {
+    exact,
+    prefix: fullText.slice(Math.max(0, start - CONTEXT_LENGTH), start) || undefined,
+    suffix: fullText.slice(start + exact.length, start + exact.length + CONTEXT_LENGTH) || undefined,
+    start,
+    end: start + exact.length
+  };
+}
+
+function notify(message: string) {
+  chrome.notifications.create({
+    type: 'basic',
+    iconUrl: '/icons/icon-128.png',
+    title: 'AI 书签助手',
+    message
+  });
+}
+
+async function saveHighlight(info: chrome.contextMenus.OnClickData, tab?: chrome.tabs.Tab) {
+  if (!tab?.id || !tab.url || !/^https?:/.test(tab.url)) {
+    notify('当前页面不支持保存高亮');
+    return;
+  }
+
+  try {
+    let selector: CapturedSelection | null = null;
+    try {
+      const [result] = await chrome.scripting.executeScript({
+        target: { tabId: tab.id },
+        func: captureSelection
+      });
+      selector = (result?.result as CapturedSelection | null) ?? null;
+    } catch (error) {
+      // 无法注入脚本时退回到右键菜单提供的选中文本
+      console.warn('[Background] 读取选区失败:', error);
+    }
+
+    const quote = selector?.exact || info.selectionText?.trim();
+    if (!quote) {
+      notify('请先选中要保存的文本');
+      return;
+    }
+
+    // 书签已存在时返回现有书签，否则新建
+    const bookmark = await bookmarkAPI.addBookmark({
+      title: tab.title || tab.url,
+      url: tab.url,
+      tags: []
+    });
+
+    await bookmarkAPI.addHighlight(bookmark.id, {
+      quote,
+      selector: selector ?? { exact: quote }
+    });
+
+    notify(bookmark.isExisting ? '高亮已保存到书签' : '已创建书签并保存高亮');
+  } catch (error) {
+    console.error('[Background] 保存高亮失败:', error);
+    notify(`保存高亮失败: ${error instanceof Error ? error.message : '未知错误'}`);
+  }
+}
+
+chrome.contextMenus.onClicked.addListener((info, tab) => {
+  if (info.menuItemId === HIGHLIGHT_MENU_ID) {
+    saveHighlight(info, tab).catch(() => {});
+  }
+});
+
 // Handle extension icon click (optional)
 chrome.action.onClicked.addListener(async () => {
   // The popup will open automatically due to manifest.json configuration
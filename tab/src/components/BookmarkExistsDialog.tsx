@@ -10,15 +10,26 @@ interface ExistingBookmark {
   tags: Array<{ id: string; name: string; color: string | null }>;
   has_snapshot?: boolean;
   snapshot_count?: number;
+  reading_status?: ReadingStatus | null;
   created_at: string;
 }
 
+type ReadingStatus = 'unread' | 'reading' | 'read';
+
+const READING_OPTIONS: Array<{ value: ReadingStatus | null; label: string }> = [
+  { value: 'unread', label: '未读' },
+  { value: 'reading', label: '阅读中' },
+  { value: 'read', label: '已读' },
+  { value: null, label: '移出队列' },
+];
+
 interface BookmarkExistsDialogProps {
   bookmark: ExistingBookmark;
   newTags: string[];
   onUpdateTags: (tags: string[]) => Promise<void>;
   onUpdateDescription: (description: string) => Promise<void>;
   onCreateSnapshot: () => Promise<void>;
+  onUpdateReadingState: (status: ReadingStatus | null) => Promise<void>;
   onCancel: () => void;
 }
 
@@ -28,6 +39,7 @@ export function BookmarkExistsDialog({
   onUpdateTags,
   onUpdateDescription,
   onCreateSnapshot,
+  onUpdateReadingState,
   onCancel,
 }: BookmarkExistsDialogProps) {
   const [selectedAction, setSelectedAction] = useState<'snapshot' | 'update-tags' | 'update-description' | null>(null);
@@ -121,6 +133,22 @@ export function BookmarkExistsDialog({
     }
   };
 
+  const handleReadingState = async (status: ReadingStatus | null) => {
+    setIsProcessing(true);
+    setProcessingMessage('正在更新阅读状态...');
+
+    try {
+      await onUpdateReadingState(status);
+      setProcessingMessage(status ? '阅读状态已更新！' : '已移出稍后阅读');
+    } catch (error) {
+      setProcessingMessage('阅读状态更新失败');
+    }
+
+    setTimeout(() => {
+      setIsProcessing(false);
+    }, 1500);
+  };
+
   return (
     <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/50 backdrop-blur-sm animate-in fade-in duration-200">
       {/* Loading Message - 显示在对话框上方 */}
@@ -252,6 +280,31 @@ export function BookmarkExistsDialog({
             </div>
           </div>
 
+          {/* 稍后阅读 */}
+          <div className="flex items-center justify-between gap-3">
+            <div className="text-xs text-gray-500 dark:text-gray-400 flex-shrink-0">阅读状态</div>
+            <div className="flex flex-wrap justify-end gap-1.5">
+              {READING_OPTIONS.map((option) => {
+                const active = (bookmark.reading_status ?? null) === option.value;
+                return (
+                  <button
+                    key={option.label}
+                    type="button"
+                    onClick={() => handleReadingState(option.value)}
+                    disabled={isProcessing || active}
+                    className={`px-2.5 py-1 text-xs font-medium rounded-full border transition-colors disabled:cursor-not-allowed ${
+                      active
+                        ? 'border-sky-500 bg-sky-50 dark:bg-sky-900/20 text-sky-700 dark:text-sky-300'
+                        : 'border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-400 hover:border-gray-300 dark:hover:border-gray-600 disabled:opacity-50'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
           {/* 新标签提示 */}
           {hasNewTags && (
             <div className="bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg p-3">
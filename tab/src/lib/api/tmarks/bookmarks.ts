@@ -11,6 +11,8 @@ import type {
   CreateBookmarkResponse,
   GetBookmarkResponse,
   UpdateBookmarkInput,
+  UpdateReadingStateInput,
+  ReadingStateResponse,
   TMarksBookmark,
 } from './types';
 
@@ -172,6 +174,14 @@ export class BookmarksAPI extends TMarksClient {
     return this.updateBookmark(id, { is_archived: false });
   }
 
+  /**
+   * 设置阅读状态和进度（稍后阅读）
+   * PUT /api/tab/bookmarks/:id/reading
+   */
+  async updateReadingState(id: string, input: UpdateReadingStateInput): Promise<ReadingStateResponse> {
+    return this.put<ReadingStateResponse>(`/tab/bookmarks/${id}/reading`, input);
+  }
+
   /**
    * 批量更新置顶书签排序
    * POST /api/tab/bookmarks/reorder-pinned
@@ -0,0 +1,57 @@
+/**
+ * TMarks API - 增量同步模块
+ * 基于变更流（change feed）的增量同步
+ */
+
+import { TMarksClient } from './client';
+import type { TMarksBookmark, TMarksTag } from './types';
+import type { TMarksTabGroup } from './tab-groups';
+
+// ============ Request/Response Types ============
+
+export interface TMarksChangeSet<T> {
+  upserted: T[];
+  deleted: string[];
+}
+
+export interface GetChangesParams {
+  since: string;
+  limit?: number;
+}
+
+export interface GetChangeCursorResponse {
+  data: {
+    cursor: string;
+  };
+}
+
+export interface GetChangesResponse {
+  data: {
+    cursor: string;
+    has_more: boolean;
+    bookmarks: TMarksChangeSet<TMarksBookmark>;
+    tags: TMarksChangeSet<TMarksTag>;
+    tab_groups: TMarksChangeSet<TMarksTabGroup>;
+  };
+}
+
+// ============ API Client ============
+
+export class ChangesAPI extends TMarksClient {
+  /**
+   * 获取当前变更游标（全量同步前调用）
+   * GET /api/tab/changes
+   */
+  async getChangeCursor(): Promise<GetChangeCursorResponse> {
+    return this.get<GetChangeCursorResponse>('/tab/changes');
+  }
+
+  /**
+   * 获取游标之后的变更
+   * GET /api/tab/changes?since=<cursor>
+   * 游标过期时返回 409 CURSOR_EXPIRED，需要重新全量同步
+   */
+  async getChanges(params: GetChangesParams): Promise<GetChangesResponse> {
+    return this.get<GetChangesResponse>('/tab/changes', params);
+  }
+}
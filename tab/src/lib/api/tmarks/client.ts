@@ -213,6 +213,16 @@ export class TMarksClient {
     });
   }
 
+  /**
+   * PUT 请求
+   */
+  protected async put<T>(endpoint: string, body: any): Promise<T> {
+    return this.request<T>(endpoint, {
+      method: 'PUT',
+      body: JSON.stringify(body),
+    });
+  }
+
   /**
    * DELETE 请求
    */
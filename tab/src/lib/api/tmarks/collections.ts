@@ -0,0 +1,72 @@
+/**
+ * TMarks API - 智能集合模块
+ * 智能集合保存一组筛选条件，读取书签时由服务端重新查询
+ */
+
+import { TMarksClient } from './client';
+import type { TMarksBookmark, PaginationMeta } from './types';
+
+// ============ Request/Response Types ============
+
+export interface TMarksCollectionFilters {
+  keyword?: string;
+  tags?: string[];
+  tag_mode?: 'all' | 'any';
+  exclude_tags?: string[];
+  include_descendants?: boolean;
+  archived?: boolean;
+  pinned?: boolean;
+  link_status?: 'ok' | 'redirected' | 'broken' | 'error';
+  sort?: 'created' | 'updated' | 'pinned' | 'popular' | 'relevance';
+}
+
+export interface TMarksCollection {
+  id: string;
+  name: string;
+  filters: TMarksCollectionFilters;
+  position: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface GetCollectionsResponse {
+  data: {
+    collections: TMarksCollection[];
+  };
+}
+
+export interface GetCollectionBookmarksParams {
+  page_size?: number;
+  page_cursor?: string;
+}
+
+export interface GetCollectionBookmarksResponse {
+  data: {
+    collection: TMarksCollection;
+    bookmarks: TMarksBookmark[];
+    meta: PaginationMeta;
+  };
+}
+
+// ============ API Client ============
+
+export class CollectionsAPI extends TMarksClient {
+  /**
+   * 获取智能集合列表
+   * GET /api/tab/collections
+   */
+  async getCollections(): Promise<GetCollectionsResponse> {
+    return this.get<GetCollectionsResponse>('/tab/collections');
+  }
+
+  /**
+   * 获取智能集合中的书签（按集合的筛选条件重新查询）
+   * GET /api/tab/collections/:id/bookmarks
+   */
+  async getCollectionBookmarks(
+    id: string,
+    params?: GetCollectionBookmarksParams
+  ): Promise<GetCollectionBookmarksResponse> {
+    return this.get<GetCollectionBookmarksResponse>(`/tab/collections/${id}/bookmarks`, params);
+  }
+}
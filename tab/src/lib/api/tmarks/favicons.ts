@@ -0,0 +1,28 @@
+/**
+ * TMarks API - 站点图标模块
+ * 图标代理只为带签名的地址解析新域名
+ */
+
+import { TMarksClient } from './client';
+
+// ============ Request/Response Types ============
+
+export interface GetFaviconSignatureResponse {
+  data: {
+    /** 追加到 /api/favicons/:domain 地址后的查询参数 */
+    query: string;
+    expires_at: string;
+  };
+}
+
+// ============ API Client ============
+
+export class FaviconsAPI extends TMarksClient {
+  /**
+   * 获取图标地址签名
+   * GET /api/tab/favicons/token
+   */
+  async getSignature(): Promise<GetFaviconSignatureResponse> {
+    return this.get<GetFaviconSignatureResponse>('/tab/favicons/token');
+  }
+}
@@ -8,6 +8,11 @@ import { TagsAPI } from './tags';
 import { UserAPI } from './user';
 import { TabGroupsAPI } from './tab-groups';
 import { SnapshotsAPI } from './snapshots';
+import { ChangesAPI } from './changes';
+import { CollectionsAPI } from './collections';
+import { NotesAPI } from './notes';
+import { RemindersAPI } from './reminders';
+import { FaviconsAPI } from './favicons';
 import type { TMarksClientConfig } from './client';
 
 /**
@@ -20,6 +25,11 @@ export class TMarks {
   public user: UserAPI;
   public tabGroups: TabGroupsAPI;
   public snapshots: SnapshotsAPI;
+  public changes: ChangesAPI;
+  public collections: CollectionsAPI;
+  public notes: NotesAPI;
+  public reminders: RemindersAPI;
+  public favicons: FaviconsAPI;
 
   constructor(config: TMarksClientConfig) {
     this.bookmarks = new BookmarksAPI(config);
@@ -27,6 +37,11 @@ export class TMarks {
     this.user = new UserAPI(config);
     this.tabGroups = new TabGroupsAPI(config);
     this.snapshots = new SnapshotsAPI(config);
+    this.changes = new ChangesAPI(config);
+    this.collections = new CollectionsAPI(config);
+    this.notes = new NotesAPI(config);
+    this.reminders = new RemindersAPI(config);
+    this.favicons = new FaviconsAPI(config);
   }
 
   /**
@@ -52,5 +67,15 @@ export { TagsAPI } from './tags';
 export { UserAPI } from './user';
 export { TabGroupsAPI } from './tab-groups';
 export { SnapshotsAPI } from './snapshots';
+export { ChangesAPI } from './changes';
+export { CollectionsAPI } from './collections';
+export { NotesAPI } from './notes';
+export { RemindersAPI } from './reminders';
+export { FaviconsAPI } from './favicons';
 export type * from './tab-groups';
 export type * from './snapshots';
+export type * from './changes';
+export type * from './collections';
+export type * from './notes';
+export type * from './reminders';
+export type * from './favicons';
@@ -0,0 +1,98 @@
+/**
+ * TMarks API - 书签笔记模块
+ * 每个书签可以有多条 Markdown 笔记（note）和从页面摘录的高亮（highlight）
+ */
+
+import { TMarksClient } from './client';
+
+// ============ Request/Response Types ============
+
+export type TMarksNoteKind = 'note' | 'highlight';
+
+export type TMarksHighlightColor = 'yellow' | 'green' | 'blue' | 'pink' | 'purple';
+
+/**
+ * 文本选择器：exact 为选中文本，prefix/suffix 为前后文，用于重新定位原文
+ */
+export interface TMarksNoteSelector {
+  exact: string;
+  prefix?: string;
+  suffix?: string;
+  start?: number;
+  end?: number;
+}
+
+export interface TMarksBookmarkNote {
+  id: string;
+  bookmark_id: string;
+  kind: TMarksNoteKind;
+  content: string;
+  quote: string | null;
+  selector: TMarksNoteSelector | null;
+  color: TMarksHighlightColor | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateNoteRequest {
+  kind?: TMarksNoteKind;
+  content?: string;
+  quote?: string;
+  selector?: TMarksNoteSelector;
+  color?: TMarksHighlightColor;
+}
+
+export interface UpdateNoteRequest {
+  content?: string;
+  quote?: string | null;
+  selector?: TMarksNoteSelector | null;
+  color?: TMarksHighlightColor | null;
+}
+
+export interface GetNotesResponse {
+  data: {
+    notes: TMarksBookmarkNote[];
+  };
+}
+
+export interface NoteResponse {
+  data: {
+    note: TMarksBookmarkNote;
+  };
+}
+
+// ============ API Client ============
+
+export class NotesAPI extends TMarksClient {
+  /**
+   * 获取书签的笔记和高亮
+   * GET /api/tab/bookmarks/:id/notes
+   */
+  async getNotes(bookmarkId: string): Promise<GetNotesResponse> {
+    return this.get<GetNotesResponse>(`/tab/bookmarks/${bookmarkId}/notes`);
+  }
+
+  /**
+   * 添加笔记或高亮
+   * POST /api/tab/bookmarks/:id/notes
+   */
+  async createNote(bookmarkId: string, data: CreateNoteRequest): Promise<NoteResponse> {
+    return this.post<NoteResponse>(`/tab/bookmarks/${bookmarkId}/notes`, data);
+  }
+
+  /**
+   * 更新笔记
+   * PATCH /api/tab/bookmarks/:id/notes/:noteId
+   */
+  async updateNote(bookmarkId: string, noteId: string, data: UpdateNoteRequest): Promise<NoteResponse> {
+    return this.patch<NoteResponse>(`/tab/bookmarks/${bookmarkId}/notes/${noteId}`, data);
+  }
+
+  /**
+   * 删除笔记
+   * DELETE /api/tab/bookmarks/:id/notes/:noteId
+   */
+  async deleteNote(bookmarkId: string, noteId: string): Promise<void> {
+    return this.delete<void>(`/tab/bookmarks/${bookmarkId}/notes/${noteId}`);
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * TMarks API - 书签提醒模块
+ * 包括用户手动设置的提醒和服务端自动重温挑选出的被遗忘书签
+ */
+
+import { TMarksClient } from './client';
+
+// ============ Request/Response Types ============
+
+export type TMarksReminderSource = 'manual' | 'resurface';
+
+export type TMarksReminderStatus = 'pending' | 'done' | 'dismissed';
+
+export type TMarksReminderAction = 'done' | 'dismiss' | 'snooze';
+
+export interface TMarksReminder {
+  id: string;
+  bookmark_id: string;
+  remind_at: string;
+  note: string | null;
+  source: TMarksReminderSource;
+  status: TMarksReminderStatus;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TMarksReminderWithBookmark extends TMarksReminder {
+  bookmark: {
+    id: string;
+    title: string;
+    url: string;
+    description: string | null;
+    favicon: string | null;
+    click_count: number;
+    last_clicked_at: string | null;
+    created_at: string;
+  };
+}
+
+export interface SetReminderRequest {
+  remind_at?: string;
+  remind_in_days?: number;
+  note?: string | null;
+}
+
+export interface GetDueRemindersResponse {
+  data: {
+    reminders: TMarksReminderWithBookmark[];
+  };
+}
+
+export interface ReminderResponse {
+  data: {
+    reminder: TMarksReminder;
+  };
+}
+
+// ============ API Client ============
+
+export class RemindersAPI extends TMarksClient {
+  /**
+   * 获取已到期的提醒（服务端会先生成到期的自动重温提醒）
+   * GET /api/tab/reminders/due
+   */
+  async getDueReminders(): Promise<GetDueRemindersResponse> {
+    return this.get<GetDueRemindersResponse>('/tab/reminders/due');
+  }
+
+  /**
+   * 处理提醒：完成、忽略或推迟
+   * PATCH /api/tab/reminders/:id
+   */
+  async updateReminder(
+    id: string,
+    action: TMarksReminderAction,
+    snoozeDays?: number
+  ): Promise<ReminderResponse> {
+    return this.patch<ReminderResponse>(`/tab/reminders/${id}`, {
+      action,
+      snooze_days: snoozeDays
+    });
+  }
+
+  /**
+   * 设置书签提醒
+   * PUT /api/tab/bookmarks/:id/reminder
+   */
+  async setBookmarkReminder(bookmarkId: string, data: SetReminderRequest): Promise<ReminderResponse> {
+    return this.put<ReminderResponse>(`/tab/bookmarks/${bookmarkId}/reminder`, data);
+  }
+
+  /**
+   * 取消书签提醒
+   * DELETE /api/tab/bookmarks/:id/reminder
+   */
+  async clearBookmarkReminder(bookmarkId: string): Promise<void> {
+    return this.delete<void>(`/tab/bookmarks/${bookmarkId}/reminder`);
+  }
+}
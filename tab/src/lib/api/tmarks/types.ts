@@ -27,11 +27,17 @@ export interface TMarksBookmark {
   is_archived: boolean;
   click_count: number;
   last_clicked_at?: string;
+  reading_status?: TMarksReadingStatus | null; // 稍后阅读状态，null 表示不在阅读队列中
+  reading_progress?: number;
+  reading_queued_at?: string | null;
+  read_at?: string | null;
   created_at: string;
   updated_at: string;
   tags: TMarksTag[];
 }
 
+export type TMarksReadingStatus = 'unread' | 'reading' | 'read';
+
 export interface TMarksUser {
   id: string;
   username: string;
@@ -51,10 +57,11 @@ export interface GetBookmarksParams {
   keyword?: string;
   tags?: string; // 逗号分隔的 tag IDs
   page_size?: number;
-  page_cursor?: string;
-  sort?: 'created' | 'updated' | 'pinned';
+  page_cursor?: string; // 上一页返回的 next_cursor（不透明字符串）
+  sort?: 'created' | 'updated' | 'pinned' | 'popular' | 'queue';
   archived?: boolean;
   pinned?: boolean;
+  reading_status?: string; // 逗号分隔的阅读状态
 }
 
 export interface CreateBookmarkInput {
@@ -68,6 +75,7 @@ export interface CreateBookmarkInput {
   is_public?: boolean;
   is_pinned?: boolean;
   is_archived?: boolean;
+  read_later?: boolean; // 加入稍后阅读队列
 }
 
 export interface UpdateBookmarkInput {
@@ -115,6 +123,23 @@ export interface GetBookmarksResponse {
   };
 }
 
+export interface UpdateReadingStateInput {
+  status?: TMarksReadingStatus | null; // null 表示移出阅读队列
+  progress?: number; // 0-100，只传进度时自动推导状态
+}
+
+export interface ReadingStateResponse {
+  data: {
+    reading: {
+      reading_status: TMarksReadingStatus | null;
+      reading_progress: number;
+      reading_queued_at: string | null;
+      reading_started_at: string | null;
+      read_at: string | null;
+    };
+  };
+}
+
 export interface CreateBookmarkResponse {
   data: {
     bookmark: TMarksBookmark;
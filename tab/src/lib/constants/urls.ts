@@ -55,6 +55,28 @@ export function normalizeApiUrl(url: string): string {
     return `${cleanUrl}/api`;
 }
 
+/**
+ * 生成 TMarks 站点图标代理地址（服务端缓存图标，无图标时返回字母头像）
+ * @param apiBase 标准化后的 API URL（见 normalizeApiUrl）
+ * @param pageUrl 网页 URL
+ * @param size 图标尺寸（服务端取 16/32/64/128 中不小于该值的最小尺寸）
+ * @param signatureQuery 图标签名参数（/api/tab/favicons/token），未缓存的域名只有带签名才会被解析；
+ *                       会保存到服务端的地址不要带签名
+ * @returns 图标地址，网页 URL 无效时返回空字符串
+ */
+export function getFaviconProxyUrl(apiBase: string, pageUrl: string, size: number = 64, signatureQuery?: string): string {
+    try {
+        const { hostname } = new URL(pageUrl);
+        if (!hostname) {
+            return '';
+        }
+        const url = `${apiBase}/favicons/${encodeURIComponent(hostname)}?size=${size}`;
+        return signatureQuery ? `${url}&${signatureQuery}` : url;
+    } catch {
+        return '';
+    }
+}
+
 // AI 服务默认 URL
 export const AI_SERVICE_URLS = {
     OPENAI: 'https://api.openai.com/v1',
@@ -77,11 +99,6 @@ export const AI_SERVICE_DOCS = {
     IFLOW: 'https://console.xfyun.cn/services/iat',
 } as const;
 
-// 外部服务
-export const EXTERNAL_SERVICES = {
-    GOOGLE_FAVICON: 'https://www.google.com/s2/favicons',
-} as const;
-
 // 超时配置（毫秒）
 export const TIMEOUTS = {
     AI_REQUEST: 30000, // 30秒
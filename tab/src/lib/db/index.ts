@@ -25,6 +25,15 @@ export class BookmarkDB extends Dexie {
       tabGroups: '++id, title, createdAt, remoteId',
       tabGroupItems: '++id, groupId, title, url, position, createdAt'
     });
+
+    // Version 3: Track remote tag ids for incremental sync
+    this.version(3).stores({
+      tags: '++id, name, color, createdAt, count, remoteId',
+      bookmarks: '++id, url, title, createdAt, remoteId, isPublic, *tags',
+      metadata: 'key, updatedAt',
+      tabGroups: '++id, title, createdAt, remoteId',
+      tabGroupItems: '++id, groupId, title, url, position, createdAt'
+    });
   }
 
   // Helper methods
@@ -41,6 +50,19 @@ export class BookmarkDB extends Dexie {
     });
   }
 
+  async getSyncCursor(): Promise<string | null> {
+    const meta = await this.metadata.get('syncCursor');
+    return meta && typeof meta.value === 'string' ? meta.value : null;
+  }
+
+  async updateSyncCursor(cursor: string): Promise<void> {
+    await this.metadata.put({
+      key: 'syncCursor',
+      value: cursor,
+      updatedAt: Date.now()
+    });
+  }
+
   async getStats(): Promise<{ tags: number; bookmarks: number; lastSync: number }> {
     const [tagsCount, bookmarksCount, lastSync] = await Promise.all([
       this.tags.count(),
@@ -2,13 +2,47 @@ import type {
   BookmarkInput,
   Tag,
   Bookmark,
+  RemoteChanges,
   ErrorCode
 } from '@/types';
 import { AppError } from '@/types';
 import { StorageService } from '@/lib/utils/storage';
-import { createTMarksClient, type TMarksBookmark, type TMarksTag } from '@/lib/api/tmarks';
+import {
+  createTMarksClient,
+  TMarksAPIError,
+  type TMarksBookmark,
+  type TMarksBookmarkNote,
+  type TMarksNoteSelector,
+  type TMarksReadingStatus,
+  type TMarksReminderAction,
+  type TMarksReminderWithBookmark,
+  type TMarksTag
+} from '@/lib/api/tmarks';
 import { getTMarksUrls } from '@/lib/constants/urls';
 
+// Convert TMarks API format to internal format
+function toLocalTag(tag: TMarksTag): Tag {
+  return {
+    name: tag.name,
+    color: tag.color,
+    count: tag.bookmark_count || 0,
+    createdAt: new Date(tag.created_at).getTime(),
+    remoteId: tag.id
+  };
+}
+
+function toLocalBookmark(bm: TMarksBookmark): Bookmark {
+  return {
+    url: bm.url,
+    title: bm.title,
+    description: bm.description || '',
+    tags: bm.tags.map((tag: TMarksTag) => tag.name), // 只保留标签名称
+    createdAt: new Date(bm.created_at).getTime(),
+    remoteId: bm.id,
+    isPublic: bm.is_public
+  };
+}
+
 export class BookmarkAPIClient {
   private client: ReturnType<typeof createTMarksClient> | null = null;
 
@@ -76,12 +110,7 @@ export class BookmarkAPIClient {
       const response = await client.tags.getTags();
 
       // Convert TMarks API format to internal format
-      return response.data.tags.map((tag: TMarksTag) => ({
-        name: tag.name,
-        color: tag.color,
-        count: tag.bookmark_count || 0,
-        createdAt: new Date(tag.created_at).getTime()
-      }));
+      return response.data.tags.map(toLocalTag);
     } catch (error: any) {
       if (error.code === 'MISSING_API_KEY') {
         throw new AppError(
@@ -100,37 +129,32 @@ export class BookmarkAPIClient {
 
   /**
    * Get bookmarks with pagination
+   * Pass the returned nextCursor (opaque) to fetch the following page
    */
-  async getBookmarks(page: number = 1, limit: number = 100): Promise<{
+  async getBookmarks(cursor?: string, limit: number = 100): Promise<{
     bookmarks: Bookmark[];
     hasMore: boolean;
+    nextCursor: string | null;
   }> {
     const client = await this.ensureClient();
 
     try {
       const response = await client.bookmarks.getBookmarks({
         page_size: limit,
-        page_cursor: page > 1 ? `page_${page}` : undefined
+        page_cursor: cursor
       });
 
       if (!response.data.bookmarks.length) {
-        return { bookmarks: [], hasMore: false };
+        return { bookmarks: [], hasMore: false, nextCursor: null };
       }
 
       // Convert TMarks API format to internal format
-      const bookmarks = response.data.bookmarks.map((bm: TMarksBookmark) => ({
-        url: bm.url,
-        title: bm.title,
-        description: bm.description || '',
-        tags: bm.tags.map((tag: TMarksTag) => tag.name), // 只保留标签名称
-        createdAt: new Date(bm.created_at).getTime(),
-        remoteId: bm.id,
-        isPublic: bm.is_public
-      }));
+      const bookmarks = response.data.bookmarks.map(toLocalBookmark);
 
       return {
         bookmarks,
-        hasMore: response.data.meta.has_more
+        hasMore: response.data.meta.has_more,
+        nextCursor: response.data.meta.next_cursor
       };
     } catch (error: any) {
       throw new AppError(
@@ -141,6 +165,66 @@ export class BookmarkAPIClient {
     }
   }
 
+  /**
+   * Get the current change cursor (call before a full sync)
+   */
+  async getChangeCursor(): Promise<string> {
+    const client = await this.ensureClient();
+
+    try {
+      const response = await client.changes.getChangeCursor();
+      return response.data.cursor;
+    } catch (error: any) {
+      throw new AppError(
+        'BOOKMARK_SITE_ERROR' as ErrorCode,
+        `Failed to fetch change cursor: ${error.message}`,
+        { originalError: error }
+      );
+    }
+  }
+
+  /**
+   * Get changes since a cursor
+   * Returns null when the cursor has expired and a full sync is required
+   */
+  async getChanges(since: string): Promise<RemoteChanges | null> {
+    const client = await this.ensureClient();
+
+    try {
+      const response = await client.changes.getChanges({ since });
+      const { data } = response;
+
+      return {
+        cursor: data.cursor,
+        hasMore: data.has_more,
+        bookmarks: {
+          upserted: data.bookmarks.upserted.map(toLocalBookmark),
+          deleted: data.bookmarks.deleted
+        },
+        tags: {
+          upserted: data.tags.upserted.map(toLocalTag),
+          deleted: data.tags.deleted
+        },
+        tabGroups: {
+          upserted: data.tab_groups.upserted.map(group => ({
+            remoteId: group.id,
+            title: group.title
+          })),
+          deleted: data.tab_groups.deleted
+        }
+      };
+    } catch (error: any) {
+      if (error instanceof TMarksAPIError && (error.code === 'CURSOR_EXPIRED' || error.code === 'INVALID_CURSOR')) {
+        return null;
+      }
+      throw new AppError(
+        'BOOKMARK_SITE_ERROR' as ErrorCode,
+        `Failed to fetch changes: ${error.message}`,
+        { originalError: error }
+      );
+    }
+  }
+
   /**
    * Add a new bookmark
    */
@@ -155,7 +239,8 @@ export class BookmarkAPIClient {
       cover_image: bookmark.thumbnail,
       favicon: bookmark.favicon,
       tags: bookmark.tags,
-      is_public: bookmark.isPublic ?? false
+      is_public: bookmark.isPublic ?? false,
+      read_later: bookmark.readLater || undefined
     };
 
     // 打印请求数据用于调试
@@ -357,6 +442,84 @@ export class BookmarkAPIClient {
     }
   }
 
+  /**
+   * Update reading state (read-later queue)
+   */
+  async updateReadingState(bookmarkId: string, status: TMarksReadingStatus | null): Promise<void> {
+    const client = await this.ensureClient();
+
+    try {
+      await client.bookmarks.updateReadingState(bookmarkId, { status });
+    } catch (error: any) {
+      throw new AppError(
+        'BOOKMARK_SITE_ERROR' as ErrorCode,
+        `Failed to update reading state: ${error.message}`,
+        { originalError: error }
+      );
+    }
+  }
+
+  /**
+   * Save a highlighted quote to a bookmark
+   */
+  async addHighlight(
+    bookmarkId: string,
+    highlight: { quote: string; selector?: TMarksNoteSelector; content?: string }
+  ): Promise<TMarksBookmarkNote> {
+    const client = await this.ensureClient();
+
+    try {
+      const response = await client.notes.createNote(bookmarkId, {
+        kind: 'highlight',
+        quote: highlight.quote,
+        selector: highlight.selector,
+        content: highlight.content
+      });
+      return response.data.note;
+    } catch (error: any) {
+      throw new AppError(
+        'BOOKMARK_SITE_ERROR' as ErrorCode,
+        `Failed to save highlight: ${error.message}`,
+        { originalError: error }
+      );
+    }
+  }
+
+  /**
+   * Get due reminders (including resurfaced bookmarks)
+   */
+  async getDueReminders(): Promise<TMarksReminderWithBookmark[]> {
+    const client = await this.ensureClient();
+
+    try {
+      const response = await client.reminders.getDueReminders();
+      return response.data.reminders;
+    } catch (error: any) {
+      throw new AppError(
+        'BOOKMARK_SITE_ERROR' as ErrorCode,
+        `Failed to get due reminders: ${error.message}`,
+        { originalError: error }
+      );
+    }
+  }
+
+  /**
+   * Mark a reminder as done / dismissed, or snooze it
+   */
+  async updateReminder(reminderId: string, action: TMarksReminderAction, snoozeDays?: number): Promise<void> {
+    const client = await this.ensureClient();
+
+    try {
+      await client.reminders.updateReminder(reminderId, action, snoozeDays);
+    } catch (error: any) {
+      throw new AppError(
+        'BOOKMARK_SITE_ERROR' as ErrorCode,
+        `Failed to update reminder: ${error.message}`,
+        { originalError: error }
+      );
+    }
+  }
+
   /**
    * Test API connection
    */
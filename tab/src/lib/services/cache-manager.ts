@@ -1,7 +1,7 @@
 import { db } from '@/lib/db';
 import { bookmarkAPI } from './bookmark-api';
 import { tagRecommender } from './tag-recommender';
-import type { SyncResult } from '@/types';
+import type { SyncResult, RemoteChanges } from '@/types';
 import { PAGINATION } from '@/lib/constants/urls';
 
 export class CacheManager {
@@ -12,6 +12,9 @@ export class CacheManager {
     const startTime = Date.now();
 
     try {
+      // 0. Capture the change cursor first, so changes made during the sync are replayed by the next incremental sync
+      const cursor = await bookmarkAPI.getChangeCursor().catch(() => null);
+
       // 1. Fetch and cache tags
       const tags = await bookmarkAPI.getTags();
       await db.tags.clear();
@@ -19,23 +22,30 @@ export class CacheManager {
 
       // 2. Fetch and cache bookmarks (paginated)
       let page = 1;
+      let pageCursor: string | undefined;
       let totalBookmarks = 0;
       await db.bookmarks.clear();
 
       while (page <= PAGINATION.MAX_PAGES) { // Safety limit
-        const { bookmarks, hasMore } = await bookmarkAPI.getBookmarks(page, PAGINATION.DEFAULT_PAGE_SIZE);
+        const { bookmarks, hasMore, nextCursor } = await bookmarkAPI.getBookmarks(pageCursor, PAGINATION.DEFAULT_PAGE_SIZE);
 
         if (bookmarks.length > 0) {
           await db.bookmarks.bulkAdd(bookmarks);
           totalBookmarks += bookmarks.length;
         }
 
-        if (!hasMore) break;
+        if (!hasMore || !nextCursor) break;
+        pageCursor = nextCursor;
         page++;
       }
 
       // 3. Update metadata
       await db.updateLastSyncTime(Date.now());
+      if (cursor) {
+        await db.updateSyncCursor(cursor);
+      } else {
+        await db.metadata.delete('syncCursor');
+      }
       await db.metadata.put({
         key: 'totalTags',
         value: tags.length,
@@ -68,27 +78,73 @@ export class CacheManager {
   }
 
   /**
-   * Incremental sync: Only fetch recent changes
-   * Note: Requires bookmark site to support 'since' parameter
-   * Falls back to full sync if not supported
+   * Incremental sync: Fetch changes since the last sync cursor and merge them into the cache
+   * Falls back to full sync when there is no cursor or the cursor has expired
    */
   async incrementalSync(): Promise<SyncResult> {
+    const startTime = Date.now();
+
     try {
       const lastSync = await db.getLastSyncTime();
+      let cursor = await db.getSyncCursor();
 
-      if (lastSync === 0) {
-        // No previous sync, do full sync
+      if (lastSync === 0 || !cursor) {
+        // No previous sync (or synced before change feed support), do full sync
         return this.fullSync();
       }
 
-      // TODO: Implement incremental sync when API supports it
-      // For now, we'll do a simple full sync
-      // In production, you would:
-      // 1. GET /api/bookmarks?since={lastSync}
-      // 2. GET /api/tags?since={lastSync}
-      // 3. Merge changes into existing data
+      let changedTags = 0;
+      let changedBookmarks = 0;
+      let page = 0;
+
+      while (page < PAGINATION.MAX_PAGES) { // Safety limit
+        const changes = await bookmarkAPI.getChanges(cursor);
+
+        if (!changes) {
+          // Cursor expired on the server, rebuild the cache
+          return this.fullSync();
+        }
+
+        await this.applyChanges(changes);
+        changedTags += changes.tags.upserted.length + changes.tags.deleted.length;
+        changedBookmarks += changes.bookmarks.upserted.length + changes.bookmarks.deleted.length;
+
+        cursor = changes.cursor;
+        await db.updateSyncCursor(cursor);
+
+        if (!changes.hasMore) break;
+        page++;
+      }
+
+      const [totalTags, totalBookmarks] = await Promise.all([
+        db.tags.count(),
+        db.bookmarks.count()
+      ]);
 
-      return this.fullSync();
+      await db.updateLastSyncTime(Date.now());
+      await db.metadata.put({
+        key: 'totalTags',
+        value: totalTags,
+        updatedAt: Date.now()
+      });
+      await db.metadata.put({
+        key: 'totalBookmarks',
+        value: totalBookmarks,
+        updatedAt: Date.now()
+      });
+
+      if (changedTags > 0 || changedBookmarks > 0) {
+        await tagRecommender.refreshContextFromDB();
+      }
+
+      return {
+        success: true,
+        duration: Date.now() - startTime,
+        stats: {
+          tags: changedTags,
+          bookmarks: changedBookmarks
+        }
+      };
     } catch (error) {
       return {
         success: false,
@@ -97,6 +153,43 @@ export class CacheManager {
     }
   }
 
+  /**
+   * Merge one page of remote changes into the local cache (matched by remote id)
+   */
+  private async applyChanges(changes: RemoteChanges): Promise<void> {
+    await db.transaction('rw', [db.tags, db.bookmarks, db.tabGroups, db.tabGroupItems], async () => {
+      // Tags
+      for (const tag of changes.tags.upserted) {
+        const existing = await db.tags.where('remoteId').equals(tag.remoteId!).first()
+          ?? await db.tags.where('name').equals(tag.name).first();
+        await db.tags.put(existing ? { ...tag, id: existing.id } : tag);
+      }
+      if (changes.tags.deleted.length > 0) {
+        await db.tags.where('remoteId').anyOf(changes.tags.deleted).delete();
+      }
+
+      // Bookmarks
+      for (const bookmark of changes.bookmarks.upserted) {
+        const existing = await db.bookmarks.where('remoteId').equals(bookmark.remoteId!).first();
+        await db.bookmarks.put(existing ? { ...bookmark, id: existing.id } : bookmark);
+      }
+      if (changes.bookmarks.deleted.length > 0) {
+        await db.bookmarks.where('remoteId').anyOf(changes.bookmarks.deleted).delete();
+      }
+
+      // Tab groups: only groups saved from this browser are cached locally
+      for (const group of changes.tabGroups.upserted) {
+        await db.tabGroups.where('remoteId').equals(group.remoteId).modify({ title: group.title });
+      }
+      if (changes.tabGroups.deleted.length > 0) {
+        const deletedGroups = await db.tabGroups.where('remoteId').anyOf(changes.tabGroups.deleted).toArray();
+        const groupIds = deletedGroups.map(group => group.id!);
+        await db.tabGroupItems.where('groupId').anyOf(groupIds).delete();
+        await db.tabGroups.bulkDelete(groupIds);
+      }
+    });
+  }
+
   /**
    * Get cache statistics
    */
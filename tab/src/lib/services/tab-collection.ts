@@ -7,7 +7,7 @@ import { db } from '@/lib/db';
 import { createTMarksClient } from '@/lib/api/tmarks';
 import type { TabGroupInput, TabGroupResult } from '@/types';
 import type { BookmarkSiteConfig } from '@/types';
-import { EXTERNAL_SERVICES, normalizeApiUrl } from '@/lib/constants/urls';
+import { getFaviconProxyUrl, normalizeApiUrl } from '@/lib/constants/urls';
 
 /**
  * Get all tabs in the current window
@@ -32,19 +32,15 @@ export async function closeTabs(tabIds: number[]): Promise<void> {
 }
 
 /**
- * Generate favicon URL using Google Favicon API
+ * Generate favicon URL using the TMarks favicon proxy
+ * The URL is saved on the server (and shown on share pages), so it never carries a signature
  */
-function getFaviconUrl(url: string): string {
+function getFaviconUrl(url: string, apiBase: string): string {
   if (!url || typeof url !== 'string') {
     return '';
   }
 
-  try {
-    const urlObj = new URL(url);
-    return `${EXTERNAL_SERVICES.GOOGLE_FAVICON}?domain=${urlObj.hostname}&sz=32`;
-  } catch (error) {
-    return '';
-  }
+  return getFaviconProxyUrl(apiBase, url, 32);
 }
 
 /**
@@ -85,17 +81,19 @@ export async function collectCurrentWindowTabs(
       };
     }
 
+    const apiBase = normalizeApiUrl(config.apiUrl);
+
     // Prepare items
     const items = validTabs.map((tab) => ({
       title: tab.title || 'Untitled',
       url: tab.url!,
-      favicon: getFaviconUrl(tab.url!),
+      favicon: getFaviconUrl(tab.url!, apiBase),
     }));
 
     // Try to sync to TMarks
     try {
       const client = createTMarksClient({
-        baseUrl: normalizeApiUrl(config.apiUrl),
+        baseUrl: apiBase,
         apiKey: config.apiKey,
       });
 
@@ -10,6 +10,7 @@ import type {
   SaveResult
 } from '@/types';
 import { StorageService } from '@/lib/utils/storage';
+import type { TMarksReadingStatus as ReadingStatus } from '@/lib/api/tmarks';
 
 interface AppState {
   // Current page info
@@ -61,6 +62,9 @@ interface AppState {
   createSnapshot: boolean;
   setCreateSnapshot: (value: boolean) => void;
 
+  readLater: boolean;
+  setReadLater: (value: boolean) => void;
+
   // Configuration
   config: StorageConfig | null;
   loadConfig: () => Promise<void>;
@@ -77,6 +81,7 @@ interface AppState {
   updateExistingBookmarkTags: (bookmarkId: string, tags: string[]) => Promise<void>;
   updateExistingBookmarkDescription: (bookmarkId: string, description: string) => Promise<void>;
   createSnapshotForBookmark: (bookmarkId: string) => Promise<void>;
+  updateExistingBookmarkReadingState: (bookmarkId: string, status: ReadingStatus | null) => Promise<void>;
   syncCache: () => Promise<void>;
 }
 
@@ -99,6 +104,7 @@ export const useAppStore = create<AppState>((set, get) => ({
   isPublic: true,
   includeThumbnail: false,
   createSnapshot: false,
+  readLater: false,
   existingBookmark: null,
 
   setExistingBookmark: (bookmark) => set({ existingBookmark: bookmark }),
@@ -170,6 +176,8 @@ export const useAppStore = create<AppState>((set, get) => ({
 
   setCreateSnapshot: (value) => set({ createSnapshot: value }),
 
+  setReadLater: (value) => set({ readLater: value }),
+
   // Tag management
   toggleTag: (tagName) =>
     set((state) => ({
@@ -340,7 +348,7 @@ export const useAppStore = create<AppState>((set, get) => ({
   },
 
   saveBookmark: async () => {
-    const { currentPage, selectedTags, isPublic, includeThumbnail, createSnapshot } = get();
+    const { currentPage, selectedTags, isPublic, includeThumbnail, createSnapshot, readLater } = get();
 
     if (!currentPage) {
       set({ error: 'No page info available' });
@@ -367,7 +375,8 @@ export const useAppStore = create<AppState>((set, get) => ({
           tags: selectedTags,
           thumbnail: includeThumbnail ? currentPage.thumbnail : undefined,
           isPublic,
-          createSnapshot
+          createSnapshot,
+          readLater
         }
       });
 
@@ -536,6 +545,41 @@ export const useAppStore = create<AppState>((set, get) => ({
     }
   },
 
+  updateExistingBookmarkReadingState: async (bookmarkId: string, status: ReadingStatus | null) => {
+    try {
+      set({ isSaving: true, error: null });
+
+      // 发送更新请求到 background
+      const result = await sendMessage({
+        type: 'UPDATE_READING_STATE',
+        payload: {
+          bookmarkId,
+          status
+        }
+      });
+
+      if (!result.success) {
+        throw new Error(result.error || '更新阅读状态失败');
+      }
+
+      const { existingBookmark } = get();
+      set({
+        successMessage: status ? '✅ 阅读状态已更新' : '✅ 已移出阅读队列',
+        isSaving: false,
+        existingBookmark: existingBookmark ? { ...existingBookmark, reading_status: status } : existingBookmark
+      });
+
+      setTimeout(() => {
+        set({ successMessage: null });
+      }, 2000);
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to update reading state',
+        isSaving: false
+      });
+    }
+  },
+
   createSnapshotForBookmark: async (bookmarkId: string) => {
     const { currentPage } = get();
     if (!currentPage) return;
@@ -10,6 +10,8 @@ import { SearchBar } from './components/SearchBar';
 import { ShortcutGrid } from './components/ShortcutGrid';
 import { Wallpaper } from './components/Wallpaper';
 import { DockBar } from './components/DockBar';
+import { SmartCollections } from './components/SmartCollections';
+import { DueReminders } from './components/DueReminders';
 import { Greeting } from './components/Greeting';
 import { LunarDate } from './components/LunarDate';
 import { Poetry } from './components/Poetry';
@@ -19,7 +21,6 @@ import { AddShortcutModal } from './components/AddShortcutModal';
 import { AddFolderModal } from './components/AddFolderModal';
 import { BatchEditModal } from './components/BatchEditModal';
 import { ShortcutContextMenu } from './components/ShortcutContextMenu';
-import { FAVICON_API } from './constants';
 
 export function NewTab() {
   const { settings, isLoading, loadData, updateSettings, shortcutGroups, activeGroupId, setActiveGroup, addShortcut, addFolder } = useNewtabStore();
@@ -204,6 +205,20 @@ export function NewTab() {
           </div>
         )}
 
+        {/* 到期的书签提醒 */}
+        {settings.showReminders && (
+          <div className="w-full max-w-4xl px-4">
+            <DueReminders />
+          </div>
+        )}
+
+        {/* 智能集合 */}
+        {settings.showSmartCollections && (
+          <div className="w-full max-w-4xl px-4">
+            <SmartCollections />
+          </div>
+        )}
+
       </div>
 
       {/* 左侧分组侧边栏 */}
@@ -221,11 +236,9 @@ export function NewTab() {
           isOpen={showAddModal}
           onClose={() => setShowAddModal(false)}
           onAdd={(url, title) => {
-            const domain = new URL(url).hostname;
             addShortcut({
               url,
               title,
-              favicon: `${FAVICON_API}${domain}&sz=64`,
               groupId: activeGroupId || undefined,
             });
           }}
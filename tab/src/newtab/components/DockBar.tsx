@@ -22,17 +22,7 @@ import {
 import { CSS } from '@dnd-kit/utilities';
 import { useTMarksSync } from '../hooks/useTMarksSync';
 import type { TMarksBookmark } from '../types';
-
-// 获取 favicon URL
-function getFaviconUrl(url: string, favicon?: string): string {
-  if (favicon) return favicon;
-  try {
-    const domain = new URL(url).hostname;
-    return `https://www.google.com/s2/favicons?domain=${domain}&sz=64`;
-  } catch {
-    return '';
-  }
-}
+import { getBookmarkFaviconUrl, getDomainFaviconUrl } from '../utils/favicon';
 
 // 可排序的书签项
 function SortableBookmarkItem({ 
@@ -94,14 +84,14 @@ function SortableBookmarkItem({
         
         {/* 图标 - 完全填满容器 */}
         <img
-          src={getFaviconUrl(bookmark.url, bookmark.favicon)}
+          src={getBookmarkFaviconUrl(bookmark.url, bookmark.favicon)}
           alt={bookmark.title}
           className="w-full h-full object-cover"
           onError={(e) => {
             const target = e.currentTarget;
-            const googleFaviconUrl = `https://www.google.com/s2/favicons?domain=${new URL(bookmark.url).hostname}&sz=64`;
-            if (!target.src.includes('google.com/s2/favicons')) {
-              target.src = googleFaviconUrl;
+            const proxyFaviconUrl = getDomainFaviconUrl(bookmark.url);
+            if (proxyFaviconUrl && target.src !== proxyFaviconUrl) {
+              target.src = proxyFaviconUrl;
             } else {
               target.style.display = 'none';
               const parent = target.parentElement;
@@ -0,0 +1,127 @@
+/**
+ * TMarks 书签提醒组件 - 显示到期的提醒和自动重温的书签
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { Bell, Check, Clock, RefreshCw, X } from 'lucide-react';
+import { useTMarksSync } from '../hooks/useTMarksSync';
+import type { TMarksReminderAction, TMarksReminderWithBookmark } from '@/lib/api/tmarks';
+import { getBookmarkFaviconUrl } from '../utils/favicon';
+
+export function DueReminders() {
+  const { fetchDueReminders, updateReminder } = useTMarksSync();
+  const [reminders, setReminders] = useState<TMarksReminderWithBookmark[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadReminders = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setReminders(await fetchDueReminders());
+    } finally {
+      setIsLoading(false);
+    }
+  }, [fetchDueReminders]);
+
+  useEffect(() => {
+    loadReminders();
+  }, [loadReminders]);
+
+  const handleAction = async (id: string, action: TMarksReminderAction, snoozeDays?: number) => {
+    // 先从列表移除，失败时重新加载
+    setReminders((list) => list.filter((reminder) => reminder.id !== id));
+    const ok = await updateReminder(id, action, snoozeDays);
+    if (!ok) {
+      loadReminders();
+    }
+  };
+
+  // 打开书签视为已处理：等待状态更新完成后再跳转，避免请求随页面卸载被取消
+  const handleOpen = async (e: React.MouseEvent, reminder: TMarksReminderWithBookmark) => {
+    if (e.ctrlKey || e.metaKey || e.shiftKey || e.button !== 0) {
+      handleAction(reminder.id, 'done');
+      return;
+    }
+    e.preventDefault();
+    await updateReminder(reminder.id, 'done');
+    window.location.href = reminder.bookmark.url;
+  };
+
+  // 没有到期提醒时不显示
+  if (reminders.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="w-full max-w-4xl mt-8 animate-fadeIn">
+      {/* 标题栏 */}
+      <div className="flex items-center justify-between mb-3 px-1">
+        <div className="flex items-center gap-2 text-white/60">
+          <Bell className="w-4 h-4" />
+          <span className="text-sm">书签提醒</span>
+          <span className="text-xs text-white/40">({reminders.length})</span>
+        </div>
+        <button
+          onClick={loadReminders}
+          disabled={isLoading}
+          className="p-1.5 rounded-full hover:bg-white/10 transition-colors disabled:opacity-50"
+          title="刷新"
+        >
+          <RefreshCw className={`w-4 h-4 text-white/50 ${isLoading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {/* 提醒列表 */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        {reminders.map((reminder) => (
+          <div
+            key={reminder.id}
+            className="group flex items-center gap-2 px-3 py-2 rounded-xl glass hover:bg-white/20 transition-all duration-200 min-w-0"
+          >
+            <a
+              href={reminder.bookmark.url}
+              onClick={(e) => handleOpen(e, reminder)}
+              className="flex items-center gap-2 min-w-0 flex-1"
+              title={reminder.note || reminder.bookmark.title}
+            >
+              <img
+                src={getBookmarkFaviconUrl(reminder.bookmark.url, reminder.bookmark.favicon)}
+                alt=""
+                className="w-4 h-4 rounded flex-shrink-0 object-contain"
+                onError={(e) => {
+                  e.currentTarget.style.visibility = 'hidden';
+                }}
+              />
+              <span className="text-xs text-white/70 truncate">{reminder.bookmark.title}</span>
+              {reminder.source === 'resurface' && (
+                <span className="flex-shrink-0 px-1.5 py-0.5 rounded-full bg-white/10 text-[10px] text-white/50">重温</span>
+              )}
+            </a>
+            <div className="flex items-center gap-0.5 flex-shrink-0 opacity-0 group-hover:opacity-100 transition-opacity">
+              <button
+                onClick={() => handleAction(reminder.id, 'snooze', 1)}
+                className="p-1 rounded-full hover:bg-white/10"
+                title="明天再提醒"
+              >
+                <Clock className="w-3.5 h-3.5 text-white/60" />
+              </button>
+              <button
+                onClick={() => handleAction(reminder.id, 'done')}
+                className="p-1 rounded-full hover:bg-white/10"
+                title="完成"
+              >
+                <Check className="w-3.5 h-3.5 text-white/60" />
+              </button>
+              <button
+                onClick={() => handleAction(reminder.id, 'dismiss')}
+                className="p-1 rounded-full hover:bg-white/10"
+                title="忽略"
+              >
+                <X className="w-3.5 h-3.5 text-white/60" />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -5,17 +5,7 @@
 import { useEffect, useState, useRef } from 'react';
 import { RefreshCw, Pin, AlertCircle, Settings, ChevronLeft, ChevronRight } from 'lucide-react';
 import { useTMarksSync } from '../hooks/useTMarksSync';
-
-// 获取 favicon URL，优先使用书签自带的，否则使用 Google Favicon API
-function getFaviconUrl(url: string, favicon?: string): string {
-  if (favicon) return favicon;
-  try {
-    const domain = new URL(url).hostname;
-    return `https://www.google.com/s2/favicons?domain=${domain}&sz=64`;
-  } catch {
-    return '';
-  }
-}
+import { getBookmarkFaviconUrl, getDomainFaviconUrl } from '../utils/favicon';
 
 export function PinnedBookmarks() {
   const { syncState, pinnedBookmarks, fetchPinnedBookmarks } = useTMarksSync();
@@ -160,14 +150,14 @@ export function PinnedBookmarks() {
             >
               <div className="w-10 h-10 rounded-xl flex items-center justify-center overflow-hidden">
                 <img
-                  src={getFaviconUrl(bookmark.url, bookmark.favicon)}
+                  src={getBookmarkFaviconUrl(bookmark.url, bookmark.favicon)}
                   alt={bookmark.title}
                   className="w-8 h-8 rounded-lg object-contain"
                   onError={(e) => {
                     const target = e.currentTarget;
-                    const googleFaviconUrl = `https://www.google.com/s2/favicons?domain=${new URL(bookmark.url).hostname}&sz=64`;
-                    if (!target.src.includes('google.com/s2/favicons')) {
-                      target.src = googleFaviconUrl;
+                    const proxyFaviconUrl = getDomainFaviconUrl(bookmark.url);
+                    if (proxyFaviconUrl && target.src !== proxyFaviconUrl) {
+                      target.src = proxyFaviconUrl;
                     } else {
                       target.style.display = 'none';
                       const parent = target.parentElement;
@@ -4,22 +4,12 @@
 
 import { useState, useCallback, useEffect, useRef } from 'react';
 import { Search, BookMarked } from 'lucide-react';
-import { SEARCH_ENGINES, FAVICON_API } from '../constants';
+import { SEARCH_ENGINES } from '../constants';
 import { useNewtabStore } from '../hooks/useNewtabStore';
 import { useTMarksSync } from '../hooks/useTMarksSync';
 import { SearchEngineSelector } from './SearchEngineSelector';
 import type { SearchEngine, SearchResult } from '../types';
-
-// 获取 favicon URL，如果没有则使用 Google API
-function getFaviconUrl(favicon: string | undefined, url: string): string {
-  if (favicon) return favicon;
-  try {
-    const domain = new URL(url).hostname;
-    return `${FAVICON_API}${domain}&sz=64`;
-  } catch {
-    return '';
-  }
-}
+import { getBookmarkFaviconUrl } from '../utils/favicon';
 
 interface SearchBarProps {
   engine: SearchEngine;
@@ -206,7 +196,7 @@ export function SearchBar({ engine, enableSuggestions = true, onEngineChange }:
               `}
             >
               <img 
-                src={getFaviconUrl(result.favicon, result.url)} 
+                src={getBookmarkFaviconUrl(result.url, result.favicon)} 
                 alt="" 
                 className="w-5 h-5 rounded"
                 onError={(e) => {
@@ -268,6 +268,16 @@ export function SettingsPanel({ onClose }: SettingsPanelProps) {
                   checked={settings.showPinnedBookmarks}
                   onChange={(v) => updateSettings({ showPinnedBookmarks: v })}
                 />
+                <ToggleItem
+                  label="显示智能集合"
+                  checked={settings.showSmartCollections}
+                  onChange={(v) => updateSettings({ showSmartCollections: v })}
+                />
+                <ToggleItem
+                  label="显示书签提醒"
+                  checked={settings.showReminders}
+                  onChange={(v) => updateSettings({ showReminders: v })}
+                />
                 <ToggleItem
                   label="搜索建议"
                   checked={settings.enableSearchSuggestions}
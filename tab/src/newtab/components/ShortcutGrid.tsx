@@ -33,7 +33,6 @@ import { AddFolderModal } from './AddFolderModal';
 import { Z_INDEX } from '../constants/z-index';
 import { AddShortcutModal } from './AddShortcutModal';
 import { DragOverlayItem } from './DragOverlayItem';
-import { FAVICON_API } from '../constants';
 import type { Shortcut, ShortcutFolder } from '../types';
 
 interface ShortcutGridProps {
@@ -337,11 +336,9 @@ export function ShortcutGrid({ columns, style, onAddClick, onBatchEditClick }: S
 
   const handleAddShortcutToFolder = (url: string, title: string) => {
     if (openFolderId) {
-      const domain = new URL(url).hostname;
       addShortcut({
         url,
         title,
-        favicon: `${FAVICON_API}${domain}&sz=64`,
         groupId: activeGroupId ?? undefined,
         folderId: openFolderId,
       });
@@ -0,0 +1,103 @@
+/**
+ * TMarks 智能集合组件 - 切换集合查看对应书签
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { RefreshCw, Layers } from 'lucide-react';
+import { useTMarksSync } from '../hooks/useTMarksSync';
+import type { TMarksBookmark } from '../types';
+import type { TMarksCollection } from '@/lib/api/tmarks';
+import { getBookmarkFaviconUrl } from '../utils/favicon';
+
+export function SmartCollections() {
+  const { fetchCollections, fetchCollectionBookmarks } = useTMarksSync();
+  const [collections, setCollections] = useState<TMarksCollection[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [bookmarks, setBookmarks] = useState<TMarksBookmark[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    fetchCollections().then((list) => {
+      setCollections(list);
+      setActiveId((current) => current ?? list[0]?.id ?? null);
+    });
+  }, [fetchCollections]);
+
+  const loadBookmarks = useCallback(async (collectionId: string) => {
+    setIsLoading(true);
+    try {
+      setBookmarks(await fetchCollectionBookmarks(collectionId));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [fetchCollectionBookmarks]);
+
+  useEffect(() => {
+    if (activeId) {
+      loadBookmarks(activeId);
+    }
+  }, [activeId, loadBookmarks]);
+
+  // 未配置或没有集合时不显示
+  if (collections.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="w-full max-w-4xl mt-8 animate-fadeIn">
+      {/* 标题栏 + 集合切换 */}
+      <div className="flex items-center gap-2 mb-3 px-1">
+        <Layers className="w-4 h-4 text-white/60 flex-shrink-0" />
+        <div className="flex gap-1.5 overflow-x-auto scrollbar-hide flex-1">
+          {collections.map((collection) => (
+            <button
+              key={collection.id}
+              onClick={() => setActiveId(collection.id)}
+              className={`flex-shrink-0 px-2.5 py-1 rounded-full text-xs transition-colors ${
+                collection.id === activeId
+                  ? 'bg-white/25 text-white'
+                  : 'text-white/60 hover:bg-white/10'
+              }`}
+            >
+              {collection.name}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={() => activeId && loadBookmarks(activeId)}
+          disabled={isLoading}
+          className="p-1.5 rounded-full hover:bg-white/10 transition-colors disabled:opacity-50"
+          title="刷新"
+        >
+          <RefreshCw className={`w-4 h-4 text-white/50 ${isLoading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {/* 书签列表 */}
+      {!isLoading && bookmarks.length === 0 ? (
+        <div className="p-4 rounded-xl glass text-center text-sm text-white/50">该集合暂无书签</div>
+      ) : (
+        <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-2">
+          {bookmarks.map((bookmark) => (
+            <a
+              key={bookmark.id}
+              href={bookmark.url}
+              className="flex items-center gap-2 px-3 py-2 rounded-xl glass hover:bg-white/20 transition-all duration-200 min-w-0"
+              title={bookmark.title}
+            >
+              <img
+                src={getBookmarkFaviconUrl(bookmark.url, bookmark.favicon)}
+                alt=""
+                className="w-4 h-4 rounded flex-shrink-0 object-contain"
+                onError={(e) => {
+                  e.currentTarget.style.visibility = 'hidden';
+                }}
+              />
+              <span className="text-xs text-white/70 truncate">{bookmark.title}</span>
+            </a>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
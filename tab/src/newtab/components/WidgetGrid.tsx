@@ -28,7 +28,6 @@ import { WidgetRenderer } from './widgets/WidgetRenderer';
 import { WidgetSelector } from './widgets/WidgetSelector';
 import { WidgetConfigModal } from './widgets/WidgetConfigModal';
 import { AddShortcutModal } from './AddShortcutModal';
-import { FAVICON_API } from '../constants';
 import type { GridItem, GridItemType } from '../types';
 import { getSizeSpan } from './widgets/widgetRegistry';
 
@@ -166,12 +165,10 @@ export function WidgetGrid({ columns }: WidgetGridProps) {
   // 添加快捷方式
   const handleAddShortcut = useCallback(
     (url: string, title: string) => {
-      const domain = new URL(url).hostname;
       addGridItem('shortcut', {
         shortcut: {
           url,
           title,
-          favicon: `${FAVICON_API}${domain}&sz=64`,
         },
         groupId: activeGroupId || undefined,
       });
@@ -15,6 +15,8 @@ export { Wallpaper } from './Wallpaper';
 export { SettingsButton } from './SettingsButton';
 export { SettingsPanel } from './SettingsPanel';
 export { PinnedBookmarks } from './PinnedBookmarks';
+export { SmartCollections } from './SmartCollections';
+export { DueReminders } from './DueReminders';
 export { Greeting } from './Greeting';
 export { LunarDate } from './LunarDate';
 export { Weather } from './Weather';
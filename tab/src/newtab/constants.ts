@@ -59,6 +59,8 @@ export const DEFAULT_SETTINGS: NewTabSettings = {
   shortcutStyle: 'icon',
   wallpaper: DEFAULT_WALLPAPER,
   showPinnedBookmarks: true,
+  showSmartCollections: true,
+  showReminders: true,
   enableSearchSuggestions: true,
   autoRefreshPinnedBookmarks: true,
   pinnedBookmarksRefreshTime: 'morning',
@@ -102,9 +104,6 @@ export const STORAGE_KEY = 'newtab';
 // Bing 每日壁纸 API
 export const BING_WALLPAPER_API = 'https://www.bing.com/HPImageArchive.aspx?format=js&idx=0&n=1';
 
-// 默认 Favicon 获取 URL
-export const FAVICON_API = 'https://www.google.com/s2/favicons?domain=';
-
 // 默认快捷方式分组（只保留一个默认分组，用户自行添加）
 export const DEFAULT_GROUPS: ShortcutGroup[] = [
   { id: 'home', name: '首页', icon: 'Home', position: 0 },
@@ -5,6 +5,7 @@
 import { useState, useCallback, useEffect, useRef } from 'react';
 import { StorageService } from '@/lib/utils/storage';
 import { createTMarksClient } from '@/lib/api/tmarks';
+import type { TMarksCollection, TMarksReminderAction, TMarksReminderWithBookmark } from '@/lib/api/tmarks';
 import { getTMarksUrls } from '@/lib/constants/urls';
 import type { TMarksBookmark, SyncState } from '../types';
 import type { Message } from '@/types';
@@ -170,6 +171,63 @@ export function useTMarksSync() {
     }
   }, []);
 
+  // 获取智能集合列表
+  const fetchCollections = useCallback(async (): Promise<TMarksCollection[]> => {
+    try {
+      const client = await getTMarksClient();
+      const response = await client.collections.getCollections();
+      return response.data?.collections || [];
+    } catch (error) {
+      console.error('[TMarks] 获取智能集合失败:', error);
+      return [];
+    }
+  }, []);
+
+  // 获取智能集合中的书签（服务端按集合条件实时查询）
+  const fetchCollectionBookmarks = useCallback(async (collectionId: string, pageSize = 12): Promise<TMarksBookmark[]> => {
+    try {
+      const client = await getTMarksClient();
+      const response = await client.collections.getCollectionBookmarks(collectionId, {
+        page_size: pageSize,
+      });
+
+      return (response.data?.bookmarks || []).map((b) => ({
+        id: b.id,
+        url: b.url,
+        title: b.title,
+        favicon: b.favicon || undefined,
+        is_pinned: b.is_pinned,
+      }));
+    } catch (error) {
+      console.error('[TMarks] 获取智能集合书签失败:', error);
+      return [];
+    }
+  }, []);
+
+  // 获取到期的书签提醒（包括自动重温）
+  const fetchDueReminders = useCallback(async (): Promise<TMarksReminderWithBookmark[]> => {
+    try {
+      const client = await getTMarksClient();
+      const response = await client.reminders.getDueReminders();
+      return response.data?.reminders || [];
+    } catch (error) {
+      console.error('[TMarks] 获取到期提醒失败:', error);
+      return [];
+    }
+  }, []);
+
+  // 处理提醒（完成 / 忽略 / 推迟）
+  const updateReminder = useCallback(async (id: string, action: TMarksReminderAction, snoozeDays?: number) => {
+    try {
+      const client = await getTMarksClient();
+      await client.reminders.updateReminder(id, action, snoozeDays);
+      return true;
+    } catch (error) {
+      console.error('[TMarks] 更新提醒失败:', error);
+      return false;
+    }
+  }, []);
+
   // 检查是否已配置 API
   const checkApiConfigured = useCallback(async () => {
     try {
@@ -232,6 +290,10 @@ export function useTMarksSync() {
     pinnedBookmarks,
     fetchPinnedBookmarks,
     searchBookmarks,
+    fetchCollections,
+    fetchCollectionBookmarks,
+    fetchDueReminders,
+    updateReminder,
     checkApiConfigured,
     reorderPinnedBookmarks,
   };
@@ -1,14 +1,17 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import { NewTab } from './NewTab';
+import { initFaviconApiBase } from './utils/favicon';
 import './index.css';
 
 const root = document.getElementById('root');
 
 if (root) {
-  ReactDOM.createRoot(root).render(
-    <React.StrictMode>
-      <NewTab />
-    </React.StrictMode>
-  );
+  initFaviconApiBase().finally(() => {
+    ReactDOM.createRoot(root).render(
+      <React.StrictMode>
+        <NewTab />
+      </React.StrictMode>
+    );
+  });
 }
@@ -141,6 +141,8 @@ export interface NewTabSettings {
   
   // TMarks 同步
   showPinnedBookmarks: boolean;
+  showSmartCollections: boolean; // 显示智能集合
+  showReminders: boolean; // 显示到期的书签提醒
   enableSearchSuggestions: boolean;
   autoRefreshPinnedBookmarks: boolean; // 自动刷新置顶书签
   pinnedBookmarksRefreshTime: 'morning' | 'evening'; // 刷新时间：早上或晚上
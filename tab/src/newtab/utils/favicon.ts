@@ -1,7 +1,100 @@
 /**
  * Favicon 工具函数 - 支持离线缓存
+ * 在线图标统一使用 TMarks 服务端的站点图标代理（/api/favicons/:domain）
  */
 
+import { StorageService } from '@/lib/utils/storage';
+import { createTMarksClient } from '@/lib/api/tmarks';
+import { TMARKS_URLS, getFaviconProxyUrl, normalizeApiUrl } from '@/lib/constants/urls';
+
+// 旧版本保存的 Google 图标服务地址，读取时改用代理地址
+const LEGACY_FAVICON_SERVICE = 'google.com/s2/favicons';
+
+// 图标代理签名缓存（未缓存的域名只有带签名才会被服务端解析）
+const SIGNATURE_STORAGE_KEY = 'tmarks-favicon-signature';
+// 签名到期前 1 天重新获取
+const SIGNATURE_REFRESH_MARGIN_MS = 24 * 60 * 60 * 1000;
+
+interface StoredFaviconSignature {
+  apiBase: string;
+  query: string;
+  expiresAt: number;
+}
+
+let faviconApiBase: string = TMARKS_URLS.DEFAULT_API_BASE;
+let faviconSignature: StoredFaviconSignature | null = null;
+
+function readStoredSignature(): StoredFaviconSignature | null {
+  try {
+    const raw = localStorage.getItem(SIGNATURE_STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as StoredFaviconSignature) : null;
+  } catch {
+    return null;
+  }
+}
+
+async function refreshFaviconSignature(apiBase: string): Promise<void> {
+  const apiKey = await StorageService.getBookmarkSiteApiKey();
+  if (!apiKey) {
+    return;
+  }
+
+  const client = createTMarksClient({ apiKey, baseUrl: apiBase });
+  const response = await client.favicons.getSignature();
+  faviconSignature = {
+    apiBase,
+    query: response.data.query,
+    expiresAt: new Date(response.data.expires_at).getTime(),
+  };
+  localStorage.setItem(SIGNATURE_STORAGE_KEY, JSON.stringify(faviconSignature));
+}
+
+/**
+ * 从配置中读取 TMarks API 地址和图标签名，应在渲染新标签页之前调用
+ * 签名优先使用本地缓存，快到期时在后台重新获取
+ */
+export async function initFaviconApiBase(): Promise<void> {
+  try {
+    faviconApiBase = normalizeApiUrl(await StorageService.getBookmarkSiteApiUrl());
+  } catch (error) {
+    console.error('Failed to load favicon API base:', error);
+  }
+
+  const stored = readStoredSignature();
+  faviconSignature = stored && stored.apiBase === faviconApiBase && stored.expiresAt > Date.now() ? stored : null;
+
+  if (!faviconSignature || faviconSignature.expiresAt - Date.now() < SIGNATURE_REFRESH_MARGIN_MS) {
+    refreshFaviconSignature(faviconApiBase).catch((error) => {
+      console.warn('Failed to load favicon signature:', error);
+    });
+  }
+}
+
+/**
+ * 获取网址的站点图标代理地址（带签名，仅用于展示，不要保存到服务端）
+ * @param url 网站 URL
+ * @param size 图标尺寸，默认 64
+ */
+export function getDomainFaviconUrl(url: string, size: number = 64): string {
+  const signatureQuery = faviconSignature && faviconSignature.expiresAt > Date.now() ? faviconSignature.query : undefined;
+  return getFaviconProxyUrl(faviconApiBase, url, size, signatureQuery);
+}
+
+/**
+ * 已保存的图标地址是否可用（旧版本的 Google 图标服务地址视为不可用）
+ */
+export function isUsableFavicon(favicon: string | null | undefined): favicon is string {
+  return !!favicon && !favicon.includes(LEGACY_FAVICON_SERVICE);
+}
+
+/**
+ * 获取书签图标，优先使用书签自带的，否则使用站点图标代理
+ * 保存的是代理地址时（不带签名）改用当前签名的代理地址
+ */
+export function getBookmarkFaviconUrl(url: string, favicon?: string | null): string {
+  return isUsableFavicon(favicon) && !favicon.includes('/favicons/') ? favicon : getDomainFaviconUrl(url);
+}
+
 /**
  * 将 Blob 转换为 Base64
  */
@@ -86,12 +179,15 @@ async function compressImage(blob: Blob, maxSizeKB: number = 10): Promise<string
  */
 export async function downloadFavicon(url: string, maxSizeKB: number = 10): Promise<string | null> {
   try {
-    const domain = new URL(url).hostname;
     // 使用较小的尺寸以减少存储空间
-    const faviconUrl = `https://www.google.com/s2/favicons?domain=${domain}&sz=32`;
+    const faviconUrl = getDomainFaviconUrl(url, 32);
+    if (!faviconUrl) return null;
     
     const response = await fetch(faviconUrl);
     if (!response.ok) return null;
+
+    // 字母头像不缓存，以便站点图标可用后重新获取
+    if (response.headers.get('X-Favicon-Kind') === 'avatar') return null;
     
     const blob = await response.blob();
     
@@ -119,17 +215,12 @@ export function getFaviconUrl(shortcut: { url: string; favicon?: string; favicon
   }
   
   // 2. 使用在线 favicon URL
-  if (shortcut.favicon) {
+  if (isUsableFavicon(shortcut.favicon)) {
     return shortcut.favicon;
   }
   
-  // 3. 生成默认的 Google favicon API URL
-  try {
-    const domain = new URL(shortcut.url).hostname;
-    return `https://www.google.com/s2/favicons?domain=${domain}&sz=64`;
-  } catch {
-    return '';
-  }
+  // 3. 使用站点图标代理
+  return getDomainFaviconUrl(shortcut.url);
 }
 
 /**
@@ -8,6 +8,7 @@ import { useState, useEffect } from 'react';
 import { Lunar } from 'lunar-javascript';
 import { getTMarksUrls } from '@/lib/constants/urls';
 import { StorageService } from '@/lib/utils/storage';
+import { SmartCollections } from './SmartCollections';
 
 interface ModeSelectorProps {
   onSelectBookmark: () => void;
@@ -176,6 +177,9 @@ export function ModeSelector({ onSelectBookmark, onSelectTabCollection, onOpenOp
             </div>
           </button>
 
+          {/* Smart Collections */}
+          <SmartCollections />
+
           {/* Tips */}
           <section className="rounded-xl border border-gray-200 bg-gradient-to-br from-purple-50 to-blue-50 p-3.5 shadow-lg">
             <h3 className="flex items-center gap-2 text-sm font-semibold text-gray-800">
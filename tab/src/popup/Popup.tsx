@@ -41,10 +41,13 @@ export function Popup() {
     setIsPublic,
     createSnapshot,
     setCreateSnapshot,
+    readLater,
+    setReadLater,
     setExistingBookmark,
     updateExistingBookmarkTags,
     updateExistingBookmarkDescription,
     createSnapshotForBookmark,
+    updateExistingBookmarkReadingState,
     lastRecommendationSource,
     lastSaveDurationMs
   } = useAppStore();
@@ -468,6 +471,21 @@ export function Popup() {
                     </svg>
                   </button>
 
+                  <button
+                    type="button"
+                    onClick={() => setReadLater(!readLater)}
+                    className={`flex items-center justify-center w-9 h-9 rounded-lg transition-all duration-150 ${
+                      readLater
+                        ? 'bg-sky-100 text-sky-700 hover:bg-sky-200'
+                        : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                    }`}
+                    title={readLater ? '稍后阅读（点击取消）' : '不加入稍后阅读（点击加入）'}
+                  >
+                    <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                      <path strokeLinecap="round" strokeLinejoin="round" d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" />
+                    </svg>
+                  </button>
+
                   <button
                     type="button"
                     onClick={() => setShowTitleEdit(!showTitleEdit)}
@@ -690,6 +708,11 @@ export function Popup() {
               await createSnapshotForBookmark(existingBookmark.id);
             }
           }}
+          onUpdateReadingState={async (status) => {
+            if (existingBookmark.id) {
+              await updateExistingBookmarkReadingState(existingBookmark.id, status);
+            }
+          }}
           onCancel={() => setExistingBookmark(null)}
         />
       )}
@@ -0,0 +1,129 @@
+/**
+ * Smart Collections Component
+ * Lists the user's saved searches and opens bookmarks from an expanded collection
+ */
+
+import { useEffect, useState } from 'react';
+import { createTMarksClient } from '@/lib/api/tmarks';
+import type { TMarksBookmark, TMarksCollection } from '@/lib/api/tmarks';
+import { normalizeApiUrl } from '@/lib/constants/urls';
+import { StorageService } from '@/lib/utils/storage';
+
+const BOOKMARKS_PER_COLLECTION = 8;
+
+async function getClient() {
+  const config = await StorageService.getTMarksConfig();
+  if (!config.bookmarkApiKey) {
+    return null;
+  }
+  return createTMarksClient({
+    baseUrl: normalizeApiUrl(config.bookmarkApiUrl),
+    apiKey: config.bookmarkApiKey,
+  });
+}
+
+export function SmartCollections() {
+  const [collections, setCollections] = useState<TMarksCollection[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [bookmarks, setBookmarks] = useState<Record<string, TMarksBookmark[]>>({});
+  const [loadingId, setLoadingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadCollections = async () => {
+      try {
+        const client = await getClient();
+        if (!client) return;
+        const response = await client.collections.getCollections();
+        setCollections(response.data.collections);
+      } catch (err) {
+        console.error('加载智能集合失败:', err);
+      }
+    };
+    loadCollections();
+  }, []);
+
+  const handleToggle = async (collectionId: string) => {
+    if (expandedId === collectionId) {
+      setExpandedId(null);
+      return;
+    }
+
+    setExpandedId(collectionId);
+    if (bookmarks[collectionId]) return;
+
+    setLoadingId(collectionId);
+    try {
+      const client = await getClient();
+      if (!client) return;
+      const response = await client.collections.getCollectionBookmarks(collectionId, {
+        page_size: BOOKMARKS_PER_COLLECTION,
+      });
+      setBookmarks((prev) => ({ ...prev, [collectionId]: response.data.bookmarks }));
+    } catch (err) {
+      console.error('加载集合书签失败:', err);
+      setBookmarks((prev) => ({ ...prev, [collectionId]: [] }));
+    } finally {
+      setLoadingId(null);
+    }
+  };
+
+  // 未配置或没有集合时不显示
+  if (collections.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className="rounded-xl border border-gray-200 bg-white p-3.5 shadow-lg">
+      <h3 className="flex items-center gap-2 text-sm font-semibold text-gray-800">
+        <span>🗂️</span>
+        <span>智能集合</span>
+      </h3>
+      <ul className="mt-2.5 space-y-1">
+        {collections.map((collection) => {
+          const isExpanded = expandedId === collection.id;
+          const items = bookmarks[collection.id];
+          return (
+            <li key={collection.id}>
+              <button
+                onClick={() => handleToggle(collection.id)}
+                className="flex w-full items-center justify-between rounded-lg px-2 py-1.5 text-left text-xs text-gray-700 transition-colors hover:bg-gray-50"
+              >
+                <span className="truncate">{collection.name}</span>
+                <svg
+                  className={`h-3.5 w-3.5 flex-shrink-0 text-gray-400 transition-transform duration-200 ${isExpanded ? 'rotate-90' : ''}`}
+                  fill="none"
+                  viewBox="0 0 24 24"
+                  stroke="currentColor"
+                  strokeWidth={2}
+                >
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M9 5l7 7-7 7" />
+                </svg>
+              </button>
+
+              {isExpanded && (
+                <div className="ml-2 border-l border-gray-100 pl-2">
+                  {loadingId === collection.id ? (
+                    <p className="px-2 py-1.5 text-[11px] text-gray-400">加载中...</p>
+                  ) : items && items.length > 0 ? (
+                    items.map((bookmark) => (
+                      <button
+                        key={bookmark.id}
+                        onClick={() => chrome.tabs.create({ url: bookmark.url })}
+                        className="block w-full truncate rounded-md px-2 py-1 text-left text-[11px] text-gray-600 transition-colors hover:bg-blue-50 hover:text-blue-600"
+                        title={bookmark.url}
+                      >
+                        {bookmark.title}
+                      </button>
+                    ))
+                  ) : (
+                    <p className="px-2 py-1.5 text-[11px] text-gray-400">该集合暂无书签</p>
+                  )}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+}
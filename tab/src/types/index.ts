@@ -6,6 +6,7 @@ export interface Tag {
   color?: string;
   count?: number;
   createdAt: number;
+  remoteId?: string;
 }
 
 export interface Bookmark {
@@ -176,6 +177,7 @@ export interface BookmarkInput {
   favicon?: string;
   isPublic?: boolean;
   createSnapshot?: boolean;
+  readLater?: boolean;
 }
 
 // ============ Service Results ============
@@ -190,6 +192,19 @@ export interface SyncResult {
   error?: string;
 }
 
+export interface ChangeSet<T> {
+  upserted: T[];
+  deleted: string[]; // remote ids
+}
+
+export interface RemoteChanges {
+  cursor: string;
+  hasMore: boolean;
+  bookmarks: ChangeSet<Bookmark>;
+  tags: ChangeSet<Tag>;
+  tabGroups: ChangeSet<{ remoteId: string; title: string }>;
+}
+
 export interface SaveResult {
   success: boolean;
   bookmarkId?: string;
@@ -250,6 +265,7 @@ export type MessageType =
   | 'GET_EXISTING_TAGS'
   | 'UPDATE_BOOKMARK_TAGS'
   | 'UPDATE_BOOKMARK_DESCRIPTION'
+  | 'UPDATE_READING_STATE'
   | 'CAPTURE_PAGE'
   | 'CAPTURE_PAGE_V2'
   | 'PING'
@@ -0,0 +1,96 @@
+/**
+ * 站点图标代理 API
+ * 路径: /api/favicons/:domain?size=16|32|64|128[&u=&exp=&sig=]
+ * 认证: 已缓存的图标公开访问；解析新域名需要签名参数（见 /api/v1/favicons/token、/api/tab/favicons/token）
+ *
+ * 返回转换为固定尺寸 PNG 的网站图标，无法获取时返回即时生成的字母头像（SVG）
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env } from '../../lib/types'
+import { badRequest, internalError } from '../../lib/response'
+import { checkRateLimit } from '../../lib/rate-limit'
+import {
+  getStoredFavicon,
+  hasRecentResolveFailure,
+  letterAvatarAsset,
+  normalizeFaviconDomain,
+  normalizeFaviconSize,
+  refreshFavicon,
+  verifyFaviconSignature,
+  type FaviconAsset,
+} from '../../lib/favicon'
+
+/** 每个用户每分钟允许触发的图标解析次数（命中 R2 的请求不计） */
+const RESOLVE_LIMIT_PER_MINUTE = 60
+/** 未签名或被限流时返回的头像只短暂缓存，之后带签名的请求仍可解析出真实图标 */
+const TRANSIENT_AVATAR_MAX_AGE = 300
+
+function faviconResponse(asset: FaviconAsset, maxAge = asset.kind === 'avatar' ? 3600 : 86400): Response {
+  return new Response(asset.body, {
+    status: 200,
+    headers: {
+      'Content-Type': asset.contentType,
+      'Cache-Control': `public, max-age=${maxAge}`,
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Expose-Headers': 'X-Favicon-Kind',
+      'X-Favicon-Kind': asset.kind,
+    },
+  })
+}
+
+// OPTIONS /api/favicons/:domain - CORS 预检
+export const onRequestOptions: PagesFunction<Env, 'domain'> = async () => {
+  return new Response(null, {
+    status: 204,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+      'Access-Control-Max-Age': '86400',
+    },
+  })
+}
+
+// GET /api/favicons/:domain - 获取站点图标
+export const onRequestGet: PagesFunction<Env, 'domain'> = async (context) => {
+  try {
+    const domain = normalizeFaviconDomain(context.params.domain as string)
+    if (!domain) {
+      return badRequest('Invalid domain')
+    }
+
+    const size = normalizeFaviconSize(new URL(context.request.url).searchParams.get('size'))
+    const waitUntil = (promise: Promise<unknown>) => context.waitUntil(promise)
+
+    const stored = await getStoredFavicon(context.env, domain, size, waitUntil)
+    if (stored) {
+      return faviconResponse(stored)
+    }
+
+    // 未缓存的域名需要抓取外部网站并写入 R2，只接受已登录用户签发的地址
+    const userId = await verifyFaviconSignature(context.request as unknown as Request, context.env.JWT_SECRET)
+    if (!userId) {
+      return faviconResponse(letterAvatarAsset(domain, size), TRANSIENT_AVATAR_MAX_AGE)
+    }
+
+    if (await hasRecentResolveFailure(context.env, domain)) {
+      return faviconResponse(letterAvatarAsset(domain, size))
+    }
+
+    const rateLimit = await checkRateLimit(context.env.TMARKS_KV, {
+      key: `favicon:${userId}`,
+      limit: RESOLVE_LIMIT_PER_MINUTE,
+      window: 60,
+    })
+    if (!rateLimit.allowed) {
+      return faviconResponse(letterAvatarAsset(domain, size), TRANSIENT_AVATAR_MAX_AGE)
+    }
+
+    const icon = await refreshFavicon(context.env, domain, size)
+    return faviconResponse(icon ?? letterAvatarAsset(domain, size))
+  } catch (error) {
+    console.error('Get favicon error:', error)
+    return internalError('Failed to get favicon')
+  }
+}
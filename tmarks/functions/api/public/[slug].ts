@@ -1,31 +1,26 @@
 import type { PagesFunction } from '@cloudflare/workers-types'
-import type { Env, BookmarkRow, PublicProfile } from '../../lib/types'
-import { notFound, success, internalError } from '../../lib/response'
-import { normalizeBookmark } from '../../lib/bookmark-utils'
+import type { Env, SQLParam } from '../../lib/types'
+import { notFound, success, badRequest, internalError } from '../../lib/response'
+import {
+  PUBLIC_BOOKMARKS_WHERE,
+  attachPublicBookmarkTags,
+  findPublicShareUser,
+  getPublicSharePayload,
+  getPublicShareTagStats,
+  toPublicShareProfile,
+  type PublicShareBookmark,
+  type PublicShareProfile,
+  type PublicShareTagStat,
+} from '../../lib/public-share'
 import { CacheService } from '../../lib/cache'
 import { generateCacheKey } from '../../lib/cache/strategies'
-
-interface PublicSharePayload {
-  profile: {
-    username: string
-    title: string | null
-    description: string | null
-    slug: string
-  }
-  bookmarks: Array<ReturnType<typeof normalizeBookmark> & { tags: Array<{ id: string; name: string; color: string | null }> }>
-  tags: Array<{ id: string; name: string; color: string | null; bookmark_count: number }>
-  generated_at: string
-}
+import { BOOKMARK_SORT_KEYS, buildKeysetCondition, buildOrderBy, cursorFromRow, parseBookmarkCursor } from '../../lib/bookmark-cursor'
+import type { BookmarkCursorRow } from '../../lib/bookmark-cursor'
 
 interface PublicSharePaginatedPayload {
-  profile: {
-    username: string
-    title: string | null
-    description: string | null
-    slug: string
-  }
-  bookmarks: Array<ReturnType<typeof normalizeBookmark> & { tags: Array<{ id: string; name: string; color: string | null }> }>
-  tags: Array<{ id: string; name: string; color: string | null; bookmark_count: number }>
+  profile: PublicShareProfile
+  bookmarks: PublicShareBookmark[]
+  tags: PublicShareTagStat[]
   meta: {
     page_size: number
     count: number
@@ -50,28 +45,36 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
   // 如果没有分页参数，返回旧版本的完整数据（向后兼容）
   const usePagination = url.searchParams.has('page_size') || url.searchParams.has('page_cursor')
 
-  // 初始化缓存服务
-  const cache = new CacheService(context.env)
-  const cacheKey = usePagination
-    ? generateCacheKey('publicShare', slug, { page_cursor: pageCursor || 'first', page_size: pageSize })
-    : generateCacheKey('publicShare', slug)
+  // 公开分享固定按创建时间排序（置顶在前）
+  const sortKeys = BOOKMARK_SORT_KEYS.created
+  const parsedCursor = usePagination ? parseBookmarkCursor(pageCursor, 'created', sortKeys) : null
+  if (parsedCursor && !parsedCursor.success) {
+    return badRequest(parsedCursor.message, 'INVALID_PAGE_CURSOR')
+  }
 
   try {
     // 验证用户和分享设置
-    const user = await context.env.DB.prepare(
-      `SELECT id as user_id, username, public_share_enabled, public_slug, public_page_title, public_page_description
-       FROM users
-       WHERE LOWER(public_slug) = ? AND public_share_enabled = 1`
-    )
-      .bind(slug)
-      .first<PublicProfile>()
-
-    if (!user || !user.public_share_enabled || !user.public_slug) {
+    const user = await findPublicShareUser(context.env.DB, slug)
+    if (!user || !user.public_slug) {
       return notFound('Share link not found')
     }
 
+    // 不分页时返回完整数据（与服务端渲染的分享页共用）
+    if (!usePagination) {
+      const { payload, cached } = await getPublicSharePayload(context.env, user)
+      return success(cached ? { ...payload, _cached: true } : payload)
+    }
+
+    // 初始化缓存服务
+    const cache = new CacheService(context.env)
+    const cacheKey = generateCacheKey('publicShare', slug, {
+      sort: 'created',
+      page_cursor: pageCursor || 'first',
+      page_size: pageSize,
+    })
+
     // 尝试从缓存获取
-    const cached = await cache.get<PublicSharePayload | PublicSharePaginatedPayload>('publicShare', cacheKey)
+    const cached = await cache.get<PublicSharePaginatedPayload>('publicShare', cacheKey)
     if (cached) {
       return success({
         ...cached,
@@ -81,156 +84,55 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
 
     // 构建书签查询
     let bookmarkQuery = `
-      SELECT *
-      FROM bookmarks
-      WHERE user_id = ?
-        AND is_public = 1
-        AND deleted_at IS NULL
+      SELECT b.*
+      FROM bookmarks b
+      WHERE ${PUBLIC_BOOKMARKS_WHERE}
     `
-    const bookmarkParams: (string | number)[] = [user.user_id]
-
-    // 游标分页
-    if (usePagination && pageCursor) {
-      bookmarkQuery += ' AND id < ?'
-      bookmarkParams.push(pageCursor)
+    const bookmarkParams: SQLParam[] = [user.user_id]
+
+    // 游标分页（键集游标携带完整排序元组）
+    const cursor = parsedCursor?.success ? parsedCursor.cursor : null
+    if (cursor && 'values' in cursor) {
+      const keyset = buildKeysetCondition(sortKeys, cursor.values)
+      bookmarkQuery += ` AND ${keyset.sql}`
+      bookmarkParams.push(...keyset.params)
     }
 
-    bookmarkQuery += ' ORDER BY is_pinned DESC, created_at DESC'
-
-    // 如果使用分页，添加 LIMIT
-    if (usePagination) {
-      bookmarkQuery += ' LIMIT ?'
-      bookmarkParams.push(pageSize + 1) // 多获取一条以判断是否有下一页
-    }
+    bookmarkQuery += ` ${buildOrderBy(sortKeys)} LIMIT ?`
+    bookmarkParams.push(pageSize + 1) // 多获取一条以判断是否有下一页
 
     const { results: bookmarkRows } = await context.env.DB.prepare(bookmarkQuery)
       .bind(...bookmarkParams)
-      .all<BookmarkRow>()
-
-    // 判断是否有下一页（仅分页模式）
-    const hasMore = usePagination && bookmarkRows.length > pageSize
-    const bookmarksToProcess = usePagination && hasMore
-      ? bookmarkRows.slice(0, pageSize)
-      : bookmarkRows
-    const nextCursor = usePagination && hasMore && bookmarksToProcess.length > 0
-      ? String(bookmarksToProcess[bookmarksToProcess.length - 1].id)
-      : null
-
-    const bookmarkIds = bookmarksToProcess.map((row) => row.id)
-
-    let allTags: Array<{ bookmark_id: string; id: string; name: string; color: string | null }> = []
-
-    if (bookmarkIds.length > 0) {
-      const placeholders = bookmarkIds.map(() => '?').join(',')
-      const { results: tagRows } = await context.env.DB.prepare(
-        `SELECT bt.bookmark_id, t.id, t.name, t.color
-         FROM bookmark_tags bt
-         INNER JOIN tags t ON t.id = bt.tag_id
-         WHERE bt.bookmark_id IN (${placeholders})
-           AND t.deleted_at IS NULL
-         ORDER BY t.name`
-      )
-        .bind(...bookmarkIds)
-        .all<{ bookmark_id: string; id: string; name: string; color: string | null }>()
+      .all<BookmarkCursorRow>()
 
-      allTags = tagRows || []
-    }
-
-    const tagsByBookmark = new Map<string, Array<{ id: string; name: string; color: string | null }>>()
+    // 判断是否有下一页
+    const hasMore = bookmarkRows.length > pageSize
+    const bookmarksToProcess = hasMore ? bookmarkRows.slice(0, pageSize) : bookmarkRows
+    const nextCursor = hasMore && bookmarksToProcess.length > 0
+      ? cursorFromRow('created', sortKeys, bookmarksToProcess[bookmarksToProcess.length - 1])
+      : null
 
-    for (const tag of allTags) {
-      if (!tagsByBookmark.has(tag.bookmark_id)) {
-        tagsByBookmark.set(tag.bookmark_id, [])
-      }
-      const tags = tagsByBookmark.get(tag.bookmark_id)
-      if (tags) {
-        tags.push({ id: tag.id, name: tag.name, color: tag.color })
-      }
+    const bookmarks = await attachPublicBookmarkTags(context.env.DB, bookmarksToProcess)
+
+    // 获取所有标签统计（仅在第一页时计算）
+    const tags = pageCursor ? [] : await getPublicShareTagStats(cache, context.env.DB, user)
+
+    const paginatedPayload: PublicSharePaginatedPayload = {
+      profile: toPublicShareProfile(user),
+      bookmarks,
+      tags,
+      meta: {
+        page_size: pageSize,
+        count: bookmarks.length,
+        next_cursor: nextCursor,
+        has_more: hasMore,
+      },
     }
 
-    const bookmarks = bookmarksToProcess.map((row) => ({
-      ...normalizeBookmark(row),
-      tags: tagsByBookmark.get(row.id) || [],
-    }))
-
-    // 获取所有标签统计（仅在非分页或第一页时计算）
-    let tags: Array<{ id: string; name: string; color: string | null; bookmark_count: number }> = []
-
-    if (!usePagination || !pageCursor) {
-      const tagsCacheKey = generateCacheKey('publicShare', `${slug}:tags`)
-      
-      // 尝试从缓存获取标签
-      const cachedTags = await cache.get<typeof tags>('publicShare', tagsCacheKey)
-
-      if (cachedTags) {
-        tags = cachedTags
-      } else {
-        // 计算标签统计
-        const { results: tagStats } = await context.env.DB.prepare(
-          `SELECT t.id, t.name, t.color, COUNT(DISTINCT bt.bookmark_id) as bookmark_count
-           FROM tags t
-           INNER JOIN bookmark_tags bt ON t.id = bt.tag_id
-           INNER JOIN bookmarks b ON bt.bookmark_id = b.id
-           WHERE b.user_id = ?
-             AND b.is_public = 1
-             AND b.deleted_at IS NULL
-             AND t.deleted_at IS NULL
-           GROUP BY t.id, t.name, t.color
-           ORDER BY t.name`
-        )
-          .bind(user.user_id)
-          .all<{ id: string; name: string; color: string | null; bookmark_count: number }>()
-
-        tags = tagStats || []
-
-        // 缓存标签统计（30分钟）
-        if (tags.length > 0) {
-          await cache.set('publicShare', tagsCacheKey, tags, { async: true })
-        }
-      }
-    }
+    // 异步写入缓存 (30分钟 TTL, Level 0 配置)
+    await cache.set('publicShare', cacheKey, paginatedPayload, { async: true })
 
-    // 返回分页数据或完整数据
-    if (usePagination) {
-      const paginatedPayload: PublicSharePaginatedPayload = {
-        profile: {
-          username: user.username,
-          title: user.public_page_title,
-          description: user.public_page_description,
-          slug: user.public_slug,
-        },
-        bookmarks,
-        tags,
-        meta: {
-          page_size: pageSize,
-          count: bookmarks.length,
-          next_cursor: nextCursor,
-          has_more: hasMore,
-        },
-      }
-
-      // 异步写入缓存 (30分钟 TTL, Level 0 配置)
-      await cache.set('publicShare', cacheKey, paginatedPayload, { async: true })
-
-      return success(paginatedPayload)
-    } else {
-      const payload: PublicSharePayload = {
-        profile: {
-          username: user.username,
-          title: user.public_page_title,
-          description: user.public_page_description,
-          slug: user.public_slug,
-        },
-        bookmarks,
-        tags,
-        generated_at: new Date().toISOString(),
-      }
-
-      // 异步写入缓存 (30分钟 TTL, Level 0 配置)
-      await cache.set('publicShare', cacheKey, payload, { async: true })
-
-      return success(payload)
-    }
+    return success(paginatedPayload)
   } catch (error) {
     console.error('Public share error:', error)
     return internalError('Failed to load shared bookmarks')
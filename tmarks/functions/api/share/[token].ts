@@ -1,126 +1,52 @@
 /**
  * 公开分享访问 API
  * 路径: /api/share/:token
- * 认证: 无需认证（公开访问）
+ * 认证: 无需认证（公开访问）；设置了密码的分享需通过 X-Share-Password 请求头或 POST 请求体提交密码
+ * 每次成功获取内容计入一次浏览（HEAD 请求和已知爬虫除外）
  */
 
 import type { PagesFunction } from '@cloudflare/workers-types'
-import type { Env, RouteParams } from '../../lib/types'
-import { success, notFound, internalError } from '../../lib/response'
-
-interface ShareRow {
-  id: string
-  group_id: string
-  user_id: string
-  share_token: string
-  is_public: number
-  view_count: number
-  created_at: string
-  expires_at: string | null
-}
-
-interface TabGroupRow {
-  id: string
-  user_id: string
-  title: string
-  color: string | null
-  tags: string | null
-  created_at: string
-  updated_at: string
-}
+import type { ApiResponse, Env } from '../../lib/types'
+import { success, internalError } from '../../lib/response'
+import { getClientIP } from '../../lib/rate-limit'
+import { SHARE_ACCESS_ERRORS, loadSharedTabGroup, shouldCountShareView } from '../../lib/tab-group-share'
+
+async function respondWithSharedTabGroup(
+  context: Parameters<PagesFunction<Env, 'token'>>[0],
+  password: string | null
+): Promise<Response> {
+  const result = await loadSharedTabGroup(context.env, context.params.token as string, {
+    password,
+    clientIp: getClientIP(context.request),
+    countView: shouldCountShareView(context.request as unknown as Request),
+  })
+
+  if (!result.success) {
+    const { status, code, message } = SHARE_ACCESS_ERRORS[result.error]
+    return Response.json({ error: { code, message } } as ApiResponse, { status })
+  }
 
-interface TabGroupItemRow {
-  id: string
-  group_id: string
-  title: string
-  url: string
-  favicon: string | null
-  position: number
-  is_pinned: number
-  is_todo: number
-  created_at: string
+  return success(result.data)
 }
 
 // GET /api/share/:token - 获取分享的标签页组
-export const onRequestGet: PagesFunction<Env, RouteParams> = async (context) => {
-  const shareToken = context.params.token
-
+export const onRequestGet: PagesFunction<Env, 'token'> = async (context) => {
   try {
-    // Get share
-    const share = await context.env.DB.prepare(
-      'SELECT * FROM shares WHERE share_token = ?'
-    )
-      .bind(shareToken)
-      .first<ShareRow>()
-
-    if (!share) {
-      return notFound('Share not found')
-    }
-
-    // Check if share is public
-    if (share.is_public !== 1) {
-      return notFound('Share is private')
-    }
-
-    // Check if share has expired
-    if (share.expires_at) {
-      const expiresAt = new Date(share.expires_at)
-      if (expiresAt < new Date()) {
-        return notFound('Share has expired')
-      }
-    }
-
-    // Get tab group
-    const groupRow = await context.env.DB.prepare(
-      'SELECT * FROM tab_groups WHERE id = ? AND is_deleted = 0'
-    )
-      .bind(share.group_id)
-      .first<TabGroupRow>()
-
-    if (!groupRow) {
-      return notFound('Tab group not found')
-    }
-
-    // Get tab group items
-    const { results: items } = await context.env.DB.prepare(
-      'SELECT * FROM tab_group_items WHERE group_id = ? ORDER BY position ASC'
-    )
-      .bind(share.group_id)
-      .all<TabGroupItemRow>()
-
-    // Parse tags
-    let tags: string[] | null = null
-    if (groupRow.tags) {
-      try {
-        tags = JSON.parse(groupRow.tags)
-      } catch {
-        tags = null
-      }
-    }
-
-    // Increment view count
-    await context.env.DB.prepare(
-      'UPDATE shares SET view_count = view_count + 1 WHERE id = ?'
-    )
-      .bind(share.id)
-      .run()
-
-    return success({
-      tab_group: {
-        ...groupRow,
-        tags,
-        items: items || [],
-        item_count: items?.length || 0,
-      },
-      share_info: {
-        view_count: share.view_count + 1,
-        created_at: share.created_at,
-        expires_at: share.expires_at,
-      },
-    })
+    return await respondWithSharedTabGroup(context, context.request.headers.get('X-Share-Password'))
   } catch (error) {
     console.error('Get shared tab group error:', error)
     return internalError('Failed to get shared tab group')
   }
 }
 
+// POST /api/share/:token - 提交密码并获取分享的标签页组
+export const onRequestPost: PagesFunction<Env, 'token'> = async (context) => {
+  try {
+    const body = (await context.request.json().catch(() => ({}))) as { password?: unknown }
+    const password = typeof body.password === 'string' ? body.password : null
+    return await respondWithSharedTabGroup(context, password)
+  } catch (error) {
+    console.error('Get shared tab group error:', error)
+    return internalError('Failed to get shared tab group')
+  }
+}
@@ -10,7 +10,9 @@ import { success, badRequest, notFound, noContent, internalError } from '../../.
 import { requireApiKeyAuth, ApiKeyAuthContext } from '../../../middleware/api-key-auth-pages'
 import { isValidUrl, sanitizeString } from '../../../lib/validation'
 import { normalizeBookmark } from '../../../lib/bookmark-utils'
+import { canonicalizeUrl, getCanonicalUrlRules } from '../../../lib/canonical-url'
 import { invalidatePublicShareCache } from '../../shared/cache'
+import { dispatchWebhookEvent } from '../../../lib/webhooks'
 
 interface UpdateBookmarkRequest {
   title?: string
@@ -119,8 +121,9 @@ export const onRequestPatch: PagesFunction<Env, RouteParams, ApiKeyAuthContext>[
         if (!isValidUrl(body.url)) {
           return badRequest('Invalid URL format')
         }
-        updates.push('url = ?')
-        values.push(sanitizeString(body.url, 2000))
+        const url = sanitizeString(body.url, 2000)
+        updates.push('url = ?', 'canonical_url = ?')
+        values.push(url, canonicalizeUrl(url, getCanonicalUrlRules(context.env)))
       }
 
       // 描述
@@ -223,12 +226,13 @@ export const onRequestPatch: PagesFunction<Env, RouteParams, ApiKeyAuthContext>[
         return internalError('Failed to load bookmark after update')
       }
 
-      return success({
-        bookmark: {
-          ...normalizeBookmark(bookmarkRow),
-          tags: tags || [],
-        },
-      })
+      const bookmark = {
+        ...normalizeBookmark(bookmarkRow),
+        tags: tags || [],
+      }
+      context.waitUntil(dispatchWebhookEvent(context.env, userId, 'bookmark.updated', { bookmark }))
+
+      return success({ bookmark })
     } catch (error) {
       console.error('Update bookmark error:', error)
       return internalError('Failed to update bookmark')
@@ -245,10 +249,10 @@ export const onRequestDelete: PagesFunction<Env, RouteParams, ApiKeyAuthContext>
 
     try {
       const existing = await context.env.DB.prepare(
-        'SELECT id FROM bookmarks WHERE id = ? AND user_id = ? AND deleted_at IS NULL'
+        'SELECT id, title, url FROM bookmarks WHERE id = ? AND user_id = ? AND deleted_at IS NULL'
       )
         .bind(bookmarkId, userId)
-        .first()
+        .first<{ id: string; title: string; url: string }>()
 
       if (!existing) {
         return notFound('Bookmark not found')
@@ -270,6 +274,8 @@ export const onRequestDelete: PagesFunction<Env, RouteParams, ApiKeyAuthContext>
 
       await invalidatePublicShareCache(context.env, userId)
 
+      context.waitUntil(dispatchWebhookEvent(context.env, userId, 'bookmark.deleted', { bookmark: existing }))
+
       return noContent()
     } catch (error) {
       console.error('Delete bookmark error:', error)
@@ -0,0 +1,78 @@
+/**
+ * 单条书签笔记 API
+ * 路径: /api/tab/bookmarks/:id/notes/:noteId
+ * 认证: API Key (X-API-Key header)
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env } from '../../../../../lib/types'
+import { success, badRequest, notFound, noContent, internalError } from '../../../../../lib/response'
+import { CacheService } from '../../../../../lib/cache'
+import { createBookmarkCacheManager } from '../../../../../lib/cache/bookmark-cache'
+import { requireApiKeyAuth, ApiKeyAuthContext } from '../../../../../middleware/api-key-auth-pages'
+import {
+  deleteBookmarkNote,
+  getBookmarkNote,
+  updateBookmarkNote,
+  validateNoteInput,
+} from '../../../../../lib/bookmark-notes'
+import type { NoteInput } from '../../../../../lib/bookmark-notes'
+
+// PATCH /api/tab/bookmarks/:id/notes/:noteId - 编辑笔记或高亮批注
+export const onRequestPatch: PagesFunction<Env, 'id' | 'noteId', ApiKeyAuthContext>[] = [
+  requireApiKeyAuth('bookmarks.update'),
+  async (context) => {
+    try {
+      const userId = context.data.user_id
+      const body = await context.request.json() as NoteInput
+
+      const note = await getBookmarkNote(
+        context.env.DB,
+        userId,
+        context.params.id as string,
+        context.params.noteId as string
+      )
+      if (!note) {
+        return notFound('Note not found')
+      }
+
+      const validation = validateNoteInput(body, note)
+      if (!validation.success) {
+        return badRequest(validation.message)
+      }
+
+      const updated = await updateBookmarkNote(context.env.DB, userId, note, validation.note)
+      await createBookmarkCacheManager(new CacheService(context.env)).invalidateUserBookmarks(userId)
+
+      return success({ note: updated })
+    } catch (error) {
+      console.error('Update bookmark note error:', error)
+      return internalError('Failed to update bookmark note')
+    }
+  },
+]
+
+// DELETE /api/tab/bookmarks/:id/notes/:noteId - 删除笔记
+export const onRequestDelete: PagesFunction<Env, 'id' | 'noteId', ApiKeyAuthContext>[] = [
+  requireApiKeyAuth('bookmarks.update'),
+  async (context) => {
+    try {
+      const userId = context.data.user_id
+      const deleted = await deleteBookmarkNote(
+        context.env.DB,
+        userId,
+        context.params.id as string,
+        context.params.noteId as string
+      )
+      if (!deleted) {
+        return notFound('Note not found')
+      }
+
+      await createBookmarkCacheManager(new CacheService(context.env)).invalidateUserBookmarks(userId)
+      return noContent()
+    } catch (error) {
+      console.error('Delete bookmark note error:', error)
+      return internalError('Failed to delete bookmark note')
+    }
+  },
+]
@@ -0,0 +1,45 @@
+/**
+ * 书签阅读状态 API
+ * 路径: /api/tab/bookmarks/:id/reading
+ * 认证: API Key (X-API-Key header)
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env } from '../../../../lib/types'
+import { success, badRequest, notFound, internalError } from '../../../../lib/response'
+import { requireApiKeyAuth, ApiKeyAuthContext } from '../../../../middleware/api-key-auth-pages'
+import { CacheService } from '../../../../lib/cache'
+import { createBookmarkCacheManager } from '../../../../lib/cache/bookmark-cache'
+import { applyReadingState, findBookmarkReadingState, saveReadingState } from '../../../../lib/reading-state'
+import type { ReadingStateInput } from '../../../../lib/reading-state'
+
+// PUT /api/tab/bookmarks/:id/reading - 设置阅读状态和进度（status 为 null 时移出阅读队列）
+export const onRequestPut: PagesFunction<Env, 'id', ApiKeyAuthContext>[] = [
+  requireApiKeyAuth('bookmarks.update'),
+  async (context) => {
+    try {
+      const userId = context.data.user_id
+      const bookmarkId = context.params.id as string
+
+      const body = await context.request.json() as ReadingStateInput
+
+      const current = await findBookmarkReadingState(context.env.DB, userId, bookmarkId)
+      if (!current) {
+        return notFound('Bookmark not found')
+      }
+
+      const result = applyReadingState(current, body, new Date().toISOString())
+      if (!result.success) {
+        return badRequest(result.message)
+      }
+
+      await saveReadingState(context.env.DB, bookmarkId, result.state)
+      await createBookmarkCacheManager(new CacheService(context.env)).invalidateUserBookmarks(userId)
+
+      return success({ reading: result.state })
+    } catch (error) {
+      console.error('Update reading state error:', error)
+      return internalError('Failed to update reading state')
+    }
+  },
+]
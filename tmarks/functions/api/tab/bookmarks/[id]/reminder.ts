@@ -0,0 +1,93 @@
+/**
+ * 书签提醒 API
+ * 路径: /api/tab/bookmarks/:id/reminder
+ * 认证: API Key (X-API-Key header)
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env } from '../../../../lib/types'
+import { success, badRequest, notFound, noContent, internalError } from '../../../../lib/response'
+import { requireApiKeyAuth, ApiKeyAuthContext } from '../../../../middleware/api-key-auth-pages'
+import { bookmarkExists } from '../../../../lib/bookmark-notes'
+import {
+  clearBookmarkReminder,
+  getBookmarkReminder,
+  setBookmarkReminder,
+  validateReminderInput,
+} from '../../../../lib/reminders'
+import type { ReminderInput } from '../../../../lib/reminders'
+
+// GET /api/tab/bookmarks/:id/reminder - 获取书签的待处理提醒
+export const onRequestGet: PagesFunction<Env, 'id', ApiKeyAuthContext>[] = [
+  requireApiKeyAuth('bookmarks.read'),
+  async (context) => {
+    try {
+      const userId = context.data.user_id
+      const bookmarkId = context.params.id as string
+
+      if (!(await bookmarkExists(context.env.DB, userId, bookmarkId))) {
+        return notFound('Bookmark not found')
+      }
+
+      const reminder = await getBookmarkReminder(context.env.DB, userId, bookmarkId)
+      return success({ reminder })
+    } catch (error) {
+      console.error('Get bookmark reminder error:', error)
+      return internalError('Failed to get reminder')
+    }
+  },
+]
+
+// PUT /api/tab/bookmarks/:id/reminder - 设置提醒（remind_at 或 remind_in_days）
+export const onRequestPut: PagesFunction<Env, 'id', ApiKeyAuthContext>[] = [
+  requireApiKeyAuth('bookmarks.update'),
+  async (context) => {
+    try {
+      const userId = context.data.user_id
+      const bookmarkId = context.params.id as string
+
+      if (!(await bookmarkExists(context.env.DB, userId, bookmarkId))) {
+        return notFound('Bookmark not found')
+      }
+
+      const body = await context.request.json() as ReminderInput
+      const validation = validateReminderInput(body, new Date().toISOString())
+      if (!validation.success) {
+        return badRequest(validation.message)
+      }
+
+      const reminder = await setBookmarkReminder(
+        context.env.DB,
+        userId,
+        bookmarkId,
+        validation.remindAt,
+        validation.note
+      )
+
+      return success({ reminder })
+    } catch (error) {
+      console.error('Set bookmark reminder error:', error)
+      return internalError('Failed to set reminder')
+    }
+  },
+]
+
+// DELETE /api/tab/bookmarks/:id/reminder - 取消提醒
+export const onRequestDelete: PagesFunction<Env, 'id', ApiKeyAuthContext>[] = [
+  requireApiKeyAuth('bookmarks.update'),
+  async (context) => {
+    try {
+      const userId = context.data.user_id
+      const bookmarkId = context.params.id as string
+
+      if (!(await clearBookmarkReminder(context.env.DB, userId, bookmarkId))) {
+        return notFound('Reminder not found')
+      }
+
+      return noContent()
+    } catch (error) {
+      console.error('Delete bookmark reminder error:', error)
+      return internalError('Failed to delete reminder')
+    }
+  },
+]
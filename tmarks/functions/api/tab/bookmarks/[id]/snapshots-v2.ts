@@ -9,6 +9,7 @@ import { success, badRequest, notFound, internalError } from '../../../../lib/re
 import { requireApiKeyAuth, ApiKeyAuthContext } from '../../../../middleware/api-key-auth-pages'
 import { generateSignedUrl } from '../../../../lib/signed-url'
 import { checkR2Quota } from '../../../../lib/storage-quota'
+import { dispatchWebhookEvent } from '../../../../lib/webhooks'
 
 function generateNanoId(): string {
   const alphabet = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz'
@@ -278,18 +279,23 @@ export const onRequestPost: PagesFunction<Env, 'id', ApiKeyAuthContext>[] = [
       // 构建签名 URL（复用之前的 baseUrl）
       const viewUrl = `${baseUrl}/api/v1/bookmarks/${bookmarkId}/snapshots/${snapshotId}/view?sig=${signature}&exp=${expires}&u=${userId}&a=view`
 
+      const snapshot = {
+        id: snapshotId,
+        version,
+        file_size: totalSize,
+        image_count: uploadedImages.length,
+        content_hash: contentHash,
+        snapshot_title: title,
+        is_latest: true,
+        created_at: now,
+      }
+
+      context.waitUntil(
+        dispatchWebhookEvent(context.env, userId, 'snapshot.created', { bookmark_id: bookmarkId, snapshot })
+      )
+
       return success({
-        snapshot: {
-          id: snapshotId,
-          version,
-          file_size: totalSize,
-          image_count: uploadedImages.length,
-          content_hash: contentHash,
-          snapshot_title: title,
-          is_latest: true,
-          created_at: now,
-          view_url: viewUrl,
-        },
+        snapshot: { ...snapshot, view_url: viewUrl },
         message: 'Snapshot created successfully (V2)',
       })
     } catch (error) {
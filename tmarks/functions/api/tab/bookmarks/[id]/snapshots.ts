@@ -9,6 +9,7 @@ import type { Env } from '../../../../lib/types'
 import { success, badRequest, notFound, internalError } from '../../../../lib/response'
 import { requireApiKeyAuth, ApiKeyAuthContext } from '../../../../middleware/api-key-auth-pages'
 import { checkR2Quota } from '../../../../lib/storage-quota'
+import { dispatchWebhookEvent } from '../../../../lib/webhooks'
 
 // 生成 nanoid 风格的短 ID（21 字符）
 function generateNanoId(): string {
@@ -248,14 +249,20 @@ export const onRequestPost: PagesFunction<Env, 'id', ApiKeyAuthContext>[] = [
       // 检查并清理旧快照
       await cleanupOldSnapshots(db, bucket, bookmarkId, userId)
 
+      const snapshot = {
+        id: snapshotId,
+        version,
+        file_size: originalSize,
+        content_hash: contentHash,
+        created_at: now,
+      }
+
+      context.waitUntil(
+        dispatchWebhookEvent(context.env, userId, 'snapshot.created', { bookmark_id: bookmarkId, snapshot })
+      )
+
       return success({
-        snapshot: {
-          id: snapshotId,
-          version,
-          file_size: originalSize,
-          content_hash: contentHash,
-          created_at: now,
-        },
+        snapshot,
         message: 'Snapshot created successfully',
       })
     } catch (error) {
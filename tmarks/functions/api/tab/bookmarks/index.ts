@@ -13,6 +13,13 @@ import { generateUUID } from '../../../lib/crypto'
 import { normalizeBookmark } from '../../../lib/bookmark-utils'
 import { invalidatePublicShareCache } from '../../shared/cache'
 import { uploadCoverImageToR2 } from '../../../lib/image-upload'
+import { parseSearchQuery, compileSearchQuery } from '../../../lib/search-query'
+import { MAX_FILTER_TAGS } from '../../../lib/bookmark-query'
+import { canonicalizeUrl, findExistingBookmark, getCanonicalUrlRules } from '../../../lib/canonical-url'
+import { parseReadingStatusList, queuedReadingState, saveReadingState } from '../../../lib/reading-state'
+import { dispatchWebhookEvent } from '../../../lib/webhooks'
+import { BOOKMARK_SORT_KEYS, buildKeysetCondition, buildOrderBy, cursorFromRow, isKeysetSort, parseBookmarkCursor } from '../../../lib/bookmark-cursor'
+import type { BookmarkCursorRow } from '../../../lib/bookmark-cursor'
 
 interface CreateBookmarkRequest {
   title: string
@@ -25,6 +32,7 @@ interface CreateBookmarkRequest {
   is_pinned?: boolean
   is_archived?: boolean
   is_public?: boolean
+  read_later?: boolean  // 加入稍后阅读队列
 }
 
 // GET /api/bookmarks - 获取书签列表
@@ -40,19 +48,43 @@ export const onRequestGet: PagesFunction<Env, RouteParams, ApiKeyAuthContext>[]
 
     try {
       const keyword = url.searchParams.get('keyword')
-      const tags = url.searchParams.get('tags')
+      const tagIds = [...new Set((url.searchParams.get('tags') || '').split(',').filter(Boolean))]
       const pageSize = parseInt(url.searchParams.get('page_size') || '30')
       const pageCursor = url.searchParams.get('page_cursor')
-      const sortBy = (url.searchParams.get('sort') as 'created' | 'updated' | 'pinned') || 'created'
+      const sortParam = url.searchParams.get('sort')
+      const sortBy = isKeysetSort(sortParam) ? sortParam : 'created'
+      const sortKeys = BOOKMARK_SORT_KEYS[sortBy]
       const archivedParam = url.searchParams.get('archived')
       const archived = archivedParam ? archivedParam === 'true' : undefined
       const pinnedParam = url.searchParams.get('pinned')
       const pinned = pinnedParam ? pinnedParam === 'true' : undefined
+      const readingStatuses = parseReadingStatusList(url.searchParams.get('reading_status'))
+
+      if (tagIds.length > MAX_FILTER_TAGS) {
+        return badRequest(`Cannot filter by more than ${MAX_FILTER_TAGS} tags`, 'TOO_MANY_TAGS')
+      }
+
+      // 关键词搜索（FTS5 全文索引，支持 tag:, site:, is: 等运算符）
+      const parsedQuery = keyword ? parseSearchQuery(keyword) : null
+      if (parsedQuery && !parsedQuery.success) {
+        return badRequest({
+          code: 'INVALID_SEARCH_QUERY',
+          message: parsedQuery.error.message,
+          details: parsedQuery.error,
+        })
+      }
+      const search = parsedQuery?.success ? compileSearchQuery(parsedQuery.query) : null
+
+      const parsedCursor = parseBookmarkCursor(pageCursor, sortBy, sortKeys)
+      if (!parsedCursor.success) {
+        return badRequest(parsedCursor.message, 'INVALID_PAGE_CURSOR')
+      }
 
       // 构建查询
       let query = `
         SELECT DISTINCT b.*
         FROM bookmarks b
+        ${search?.join ?? ''}
         WHERE b.user_id = ? AND b.deleted_at IS NULL
       `
       const params: SQLParam[] = [userId]
@@ -69,57 +101,52 @@ export const onRequestGet: PagesFunction<Env, RouteParams, ApiKeyAuthContext>[]
         params.push(pinned ? 1 : 0)
       }
 
+      // 阅读状态过滤
+      if (readingStatuses.length > 0) {
+        query += ` AND b.reading_status IN (${readingStatuses.map(() => '?').join(',')})`
+        params.push(...readingStatuses)
+      } else if (sortBy === 'queue') {
+        // 队列排序未指定状态时只返回未读和阅读中的书签
+        query += ` AND b.reading_status IN ('unread', 'reading')`
+      }
+
       // 关键词搜索
-      if (keyword) {
-        query += ` AND (b.title LIKE ? OR b.description LIKE ? OR b.url LIKE ?)`
-        const searchPattern = `%${keyword}%`
-        params.push(searchPattern, searchPattern, searchPattern)
+      if (search && search.conditions.length > 0) {
+        query += ` AND ${search.conditions.join(' AND ')}`
+        params.push(...search.params)
       }
 
       // 标签过滤（交集逻辑：必须包含所有选中的标签）
-      if (tags) {
-        const tagIds = tags.split(',').filter(Boolean)
-        if (tagIds.length > 0) {
-          query += ` AND b.id IN (
-            SELECT bt.bookmark_id
-            FROM bookmark_tags bt
-            WHERE bt.tag_id IN (${tagIds.map(() => '?').join(',')})
-            GROUP BY bt.bookmark_id
-            HAVING COUNT(DISTINCT bt.tag_id) = ?
-          )`
-          params.push(...tagIds, tagIds.length)
-        }
+      if (tagIds.length > 0) {
+        query += ` AND b.id IN (
+          SELECT bt.bookmark_id
+          FROM bookmark_tags bt
+          WHERE bt.tag_id IN (${tagIds.map(() => '?').join(',')})
+          GROUP BY bt.bookmark_id
+          HAVING COUNT(DISTINCT bt.tag_id) = ?
+        )`
+        params.push(...tagIds, tagIds.length)
       }
 
-      // 游标分页
-      if (pageCursor) {
-        query += ` AND b.id < ?`
-        params.push(pageCursor)
+      // 游标分页（键集游标携带完整排序元组）
+      const cursor = parsedCursor.cursor
+      if (cursor && 'values' in cursor) {
+        const keyset = buildKeysetCondition(sortKeys, cursor.values)
+        query += ` AND ${keyset.sql}`
+        params.push(...keyset.params)
       }
 
       // 排序（置顶书签按 pin_order 排序）
-      let orderBy = ''
-      switch (sortBy) {
-        case 'updated':
-          orderBy = 'ORDER BY b.is_pinned DESC, CASE WHEN b.is_pinned = 1 THEN b.pin_order ELSE NULL END ASC, b.updated_at DESC, b.id DESC'
-          break
-        case 'pinned':
-          orderBy = 'ORDER BY b.is_pinned DESC, CASE WHEN b.is_pinned = 1 THEN b.pin_order ELSE NULL END ASC, b.created_at DESC, b.id DESC'
-          break
-        case 'created':
-        default:
-          orderBy = 'ORDER BY b.is_pinned DESC, CASE WHEN b.is_pinned = 1 THEN b.pin_order ELSE NULL END ASC, b.created_at DESC, b.id DESC'
-          break
-      }
-
-      query += ` ${orderBy} LIMIT ?`
+      query += ` ${buildOrderBy(sortKeys)} LIMIT ?`
       params.push(pageSize + 1)
 
-      const { results } = await context.env.DB.prepare(query).bind(...params).all<BookmarkRow>()
+      const { results } = await context.env.DB.prepare(query).bind(...params).all<BookmarkCursorRow>()
 
       const hasMore = results.length > pageSize
       const bookmarks = hasMore ? results.slice(0, pageSize) : results
-      const nextCursor = hasMore && bookmarks.length > 0 ? String(bookmarks[bookmarks.length - 1].id) : null
+      const nextCursor = hasMore && bookmarks.length > 0
+        ? cursorFromRow(sortBy, sortKeys, bookmarks[bookmarks.length - 1])
+        : null
 
       // 优化：使用单次查询获取所有书签的标签
       const bookmarkIds = bookmarks.map(b => b.id)
@@ -208,12 +235,9 @@ export const onRequestPost: PagesFunction<Env, RouteParams, ApiKeyAuthContext>[]
       let coverImage = body.cover_image ? sanitizeString(body.cover_image, 2000) : null
       const favicon = body.favicon ? sanitizeString(body.favicon, 2000) : null
 
-      // 检查URL是否已存在（包括已删除的）
-      const existing = await context.env.DB.prepare(
-        'SELECT id, deleted_at FROM bookmarks WHERE user_id = ? AND url = ?'
-      )
-        .bind(userId, url)
-        .first<{ id: string; deleted_at: string | null }>()
+      // 检查URL是否已存在（包括已删除的），规范化后相同的未删除书签同样视为已存在
+      const canonicalUrl = canonicalizeUrl(url, getCanonicalUrlRules(context.env))
+      const existing = await findExistingBookmark(context.env.DB, userId, url, canonicalUrl)
 
       const now = new Date().toISOString()
       let bookmarkId: string
@@ -296,13 +320,14 @@ export const onRequestPost: PagesFunction<Env, RouteParams, ApiKeyAuthContext>[]
         bookmarkId = existing.id
         await context.env.DB.prepare(
           `UPDATE bookmarks
-           SET title = ?, description = ?, cover_image = ?, favicon = ?,
+           SET title = ?, canonical_url = ?, description = ?, cover_image = ?, favicon = ?,
                is_pinned = ?, is_archived = ?, is_public = ?,
                deleted_at = NULL, updated_at = ?
            WHERE id = ?`
         )
           .bind(
             title,
+            canonicalUrl,
             description,
             coverImage,
             favicon,
@@ -321,14 +346,15 @@ export const onRequestPost: PagesFunction<Env, RouteParams, ApiKeyAuthContext>[]
         // 创建新书签
         bookmarkId = generateUUID()
         await context.env.DB.prepare(
-          `INSERT INTO bookmarks (id, user_id, title, url, description, cover_image, cover_image_id, favicon, is_pinned, is_archived, is_public, created_at, updated_at)
-           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+          `INSERT INTO bookmarks (id, user_id, title, url, canonical_url, description, cover_image, cover_image_id, favicon, is_pinned, is_archived, is_public, created_at, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
         )
           .bind(
             bookmarkId,
             userId,
             title,
             url,
+            canonicalUrl,
             description,
             coverImage,
             coverImageId,
@@ -358,6 +384,11 @@ export const onRequestPost: PagesFunction<Env, RouteParams, ApiKeyAuthContext>[]
         }
       }
 
+      // 加入稍后阅读队列
+      if (body.read_later) {
+        await saveReadingState(context.env.DB, bookmarkId, queuedReadingState(now))
+      }
+
       // 获取完整的书签信息
       const bookmarkRow = await context.env.DB.prepare('SELECT * FROM bookmarks WHERE id = ?')
         .bind(bookmarkId)
@@ -378,12 +409,13 @@ export const onRequestPost: PagesFunction<Env, RouteParams, ApiKeyAuthContext>[]
 
       await invalidatePublicShareCache(context.env, userId)
 
-      return created({
-        bookmark: {
-          ...normalizeBookmark(bookmarkRow),
-          tags: tags || [],
-        },
-      })
+      const bookmark = {
+        ...normalizeBookmark(bookmarkRow),
+        tags: tags || [],
+      }
+      context.waitUntil(dispatchWebhookEvent(context.env, userId, 'bookmark.created', { bookmark }))
+
+      return created({ bookmark })
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error)
       const errorStack = error instanceof Error ? error.stack : undefined
@@ -0,0 +1,53 @@
+/**
+ * 对外 API - 增量同步变更流
+ * 路径: /api/tab/changes
+ * 认证: API Key (X-API-Key header)
+ *
+ * GET /api/tab/changes                返回当前游标（全量同步前调用）
+ * GET /api/tab/changes?since=<cursor> 返回该游标之后的变更（书签、标签、标签页组，含删除墓碑）
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env, RouteParams } from '../../lib/types'
+import { success, badRequest, conflict, internalError } from '../../lib/response'
+import { requireApiKeyAuth, ApiKeyAuthContext } from '../../middleware/api-key-auth-pages'
+import {
+  readChangeFeed,
+  getLatestChangeCursor,
+  CHANGE_FEED_DEFAULT_LIMIT,
+  CHANGE_FEED_MAX_LIMIT,
+} from '../../lib/change-feed'
+
+export const onRequestGet: PagesFunction<Env, RouteParams, ApiKeyAuthContext>[] = [
+  requireApiKeyAuth('bookmarks.read'),
+  async (context) => {
+    const userId = context.data.user_id
+    const url = new URL(context.request.url)
+    const since = url.searchParams.get('since')
+    const limit = Math.min(
+      Math.max(parseInt(url.searchParams.get('limit') || '', 10) || CHANGE_FEED_DEFAULT_LIMIT, 1),
+      CHANGE_FEED_MAX_LIMIT
+    )
+
+    try {
+      if (!since) {
+        const cursor = await getLatestChangeCursor(context.env.DB)
+        return success({ cursor })
+      }
+
+      const result = await readChangeFeed(context.env.DB, userId, since, limit)
+
+      if (!result.success) {
+        if (result.reason === 'invalid_cursor') {
+          return badRequest('Invalid cursor', 'INVALID_CURSOR')
+        }
+        return conflict('Cursor has expired, a full sync is required', 'CURSOR_EXPIRED')
+      }
+
+      return success(result.page)
+    } catch (error) {
+      console.error('Get changes error:', error)
+      return internalError('Failed to get changes')
+    }
+  },
+]
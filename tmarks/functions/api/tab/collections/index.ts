@@ -0,0 +1,25 @@
+/**
+ * 对外 API - 智能集合
+ * 路径: /api/tab/collections
+ * 认证: API Key (X-API-Key header)
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env } from '../../../lib/types'
+import { success, internalError } from '../../../lib/response'
+import { requireApiKeyAuth, ApiKeyAuthContext } from '../../../middleware/api-key-auth-pages'
+import { listCollections } from '../../../lib/collections'
+
+// GET /api/tab/collections - 获取智能集合列表
+export const onRequestGet: PagesFunction<Env, string, ApiKeyAuthContext>[] = [
+  requireApiKeyAuth('bookmarks.read'),
+  async (context) => {
+    try {
+      const collections = await listCollections(context.env.DB, context.data.user_id)
+      return success({ collections })
+    } catch (error) {
+      console.error('Get collections error:', error)
+      return internalError('Failed to get collections')
+    }
+  },
+]
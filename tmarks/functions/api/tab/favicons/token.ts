@@ -0,0 +1,24 @@
+/**
+ * 对外 API - 站点图标签名
+ * 路径: /api/tab/favicons/token
+ * 认证: API Key (X-API-Key header)
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env } from '../../../lib/types'
+import { success, internalError } from '../../../lib/response'
+import { requireApiKeyAuth, ApiKeyAuthContext } from '../../../middleware/api-key-auth-pages'
+import { createFaviconSignature } from '../../../lib/favicon'
+
+// GET /api/tab/favicons/token - 获取图标地址签名，带签名的 /api/favicons/:domain 请求才会解析并缓存新域名
+export const onRequestGet: PagesFunction<Env, string, ApiKeyAuthContext>[] = [
+  requireApiKeyAuth('user.read'),
+  async (context) => {
+    try {
+      return success(await createFaviconSignature(context.data.user_id, context.env.JWT_SECRET))
+    } catch (error) {
+      console.error('Create favicon signature error:', error)
+      return internalError('Failed to create favicon signature')
+    }
+  },
+]
@@ -0,0 +1,40 @@
+/**
+ * 单个提醒 API
+ * 路径: /api/tab/reminders/:id
+ * 认证: API Key (X-API-Key header)
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env } from '../../../lib/types'
+import { success, badRequest, notFound, internalError } from '../../../lib/response'
+import { requireApiKeyAuth, ApiKeyAuthContext } from '../../../middleware/api-key-auth-pages'
+import { applyReminderAction, getReminder, validateReminderAction } from '../../../lib/reminders'
+import type { ReminderActionInput } from '../../../lib/reminders'
+
+// PATCH /api/tab/reminders/:id - 处理提醒（done 完成 / dismiss 忽略 / snooze 推迟）
+export const onRequestPatch: PagesFunction<Env, 'id', ApiKeyAuthContext>[] = [
+  requireApiKeyAuth('bookmarks.update'),
+  async (context) => {
+    try {
+      const userId = context.data.user_id
+      const reminderId = context.params.id as string
+
+      const body = await context.request.json() as ReminderActionInput
+      const validation = validateReminderAction(body)
+      if (!validation.success) {
+        return badRequest(validation.message)
+      }
+
+      const reminder = await getReminder(context.env.DB, userId, reminderId)
+      if (!reminder) {
+        return notFound('Reminder not found')
+      }
+
+      const updated = await applyReminderAction(context.env.DB, reminder, validation.action, validation.snoozeDays)
+      return success({ reminder: updated })
+    } catch (error) {
+      console.error('Update reminder error:', error)
+      return internalError('Failed to update reminder')
+    }
+  },
+]
@@ -0,0 +1,25 @@
+/**
+ * 到期提醒 API
+ * 路径: /api/tab/reminders/due
+ * 认证: API Key (X-API-Key header)
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env } from '../../../lib/types'
+import { success, internalError } from '../../../lib/response'
+import { requireApiKeyAuth, ApiKeyAuthContext } from '../../../middleware/api-key-auth-pages'
+import { getDueReminders } from '../../../lib/reminders'
+
+// GET /api/tab/reminders/due - 获取已到期的提醒（到达间隔时先生成自动重温提醒）
+export const onRequestGet: PagesFunction<Env, string, ApiKeyAuthContext>[] = [
+  requireApiKeyAuth('bookmarks.read'),
+  async (context) => {
+    try {
+      const reminders = await getDueReminders(context.env.DB, context.data.user_id)
+      return success({ reminders })
+    } catch (error) {
+      console.error('Get due reminders error:', error)
+      return internalError('Failed to get due reminders')
+    }
+  },
+]
@@ -8,10 +8,14 @@ import type { PagesFunction } from '@cloudflare/workers-types'
 import type { Env, Bookmark, RouteParams } from '../../lib/types'
 import { success, badRequest, internalError } from '../../lib/response'
 import { requireApiKeyAuth, ApiKeyAuthContext } from '../../middleware/api-key-auth-pages'
+import { extractSearchHighlights } from '../../lib/search'
+import { parseSearchQuery, compileSearchQuery } from '../../lib/search-query'
+import type { SearchHighlights, SearchRankColumns } from '../../lib/search'
 
 // GET /api/search - 全局搜索书签和标签
 type BookmarkWithTags = Bookmark & {
   tags: Array<{ id: string; name: string; color: string | null }>
+  search_highlights?: SearchHighlights
 }
 
 export const onRequestGet: PagesFunction<Env, RouteParams, ApiKeyAuthContext>[] = [
@@ -25,21 +29,40 @@ export const onRequestGet: PagesFunction<Env, RouteParams, ApiKeyAuthContext>[]
       return badRequest('Search query is required')
     }
 
+    const parsedQuery = parseSearchQuery(query)
+    if (!parsedQuery.success) {
+      return badRequest({
+        code: 'INVALID_SEARCH_QUERY',
+        message: parsedQuery.error.message,
+        details: parsedQuery.error,
+      })
+    }
+
     const searchTerm = `%${query.trim()}%`
     const limit = Math.min(parseInt(url.searchParams.get('limit') || '20'), 100)
 
     try {
-      // 搜索书签
-      const { results: bookmarks } = await context.env.DB.prepare(
-        `SELECT b.*
+      // 搜索书签（FTS5 全文索引按 BM25 相关度排序，运算符编译为参数化条件）
+      const search = compileSearchQuery(parsedQuery.query)
+      const orderBy = search.ranked
+        ? 'ORDER BY search_rank ASC, b.is_pinned DESC, b.updated_at DESC'
+        : 'ORDER BY b.is_pinned DESC, b.updated_at DESC'
+
+      const { results: rows } = await context.env.DB.prepare(
+        `SELECT b.*${search.select}
          FROM bookmarks b
-         WHERE b.user_id = ? AND b.deleted_at IS NULL
-         AND (b.title LIKE ? OR b.description LIKE ? OR b.url LIKE ?)
-         ORDER BY b.is_pinned DESC, b.updated_at DESC
+         ${search.join}
+         WHERE ${['b.user_id = ?', 'b.deleted_at IS NULL', ...search.conditions].join(' AND ')}
+         ${orderBy}
          LIMIT ?`
       )
-        .bind(userId, searchTerm, searchTerm, searchTerm, limit)
-        .all<Bookmark>()
+        .bind(userId, ...search.params, limit)
+        .all<Bookmark & SearchRankColumns>()
+
+      const bookmarks = (rows || []).map(row => {
+        const { row: bookmark, highlights } = extractSearchHighlights(row)
+        return highlights ? { ...bookmark, search_highlights: highlights } : bookmark
+      })
 
       // 优化：使用单次查询获取所有书签的标签
       let bookmarksWithTags: BookmarkWithTags[] = (bookmarks || []).map(bookmark => ({
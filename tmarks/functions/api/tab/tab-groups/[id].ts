@@ -9,6 +9,7 @@ import type { Env, RouteParams } from '../../../lib/types'
 import { success, badRequest, notFound, internalError } from '../../../lib/response'
 import { requireDualAuth, DualAuthContext } from '../../../middleware/dual-auth'
 import { sanitizeString } from '../../../lib/validation'
+import { dispatchWebhookEvent } from '../../../lib/webhooks'
 
 interface TabGroupRow {
   id: string
@@ -277,6 +278,12 @@ export const onRequestDelete: PagesFunction<Env, RouteParams, DualAuthContext>[]
           .run()
       }
 
+      context.waitUntil(
+        dispatchWebhookEvent(context.env, userId, 'tab_group.deleted', {
+          tab_group: { id: groupRow.id, title: groupRow.title },
+        })
+      )
+
       return new Response(null, { status: 204 })
     } catch (error) {
       console.error('Delete tab group error:', error)
@@ -6,33 +6,25 @@
 
 import type { PagesFunction } from '@cloudflare/workers-types'
 import type { Env, RouteParams } from '../../../../lib/types'
-import { success, notFound, internalError } from '../../../../lib/response'
+import { success, badRequest, notFound, internalError } from '../../../../lib/response'
 import { requireDualAuth, DualAuthContext } from '../../../../middleware/dual-auth'
-import { generateUUID } from '../../../../lib/crypto'
+import { dispatchWebhookEvent } from '../../../../lib/webhooks'
+import {
+  findGroupShare,
+  parseShareSettings,
+  revokeShare,
+  saveGroupShare,
+  toShareInfo,
+} from '../../../../lib/tab-group-share'
 
 interface TabGroupRow {
   id: string
   user_id: string
+  title: string
   is_deleted: number
 }
 
-interface ShareRow {
-  id: string
-  group_id: string
-  user_id: string
-  share_token: string
-  is_public: number
-  view_count: number
-  created_at: string
-  expires_at: string | null
-}
-
-interface CreateShareRequest {
-  is_public?: boolean
-  expires_in_days?: number
-}
-
-// POST /api/tab/tab-groups/:id/share - 创建分享链接
+// POST /api/tab/tab-groups/:id/share - 创建分享链接或更新分享设置
 export const onRequestPost: PagesFunction<Env, RouteParams, DualAuthContext>[] = [
   requireDualAuth('tab_groups.update'),
   async (context) => {
@@ -40,7 +32,11 @@ export const onRequestPost: PagesFunction<Env, RouteParams, DualAuthContext>[] =
     const groupId = context.params.id
 
     try {
-      const body = (await context.request.json().catch(() => ({}))) as CreateShareRequest
+      const body = await context.request.json().catch(() => ({}))
+      const parsed = parseShareSettings(body)
+      if (!parsed.success) {
+        return badRequest(parsed.message)
+      }
 
       // Check if tab group exists and belongs to user
       const groupRow = await context.env.DB.prepare(
@@ -53,54 +49,19 @@ export const onRequestPost: PagesFunction<Env, RouteParams, DualAuthContext>[] =
         return notFound('Tab group not found')
       }
 
-      // Check if share already exists
-      const existingShare = await context.env.DB.prepare(
-        'SELECT * FROM shares WHERE group_id = ? AND user_id = ?'
-      )
-        .bind(groupId, userId)
-        .first<ShareRow>()
+      const { share: row } = await saveGroupShare(context.env.DB, userId, groupId, parsed.settings)
+      const share = toShareInfo(row, new URL(context.request.url).origin)
 
-      if (existingShare) {
-        return success({
-          share: existingShare,
-          share_url: `${new URL(context.request.url).origin}/share/${existingShare.share_token}`,
+      context.waitUntil(
+        dispatchWebhookEvent(context.env, userId, 'tab_group.shared', {
+          tab_group: { id: groupRow.id, title: groupRow.title },
+          share,
         })
-      }
-
-      // Generate share token
-      const shareToken = generateUUID().replace(/-/g, '').substring(0, 16)
-      const shareId = generateUUID()
-      const now = new Date().toISOString()
-      const isPublic = body.is_public !== false ? 1 : 0
-
-      let expiresAt: string | null = null
-      if (body.expires_in_days && body.expires_in_days > 0) {
-        const expiresDate = new Date()
-        expiresDate.setDate(expiresDate.getDate() + body.expires_in_days)
-        expiresAt = expiresDate.toISOString()
-      }
-
-      // Create share
-      await context.env.DB.prepare(
-        'INSERT INTO shares (id, group_id, user_id, share_token, is_public, view_count, created_at, expires_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)'
       )
-        .bind(shareId, groupId, userId, shareToken, isPublic, 0, now, expiresAt)
-        .run()
-
-      const share = {
-        id: shareId,
-        group_id: groupId,
-        user_id: userId,
-        share_token: shareToken,
-        is_public: isPublic,
-        view_count: 0,
-        created_at: now,
-        expires_at: expiresAt,
-      }
 
       return success({
         share,
-        share_url: `${new URL(context.request.url).origin}/share/${shareToken}`,
+        share_url: share.share_url,
       })
     } catch (error) {
       console.error('Create share error:', error)
@@ -117,20 +78,16 @@ export const onRequestGet: PagesFunction<Env, RouteParams, DualAuthContext>[] =
     const groupId = context.params.id
 
     try {
-      // Get share
-      const share = await context.env.DB.prepare(
-        'SELECT * FROM shares WHERE group_id = ? AND user_id = ?'
-      )
-        .bind(groupId, userId)
-        .first<ShareRow>()
-
-      if (!share) {
+      // 已撤销的分享视为不存在
+      const row = await findGroupShare(context.env.DB, userId, groupId)
+      if (!row || row.revoked_at) {
         return notFound('Share not found')
       }
 
+      const share = toShareInfo(row, new URL(context.request.url).origin)
       return success({
         share,
-        share_url: `${new URL(context.request.url).origin}/share/${share.share_token}`,
+        share_url: share.share_url,
       })
     } catch (error) {
       console.error('Get share error:', error)
@@ -139,7 +96,7 @@ export const onRequestGet: PagesFunction<Env, RouteParams, DualAuthContext>[] =
   },
 ]
 
-// DELETE /api/tab/tab-groups/:id/share - 删除分享
+// DELETE /api/tab/tab-groups/:id/share - 撤销分享
 export const onRequestDelete: PagesFunction<Env, RouteParams, DualAuthContext>[] = [
   requireDualAuth('tab_groups.delete'),
   async (context) => {
@@ -147,10 +104,10 @@ export const onRequestDelete: PagesFunction<Env, RouteParams, DualAuthContext>[]
     const groupId = context.params.id
 
     try {
-      // Delete share
-      await context.env.DB.prepare('DELETE FROM shares WHERE group_id = ? AND user_id = ?')
-        .bind(groupId, userId)
-        .run()
+      const row = await findGroupShare(context.env.DB, userId, groupId)
+      if (row && !row.revoked_at) {
+        await revokeShare(context.env.DB, row)
+      }
 
       return new Response(null, { status: 204 })
     } catch (error) {
@@ -159,4 +116,3 @@ export const onRequestDelete: PagesFunction<Env, RouteParams, DualAuthContext>[]
     }
   },
 ]
-
@@ -10,6 +10,7 @@ import { success, created, internalError } from '../../../lib/response'
 import { requireDualAuth, DualAuthContext } from '../../../middleware/dual-auth'
 import { sanitizeString } from '../../../lib/validation'
 import { generateUUID } from '../../../lib/crypto'
+import { dispatchWebhookEvent } from '../../../lib/webhooks'
 
 interface TabGroupRow {
   id: string
@@ -243,13 +244,14 @@ export const onRequestPost: PagesFunction<Env, RouteParams, DualAuthContext>[] =
         .bind(groupId, userId)
         .all<TabGroupItemRow>()
 
-      return created({
-        tab_group: {
-          ...groupRow,
-          items: items || [],
-          item_count: items?.length || 0,
-        },
-      })
+      const tabGroup = {
+        ...groupRow,
+        items: items || [],
+        item_count: items?.length || 0,
+      }
+      context.waitUntil(dispatchWebhookEvent(context.env, userId, 'tab_group.created', { tab_group: tabGroup }))
+
+      return created({ tab_group: tabGroup })
     } catch (error) {
       console.error('Create tab group error:', error)
       return internalError('Failed to create tab group')
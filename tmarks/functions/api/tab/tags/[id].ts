@@ -9,6 +9,7 @@ import type { Env, RouteParams, SQLParam } from '../../../lib/types'
 import { success, badRequest, notFound, noContent, internalError } from '../../../lib/response'
 import { requireApiKeyAuth, ApiKeyAuthContext } from '../../../middleware/api-key-auth-pages'
 import { sanitizeString } from '../../../lib/validation'
+import { dispatchWebhookEvent } from '../../../lib/webhooks'
 
 interface UpdateTagRequest {
   name?: string
@@ -138,10 +139,10 @@ export const onRequestDelete: PagesFunction<Env, RouteParams, ApiKeyAuthContext>
 
     try {
       const existing = await context.env.DB.prepare(
-        'SELECT id FROM tags WHERE id = ? AND user_id = ? AND deleted_at IS NULL'
+        'SELECT id, name, parent_id FROM tags WHERE id = ? AND user_id = ? AND deleted_at IS NULL'
       )
         .bind(tagId, userId)
-        .first()
+        .first<{ id: string; name: string; parent_id: string | null }>()
 
       if (!existing) {
         return notFound('Tag not found')
@@ -149,6 +150,13 @@ export const onRequestDelete: PagesFunction<Env, RouteParams, ApiKeyAuthContext>
 
       const now = new Date().toISOString()
 
+      // 子标签上移到被删除标签的父级
+      await context.env.DB.prepare(
+        'UPDATE tags SET parent_id = ?, updated_at = ? WHERE parent_id = ? AND user_id = ?'
+      )
+        .bind(existing.parent_id, now, tagId, userId)
+        .run()
+
       // 软删除标签
       await context.env.DB.prepare(
         'UPDATE tags SET deleted_at = ?, updated_at = ? WHERE id = ?'
@@ -161,6 +169,12 @@ export const onRequestDelete: PagesFunction<Env, RouteParams, ApiKeyAuthContext>
         .bind(tagId)
         .run()
 
+      await context.env.DB.prepare('DELETE FROM tag_aliases WHERE tag_id = ?')
+        .bind(tagId)
+        .run()
+
+      context.waitUntil(dispatchWebhookEvent(context.env, userId, 'tag.deleted', { tag: existing }))
+
       return noContent()
     } catch (error) {
       console.error('Delete tag error:', error)
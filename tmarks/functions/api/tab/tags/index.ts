@@ -10,6 +10,7 @@ import { success, badRequest, created, internalError } from '../../../lib/respon
 import { requireApiKeyAuth, ApiKeyAuthContext } from '../../../middleware/api-key-auth-pages'
 import { sanitizeString } from '../../../lib/validation'
 import { generateUUID } from '../../../lib/crypto'
+import { dispatchWebhookEvent } from '../../../lib/webhooks'
 
 interface CreateTagRequest {
   name: string
@@ -99,6 +100,8 @@ export const onRequestPost: PagesFunction<Env, RouteParams, ApiKeyAuthContext>[]
         .bind(tagId)
         .first()
 
+      context.waitUntil(dispatchWebhookEvent(context.env, userId, 'tag.created', { tag }))
+
       return created({ tag })
     } catch (error) {
       console.error('Create tag error:', error)
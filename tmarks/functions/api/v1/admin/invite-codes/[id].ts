@@ -0,0 +1,42 @@
+/**
+ * 单个邀请码管理 API
+ * 路径: /api/v1/admin/invite-codes/:id
+ * 认证: JWT Token (Bearer)，仅管理员
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env } from '../../../../lib/types'
+import { success, notFound, internalError } from '../../../../lib/response'
+import { requireAuth, AuthContext } from '../../../../middleware/auth'
+import { requireAdmin } from '../../../../middleware/admin'
+import { getInviteCode, revokeInviteCode } from '../../../../lib/invite-codes'
+import { recordAuditEvent } from '../../../../lib/audit-log'
+
+// DELETE /api/v1/admin/invite-codes/:id - 撤销任意用户创建的邀请码（保留使用记录）
+export const onRequestDelete: PagesFunction<Env, 'id', AuthContext>[] = [
+  requireAuth,
+  requireAdmin,
+  async (context) => {
+    const inviteCodeId = context.params.id as string
+
+    try {
+      const existing = await getInviteCode(context.env.DB, inviteCodeId)
+      if (!existing) {
+        return notFound('Invite code not found')
+      }
+
+      if (await revokeInviteCode(context.env.DB, inviteCodeId)) {
+        await recordAuditEvent(context.env.DB, context.request, context.data.user_id, 'invite_code.revoked', {
+          invite_code_id: inviteCodeId,
+          created_by: existing.created_by,
+        })
+      }
+
+      const inviteCode = await getInviteCode(context.env.DB, inviteCodeId)
+      return success({ invite_code: inviteCode })
+    } catch (error) {
+      console.error('Revoke invite code error:', error)
+      return internalError('Failed to revoke invite code')
+    }
+  },
+]
@@ -0,0 +1,61 @@
+/**
+ * 邀请码管理 API
+ * 路径: /api/v1/admin/invite-codes
+ * 认证: JWT Token (Bearer)，仅管理员
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env } from '../../../../lib/types'
+import { success, created, badRequest, internalError } from '../../../../lib/response'
+import { requireAuth, AuthContext } from '../../../../middleware/auth'
+import { requireAdmin } from '../../../../middleware/admin'
+import { listInviteCodes, createInviteCode, validateCreateInviteCode } from '../../../../lib/invite-codes'
+import { recordAuditEvent } from '../../../../lib/audit-log'
+
+// GET /api/v1/admin/invite-codes - 获取所有用户创建的邀请码及使用记录
+export const onRequestGet: PagesFunction<Env, string, AuthContext>[] = [
+  requireAuth,
+  requireAdmin,
+  async (context) => {
+    try {
+      const inviteCodes = await listInviteCodes(context.env.DB, null)
+      return success({ invite_codes: inviteCodes })
+    } catch (error) {
+      console.error('List invite codes error:', error)
+      return internalError('Failed to list invite codes')
+    }
+  },
+]
+
+// POST /api/v1/admin/invite-codes - 创建邀请码 { max_uses?, expires_in_days?, note? }，expires_in_days 为 null 表示永不过期
+export const onRequestPost: PagesFunction<Env, string, AuthContext>[] = [
+  requireAuth,
+  requireAdmin,
+  async (context) => {
+    let body: unknown
+    try {
+      body = await context.request.json()
+    } catch {
+      return badRequest('Invalid JSON body')
+    }
+
+    const validation = validateCreateInviteCode(body, { isAdmin: true })
+    if (!validation.valid) {
+      return badRequest(validation.error)
+    }
+
+    try {
+      const inviteCode = await createInviteCode(context.env.DB, context.data.user_id, validation.input)
+      await recordAuditEvent(context.env.DB, context.request, context.data.user_id, 'invite_code.created', {
+        invite_code_id: inviteCode.id,
+        max_uses: inviteCode.max_uses,
+        expires_at: inviteCode.expires_at,
+      })
+
+      return created({ invite_code: inviteCode })
+    } catch (error) {
+      console.error('Create invite code error:', error)
+      return internalError('Failed to create invite code')
+    }
+  },
+]
@@ -0,0 +1,40 @@
+/**
+ * 手动运行维护任务 API
+ * 路径: /api/v1/admin/maintenance/:job/run
+ * 认证: JWT Token (Bearer)，仅管理员
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env } from '../../../../../lib/types'
+import { success, notFound, conflict, internalError } from '../../../../../lib/response'
+import { requireAuth, AuthContext } from '../../../../../middleware/auth'
+import { requireAdmin } from '../../../../../middleware/admin'
+import { getMaintenanceJob, runMaintenanceJob } from '../../../../../lib/maintenance'
+
+// POST /api/v1/admin/maintenance/:job/run - 立即运行一次（忽略运行间隔），返回本次运行记录
+export const onRequestPost: PagesFunction<Env, 'job', AuthContext>[] = [
+  requireAuth,
+  requireAdmin,
+  async (context) => {
+    const job = getMaintenanceJob(context.params.job as string)
+    if (!job) {
+      return notFound('Maintenance job not found')
+    }
+
+    try {
+      const run = await runMaintenanceJob(context.env, job, {
+        trigger: 'manual',
+        triggeredBy: context.data.user_id,
+      })
+
+      if (!run) {
+        return conflict('Maintenance job is already running')
+      }
+
+      return success({ run })
+    } catch (error) {
+      console.error('Run maintenance job error:', error)
+      return internalError('Failed to run maintenance job')
+    }
+  },
+]
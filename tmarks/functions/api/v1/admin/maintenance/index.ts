@@ -0,0 +1,27 @@
+/**
+ * 维护任务状态 API
+ * 路径: /api/v1/admin/maintenance
+ * 认证: JWT Token (Bearer)，仅管理员
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env } from '../../../../lib/types'
+import { success, internalError } from '../../../../lib/response'
+import { requireAuth, AuthContext } from '../../../../middleware/auth'
+import { requireAdmin } from '../../../../middleware/admin'
+import { listMaintenanceJobs } from '../../../../lib/maintenance'
+
+// GET /api/v1/admin/maintenance - 获取所有维护任务的状态及最近一次运行记录
+export const onRequestGet: PagesFunction<Env, string, AuthContext>[] = [
+  requireAuth,
+  requireAdmin,
+  async (context) => {
+    try {
+      const jobs = await listMaintenanceJobs(context.env.DB)
+      return success({ jobs })
+    } catch (error) {
+      console.error('List maintenance jobs error:', error)
+      return internalError('Failed to list maintenance jobs')
+    }
+  },
+]
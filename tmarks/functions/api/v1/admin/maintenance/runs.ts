@@ -0,0 +1,39 @@
+/**
+ * 维护任务运行记录 API
+ * 路径: /api/v1/admin/maintenance/runs
+ * 认证: JWT Token (Bearer)，仅管理员
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env } from '../../../../lib/types'
+import { success, badRequest, internalError } from '../../../../lib/response'
+import { requireAuth, AuthContext } from '../../../../middleware/auth'
+import { requireAdmin } from '../../../../middleware/admin'
+import { getMaintenanceJob, listMaintenanceRuns } from '../../../../lib/maintenance'
+
+const DEFAULT_LIMIT = 50
+const MAX_LIMIT = 200
+
+// GET /api/v1/admin/maintenance/runs?job=&limit= - 获取运行记录（按开始时间倒序）
+export const onRequestGet: PagesFunction<Env, string, AuthContext>[] = [
+  requireAuth,
+  requireAdmin,
+  async (context) => {
+    const url = new URL(context.request.url)
+    const jobName = url.searchParams.get('job')
+    const limit = Math.min(Math.max(parseInt(url.searchParams.get('limit') || '', 10) || DEFAULT_LIMIT, 1), MAX_LIMIT)
+
+    const job = jobName ? getMaintenanceJob(jobName) : null
+    if (jobName && !job) {
+      return badRequest('Unknown maintenance job')
+    }
+
+    try {
+      const runs = await listMaintenanceRuns(context.env.DB, { jobName: job?.name, limit })
+      return success({ runs })
+    } catch (error) {
+      console.error('List maintenance runs error:', error)
+      return internalError('Failed to list maintenance runs')
+    }
+  },
+]
@@ -0,0 +1,49 @@
+/**
+ * 注册记录 API
+ * 路径: /api/v1/admin/registrations
+ * 认证: JWT Token (Bearer)，仅管理员
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env } from '../../../lib/types'
+import { success, internalError } from '../../../lib/response'
+import { requireAuth, AuthContext } from '../../../middleware/auth'
+import { requireAdmin } from '../../../middleware/admin'
+import { getRegistrationSettings, getRegistrationDate, listRegistrationHistory } from '../../../lib/registration'
+
+const DEFAULT_DAYS = 30
+const MAX_DAYS = 365
+
+// GET /api/v1/admin/registrations?days= - 获取每日注册计数（registration_limits）及当前注册策略
+export const onRequestGet: PagesFunction<Env, string, AuthContext>[] = [
+  requireAuth,
+  requireAdmin,
+  async (context) => {
+    const url = new URL(context.request.url)
+    const days = Math.min(Math.max(parseInt(url.searchParams.get('days') || '', 10) || DEFAULT_DAYS, 1), MAX_DAYS)
+
+    try {
+      const [settings, history] = await Promise.all([
+        getRegistrationSettings(context.env.DB, context.env),
+        listRegistrationHistory(context.env.DB, days),
+      ])
+
+      const today = getRegistrationDate()
+      const todayCount = history.find((day) => day.date === today)?.count ?? 0
+
+      return success({
+        allowed: settings.allowed,
+        daily_limit: settings.daily_limit,
+        today: {
+          date: today,
+          count: todayCount,
+        },
+        days,
+        history,
+      })
+    } catch (error) {
+      console.error('List registrations error:', error)
+      return internalError('Failed to list registrations')
+    }
+  },
+]
@@ -0,0 +1,99 @@
+/**
+ * 运行时设置 API
+ * 路径: /api/v1/admin/settings
+ * 认证: JWT Token (Bearer)，仅管理员
+ */
+
+import type { PagesFunction, D1Database } from '@cloudflare/workers-types'
+import type { Env } from '../../../lib/types'
+import { success, badRequest, internalError } from '../../../lib/response'
+import { requireAuth, AuthContext } from '../../../middleware/auth'
+import { requireAdmin } from '../../../middleware/admin'
+import { isRegistrationAllowed } from '../../../lib/config'
+import { getR2MaxTotalBytes, getCurrentR2UsageBytes } from '../../../lib/storage-quota'
+import { recordAuditEvent } from '../../../lib/audit-log'
+import {
+  loadAppSettingOverrides,
+  listAppSettingRecords,
+  validateAppSettingsPatch,
+  saveAppSettings,
+  type AppSettings,
+} from '../../../lib/app-settings'
+
+/** 未覆盖时的取值（来自环境变量） */
+function getDefaultAppSettings(env: Env): AppSettings {
+  const r2MaxTotalBytes = getR2MaxTotalBytes(env)
+
+  return {
+    allow_registration: isRegistrationAllowed(env),
+    registration_daily_limit: 0,
+    invite_code_required: false,
+    user_invite_quota: 0,
+    r2_max_total_bytes: Number.isFinite(r2MaxTotalBytes) ? r2MaxTotalBytes : null,
+  }
+}
+
+async function buildSettingsResponse(db: D1Database, env: Env) {
+  const [overrides, records, r2UsedBytes] = await Promise.all([
+    loadAppSettingOverrides(db),
+    listAppSettingRecords(db),
+    getCurrentR2UsageBytes(db),
+  ])
+  const defaults = getDefaultAppSettings(env)
+
+  return {
+    settings: { ...defaults, ...overrides },
+    defaults,
+    overrides,
+    records,
+    usage: {
+      r2_used_bytes: r2UsedBytes,
+    },
+  }
+}
+
+// GET /api/v1/admin/settings - 获取生效的运行时设置、环境变量默认值和覆盖记录
+export const onRequestGet: PagesFunction<Env, string, AuthContext>[] = [
+  requireAuth,
+  requireAdmin,
+  async (context) => {
+    try {
+      return success(await buildSettingsResponse(context.env.DB, context.env))
+    } catch (error) {
+      console.error('Get app settings error:', error)
+      return internalError('Failed to get settings')
+    }
+  },
+]
+
+// PATCH /api/v1/admin/settings - 覆盖设置，reset 中的项恢复为环境变量默认值
+export const onRequestPatch: PagesFunction<Env, string, AuthContext>[] = [
+  requireAuth,
+  requireAdmin,
+  async (context) => {
+    let body: unknown
+    try {
+      body = await context.request.json()
+    } catch {
+      return badRequest('Invalid JSON body')
+    }
+
+    const validation = validateAppSettingsPatch(body)
+    if (!validation.valid) {
+      return badRequest(validation.error)
+    }
+
+    try {
+      await saveAppSettings(context.env.DB, validation.set, validation.reset, context.data.user_id)
+      await recordAuditEvent(context.env.DB, context.request, context.data.user_id, 'admin.settings_updated', {
+        set: validation.set,
+        reset: validation.reset,
+      })
+
+      return success(await buildSettingsResponse(context.env.DB, context.env))
+    } catch (error) {
+      console.error('Update app settings error:', error)
+      return internalError('Failed to update settings')
+    }
+  },
+]
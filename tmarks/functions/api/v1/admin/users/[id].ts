@@ -0,0 +1,83 @@
+/**
+ * 单个用户管理 API
+ * 路径: /api/v1/admin/users/:id
+ * 认证: JWT Token (Bearer)，仅管理员
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env } from '../../../../lib/types'
+import { success, badRequest, notFound, internalError } from '../../../../lib/response'
+import { requireAuth, AuthContext } from '../../../../middleware/auth'
+import { requireAdmin } from '../../../../middleware/admin'
+import { getAdminUser, setUserDisabled } from '../../../../lib/admin-users'
+import { recordAuditEvent } from '../../../../lib/audit-log'
+
+interface UpdateUserRequest {
+  disabled?: boolean
+}
+
+// GET /api/v1/admin/users/:id - 获取用户详情
+export const onRequestGet: PagesFunction<Env, 'id', AuthContext>[] = [
+  requireAuth,
+  requireAdmin,
+  async (context) => {
+    try {
+      const user = await getAdminUser(context.env.DB, context.params.id as string)
+      if (!user) {
+        return notFound('User not found')
+      }
+
+      return success({ user })
+    } catch (error) {
+      console.error('Get admin user error:', error)
+      return internalError('Failed to get user')
+    }
+  },
+]
+
+// PATCH /api/v1/admin/users/:id - 停用或启用账号
+export const onRequestPatch: PagesFunction<Env, 'id', AuthContext>[] = [
+  requireAuth,
+  requireAdmin,
+  async (context) => {
+    const adminId = context.data.user_id
+    const userId = context.params.id as string
+
+    let body: UpdateUserRequest
+    try {
+      body = (await context.request.json()) as UpdateUserRequest
+    } catch {
+      return badRequest('Invalid JSON body')
+    }
+
+    if (typeof body.disabled !== 'boolean') {
+      return badRequest('disabled must be a boolean')
+    }
+
+    if (body.disabled && userId === adminId) {
+      return badRequest({ code: 'CANNOT_DISABLE_SELF', message: 'You cannot disable your own account' })
+    }
+
+    try {
+      const existing = await getAdminUser(context.env.DB, userId)
+      if (!existing) {
+        return notFound('User not found')
+      }
+
+      await setUserDisabled(context.env.DB, userId, body.disabled)
+      await recordAuditEvent(
+        context.env.DB,
+        context.request,
+        adminId,
+        body.disabled ? 'admin.user_disabled' : 'admin.user_enabled',
+        { target_user_id: userId, username: existing.username }
+      )
+
+      const user = await getAdminUser(context.env.DB, userId)
+      return success({ user })
+    } catch (error) {
+      console.error('Update admin user error:', error)
+      return internalError('Failed to update user')
+    }
+  },
+]
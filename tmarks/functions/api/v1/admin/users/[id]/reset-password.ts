@@ -0,0 +1,67 @@
+/**
+ * 重置用户密码 API
+ * 路径: /api/v1/admin/users/:id/reset-password
+ * 认证: JWT Token (Bearer)，仅管理员
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env } from '../../../../../lib/types'
+import { success, badRequest, notFound, internalError } from '../../../../../lib/response'
+import { requireAuth, AuthContext } from '../../../../../middleware/auth'
+import { requireAdmin } from '../../../../../middleware/admin'
+import { hashPassword } from '../../../../../lib/crypto'
+import { isValidPassword } from '../../../../../lib/validation'
+import { getAdminUser, resetUserPassword, generateTemporaryPassword } from '../../../../../lib/admin-users'
+import { recordAuditEvent } from '../../../../../lib/audit-log'
+
+interface ResetPasswordRequest {
+  password?: string
+}
+
+// POST /api/v1/admin/users/:id/reset-password - 重置密码（未指定时生成临时密码，仅在响应中返回一次）
+export const onRequestPost: PagesFunction<Env, 'id', AuthContext>[] = [
+  requireAuth,
+  requireAdmin,
+  async (context) => {
+    const adminId = context.data.user_id
+    const userId = context.params.id as string
+
+    let body: ResetPasswordRequest = {}
+    try {
+      const text = await context.request.text()
+      body = text ? (JSON.parse(text) as ResetPasswordRequest) : {}
+    } catch {
+      return badRequest('Invalid JSON body')
+    }
+
+    if (body.password !== undefined && (typeof body.password !== 'string' || !isValidPassword(body.password))) {
+      return badRequest('Password must be at least 8 characters')
+    }
+
+    try {
+      const user = await getAdminUser(context.env.DB, userId)
+      if (!user) {
+        return notFound('User not found')
+      }
+
+      const generated = body.password === undefined
+      const password = body.password ?? generateTemporaryPassword()
+      const passwordHash = await hashPassword(password)
+
+      await resetUserPassword(context.env.DB, userId, passwordHash)
+      await recordAuditEvent(context.env.DB, context.request, adminId, 'admin.password_reset', {
+        target_user_id: userId,
+        username: user.username,
+        generated,
+      })
+
+      return success({
+        user_id: userId,
+        temporary_password: generated ? password : null,
+      })
+    } catch (error) {
+      console.error('Reset user password error:', error)
+      return internalError('Failed to reset password')
+    }
+  },
+]
@@ -0,0 +1,50 @@
+/**
+ * 用户管理 API
+ * 路径: /api/v1/admin/users
+ * 认证: JWT Token (Bearer)，仅管理员
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env } from '../../../../lib/types'
+import { success, internalError } from '../../../../lib/response'
+import { requireAuth, AuthContext } from '../../../../middleware/auth'
+import { requireAdmin } from '../../../../middleware/admin'
+import { listAdminUsers } from '../../../../lib/admin-users'
+
+const DEFAULT_PAGE_SIZE = 50
+const MAX_PAGE_SIZE = 200
+
+// GET /api/v1/admin/users?q=&page=&page_size= - 获取用户列表（含书签数、存储占用、最近登录时间）
+export const onRequestGet: PagesFunction<Env, string, AuthContext>[] = [
+  requireAuth,
+  requireAdmin,
+  async (context) => {
+    const url = new URL(context.request.url)
+    const query = (url.searchParams.get('q') || '').trim().slice(0, 100)
+    const page = Math.max(parseInt(url.searchParams.get('page') || '', 10) || 1, 1)
+    const pageSize = Math.min(
+      Math.max(parseInt(url.searchParams.get('page_size') || '', 10) || DEFAULT_PAGE_SIZE, 1),
+      MAX_PAGE_SIZE
+    )
+
+    try {
+      const { users, total } = await listAdminUsers(context.env.DB, {
+        query: query || undefined,
+        limit: pageSize,
+        offset: (page - 1) * pageSize,
+      })
+
+      return success({
+        users,
+        meta: {
+          page,
+          page_size: pageSize,
+          total,
+        },
+      })
+    } catch (error) {
+      console.error('List admin users error:', error)
+      return internalError('Failed to list users')
+    }
+  },
+]
@@ -1,10 +1,12 @@
 import type { PagesFunction } from '@cloudflare/workers-types'
 import type { Env, User } from '../../../lib/types'
-import { badRequest, unauthorized, success, internalError } from '../../../lib/response'
-import { verifyPassword, generateToken, hashRefreshToken, generateUUID } from '../../../lib/crypto'
-import { generateJWT, parseExpiry } from '../../../lib/jwt'
+import { badRequest, unauthorized, forbidden, success, internalError } from '../../../lib/response'
+import { verifyPassword } from '../../../lib/crypto'
 import { loginRateLimiter } from '../../../lib/rate-limit'
-import { getJwtAccessTokenExpiresIn, getJwtRefreshTokenExpiresIn } from '../../../lib/config'
+import { createLoginSession } from '../../../lib/auth-session'
+import { isTwoFactorEnabled, createTwoFactorChallenge } from '../../../lib/two-factor'
+import { recordAuditEvent } from '../../../lib/audit-log'
+import { isAccountDisabled, ACCOUNT_DISABLED_CODE, ACCOUNT_DISABLED_MESSAGE } from '../../../lib/account-status'
 
 interface LoginRequest {
   username: string
@@ -87,67 +89,36 @@ export const onRequestPost: PagesFunction<Env>[] = [
       return unauthorized('Invalid username or password')
     }
 
-    // 生成 session_id
-    const sessionId = generateUUID()
-
-    const role = user.role ?? 'user'
-
-    // 计算访问令牌有效期（秒）
-    const accessTokenExpiresInStr = getJwtAccessTokenExpiresIn(context.env)
-    const accessTokenExpiresIn = parseExpiry(accessTokenExpiresInStr)
-
-    const accessToken = await generateJWT(
-      { sub: user.id, session_id: sessionId },
-      context.env.JWT_SECRET,
-      accessTokenExpiresInStr
-    )
-
-    // 生成刷新令牌
-    const refreshToken = generateToken(32)
-    const refreshTokenHash = await hashRefreshToken(refreshToken)
-
-    // 计算刷新令牌过期时间
-    const refreshTokenExpiresInStr = getJwtRefreshTokenExpiresIn(context.env)
-    const refreshTokenExpiresIn = parseExpiry(refreshTokenExpiresInStr)
-    const refreshTokenExpiresAt = new Date(Date.now() + refreshTokenExpiresIn * 1000)
-
-    // 存储刷新令牌
-    await context.env.DB.prepare(
-      `INSERT INTO auth_tokens (user_id, refresh_token_hash, expires_at, created_at)
-       VALUES (?, ?, ?, ?)`
-    )
-      .bind(user.id, refreshTokenHash, refreshTokenExpiresAt.toISOString(), new Date().toISOString())
-      .run()
-
-    // 记录成功的登录
-    const ip = context.request.headers.get('CF-Connecting-IP') || 'unknown'
-    const userAgent = context.request.headers.get('User-Agent') || 'unknown'
-
-    await context.env.DB.prepare(
-      `INSERT INTO audit_logs (user_id, event_type, payload, ip, user_agent, created_at)
-       VALUES (?, 'auth.login_success', ?, ?, ?, ?)`
-    )
-      .bind(
-        user.id,
-        JSON.stringify({ session_id: sessionId, remember_me: body.remember_me }),
-        ip,
-        userAgent,
-        new Date().toISOString()
-      )
-      .run()
-
-    return success({
-      access_token: accessToken,
-      refresh_token: refreshToken,
-      token_type: 'Bearer',
-      expires_in: accessTokenExpiresIn,
-      user: {
-        id: user.id,
-        username: user.username,
-        email: user.email,
-        role,
-      },
+    // 已停用的账号不允许登录（密码校验通过后才提示，避免泄露账号状态）
+    if (await isAccountDisabled(context.env.DB, user.id)) {
+      return forbidden(ACCOUNT_DISABLED_MESSAGE, ACCOUNT_DISABLED_CODE)
+    }
+
+    // 开启两步验证的账号：先返回挑战令牌，提交验证码后才签发 auth_tokens
+    if (await isTwoFactorEnabled(context.env.DB, user.id)) {
+      const challenge = await createTwoFactorChallenge(context.env.DB, user.id, Boolean(body.remember_me))
+      await recordAuditEvent(context.env.DB, context.request, user.id, 'auth.2fa_challenge_issued', {
+        remember_me: body.remember_me,
+      })
+
+      return success({
+        two_factor_required: true,
+        challenge_token: challenge.token,
+        expires_at: challenge.expiresAt,
+      })
+    }
+
+    const sessionUser = {
+      id: user.id,
+      username: user.username,
+      email: user.email,
+      role: user.role ?? 'user',
+    }
+    const session = await createLoginSession(context.env.DB, context.env, context.request, sessionUser, {
+      remember_me: body.remember_me,
     })
+
+    return success(session)
   } catch (error) {
     console.error('Login error:', error)
     return internalError('Login failed')
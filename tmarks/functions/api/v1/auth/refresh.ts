@@ -4,6 +4,7 @@ import { badRequest, unauthorized, success, internalError } from '../../../lib/r
 import { hashRefreshToken, generateUUID } from '../../../lib/crypto'
 import { generateJWT } from '../../../lib/jwt'
 import { getJwtAccessTokenExpiresIn } from '../../../lib/config'
+import { isAccountDisabled, ACCOUNT_DISABLED_CODE, ACCOUNT_DISABLED_MESSAGE } from '../../../lib/account-status'
 
 interface RefreshRequest {
   refresh_token: string
@@ -49,6 +50,11 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
       return unauthorized('Refresh token has expired')
     }
 
+    // 检查账号是否已被停用
+    if (await isAccountDisabled(context.env.DB, tokenRecord.user_id)) {
+      return unauthorized(ACCOUNT_DISABLED_MESSAGE, ACCOUNT_DISABLED_CODE)
+    }
+
     // 生成新的 session_id
     const sessionId = generateUUID()
 
@@ -1,26 +1,41 @@
 import type { PagesFunction } from '@cloudflare/workers-types'
 import type { Env } from '../../../lib/types'
-import { badRequest, created, conflict, internalError } from '../../../lib/response'
+import { badRequest, created, conflict, tooManyRequests, internalError } from '../../../lib/response'
 import { isValidUsername, isValidPassword, isValidEmail, sanitizeString } from '../../../lib/validation'
 import { hashPassword, generateUUID } from '../../../lib/crypto'
+import { getRegistrationSettings, reserveRegistrationSlot, releaseRegistrationSlot } from '../../../lib/registration'
+import {
+  checkInviteCode,
+  consumeInviteCode,
+  releaseInviteCode,
+  inviteCodeUseStatement,
+  type InviteCodeRow,
+} from '../../../lib/invite-codes'
 
 interface RegisterRequest {
   username: string
   password: string
   email?: string
+  invite_code?: string
 }
 
 export const onRequestPost: PagesFunction<Env> = async (context) => {
   try {
     const db = context.env.DB
 
-    // 检查是否允许注册
-    if (context.env.ALLOW_REGISTRATION !== 'true') {
-      return badRequest('Registration is currently disabled')
-    }
-
+    // 检查是否允许注册（管理员后台设置优先于 ALLOW_REGISTRATION），未开放注册时仍可凭邀请码注册
+    const registration = await getRegistrationSettings(db, context.env)
     const body = await context.request.json() as RegisterRequest
 
+    // 邀请码：邀请模式或未开放注册时必填；其他情况下填写了也会校验并记录
+    const inviteInput = typeof body.invite_code === 'string' ? body.invite_code.trim() : ''
+    if (registration.invite_required && !inviteInput) {
+      if (!registration.allowed) {
+        return badRequest('Registration is currently disabled')
+      }
+      return badRequest({ code: 'INVITE_CODE_REQUIRED', message: 'An invite code is required to register' })
+    }
+
     // 验证输入
     if (!body.username || !body.password) {
       return badRequest('Username and password are required')
@@ -38,6 +53,15 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
       return badRequest('Invalid email format')
     }
 
+    let invite: InviteCodeRow | null = null
+    if (inviteInput) {
+      const inviteCheck = await checkInviteCode(db, inviteInput)
+      if (!inviteCheck.valid) {
+        return badRequest({ code: inviteCheck.code, message: inviteCheck.message })
+      }
+      invite = inviteCheck.invite
+    }
+
     const username = sanitizeString(body.username, 20)
     const email = body.email ? sanitizeString(body.email, 255) : null
 
@@ -76,13 +100,48 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
     const ip = context.request.headers.get('CF-Connecting-IP') || 'unknown'
     const userAgent = context.request.headers.get('User-Agent') || 'unknown'
 
-    // 创建用户
-    await db.prepare(
-      `INSERT INTO users (id, username, email, password_hash, created_at, updated_at)
-       VALUES (?, ?, ?, ?, ?, ?)`
-    )
-      .bind(userId, username, email, passwordHash, nowISO, nowISO)
-      .run()
+    // 占用当天的注册名额
+    const reserved = await reserveRegistrationSlot(db, registration.daily_limit)
+    if (!reserved) {
+      return tooManyRequests({
+        code: 'REGISTRATION_LIMIT_REACHED',
+        message: 'Daily registration limit reached, please try again tomorrow',
+      })
+    }
+
+    const releaseSlot = () =>
+      releaseRegistrationSlot(db).catch((releaseError) => {
+        console.error('Failed to release registration slot:', releaseError)
+      })
+
+    // 占用邀请码的使用次数（检查之后可能已被并发注册用完）
+    if (invite && !(await consumeInviteCode(db, invite.id))) {
+      await releaseSlot()
+      return badRequest({ code: 'INVITE_CODE_EXHAUSTED', message: 'This invite code has already been used' })
+    }
+
+    // 创建用户，使用邀请码时同时记录使用关系
+    try {
+      const insertUser = db.prepare(
+        `INSERT INTO users (id, username, email, password_hash, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?)`
+      )
+        .bind(userId, username, email, passwordHash, nowISO, nowISO)
+
+      if (invite) {
+        await db.batch([insertUser, inviteCodeUseStatement(db, invite.id, userId, nowISO)])
+      } else {
+        await insertUser.run()
+      }
+    } catch (error) {
+      await releaseSlot()
+      if (invite) {
+        await releaseInviteCode(db, invite.id).catch((releaseError) => {
+          console.error('Failed to release invite code:', releaseError)
+        })
+      }
+      throw error
+    }
 
     // 创建默认偏好设置
     try {
@@ -114,7 +173,7 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
       )
         .bind(
           userId,
-          JSON.stringify({ username, email: email || null }),
+          JSON.stringify({ username, email: email || null, invite_code_id: invite?.id || null }),
           ip,
           userAgent,
           nowISO
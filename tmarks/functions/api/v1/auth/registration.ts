@@ -0,0 +1,25 @@
+/**
+ * 注册策略 API
+ * 路径: /api/v1/auth/registration
+ * 认证: 无（注册页根据结果决定是否显示邀请码为必填）
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env } from '../../../lib/types'
+import { success, internalError } from '../../../lib/response'
+import { getRegistrationSettings } from '../../../lib/registration'
+
+// GET /api/v1/auth/registration - 获取是否开放注册、是否需要邀请码
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  try {
+    const registration = await getRegistrationSettings(context.env.DB, context.env)
+
+    return success({
+      allowed: registration.allowed,
+      invite_required: registration.invite_required,
+    })
+  } catch (error) {
+    console.error('Get registration settings error:', error)
+    return internalError('Failed to get registration settings')
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * 关闭两步验证 API
+ * 路径: /api/v1/auth/two-factor/disable
+ * 认证: JWT Token (Bearer)
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env } from '../../../../lib/types'
+import { success, badRequest, notFound, internalError } from '../../../../lib/response'
+import { requireAuth, AuthContext } from '../../../../middleware/auth'
+import { verifyPassword } from '../../../../lib/crypto'
+import {
+  getTwoFactorRecord,
+  verifyTwoFactorCode,
+  disableTwoFactor,
+  INVALID_TWO_FACTOR_CODE,
+} from '../../../../lib/two-factor'
+import { recordAuditEvent } from '../../../../lib/audit-log'
+
+interface DisableTwoFactorRequest {
+  password?: string
+  code?: string
+}
+
+// POST /api/v1/auth/two-factor/disable - 关闭两步验证，需要当前密码和验证码（或恢复码）
+export const onRequestPost: PagesFunction<Env, string, AuthContext>[] = [
+  requireAuth,
+  async (context) => {
+    const userId = context.data.user_id
+    const db = context.env.DB
+
+    let body: DisableTwoFactorRequest
+    try {
+      body = (await context.request.json()) as DisableTwoFactorRequest
+    } catch {
+      return badRequest('Invalid JSON body')
+    }
+
+    if (!body.password || !body.code) {
+      return badRequest('Password and verification code are required')
+    }
+
+    try {
+      const record = await getTwoFactorRecord(db, userId)
+      if (!record?.enabled_at) {
+        return notFound('Two-factor authentication is not enabled', 'TWO_FACTOR_NOT_ENABLED')
+      }
+
+      const user = await db.prepare('SELECT password_hash FROM users WHERE id = ?')
+        .bind(userId)
+        .first<{ password_hash: string }>()
+
+      if (!user || !(await verifyPassword(body.password, user.password_hash))) {
+        await recordAuditEvent(db, context.request, userId, 'auth.2fa_failed', {
+          action: 'disable',
+          reason: 'invalid_password',
+        })
+        return badRequest({ code: 'INVALID_PASSWORD', message: 'Current password is incorrect' })
+      }
+
+      const method = await verifyTwoFactorCode(db, context.env.ENCRYPTION_KEY, record, body.code)
+      if (!method) {
+        await recordAuditEvent(db, context.request, userId, 'auth.2fa_failed', {
+          action: 'disable',
+          reason: 'invalid_code',
+        })
+        return badRequest({ code: INVALID_TWO_FACTOR_CODE, message: 'Invalid verification code' })
+      }
+
+      await disableTwoFactor(db, userId)
+      await recordAuditEvent(db, context.request, userId, 'auth.2fa_disabled', { method })
+
+      return success({ enabled: false })
+    } catch (error) {
+      console.error('Disable two-factor error:', error)
+      return internalError('Failed to disable two-factor authentication')
+    }
+  },
+]
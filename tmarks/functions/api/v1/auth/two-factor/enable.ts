@@ -0,0 +1,72 @@
+/**
+ * 启用两步验证 API
+ * 路径: /api/v1/auth/two-factor/enable
+ * 认证: JWT Token (Bearer)
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env } from '../../../../lib/types'
+import { success, badRequest, conflict, internalError } from '../../../../lib/response'
+import { requireAuth, AuthContext } from '../../../../middleware/auth'
+import {
+  getTwoFactorRecord,
+  enableTwoFactor,
+  normalizeTwoFactorCode,
+  INVALID_TWO_FACTOR_CODE,
+} from '../../../../lib/two-factor'
+import { recordAuditEvent } from '../../../../lib/audit-log'
+
+interface EnableTwoFactorRequest {
+  code?: string
+}
+
+// POST /api/v1/auth/two-factor/enable - 提交验证器应用中的验证码完成绑定，返回一次性恢复码（只返回这一次）
+export const onRequestPost: PagesFunction<Env, string, AuthContext>[] = [
+  requireAuth,
+  async (context) => {
+    const userId = context.data.user_id
+
+    let body: EnableTwoFactorRequest
+    try {
+      body = (await context.request.json()) as EnableTwoFactorRequest
+    } catch {
+      return badRequest('Invalid JSON body')
+    }
+
+    const code = normalizeTwoFactorCode(body.code)
+    if (!code) {
+      return badRequest('Verification code is required')
+    }
+
+    try {
+      const record = await getTwoFactorRecord(context.env.DB, userId)
+      if (!record) {
+        return badRequest({ code: 'TWO_FACTOR_SETUP_REQUIRED', message: 'Start two-factor setup first' })
+      }
+      if (record.enabled_at) {
+        return conflict('Two-factor authentication is already enabled', 'TWO_FACTOR_ALREADY_ENABLED')
+      }
+
+      const recoveryCodes = await enableTwoFactor(context.env.DB, context.env.ENCRYPTION_KEY, record, code)
+      if (!recoveryCodes) {
+        await recordAuditEvent(context.env.DB, context.request, userId, 'auth.2fa_failed', {
+          action: 'enable',
+          reason: 'invalid_code',
+        })
+        return badRequest({ code: INVALID_TWO_FACTOR_CODE, message: 'Invalid verification code' })
+      }
+
+      await recordAuditEvent(context.env.DB, context.request, userId, 'auth.2fa_enabled', {
+        recovery_codes: recoveryCodes.length,
+      })
+
+      return success({
+        enabled: true,
+        recovery_codes: recoveryCodes,
+      })
+    } catch (error) {
+      console.error('Enable two-factor error:', error)
+      return internalError('Failed to enable two-factor authentication')
+    }
+  },
+]
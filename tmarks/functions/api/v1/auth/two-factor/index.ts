@@ -0,0 +1,25 @@
+/**
+ * 两步验证状态 API
+ * 路径: /api/v1/auth/two-factor
+ * 认证: JWT Token (Bearer)
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env } from '../../../../lib/types'
+import { success, internalError } from '../../../../lib/response'
+import { requireAuth, AuthContext } from '../../../../middleware/auth'
+import { getTwoFactorStatus } from '../../../../lib/two-factor'
+
+// GET /api/v1/auth/two-factor - 获取是否已启用两步验证和剩余恢复码数量
+export const onRequestGet: PagesFunction<Env, string, AuthContext>[] = [
+  requireAuth,
+  async (context) => {
+    try {
+      const status = await getTwoFactorStatus(context.env.DB, context.data.user_id)
+      return success(status)
+    } catch (error) {
+      console.error('Get two-factor status error:', error)
+      return internalError('Failed to get two-factor status')
+    }
+  },
+]
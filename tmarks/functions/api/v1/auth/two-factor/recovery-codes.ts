@@ -0,0 +1,69 @@
+/**
+ * 两步验证恢复码 API
+ * 路径: /api/v1/auth/two-factor/recovery-codes
+ * 认证: JWT Token (Bearer)
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env } from '../../../../lib/types'
+import { success, badRequest, notFound, internalError } from '../../../../lib/response'
+import { requireAuth, AuthContext } from '../../../../middleware/auth'
+import {
+  getTwoFactorRecord,
+  verifyTotpCode,
+  regenerateRecoveryCodes,
+  normalizeTwoFactorCode,
+  INVALID_TWO_FACTOR_CODE,
+} from '../../../../lib/two-factor'
+import { recordAuditEvent } from '../../../../lib/audit-log'
+
+interface RegenerateRecoveryCodesRequest {
+  code?: string
+}
+
+// POST /api/v1/auth/two-factor/recovery-codes - 验证码校验通过后重新生成恢复码，旧恢复码全部失效
+export const onRequestPost: PagesFunction<Env, string, AuthContext>[] = [
+  requireAuth,
+  async (context) => {
+    const userId = context.data.user_id
+    const db = context.env.DB
+
+    let body: RegenerateRecoveryCodesRequest
+    try {
+      body = (await context.request.json()) as RegenerateRecoveryCodesRequest
+    } catch {
+      return badRequest('Invalid JSON body')
+    }
+
+    const code = normalizeTwoFactorCode(body.code)
+    if (!code) {
+      return badRequest('Verification code is required')
+    }
+
+    try {
+      const record = await getTwoFactorRecord(db, userId)
+      if (!record?.enabled_at) {
+        return notFound('Two-factor authentication is not enabled', 'TWO_FACTOR_NOT_ENABLED')
+      }
+
+      // 只接受验证器应用中的验证码，避免用一个恢复码换一整组新恢复码
+      if (!(await verifyTotpCode(db, context.env.ENCRYPTION_KEY, record, code))) {
+        await recordAuditEvent(db, context.request, userId, 'auth.2fa_failed', {
+          action: 'regenerate_recovery_codes',
+          reason: 'invalid_code',
+        })
+        return badRequest({ code: INVALID_TWO_FACTOR_CODE, message: 'Invalid verification code' })
+      }
+
+      const recoveryCodes = await regenerateRecoveryCodes(db, userId)
+      await recordAuditEvent(db, context.request, userId, 'auth.2fa_recovery_codes_regenerated', {
+        recovery_codes: recoveryCodes.length,
+      })
+
+      return success({ recovery_codes: recoveryCodes })
+    } catch (error) {
+      console.error('Regenerate recovery codes error:', error)
+      return internalError('Failed to regenerate recovery codes')
+    }
+  },
+]
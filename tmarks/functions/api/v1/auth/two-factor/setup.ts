@@ -0,0 +1,45 @@
+/**
+ * 两步验证绑定 API
+ * 路径: /api/v1/auth/two-factor/setup
+ * 认证: JWT Token (Bearer)
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env } from '../../../../lib/types'
+import { success, conflict, notFound, internalError } from '../../../../lib/response'
+import { requireAuth, AuthContext } from '../../../../middleware/auth'
+import { startTwoFactorEnrollment, buildOtpAuthUri } from '../../../../lib/two-factor'
+import { recordAuditEvent } from '../../../../lib/audit-log'
+
+// POST /api/v1/auth/two-factor/setup - 生成新的 TOTP 密钥，返回密钥和二维码内容（otpauth URI），验证码确认后才会启用
+export const onRequestPost: PagesFunction<Env, string, AuthContext>[] = [
+  requireAuth,
+  async (context) => {
+    const userId = context.data.user_id
+
+    try {
+      const user = await context.env.DB.prepare('SELECT username FROM users WHERE id = ?')
+        .bind(userId)
+        .first<{ username: string }>()
+
+      if (!user) {
+        return notFound('User not found')
+      }
+
+      const secret = await startTwoFactorEnrollment(context.env.DB, context.env.ENCRYPTION_KEY, userId)
+      if (!secret) {
+        return conflict('Two-factor authentication is already enabled', 'TWO_FACTOR_ALREADY_ENABLED')
+      }
+
+      await recordAuditEvent(context.env.DB, context.request, userId, 'auth.2fa_enrollment_started', {})
+
+      return success({
+        secret,
+        otpauth_uri: buildOtpAuthUri(secret, user.username),
+      })
+    } catch (error) {
+      console.error('Start two-factor setup error:', error)
+      return internalError('Failed to start two-factor setup')
+    }
+  },
+]
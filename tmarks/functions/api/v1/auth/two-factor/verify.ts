@@ -0,0 +1,115 @@
+/**
+ * 两步验证登录 API
+ * 路径: /api/v1/auth/two-factor/verify
+ * 认证: 登录时返回的挑战令牌（challenge_token）
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env } from '../../../../lib/types'
+import { success, badRequest, forbidden, internalError } from '../../../../lib/response'
+import { loginRateLimiter } from '../../../../lib/rate-limit'
+import { isAccountDisabled, ACCOUNT_DISABLED_CODE, ACCOUNT_DISABLED_MESSAGE } from '../../../../lib/account-status'
+import { createLoginSession } from '../../../../lib/auth-session'
+import {
+  claimTwoFactorChallengeAttempt,
+  consumeTwoFactorChallenge,
+  getRemainingChallengeAttempts,
+  getTwoFactorRecord,
+  verifyTwoFactorCode,
+  INVALID_TWO_FACTOR_CODE,
+} from '../../../../lib/two-factor'
+import { recordAuditEvent } from '../../../../lib/audit-log'
+
+interface VerifyTwoFactorRequest {
+  challenge_token?: string
+  code?: string
+}
+
+const CHALLENGE_INVALID = {
+  code: 'TWO_FACTOR_CHALLENGE_INVALID',
+  message: 'Verification session has expired, please sign in again',
+}
+
+// POST /api/v1/auth/two-factor/verify - 提交验证码（或恢复码）完成登录，返回与 /auth/login 相同的令牌
+export const onRequestPost: PagesFunction<Env>[] = [
+  loginRateLimiter,
+  async (context) => {
+    const db = context.env.DB
+
+    let body: VerifyTwoFactorRequest
+    try {
+      body = (await context.request.json()) as VerifyTwoFactorRequest
+    } catch {
+      return badRequest('Invalid JSON body')
+    }
+
+    if (!body.challenge_token || !body.code) {
+      return badRequest('Challenge token and verification code are required')
+    }
+
+    try {
+      const challenge = await claimTwoFactorChallengeAttempt(db, body.challenge_token)
+      if (!challenge) {
+        await recordAuditEvent(db, context.request, null, 'auth.2fa_failed', {
+          action: 'login',
+          reason: 'invalid_challenge',
+        })
+        return badRequest(CHALLENGE_INVALID)
+      }
+
+      // 挑战创建后两步验证被关闭时，要求重新登录
+      const record = await getTwoFactorRecord(db, challenge.user_id)
+      if (!record?.enabled_at) {
+        return badRequest(CHALLENGE_INVALID)
+      }
+
+      const method = await verifyTwoFactorCode(db, context.env.ENCRYPTION_KEY, record, body.code)
+      if (!method) {
+        const attemptsRemaining = getRemainingChallengeAttempts(challenge)
+        await recordAuditEvent(db, context.request, challenge.user_id, 'auth.2fa_failed', {
+          action: 'login',
+          reason: 'invalid_code',
+          attempts_remaining: attemptsRemaining,
+        })
+        return badRequest(
+          attemptsRemaining > 0
+            ? { code: INVALID_TWO_FACTOR_CODE, message: 'Invalid verification code' }
+            : CHALLENGE_INVALID
+        )
+      }
+
+      if (await isAccountDisabled(db, challenge.user_id)) {
+        return forbidden(ACCOUNT_DISABLED_MESSAGE, ACCOUNT_DISABLED_CODE)
+      }
+
+      if (!(await consumeTwoFactorChallenge(db, challenge.id))) {
+        return badRequest(CHALLENGE_INVALID)
+      }
+
+      const user = await db.prepare('SELECT id, username, email, role FROM users WHERE id = ?')
+        .bind(challenge.user_id)
+        .first<{ id: string; username: string; email: string | null; role: string | null }>()
+
+      if (!user) {
+        return badRequest(CHALLENGE_INVALID)
+      }
+
+      if (method === 'recovery_code') {
+        await recordAuditEvent(db, context.request, user.id, 'auth.2fa_recovery_code_used', {})
+      }
+
+      const session = await createLoginSession(
+        db,
+        context.env,
+        context.request,
+        { ...user, role: user.role ?? 'user' },
+        { remember_me: Boolean(challenge.remember_me), two_factor: method }
+      )
+
+      return success(session)
+    } catch (error) {
+      console.error('Verify two-factor error:', error)
+      return internalError('Two-factor verification failed')
+    }
+  },
+]
@@ -4,7 +4,9 @@ import { success, badRequest, notFound, noContent, internalError } from '../../.
 import { requireAuth, AuthContext } from '../../../middleware/auth'
 import { isValidUrl, sanitizeString } from '../../../lib/validation'
 import { normalizeBookmark } from '../../../lib/bookmark-utils'
+import { canonicalizeUrl, getCanonicalUrlRules } from '../../../lib/canonical-url'
 import { invalidatePublicShareCache } from '../../shared/cache'
+import { dispatchWebhookEvent } from '../../../lib/webhooks'
 
 interface UpdateBookmarkRequest {
   title?: string
@@ -54,8 +56,9 @@ export const onRequestPatch: PagesFunction<Env, RouteParams, AuthContext>[] = [
       }
 
       if (body.url !== undefined) {
-        updates.push('url = ?')
-        values.push(sanitizeString(body.url, 2000))
+        const url = sanitizeString(body.url, 2000)
+        updates.push('url = ?', 'canonical_url = ?')
+        values.push(url, canonicalizeUrl(url, getCanonicalUrlRules(context.env)))
       }
 
       if (body.description !== undefined) {
@@ -155,12 +158,13 @@ export const onRequestPatch: PagesFunction<Env, RouteParams, AuthContext>[] = [
 
       await invalidatePublicShareCache(context.env, userId)
 
-      return success({
-        bookmark: {
-          ...normalizeBookmark(updatedBookmarkRow),
-          tags: tags || [],
-        },
-      })
+      const bookmark = {
+        ...normalizeBookmark(updatedBookmarkRow),
+        tags: tags || [],
+      }
+      context.waitUntil(dispatchWebhookEvent(context.env, userId, 'bookmark.updated', { bookmark }))
+
+      return success({ bookmark })
     } catch (error) {
       console.error('Update bookmark error:', error)
       return internalError('Failed to update bookmark')
@@ -178,10 +182,10 @@ export const onRequestDelete: PagesFunction<Env, RouteParams, AuthContext>[] = [
 
       // 检查书签是否存在且属于当前用户
       const bookmark = await context.env.DB.prepare(
-        'SELECT id FROM bookmarks WHERE id = ? AND user_id = ? AND deleted_at IS NULL'
+        'SELECT id, title, url FROM bookmarks WHERE id = ? AND user_id = ? AND deleted_at IS NULL'
       )
         .bind(bookmarkId, userId)
-        .first()
+        .first<{ id: string; title: string; url: string }>()
 
       if (!bookmark) {
         return notFound('Bookmark not found')
@@ -202,6 +206,8 @@ export const onRequestDelete: PagesFunction<Env, RouteParams, AuthContext>[] = [
 
       await invalidatePublicShareCache(context.env, userId)
 
+      context.waitUntil(dispatchWebhookEvent(context.env, userId, 'bookmark.deleted', { bookmark }))
+
       return noContent()
     } catch (error) {
       console.error('Delete bookmark error:', error)
@@ -0,0 +1,75 @@
+/**
+ * 书签笔记 API
+ * 路径: /api/v1/bookmarks/:id/notes
+ * 认证: JWT Token (Bearer)
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env } from '../../../../lib/types'
+import { success, created, badRequest, notFound, internalError } from '../../../../lib/response'
+import { CacheService } from '../../../../lib/cache'
+import { createBookmarkCacheManager } from '../../../../lib/cache/bookmark-cache'
+import { requireAuth, AuthContext } from '../../../../middleware/auth'
+import {
+  MAX_NOTES_PER_BOOKMARK,
+  bookmarkExists,
+  createBookmarkNote,
+  listBookmarkNotes,
+  validateNoteInput,
+} from '../../../../lib/bookmark-notes'
+import type { NoteInput } from '../../../../lib/bookmark-notes'
+
+// GET /api/v1/bookmarks/:id/notes - 获取书签的笔记和高亮摘录
+export const onRequestGet: PagesFunction<Env, 'id', AuthContext>[] = [
+  requireAuth,
+  async (context) => {
+    try {
+      const userId = context.data.user_id
+      const bookmarkId = context.params.id as string
+
+      if (!(await bookmarkExists(context.env.DB, userId, bookmarkId))) {
+        return notFound('Bookmark not found')
+      }
+
+      const notes = await listBookmarkNotes(context.env.DB, userId, bookmarkId)
+      return success({ notes })
+    } catch (error) {
+      console.error('Get bookmark notes error:', error)
+      return internalError('Failed to get bookmark notes')
+    }
+  },
+]
+
+// POST /api/v1/bookmarks/:id/notes - 添加笔记或高亮摘录
+export const onRequestPost: PagesFunction<Env, 'id', AuthContext>[] = [
+  requireAuth,
+  async (context) => {
+    try {
+      const userId = context.data.user_id
+      const bookmarkId = context.params.id as string
+      const body = await context.request.json() as NoteInput
+
+      const validation = validateNoteInput(body)
+      if (!validation.success) {
+        return badRequest(validation.message)
+      }
+
+      if (!(await bookmarkExists(context.env.DB, userId, bookmarkId))) {
+        return notFound('Bookmark not found')
+      }
+
+      const note = await createBookmarkNote(context.env.DB, userId, bookmarkId, validation.note)
+      if (!note) {
+        return badRequest(`Cannot add more than ${MAX_NOTES_PER_BOOKMARK} notes to a bookmark`, 'TOO_MANY_NOTES')
+      }
+
+      // 书签列表返回 note_count，需要刷新列表缓存
+      await createBookmarkCacheManager(new CacheService(context.env)).invalidateUserBookmarks(userId)
+
+      return created({ note })
+    } catch (error) {
+      console.error('Create bookmark note error:', error)
+      return internalError('Failed to create bookmark note')
+    }
+  },
+]
@@ -11,6 +11,7 @@ import { requireAuth, AuthContext } from '../../../../middleware/auth'
 import { generateSignedUrl } from '../../../../lib/signed-url'
 import { generateNanoId } from '../../../../lib/crypto'
 import { checkR2Quota } from '../../../../lib/storage-quota'
+import { dispatchWebhookEvent } from '../../../../lib/webhooks'
 
 // 使用 Web Crypto API 计算 SHA-256 哈希
 async function sha256(content: string): Promise<string> {
@@ -267,17 +268,22 @@ export const onRequestPost: PagesFunction<Env, 'id', AuthContext>[] = [
       const baseUrl = new URL(context.request.url).origin
       const viewUrl = `${baseUrl}/api/v1/bookmarks/${bookmarkId}/snapshots/${snapshotId}/view?sig=${signature}&exp=${expires}&u=${userId}&a=view`
 
+      const snapshot = {
+        id: snapshotId,
+        version,
+        file_size: htmlBytes.length,
+        content_hash: contentHash,
+        snapshot_title: title,
+        is_latest: true,
+        created_at: now,
+      }
+
+      context.waitUntil(
+        dispatchWebhookEvent(context.env, userId, 'snapshot.created', { bookmark_id: bookmarkId, snapshot })
+      )
+
       return success({
-        snapshot: {
-          id: snapshotId,
-          version,
-          file_size: htmlBytes.length,
-          content_hash: contentHash,
-          snapshot_title: title,
-          is_latest: true,
-          created_at: now,
-          view_url: viewUrl,
-        },
+        snapshot: { ...snapshot, view_url: viewUrl },
         message: 'Snapshot created successfully',
       })
     } catch (error) {
@@ -4,27 +4,77 @@ import { requireAuth, type AuthContext } from '../../../middleware/auth'
 import { invalidatePublicShareCache } from '../../shared/cache'
 import { CacheService } from '../../../lib/cache'
 import { createBookmarkCacheManager } from '../../../lib/cache/bookmark-cache'
-
-// Batch action types
-type BatchActionType = 'delete' | 'update_tags' | 'pin' | 'unpin' | 'archive' | 'unarchive'
+import { getCanonicalUrlRules } from '../../../lib/canonical-url'
+import { validateBookmarkFilters, type BookmarkFilters } from '../../../lib/bookmark-query'
+import {
+  BULK_MAX_IDS,
+  BULK_SYNC_LIMIT,
+  applyBulkAction,
+  applyBulkActionToTarget,
+  buildBulkTarget,
+  chunkIds,
+  countBulkIds,
+  countBulkTarget,
+  createBulkJob,
+  dispatchBulkDeletedWebhooks,
+  dispatchBulkUpdatedWebhooks,
+  isBulkAction,
+  logBulkAction,
+  prepareBulkActionParams,
+  runBulkJob,
+  validateBulkActionParams,
+  type BulkActionError,
+  type BulkActionType,
+  type BulkDeletedBookmark,
+  type BulkJob,
+} from '../../../lib/bulk-actions'
 
 interface BatchActionRequest {
-  action: BatchActionType
-  bookmark_ids: string[]
+  action?: BulkActionType
+  // 二选一：书签 ID 列表，或筛选条件（与书签列表的筛选参数相同）
+  bookmark_ids?: string[]
+  query?: Record<string, unknown>
+  // 只统计匹配数量，不执行
+  dry_run?: boolean
   // For update_tags action
   add_tag_ids?: string[]
   remove_tag_ids?: string[]
+  // For add_tags action
+  tag_names?: string[]
+  // For replace_url_prefix action
+  url_prefix_from?: string
+  url_prefix_to?: string
 }
 
 interface BatchActionResponse {
   success: boolean
   affected_count: number
-  errors?: Array<{ bookmark_id: string; message: string }>
+  matched_count?: number
+  dry_run?: boolean
+  job?: BulkJob
+  errors?: BulkActionError[]
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  })
+}
+
+async function invalidateBookmarkCaches(env: Env, userId: string) {
+  // 使用缓存管理器处理批量操作后的缓存
+  const bookmarkCache = createBookmarkCacheManager(new CacheService(env))
+  await bookmarkCache.handleBatchOperation(userId)
+  await invalidatePublicShareCache(env, userId)
 }
 
 /**
  * PATCH /api/v1/bookmarks/bulk
  * Batch operations on bookmarks
+ *
+ * 按 ID 操作时最多 100 个；按条件操作时匹配数超过 BULK_SYNC_LIMIT 会创建后台任务（202），
+ * 通过 GET /api/v1/bookmarks/bulk/jobs/:id 查询进度
  */
 export const onRequestPatch: PagesFunction<Env, RouteParams, AuthContext>[] = [
   requireAuth,
@@ -34,284 +84,132 @@ export const onRequestPatch: PagesFunction<Env, RouteParams, AuthContext>[] = [
     let body: BatchActionRequest | null = null
     try {
     body = (await context.request.json()) as BatchActionRequest
-    const { action, bookmark_ids, add_tag_ids, remove_tag_ids } = body
+    const { action, bookmark_ids, query, dry_run } = body
+    const dryRun = dry_run === true
+    const hasIds = Array.isArray(bookmark_ids) && bookmark_ids.length > 0
+    const hasQuery = Boolean(query) && typeof query === 'object' && !Array.isArray(query)
 
     // Validation
-    if (!action || !bookmark_ids || !Array.isArray(bookmark_ids) || bookmark_ids.length === 0) {
-      return new Response(
-        JSON.stringify({
+    if ((!action && !dryRun) || hasIds === hasQuery) {
+      return jsonResponse(
+        {
           code: 'INVALID_REQUEST',
-          message: 'action and bookmark_ids are required',
-        }),
-        { status: 400, headers: { 'Content-Type': 'application/json' } }
+          message: 'action and either bookmark_ids or query are required',
+        },
+        400
       )
     }
 
-    if (bookmark_ids.length > 100) {
-      return new Response(
-        JSON.stringify({
+    if (action && !isBulkAction(action)) {
+      return jsonResponse({ code: 'INVALID_ACTION', message: `Invalid action: ${action}` }, 400)
+    }
+
+    if (hasIds && bookmark_ids!.length > BULK_MAX_IDS) {
+      return jsonResponse(
+        {
           code: 'TOO_MANY_ITEMS',
-          message: 'Cannot process more than 100 bookmarks at once',
-        }),
-        { status: 400, headers: { 'Content-Type': 'application/json' } }
+          message: `Cannot process more than ${BULK_MAX_IDS} bookmarks at once`,
+        },
+        400
       )
     }
 
-    const db = context.env.DB
-    const placeholders = bookmark_ids.map(() => '?').join(',')
-    let affectedCount = 0
-    const errors: Array<{ bookmark_id: string; message: string }> = []
-
-    switch (action) {
-      case 'delete': {
-        // Soft delete bookmarks,同时清除点击统计
-        const result = await db
-          .prepare(
-            `UPDATE bookmarks
-             SET deleted_at = datetime('now'), click_count = 0, last_clicked_at = NULL
-             WHERE id IN (${placeholders})
-               AND user_id = ?
-               AND deleted_at IS NULL`
-          )
-          .bind(...bookmark_ids, userId)
-          .run()
-
-        affectedCount = result.meta.changes || 0
-
-        // Audit log
-        await db
-          .prepare(
-            `INSERT INTO audit_logs (user_id, event_type, payload, created_at)
-             VALUES (?, 'batch_delete_bookmarks', ?, datetime('now'))`
-          )
-          .bind(userId, JSON.stringify({ bookmark_ids, count: affectedCount }))
-          .run()
-
-        break
-      }
-
-      case 'pin': {
-        const result = await db
-          .prepare(
-            `UPDATE bookmarks
-             SET is_pinned = 1, updated_at = datetime('now')
-             WHERE id IN (${placeholders})
-               AND user_id = ?
-               AND deleted_at IS NULL`
-          )
-          .bind(...bookmark_ids, userId)
-          .run()
-
-        affectedCount = result.meta.changes || 0
-        break
-      }
-
-      case 'unpin': {
-        const result = await db
-          .prepare(
-            `UPDATE bookmarks
-             SET is_pinned = 0, updated_at = datetime('now')
-             WHERE id IN (${placeholders})
-               AND user_id = ?
-               AND deleted_at IS NULL`
-          )
-          .bind(...bookmark_ids, userId)
-          .run()
-
-        affectedCount = result.meta.changes || 0
-        break
-      }
-
-      case 'archive': {
-        const result = await db
-          .prepare(
-            `UPDATE bookmarks
-             SET is_archived = 1, updated_at = datetime('now')
-             WHERE id IN (${placeholders})
-               AND user_id = ?
-               AND deleted_at IS NULL`
-          )
-          .bind(...bookmark_ids, userId)
-          .run()
-
-        affectedCount = result.meta.changes || 0
-        break
-      }
-
-      case 'unarchive': {
-        const result = await db
-          .prepare(
-            `UPDATE bookmarks
-             SET is_archived = 0, updated_at = datetime('now')
-             WHERE id IN (${placeholders})
-               AND user_id = ?
-               AND deleted_at IS NULL`
-          )
-          .bind(...bookmark_ids, userId)
-          .run()
-
-        affectedCount = result.meta.changes || 0
-        break
-      }
-
-      case 'update_tags': {
-        // Verify all bookmarks belong to the user
-        const verifyResult = await db
-          .prepare(
-            `SELECT id FROM bookmarks
-             WHERE id IN (${placeholders})
-               AND user_id = ?
-               AND deleted_at IS NULL`
-          )
-          .bind(...bookmark_ids, userId)
-          .all<{ id: string }>()
-
-        const validBookmarkIds = verifyResult.results.map((row: { id: string }) => row.id)
-
-        if (validBookmarkIds.length === 0) {
-          return new Response(
-            JSON.stringify({
-              code: 'NO_VALID_BOOKMARKS',
-              message: 'No valid bookmarks found',
-            }),
-            { status: 404, headers: { 'Content-Type': 'application/json' } }
-          )
-        }
-
-        // Remove tags
-        if (remove_tag_ids && remove_tag_ids.length > 0) {
-          const tagPlaceholders = remove_tag_ids.map(() => '?').join(',')
-          const bookmarkPlaceholders = validBookmarkIds.map(() => '?').join(',')
+    const input = body as unknown as Record<string, unknown>
+    const validated = action ? validateBulkActionParams(action, input) : null
+    if (validated && !validated.success) {
+      return jsonResponse({ code: 'INVALID_REQUEST', message: validated.message }, 400)
+    }
+    let params = validated?.success ? validated.params : {}
 
-          await db
-            .prepare(
-              `DELETE FROM bookmark_tags
-               WHERE bookmark_id IN (${bookmarkPlaceholders})
-                 AND tag_id IN (${tagPlaceholders})
-                 AND user_id = ?`
-            )
-            .bind(...validBookmarkIds, ...remove_tag_ids, userId)
-            .run()
-        }
+    const db = context.env.DB
+    const bookmarkIds = hasIds ? [...new Set(bookmark_ids!.filter(id => typeof id === 'string'))] : []
+    const validatedFilters = hasQuery ? validateBookmarkFilters(query) : null
+    if (validatedFilters && !validatedFilters.success) {
+      return jsonResponse({ code: validatedFilters.code, message: validatedFilters.message }, 400)
+    }
+    const filters: BookmarkFilters = validatedFilters?.success ? validatedFilters.filters : {}
+    const target = hasQuery ? buildBulkTarget(userId, action ?? null, filters, params) : null
+    if (target && !target.success) {
+      return jsonResponse({ code: target.code, message: target.message, details: target.details }, 400)
+    }
 
-        // Add tags
-        if (add_tag_ids && add_tag_ids.length > 0) {
-          // Verify tags exist and belong to user
-          const tagPlaceholders = add_tag_ids.map(() => '?').join(',')
-          const tagsResult = await db
-            .prepare(
-              `SELECT id FROM tags
-               WHERE id IN (${tagPlaceholders})
-                 AND user_id = ?
-                 AND deleted_at IS NULL`
-            )
-            .bind(...add_tag_ids, userId)
-            .all<{ id: string }>()
+    const matchedCount = target
+      ? await countBulkTarget(db, target)
+      : await countBulkIds(db, userId, action ?? null, bookmarkIds, params)
 
-          const validTagIds = tagsResult.results.map((row: { id: string }) => row.id)
+    if (dryRun) {
+      return jsonResponse({ success: true, dry_run: true, affected_count: 0, matched_count: matchedCount })
+    }
 
-          if (validTagIds.length > 0) {
-            // Insert bookmark_tags (ignore duplicates)
-            for (const bookmarkId of validBookmarkIds) {
-              for (const tagId of validTagIds) {
-                try {
-                  await db
-                    .prepare(
-                      `INSERT OR IGNORE INTO bookmark_tags
-                       (bookmark_id, tag_id, user_id, created_at)
-                       VALUES (?, ?, ?, datetime('now'))`
-                    )
-                    .bind(bookmarkId, tagId, userId)
-                    .run()
-                } catch (e) {
-                  console.error(`Failed to add tag ${tagId} to bookmark ${bookmarkId}:`, e)
-                  errors.push({
-                    bookmark_id: bookmarkId,
-                    message: `Failed to add tag ${tagId}`,
-                  })
-                }
-              }
-            }
+    // 以下 action 一定存在（非 dry run 时已校验）
+    const bulkAction = action as BulkActionType
 
-            // Update tag usage count
-            for (const tagId of validTagIds) {
-              try {
-                await db
-                  .prepare(
-                    `UPDATE tags
-                     SET usage_count = (
-                       SELECT COUNT(*) FROM bookmark_tags
-                       WHERE tag_id = ? AND user_id = ?
-                     )
-                     WHERE id = ? AND user_id = ?`
-                  )
-                  .bind(tagId, userId, tagId, userId)
-                  .run()
-              } catch (e) {
-                console.error(`Failed to update usage count for tag ${tagId}:`, e)
-              }
-            }
-          }
-        }
+    if (hasIds && bulkAction === 'update_tags' && matchedCount === 0) {
+      return jsonResponse({ code: 'NO_VALID_BOOKMARKS', message: 'No valid bookmarks found' }, 404)
+    }
 
-        // Update bookmarks timestamp
-        const bookmarkPlaceholders = validBookmarkIds.map(() => '?').join(',')
-        await db
-          .prepare(
-            `UPDATE bookmarks
-             SET updated_at = datetime('now')
-             WHERE id IN (${bookmarkPlaceholders}) AND user_id = ?`
-          )
-          .bind(...validBookmarkIds, userId)
-          .run()
+    if (matchedCount === 0) {
+      return jsonResponse({ success: true, affected_count: 0, matched_count: 0 })
+    }
 
-        affectedCount = validBookmarkIds.length
+    params = await prepareBulkActionParams(db, userId, bulkAction, input, params)
+    const canonicalRules = getCanonicalUrlRules(context.env)
 
-        // Audit log
-        await db
-          .prepare(
-            `INSERT INTO audit_logs (user_id, event_type, payload, created_at)
-             VALUES (?, 'batch_update_tags', ?, datetime('now'))`
-          )
-          .bind(
-            userId,
-            JSON.stringify({ bookmark_ids: validBookmarkIds, add_tag_ids, remove_tag_ids })
-          )
-          .run()
+    // 匹配数较多时创建后台任务，在响应返回后继续执行
+    if (target && matchedCount > BULK_SYNC_LIMIT) {
+      const job = await createBulkJob(db, userId, bulkAction, filters, params, matchedCount)
+      context.waitUntil(
+        runBulkJob(context.env, job.id, canonicalRules)
+          .then(result => (result ? invalidateBookmarkCaches(context.env, userId) : undefined))
+          .catch(error => console.error(`[Bulk Job] ${job.id} run error:`, error))
+      )
+      const response: BatchActionResponse = { success: true, affected_count: 0, matched_count: matchedCount, job }
+      return jsonResponse(response, 202)
+    }
 
-        break
+    let affectedCount = 0
+    const errors: BulkActionError[] = []
+    const deleted: BulkDeletedBookmark[] = []
+    const updated: string[] = []
+    if (target) {
+      const result = await applyBulkActionToTarget(db, userId, bulkAction, params, target, canonicalRules)
+      affectedCount = result.affected
+      errors.push(...result.errors)
+      deleted.push(...(result.deleted ?? []))
+      updated.push(...(result.updated ?? []))
+    } else {
+      for (const ids of chunkIds(bookmarkIds)) {
+        const result = await applyBulkAction(db, userId, bulkAction, params, ids, canonicalRules)
+        affectedCount += result.affected
+        errors.push(...result.errors)
+        deleted.push(...(result.deleted ?? []))
+        updated.push(...(result.updated ?? []))
       }
-
-      default:
-        return new Response(
-          JSON.stringify({
-            code: 'INVALID_ACTION',
-            message: `Invalid action: ${action}`,
-          }),
-          { status: 400, headers: { 'Content-Type': 'application/json' } }
-        )
     }
 
+    // Audit log
+    await logBulkAction(db, userId, bulkAction, {
+      ...(target ? { query: filters } : { bookmark_ids: bookmarkIds }),
+      ...params,
+      count: affectedCount,
+    })
+
     const response: BatchActionResponse = {
       success: true,
       affected_count: affectedCount,
+      matched_count: matchedCount,
     }
 
     if (errors.length > 0) {
       response.errors = errors
     }
 
-    // 使用缓存管理器处理批量操作后的缓存
-    const cache = new CacheService(context.env)
-    const bookmarkCache = createBookmarkCacheManager(cache)
-    await bookmarkCache.handleBatchOperation(userId)
+    await invalidateBookmarkCaches(context.env, userId)
 
-    await invalidatePublicShareCache(context.env, userId)
+    context.waitUntil(dispatchBulkDeletedWebhooks(context.env, userId, deleted))
+    context.waitUntil(dispatchBulkUpdatedWebhooks(context.env, userId, bulkAction, updated))
 
-    return new Response(JSON.stringify(response), {
-      status: 200,
-      headers: { 'Content-Type': 'application/json' },
-    })
+    return jsonResponse(response)
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error)
     const errorStack = error instanceof Error ? error.stack : ''
@@ -321,13 +219,13 @@ export const onRequestPatch: PagesFunction<Env, RouteParams, AuthContext>[] = [
       action: body?.action,
       bookmarkCount: body?.bookmark_ids?.length,
     })
-    return new Response(
-      JSON.stringify({
+    return jsonResponse(
+      {
         code: 'INTERNAL_ERROR',
         message: 'Failed to perform batch operation',
         details: errorMessage,
-      }),
-      { status: 500, headers: { 'Content-Type': 'application/json' } }
+      },
+      500
     )
   }
 },
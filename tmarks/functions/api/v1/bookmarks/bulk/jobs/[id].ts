@@ -0,0 +1,49 @@
+/**
+ * 批量操作任务 API
+ * 路径: /api/v1/bookmarks/bulk/jobs/:id
+ * 认证: JWT Token (Bearer)
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env } from '../../../../../lib/types'
+import { success, notFound, internalError } from '../../../../../lib/response'
+import { requireAuth, AuthContext } from '../../../../../middleware/auth'
+import { invalidatePublicShareCache } from '../../../../shared/cache'
+import { CacheService } from '../../../../../lib/cache'
+import { createBookmarkCacheManager } from '../../../../../lib/cache/bookmark-cache'
+import { getCanonicalUrlRules } from '../../../../../lib/canonical-url'
+import { getBulkJob, runBulkJob } from '../../../../../lib/bulk-actions'
+
+// GET /api/v1/bookmarks/bulk/jobs/:id - 获取任务进度
+// 未完成的任务若没有执行者（租约已过期），由本次请求在后台继续执行
+export const onRequestGet: PagesFunction<Env, 'id', AuthContext>[] = [
+  requireAuth,
+  async (context) => {
+    try {
+      const userId = context.data.user_id
+      const jobId = context.params.id as string
+
+      const job = await getBulkJob(context.env.DB, userId, jobId)
+      if (!job) {
+        return notFound('Bulk job not found')
+      }
+
+      if (job.status === 'pending' || job.status === 'running') {
+        context.waitUntil(
+          runBulkJob(context.env, job.id, getCanonicalUrlRules(context.env))
+            .then(async (result) => {
+              if (!result) return
+              await createBookmarkCacheManager(new CacheService(context.env)).handleBatchOperation(userId)
+              await invalidatePublicShareCache(context.env, userId)
+            })
+            .catch(error => console.error(`[Bulk Job] ${job.id} resume error:`, error))
+        )
+      }
+
+      return success({ job })
+    } catch (error) {
+      console.error('Get bulk job error:', error)
+      return internalError('Failed to get bulk job')
+    }
+  },
+]
@@ -0,0 +1,37 @@
+/**
+ * 重复书签 API
+ * 路径: /api/v1/bookmarks/duplicates
+ * 认证: JWT Token
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env } from '../../../lib/types'
+import { success, internalError } from '../../../lib/response'
+import { requireAuth, AuthContext } from '../../../middleware/auth'
+import { backfillCanonicalUrls, getCanonicalUrlRules } from '../../../lib/canonical-url'
+import { findDuplicateGroups } from '../../../lib/duplicates'
+
+// GET /api/v1/bookmarks/duplicates - 获取重复书签分组
+// rescan=true 时按当前规则重新计算全部书签的规范化 URL
+export const onRequestGet: PagesFunction<Env, string, AuthContext>[] = [
+  requireAuth,
+  async (context) => {
+    try {
+      const userId = context.data.user_id
+      const url = new URL(context.request.url)
+      const rescan = url.searchParams.get('rescan') === 'true'
+
+      // 历史书签可能还没有规范化 URL，先补齐
+      await backfillCanonicalUrls(context.env.DB, getCanonicalUrlRules(context.env), {
+        userId,
+        recompute: rescan,
+      })
+
+      const result = await findDuplicateGroups(context.env.DB, userId)
+      return success(result)
+    } catch (error) {
+      console.error('Get duplicate bookmarks error:', error)
+      return internalError('Failed to get duplicate bookmarks')
+    }
+  },
+]
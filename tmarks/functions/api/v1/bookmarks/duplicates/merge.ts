@@ -0,0 +1,84 @@
+/**
+ * 合并重复书签 API
+ * 路径: /api/v1/bookmarks/duplicates/merge
+ * 认证: JWT Token
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env } from '../../../../lib/types'
+import { success, badRequest, notFound, internalError } from '../../../../lib/response'
+import { requireAuth, AuthContext } from '../../../../middleware/auth'
+import { invalidatePublicShareCache } from '../../../shared/cache'
+import { CacheService } from '../../../../lib/cache'
+import { createBookmarkCacheManager } from '../../../../lib/cache/bookmark-cache'
+import { MERGE_MAX_BOOKMARKS, mergeDuplicateBookmarks } from '../../../../lib/duplicates'
+import { dispatchWebhookEventBatch } from '../../../../lib/webhooks'
+
+interface MergeDuplicatesRequest {
+  keep_id: string
+  merge_ids: string[]
+}
+
+// POST /api/v1/bookmarks/duplicates/merge - 将重复书签合并到保留的书签
+export const onRequestPost: PagesFunction<Env, string, AuthContext>[] = [
+  requireAuth,
+  async (context) => {
+    try {
+      const userId = context.data.user_id
+      const body = await context.request.json() as MergeDuplicatesRequest
+
+      const keepId = typeof body.keep_id === 'string' ? body.keep_id : ''
+      const mergeIds = Array.isArray(body.merge_ids)
+        ? [...new Set(body.merge_ids.filter((id): id is string => typeof id === 'string' && id !== keepId))]
+        : []
+
+      if (!keepId || mergeIds.length === 0) {
+        return badRequest('keep_id and merge_ids are required')
+      }
+
+      if (mergeIds.length > MERGE_MAX_BOOKMARKS) {
+        return badRequest(`Cannot merge more than ${MERGE_MAX_BOOKMARKS} bookmarks at once`, 'TOO_MANY_ITEMS')
+      }
+
+      const ids = [keepId, ...mergeIds]
+      const { results } = await context.env.DB.prepare(
+        `SELECT id, title, url, canonical_url FROM bookmarks
+         WHERE id IN (${ids.map(() => '?').join(',')}) AND user_id = ? AND deleted_at IS NULL`
+      )
+        .bind(...ids, userId)
+        .all<{ id: string; title: string; url: string; canonical_url: string | null }>()
+
+      const rows = results || []
+      const keep = rows.find(row => row.id === keepId)
+      if (!keep || rows.length !== ids.length) {
+        return notFound('Bookmark not found')
+      }
+
+      // 只允许合并规范化 URL 相同的书签
+      if (!keep.canonical_url || rows.some(row => row.canonical_url !== keep.canonical_url)) {
+        return badRequest('Bookmarks are not duplicates of each other', 'NOT_DUPLICATES')
+      }
+
+      await mergeDuplicateBookmarks(context.env.DB, userId, keepId, mergeIds, new Date().toISOString())
+
+      const bookmarkCache = createBookmarkCacheManager(new CacheService(context.env))
+      await bookmarkCache.invalidateUserBookmarks(userId)
+      await invalidatePublicShareCache(context.env, userId)
+
+      // 被合并的书签移入了回收站
+      const merged = rows.filter(row => row.id !== keepId).map(({ id, title, url }) => ({ id, title, url }))
+      context.waitUntil(
+        dispatchWebhookEventBatch(context.env, userId, 'bookmark.deleted', merged, chunk => ({
+          bookmarks: chunk,
+          source: 'merge_duplicates',
+          merged_into: keepId,
+        }))
+      )
+
+      return success({ keep_id: keepId, merged_count: mergeIds.length })
+    } catch (error) {
+      console.error('Merge duplicate bookmarks error:', error)
+      return internalError('Failed to merge duplicate bookmarks')
+    }
+  },
+]
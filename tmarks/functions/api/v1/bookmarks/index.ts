@@ -1,5 +1,5 @@
 import type { PagesFunction } from '@cloudflare/workers-types'
-import type { Env, Bookmark, BookmarkRow, RouteParams, SQLParam } from '../../../lib/types'
+import type { Env, BookmarkRow, RouteParams } from '../../../lib/types'
 import { success, badRequest, created, internalError } from '../../../lib/response'
 import { requireAuth, AuthContext } from '../../../middleware/auth'
 import { isValidUrl, sanitizeString } from '../../../lib/validation'
@@ -9,9 +9,12 @@ import { normalizeBookmark } from '../../../lib/bookmark-utils'
 import { invalidatePublicShareCache } from '../../shared/cache'
 import { CacheService } from '../../../lib/cache'
 import { createBookmarkCacheManager } from '../../../lib/cache/bookmark-cache'
-import type { QueryParams } from '../../../lib/cache/types'
 import { createOrLinkTags } from '../../../lib/tags'
 import { uploadCoverImageToR2 } from '../../../lib/image-upload'
+import { canonicalizeUrl, findExistingBookmark, getCanonicalUrlRules } from '../../../lib/canonical-url'
+import { listBookmarks, parseBookmarkFilters, toCacheQueryParams } from '../../../lib/bookmark-query'
+import { queuedReadingState, saveReadingState } from '../../../lib/reading-state'
+import { dispatchWebhookEvent } from '../../../lib/webhooks'
 
 interface CreateBookmarkRequest {
   title: string
@@ -24,10 +27,7 @@ interface CreateBookmarkRequest {
   is_pinned?: boolean
   is_archived?: boolean
   is_public?: boolean
-}
-
-interface BookmarkWithTags extends Bookmark {
-  tags: Array<{ id: string; name: string; color: string | null }>
+  read_later?: boolean  // 加入稍后阅读队列
 }
 
 // GET /api/v1/bookmarks - 获取书签列表
@@ -40,27 +40,20 @@ export const onRequestGet: PagesFunction<Env, RouteParams, AuthContext>[] = [
       const url = new URL(context.request.url)
 
       // 解析查询参数
-      const keyword = url.searchParams.get('keyword') || ''
-      const tagIds = url.searchParams.get('tags')?.split(',').filter(Boolean) || []
+      const parsedFilters = parseBookmarkFilters(url.searchParams)
+      if (!parsedFilters.success) {
+        return badRequest({ code: parsedFilters.code, message: parsedFilters.message })
+      }
+      const { filters } = parsedFilters
       const pageSize = Math.min(parseInt(url.searchParams.get('page_size') || '30'), 100)
       const pageCursor = url.searchParams.get('page_cursor') || ''
-      const sortBy = url.searchParams.get('sort') || 'created' // created, updated, pinned
-      const isArchived = url.searchParams.get('archived') === 'true'
-      const isPinned = url.searchParams.get('pinned') === 'true'
 
       // 初始化缓存服务
       const cache = new CacheService(context.env)
       const bookmarkCache = createBookmarkCacheManager(cache)
 
       // 构建查询参数对象
-      const queryParams: QueryParams = {
-        keyword: keyword || undefined,
-        tags: tagIds.length > 0 ? tagIds : undefined,
-        archived: isArchived || undefined,
-        pinned: isPinned || undefined,
-        sort: sortBy !== 'created' ? sortBy : undefined,
-        page_cursor: pageCursor || undefined,
-      }
+      const queryParams = toCacheQueryParams(filters, pageSize, pageCursor)
 
       // 尝试从缓存获取 (只缓存默认列表查询)
       const cached = await bookmarkCache.getBookmarkList(userId, queryParams)
@@ -71,7 +64,17 @@ export const onRequestGet: PagesFunction<Env, RouteParams, AuthContext>[] = [
         })
       }
 
+      const result = await listBookmarks(context.env.DB, userId, filters, { pageSize, pageCursor })
+      if (!result.success) {
+        return badRequest({
+          code: result.code,
+          message: result.message,
+          details: result.details,
+        })
+      }
+
       // 记录标签点击统计(异步执行,不阻塞主查询)
+      const tagIds = filters.tags ?? []
       if (tagIds.length > 0) {
         const now = new Date().toISOString()
         Promise.all(
@@ -85,172 +88,10 @@ export const onRequestGet: PagesFunction<Env, RouteParams, AuthContext>[] = [
         ).catch(err => console.error('Failed to record tag clicks:', err))
       }
 
-      // 构建查询条件（不包含占位符的参数值）
-      const conditions: string[] = ['b.user_id = ?', 'b.deleted_at IS NULL']
-      const conditionParams: SQLParam[] = [userId]
-
-      if (isArchived) {
-        conditions.push('b.is_archived = 1')
-      } else {
-        conditions.push('b.is_archived = 0')
-      }
-
-      if (isPinned) {
-        conditions.push('b.is_pinned = 1')
-      }
-
-      if (keyword) {
-        conditions.push('(b.title LIKE ? OR b.description LIKE ? OR b.url LIKE ?)')
-        const searchPattern = `%${keyword}%`
-        conditionParams.push(searchPattern, searchPattern, searchPattern)
-      }
-
-      // 游标分页（基于 ID）
-      if (pageCursor) {
-        conditions.push('b.id < ?')
-        conditionParams.push(pageCursor)
-      }
-
-      // 如果有标签筛选，使用标签交集查询
-      let query = `
-        SELECT DISTINCT b.*
-        FROM bookmarks b
-      `
-      let params: SQLParam[] = []
-
-      if (tagIds.length > 0) {
-        query += `
-          INNER JOIN bookmark_tags bt ON b.id = bt.bookmark_id
-          WHERE bt.tag_id IN (${tagIds.map(() => '?').join(',')})
-            AND ${conditions.join(' AND ')}
-          GROUP BY b.id
-          HAVING COUNT(DISTINCT bt.tag_id) = ?
-        `
-        // 参数顺序：tagIds, conditionParams, tagIds.length
-        params = [...tagIds, ...conditionParams, tagIds.length]
-      } else {
-        query += ` WHERE ${conditions.join(' AND ')}`
-        params = conditionParams
-      }
-
-      // 排序（置顶书签按 pin_order 排序）
-      let orderBy = ''
-      switch (sortBy) {
-        case 'updated':
-          orderBy = 'ORDER BY b.is_pinned DESC, CASE WHEN b.is_pinned = 1 THEN b.pin_order ELSE NULL END ASC, b.updated_at DESC, b.id DESC'
-          break
-        case 'pinned':
-          orderBy = 'ORDER BY b.is_pinned DESC, CASE WHEN b.is_pinned = 1 THEN b.pin_order ELSE NULL END ASC, b.created_at DESC, b.id DESC'
-          break
-        case 'popular':
-          orderBy = 'ORDER BY b.is_pinned DESC, CASE WHEN b.is_pinned = 1 THEN b.pin_order ELSE NULL END ASC, b.click_count DESC, b.last_clicked_at DESC, b.id DESC'
-          break
-        case 'created':
-        default:
-          orderBy = 'ORDER BY b.is_pinned DESC, CASE WHEN b.is_pinned = 1 THEN b.pin_order ELSE NULL END ASC, b.created_at DESC, b.id DESC'
-          break
-      }
-
-      query += ` ${orderBy} LIMIT ?`
-      params.push(pageSize + 1) // 多获取一条以判断是否有下一页
-
-      // 执行查询
-      const { results } = await context.env.DB.prepare(query).bind(...params).all<BookmarkRow>()
-
-      // 判断是否有下一页
-      const hasMore = results.length > pageSize
-      const bookmarks = hasMore ? results.slice(0, pageSize) : results
-
-      // 获取下一页游标（最后一条记录的 ID）
-      const nextCursor = hasMore && bookmarks.length > 0 ? String(bookmarks[bookmarks.length - 1].id) : null
-
-      // 优化：使用单次查询获取所有书签的标签
-      const bookmarkIds = bookmarks.map(b => b.id)
-
-      // 一次性获取所有书签的标签
-      let allTags: Array<{ bookmark_id: string; id: string; name: string; color: string | null }> = []
-
-      if (bookmarkIds.length > 0) {
-        const placeholders = bookmarkIds.map(() => '?').join(',')
-        const { results: tagResults } = await context.env.DB.prepare(
-          `SELECT
-             bt.bookmark_id,
-             t.id,
-             t.name,
-             t.color
-           FROM tags t
-           INNER JOIN bookmark_tags bt ON t.id = bt.tag_id
-           WHERE bt.bookmark_id IN (${placeholders})
-             AND t.deleted_at IS NULL
-           ORDER BY bt.bookmark_id, t.name`
-        )
-          .bind(...bookmarkIds)
-          .all<{ bookmark_id: string; id: string; name: string; color: string | null }>()
-
-        allTags = tagResults ?? []
-      }
-
-      // 将标签按书签ID分组
-      const tagsByBookmarkId = new Map<string, Array<{ id: string; name: string; color: string | null }>>()
-      for (const tag of allTags || []) {
-        if (!tagsByBookmarkId.has(tag.bookmark_id)) {
-          tagsByBookmarkId.set(tag.bookmark_id, [])
-        }
-        const tags = tagsByBookmarkId.get(tag.bookmark_id)
-        if (tags) {
-          tags.push({
-            id: tag.id,
-            name: tag.name,
-            color: tag.color,
-          })
-        }
-      }
-
-      // 一次性获取所有书签的快照数量
-      const snapshotCounts = new Map<string, number>()
-      
-      if (bookmarkIds.length > 0) {
-        try {
-          const placeholders = bookmarkIds.map(() => '?').join(',')
-          const { results: countResults } = await context.env.DB.prepare(
-            `SELECT bookmark_id, COUNT(*) as count
-             FROM bookmark_snapshots
-             WHERE bookmark_id IN (${placeholders})
-             GROUP BY bookmark_id`
-          )
-            .bind(...bookmarkIds)
-            .all<{ bookmark_id: string; count: number }>()
-
-          for (const row of countResults || []) {
-            snapshotCounts.set(row.bookmark_id, row.count)
-          }
-        } catch (snapshotError) {
-          // 如果快照表不存在，忽略错误（向后兼容）
-          console.warn('Failed to fetch snapshot counts (table may not exist):', snapshotError)
-        }
-      }
-
-      // 组装书签和标签数据
-      const bookmarksWithTags: BookmarkWithTags[] = bookmarks.map(bookmark => ({
-        ...normalizeBookmark(bookmark),
-        tags: tagsByBookmarkId.get(bookmark.id) || [],
-        snapshot_count: snapshotCounts.get(bookmark.id) || 0,
-      }))
-
-      const responseData = {
-        bookmarks: bookmarksWithTags,
-        meta: {
-          page_size: pageSize,
-          count: bookmarks.length,
-          next_cursor: nextCursor,
-          has_more: hasMore,
-        },
-      }
-
       // 异步写入缓存 (不阻塞响应)
-      await bookmarkCache.setBookmarkList(userId, queryParams, responseData, { async: true })
+      await bookmarkCache.setBookmarkList(userId, queryParams, result.data, { async: true })
 
-      return success(responseData)
+      return success(result.data)
     } catch (error) {
       console.error('Get bookmarks error:', error)
       return internalError('Failed to get bookmarks')
@@ -281,12 +122,9 @@ export const onRequestPost: PagesFunction<Env, RouteParams, AuthContext>[] = [
       let coverImage = body.cover_image ? sanitizeString(body.cover_image, 2000) : null
       const favicon = body.favicon ? sanitizeString(body.favicon, 2000) : null
 
-      // 检查URL是否已存在（包括已删除的）
-      const existing = await context.env.DB.prepare(
-        'SELECT id, deleted_at FROM bookmarks WHERE user_id = ? AND url = ?'
-      )
-        .bind(userId, url)
-        .first<{ id: string; deleted_at: string | null }>()
+      // 检查URL是否已存在（包括已删除的），规范化后相同的未删除书签同样视为已存在
+      const canonicalUrl = canonicalizeUrl(url, getCanonicalUrlRules(context.env))
+      const existing = await findExistingBookmark(context.env.DB, userId, url, canonicalUrl)
 
       const now = new Date().toISOString()
       let bookmarkId: string
@@ -360,13 +198,14 @@ export const onRequestPost: PagesFunction<Env, RouteParams, AuthContext>[] = [
         // 如果是已删除的书签，恢复并更新
         await context.env.DB.prepare(
           `UPDATE bookmarks
-           SET title = ?, description = ?, cover_image = ?, cover_image_id = ?, favicon = ?,
+           SET title = ?, canonical_url = ?, description = ?, cover_image = ?, cover_image_id = ?, favicon = ?,
                is_pinned = ?, is_archived = ?, is_public = ?,
                deleted_at = NULL, updated_at = ?
            WHERE id = ?`
         )
           .bind(
             title,
+            canonicalUrl,
             description,
             coverImage,
             coverImageId,
@@ -389,14 +228,15 @@ export const onRequestPost: PagesFunction<Env, RouteParams, AuthContext>[] = [
         bookmarkId = bookmarkUuid
 
         await context.env.DB.prepare(
-          `INSERT INTO bookmarks (id, user_id, title, url, description, cover_image, cover_image_id, favicon, is_pinned, is_archived, is_public, created_at, updated_at)
-           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+          `INSERT INTO bookmarks (id, user_id, title, url, canonical_url, description, cover_image, cover_image_id, favicon, is_pinned, is_archived, is_public, created_at, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
         )
           .bind(
             bookmarkUuid,
             userId,
             title,
             url,
+            canonicalUrl,
             description,
             coverImage,
             coverImageId,
@@ -425,6 +265,11 @@ export const onRequestPost: PagesFunction<Env, RouteParams, AuthContext>[] = [
         }
       }
 
+      // 加入稍后阅读队列
+      if (body.read_later) {
+        await saveReadingState(context.env.DB, bookmarkId, queuedReadingState(now))
+      }
+
       // 获取完整的书签信息（包含标签）
       const bookmarkRow = await context.env.DB.prepare('SELECT * FROM bookmarks WHERE id = ?')
         .bind(bookmarkId)
@@ -452,12 +297,13 @@ export const onRequestPost: PagesFunction<Env, RouteParams, AuthContext>[] = [
         await invalidatePublicShareCache(context.env, userId)
       }
 
-      return created({
-        bookmark: {
-          ...normalizeBookmark(bookmarkRow),
-          tags: tags || [],
-        },
-      })
+      const bookmark = {
+        ...normalizeBookmark(bookmarkRow),
+        tags: tags || [],
+      }
+      context.waitUntil(dispatchWebhookEvent(context.env, userId, 'bookmark.created', { bookmark }))
+
+      return created({ bookmark })
     } catch (error) {
       console.error('Create bookmark error:', error)
       return internalError('Failed to create bookmark')
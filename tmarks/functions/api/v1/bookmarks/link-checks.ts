@@ -0,0 +1,96 @@
+/**
+ * 链接检测 API
+ * 路径: /api/v1/bookmarks/link-checks
+ * 认证: JWT Token
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env } from '../../../lib/types'
+import { success, internalError } from '../../../lib/response'
+import { requireAuth, AuthContext } from '../../../middleware/auth'
+import { CacheService } from '../../../lib/cache'
+import { createBookmarkCacheManager } from '../../../lib/cache/bookmark-cache'
+import { runLinkChecks, type LinkCheckStatus } from '../../../lib/link-checker'
+
+/** 手动检测每次最多处理的书签数，完整检测由定时任务完成 */
+const MANUAL_CHECK_BATCH_SIZE = 10
+
+interface LinkCheckSummary {
+  counts: Record<LinkCheckStatus, number>
+  unchecked: number
+  last_checked_at: string | null
+}
+
+async function getLinkCheckSummary(db: D1Database, userId: string): Promise<LinkCheckSummary> {
+  const { results } = await db
+    .prepare(
+      `SELECT c.status, COUNT(*) AS count, MAX(c.checked_at) AS last_checked_at
+       FROM bookmarks b
+       INNER JOIN bookmark_link_checks c ON c.bookmark_id = b.id AND c.checked_url = b.url
+       WHERE b.user_id = ? AND b.deleted_at IS NULL
+       GROUP BY c.status`
+    )
+    .bind(userId)
+    .all<{ status: LinkCheckStatus; count: number; last_checked_at: string }>()
+
+  const total = await db
+    .prepare('SELECT COUNT(*) AS count FROM bookmarks WHERE user_id = ? AND deleted_at IS NULL')
+    .bind(userId)
+    .first<{ count: number }>()
+
+  const counts: Record<LinkCheckStatus, number> = { ok: 0, redirected: 0, broken: 0, error: 0 }
+  let checked = 0
+  let lastCheckedAt: string | null = null
+  for (const row of results || []) {
+    counts[row.status] = row.count
+    checked += row.count
+    if (!lastCheckedAt || row.last_checked_at > lastCheckedAt) {
+      lastCheckedAt = row.last_checked_at
+    }
+  }
+
+  return {
+    counts,
+    unchecked: Math.max((total?.count ?? 0) - checked, 0),
+    last_checked_at: lastCheckedAt,
+  }
+}
+
+// GET /api/v1/bookmarks/link-checks - 获取链接检测汇总
+export const onRequestGet: PagesFunction<Env, string, AuthContext>[] = [
+  requireAuth,
+  async (context) => {
+    try {
+      const summary = await getLinkCheckSummary(context.env.DB, context.data.user_id)
+      return success(summary)
+    } catch (error) {
+      console.error('Get link check summary error:', error)
+      return internalError('Failed to get link check summary')
+    }
+  },
+]
+
+// POST /api/v1/bookmarks/link-checks - 立即检测一小批待检测的书签
+export const onRequestPost: PagesFunction<Env, string, AuthContext>[] = [
+  requireAuth,
+  async (context) => {
+    try {
+      const userId = context.data.user_id
+      const result = await runLinkChecks(context.env.DB, {
+        userId,
+        batchSize: MANUAL_CHECK_BATCH_SIZE,
+      })
+
+      if (result.changed_user_ids.length > 0) {
+        const bookmarkCache = createBookmarkCacheManager(new CacheService(context.env))
+        await bookmarkCache.invalidateUserBookmarks(userId)
+      }
+
+      const summary = await getLinkCheckSummary(context.env.DB, userId)
+      return success({ checked: result.checked, ...summary })
+    } catch (error) {
+      console.error('Run link checks error:', error)
+      return internalError('Failed to run link checks')
+    }
+  },
+]
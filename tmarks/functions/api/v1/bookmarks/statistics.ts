@@ -119,6 +119,23 @@ export const onRequestGet: PagesFunction<Env, string, AuthContext>[] = [
           break
       }
 
+      // 点击来源：原始点击事件 + 维护任务汇总的每日点击数（bookmark_click_daily，day 即点击日期）
+      const dateParams = [startDate, endDate].filter(Boolean)
+      const clickSource = `(
+            SELECT bookmark_id, clicked_at, 1 AS clicks
+            FROM bookmark_click_events
+            WHERE user_id = ?
+              ${startDate ? `AND DATE(clicked_at) >= ?` : ''}
+              ${endDate ? `AND DATE(clicked_at) <= ?` : ''}
+            UNION ALL
+            SELECT bookmark_id, day AS clicked_at, click_count AS clicks
+            FROM bookmark_click_daily
+            WHERE user_id = ?
+              ${startDate ? `AND day >= ?` : ''}
+              ${endDate ? `AND day <= ?` : ''}
+          )`
+      const clickSourceParams = [userId, ...dateParams, userId, ...dateParams]
+
       // 🚀 并行执行所有查询 - 性能优化
       const [
         summary,
@@ -227,19 +244,16 @@ export const onRequestGet: PagesFunction<Env, string, AuthContext>[] = [
           .bind(userId, ...[startDate, endDate].filter(Boolean))
           .all(),
 
-        // 8. 点击趋势（基于 bookmark_click_events）
+        // 8. 点击趋势（基于 bookmark_click_events 及每日汇总）
         db.prepare(
           `SELECT
             ${clickDateSelect},
-            COUNT(*) as count
-          FROM bookmark_click_events
-          WHERE user_id = ?
-            ${startDate ? `AND DATE(clicked_at) >= ?` : ''}
-            ${endDate ? `AND DATE(clicked_at) <= ?` : ''}
+            SUM(clicks) as count
+          FROM ${clickSource}
           GROUP BY ${clickDateGroupBy}
           ORDER BY date ASC`
         )
-          .bind(userId, ...[startDate, endDate].filter(Boolean))
+          .bind(...clickSourceParams)
           .all(),
 
         // 9. 当前时间范围内每个书签的点击次数
@@ -248,16 +262,14 @@ export const onRequestGet: PagesFunction<Env, string, AuthContext>[] = [
             b.id,
             b.title,
             b.url,
-            COUNT(e.id) as click_count
-          FROM bookmark_click_events e
+            SUM(e.clicks) as click_count
+          FROM ${clickSource} e
           JOIN bookmarks b ON e.bookmark_id = b.id
-          WHERE e.user_id = ? AND b.deleted_at IS NULL
-            ${startDate ? `AND DATE(e.clicked_at) >= ?` : ''}
-            ${endDate ? `AND DATE(e.clicked_at) <= ?` : ''}
+          WHERE b.deleted_at IS NULL
           GROUP BY b.id, b.title, b.url
           ORDER BY click_count DESC`
         )
-          .bind(userId, ...[startDate, endDate].filter(Boolean))
+          .bind(...clickSourceParams)
           .all()
       ])
 
@@ -0,0 +1,127 @@
+/**
+ * 单个智能集合 API
+ * 路径: /api/v1/collections/:id
+ * 认证: JWT Token (Bearer)
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env } from '../../../lib/types'
+import { success, badRequest, notFound, conflict, noContent, internalError } from '../../../lib/response'
+import { requireAuth, AuthContext } from '../../../middleware/auth'
+import { sanitizeString } from '../../../lib/validation'
+import { COLLECTION_NAME_MAX_LENGTH, getCollection, validateCollectionFilters } from '../../../lib/collections'
+
+interface UpdateCollectionRequest {
+  name?: string
+  filters?: unknown
+  position?: number
+}
+
+// GET /api/v1/collections/:id - 获取智能集合
+export const onRequestGet: PagesFunction<Env, 'id', AuthContext>[] = [
+  requireAuth,
+  async (context) => {
+    try {
+      const collection = await getCollection(context.env.DB, context.data.user_id, context.params.id as string)
+      if (!collection) {
+        return notFound('Collection not found')
+      }
+      return success({ collection })
+    } catch (error) {
+      console.error('Get collection error:', error)
+      return internalError('Failed to get collection')
+    }
+  },
+]
+
+// PATCH /api/v1/collections/:id - 重命名、更新筛选条件或调整顺序
+export const onRequestPatch: PagesFunction<Env, 'id', AuthContext>[] = [
+  requireAuth,
+  async (context) => {
+    try {
+      const userId = context.data.user_id
+      const collectionId = context.params.id as string
+      const body = await context.request.json() as UpdateCollectionRequest
+
+      const collection = await getCollection(context.env.DB, userId, collectionId)
+      if (!collection) {
+        return notFound('Collection not found')
+      }
+
+      if (body.name !== undefined) {
+        const name = sanitizeString(body.name, COLLECTION_NAME_MAX_LENGTH)
+        if (!name) {
+          return badRequest('Collection name is required')
+        }
+
+        const duplicate = await context.env.DB.prepare(
+          'SELECT id FROM bookmark_collections WHERE user_id = ? AND name = ? AND id != ?'
+        )
+          .bind(userId, name, collectionId)
+          .first()
+
+        if (duplicate) {
+          return conflict('A collection with this name already exists', 'COLLECTION_NAME_EXISTS')
+        }
+        collection.name = name
+      }
+
+      if (body.filters !== undefined) {
+        const validation = validateCollectionFilters(body.filters)
+        if (!validation.success) {
+          return badRequest(validation.message, validation.code)
+        }
+        collection.filters = validation.filters
+      }
+
+      if (body.position !== undefined) {
+        if (!Number.isInteger(body.position) || body.position < 0) {
+          return badRequest('Invalid position')
+        }
+        collection.position = body.position
+      }
+
+      collection.updated_at = new Date().toISOString()
+
+      await context.env.DB.prepare(
+        `UPDATE bookmark_collections
+         SET name = ?, filters = ?, position = ?, updated_at = ?
+         WHERE id = ? AND user_id = ?`
+      )
+        .bind(
+          collection.name,
+          JSON.stringify(collection.filters),
+          collection.position,
+          collection.updated_at,
+          collectionId,
+          userId
+        )
+        .run()
+
+      return success({ collection })
+    } catch (error) {
+      console.error('Update collection error:', error)
+      return internalError('Failed to update collection')
+    }
+  },
+]
+
+// DELETE /api/v1/collections/:id - 删除智能集合（不影响书签）
+export const onRequestDelete: PagesFunction<Env, 'id', AuthContext>[] = [
+  requireAuth,
+  async (context) => {
+    try {
+      const result = await context.env.DB.prepare('DELETE FROM bookmark_collections WHERE id = ? AND user_id = ?')
+        .bind(context.params.id as string, context.data.user_id)
+        .run()
+
+      if (!result.meta.changes) {
+        return notFound('Collection not found')
+      }
+      return noContent()
+    } catch (error) {
+      console.error('Delete collection error:', error)
+      return internalError('Failed to delete collection')
+    }
+  },
+]
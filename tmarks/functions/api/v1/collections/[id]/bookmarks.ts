@@ -0,0 +1,46 @@
+/**
+ * 智能集合书签 API
+ * 路径: /api/v1/collections/:id/bookmarks
+ * 认证: JWT Token (Bearer)
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env } from '../../../../lib/types'
+import { success, badRequest, notFound, internalError } from '../../../../lib/response'
+import { requireAuth, AuthContext } from '../../../../middleware/auth'
+import { filterRateLimiter } from '../../../../lib/rate-limit'
+import { getCollection } from '../../../../lib/collections'
+import { listBookmarks } from '../../../../lib/bookmark-query'
+
+// GET /api/v1/collections/:id/bookmarks - 按集合的筛选条件重新查询书签
+export const onRequestGet: PagesFunction<Env, 'id', AuthContext>[] = [
+  requireAuth,
+  filterRateLimiter,
+  async (context) => {
+    try {
+      const userId = context.data.user_id
+      const url = new URL(context.request.url)
+      const pageSize = Math.min(parseInt(url.searchParams.get('page_size') || '30'), 100)
+      const pageCursor = url.searchParams.get('page_cursor') || ''
+
+      const collection = await getCollection(context.env.DB, userId, context.params.id as string)
+      if (!collection) {
+        return notFound('Collection not found')
+      }
+
+      const result = await listBookmarks(context.env.DB, userId, collection.filters, { pageSize, pageCursor })
+      if (!result.success) {
+        return badRequest({
+          code: result.code,
+          message: result.message,
+          details: result.details,
+        })
+      }
+
+      return success({ collection, ...result.data })
+    } catch (error) {
+      console.error('Get collection bookmarks error:', error)
+      return internalError('Failed to get collection bookmarks')
+    }
+  },
+]
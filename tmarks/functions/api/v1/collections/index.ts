@@ -0,0 +1,106 @@
+/**
+ * 智能集合 API
+ * 路径: /api/v1/collections
+ * 认证: JWT Token (Bearer)
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env } from '../../../lib/types'
+import { success, created, badRequest, conflict, internalError } from '../../../lib/response'
+import { requireAuth, AuthContext } from '../../../middleware/auth'
+import { sanitizeString } from '../../../lib/validation'
+import { generateUUID } from '../../../lib/crypto'
+import {
+  COLLECTION_NAME_MAX_LENGTH,
+  MAX_COLLECTIONS_PER_USER,
+  listCollections,
+  validateCollectionFilters,
+} from '../../../lib/collections'
+import type { SmartCollection } from '../../../lib/collections'
+
+interface CreateCollectionRequest {
+  name?: string
+  filters?: unknown
+}
+
+// GET /api/v1/collections - 获取智能集合列表
+export const onRequestGet: PagesFunction<Env, string, AuthContext>[] = [
+  requireAuth,
+  async (context) => {
+    try {
+      const collections = await listCollections(context.env.DB, context.data.user_id)
+      return success({ collections })
+    } catch (error) {
+      console.error('Get collections error:', error)
+      return internalError('Failed to get collections')
+    }
+  },
+]
+
+// POST /api/v1/collections - 保存当前筛选条件为智能集合
+export const onRequestPost: PagesFunction<Env, string, AuthContext>[] = [
+  requireAuth,
+  async (context) => {
+    try {
+      const userId = context.data.user_id
+      const body = await context.request.json() as CreateCollectionRequest
+
+      const name = body.name ? sanitizeString(body.name, COLLECTION_NAME_MAX_LENGTH) : ''
+      if (!name) {
+        return badRequest('Collection name is required')
+      }
+
+      const validation = validateCollectionFilters(body.filters)
+      if (!validation.success) {
+        return badRequest(validation.message, validation.code)
+      }
+
+      const stats = await context.env.DB.prepare(
+        `SELECT COUNT(*) AS count, COALESCE(MAX(position), -1) AS max_position,
+                SUM(CASE WHEN name = ? THEN 1 ELSE 0 END) AS same_name
+         FROM bookmark_collections
+         WHERE user_id = ?`
+      )
+        .bind(name, userId)
+        .first<{ count: number; max_position: number; same_name: number | null }>()
+
+      if (stats && stats.same_name) {
+        return conflict('A collection with this name already exists', 'COLLECTION_NAME_EXISTS')
+      }
+
+      if (stats && stats.count >= MAX_COLLECTIONS_PER_USER) {
+        return badRequest(`Cannot create more than ${MAX_COLLECTIONS_PER_USER} collections`, 'TOO_MANY_COLLECTIONS')
+      }
+
+      const now = new Date().toISOString()
+      const collection: SmartCollection = {
+        id: generateUUID(),
+        name,
+        filters: validation.filters,
+        position: (stats?.max_position ?? -1) + 1,
+        created_at: now,
+        updated_at: now,
+      }
+
+      await context.env.DB.prepare(
+        `INSERT INTO bookmark_collections (id, user_id, name, filters, position, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+      )
+        .bind(
+          collection.id,
+          userId,
+          collection.name,
+          JSON.stringify(collection.filters),
+          collection.position,
+          collection.created_at,
+          collection.updated_at
+        )
+        .run()
+
+      return created({ collection })
+    } catch (error) {
+      console.error('Create collection error:', error)
+      return internalError('Failed to create collection')
+    }
+  },
+]
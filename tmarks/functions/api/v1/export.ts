@@ -11,6 +11,7 @@ import type {
   TMarksExportData,
   ExportOptions,
   ExportBookmark,
+  ExportBookmarkNote,
   ExportTag,
   ExportUser,
   ExportTabGroup,
@@ -20,6 +21,8 @@ import type {
 import { createJsonExporter } from '../../lib/import-export/exporters/json-exporter'
 import { createHtmlExporter } from '../../lib/import-export/exporters/html-exporter'
 import { EXPORT_VERSION } from '../../../shared/import-export-types'
+import { parseNoteRow } from '../../lib/bookmark-notes'
+import type { BookmarkNoteRow } from '../../lib/bookmark-notes'
 
 interface ExportRequest {
   format?: ExportFormat
@@ -168,6 +171,31 @@ async function collectUserData(db: D1Database, userId: string): Promise<TMarksEx
       bookmarkTagMap.get(bookmarkId)!.push(tagName)
     })
 
+    // 获取书签笔记与高亮摘录
+    const { results: notes } = await db.prepare(`
+      SELECT id, bookmark_id, kind, content, quote, selector, color, created_at, updated_at
+      FROM bookmark_notes
+      WHERE user_id = ?
+      ORDER BY created_at ASC
+    `).bind(userId).all<BookmarkNoteRow>()
+
+    const bookmarkNoteMap = new Map<string, ExportBookmarkNote[]>()
+    notes?.forEach((row) => {
+      const note = parseNoteRow(row)
+      if (!bookmarkNoteMap.has(note.bookmark_id)) {
+        bookmarkNoteMap.set(note.bookmark_id, [])
+      }
+      bookmarkNoteMap.get(note.bookmark_id)!.push({
+        kind: note.kind,
+        content: note.content,
+        quote: note.quote ?? undefined,
+        selector: note.selector ?? undefined,
+        color: note.color ?? undefined,
+        created_at: note.created_at,
+        updated_at: note.updated_at
+      })
+    })
+
     // 构建导出数据
     const exportBookmarks: ExportBookmark[] = (bookmarks || []).map((bookmark: Record<string, unknown>) => ({
       id: bookmark.id,
@@ -180,7 +208,8 @@ async function collectUserData(db: D1Database, userId: string): Promise<TMarksEx
       created_at: bookmark.created_at,
       updated_at: bookmark.updated_at,
       click_count: bookmark.click_count || 0,
-      last_clicked_at: bookmark.last_clicked_at
+      last_clicked_at: bookmark.last_clicked_at,
+      notes: bookmarkNoteMap.get(String(bookmark.id))
     }))
 
     const exportTags: ExportTag[] = (tags || []).map((tag: Record<string, unknown>) => ({
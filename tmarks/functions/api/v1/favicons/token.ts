@@ -0,0 +1,24 @@
+/**
+ * 站点图标签名 API
+ * 路径: /api/v1/favicons/token
+ * 认证: JWT Token (Bearer)
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env } from '../../../lib/types'
+import { success, internalError } from '../../../lib/response'
+import { requireAuth, AuthContext } from '../../../middleware/auth'
+import { createFaviconSignature } from '../../../lib/favicon'
+
+// GET /api/v1/favicons/token - 获取图标地址签名，带签名的 /api/favicons/:domain 请求才会解析并缓存新域名
+export const onRequestGet: PagesFunction<Env, string, AuthContext>[] = [
+  requireAuth,
+  async (context) => {
+    try {
+      return success(await createFaviconSignature(context.data.user_id, context.env.JWT_SECRET))
+    } catch (error) {
+      console.error('Create favicon signature error:', error)
+      return internalError('Failed to create favicon signature')
+    }
+  },
+]
@@ -16,9 +16,19 @@ import type {
   ParsedTabGroup
 } from '../../../shared/import-export-types'
 
-import { createHtmlParser } from '../../lib/import-export/parsers/html-parser'
+import { createHtmlParser, mapFoldersToTagTree } from '../../lib/import-export/parsers/html-parser'
 import { createJsonParser } from '../../lib/import-export/parsers/json-parser'
 import { DEFAULT_IMPORT_OPTIONS } from '../../../shared/import-export-types'
+import {
+  canonicalizeUrl,
+  findExistingBookmark,
+  getCanonicalUrlRules,
+  type CanonicalUrlRules
+} from '../../lib/canonical-url'
+import { backfillBookmarkMetadata } from '../../lib/unfurl'
+import { dispatchWebhookEventBatch } from '../../lib/webhooks'
+import { CacheService } from '../../lib/cache'
+import { createBookmarkCacheManager } from '../../lib/cache/bookmark-cache'
 
 interface ImportRequest {
   format: ImportFormat
@@ -29,6 +39,7 @@ interface ImportRequest {
 // 配置常量
 const MAX_IMPORT_SIZE = 10 * 1024 * 1024 // 10MB
 const IMPORT_TIMEOUT = 5 * 60 * 1000 // 5分钟
+const WEBHOOK_LOOKUP_CHUNK_SIZE = 90 // D1 单条语句最多 100 个参数
 
 export const onRequestPost: PagesFunction<Env, RouteParams, AuthContext>[] = [
   requireAuth,
@@ -62,7 +73,7 @@ export const onRequestPost: PagesFunction<Env, RouteParams, AuthContext>[] = [
       const options: ImportOptions = { ...DEFAULT_IMPORT_OPTIONS, ...userOptions }
 
       // 解析导入数据
-      const importData = await parseImportData(format, content)
+      let importData = await parseImportData(format, content)
 
       // 验证数据
       const validation = await validateImportData(format, importData)
@@ -77,16 +88,41 @@ export const onRequestPost: PagesFunction<Env, RouteParams, AuthContext>[] = [
         )
       }
 
+      // 文件夹路径映射为层级标签
+      if (format === 'html' && options.folder_as_tag && options.folder_as_tag_tree) {
+        importData = mapFoldersToTagTree(importData)
+      }
+
       // 执行导入（带超时保护）
       const timeoutPromise = new Promise<never>((_, reject) => {
         setTimeout(() => reject(new Error('Import timeout - operation took too long')), IMPORT_TIMEOUT)
       })
 
       const result = await Promise.race([
-        performImport(context.env.DB, userId, importData, options),
+        performImport(context.env.DB, userId, importData, options, getCanonicalUrlRules(context.env)),
         timeoutPromise
       ])
 
+      if (result.created_bookmarks.length > 0) {
+        context.waitUntil(
+          dispatchImportedWebhooks(context.env, userId, result.created_bookmarks)
+            .catch((error) => console.error('Failed to dispatch imported bookmark webhooks:', error))
+        )
+      }
+
+      // 后台为缺少标题或图标的书签补全元数据（不阻塞导入响应）
+      if (options.backfill_metadata && result.created_bookmarks.length > 0) {
+        context.waitUntil(
+          backfillBookmarkMetadata(context.env, userId, result.created_bookmarks)
+            .then(async (updated) => {
+              if (updated > 0) {
+                await createBookmarkCacheManager(new CacheService(context.env)).invalidateUserBookmarks(userId)
+              }
+            })
+            .catch((error) => console.error('Failed to backfill imported bookmark metadata:', error))
+        )
+      }
+
       return new Response(
         JSON.stringify(result),
         { status: 200, headers: { 'Content-Type': 'application/json' } }
@@ -108,6 +144,28 @@ export const onRequestPost: PagesFunction<Env, RouteParams, AuthContext>[] = [
 /**
  * 解析导入数据
  */
+/**
+ * 为导入创建的书签触发 bookmark.created Webhook（分批投递）
+ */
+async function dispatchImportedWebhooks(env: Env, userId: string, bookmarkIds: string[]) {
+  const bookmarks: Array<{ id: string; title: string; url: string; created_at: string }> = []
+  for (let i = 0; i < bookmarkIds.length; i += WEBHOOK_LOOKUP_CHUNK_SIZE) {
+    const ids = bookmarkIds.slice(i, i + WEBHOOK_LOOKUP_CHUNK_SIZE)
+    const { results } = await env.DB.prepare(
+      `SELECT id, title, url, created_at FROM bookmarks
+       WHERE id IN (${ids.map(() => '?').join(',')}) AND user_id = ?`
+    )
+      .bind(...ids, userId)
+      .all<{ id: string; title: string; url: string; created_at: string }>()
+    bookmarks.push(...(results || []))
+  }
+
+  await dispatchWebhookEventBatch(env, userId, 'bookmark.created', bookmarks, (chunk) => ({
+    bookmarks: chunk,
+    source: 'import',
+  }))
+}
+
 async function parseImportData(format: ImportFormat, content: string) {
   switch (format) {
     case 'html': {
@@ -154,7 +212,8 @@ async function performImport(
   db: D1Database, 
   userId: string, 
   importData: ImportData, 
-  options: ImportOptions
+  options: ImportOptions,
+  canonicalRules: CanonicalUrlRules
 ): Promise<ImportResult> {
   const result: ImportResult = {
     success: 0,
@@ -184,7 +243,7 @@ async function performImport(
     const batches = chunkArray(importData.bookmarks, options.batch_size)
     
     for (const batch of batches) {
-      await processBatch(db, userId, batch, existingUrls, result, options)
+      await processBatch(db, userId, batch, existingUrls, result, options, canonicalRules)
     }
 
     // 4. 导入标签页组
@@ -217,9 +276,17 @@ async function createTags(
 
   const existingTagNames = new Set((existingTags || []).map((tag: Record<string, unknown>) => String(tag.name)))
 
+  // 命中别名的标签在关联书签时映射到已有标签，无需创建
+  const { resolveTagAliases } = await import('../../lib/tags')
+  const aliasMap = await resolveTagAliases(
+    db,
+    userId,
+    tags.map(tag => tag.name).filter(name => !existingTagNames.has(name))
+  )
+
   // 创建新标签
   for (const tag of tags) {
-    if (!existingTagNames.has(tag.name)) {
+    if (!existingTagNames.has(tag.name) && !aliasMap.has(tag.name.toLowerCase())) {
       try {
         const tagId = crypto.randomUUID()
         await db.prepare(`
@@ -260,7 +327,8 @@ async function processBatch(
   bookmarks: ParsedBookmark[],
   existingUrls: Set<string>,
   result: ImportResult,
-  options: ImportOptions
+  options: ImportOptions,
+  canonicalRules: CanonicalUrlRules
 ) {
   for (let i = 0; i < bookmarks.length; i++) {
     const bookmark = bookmarks[i]
@@ -273,7 +341,7 @@ async function processBatch(
       // }
 
       // 创建书签
-      const bookmarkId = await createBookmark(db, userId, bookmark, options)
+      const bookmarkId = await createBookmark(db, userId, bookmark, options, canonicalRules)
 
       if (bookmarkId) {
         result.created_bookmarks.push(bookmarkId)
@@ -311,15 +379,13 @@ async function createBookmark(
   db: D1Database,
   userId: string,
   bookmark: ParsedBookmark,
-  options: ImportOptions
+  options: ImportOptions,
+  canonicalRules: CanonicalUrlRules
 ): Promise<string | null> {
   try {
-    // 检查URL是否已存在（包括已删除的）
-    const existing = await db.prepare(
-      'SELECT id, deleted_at FROM bookmarks WHERE user_id = ? AND url = ?'
-    )
-      .bind(userId, bookmark.url)
-      .first<{ id: string; deleted_at: string | null }>()
+    // 检查URL是否已存在（包括已删除的），规范化后相同的未删除书签同样视为重复
+    const canonicalUrl = canonicalizeUrl(bookmark.url, canonicalRules)
+    const existing = await findExistingBookmark(db, userId, bookmark.url, canonicalUrl)
 
     const now = new Date().toISOString()
     const createdAt = options.preserve_timestamps && bookmark.created_at
@@ -340,13 +406,14 @@ async function createBookmark(
       // 恢复已删除的书签
       await db.prepare(
         `UPDATE bookmarks
-         SET title = ?, description = ?, cover_image = ?,
+         SET title = ?, canonical_url = ?, description = ?, cover_image = ?,
              is_archived = 0,
              deleted_at = NULL, updated_at = ?
          WHERE id = ?`
       )
         .bind(
           bookmark.title,
+          canonicalUrl,
           bookmark.description || null,
           bookmark.cover_image || null,
           now,
@@ -361,14 +428,15 @@ async function createBookmark(
 
       await db.prepare(`
         INSERT INTO bookmarks (
-          id, user_id, title, url, description, cover_image,
+          id, user_id, title, url, canonical_url, description, cover_image,
           is_pinned, is_archived, created_at, updated_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `).bind(
         bookmarkId,
         userId,
         bookmark.title,
         bookmark.url,
+        canonicalUrl,
         bookmark.description || null,
         bookmark.cover_image || null,
         false, // 导入的书签默认不置顶
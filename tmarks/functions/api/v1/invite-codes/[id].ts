@@ -0,0 +1,40 @@
+/**
+ * 单个邀请码 API
+ * 路径: /api/v1/invite-codes/:id
+ * 认证: JWT Token (Bearer)
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env } from '../../../lib/types'
+import { success, notFound, internalError } from '../../../lib/response'
+import { requireAuth, AuthContext } from '../../../middleware/auth'
+import { getInviteCode, revokeInviteCode } from '../../../lib/invite-codes'
+import { recordAuditEvent } from '../../../lib/audit-log'
+
+// DELETE /api/v1/invite-codes/:id - 撤销自己创建的邀请码
+export const onRequestDelete: PagesFunction<Env, 'id', AuthContext>[] = [
+  requireAuth,
+  async (context) => {
+    const userId = context.data.user_id
+    const inviteCodeId = context.params.id as string
+
+    try {
+      const existing = await getInviteCode(context.env.DB, inviteCodeId)
+      if (!existing || existing.created_by !== userId) {
+        return notFound('Invite code not found')
+      }
+
+      if (await revokeInviteCode(context.env.DB, inviteCodeId)) {
+        await recordAuditEvent(context.env.DB, context.request, userId, 'invite_code.revoked', {
+          invite_code_id: inviteCodeId,
+        })
+      }
+
+      const inviteCode = await getInviteCode(context.env.DB, inviteCodeId)
+      return success({ invite_code: inviteCode })
+    } catch (error) {
+      console.error('Revoke invite code error:', error)
+      return internalError('Failed to revoke invite code')
+    }
+  },
+]
@@ -0,0 +1,89 @@
+/**
+ * 我的邀请码 API
+ * 路径: /api/v1/invite-codes
+ * 认证: JWT Token (Bearer)
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env } from '../../../lib/types'
+import { success, created, badRequest, forbidden, internalError } from '../../../lib/response'
+import { requireAuth, AuthContext } from '../../../middleware/auth'
+import {
+  listInviteCodes,
+  createUserInviteCode,
+  validateCreateInviteCode,
+  getUserInviteQuota,
+  countUserInviteCodes,
+} from '../../../lib/invite-codes'
+import { recordAuditEvent } from '../../../lib/audit-log'
+
+// GET /api/v1/invite-codes - 获取自己创建的邀请码和配额
+export const onRequestGet: PagesFunction<Env, string, AuthContext>[] = [
+  requireAuth,
+  async (context) => {
+    const userId = context.data.user_id
+
+    try {
+      const [inviteCodes, limit, used] = await Promise.all([
+        listInviteCodes(context.env.DB, userId),
+        getUserInviteQuota(context.env.DB),
+        countUserInviteCodes(context.env.DB, userId),
+      ])
+
+      return success({
+        invite_codes: inviteCodes,
+        quota: { used, limit },
+      })
+    } catch (error) {
+      console.error('List my invite codes error:', error)
+      return internalError('Failed to list invite codes')
+    }
+  },
+]
+
+// POST /api/v1/invite-codes - 在配额内创建单次使用的邀请码 { expires_in_days?, note? }
+export const onRequestPost: PagesFunction<Env, string, AuthContext>[] = [
+  requireAuth,
+  async (context) => {
+    const userId = context.data.user_id
+
+    let body: unknown
+    try {
+      body = await context.request.json()
+    } catch {
+      return badRequest('Invalid JSON body')
+    }
+
+    const validation = validateCreateInviteCode(body, { isAdmin: false })
+    if (!validation.valid) {
+      return badRequest(validation.error)
+    }
+
+    try {
+      const limit = await getUserInviteQuota(context.env.DB)
+      const inviteCode = limit > 0 ? await createUserInviteCode(context.env.DB, userId, validation.input, limit) : null
+
+      if (!inviteCode) {
+        return forbidden({
+          code: 'INVITE_QUOTA_EXCEEDED',
+          message: limit > 0 ? `You can create at most ${limit} invite codes` : 'Invite codes are not enabled for users',
+        })
+      }
+
+      const used = await countUserInviteCodes(context.env.DB, userId)
+      await recordAuditEvent(context.env.DB, context.request, userId, 'invite_code.created', {
+        invite_code_id: inviteCode.id,
+        max_uses: inviteCode.max_uses,
+        expires_at: inviteCode.expires_at,
+      })
+
+      return created({
+        invite_code: inviteCode,
+        quota: { used, limit },
+      })
+    } catch (error) {
+      console.error('Create invite code error:', error)
+      return internalError('Failed to create invite code')
+    }
+  },
+]
@@ -2,6 +2,7 @@ import type { PagesFunction } from '@cloudflare/workers-types'
 import type { Env, RouteParams, SQLParam } from '../../lib/types'
 import { success, badRequest, notFound, internalError } from '../../lib/response'
 import { requireAuth, AuthContext } from '../../middleware/auth'
+import { TRASH_RETENTION_DEFAULT_DAYS } from '../../lib/maintenance'
 
 interface UserPreferences {
   user_id: string
@@ -20,6 +21,7 @@ interface UserPreferences {
   snapshot_auto_create?: number
   snapshot_auto_dedupe?: number
   snapshot_auto_cleanup_days?: number
+  trash_retention_days?: number
   updated_at: string
 }
 
@@ -39,6 +41,7 @@ interface UpdatePreferencesRequest {
   snapshot_auto_create?: boolean
   snapshot_auto_dedupe?: boolean
   snapshot_auto_cleanup_days?: number
+  trash_retention_days?: number
 }
 
 async function hasTagLayoutColumn(db: D1Database): Promise<boolean> {
@@ -84,6 +87,19 @@ async function hasAutomationColumns(db: D1Database): Promise<boolean> {
   }
 }
 
+// 回收站自动清理天数字段在维护任务迁移中加入
+async function hasTrashRetentionColumn(db: D1Database): Promise<boolean> {
+  try {
+    await db.prepare('SELECT trash_retention_days FROM user_preferences LIMIT 1').first()
+    return true
+  } catch (error) {
+    if (error instanceof Error && /no such column: trash_retention_days/i.test(error.message)) {
+      return false
+    }
+    throw error
+  }
+}
+
 // GET /api/v1/preferences - 获取用户偏好
 export const onRequestGet: PagesFunction<Env, RouteParams, AuthContext>[] = [
   requireAuth,
@@ -118,6 +134,7 @@ export const onRequestGet: PagesFunction<Env, RouteParams, AuthContext>[] = [
           snapshot_auto_create: preferences.snapshot_auto_create === 1,
           snapshot_auto_dedupe: preferences.snapshot_auto_dedupe === 1,
           snapshot_auto_cleanup_days: preferences.snapshot_auto_cleanup_days ?? 0,
+          trash_retention_days: preferences.trash_retention_days ?? TRASH_RETENTION_DEFAULT_DAYS,
           updated_at: preferences.updated_at,
         },
       })
@@ -138,6 +155,7 @@ export const onRequestPatch: PagesFunction<Env, RouteParams, AuthContext>[] = [
       const tagLayoutSupported = await hasTagLayoutColumn(context.env.DB)
       const sortBySupported = await hasSortByColumn(context.env.DB)
       const automationSupported = await hasAutomationColumns(context.env.DB)
+      const trashRetentionSupported = await hasTrashRetentionColumn(context.env.DB)
 
       // 验证输入
       if (body.theme && !['light', 'dark', 'system'].includes(body.theme)) {
@@ -190,6 +208,10 @@ export const onRequestPatch: PagesFunction<Env, RouteParams, AuthContext>[] = [
         return badRequest('Snapshot auto cleanup days must be between 0 and 365')
       }
 
+      if (body.trash_retention_days !== undefined && (!Number.isInteger(body.trash_retention_days) || body.trash_retention_days < 0 || body.trash_retention_days > 365)) {
+        return badRequest('Trash retention days must be an integer between 0 and 365')
+      }
+
       // 确保当前用户在 user_preferences 表中有一条记录；
       // 如果不存在，则插入一条使用表定义默认值的记录，避免 UPDATE 影响 0 行。
       await context.env.DB.prepare(
@@ -283,9 +305,15 @@ export const onRequestPatch: PagesFunction<Env, RouteParams, AuthContext>[] = [
         }
       }
 
+      if (body.trash_retention_days !== undefined && trashRetentionSupported) {
+        updates.push('trash_retention_days = ?')
+        values.push(body.trash_retention_days)
+      }
+
       if (updates.length === 0) {
         if ((body.tag_layout !== undefined && !tagLayoutSupported) ||
-            (body.sort_by !== undefined && !sortBySupported)) {
+            (body.sort_by !== undefined && !sortBySupported) ||
+            (body.trash_retention_days !== undefined && !trashRetentionSupported)) {
           const preferences = await context.env.DB.prepare(
             'SELECT * FROM user_preferences WHERE user_id = ?'
           )
@@ -313,6 +341,7 @@ export const onRequestPatch: PagesFunction<Env, RouteParams, AuthContext>[] = [
               snapshot_auto_create: preferences.snapshot_auto_create === 1,
               snapshot_auto_dedupe: preferences.snapshot_auto_dedupe === 1,
               snapshot_auto_cleanup_days: preferences.snapshot_auto_cleanup_days ?? 0,
+              trash_retention_days: preferences.trash_retention_days ?? TRASH_RETENTION_DEFAULT_DAYS,
               updated_at: preferences.updated_at,
             },
           })
@@ -362,6 +391,7 @@ export const onRequestPatch: PagesFunction<Env, RouteParams, AuthContext>[] = [
           snapshot_auto_create: preferences.snapshot_auto_create === 1,
           snapshot_auto_dedupe: preferences.snapshot_auto_dedupe === 1,
           snapshot_auto_cleanup_days: preferences.snapshot_auto_cleanup_days ?? 0,
+          trash_retention_days: preferences.trash_retention_days ?? TRASH_RETENTION_DEFAULT_DAYS,
           updated_at: preferences.updated_at,
         },
       })
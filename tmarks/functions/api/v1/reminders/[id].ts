@@ -0,0 +1,61 @@
+/**
+ * 单个提醒 API
+ * 路径: /api/v1/reminders/:id
+ * 认证: JWT Token (Bearer)
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env } from '../../../lib/types'
+import { success, badRequest, notFound, noContent, internalError } from '../../../lib/response'
+import { requireAuth, AuthContext } from '../../../middleware/auth'
+import { applyReminderAction, getReminder, validateReminderAction } from '../../../lib/reminders'
+import type { ReminderActionInput } from '../../../lib/reminders'
+
+// PATCH /api/v1/reminders/:id - 处理提醒（done 完成 / dismiss 忽略 / snooze 推迟）
+export const onRequestPatch: PagesFunction<Env, 'id', AuthContext>[] = [
+  requireAuth,
+  async (context) => {
+    try {
+      const userId = context.data.user_id
+      const reminderId = context.params.id as string
+
+      const body = await context.request.json() as ReminderActionInput
+      const validation = validateReminderAction(body)
+      if (!validation.success) {
+        return badRequest(validation.message)
+      }
+
+      const reminder = await getReminder(context.env.DB, userId, reminderId)
+      if (!reminder) {
+        return notFound('Reminder not found')
+      }
+
+      const updated = await applyReminderAction(context.env.DB, reminder, validation.action, validation.snoozeDays)
+      return success({ reminder: updated })
+    } catch (error) {
+      console.error('Update reminder error:', error)
+      return internalError('Failed to update reminder')
+    }
+  },
+]
+
+// DELETE /api/v1/reminders/:id - 删除提醒
+export const onRequestDelete: PagesFunction<Env, 'id', AuthContext>[] = [
+  requireAuth,
+  async (context) => {
+    try {
+      const result = await context.env.DB.prepare('DELETE FROM bookmark_reminders WHERE id = ? AND user_id = ?')
+        .bind(context.params.id as string, context.data.user_id)
+        .run()
+
+      if (!result.meta.changes) {
+        return notFound('Reminder not found')
+      }
+
+      return noContent()
+    } catch (error) {
+      console.error('Delete reminder error:', error)
+      return internalError('Failed to delete reminder')
+    }
+  },
+]
@@ -0,0 +1,25 @@
+/**
+ * 到期提醒 API
+ * 路径: /api/v1/reminders/due
+ * 认证: JWT Token (Bearer)
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env } from '../../../lib/types'
+import { success, internalError } from '../../../lib/response'
+import { requireAuth, AuthContext } from '../../../middleware/auth'
+import { getDueReminders } from '../../../lib/reminders'
+
+// GET /api/v1/reminders/due - 获取已到期的提醒（到达间隔时先生成自动重温提醒）
+export const onRequestGet: PagesFunction<Env, string, AuthContext>[] = [
+  requireAuth,
+  async (context) => {
+    try {
+      const reminders = await getDueReminders(context.env.DB, context.data.user_id)
+      return success({ reminders })
+    } catch (error) {
+      console.error('Get due reminders error:', error)
+      return internalError('Failed to get due reminders')
+    }
+  },
+]
@@ -0,0 +1,29 @@
+/**
+ * 书签提醒 API
+ * 路径: /api/v1/reminders
+ * 认证: JWT Token (Bearer)
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env } from '../../../lib/types'
+import { success, internalError } from '../../../lib/response'
+import { requireAuth, AuthContext } from '../../../middleware/auth'
+import { listPendingReminders } from '../../../lib/reminders'
+
+const MAX_UPCOMING_REMINDERS = 200
+
+// GET /api/v1/reminders - 获取所有待处理提醒（含未到期），按提醒时间排序
+export const onRequestGet: PagesFunction<Env, string, AuthContext>[] = [
+  requireAuth,
+  async (context) => {
+    try {
+      const reminders = await listPendingReminders(context.env.DB, context.data.user_id, {
+        limit: MAX_UPCOMING_REMINDERS,
+      })
+      return success({ reminders })
+    } catch (error) {
+      console.error('Get reminders error:', error)
+      return internalError('Failed to get reminders')
+    }
+  },
+]
@@ -0,0 +1,52 @@
+/**
+ * 自动重温设置 API
+ * 路径: /api/v1/reminders/settings
+ * 认证: JWT Token (Bearer)
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env } from '../../../lib/types'
+import { success, badRequest, internalError } from '../../../lib/response'
+import { requireAuth, AuthContext } from '../../../middleware/auth'
+import {
+  getResurfacingSettings,
+  saveResurfacingSettings,
+  validateResurfacingSettings,
+} from '../../../lib/reminders'
+
+// GET /api/v1/reminders/settings - 获取自动重温设置
+export const onRequestGet: PagesFunction<Env, string, AuthContext>[] = [
+  requireAuth,
+  async (context) => {
+    try {
+      const settings = await getResurfacingSettings(context.env.DB, context.data.user_id)
+      return success({ settings })
+    } catch (error) {
+      console.error('Get resurfacing settings error:', error)
+      return internalError('Failed to get resurfacing settings')
+    }
+  },
+]
+
+// PUT /api/v1/reminders/settings - 更新自动重温设置（enabled / interval_days / batch_size / min_age_days）
+export const onRequestPut: PagesFunction<Env, string, AuthContext>[] = [
+  requireAuth,
+  async (context) => {
+    try {
+      const userId = context.data.user_id
+      const body = await context.request.json() as Record<string, unknown>
+
+      const current = await getResurfacingSettings(context.env.DB, userId)
+      const validation = validateResurfacingSettings(body, current)
+      if (!validation.success) {
+        return badRequest(validation.message)
+      }
+
+      await saveResurfacingSettings(context.env.DB, userId, validation.settings)
+      return success({ settings: validation.settings })
+    } catch (error) {
+      console.error('Update resurfacing settings error:', error)
+      return internalError('Failed to update resurfacing settings')
+    }
+  },
+]
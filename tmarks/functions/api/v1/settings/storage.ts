@@ -2,7 +2,7 @@ import type { PagesFunction } from '@cloudflare/workers-types'
 import type { Env, RouteParams } from '../../../lib/types'
 import { requireAuth, AuthContext } from '../../../middleware/auth'
 import { success, internalError } from '../../../lib/response'
-import { getCurrentR2UsageBytes, getR2MaxTotalBytes } from '../../../lib/storage-quota'
+import { getCurrentR2UsageBytes, getR2QuotaLimitBytes } from '../../../lib/storage-quota'
 
 /**
  * R2 存储配额展示接口
@@ -15,7 +15,7 @@ export const onRequestGet: PagesFunction<Env, RouteParams, AuthContext>[] = [
   async (context) => {
     try {
       const usedBytes = await getCurrentR2UsageBytes(context.env.DB)
-      const limitBytes = getR2MaxTotalBytes(context.env)
+      const limitBytes = await getR2QuotaLimitBytes(context.env.DB, context.env)
 
       const unlimited = !Number.isFinite(limitBytes)
       const safeLimitBytes = unlimited ? null : limitBytes
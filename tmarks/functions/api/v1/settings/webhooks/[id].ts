@@ -0,0 +1,109 @@
+/**
+ * 单个 Webhook 操作端点
+ * PATCH /api/v1/settings/webhooks/:id - 更新地址、订阅事件、说明或启用状态
+ * DELETE /api/v1/settings/webhooks/:id - 删除 Webhook（投递记录一并删除）
+ * 认证: JWT Token (Bearer)
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env, SQLParam } from '../../../../lib/types'
+import { success, badRequest, notFound, noContent, internalError } from '../../../../lib/response'
+import { requireAuth, AuthContext } from '../../../../middleware/auth'
+import { getWebhookRow, normalizeWebhookEvents, toWebhook, validateWebhookUrl } from '../../../../lib/webhooks'
+
+interface UpdateWebhookRequest {
+  url?: string
+  events?: string[]
+  description?: string | null
+  is_active?: boolean
+}
+
+// PATCH /api/v1/settings/webhooks/:id - 更新 Webhook
+export const onRequestPatch: PagesFunction<Env, 'id', AuthContext>[] = [
+  requireAuth,
+  async (context) => {
+    try {
+      const userId = context.data.user_id
+      const webhookId = context.params.id as string
+      const body = (await context.request.json()) as UpdateWebhookRequest
+
+      const existing = await getWebhookRow(context.env.DB, userId, webhookId)
+      if (!existing) {
+        return notFound('Webhook not found')
+      }
+
+      const updates: string[] = []
+      const values: SQLParam[] = []
+
+      if (body.url !== undefined) {
+        const urlError = validateWebhookUrl(context.env, body.url)
+        if (urlError) {
+          return badRequest(urlError)
+        }
+        updates.push('url = ?')
+        values.push(body.url.trim())
+      }
+
+      if (body.events !== undefined) {
+        const events = normalizeWebhookEvents(body.events)
+        if (events.length === 0) {
+          return badRequest('At least one event is required')
+        }
+        updates.push('events = ?')
+        values.push(JSON.stringify(events))
+      }
+
+      if (body.description !== undefined) {
+        const description = typeof body.description === 'string' ? body.description.trim().slice(0, 200) : ''
+        updates.push('description = ?')
+        values.push(description || null)
+      }
+
+      if (body.is_active !== undefined) {
+        updates.push('is_active = ?')
+        values.push(body.is_active ? 1 : 0)
+      }
+
+      if (updates.length > 0) {
+        updates.push('updated_at = ?')
+        values.push(new Date().toISOString())
+        await context.env.DB.prepare(`UPDATE webhooks SET ${updates.join(', ')} WHERE id = ? AND user_id = ?`)
+          .bind(...values, webhookId, userId)
+          .run()
+      }
+
+      const updated = await getWebhookRow(context.env.DB, userId, webhookId)
+      return success({ webhook: toWebhook(updated!) })
+    } catch (error) {
+      console.error('Update webhook error:', error)
+      return internalError('Failed to update webhook')
+    }
+  },
+]
+
+// DELETE /api/v1/settings/webhooks/:id - 删除 Webhook
+export const onRequestDelete: PagesFunction<Env, 'id', AuthContext>[] = [
+  requireAuth,
+  async (context) => {
+    try {
+      const userId = context.data.user_id
+      const webhookId = context.params.id as string
+
+      const result = await context.env.DB.prepare('DELETE FROM webhooks WHERE id = ? AND user_id = ?')
+        .bind(webhookId, userId)
+        .run()
+      if (!result.meta.changes) {
+        return notFound('Webhook not found')
+      }
+
+      await context.env.DB.prepare('DELETE FROM webhook_deliveries WHERE webhook_id = ?')
+        .bind(webhookId)
+        .run()
+
+      return noContent()
+    } catch (error) {
+      console.error('Delete webhook error:', error)
+      return internalError('Failed to delete webhook')
+    }
+  },
+]
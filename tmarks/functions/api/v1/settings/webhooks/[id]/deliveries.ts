@@ -0,0 +1,39 @@
+/**
+ * Webhook 投递记录
+ * 路径: /api/v1/settings/webhooks/:id/deliveries?status=pending|success|failed&limit=50
+ * 认证: JWT Token (Bearer)
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env } from '../../../../../lib/types'
+import { success, notFound, internalError } from '../../../../../lib/response'
+import { requireAuth, AuthContext } from '../../../../../middleware/auth'
+import { getWebhookRow, listWebhookDeliveries, type WebhookDeliveryStatus } from '../../../../../lib/webhooks'
+
+const DEFAULT_LIMIT = 50
+const MAX_LIMIT = 100
+
+// GET /api/v1/settings/webhooks/:id/deliveries - 最近的投递记录
+export const onRequestGet: PagesFunction<Env, 'id', AuthContext>[] = [
+  requireAuth,
+  async (context) => {
+    try {
+      const webhook = await getWebhookRow(context.env.DB, context.data.user_id, context.params.id as string)
+      if (!webhook) {
+        return notFound('Webhook not found')
+      }
+
+      const searchParams = new URL(context.request.url).searchParams
+      const statusParam = searchParams.get('status')
+      const status: WebhookDeliveryStatus | undefined =
+        statusParam === 'pending' || statusParam === 'success' || statusParam === 'failed' ? statusParam : undefined
+      const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '', 10) || DEFAULT_LIMIT, 1), MAX_LIMIT)
+
+      const deliveries = await listWebhookDeliveries(context.env.DB, webhook.id, { status, limit })
+      return success({ deliveries })
+    } catch (error) {
+      console.error('List webhook deliveries error:', error)
+      return internalError('Failed to list webhook deliveries')
+    }
+  },
+]
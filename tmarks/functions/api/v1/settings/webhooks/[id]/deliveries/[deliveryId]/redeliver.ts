@@ -0,0 +1,34 @@
+/**
+ * Webhook 重新投递
+ * 路径: /api/v1/settings/webhooks/:id/deliveries/:deliveryId/redeliver
+ * 认证: JWT Token (Bearer)
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env } from '../../../../../../../lib/types'
+import { success, notFound, internalError } from '../../../../../../../lib/response'
+import { requireAuth, AuthContext } from '../../../../../../../middleware/auth'
+import { getWebhookRow, redeliverWebhook } from '../../../../../../../lib/webhooks'
+
+// POST /api/v1/settings/webhooks/:id/deliveries/:deliveryId/redeliver - 以原请求体重新投递
+export const onRequestPost: PagesFunction<Env, 'id' | 'deliveryId', AuthContext>[] = [
+  requireAuth,
+  async (context) => {
+    try {
+      const webhook = await getWebhookRow(context.env.DB, context.data.user_id, context.params.id as string)
+      if (!webhook) {
+        return notFound('Webhook not found')
+      }
+
+      const delivery = await redeliverWebhook(context.env, webhook, context.params.deliveryId as string)
+      if (!delivery) {
+        return notFound('Delivery not found')
+      }
+
+      return success({ delivery })
+    } catch (error) {
+      console.error('Redeliver webhook error:', error)
+      return internalError('Failed to redeliver webhook')
+    }
+  },
+]
@@ -0,0 +1,36 @@
+/**
+ * Webhook 签名密钥
+ * 路径: /api/v1/settings/webhooks/:id/secret
+ * 认证: JWT Token (Bearer)
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env } from '../../../../../lib/types'
+import { success, notFound, internalError } from '../../../../../lib/response'
+import { requireAuth, AuthContext } from '../../../../../middleware/auth'
+import { generateWebhookSecret, getWebhookRow, toWebhook } from '../../../../../lib/webhooks'
+
+// POST /api/v1/settings/webhooks/:id/secret - 重新生成密钥，旧密钥立即失效
+export const onRequestPost: PagesFunction<Env, 'id', AuthContext>[] = [
+  requireAuth,
+  async (context) => {
+    try {
+      const userId = context.data.user_id
+      const webhook = await getWebhookRow(context.env.DB, userId, context.params.id as string)
+      if (!webhook) {
+        return notFound('Webhook not found')
+      }
+
+      const secret = generateWebhookSecret()
+      const now = new Date().toISOString()
+      await context.env.DB.prepare('UPDATE webhooks SET secret = ?, updated_at = ? WHERE id = ?')
+        .bind(secret, now, webhook.id)
+        .run()
+
+      return success({ webhook: toWebhook({ ...webhook, secret, updated_at: now }), secret })
+    } catch (error) {
+      console.error('Rotate webhook secret error:', error)
+      return internalError('Failed to rotate webhook secret')
+    }
+  },
+]
@@ -0,0 +1,30 @@
+/**
+ * Webhook 测试投递
+ * 路径: /api/v1/settings/webhooks/:id/test
+ * 认证: JWT Token (Bearer)
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env } from '../../../../../lib/types'
+import { success, notFound, internalError } from '../../../../../lib/response'
+import { requireAuth, AuthContext } from '../../../../../middleware/auth'
+import { getWebhookRow, sendWebhookPing } from '../../../../../lib/webhooks'
+
+// POST /api/v1/settings/webhooks/:id/test - 发送 ping 事件并返回投递结果
+export const onRequestPost: PagesFunction<Env, 'id', AuthContext>[] = [
+  requireAuth,
+  async (context) => {
+    try {
+      const webhook = await getWebhookRow(context.env.DB, context.data.user_id, context.params.id as string)
+      if (!webhook) {
+        return notFound('Webhook not found')
+      }
+
+      const delivery = await sendWebhookPing(context.env, webhook)
+      return success({ delivery })
+    } catch (error) {
+      console.error('Test webhook error:', error)
+      return internalError('Failed to send test webhook')
+    }
+  },
+]
@@ -0,0 +1,110 @@
+/**
+ * Webhook 管理端点
+ * GET /api/v1/settings/webhooks - 列出所有 Webhook
+ * POST /api/v1/settings/webhooks - 创建 Webhook
+ * 认证: JWT Token (Bearer)
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env } from '../../../../lib/types'
+import { success, badRequest, created, internalError } from '../../../../lib/response'
+import { requireAuth, AuthContext } from '../../../../middleware/auth'
+import { generateUUID } from '../../../../lib/crypto'
+import {
+  MAX_WEBHOOKS_PER_USER,
+  WEBHOOK_EVENTS,
+  generateWebhookSecret,
+  normalizeWebhookEvents,
+  toWebhook,
+  validateWebhookUrl,
+  type WebhookRow,
+} from '../../../../lib/webhooks'
+
+interface CreateWebhookRequest {
+  url: string
+  events: string[]
+  description?: string
+}
+
+// GET /api/v1/settings/webhooks - 列出所有 Webhook 及可订阅的事件
+export const onRequestGet: PagesFunction<Env, string, AuthContext>[] = [
+  requireAuth,
+  async (context) => {
+    try {
+      const { results } = await context.env.DB.prepare(
+        'SELECT * FROM webhooks WHERE user_id = ? ORDER BY created_at DESC'
+      )
+        .bind(context.data.user_id)
+        .all<WebhookRow>()
+
+      return success({
+        webhooks: (results || []).map(toWebhook),
+        events: WEBHOOK_EVENTS,
+        limit: MAX_WEBHOOKS_PER_USER,
+      })
+    } catch (error) {
+      console.error('List webhooks error:', error)
+      return internalError('Failed to list webhooks')
+    }
+  },
+]
+
+// POST /api/v1/settings/webhooks - 创建 Webhook，完整密钥只在此时返回
+export const onRequestPost: PagesFunction<Env, string, AuthContext>[] = [
+  requireAuth,
+  async (context) => {
+    try {
+      const userId = context.data.user_id
+      const body = (await context.request.json()) as CreateWebhookRequest
+
+      const urlError = validateWebhookUrl(context.env, body.url)
+      if (urlError) {
+        return badRequest(urlError)
+      }
+
+      const events = normalizeWebhookEvents(body.events)
+      if (events.length === 0) {
+        return badRequest('At least one event is required')
+      }
+
+      const description = typeof body.description === 'string' ? body.description.trim().slice(0, 200) : ''
+
+      const count = await context.env.DB.prepare('SELECT COUNT(*) AS count FROM webhooks WHERE user_id = ?')
+        .bind(userId)
+        .first<{ count: number }>()
+      if ((count?.count ?? 0) >= MAX_WEBHOOKS_PER_USER) {
+        return badRequest({
+          code: 'QUOTA_EXCEEDED',
+          message: `Maximum ${MAX_WEBHOOKS_PER_USER} webhooks allowed per user`,
+        })
+      }
+
+      const now = new Date().toISOString()
+      const row: WebhookRow = {
+        id: generateUUID(),
+        user_id: userId,
+        url: body.url.trim(),
+        secret: generateWebhookSecret(),
+        events: JSON.stringify(events),
+        description: description || null,
+        is_active: 1,
+        last_delivery_at: null,
+        last_delivery_status: null,
+        created_at: now,
+        updated_at: now,
+      }
+
+      await context.env.DB.prepare(
+        `INSERT INTO webhooks (id, user_id, url, secret, events, description, is_active, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, 1, ?, ?)`
+      )
+        .bind(row.id, row.user_id, row.url, row.secret, row.events, row.description, now, now)
+        .run()
+
+      return created({ webhook: toWebhook(row), secret: row.secret })
+    } catch (error) {
+      console.error('Create webhook error:', error)
+      return internalError('Failed to create webhook')
+    }
+  },
+]
@@ -61,7 +61,7 @@ export const onRequestGet: PagesFunction<Env, string, AuthContext>[] = [
 
         // 4. 分享计数
         context.env.DB.prepare(
-          'SELECT COUNT(*) as count FROM tab_group_shares WHERE group_id IN (SELECT id FROM tab_groups WHERE user_id = ?)'
+          'SELECT COUNT(*) as count FROM shares WHERE user_id = ? AND revoked_at IS NULL'
         )
           .bind(userId)
           .all<{ count: number }>(),
@@ -9,6 +9,8 @@ import type { Env, RouteParams } from '../../../lib/types'
 import { success, badRequest, notFound, noContent, internalError } from '../../../lib/response'
 import { requireAuth, AuthContext } from '../../../middleware/auth'
 import { sanitizeString } from '../../../lib/validation'
+import { dispatchWebhookEvent } from '../../../lib/webhooks'
+import { getTabGroupAccess, listTabGroupItems } from '../../../lib/tab-group-members'
 
 interface TabGroupRow {
   id: string
@@ -45,7 +47,7 @@ interface UpdateTabGroupRequest {
   position?: number
 }
 
-// GET /api/v1/tab-groups/:id - 获取单个标签页组详情
+// GET /api/v1/tab-groups/:id - 获取单个标签页组详情（所有者和协作成员都可以查看）
 export const onRequestGet: PagesFunction<Env, RouteParams, AuthContext>[] = [
   requireAuth,
   async (context) => {
@@ -53,33 +55,20 @@ export const onRequestGet: PagesFunction<Env, RouteParams, AuthContext>[] = [
     const groupId = context.params.id
 
     try {
-      // Get tab group
-      const groupRow = await context.env.DB.prepare(
-        'SELECT * FROM tab_groups WHERE id = ? AND user_id = ?'
-      )
-        .bind(groupId, userId)
-        .first<TabGroupRow>()
+      const access = await getTabGroupAccess(context.env.DB, userId, groupId)
 
-      if (!groupRow) {
+      if (!access) {
         return notFound('Tab group not found')
       }
 
-      // Get tab group items (with user_id verification for security)
-      const { results: items } = await context.env.DB.prepare(
-        `SELECT tgi.*
-         FROM tab_group_items tgi
-         JOIN tab_groups tg ON tgi.group_id = tg.id
-         WHERE tgi.group_id = ? AND tg.user_id = ?
-         ORDER BY COALESCE(tgi.is_pinned, 0) DESC, tgi.position ASC`
-      )
-        .bind(groupId, userId)
-        .all<TabGroupItemRow>()
+      const items = await listTabGroupItems(context.env.DB, groupId)
 
       return success({
         tab_group: {
-          ...groupRow,
-          items: items || [],
-          item_count: items?.length || 0,
+          ...access.group,
+          items,
+          item_count: items.length,
+          access_role: access.role,
         },
       })
     } catch (error) {
@@ -219,6 +208,12 @@ export const onRequestDelete: PagesFunction<Env, RouteParams, AuthContext>[] = [
         .bind(groupId, userId)
         .run()
 
+      context.waitUntil(
+        dispatchWebhookEvent(context.env, userId, 'tab_group.deleted', {
+          tab_group: { id: groupRow.id, title: groupRow.title },
+        })
+      )
+
       return noContent()
     } catch (error) {
       console.error('Delete tab group error:', error)
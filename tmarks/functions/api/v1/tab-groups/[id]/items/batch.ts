@@ -6,16 +6,11 @@
 
 import type { PagesFunction } from '@cloudflare/workers-types'
 import type { Env, RouteParams } from '../../../../../lib/types'
-import { success, badRequest, notFound, internalError } from '../../../../../lib/response'
+import { success, badRequest, forbidden, notFound, internalError } from '../../../../../lib/response'
 import { requireAuth, AuthContext } from '../../../../../middleware/auth'
 import { sanitizeString } from '../../../../../lib/validation'
 import { generateUUID } from '../../../../../lib/crypto'
-
-interface TabGroupRow {
-  id: string
-  user_id: string
-  title: string
-}
+import { canEditTabGroupItems, getTabGroupAccess } from '../../../../../lib/tab-group-members'
 
 interface BatchAddItemsRequest {
   items: Array<{
@@ -33,6 +28,7 @@ interface TabGroupItemRow {
   favicon: string | null
   position: number
   created_at: string
+  created_by: string
 }
 
 // POST /api/v1/tab-groups/:id/items/batch - 批量添加标签页项
@@ -49,17 +45,17 @@ export const onRequestPost: PagesFunction<Env, RouteParams, AuthContext>[] = [
         return badRequest('items array is required and must not be empty')
       }
 
-      // Verify group exists and belongs to user
-      const group = await context.env.DB.prepare(
-        'SELECT id, user_id, title FROM tab_groups WHERE id = ? AND user_id = ?'
-      )
-        .bind(groupId, userId)
-        .first<TabGroupRow>()
+      // 所有者和 editor 成员可以添加标签页项
+      const access = await getTabGroupAccess(context.env.DB, userId, groupId)
 
-      if (!group) {
+      if (!access) {
         return notFound('Tab group not found')
       }
 
+      if (!canEditTabGroupItems(access.role)) {
+        return forbidden('You do not have permission to edit this tab group')
+      }
+
       // Get current max position
       const maxPositionResult = await context.env.DB.prepare(
         'SELECT MAX(position) as max_position FROM tab_group_items WHERE group_id = ?'
@@ -84,10 +80,10 @@ export const onRequestPost: PagesFunction<Env, RouteParams, AuthContext>[] = [
         const sanitizedFavicon = item.favicon ? sanitizeString(item.favicon, 2000) : null
 
         await context.env.DB.prepare(
-          `INSERT INTO tab_group_items (id, group_id, title, url, favicon, position, created_at)
-           VALUES (?, ?, ?, ?, ?, ?, ?)`
+          `INSERT INTO tab_group_items (id, group_id, title, url, favicon, position, created_at, created_by)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
         )
-          .bind(itemId, groupId, sanitizedTitle, sanitizedUrl, sanitizedFavicon, currentPosition, now)
+          .bind(itemId, groupId, sanitizedTitle, sanitizedUrl, sanitizedFavicon, currentPosition, now, userId)
           .run()
 
         insertedItems.push({
@@ -98,6 +94,7 @@ export const onRequestPost: PagesFunction<Env, RouteParams, AuthContext>[] = [
           favicon: sanitizedFavicon,
           position: currentPosition,
           created_at: now,
+          created_by: userId,
         })
 
         currentPosition++
@@ -0,0 +1,104 @@
+/**
+ * 标签页组协作成员 API
+ * 路径: /api/v1/tab-groups/:id/members
+ * 认证: JWT Token (Bearer)
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env } from '../../../../lib/types'
+import { success, created, badRequest, forbidden, notFound, conflict, internalError } from '../../../../lib/response'
+import { requireAuth, AuthContext } from '../../../../middleware/auth'
+import {
+  MAX_TAB_GROUP_MEMBERS,
+  addTabGroupMember,
+  findInviteeUser,
+  getTabGroupAccess,
+  isTabGroupMemberRole,
+  listTabGroupMembers,
+} from '../../../../lib/tab-group-members'
+
+interface AddMemberRequest {
+  identifier?: string
+  role?: string
+}
+
+// GET /api/v1/tab-groups/:id/members - 获取成员列表（所有者和成员都可以查看）
+export const onRequestGet: PagesFunction<Env, 'id', AuthContext>[] = [
+  requireAuth,
+  async (context) => {
+    const userId = context.data.user_id
+    const groupId = context.params.id as string
+
+    try {
+      const access = await getTabGroupAccess(context.env.DB, userId, groupId)
+      if (!access) {
+        return notFound('Tab group not found')
+      }
+
+      const owner = await context.env.DB.prepare('SELECT id, username FROM users WHERE id = ?')
+        .bind(access.group.user_id)
+        .first<{ id: string; username: string }>()
+
+      const members = await listTabGroupMembers(context.env.DB, groupId)
+
+      return success({
+        owner,
+        members,
+        access_role: access.role,
+      })
+    } catch (error) {
+      console.error('List tab group members error:', error)
+      return internalError('Failed to list tab group members')
+    }
+  },
+]
+
+// POST /api/v1/tab-groups/:id/members - 邀请用户（按用户名或邮箱）成为成员
+export const onRequestPost: PagesFunction<Env, 'id', AuthContext>[] = [
+  requireAuth,
+  async (context) => {
+    const userId = context.data.user_id
+    const groupId = context.params.id as string
+
+    try {
+      const body = (await context.request.json().catch(() => ({}))) as AddMemberRequest
+      const identifier = typeof body.identifier === 'string' ? body.identifier.trim() : ''
+      const role = body.role ?? 'viewer'
+
+      if (!identifier) {
+        return badRequest('identifier is required')
+      }
+      if (!isTabGroupMemberRole(role)) {
+        return badRequest('role must be one of: viewer, editor')
+      }
+
+      const access = await getTabGroupAccess(context.env.DB, userId, groupId)
+      if (!access || access.group.is_deleted) {
+        return notFound('Tab group not found')
+      }
+      if (access.role !== 'owner') {
+        return forbidden('Only the owner can manage members')
+      }
+
+      const invitee = await findInviteeUser(context.env.DB, identifier)
+      if (!invitee) {
+        return notFound('User not found', 'USER_NOT_FOUND')
+      }
+      if (invitee.id === userId) {
+        return badRequest({ code: 'CANNOT_INVITE_SELF', message: 'You already own this tab group' })
+      }
+
+      const result = await addTabGroupMember(context.env.DB, access.group, invitee, role)
+      if (!result.success) {
+        return result.error === 'already_member'
+          ? conflict('User is already a member of this tab group', 'ALREADY_MEMBER')
+          : conflict(`A tab group can have at most ${MAX_TAB_GROUP_MEMBERS} members`, 'MEMBER_LIMIT_REACHED')
+      }
+
+      return created({ member: result.member })
+    } catch (error) {
+      console.error('Add tab group member error:', error)
+      return internalError('Failed to add tab group member')
+    }
+  },
+]
@@ -0,0 +1,83 @@
+/**
+ * 单个标签页组成员 API
+ * 路径: /api/v1/tab-groups/:id/members/:memberId
+ * 认证: JWT Token (Bearer)
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env } from '../../../../../lib/types'
+import { success, badRequest, forbidden, notFound, internalError } from '../../../../../lib/response'
+import { requireAuth, AuthContext } from '../../../../../middleware/auth'
+import { getTabGroupAccess, getTabGroupMember, isTabGroupMemberRole } from '../../../../../lib/tab-group-members'
+
+// PATCH /api/v1/tab-groups/:id/members/:memberId - 修改成员角色（仅所有者）
+export const onRequestPatch: PagesFunction<Env, 'id' | 'memberId', AuthContext>[] = [
+  requireAuth,
+  async (context) => {
+    const userId = context.data.user_id
+    const groupId = context.params.id as string
+    const memberId = context.params.memberId as string
+
+    try {
+      const body = (await context.request.json().catch(() => ({}))) as { role?: string }
+      if (!isTabGroupMemberRole(body.role)) {
+        return badRequest('role must be one of: viewer, editor')
+      }
+
+      const access = await getTabGroupAccess(context.env.DB, userId, groupId)
+      if (!access) {
+        return notFound('Tab group not found')
+      }
+      if (access.role !== 'owner') {
+        return forbidden('Only the owner can manage members')
+      }
+
+      const member = await getTabGroupMember(context.env.DB, groupId, memberId)
+      if (!member) {
+        return notFound('Member not found')
+      }
+
+      const now = new Date().toISOString()
+      await context.env.DB.prepare('UPDATE tab_group_members SET role = ?, updated_at = ? WHERE id = ?')
+        .bind(body.role, now, memberId)
+        .run()
+
+      return success({ member: { ...member, role: body.role, updated_at: now } })
+    } catch (error) {
+      console.error('Update tab group member error:', error)
+      return internalError('Failed to update tab group member')
+    }
+  },
+]
+
+// DELETE /api/v1/tab-groups/:id/members/:memberId - 移除成员（所有者），或成员自己退出
+export const onRequestDelete: PagesFunction<Env, 'id' | 'memberId', AuthContext>[] = [
+  requireAuth,
+  async (context) => {
+    const userId = context.data.user_id
+    const groupId = context.params.id as string
+    const memberId = context.params.memberId as string
+
+    try {
+      const access = await getTabGroupAccess(context.env.DB, userId, groupId)
+      if (!access) {
+        return notFound('Tab group not found')
+      }
+
+      const member = await getTabGroupMember(context.env.DB, groupId, memberId)
+      if (!member) {
+        return notFound('Member not found')
+      }
+      if (access.role !== 'owner' && member.user_id !== userId) {
+        return forbidden('Only the owner can manage members')
+      }
+
+      await context.env.DB.prepare('DELETE FROM tab_group_members WHERE id = ?').bind(memberId).run()
+
+      return success({ message: 'Member removed successfully' })
+    } catch (error) {
+      console.error('Remove tab group member error:', error)
+      return internalError('Failed to remove tab group member')
+    }
+  },
+]
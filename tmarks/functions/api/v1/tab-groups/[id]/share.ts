@@ -8,7 +8,14 @@ import type { PagesFunction } from '@cloudflare/workers-types'
 import type { Env, RouteParams } from '../../../../lib/types'
 import { success, badRequest, notFound, internalError } from '../../../../lib/response'
 import { requireAuth, AuthContext } from '../../../../middleware/auth'
-import { generateUUID } from '../../../../lib/crypto'
+import { dispatchWebhookEvent } from '../../../../lib/webhooks'
+import {
+  findGroupShare,
+  parseShareSettings,
+  revokeShare,
+  saveGroupShare,
+  toShareInfo,
+} from '../../../../lib/tab-group-share'
 
 interface TabGroupRow {
   id: string
@@ -16,21 +23,7 @@ interface TabGroupRow {
   title: string
 }
 
-interface ShareRow {
-  id: string
-  group_id: string
-  share_token: string
-  is_public: number
-  expires_at: string | null
-  created_at: string
-}
-
-interface CreateShareRequest {
-  is_public?: boolean
-  expires_in_days?: number
-}
-
-// POST /api/v1/tab-groups/:id/share - 创建分享链接
+// POST /api/v1/tab-groups/:id/share - 创建分享链接或更新分享设置
 export const onRequestPost: PagesFunction<Env, RouteParams, AuthContext>[] = [
   requireAuth,
   async (context) => {
@@ -38,11 +31,15 @@ export const onRequestPost: PagesFunction<Env, RouteParams, AuthContext>[] = [
     const groupId = context.params.id
 
     try {
-      const body = (await context.request.json()) as CreateShareRequest
+      const body = await context.request.json().catch(() => ({}))
+      const parsed = parseShareSettings(body)
+      if (!parsed.success) {
+        return badRequest(parsed.message)
+      }
 
       // Verify group exists and belongs to user
       const group = await context.env.DB.prepare(
-        'SELECT id, user_id, title FROM tab_groups WHERE id = ? AND user_id = ?'
+        'SELECT id, user_id, title FROM tab_groups WHERE id = ? AND user_id = ? AND is_deleted = 0'
       )
         .bind(groupId, userId)
         .first<TabGroupRow>()
@@ -51,55 +48,17 @@ export const onRequestPost: PagesFunction<Env, RouteParams, AuthContext>[] = [
         return notFound('Tab group not found')
       }
 
-      // Check if share already exists
-      const existingShare = await context.env.DB.prepare(
-        'SELECT * FROM tab_group_shares WHERE group_id = ?'
-      )
-        .bind(groupId)
-        .first<ShareRow>()
-
-      if (existingShare) {
-        // Update existing share
-        const expiresAt = body.expires_in_days
-          ? new Date(Date.now() + body.expires_in_days * 24 * 60 * 60 * 1000).toISOString()
-          : null
-
-        await context.env.DB.prepare(
-          'UPDATE tab_group_shares SET is_public = ?, expires_at = ? WHERE id = ?'
-        )
-          .bind(body.is_public ? 1 : 0, expiresAt, existingShare.id)
-          .run()
-
-        return success({
-          share_token: existingShare.share_token,
-          is_public: body.is_public ?? false,
-          expires_at: expiresAt,
-          share_url: `${new URL(context.request.url).origin}/share/${existingShare.share_token}`,
-        })
-      }
+      const { share: row } = await saveGroupShare(context.env.DB, userId, groupId, parsed.settings)
+      const share = toShareInfo(row, new URL(context.request.url).origin)
 
-      // Create new share
-      const shareId = generateUUID()
-      const shareToken = generateUUID()
-      const isPublic = body.is_public ?? false
-      const expiresAt = body.expires_in_days
-        ? new Date(Date.now() + body.expires_in_days * 24 * 60 * 60 * 1000).toISOString()
-        : null
-      const now = new Date().toISOString()
-
-      await context.env.DB.prepare(
-        `INSERT INTO tab_group_shares (id, group_id, share_token, is_public, expires_at, created_at)
-         VALUES (?, ?, ?, ?, ?, ?)`
+      context.waitUntil(
+        dispatchWebhookEvent(context.env, userId, 'tab_group.shared', {
+          tab_group: { id: group.id, title: group.title },
+          share,
+        })
       )
-        .bind(shareId, groupId, shareToken, isPublic ? 1 : 0, expiresAt, now)
-        .run()
-
-      return success({
-        share_token: shareToken,
-        is_public: isPublic,
-        expires_at: expiresAt,
-        share_url: `${new URL(context.request.url).origin}/share/${shareToken}`,
-      })
+
+      return success({ share, share_url: share.share_url })
     } catch (error) {
       console.error('Create share error:', error)
       return internalError('Failed to create share')
@@ -115,35 +74,14 @@ export const onRequestGet: PagesFunction<Env, RouteParams, AuthContext>[] = [
     const groupId = context.params.id
 
     try {
-      // Verify group exists and belongs to user
-      const group = await context.env.DB.prepare(
-        'SELECT id, user_id FROM tab_groups WHERE id = ? AND user_id = ?'
-      )
-        .bind(groupId, userId)
-        .first<TabGroupRow>()
-
-      if (!group) {
-        return notFound('Tab group not found')
-      }
-
-      // Get share info
-      const share = await context.env.DB.prepare(
-        'SELECT * FROM tab_group_shares WHERE group_id = ?'
-      )
-        .bind(groupId)
-        .first<ShareRow>()
-
-      if (!share) {
+      // 已撤销的分享视为不存在
+      const row = await findGroupShare(context.env.DB, userId, groupId)
+      if (!row || row.revoked_at) {
         return notFound('Share not found')
       }
 
-      return success({
-        share_token: share.share_token,
-        is_public: share.is_public === 1,
-        expires_at: share.expires_at,
-        share_url: `${new URL(context.request.url).origin}/share/${share.share_token}`,
-        created_at: share.created_at,
-      })
+      const share = toShareInfo(row, new URL(context.request.url).origin)
+      return success({ share, share_url: share.share_url })
     } catch (error) {
       console.error('Get share error:', error)
       return internalError('Failed to get share info')
@@ -151,7 +89,7 @@ export const onRequestGet: PagesFunction<Env, RouteParams, AuthContext>[] = [
   },
 ]
 
-// DELETE /api/v1/tab-groups/:id/share - 删除分享
+// DELETE /api/v1/tab-groups/:id/share - 撤销分享
 export const onRequestDelete: PagesFunction<Env, RouteParams, AuthContext>[] = [
   requireAuth,
   async (context) => {
@@ -159,23 +97,14 @@ export const onRequestDelete: PagesFunction<Env, RouteParams, AuthContext>[] = [
     const groupId = context.params.id
 
     try {
-      // Verify group exists and belongs to user
-      const group = await context.env.DB.prepare(
-        'SELECT id, user_id FROM tab_groups WHERE id = ? AND user_id = ?'
-      )
-        .bind(groupId, userId)
-        .first<TabGroupRow>()
-
-      if (!group) {
-        return notFound('Tab group not found')
+      const row = await findGroupShare(context.env.DB, userId, groupId)
+      if (!row || row.revoked_at) {
+        return notFound('Share not found')
       }
 
-      // Delete share
-      await context.env.DB.prepare('DELETE FROM tab_group_shares WHERE group_id = ?')
-        .bind(groupId)
-        .run()
+      await revokeShare(context.env.DB, row)
 
-      return success({ message: 'Share deleted successfully' })
+      return success({ message: 'Share revoked successfully' })
     } catch (error) {
       console.error('Delete share error:', error)
       return internalError('Failed to delete share')
@@ -0,0 +1,35 @@
+/**
+ * 重新生成标签页组分享链接 API
+ * 路径: /api/v1/tab-groups/:id/share/regenerate
+ * 认证: JWT Token (Bearer)
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env } from '../../../../../lib/types'
+import { success, notFound, internalError } from '../../../../../lib/response'
+import { requireAuth, AuthContext } from '../../../../../middleware/auth'
+import { findGroupShare, regenerateShareToken, toShareInfo } from '../../../../../lib/tab-group-share'
+
+// POST /api/v1/tab-groups/:id/share/regenerate - 更换分享令牌（保留分享设置，旧链接失效）
+export const onRequestPost: PagesFunction<Env, 'id', AuthContext>[] = [
+  requireAuth,
+  async (context) => {
+    const userId = context.data.user_id
+    const groupId = context.params.id as string
+
+    try {
+      const row = await findGroupShare(context.env.DB, userId, groupId)
+      if (!row || row.revoked_at) {
+        return notFound('Share not found')
+      }
+
+      const updated = await regenerateShareToken(context.env.DB, row)
+      const share = toShareInfo(updated, new URL(context.request.url).origin)
+
+      return success({ share, share_url: share.share_url })
+    } catch (error) {
+      console.error('Regenerate share error:', error)
+      return internalError('Failed to regenerate share link')
+    }
+  },
+]
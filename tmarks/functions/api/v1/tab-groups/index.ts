@@ -10,6 +10,8 @@ import { success, created, internalError } from '../../../lib/response'
 import { requireAuth, AuthContext } from '../../../middleware/auth'
 import { sanitizeString } from '../../../lib/validation'
 import { generateUUID } from '../../../lib/crypto'
+import { dispatchWebhookEvent } from '../../../lib/webhooks'
+import { listTabGroupItems } from '../../../lib/tab-group-members'
 
 interface TabGroupRow {
   id: string
@@ -95,22 +97,15 @@ export const onRequestGet: PagesFunction<Env, RouteParams, AuthContext>[] = [
       // Get items for each group
       const groupsWithItems = await Promise.all(
         tabGroups.map(async (group) => {
-          const { results: items } = await context.env.DB.prepare(
-            `SELECT tgi.*
-             FROM tab_group_items tgi
-             JOIN tab_groups tg ON tgi.group_id = tg.id
-             WHERE tgi.group_id = ? AND tg.user_id = ?
-             ORDER BY COALESCE(tgi.is_pinned, 0) DESC, tgi.position ASC`
-          )
-            .bind(group.id, userId)
-            .all<TabGroupItemRow>()
+          // 分组已按 user_id 过滤，标签页项附带协作成员的添加/修改记录
+          const items = await listTabGroupItems(context.env.DB, group.id)
 
-          console.log(`[TabGroups API v1] Group ${group.id} (${group.title}): ${items?.length || 0} items`)
+          console.log(`[TabGroups API v1] Group ${group.id} (${group.title}): ${items.length} items`)
 
           return {
             ...group,
-            items: items || [],
-            item_count: items?.length || 0,
+            items,
+            item_count: items.length,
           }
         })
       )
@@ -209,13 +204,14 @@ export const onRequestPost: PagesFunction<Env, RouteParams, AuthContext>[] = [
         return internalError('Failed to load tab group after creation')
       }
 
-      return created({
-        tab_group: {
-          ...groupRow,
-          items: items || [],
-          item_count: items?.length || 0,
-        },
-      })
+      const tabGroup = {
+        ...groupRow,
+        items: items || [],
+        item_count: items?.length || 0,
+      }
+      context.waitUntil(dispatchWebhookEvent(context.env, userId, 'tab_group.created', { tab_group: tabGroup }))
+
+      return created({ tab_group: tabGroup })
     } catch (error) {
       console.error('Create tab group error:', error)
       return internalError('Failed to create tab group')
@@ -6,9 +6,10 @@
 
 import type { PagesFunction } from '@cloudflare/workers-types'
 import type { Env, RouteParams } from '../../../../lib/types'
-import { success, badRequest, notFound, internalError } from '../../../../lib/response'
+import { success, badRequest, forbidden, notFound, internalError } from '../../../../lib/response'
 import { requireAuth, AuthContext } from '../../../../middleware/auth'
 import { sanitizeString } from '../../../../lib/validation'
+import { canEditTabGroupItems, getTabGroupAccess } from '../../../../lib/tab-group-members'
 
 interface TabGroupItemRow {
   id: string
@@ -41,24 +42,27 @@ export const onRequestPatch: PagesFunction<Env, RouteParams, AuthContext>[] = [
     try {
       const body = (await context.request.json()) as UpdateTabGroupItemRequest
 
-      // Check if item exists and user has permission
+      // Check if item exists and user has permission (owner or editor member)
       const item = await context.env.DB.prepare(
-        `SELECT tgi.*, tg.user_id 
-         FROM tab_group_items tgi
-         JOIN tab_groups tg ON tgi.group_id = tg.id
-         WHERE tgi.id = ?`
+        'SELECT * FROM tab_group_items WHERE id = ?'
       )
         .bind(itemId)
-        .first<TabGroupItemRow & { user_id: string }>()
+        .first<TabGroupItemRow>()
 
       if (!item) {
         return notFound('Tab group item not found')
       }
 
-      if (item.user_id !== userId) {
+      const access = await getTabGroupAccess(context.env.DB, userId, item.group_id)
+
+      if (!access) {
         return notFound('Tab group item not found')
       }
 
+      if (!canEditTabGroupItems(access.role)) {
+        return forbidden('You do not have permission to edit this tab group')
+      }
+
       // Build update query
       const updates: string[] = []
       const params: (string | number)[] = []
@@ -104,6 +108,10 @@ export const onRequestPatch: PagesFunction<Env, RouteParams, AuthContext>[] = [
         return badRequest('No fields to update')
       }
 
+      // 记录最后修改者，便于协作成员查看是谁改动了标签页项
+      updates.push('updated_by = ?', 'updated_at = ?')
+      params.push(userId, new Date().toISOString())
+
       // Add item ID to params
       params.push(itemId)
 
@@ -144,24 +152,27 @@ export const onRequestDelete: PagesFunction<Env, RouteParams, AuthContext>[] = [
     const itemId = context.params.id
 
     try {
-      // Check if item exists and user has permission
+      // Check if item exists and user has permission (owner or editor member)
       const item = await context.env.DB.prepare(
-        `SELECT tgi.*, tg.user_id 
-         FROM tab_group_items tgi
-         JOIN tab_groups tg ON tgi.group_id = tg.id
-         WHERE tgi.id = ?`
+        'SELECT * FROM tab_group_items WHERE id = ?'
       )
         .bind(itemId)
-        .first<TabGroupItemRow & { user_id: string }>()
+        .first<TabGroupItemRow>()
 
       if (!item) {
         return notFound('Tab group item not found')
       }
 
-      if (item.user_id !== userId) {
+      const access = await getTabGroupAccess(context.env.DB, userId, item.group_id)
+
+      if (!access) {
         return notFound('Tab group item not found')
       }
 
+      if (!canEditTabGroupItems(access.role)) {
+        return forbidden('You do not have permission to edit this tab group')
+      }
+
       // Delete item
       await context.env.DB.prepare('DELETE FROM tab_group_items WHERE id = ?')
         .bind(itemId)
@@ -6,8 +6,9 @@
 
 import type { PagesFunction } from '@cloudflare/workers-types'
 import type { Env, RouteParams } from '../../../../../lib/types'
-import { success, badRequest, notFound, internalError } from '../../../../../lib/response'
+import { success, badRequest, forbidden, notFound, internalError } from '../../../../../lib/response'
 import { requireAuth, AuthContext } from '../../../../../middleware/auth'
+import { canEditTabGroupItems, getTabGroupAccess } from '../../../../../lib/tab-group-members'
 
 interface TabGroupItemRow {
   id: string
@@ -40,43 +41,44 @@ export const onRequestPost: PagesFunction<Env, RouteParams, AuthContext>[] = [
         return badRequest('target_group_id is required')
       }
 
-      // 1. 验证标签页项存在
+      // 1. 验证标签页项存在且当前用户可以访问
       const item = await context.env.DB.prepare(
-        `SELECT tgi.*, tg.user_id 
-         FROM tab_group_items tgi
-         JOIN tab_groups tg ON tgi.group_id = tg.id
-         WHERE tgi.id = ?`
+        'SELECT * FROM tab_group_items WHERE id = ?'
       )
         .bind(itemId)
-        .first<TabGroupItemRow & { user_id: string }>()
+        .first<TabGroupItemRow>()
 
       if (!item) {
         return notFound('Tab group item not found')
       }
 
-      if (item.user_id !== userId) {
+      const sourceAccess = await getTabGroupAccess(context.env.DB, userId, item.group_id)
+
+      if (!sourceAccess) {
         return notFound('Tab group item not found')
       }
 
-      // 2. 验证目标分组存在且属于当前用户
-      const targetGroup = await context.env.DB.prepare(
-        'SELECT id, user_id FROM tab_groups WHERE id = ? AND user_id = ?'
-      )
-        .bind(body.target_group_id, userId)
-        .first<{ id: string; user_id: string }>()
+      // 2. 验证目标分组存在且可以访问；只能在同一所有者的分组之间移动
+      const targetAccess = await getTabGroupAccess(context.env.DB, userId, body.target_group_id)
 
-      if (!targetGroup) {
+      if (!targetAccess || targetAccess.group.user_id !== sourceAccess.group.user_id) {
         return notFound('Target group not found')
       }
 
+      if (!canEditTabGroupItems(sourceAccess.role) || !canEditTabGroupItems(targetAccess.role)) {
+        return forbidden('You do not have permission to edit this tab group')
+      }
+
+      const now = new Date().toISOString()
+
       // 3. 如果目标分组和源分组相同，只更新位置
       if (item.group_id === body.target_group_id) {
         if (body.position !== undefined) {
           // 更新位置
           await context.env.DB.prepare(
-            'UPDATE tab_group_items SET position = ? WHERE id = ?'
+            'UPDATE tab_group_items SET position = ?, updated_by = ?, updated_at = ? WHERE id = ?'
           )
-            .bind(body.position, itemId)
+            .bind(body.position, userId, now, itemId)
             .run()
 
           // 重新排序同组内的其他项
@@ -106,10 +108,10 @@ export const onRequestPost: PagesFunction<Env, RouteParams, AuthContext>[] = [
         // 4.2 更新标签页项的分组和位置
         await context.env.DB.prepare(
           `UPDATE tab_group_items 
-           SET group_id = ?, position = ? 
+           SET group_id = ?, position = ?, updated_by = ?, updated_at = ? 
            WHERE id = ?`
         )
-          .bind(body.target_group_id, targetPosition, itemId)
+          .bind(body.target_group_id, targetPosition, userId, now, itemId)
           .run()
 
         // 4.3 重新排序源分组中的其他项（填补空缺）
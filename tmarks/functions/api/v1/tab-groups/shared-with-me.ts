@@ -0,0 +1,39 @@
+/**
+ * 共享给我的标签页组 API
+ * 路径: /api/v1/tab-groups/shared-with-me
+ * 认证: JWT Token (Bearer)
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env } from '../../../lib/types'
+import { success, internalError } from '../../../lib/response'
+import { requireAuth, AuthContext } from '../../../middleware/auth'
+import { listSharedTabGroups, listTabGroupItems } from '../../../lib/tab-group-members'
+
+// GET /api/v1/tab-groups/shared-with-me - 获取其他用户共享给我的标签页组（包括共享文件夹下的子分组）
+export const onRequestGet: PagesFunction<Env, string, AuthContext>[] = [
+  requireAuth,
+  async (context) => {
+    const userId = context.data.user_id
+
+    try {
+      const groups = await listSharedTabGroups(context.env.DB, userId)
+
+      const tabGroups = await Promise.all(
+        groups.map(async (group) => {
+          const items = await listTabGroupItems(context.env.DB, group.id)
+          return {
+            ...group,
+            items,
+            item_count: items.length,
+          }
+        })
+      )
+
+      return success({ tab_groups: tabGroups })
+    } catch (error) {
+      console.error('Get shared tab groups error:', error)
+      return internalError('Failed to get shared tab groups')
+    }
+  },
+]
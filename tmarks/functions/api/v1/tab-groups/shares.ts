@@ -0,0 +1,49 @@
+/**
+ * 分享链接列表 API
+ * 路径: /api/v1/tab-groups/shares
+ * 认证: JWT Token (Bearer)
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env } from '../../../lib/types'
+import { success, internalError } from '../../../lib/response'
+import { requireAuth, AuthContext } from '../../../middleware/auth'
+import { toShareInfo, type ShareRow } from '../../../lib/tab-group-share'
+
+interface ShareListRow extends ShareRow {
+  group_title: string
+  item_count: number
+}
+
+// GET /api/v1/tab-groups/shares - 获取所有标签页组的分享链接（不含已撤销的）
+export const onRequestGet: PagesFunction<Env, string, AuthContext>[] = [
+  requireAuth,
+  async (context) => {
+    const userId = context.data.user_id
+
+    try {
+      const { results } = await context.env.DB.prepare(
+        `SELECT s.*, g.title AS group_title,
+                (SELECT COUNT(*) FROM tab_group_items i WHERE i.group_id = g.id) AS item_count
+         FROM shares s
+         INNER JOIN tab_groups g ON g.id = s.group_id
+         WHERE s.user_id = ? AND s.revoked_at IS NULL AND g.is_deleted = 0
+         ORDER BY s.created_at DESC`
+      )
+        .bind(userId)
+        .all<ShareListRow>()
+
+      const origin = new URL(context.request.url).origin
+      const shares = (results || []).map(({ group_title, item_count, ...row }) => ({
+        ...toShareInfo(row, origin),
+        group_title,
+        item_count,
+      }))
+
+      return success({ shares })
+    } catch (error) {
+      console.error('List shares error:', error)
+      return internalError('Failed to list shares')
+    }
+  },
+]
@@ -3,10 +3,17 @@ import type { Env, Tag, RouteParams, SQLParam } from '../../../lib/types'
 import { success, badRequest, notFound, noContent, conflict, internalError } from '../../../lib/response'
 import { requireAuth, AuthContext } from '../../../middleware/auth'
 import { sanitizeString } from '../../../lib/validation'
+import { isTagInSubtree, upsertTagAliasStatement } from '../../../lib/tags'
+import { CacheService } from '../../../lib/cache'
+import { createBookmarkCacheManager } from '../../../lib/cache/bookmark-cache'
+import { dispatchWebhookEvent } from '../../../lib/webhooks'
 
 interface UpdateTagRequest {
   name?: string
   color?: string
+  parent_id?: string | null
+  /** 重命名时保留旧名称作为别名（默认 true），旧名称创建/关联标签时会指向本标签 */
+  keep_alias?: boolean
 }
 
 // PATCH /api/v1/tags/:id - 更新标签
@@ -31,6 +38,7 @@ export const onRequestPatch: PagesFunction<Env, RouteParams, AuthContext>[] = [
 
       const updates: string[] = []
       const values: SQLParam[] = []
+      let newName: string | null = null
 
       if (body.name !== undefined) {
         const name = sanitizeString(body.name, 50)
@@ -48,6 +56,7 @@ export const onRequestPatch: PagesFunction<Env, RouteParams, AuthContext>[] = [
 
         updates.push('name = ?')
         values.push(name)
+        newName = name
       }
 
       if (body.color !== undefined) {
@@ -55,6 +64,30 @@ export const onRequestPatch: PagesFunction<Env, RouteParams, AuthContext>[] = [
         values.push(body.color ? sanitizeString(body.color, 20) : null)
       }
 
+      if (body.parent_id !== undefined) {
+        const parentId = body.parent_id || null
+
+        if (parentId) {
+          const parent = await context.env.DB.prepare(
+            'SELECT id FROM tags WHERE id = ? AND user_id = ? AND deleted_at IS NULL'
+          )
+            .bind(parentId, userId)
+            .first()
+
+          if (!parent) {
+            return badRequest('Parent tag not found', 'INVALID_TAG_PARENT')
+          }
+
+          // 不能移动到自身或自己的后代下
+          if (await isTagInSubtree(context.env.DB, tagId, parentId)) {
+            return badRequest('A tag cannot be moved under itself or its descendants', 'INVALID_TAG_PARENT')
+          }
+        }
+
+        updates.push('parent_id = ?')
+        values.push(parentId)
+      }
+
       if (updates.length === 0) {
         return badRequest('No valid fields to update')
       }
@@ -64,9 +97,24 @@ export const onRequestPatch: PagesFunction<Env, RouteParams, AuthContext>[] = [
       values.push(now)
       values.push(tagId)
 
-      await context.env.DB.prepare(`UPDATE tags SET ${updates.join(', ')} WHERE id = ?`)
-        .bind(...values)
-        .run()
+      const statements = [
+        context.env.DB.prepare(`UPDATE tags SET ${updates.join(', ')} WHERE id = ?`).bind(...values),
+      ]
+
+      if (newName !== null && newName.toLowerCase() !== tag.name.toLowerCase()) {
+        // 新名称优先于同名别名
+        statements.push(
+          context.env.DB.prepare('DELETE FROM tag_aliases WHERE user_id = ? AND alias = ?').bind(userId, newName)
+        )
+        if (body.keep_alias !== false) {
+          statements.push(upsertTagAliasStatement(context.env.DB, userId, tagId, tag.name, now))
+        }
+      }
+
+      await context.env.DB.batch(statements)
+
+      // 标签名称与层级会影响书签列表（标签展示、子孙标签筛选）
+      await createBookmarkCacheManager(new CacheService(context.env)).invalidateUserBookmarks(userId)
 
       // 获取更新后的标签
       const updatedTag = await context.env.DB.prepare('SELECT * FROM tags WHERE id = ?')
@@ -91,10 +139,10 @@ export const onRequestDelete: PagesFunction<Env, RouteParams, AuthContext>[] = [
 
       // 检查标签是否存在且属于当前用户
       const tag = await context.env.DB.prepare(
-        'SELECT id FROM tags WHERE id = ? AND user_id = ? AND deleted_at IS NULL'
+        'SELECT id, name, parent_id FROM tags WHERE id = ? AND user_id = ? AND deleted_at IS NULL'
       )
         .bind(tagId, userId)
-        .first()
+        .first<{ id: string; name: string; parent_id: string | null }>()
 
       if (!tag) {
         return notFound('Tag not found')
@@ -102,6 +150,11 @@ export const onRequestDelete: PagesFunction<Env, RouteParams, AuthContext>[] = [
 
       const now = new Date().toISOString()
 
+      // 子标签上移到被删除标签的父级
+      await context.env.DB.prepare('UPDATE tags SET parent_id = ?, updated_at = ? WHERE parent_id = ? AND user_id = ?')
+        .bind(tag.parent_id, now, tagId, userId)
+        .run()
+
       // 软删除标签
       await context.env.DB.prepare('UPDATE tags SET deleted_at = ?, updated_at = ? WHERE id = ?')
         .bind(now, now, tagId)
@@ -112,6 +165,14 @@ export const onRequestDelete: PagesFunction<Env, RouteParams, AuthContext>[] = [
         .bind(tagId)
         .run()
 
+      await context.env.DB.prepare('DELETE FROM tag_aliases WHERE tag_id = ?')
+        .bind(tagId)
+        .run()
+
+      await createBookmarkCacheManager(new CacheService(context.env)).invalidateUserBookmarks(userId)
+
+      context.waitUntil(dispatchWebhookEvent(context.env, userId, 'tag.deleted', { tag }))
+
       return noContent()
     } catch (error) {
       console.error('Delete tag error:', error)
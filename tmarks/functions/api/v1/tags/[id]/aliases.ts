@@ -0,0 +1,112 @@
+/**
+ * 标签别名 API
+ * 路径: /api/v1/tags/:id/aliases
+ * 认证: JWT Token (Bearer)
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env, RouteParams, TagAlias } from '../../../../lib/types'
+import { success, created, badRequest, notFound, conflict, internalError } from '../../../../lib/response'
+import { requireAuth, AuthContext } from '../../../../middleware/auth'
+import { sanitizeString } from '../../../../lib/validation'
+import { generateUUID } from '../../../../lib/crypto'
+
+interface CreateTagAliasRequest {
+  alias?: string
+}
+
+async function findTag(db: D1Database, tagId: string, userId: string) {
+  return db
+    .prepare('SELECT id FROM tags WHERE id = ? AND user_id = ? AND deleted_at IS NULL')
+    .bind(tagId, userId)
+    .first<{ id: string }>()
+}
+
+// GET /api/v1/tags/:id/aliases - 获取标签的别名
+export const onRequestGet: PagesFunction<Env, RouteParams, AuthContext>[] = [
+  requireAuth,
+  async (context) => {
+    try {
+      const userId = context.data.user_id
+      const tagId = context.params.id
+
+      if (!(await findTag(context.env.DB, tagId, userId))) {
+        return notFound('Tag not found')
+      }
+
+      const { results } = await context.env.DB.prepare(
+        'SELECT id, tag_id, alias, created_at FROM tag_aliases WHERE tag_id = ? AND user_id = ? ORDER BY LOWER(alias) ASC'
+      )
+        .bind(tagId, userId)
+        .all<TagAlias>()
+
+      return success({ aliases: results || [] })
+    } catch (error) {
+      console.error('Get tag aliases error:', error)
+      return internalError('Failed to get tag aliases')
+    }
+  },
+]
+
+// POST /api/v1/tags/:id/aliases - 添加别名
+export const onRequestPost: PagesFunction<Env, RouteParams, AuthContext>[] = [
+  requireAuth,
+  async (context) => {
+    try {
+      const userId = context.data.user_id
+      const tagId = context.params.id
+      const body = await context.request.json() as CreateTagAliasRequest
+
+      const alias = body.alias ? sanitizeString(body.alias, 50) : ''
+      if (!alias) {
+        return badRequest('Alias is required')
+      }
+
+      if (!(await findTag(context.env.DB, tagId, userId))) {
+        return notFound('Tag not found')
+      }
+
+      // 同名标签优先于别名，别名不能与现有标签重名
+      const existingTag = await context.env.DB.prepare(
+        'SELECT id FROM tags WHERE user_id = ? AND LOWER(name) = LOWER(?) AND deleted_at IS NULL'
+      )
+        .bind(userId, alias)
+        .first()
+
+      if (existingTag) {
+        return conflict('A tag with this name already exists', 'TAG_NAME_EXISTS')
+      }
+
+      const existingAlias = await context.env.DB.prepare(
+        'SELECT id, tag_id, alias, created_at FROM tag_aliases WHERE user_id = ? AND alias = ?'
+      )
+        .bind(userId, alias)
+        .first<TagAlias>()
+
+      if (existingAlias) {
+        if (existingAlias.tag_id === tagId) {
+          return success({ alias: existingAlias })
+        }
+        return conflict('Alias is already used by another tag', 'ALIAS_EXISTS')
+      }
+
+      const tagAlias: TagAlias = {
+        id: generateUUID(),
+        tag_id: tagId,
+        alias,
+        created_at: new Date().toISOString(),
+      }
+
+      await context.env.DB.prepare(
+        'INSERT INTO tag_aliases (id, user_id, tag_id, alias, created_at) VALUES (?, ?, ?, ?, ?)'
+      )
+        .bind(tagAlias.id, userId, tagId, alias, tagAlias.created_at)
+        .run()
+
+      return created({ alias: tagAlias })
+    } catch (error) {
+      console.error('Create tag alias error:', error)
+      return internalError('Failed to create tag alias')
+    }
+  },
+]
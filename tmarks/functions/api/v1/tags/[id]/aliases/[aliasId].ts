@@ -0,0 +1,37 @@
+/**
+ * 单个标签别名 API
+ * 路径: /api/v1/tags/:id/aliases/:aliasId
+ * 认证: JWT Token (Bearer)
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env } from '../../../../../lib/types'
+import { noContent, notFound, internalError } from '../../../../../lib/response'
+import { requireAuth, AuthContext } from '../../../../../middleware/auth'
+
+// DELETE /api/v1/tags/:id/aliases/:aliasId - 删除别名
+export const onRequestDelete: PagesFunction<Env, 'id' | 'aliasId', AuthContext>[] = [
+  requireAuth,
+  async (context) => {
+    try {
+      const userId = context.data.user_id
+      const tagId = context.params.id as string
+      const aliasId = context.params.aliasId as string
+
+      const result = await context.env.DB.prepare(
+        'DELETE FROM tag_aliases WHERE id = ? AND tag_id = ? AND user_id = ?'
+      )
+        .bind(aliasId, tagId, userId)
+        .run()
+
+      if (!result.meta.changes) {
+        return notFound('Alias not found')
+      }
+
+      return noContent()
+    } catch (error) {
+      console.error('Delete tag alias error:', error)
+      return internalError('Failed to delete tag alias')
+    }
+  },
+]
@@ -0,0 +1,77 @@
+/**
+ * 标签合并 API
+ * 路径: /api/v1/tags/:id/merge
+ * 认证: JWT Token (Bearer)
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env, Tag, RouteParams } from '../../../../lib/types'
+import { success, badRequest, notFound, internalError } from '../../../../lib/response'
+import { requireAuth, AuthContext } from '../../../../middleware/auth'
+import { getTagMergePreview, mergeTags } from '../../../../lib/tags'
+import { CacheService } from '../../../../lib/cache'
+import { createBookmarkCacheManager } from '../../../../lib/cache/bookmark-cache'
+import { invalidatePublicShareCache } from '../../../shared/cache'
+
+interface MergeTagRequest {
+  target_id?: string
+  /** 只返回影响预览，不执行合并 */
+  dry_run?: boolean
+}
+
+// POST /api/v1/tags/:id/merge - 将当前标签合并到目标标签
+export const onRequestPost: PagesFunction<Env, RouteParams, AuthContext>[] = [
+  requireAuth,
+  async (context) => {
+    try {
+      const userId = context.data.user_id
+      const sourceId = context.params.id
+      const body = await context.request.json() as MergeTagRequest
+
+      if (!body.target_id) {
+        return badRequest('target_id is required')
+      }
+
+      if (body.target_id === sourceId) {
+        return badRequest('A tag cannot be merged into itself', 'INVALID_MERGE_TARGET')
+      }
+
+      const { results } = await context.env.DB.prepare(
+        'SELECT * FROM tags WHERE id IN (?, ?) AND user_id = ? AND deleted_at IS NULL'
+      )
+        .bind(sourceId, body.target_id, userId)
+        .all<Tag>()
+
+      const source = results?.find(tag => tag.id === sourceId)
+      const target = results?.find(tag => tag.id === body.target_id)
+
+      if (!source) {
+        return notFound('Tag not found')
+      }
+
+      if (!target) {
+        return notFound('Target tag not found', 'INVALID_MERGE_TARGET')
+      }
+
+      const preview = await getTagMergePreview(context.env.DB, source.id, target.id)
+
+      if (body.dry_run) {
+        return success({ merged: false, preview, tag: target })
+      }
+
+      await mergeTags(context.env.DB, userId, source, target)
+
+      await createBookmarkCacheManager(new CacheService(context.env)).invalidateUserBookmarks(userId)
+      await invalidatePublicShareCache(context.env, userId)
+
+      const mergedTag = await context.env.DB.prepare('SELECT * FROM tags WHERE id = ?')
+        .bind(target.id)
+        .first<Tag>()
+
+      return success({ merged: true, preview, tag: mergedTag })
+    } catch (error) {
+      console.error('Merge tag error:', error)
+      return internalError('Failed to merge tags')
+    }
+  },
+]
@@ -4,10 +4,13 @@ import { success, badRequest, created, conflict, internalError } from '../../../
 import { requireAuth, AuthContext } from '../../../middleware/auth'
 import { sanitizeString } from '../../../lib/validation'
 import { generateUUID } from '../../../lib/crypto'
+import { splitTagPath, ensureTagPath } from '../../../lib/tags'
+import { dispatchWebhookEvent } from '../../../lib/webhooks'
 
 interface CreateTagRequest {
   name: string
   color?: string
+  parent_id?: string | null
 }
 
 interface TagWithCount extends Tag {
@@ -70,8 +73,32 @@ export const onRequestPost: PagesFunction<Env, RouteParams, AuthContext>[] = [
         return badRequest('Tag name is required')
       }
 
-      const name = sanitizeString(body.name, 50)
       const color = body.color ? sanitizeString(body.color, 20) : null
+      let parentId = body.parent_id || null
+      let name = sanitizeString(body.name, 50)
+
+      if (parentId) {
+        const parent = await context.env.DB.prepare(
+          'SELECT id FROM tags WHERE id = ? AND user_id = ? AND deleted_at IS NULL'
+        )
+          .bind(parentId, userId)
+          .first()
+
+        if (!parent) {
+          return badRequest('Parent tag not found', 'INVALID_TAG_PARENT')
+        }
+      } else {
+        // 路径形式（dev/frontend/react）：逐级确保父标签存在，只新建叶子
+        const segments = splitTagPath(body.name)
+        if (segments.length > 1) {
+          parentId = await ensureTagPath(
+            context.env.DB,
+            userId,
+            segments.slice(0, -1).map(segment => sanitizeString(segment, 50))
+          )
+          name = sanitizeString(segments[segments.length - 1]!, 50)
+        }
+      }
 
       // 检查标签是否已存在
       const existing = await context.env.DB.prepare(
@@ -89,16 +116,23 @@ export const onRequestPost: PagesFunction<Env, RouteParams, AuthContext>[] = [
 
       // 创建标签
       await context.env.DB.prepare(
-        `INSERT INTO tags (id, user_id, name, color, created_at, updated_at)
-         VALUES (?, ?, ?, ?, ?, ?)`
+        `INSERT INTO tags (id, user_id, name, color, parent_id, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
       )
-        .bind(tagUuid, userId, name, color, now, now)
+        .bind(tagUuid, userId, name, color, parentId, now, now)
+        .run()
+
+      // 显式创建的标签优先于同名别名
+      await context.env.DB.prepare('DELETE FROM tag_aliases WHERE user_id = ? AND alias = ?')
+        .bind(userId, name)
         .run()
 
       const tag = await context.env.DB.prepare('SELECT * FROM tags WHERE id = ?')
         .bind(tagUuid)
         .first<Tag>()
 
+      context.waitUntil(dispatchWebhookEvent(context.env, userId, 'tag.created', { tag }))
+
       return created({ tag })
     } catch (error) {
       console.error('Create tag error:', error)
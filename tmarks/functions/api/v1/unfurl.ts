@@ -0,0 +1,45 @@
+/**
+ * 网页元数据抓取 API
+ * 路径: /api/v1/unfurl
+ * 认证: JWT Token (Bearer)
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env } from '../../lib/types'
+import { success, badRequest, internalError } from '../../lib/response'
+import { requireAuth, AuthContext } from '../../middleware/auth'
+import { unfurlRateLimiter } from '../../lib/rate-limit'
+import { isValidUrl } from '../../lib/validation'
+import { unfurlUrl } from '../../lib/unfurl'
+
+interface UnfurlRequest {
+  url?: string
+  /** 跳过缓存重新抓取 */
+  refresh?: boolean
+}
+
+// POST /api/v1/unfurl - 抓取 URL 的标题、描述、封面图与图标
+export const onRequestPost: PagesFunction<Env, string, AuthContext>[] = [
+  requireAuth,
+  unfurlRateLimiter,
+  async (context) => {
+    try {
+      const body = await context.request.json() as UnfurlRequest
+      const url = typeof body.url === 'string' ? body.url.trim() : ''
+
+      if (!url || url.length > 2000 || !isValidUrl(url)) {
+        return badRequest('A valid http(s) URL is required')
+      }
+
+      const result = await unfurlUrl(context.env, url, { refresh: body.refresh === true })
+      if (!result.success) {
+        return badRequest({ code: result.code, message: result.message })
+      }
+
+      return success({ metadata: result.metadata, cached: result.cached })
+    } catch (error) {
+      console.error('Unfurl error:', error)
+      return internalError('Failed to unfurl URL')
+    }
+  },
+]
@@ -0,0 +1,31 @@
+/**
+ * 账号状态
+ * - 管理员可以停用账号（users.disabled_at 不为空），停用后无法登录、刷新令牌或通过 API Key 访问
+ * - 已签发的访问令牌在认证中间件中逐次检查，停用立即生效
+ */
+
+import type { D1Database } from '@cloudflare/workers-types'
+
+export const ACCOUNT_DISABLED_CODE = 'ACCOUNT_DISABLED'
+
+export const ACCOUNT_DISABLED_MESSAGE = 'This account has been disabled'
+
+/**
+ * 检查账号是否已被停用
+ * 尚未执行 0117 迁移（没有 disabled_at 字段）时视为正常账号
+ */
+export async function isAccountDisabled(db: D1Database, userId: string): Promise<boolean> {
+  try {
+    const row = await db
+      .prepare('SELECT disabled_at FROM users WHERE id = ?')
+      .bind(userId)
+      .first<{ disabled_at: string | null }>()
+
+    return Boolean(row?.disabled_at)
+  } catch (error) {
+    if (error instanceof Error && /no such column: disabled_at/i.test(error.message)) {
+      return false
+    }
+    throw error
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * 管理后台 - 用户管理
+ * - 用户列表附带书签数、R2 存储占用（快照 + 封面图）和最近登录时间
+ * - 停用账号会同时撤销所有刷新令牌；已签发的访问令牌由认证中间件拦截
+ */
+
+import type { D1Database } from '@cloudflare/workers-types'
+import { generateNanoId } from './crypto'
+
+export interface AdminUserRow {
+  id: string
+  username: string
+  email: string | null
+  role: string
+  created_at: string
+  disabled_at: string | null
+  bookmark_count: number
+  storage_bytes: number
+  last_login_at: string | null
+}
+
+export interface ListAdminUsersOptions {
+  query?: string
+  limit: number
+  offset: number
+}
+
+/** 管理员重置密码时生成的临时密码长度 */
+const TEMPORARY_PASSWORD_LENGTH = 16
+
+const ADMIN_USER_COLUMNS = `u.id, u.username, u.email, u.role, u.created_at, u.disabled_at,
+  (SELECT COUNT(*) FROM bookmarks b WHERE b.user_id = u.id AND b.deleted_at IS NULL) AS bookmark_count,
+  (SELECT COALESCE(SUM(s.file_size), 0) FROM bookmark_snapshots s WHERE s.user_id = u.id)
+    + (SELECT COALESCE(SUM(i.file_size), 0) FROM bookmark_images i WHERE i.user_id = u.id) AS storage_bytes,
+  (SELECT MAX(t.created_at) FROM auth_tokens t WHERE t.user_id = u.id) AS last_login_at`
+
+/**
+ * 分页获取用户列表，query 按用户名或邮箱模糊匹配（不区分大小写）
+ */
+export async function listAdminUsers(
+  db: D1Database,
+  options: ListAdminUsersOptions
+): Promise<{ users: AdminUserRow[]; total: number }> {
+  const pattern = options.query ? `%${options.query.toLowerCase()}%` : null
+  const where = pattern ? 'WHERE LOWER(u.username) LIKE ? OR LOWER(COALESCE(u.email, \'\')) LIKE ?' : ''
+  const whereParams = pattern ? [pattern, pattern] : []
+
+  const [list, count] = await db.batch([
+    db
+      .prepare(
+        `SELECT ${ADMIN_USER_COLUMNS}
+         FROM users u
+         ${where}
+         ORDER BY u.created_at ASC, u.username ASC
+         LIMIT ? OFFSET ?`
+      )
+      .bind(...whereParams, options.limit, options.offset),
+    db.prepare(`SELECT COUNT(*) AS total FROM users u ${where}`).bind(...whereParams),
+  ])
+
+  return {
+    users: (list.results || []) as AdminUserRow[],
+    total: ((count.results || [])[0] as { total: number } | undefined)?.total ?? 0,
+  }
+}
+
+export async function getAdminUser(db: D1Database, userId: string): Promise<AdminUserRow | null> {
+  return db
+    .prepare(`SELECT ${ADMIN_USER_COLUMNS} FROM users u WHERE u.id = ?`)
+    .bind(userId)
+    .first<AdminUserRow>()
+}
+
+/**
+ * 停用或启用账号，停用时撤销该用户所有未撤销的刷新令牌
+ */
+export async function setUserDisabled(db: D1Database, userId: string, disabled: boolean): Promise<void> {
+  const now = new Date().toISOString()
+
+  if (!disabled) {
+    await db
+      .prepare('UPDATE users SET disabled_at = NULL, updated_at = ? WHERE id = ?')
+      .bind(now, userId)
+      .run()
+    return
+  }
+
+  await db.batch([
+    db
+      .prepare('UPDATE users SET disabled_at = COALESCE(disabled_at, ?), updated_at = ? WHERE id = ?')
+      .bind(now, now, userId),
+    db
+      .prepare('UPDATE auth_tokens SET revoked_at = ? WHERE user_id = ? AND revoked_at IS NULL')
+      .bind(now, userId),
+  ])
+}
+
+/**
+ * 重置密码并撤销该用户所有刷新令牌（其他设备需要重新登录）
+ */
+export async function resetUserPassword(db: D1Database, userId: string, passwordHash: string): Promise<void> {
+  const now = new Date().toISOString()
+
+  await db.batch([
+    db
+      .prepare('UPDATE users SET password_hash = ?, updated_at = ? WHERE id = ?')
+      .bind(passwordHash, now, userId),
+    db
+      .prepare('UPDATE auth_tokens SET revoked_at = ? WHERE user_id = ? AND revoked_at IS NULL')
+      .bind(now, userId),
+  ])
+}
+
+export function generateTemporaryPassword(): string {
+  return generateNanoId(TEMPORARY_PASSWORD_LENGTH)
+}
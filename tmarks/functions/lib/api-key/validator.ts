@@ -4,6 +4,7 @@
 
 import { hashApiKey } from './generator'
 import { hasPermission } from '../../../shared/permissions'
+import { isAccountDisabled } from '../account-status'
 
 interface ApiKeyData {
   id: string
@@ -74,7 +75,12 @@ export async function validateApiKey(
       }
     }
 
-    // 6. 解析权限
+    // 6. 检查所属账号是否已被停用
+    if (await isAccountDisabled(db, keyData.user_id)) {
+      return { valid: false, error: 'Account has been disabled' }
+    }
+
+    // 7. 解析权限
     const permissions = JSON.parse(keyData.permissions) as string[]
 
     return {
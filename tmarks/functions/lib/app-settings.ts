@@ -0,0 +1,222 @@
+/**
+ * 运行时设置
+ * - 管理员可以在后台覆盖部分环境变量配置，无需重新部署
+ * - 覆盖值保存在 app_settings 表中（JSON 编码），未覆盖的项继续使用环境变量 / 默认值
+ * - 尚未执行 0117 迁移时视为没有任何覆盖
+ */
+
+import type { D1Database } from '@cloudflare/workers-types'
+
+export interface AppSettings {
+  /** 是否开放注册，默认取 ALLOW_REGISTRATION */
+  allow_registration: boolean
+  /** 每天（UTC）最多注册的账号数，0 表示不限制 */
+  registration_daily_limit: number
+  /** 注册时是否必须提供邀请码 */
+  invite_code_required: boolean
+  /** 普通用户可以创建的邀请码数量，0 表示只有管理员可以创建 */
+  user_invite_quota: number
+  /** R2 总存储配额（字节），null 表示不限制，默认取 R2_MAX_TOTAL_BYTES */
+  r2_max_total_bytes: number | null
+}
+
+export type AppSettingKey = keyof AppSettings
+
+export type AppSettingOverrides = Partial<AppSettings>
+
+export const APP_SETTING_KEYS: AppSettingKey[] = [
+  'allow_registration',
+  'registration_daily_limit',
+  'invite_code_required',
+  'user_invite_quota',
+  'r2_max_total_bytes',
+]
+
+const MAX_REGISTRATION_DAILY_LIMIT = 10000
+
+const MAX_USER_INVITE_QUOTA = 100
+
+function isAppSettingKey(value: unknown): value is AppSettingKey {
+  return typeof value === 'string' && APP_SETTING_KEYS.includes(value as AppSettingKey)
+}
+
+function isNonNegativeInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isSafeInteger(value) && value >= 0
+}
+
+/**
+ * 读取所有覆盖值，忽略无法解析或类型不符的记录
+ */
+export async function loadAppSettingOverrides(db: D1Database): Promise<AppSettingOverrides> {
+  let rows: { key: string; value: string }[] = []
+
+  try {
+    const { results } = await db.prepare('SELECT key, value FROM app_settings').all<{ key: string; value: string }>()
+    rows = results || []
+  } catch (error) {
+    if (error instanceof Error && /no such table: app_settings/i.test(error.message)) {
+      return {}
+    }
+    throw error
+  }
+
+  const overrides: AppSettingOverrides = {}
+
+  for (const row of rows) {
+    let value: unknown
+    try {
+      value = JSON.parse(row.value)
+    } catch {
+      console.warn('[AppSettings] Invalid setting value, ignoring', row.key)
+      continue
+    }
+
+    switch (row.key) {
+      case 'allow_registration':
+        if (typeof value === 'boolean') overrides.allow_registration = value
+        break
+      case 'registration_daily_limit':
+        if (isNonNegativeInteger(value)) overrides.registration_daily_limit = value
+        break
+      case 'invite_code_required':
+        if (typeof value === 'boolean') overrides.invite_code_required = value
+        break
+      case 'user_invite_quota':
+        if (isNonNegativeInteger(value)) overrides.user_invite_quota = value
+        break
+      case 'r2_max_total_bytes':
+        if (value === null || (isNonNegativeInteger(value) && value > 0)) overrides.r2_max_total_bytes = value
+        break
+    }
+  }
+
+  return overrides
+}
+
+export interface AppSettingRecord {
+  key: AppSettingKey
+  updated_by: string | null
+  updated_by_username: string | null
+  updated_at: string
+}
+
+/** 覆盖记录的修改人和修改时间 */
+export async function listAppSettingRecords(db: D1Database): Promise<AppSettingRecord[]> {
+  const { results } = await db
+    .prepare(
+      `SELECT s.key, s.updated_by, u.username AS updated_by_username, s.updated_at
+       FROM app_settings s
+       LEFT JOIN users u ON u.id = s.updated_by
+       ORDER BY s.key ASC`
+    )
+    .all<AppSettingRecord>()
+
+  return (results || []).filter((row) => isAppSettingKey(row.key))
+}
+
+export type AppSettingsPatchValidation =
+  | { valid: true; set: AppSettingOverrides; reset: AppSettingKey[] }
+  | { valid: false; error: string }
+
+/**
+ * 校验设置更新请求
+ * - 传入具体值表示覆盖
+ * - reset 中列出的项移除覆盖；r2_max_total_bytes 传 null 表示「不限制」而非恢复默认
+ */
+export function validateAppSettingsPatch(body: unknown): AppSettingsPatchValidation {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { valid: false, error: 'Request body must be an object' }
+  }
+
+  const input = body as Record<string, unknown>
+  const set: AppSettingOverrides = {}
+  const reset: AppSettingKey[] = []
+
+  for (const key of Object.keys(input)) {
+    if (key !== 'reset' && !isAppSettingKey(key)) {
+      return { valid: false, error: `Unknown setting: ${key}` }
+    }
+  }
+
+  if (input.reset !== undefined) {
+    if (!Array.isArray(input.reset) || !input.reset.every(isAppSettingKey)) {
+      return { valid: false, error: 'reset must be an array of setting keys' }
+    }
+    reset.push(...(input.reset as AppSettingKey[]))
+  }
+
+  if (input.allow_registration !== undefined) {
+    if (typeof input.allow_registration !== 'boolean') {
+      return { valid: false, error: 'allow_registration must be a boolean' }
+    }
+    set.allow_registration = input.allow_registration
+  }
+
+  if (input.registration_daily_limit !== undefined) {
+    const limit = input.registration_daily_limit
+    if (!isNonNegativeInteger(limit) || limit > MAX_REGISTRATION_DAILY_LIMIT) {
+      return { valid: false, error: `registration_daily_limit must be an integer between 0 and ${MAX_REGISTRATION_DAILY_LIMIT}` }
+    }
+    set.registration_daily_limit = limit
+  }
+
+  if (input.invite_code_required !== undefined) {
+    if (typeof input.invite_code_required !== 'boolean') {
+      return { valid: false, error: 'invite_code_required must be a boolean' }
+    }
+    set.invite_code_required = input.invite_code_required
+  }
+
+  if (input.user_invite_quota !== undefined) {
+    const quota = input.user_invite_quota
+    if (!isNonNegativeInteger(quota) || quota > MAX_USER_INVITE_QUOTA) {
+      return { valid: false, error: `user_invite_quota must be an integer between 0 and ${MAX_USER_INVITE_QUOTA}` }
+    }
+    set.user_invite_quota = quota
+  }
+
+  if (input.r2_max_total_bytes !== undefined) {
+    const bytes = input.r2_max_total_bytes
+    if (bytes !== null && !(isNonNegativeInteger(bytes) && bytes > 0)) {
+      return { valid: false, error: 'r2_max_total_bytes must be a positive integer or null' }
+    }
+    set.r2_max_total_bytes = bytes
+  }
+
+  if (reset.some((key) => key in set)) {
+    return { valid: false, error: 'A setting cannot be updated and reset at the same time' }
+  }
+
+  if (Object.keys(set).length === 0 && reset.length === 0) {
+    return { valid: false, error: 'No settings to update' }
+  }
+
+  return { valid: true, set, reset }
+}
+
+/**
+ * 保存覆盖值并移除 reset 中的项
+ */
+export async function saveAppSettings(
+  db: D1Database,
+  set: AppSettingOverrides,
+  reset: AppSettingKey[],
+  updatedBy: string
+): Promise<void> {
+  const now = new Date().toISOString()
+
+  const statements = [
+    ...Object.entries(set).map(([key, value]) =>
+      db
+        .prepare(
+          `INSERT INTO app_settings (key, value, updated_by, updated_at)
+           VALUES (?, ?, ?, ?)
+           ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_by = excluded.updated_by, updated_at = excluded.updated_at`
+        )
+        .bind(key, JSON.stringify(value), updatedBy, now)
+    ),
+    ...reset.map((key) => db.prepare('DELETE FROM app_settings WHERE key = ?').bind(key)),
+  ]
+
+  await db.batch(statements)
+}
@@ -0,0 +1,33 @@
+/**
+ * 审计日志
+ * 写入 audit_logs，记录请求来源 IP 和 User-Agent；写入失败只记录错误，不影响业务操作
+ */
+
+import type { D1Database } from '@cloudflare/workers-types'
+
+export async function recordAuditEvent(
+  db: D1Database,
+  request: Request,
+  userId: string | null,
+  eventType: string,
+  payload: Record<string, unknown>
+): Promise<void> {
+  try {
+    await db
+      .prepare(
+        `INSERT INTO audit_logs (user_id, event_type, payload, ip, user_agent, created_at)
+         VALUES (?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        userId,
+        eventType,
+        JSON.stringify(payload),
+        request.headers.get('CF-Connecting-IP') || 'unknown',
+        request.headers.get('User-Agent') || 'unknown',
+        new Date().toISOString()
+      )
+      .run()
+  } catch (error) {
+    console.error(`Failed to record audit event ${eventType}:`, error)
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * 登录会话
+ * 签发访问令牌和刷新令牌（写入 auth_tokens），并记录登录成功的审计日志
+ * 开启两步验证的账号只有在验证码校验通过后才会调用这里
+ */
+
+import type { D1Database } from '@cloudflare/workers-types'
+import type { Env } from './types'
+import { generateToken, hashRefreshToken, generateUUID } from './crypto'
+import { generateJWT, parseExpiry } from './jwt'
+import { getJwtAccessTokenExpiresIn, getJwtRefreshTokenExpiresIn } from './config'
+import { recordAuditEvent } from './audit-log'
+
+export interface SessionUser {
+  id: string
+  username: string
+  email: string | null
+  role: string
+}
+
+export interface LoginSession {
+  access_token: string
+  refresh_token: string
+  token_type: 'Bearer'
+  expires_in: number
+  user: SessionUser
+}
+
+export async function createLoginSession(
+  db: D1Database,
+  env: Env,
+  request: Request,
+  user: SessionUser,
+  auditPayload: Record<string, unknown>
+): Promise<LoginSession> {
+  // 生成 session_id
+  const sessionId = generateUUID()
+
+  // 计算访问令牌有效期（秒）
+  const accessTokenExpiresInStr = getJwtAccessTokenExpiresIn(env)
+  const accessTokenExpiresIn = parseExpiry(accessTokenExpiresInStr)
+
+  const accessToken = await generateJWT({ sub: user.id, session_id: sessionId }, env.JWT_SECRET, accessTokenExpiresInStr)
+
+  // 生成刷新令牌
+  const refreshToken = generateToken(32)
+  const refreshTokenHash = await hashRefreshToken(refreshToken)
+
+  // 计算刷新令牌过期时间
+  const refreshTokenExpiresIn = parseExpiry(getJwtRefreshTokenExpiresIn(env))
+  const refreshTokenExpiresAt = new Date(Date.now() + refreshTokenExpiresIn * 1000)
+
+  // 存储刷新令牌
+  await db
+    .prepare(
+      `INSERT INTO auth_tokens (user_id, refresh_token_hash, expires_at, created_at)
+       VALUES (?, ?, ?, ?)`
+    )
+    .bind(user.id, refreshTokenHash, refreshTokenExpiresAt.toISOString(), new Date().toISOString())
+    .run()
+
+  // 记录成功的登录
+  await recordAuditEvent(db, request, user.id, 'auth.login_success', { session_id: sessionId, ...auditPayload })
+
+  return {
+    access_token: accessToken,
+    refresh_token: refreshToken,
+    token_type: 'Bearer',
+    expires_in: accessTokenExpiresIn,
+    user,
+  }
+}
@@ -0,0 +1,208 @@
+/**
+ * 书签列表的游标分页
+ *
+ * next_cursor 是不透明字符串（base64url 编码的 JSON），记录生成它的排序方式和最后一条记录的完整排序元组。
+ * 下一页只取排序上严格位于该元组之后的记录（键集分页），不依赖 ID 的大小顺序，
+ * 因此置顶顺序、点击数、更新时间等任何排序下翻页都不会跳过或重复记录。
+ *
+ * 按相关度排序时 FTS 排名随数据变化、无法作为稳定的键，仍使用偏移量，同样编码在游标中。
+ */
+
+import type { BookmarkRow, SQLParam } from './types'
+
+export type CursorValue = string | number | null
+
+/**
+ * 排序键：SQL 表达式（书签表别名为 b）、方向，以及从查询结果行中取得对应值的方法
+ */
+export interface BookmarkSortKey {
+  expr: string
+  direction: 'ASC' | 'DESC'
+  value: (row: BookmarkCursorRow) => CursorValue
+}
+
+export type BookmarkCursorRow = BookmarkRow & { pin_order?: number | null }
+
+export type BookmarkCursor =
+  | { sort: string; values: CursorValue[] }
+  | { sort: string; offset: number }
+
+export type BookmarkCursorResult =
+  | { success: true; cursor: BookmarkCursor | null }
+  | { success: false; message: string }
+
+function isPinnedRow(row: BookmarkCursorRow): boolean {
+  return Number(row.is_pinned) === 1
+}
+
+// 置顶书签排在最前，置顶书签之间按 pin_order 排序
+const PINNED_KEYS: BookmarkSortKey[] = [
+  { expr: 'b.is_pinned', direction: 'DESC', value: row => (isPinnedRow(row) ? 1 : 0) },
+  {
+    expr: 'CASE WHEN b.is_pinned = 1 THEN b.pin_order ELSE NULL END',
+    direction: 'ASC',
+    value: row => (isPinnedRow(row) ? row.pin_order ?? null : null),
+  },
+]
+
+const ID_DESC: BookmarkSortKey = { expr: 'b.id', direction: 'DESC', value: row => row.id }
+
+const CREATED_KEYS: BookmarkSortKey[] = [
+  ...PINNED_KEYS,
+  { expr: 'b.created_at', direction: 'DESC', value: row => row.created_at },
+  ID_DESC,
+]
+
+/** 使用键集游标的排序方式 */
+export const KEYSET_SORTS = ['created', 'updated', 'pinned', 'popular', 'queue'] as const
+export type KeysetSort = typeof KEYSET_SORTS[number]
+
+/**
+ * 各排序方式的排序键，最后一项必须是唯一的 ID 以保证顺序确定
+ */
+export const BOOKMARK_SORT_KEYS: Record<KeysetSort, BookmarkSortKey[]> = {
+  created: CREATED_KEYS,
+  pinned: CREATED_KEYS,
+  updated: [
+    ...PINNED_KEYS,
+    { expr: 'b.updated_at', direction: 'DESC', value: row => row.updated_at },
+    ID_DESC,
+  ],
+  popular: [
+    ...PINNED_KEYS,
+    { expr: 'b.click_count', direction: 'DESC', value: row => row.click_count },
+    { expr: 'b.last_clicked_at', direction: 'DESC', value: row => row.last_clicked_at },
+    ID_DESC,
+  ],
+  // 未读和阅读中按加入时间正序，已读的排在最后、最近读完的在前
+  queue: [
+    {
+      expr: "b.reading_status = 'read'",
+      direction: 'ASC',
+      value: row => (row.reading_status == null ? null : row.reading_status === 'read' ? 1 : 0),
+    },
+    { expr: 'b.read_at', direction: 'DESC', value: row => row.read_at ?? null },
+    { expr: 'b.reading_queued_at', direction: 'ASC', value: row => row.reading_queued_at ?? null },
+    { expr: 'b.id', direction: 'ASC', value: row => row.id },
+  ],
+}
+
+export function isKeysetSort(value: unknown): value is KeysetSort {
+  return typeof value === 'string' && (KEYSET_SORTS as readonly string[]).includes(value)
+}
+
+/**
+ * 排序键对应的 ORDER BY 子句
+ */
+export function buildOrderBy(keys: BookmarkSortKey[]): string {
+  return `ORDER BY ${keys.map(key => `${key.expr} ${key.direction}`).join(', ')}`
+}
+
+/**
+ * 单个排序键上“排在游标值之后”的条件（表达式加括号，避免与比较运算符的优先级混淆）
+ * SQLite 中 NULL 最小：升序时排在最前，降序时排在最后
+ */
+function afterCondition(key: BookmarkSortKey, value: CursorValue, params: SQLParam[]): string {
+  const expr = `(${key.expr})`
+  if (key.direction === 'ASC') {
+    if (value === null) return `${expr} IS NOT NULL`
+    params.push(value)
+    return `${expr} > ?`
+  }
+
+  if (value === null) return '0'
+  params.push(value)
+  return `(${expr} < ? OR ${expr} IS NULL)`
+}
+
+/**
+ * 键集分页条件：(k1, k2, ..., id) 在排序上严格位于游标元组之后
+ * 展开为 k1 之后 OR (k1 相等 AND (k2 之后 OR (k2 相等 AND ...)))
+ */
+export function buildKeysetCondition(
+  keys: BookmarkSortKey[],
+  values: CursorValue[]
+): { sql: string; params: SQLParam[] } {
+  const params: SQLParam[] = []
+
+  const build = (index: number): string => {
+    const key = keys[index]
+    const after = afterCondition(key, values[index], params)
+    if (index === keys.length - 1) {
+      return after
+    }
+    params.push(values[index])
+    return `(${after} OR ((${key.expr}) IS ? AND ${build(index + 1)}))`
+  }
+
+  return { sql: build(0), params }
+}
+
+function base64UrlEncode(text: string): string {
+  const binary = Array.from(new TextEncoder().encode(text), byte => String.fromCharCode(byte)).join('')
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=/g, '')
+}
+
+function base64UrlDecode(data: string): string {
+  let base64 = data.replace(/-/g, '+').replace(/_/g, '/')
+  while (base64.length % 4) {
+    base64 += '='
+  }
+  const binary = atob(base64)
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)))
+}
+
+export function encodeBookmarkCursor(cursor: BookmarkCursor): string {
+  return base64UrlEncode(
+    JSON.stringify('offset' in cursor ? { s: cursor.sort, o: cursor.offset } : { s: cursor.sort, v: cursor.values })
+  )
+}
+
+/**
+ * 记录在该排序下的游标
+ */
+export function cursorFromRow(sort: string, keys: BookmarkSortKey[], row: BookmarkCursorRow): string {
+  return encodeBookmarkCursor({ sort, values: keys.map(key => key.value(row)) })
+}
+
+function isCursorValue(value: unknown): value is CursorValue {
+  return value === null || typeof value === 'string' || (typeof value === 'number' && Number.isFinite(value))
+}
+
+/**
+ * 解析请求中的 page_cursor
+ * 游标必须由同一排序方式生成；keys 为 null 表示该排序使用偏移量游标
+ */
+export function parseBookmarkCursor(
+  pageCursor: string | null | undefined,
+  sort: string,
+  keys: BookmarkSortKey[] | null
+): BookmarkCursorResult {
+  if (!pageCursor) {
+    return { success: true, cursor: null }
+  }
+
+  let payload: { s?: unknown; v?: unknown; o?: unknown }
+  try {
+    payload = JSON.parse(base64UrlDecode(pageCursor))
+  } catch {
+    return { success: false, message: 'Invalid page cursor' }
+  }
+
+  if (!payload || typeof payload !== 'object' || payload.s !== sort) {
+    return { success: false, message: 'Page cursor does not match the requested sort order' }
+  }
+
+  if (keys === null) {
+    if (typeof payload.o !== 'number' || !Number.isInteger(payload.o) || payload.o < 0) {
+      return { success: false, message: 'Invalid page cursor' }
+    }
+    return { success: true, cursor: { sort, offset: payload.o } }
+  }
+
+  if (!Array.isArray(payload.v) || payload.v.length !== keys.length || !payload.v.every(isCursorValue)) {
+    return { success: false, message: 'Invalid page cursor' }
+  }
+
+  return { success: true, cursor: { sort, values: payload.v } }
+}
@@ -0,0 +1,330 @@
+/**
+ * 书签笔记与高亮摘录
+ *
+ * 每个书签可以有多条笔记：
+ * - note: Markdown 笔记
+ * - highlight: 从页面选中的摘录（quote），附带用于重新定位原文的文本选择器，content 为可选批注
+ */
+
+import { generateUUID } from './crypto'
+
+export const MAX_NOTES_PER_BOOKMARK = 200
+const CONTENT_MAX_LENGTH = 20000
+const QUOTE_MAX_LENGTH = 5000
+const SELECTOR_CONTEXT_MAX_LENGTH = 200
+
+export const NOTE_KINDS = ['note', 'highlight'] as const
+export type BookmarkNoteKind = typeof NOTE_KINDS[number]
+
+export const HIGHLIGHT_COLORS = ['yellow', 'green', 'blue', 'pink', 'purple'] as const
+export type HighlightColor = typeof HIGHLIGHT_COLORS[number]
+
+/**
+ * 文本选择器（参考 W3C Web Annotation 的 TextQuoteSelector / TextPositionSelector）
+ * exact 为选中文本，prefix/suffix 为前后文，用于页面变化后重新定位；start/end 为正文中的字符偏移
+ */
+export interface NoteTextSelector {
+  exact: string
+  prefix?: string
+  suffix?: string
+  start?: number
+  end?: number
+}
+
+export interface BookmarkNote {
+  id: string
+  bookmark_id: string
+  kind: BookmarkNoteKind
+  content: string
+  quote: string | null
+  selector: NoteTextSelector | null
+  color: HighlightColor | null
+  created_at: string
+  updated_at: string
+}
+
+export interface BookmarkNoteRow extends Omit<BookmarkNote, 'selector'> {
+  selector: string | null
+}
+
+export interface NoteInput {
+  kind?: unknown
+  content?: unknown
+  quote?: unknown
+  selector?: unknown
+  color?: unknown
+}
+
+type NoteFields = Pick<BookmarkNote, 'kind' | 'content' | 'quote' | 'selector' | 'color'>
+
+export type NoteValidationResult =
+  | { success: true; note: NoteFields }
+  | { success: false; message: string }
+
+const NOTE_COLUMNS = 'id, bookmark_id, kind, content, quote, selector, color, created_at, updated_at'
+
+function parseSelector(input: unknown): NoteTextSelector | null | undefined {
+  if (input === null) return null
+  if (!input || typeof input !== 'object') return undefined
+
+  const raw = input as Record<string, unknown>
+  if (typeof raw.exact !== 'string' || !raw.exact.trim()) return undefined
+
+  const selector: NoteTextSelector = { exact: raw.exact.slice(0, QUOTE_MAX_LENGTH) }
+  if (typeof raw.prefix === 'string' && raw.prefix) {
+    selector.prefix = raw.prefix.slice(-SELECTOR_CONTEXT_MAX_LENGTH)
+  }
+  if (typeof raw.suffix === 'string' && raw.suffix) {
+    selector.suffix = raw.suffix.slice(0, SELECTOR_CONTEXT_MAX_LENGTH)
+  }
+  if (
+    Number.isInteger(raw.start) &&
+    Number.isInteger(raw.end) &&
+    (raw.start as number) >= 0 &&
+    (raw.end as number) > (raw.start as number)
+  ) {
+    selector.start = raw.start as number
+    selector.end = raw.end as number
+  }
+  return selector
+}
+
+export function parseNoteRow(row: BookmarkNoteRow): BookmarkNote {
+  let selector: NoteTextSelector | null = null
+  if (row.selector) {
+    try {
+      selector = JSON.parse(row.selector) as NoteTextSelector
+    } catch {
+      console.warn('Invalid note selector:', row.id)
+    }
+  }
+  return { ...row, selector }
+}
+
+/**
+ * 校验笔记字段；传入 existing 时为部分更新，未提供的字段沿用原值
+ */
+export function validateNoteInput(input: NoteInput, existing?: BookmarkNote): NoteValidationResult {
+  const note: NoteFields = existing
+    ? { kind: existing.kind, content: existing.content, quote: existing.quote, selector: existing.selector, color: existing.color }
+    : { kind: 'note', content: '', quote: null, selector: null, color: null }
+
+  if (input.kind !== undefined) {
+    if (existing && input.kind !== existing.kind) {
+      return { success: false, message: 'Note kind cannot be changed' }
+    }
+    if (!NOTE_KINDS.includes(input.kind as BookmarkNoteKind)) {
+      return { success: false, message: 'Invalid note kind' }
+    }
+    note.kind = input.kind as BookmarkNoteKind
+  }
+
+  if (input.content !== undefined) {
+    if (typeof input.content !== 'string') {
+      return { success: false, message: 'Content must be a string' }
+    }
+    if (input.content.length > CONTENT_MAX_LENGTH) {
+      return { success: false, message: `Content cannot exceed ${CONTENT_MAX_LENGTH} characters` }
+    }
+    note.content = input.content.trim()
+  }
+
+  if (input.quote !== undefined) {
+    if (input.quote !== null && typeof input.quote !== 'string') {
+      return { success: false, message: 'Quote must be a string' }
+    }
+    note.quote = input.quote ? input.quote.trim().slice(0, QUOTE_MAX_LENGTH) || null : null
+  }
+
+  if (input.selector !== undefined) {
+    const selector = parseSelector(input.selector)
+    if (selector === undefined) {
+      return { success: false, message: 'Invalid text selector' }
+    }
+    note.selector = selector
+  }
+
+  if (input.color !== undefined) {
+    if (input.color !== null && !HIGHLIGHT_COLORS.includes(input.color as HighlightColor)) {
+      return { success: false, message: 'Invalid highlight color' }
+    }
+    note.color = input.color as HighlightColor | null
+  }
+
+  if (note.kind === 'highlight') {
+    // 只提供选择器时用选中文本作为摘录
+    note.quote = note.quote || note.selector?.exact || null
+    if (!note.quote) {
+      return { success: false, message: 'Highlight quote is required' }
+    }
+    note.color = note.color || 'yellow'
+  } else {
+    if (!note.content) {
+      return { success: false, message: 'Note content is required' }
+    }
+    note.quote = null
+    note.selector = null
+    note.color = null
+  }
+
+  return { success: true, note }
+}
+
+/**
+ * 确认书签属于当前用户且未删除
+ */
+export async function bookmarkExists(db: D1Database, userId: string, bookmarkId: string): Promise<boolean> {
+  const bookmark = await db
+    .prepare('SELECT id FROM bookmarks WHERE id = ? AND user_id = ? AND deleted_at IS NULL')
+    .bind(bookmarkId, userId)
+    .first()
+  return Boolean(bookmark)
+}
+
+export async function listBookmarkNotes(db: D1Database, userId: string, bookmarkId: string): Promise<BookmarkNote[]> {
+  const { results } = await db
+    .prepare(
+      `SELECT ${NOTE_COLUMNS}
+       FROM bookmark_notes
+       WHERE bookmark_id = ? AND user_id = ?
+       ORDER BY created_at ASC`
+    )
+    .bind(bookmarkId, userId)
+    .all<BookmarkNoteRow>()
+
+  return (results || []).map(parseNoteRow)
+}
+
+export async function getBookmarkNote(
+  db: D1Database,
+  userId: string,
+  bookmarkId: string,
+  noteId: string
+): Promise<BookmarkNote | null> {
+  const row = await db
+    .prepare(`SELECT ${NOTE_COLUMNS} FROM bookmark_notes WHERE id = ? AND bookmark_id = ? AND user_id = ?`)
+    .bind(noteId, bookmarkId, userId)
+    .first<BookmarkNoteRow>()
+
+  return row ? parseNoteRow(row) : null
+}
+
+/**
+ * 创建笔记，超出单个书签的数量上限时返回 null
+ */
+export async function createBookmarkNote(
+  db: D1Database,
+  userId: string,
+  bookmarkId: string,
+  fields: NoteFields
+): Promise<BookmarkNote | null> {
+  const countRow = await db
+    .prepare('SELECT COUNT(*) AS count FROM bookmark_notes WHERE bookmark_id = ? AND user_id = ?')
+    .bind(bookmarkId, userId)
+    .first<{ count: number }>()
+
+  if ((countRow?.count ?? 0) >= MAX_NOTES_PER_BOOKMARK) {
+    return null
+  }
+
+  const now = new Date().toISOString()
+  const note: BookmarkNote = {
+    id: generateUUID(),
+    bookmark_id: bookmarkId,
+    ...fields,
+    created_at: now,
+    updated_at: now,
+  }
+
+  await db
+    .prepare(
+      `INSERT INTO bookmark_notes (id, user_id, bookmark_id, kind, content, quote, selector, color, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .bind(
+      note.id,
+      userId,
+      bookmarkId,
+      note.kind,
+      note.content,
+      note.quote,
+      note.selector ? JSON.stringify(note.selector) : null,
+      note.color,
+      note.created_at,
+      note.updated_at
+    )
+    .run()
+
+  return note
+}
+
+export async function updateBookmarkNote(
+  db: D1Database,
+  userId: string,
+  note: BookmarkNote,
+  fields: NoteFields
+): Promise<BookmarkNote> {
+  const updated: BookmarkNote = { ...note, ...fields, updated_at: new Date().toISOString() }
+
+  await db
+    .prepare(
+      `UPDATE bookmark_notes
+       SET content = ?, quote = ?, selector = ?, color = ?, updated_at = ?
+       WHERE id = ? AND user_id = ?`
+    )
+    .bind(
+      updated.content,
+      updated.quote,
+      updated.selector ? JSON.stringify(updated.selector) : null,
+      updated.color,
+      updated.updated_at,
+      note.id,
+      userId
+    )
+    .run()
+
+  return updated
+}
+
+export async function deleteBookmarkNote(
+  db: D1Database,
+  userId: string,
+  bookmarkId: string,
+  noteId: string
+): Promise<boolean> {
+  const result = await db
+    .prepare('DELETE FROM bookmark_notes WHERE id = ? AND bookmark_id = ? AND user_id = ?')
+    .bind(noteId, bookmarkId, userId)
+    .run()
+  return Boolean(result.meta.changes)
+}
+
+/**
+ * 批量获取书签的笔记数量（列表接口使用）
+ */
+export async function getNoteCounts(db: D1Database, bookmarkIds: string[]): Promise<Map<string, number>> {
+  const counts = new Map<string, number>()
+  if (bookmarkIds.length === 0) return counts
+
+  try {
+    const placeholders = bookmarkIds.map(() => '?').join(',')
+    const { results } = await db
+      .prepare(
+        `SELECT bookmark_id, COUNT(*) AS count
+         FROM bookmark_notes
+         WHERE bookmark_id IN (${placeholders})
+         GROUP BY bookmark_id`
+      )
+      .bind(...bookmarkIds)
+      .all<{ bookmark_id: string; count: number }>()
+
+    for (const row of results || []) {
+      counts.set(row.bookmark_id, row.count)
+    }
+  } catch (error) {
+    // 笔记表不存在时忽略（迁移尚未执行）
+    console.warn('Failed to fetch note counts (table may not exist):', error)
+  }
+
+  return counts
+}
@@ -0,0 +1,487 @@
+/**
+ * 书签列表查询
+ *
+ * GET /api/v1/bookmarks 与智能集合（/api/v1/collections/:id/bookmarks 等）共用，
+ * 保证同一组筛选条件在各处得到相同的结果。
+ */
+
+import type { Bookmark, SQLParam } from './types'
+import type { QueryParams } from './cache/types'
+import { normalizeBookmark } from './bookmark-utils'
+import { tagSubtreeSql } from './tags'
+import { extractSearchHighlights } from './search'
+import type { SearchHighlights, SearchRankColumns } from './search'
+import { parseSearchQuery, compileSearchQuery } from './search-query'
+import type { SearchQueryParseError } from './search-query'
+import { LINK_STATUS_CONDITION, getBookmarkLinkChecks, isLinkCheckStatus } from './link-checker'
+import type { BookmarkLinkCheck, LinkCheckStatus } from './link-checker'
+import { getNoteCounts } from './bookmark-notes'
+import { isReadingStatus } from './reading-state'
+import type { ReadingStatus } from './reading-state'
+import { BOOKMARK_SORT_KEYS, buildKeysetCondition, buildOrderBy, cursorFromRow, encodeBookmarkCursor, parseBookmarkCursor } from './bookmark-cursor'
+import type { BookmarkCursorRow } from './bookmark-cursor'
+
+/** queue: 稍后阅读队列，最早加入的排在前面 */
+export type BookmarkSort = 'created' | 'updated' | 'pinned' | 'popular' | 'relevance' | 'queue'
+
+const BOOKMARK_SORTS: readonly BookmarkSort[] = ['created', 'updated', 'pinned', 'popular', 'relevance', 'queue']
+
+/** 单个筛选条件中最多的标签数（受 D1 参数上限约束） */
+export const MAX_FILTER_TAGS = 20
+
+/**
+ * 书签筛选条件，字段与 GET /api/v1/bookmarks 的查询参数同名
+ */
+export interface BookmarkFilters {
+  keyword?: string
+  tags?: string[]
+  /** 多标签匹配方式：all 交集（默认），any 并集 */
+  tag_mode?: 'all' | 'any'
+  exclude_tags?: string[]
+  /** 父标签同时匹配所有子孙标签 */
+  include_descendants?: boolean
+  archived?: boolean
+  pinned?: boolean
+  link_status?: LinkCheckStatus
+  /** 按阅读状态筛选，多个状态取并集 */
+  reading_status?: ReadingStatus[]
+  /** 未指定时有关键词按相关度排序，否则按创建时间 */
+  sort?: BookmarkSort
+}
+
+export interface BookmarkPageOptions {
+  pageSize: number
+  pageCursor?: string
+}
+
+export interface BookmarkWithTags extends Bookmark {
+  tags: Array<{ id: string; name: string; color: string | null }>
+  search_highlights?: SearchHighlights
+  link_check?: BookmarkLinkCheck
+}
+
+export interface BookmarkListData {
+  bookmarks: BookmarkWithTags[]
+  meta: {
+    page_size: number
+    count: number
+    next_cursor: string | null
+    has_more: boolean
+  }
+}
+
+export type BookmarkListResult =
+  | { success: true; data: BookmarkListData }
+  | { success: false; code: 'INVALID_SEARCH_QUERY' | 'INVALID_PAGE_CURSOR'; message: string; details?: SearchQueryParseError }
+
+/** active: 未删除的书签；trash: 回收站中的书签 */
+export type BookmarkScope = 'active' | 'trash'
+
+/**
+ * 筛选条件编译出的查询片段，参数顺序与 conditions 一致
+ */
+export interface BookmarkFilterQuery {
+  /** 额外的 SELECT 列（FTS 排名与高亮） */
+  select: string
+  /** FTS 表连接子句 */
+  join: string
+  conditions: string[]
+  params: SQLParam[]
+  /** 是否可按相关度排序 */
+  ranked: boolean
+}
+
+export type BookmarkFiltersResult =
+  | { success: true; filters: BookmarkFilters }
+  | { success: false; code: 'TOO_MANY_TAGS'; message: string }
+
+export type BookmarkFilterQueryResult =
+  | { success: true; query: BookmarkFilterQuery }
+  | { success: false; code: 'INVALID_SEARCH_QUERY'; message: string; details: SearchQueryParseError }
+
+function isBookmarkSort(value: unknown): value is BookmarkSort {
+  return typeof value === 'string' && (BOOKMARK_SORTS as readonly string[]).includes(value)
+}
+
+function toIdList(value: unknown): string[] {
+  if (!Array.isArray(value)) return []
+  return [...new Set(value.filter((id): id is string => typeof id === 'string' && id.length > 0))]
+}
+
+/**
+ * 从查询参数解析并校验筛选条件
+ */
+export function parseBookmarkFilters(searchParams: URLSearchParams): BookmarkFiltersResult {
+  return validateBookmarkFilters({
+    keyword: searchParams.get('keyword') || undefined,
+    tags: searchParams.get('tags')?.split(',') ?? [],
+    tag_mode: searchParams.get('tag_mode'),
+    exclude_tags: searchParams.get('exclude_tags')?.split(',') ?? [],
+    include_descendants: searchParams.get('include_descendants') === 'true',
+    archived: searchParams.get('archived') === 'true',
+    pinned: searchParams.get('pinned') === 'true',
+    link_status: searchParams.get('link_status'),
+    reading_status: searchParams.get('reading_status')?.split(',') ?? [],
+    sort: searchParams.get('sort'),
+  })
+}
+
+/**
+ * 规范化筛选条件：丢弃无效值与默认值，标签去重（用于校验请求体和读取已保存的条件）
+ */
+export function normalizeBookmarkFilters(input: unknown): BookmarkFilters {
+  const raw = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>
+  const filters: BookmarkFilters = {}
+
+  const keyword = typeof raw.keyword === 'string' ? raw.keyword.trim() : ''
+  if (keyword) filters.keyword = keyword
+
+  const tags = toIdList(raw.tags)
+  const excludeTags = toIdList(raw.exclude_tags)
+  if (tags.length > 0) filters.tags = tags
+  if (tags.length > 1 && raw.tag_mode === 'any') filters.tag_mode = 'any'
+  if (excludeTags.length > 0) filters.exclude_tags = excludeTags
+  if (raw.include_descendants === true && (tags.length > 0 || excludeTags.length > 0)) {
+    filters.include_descendants = true
+  }
+
+  if (raw.archived === true) filters.archived = true
+  if (raw.pinned === true) filters.pinned = true
+  if (isLinkCheckStatus(typeof raw.link_status === 'string' ? raw.link_status : null)) {
+    filters.link_status = raw.link_status as LinkCheckStatus
+  }
+  const readingStatuses = Array.isArray(raw.reading_status)
+    ? [...new Set(raw.reading_status.filter(isReadingStatus))]
+    : []
+  if (readingStatuses.length > 0) filters.reading_status = readingStatuses
+  if (isBookmarkSort(raw.sort) && raw.sort !== (keyword ? 'relevance' : 'created')) {
+    filters.sort = raw.sort
+  }
+
+  return filters
+}
+
+/**
+ * 规范化并校验请求中的筛选条件：包含和排除的标签合计不能超过 MAX_FILTER_TAGS
+ */
+export function validateBookmarkFilters(input: unknown): BookmarkFiltersResult {
+  const filters = normalizeBookmarkFilters(input)
+
+  if ((filters.tags?.length ?? 0) + (filters.exclude_tags?.length ?? 0) > MAX_FILTER_TAGS) {
+    return { success: false, code: 'TOO_MANY_TAGS', message: `Cannot filter by more than ${MAX_FILTER_TAGS} tags` }
+  }
+
+  return { success: true, filters }
+}
+
+/**
+ * 筛选条件对应的缓存查询参数（游标已编码排序方式，页大小不同的结果也分开缓存）
+ */
+export function toCacheQueryParams(filters: BookmarkFilters, pageSize: number, pageCursor?: string): QueryParams {
+  return {
+    keyword: filters.keyword,
+    tags: filters.tags,
+    tag_mode: filters.tag_mode,
+    exclude_tags: filters.exclude_tags,
+    include_descendants: filters.include_descendants,
+    archived: filters.archived,
+    pinned: filters.pinned,
+    link_status: filters.link_status,
+    reading_status: filters.reading_status,
+    sort: filters.sort,
+    page_size: pageSize,
+    page_cursor: pageCursor || undefined,
+  }
+}
+
+/**
+ * 筛选条件对应的 WHERE 条件（书签表别名为 b），供列表查询和批量操作共用
+ * scope 为 trash 时匹配回收站中的书签（此时不追加默认的归档过滤）
+ */
+export function buildBookmarkFilterQuery(
+  userId: string,
+  filters: BookmarkFilters,
+  scope: BookmarkScope = 'active'
+): BookmarkFilterQueryResult {
+  const keyword = filters.keyword || ''
+  const tagIds = filters.tags ?? []
+  const tagMode = filters.tag_mode === 'any' ? 'any' : 'all'
+  const excludeTagIds = filters.exclude_tags ?? []
+  const includeDescendants = Boolean(filters.include_descendants)
+  const sortBy = filters.sort || (keyword ? 'relevance' : 'created')
+
+  // 解析搜索查询语言（tag:, site:, is: 等运算符）
+  const parsedQuery = keyword ? parseSearchQuery(keyword) : null
+  if (parsedQuery && !parsedQuery.success) {
+    return {
+      success: false,
+      code: 'INVALID_SEARCH_QUERY',
+      message: parsedQuery.error.message,
+      details: parsedQuery.error,
+    }
+  }
+
+  // 构建查询条件（不包含占位符的参数值）
+  const conditions: string[] = [
+    'b.user_id = ?',
+    scope === 'trash' ? 'b.deleted_at IS NOT NULL' : 'b.deleted_at IS NULL',
+  ]
+  const conditionParams: SQLParam[] = [userId]
+
+  // 关键词搜索（FTS5 全文索引按 BM25 排序，运算符编译为参数化条件）
+  const search = parsedQuery?.success ? compileSearchQuery(parsedQuery.query) : null
+
+  if (filters.archived) {
+    conditions.push('b.is_archived = 1')
+  } else if (scope === 'active' && !search?.filtersArchived) {
+    conditions.push('b.is_archived = 0')
+  }
+
+  if (filters.pinned) {
+    conditions.push('b.is_pinned = 1')
+  }
+
+  if (filters.link_status) {
+    conditions.push(LINK_STATUS_CONDITION)
+    conditionParams.push(filters.link_status)
+  }
+
+  if (filters.reading_status) {
+    conditions.push(`b.reading_status IN (${filters.reading_status.map(() => '?').join(',')})`)
+    conditionParams.push(...filters.reading_status)
+  } else if (sortBy === 'queue') {
+    // 队列排序未指定状态时只返回未读和阅读中的书签
+    conditions.push("b.reading_status IN ('unread', 'reading')")
+  }
+
+  if (search) {
+    conditions.push(...search.conditions)
+    conditionParams.push(...search.params)
+  }
+
+  // 标签筛选：all 模式取交集，any 模式取并集
+  if (tagIds.length > 0 && includeDescendants) {
+    // 每个选中标签展开为其子树；all 模式要求命中每棵子树，any 模式命中任一即可
+    const groups = tagMode === 'any' ? [tagIds] : tagIds.map(tagId => [tagId])
+    for (const group of groups) {
+      conditions.push(`b.id IN (
+        SELECT bt.bookmark_id
+        FROM bookmark_tags bt
+        WHERE bt.tag_id IN (${tagSubtreeSql(group.length)})
+      )`)
+      conditionParams.push(...group)
+    }
+  } else if (tagIds.length > 0 && tagMode === 'any') {
+    conditions.push(`b.id IN (
+      SELECT bt.bookmark_id
+      FROM bookmark_tags bt
+      WHERE bt.tag_id IN (${tagIds.map(() => '?').join(',')})
+    )`)
+    conditionParams.push(...tagIds)
+  } else if (tagIds.length > 0) {
+    conditions.push(`b.id IN (
+      SELECT bt.bookmark_id
+      FROM bookmark_tags bt
+      WHERE bt.tag_id IN (${tagIds.map(() => '?').join(',')})
+      GROUP BY bt.bookmark_id
+      HAVING COUNT(DISTINCT bt.tag_id) = ?
+    )`)
+    conditionParams.push(...tagIds, tagIds.length)
+  }
+
+  // 排除标签：带有任一排除标签的书签都不返回
+  if (excludeTagIds.length > 0) {
+    conditions.push(`b.id NOT IN (
+      SELECT bt.bookmark_id
+      FROM bookmark_tags bt
+      WHERE bt.tag_id IN (${includeDescendants ? tagSubtreeSql(excludeTagIds.length) : excludeTagIds.map(() => '?').join(',')})
+    )`)
+    conditionParams.push(...excludeTagIds)
+  }
+
+  return {
+    success: true,
+    query: {
+      select: search?.select ?? '',
+      join: search?.join ?? '',
+      conditions,
+      params: conditionParams,
+      ranked: Boolean(search?.ranked),
+    },
+  }
+}
+
+/**
+ * 按筛选条件查询一页书签（含标签、快照数与链接检测结果）
+ * 关键词语法错误或游标无效时返回 success: false
+ */
+export async function listBookmarks(
+  db: D1Database,
+  userId: string,
+  filters: BookmarkFilters,
+  { pageSize, pageCursor = '' }: BookmarkPageOptions
+): Promise<BookmarkListResult> {
+  const sortBy = filters.sort || (filters.keyword ? 'relevance' : 'created')
+
+  const filterQuery = buildBookmarkFilterQuery(userId, filters)
+  if (!filterQuery.success) {
+    return filterQuery
+  }
+  const { select, join, conditions, params: conditionParams, ranked } = filterQuery.query
+
+  // 按相关度排序时使用偏移量游标，其余排序使用携带完整排序元组的键集游标
+  // （没有可排名的搜索词时相关度排序退化为按创建时间）
+  const sortByRelevance = sortBy === 'relevance' && ranked
+  const sortKeys = sortByRelevance ? null : BOOKMARK_SORT_KEYS[sortBy === 'relevance' ? 'created' : sortBy]
+  const parsedCursor = parseBookmarkCursor(pageCursor, sortBy, sortKeys)
+  if (!parsedCursor.success) {
+    return { success: false, code: 'INVALID_PAGE_CURSOR', message: parsedCursor.message }
+  }
+  const cursor = parsedCursor.cursor
+  const pageOffset = cursor && 'offset' in cursor ? cursor.offset : 0
+
+  if (cursor && sortKeys && 'values' in cursor) {
+    const keyset = buildKeysetCondition(sortKeys, cursor.values)
+    conditions.push(keyset.sql)
+    conditionParams.push(...keyset.params)
+  }
+
+  let query = `
+    SELECT b.*${select}
+    FROM bookmarks b
+    ${join}
+    WHERE ${conditions.join(' AND ')}
+  `
+  const params: SQLParam[] = conditionParams
+
+  // 排序（置顶书签按 pin_order 排序）
+  const orderBy = sortKeys ? buildOrderBy(sortKeys) : 'ORDER BY search_rank ASC, b.id DESC'
+
+  query += ` ${orderBy} LIMIT ?`
+  params.push(pageSize + 1) // 多获取一条以判断是否有下一页
+
+  if (!sortKeys) {
+    query += ' OFFSET ?'
+    params.push(pageOffset)
+  }
+
+  // 执行查询
+  const { results: rows } = await db.prepare(query).bind(...params).all<BookmarkCursorRow & SearchRankColumns>()
+
+  // 剥离排名/高亮列
+  const highlightsById = new Map<string, SearchHighlights>()
+  const results: BookmarkCursorRow[] = rows.map(row => {
+    const { row: bookmark, highlights } = extractSearchHighlights(row)
+    if (highlights) {
+      highlightsById.set(bookmark.id, highlights)
+    }
+    return bookmark
+  })
+
+  // 判断是否有下一页
+  const hasMore = results.length > pageSize
+  const bookmarks = hasMore ? results.slice(0, pageSize) : results
+
+  // 获取下一页游标（最后一条记录的排序元组；相关度排序时为偏移量）
+  let nextCursor: string | null = null
+  if (hasMore && bookmarks.length > 0) {
+    nextCursor = sortKeys
+      ? cursorFromRow(sortBy, sortKeys, bookmarks[bookmarks.length - 1])
+      : encodeBookmarkCursor({ sort: sortBy, offset: pageOffset + bookmarks.length })
+  }
+
+  // 优化：使用单次查询获取所有书签的标签
+  const bookmarkIds = bookmarks.map(b => b.id)
+
+  // 一次性获取所有书签的标签
+  let allTags: Array<{ bookmark_id: string; id: string; name: string; color: string | null }> = []
+
+  if (bookmarkIds.length > 0) {
+    const placeholders = bookmarkIds.map(() => '?').join(',')
+    const { results: tagResults } = await db.prepare(
+      `SELECT
+         bt.bookmark_id,
+         t.id,
+         t.name,
+         t.color
+       FROM tags t
+       INNER JOIN bookmark_tags bt ON t.id = bt.tag_id
+       WHERE bt.bookmark_id IN (${placeholders})
+         AND t.deleted_at IS NULL
+       ORDER BY bt.bookmark_id, t.name`
+    )
+      .bind(...bookmarkIds)
+      .all<{ bookmark_id: string; id: string; name: string; color: string | null }>()
+
+    allTags = tagResults ?? []
+  }
+
+  // 将标签按书签ID分组
+  const tagsByBookmarkId = new Map<string, Array<{ id: string; name: string; color: string | null }>>()
+  for (const tag of allTags || []) {
+    if (!tagsByBookmarkId.has(tag.bookmark_id)) {
+      tagsByBookmarkId.set(tag.bookmark_id, [])
+    }
+    const tags = tagsByBookmarkId.get(tag.bookmark_id)
+    if (tags) {
+      tags.push({
+        id: tag.id,
+        name: tag.name,
+        color: tag.color,
+      })
+    }
+  }
+
+  // 一次性获取所有书签的快照数量
+  const snapshotCounts = new Map<string, number>()
+
+  if (bookmarkIds.length > 0) {
+    try {
+      const placeholders = bookmarkIds.map(() => '?').join(',')
+      const { results: countResults } = await db.prepare(
+        `SELECT bookmark_id, COUNT(*) as count
+         FROM bookmark_snapshots
+         WHERE bookmark_id IN (${placeholders})
+         GROUP BY bookmark_id`
+      )
+        .bind(...bookmarkIds)
+        .all<{ bookmark_id: string; count: number }>()
+
+      for (const row of countResults || []) {
+        snapshotCounts.set(row.bookmark_id, row.count)
+      }
+    } catch (snapshotError) {
+      // 如果快照表不存在，忽略错误（向后兼容）
+      console.warn('Failed to fetch snapshot counts (table may not exist):', snapshotError)
+    }
+  }
+
+  // 一次性获取所有书签的笔记数量
+  const noteCounts = await getNoteCounts(db, bookmarkIds)
+
+  // 一次性获取所有书签的链接检测结果
+  const linkChecks = await getBookmarkLinkChecks(db, bookmarks)
+
+  // 组装书签和标签数据
+  const bookmarksWithTags: BookmarkWithTags[] = bookmarks.map(bookmark => ({
+    ...normalizeBookmark(bookmark),
+    tags: tagsByBookmarkId.get(bookmark.id) || [],
+    snapshot_count: snapshotCounts.get(bookmark.id) || 0,
+    note_count: noteCounts.get(bookmark.id) || 0,
+    ...(linkChecks.has(bookmark.id) ? { link_check: linkChecks.get(bookmark.id) } : {}),
+    ...(highlightsById.has(bookmark.id) ? { search_highlights: highlightsById.get(bookmark.id) } : {}),
+  }))
+
+  return {
+    success: true,
+    data: {
+      bookmarks: bookmarksWithTags,
+      meta: {
+        page_size: pageSize,
+        count: bookmarks.length,
+        next_cursor: nextCursor,
+        has_more: hasMore,
+      },
+    },
+  }
+}
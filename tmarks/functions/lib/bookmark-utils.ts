@@ -13,5 +13,7 @@ export function normalizeBookmark(row: BookmarkRow): Bookmark {
     click_count: Number(row.click_count || 0),
     has_snapshot: Boolean(row.has_snapshot),
     snapshot_count: Number(row.snapshot_count || 0),
+    reading_status: row.reading_status ?? null,
+    reading_progress: Number(row.reading_progress || 0),
   }
 }
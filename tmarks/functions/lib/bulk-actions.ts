@@ -0,0 +1,974 @@
+/**
+ * 书签批量操作
+ *
+ * 操作对象可以是明确的书签 ID 列表，也可以是筛选条件（与书签列表查询相同的 BookmarkFilters）。
+ * 每次执行只处理一批 ID（受 D1 单条语句 100 个参数的限制），按条件执行时逐批推进：
+ * - 匹配数量不超过 BULK_SYNC_LIMIT 时在请求内同步执行
+ * - 超过时创建 bulk_jobs 任务在后台执行，任务按书签 ID 升序推进并记录进度，中断后可从断点继续；
+ *   客户端不再查询进度时，由定时维护任务 resume_bulk_jobs 接手
+ */
+
+import type { Env, SQLParam } from './types'
+import { canonicalizeUrl, type CanonicalUrlRules } from './canonical-url'
+import { buildBookmarkFilterQuery, normalizeBookmarkFilters, type BookmarkFilters, type BookmarkScope } from './bookmark-query'
+import type { SearchQueryParseError } from './search-query'
+import { ensureTagsByName } from './tags'
+import { generateUUID } from './crypto'
+import { dispatchWebhookEventBatch } from './webhooks'
+
+export type BulkActionType =
+  | 'delete'
+  | 'restore'
+  | 'update_tags'
+  | 'add_tags'
+  | 'pin'
+  | 'unpin'
+  | 'archive'
+  | 'unarchive'
+  | 'set_public'
+  | 'set_private'
+  | 'fix_redirects'
+  | 'replace_url_prefix'
+
+export const BULK_ACTIONS: readonly BulkActionType[] = [
+  'delete',
+  'restore',
+  'update_tags',
+  'add_tags',
+  'pin',
+  'unpin',
+  'archive',
+  'unarchive',
+  'set_public',
+  'set_private',
+  'fix_redirects',
+  'replace_url_prefix',
+]
+
+/** 每批处理的书签数（为 user_id 等参数留出余量） */
+export const BULK_CHUNK_SIZE = 90
+/** 按 ID 列表操作时的最大数量 */
+export const BULK_MAX_IDS = 100
+/** 按条件操作时在请求内同步执行的最大匹配数，超过则创建后台任务 */
+export const BULK_SYNC_LIMIT = 100
+/** 一次按名称添加的最大标签数 */
+export const BULK_MAX_TAG_NAMES = 20
+/** 任务最多保留的错误条数 */
+const MAX_JOB_ERRORS = 100
+/** 任务租约时长，超时未续约的任务可被其他请求接手 */
+const JOB_LEASE_MS = 60 * 1000
+/** 单次运行任务的时间预算（waitUntil 在响应后最多继续执行约 30 秒） */
+const JOB_TIME_BUDGET_MS = 20 * 1000
+
+export interface BulkActionParams {
+  /** update_tags、add_tags：要添加的标签 ID（add_tags 由 tag_names 解析得到） */
+  add_tag_ids?: string[]
+  /** update_tags：要移除的标签 ID */
+  remove_tag_ids?: string[]
+  /** replace_url_prefix：原前缀与新前缀 */
+  url_prefix_from?: string
+  url_prefix_to?: string
+}
+
+export interface BulkActionError {
+  bookmark_id: string
+  message: string
+}
+
+/** 被删除的书签（用于 bookmark.deleted Webhook） */
+export interface BulkDeletedBookmark {
+  id: string
+  title: string
+  url: string
+}
+
+export interface BulkChunkResult {
+  affected: number
+  errors: BulkActionError[]
+  /** delete：本批实际删除的书签 */
+  deleted?: BulkDeletedBookmark[]
+  /** 修改类操作：本批实际修改的书签 ID（用于 bookmark.updated Webhook） */
+  updated?: string[]
+}
+
+export type BulkJobStatus = 'pending' | 'running' | 'completed' | 'failed'
+
+export interface BulkJob {
+  id: string
+  action: BulkActionType
+  status: BulkJobStatus
+  total_count: number
+  processed_count: number
+  affected_count: number
+  errors: BulkActionError[]
+  error: string | null
+  created_at: string
+  updated_at: string
+  completed_at: string | null
+}
+
+interface BulkJobRow {
+  id: string
+  user_id: string
+  action: BulkActionType
+  query: string
+  params: string
+  status: BulkJobStatus
+  total_count: number
+  processed_count: number
+  affected_count: number
+  errors: string | null
+  last_bookmark_id: string | null
+  locked_until: string | null
+  error: string | null
+  created_at: string
+  updated_at: string
+  completed_at: string | null
+}
+
+export type BulkParamsResult =
+  | { success: true; params: BulkActionParams }
+  | { success: false; message: string }
+
+export type BulkTargetResult =
+  | { success: true; from: string; conditions: string[]; params: SQLParam[] }
+  | { success: false; code: 'INVALID_SEARCH_QUERY'; message: string; details: SearchQueryParseError }
+
+// 只修改一个标志位的操作
+const FLAG_ACTIONS: Partial<Record<BulkActionType, { column: string; value: number }>> = {
+  pin: { column: 'is_pinned', value: 1 },
+  unpin: { column: 'is_pinned', value: 0 },
+  archive: { column: 'is_archived', value: 1 },
+  unarchive: { column: 'is_archived', value: 0 },
+  set_public: { column: 'is_public', value: 1 },
+  set_private: { column: 'is_public', value: 0 },
+}
+
+// 审计日志事件名（沿用已有的 batch_* 命名）
+const AUDIT_EVENTS: Record<BulkActionType, string> = {
+  delete: 'batch_delete_bookmarks',
+  restore: 'batch_restore_bookmarks',
+  update_tags: 'batch_update_tags',
+  add_tags: 'batch_update_tags',
+  pin: 'batch_pin_bookmarks',
+  unpin: 'batch_unpin_bookmarks',
+  archive: 'batch_archive_bookmarks',
+  unarchive: 'batch_unarchive_bookmarks',
+  set_public: 'batch_set_public_bookmarks',
+  set_private: 'batch_set_private_bookmarks',
+  fix_redirects: 'batch_fix_redirects',
+  replace_url_prefix: 'batch_replace_url_prefix',
+}
+
+export function isBulkAction(value: unknown): value is BulkActionType {
+  return typeof value === 'string' && (BULK_ACTIONS as readonly string[]).includes(value)
+}
+
+/**
+ * 操作针对的书签范围：恢复针对回收站，其余针对未删除的书签
+ */
+export function bulkActionScope(action: BulkActionType | null): BookmarkScope {
+  return action === 'restore' ? 'trash' : 'active'
+}
+
+function toStringList(value: unknown): string[] {
+  if (!Array.isArray(value)) return []
+  return [...new Set(value.filter((item): item is string => typeof item === 'string').map(item => item.trim()).filter(Boolean))]
+}
+
+function isHttpPrefix(value: string): boolean {
+  try {
+    const url = new URL(value)
+    return url.protocol === 'http:' || url.protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+/**
+ * 校验操作参数（不访问数据库）
+ */
+export function validateBulkActionParams(action: BulkActionType, input: Record<string, unknown>): BulkParamsResult {
+  switch (action) {
+    case 'update_tags': {
+      const addTagIds = toStringList(input.add_tag_ids)
+      const removeTagIds = toStringList(input.remove_tag_ids)
+      if (addTagIds.length === 0 && removeTagIds.length === 0) {
+        return { success: false, message: 'add_tag_ids or remove_tag_ids is required' }
+      }
+      if (addTagIds.length > BULK_MAX_TAG_NAMES || removeTagIds.length > BULK_MAX_TAG_NAMES) {
+        return { success: false, message: `Cannot add or remove more than ${BULK_MAX_TAG_NAMES} tags at once` }
+      }
+      return { success: true, params: { add_tag_ids: addTagIds, remove_tag_ids: removeTagIds } }
+    }
+    case 'add_tags': {
+      const tagNames = toStringList(input.tag_names)
+      if (tagNames.length === 0 || tagNames.length > BULK_MAX_TAG_NAMES) {
+        return { success: false, message: `tag_names must contain 1-${BULK_MAX_TAG_NAMES} names` }
+      }
+      if (tagNames.some(name => name.length > 50)) {
+        return { success: false, message: 'Tag names must be at most 50 characters' }
+      }
+      return { success: true, params: {} }
+    }
+    case 'replace_url_prefix': {
+      const from = typeof input.url_prefix_from === 'string' ? input.url_prefix_from.trim() : ''
+      const to = typeof input.url_prefix_to === 'string' ? input.url_prefix_to.trim() : ''
+      if (!isHttpPrefix(from) || !isHttpPrefix(to)) {
+        return { success: false, message: 'url_prefix_from and url_prefix_to must be http(s) URLs' }
+      }
+      if (from === to) {
+        return { success: false, message: 'url_prefix_from and url_prefix_to must differ' }
+      }
+      return { success: true, params: { url_prefix_from: from, url_prefix_to: to } }
+    }
+    default:
+      return { success: true, params: {} }
+  }
+}
+
+/**
+ * 准备执行参数：add_tags 按名称查找或创建标签，update_tags 只保留属于用户的标签
+ */
+export async function prepareBulkActionParams(
+  db: D1Database,
+  userId: string,
+  action: BulkActionType,
+  input: Record<string, unknown>,
+  params: BulkActionParams
+): Promise<BulkActionParams> {
+  if (action === 'add_tags') {
+    const tagMap = await ensureTagsByName(db, userId, toStringList(input.tag_names))
+    return { add_tag_ids: [...new Set(tagMap.values())] }
+  }
+
+  if (action === 'update_tags' && params.add_tag_ids && params.add_tag_ids.length > 0) {
+    const { results } = await db
+      .prepare(
+        `SELECT id FROM tags
+         WHERE id IN (${params.add_tag_ids.map(() => '?').join(',')})
+           AND user_id = ?
+           AND deleted_at IS NULL`
+      )
+      .bind(...params.add_tag_ids, userId)
+      .all<{ id: string }>()
+    return { ...params, add_tag_ids: (results || []).map(row => row.id) }
+  }
+
+  return params
+}
+
+/**
+ * URL 以指定前缀开头的条件
+ * 前缀长度由 SQLite 的 length() 按字符计算，不能绑定 JS 的 length（按 UTF-16 码元计数，含非 BMP 字符时不一致）
+ */
+function urlPrefixCondition(column: string, prefix: string): { condition: string; params: SQLParam[] } {
+  return { condition: `substr(${column}, 1, length(?)) = ?`, params: [prefix, prefix] }
+}
+
+/**
+ * 操作本身附加的匹配条件（替换 URL 前缀只作用于以该前缀开头的书签）
+ */
+function actionConditions(action: BulkActionType, params: BulkActionParams): { conditions: string[]; params: SQLParam[] } {
+  if (action === 'replace_url_prefix' && params.url_prefix_from) {
+    const prefix = urlPrefixCondition('b.url', params.url_prefix_from)
+    return { conditions: [prefix.condition], params: prefix.params }
+  }
+  return { conditions: [], params: [] }
+}
+
+/**
+ * 按条件操作时的 FROM/WHERE 片段
+ */
+export function buildBulkTarget(
+  userId: string,
+  action: BulkActionType | null,
+  filters: BookmarkFilters,
+  params: BulkActionParams = {}
+): BulkTargetResult {
+  const filterQuery = buildBookmarkFilterQuery(userId, filters, bulkActionScope(action))
+  if (!filterQuery.success) {
+    return filterQuery
+  }
+
+  const { join, conditions, params: conditionParams } = filterQuery.query
+  const extra = action ? actionConditions(action, params) : { conditions: [], params: [] }
+  return {
+    success: true,
+    from: `bookmarks b ${join}`,
+    conditions: [...conditions, ...extra.conditions],
+    params: [...conditionParams, ...extra.params],
+  }
+}
+
+/**
+ * 统计匹配条件的书签数（dry run）
+ */
+export async function countBulkTarget(
+  db: D1Database,
+  target: Extract<BulkTargetResult, { success: true }>
+): Promise<number> {
+  const row = await db
+    .prepare(`SELECT COUNT(DISTINCT b.id) AS count FROM ${target.from} WHERE ${target.conditions.join(' AND ')}`)
+    .bind(...target.params)
+    .first<{ count: number }>()
+  return row?.count ?? 0
+}
+
+/**
+ * 统计 ID 列表中属于用户且在操作范围内的书签数（dry run）
+ */
+export async function countBulkIds(
+  db: D1Database,
+  userId: string,
+  action: BulkActionType | null,
+  bookmarkIds: string[],
+  params: BulkActionParams = {}
+): Promise<number> {
+  const extra = action ? actionConditions(action, params) : { conditions: [], params: [] }
+  let count = 0
+
+  for (const ids of chunkIds(bookmarkIds)) {
+    const row = await db
+      .prepare(
+        `SELECT COUNT(*) AS count FROM bookmarks b
+         WHERE b.id IN (${ids.map(() => '?').join(',')})
+           AND b.user_id = ?
+           AND b.deleted_at IS ${bulkActionScope(action) === 'trash' ? 'NOT NULL' : 'NULL'}
+           ${extra.conditions.map(condition => `AND ${condition}`).join(' ')}`
+      )
+      .bind(...ids, userId, ...extra.params)
+      .first<{ count: number }>()
+    count += row?.count ?? 0
+  }
+
+  return count
+}
+
+/**
+ * 将 ID 列表按 BULK_CHUNK_SIZE 分批
+ */
+export function chunkIds(bookmarkIds: string[]): string[][] {
+  const chunks: string[][] = []
+  for (let i = 0; i < bookmarkIds.length; i += BULK_CHUNK_SIZE) {
+    chunks.push(bookmarkIds.slice(i, i + BULK_CHUNK_SIZE))
+  }
+  return chunks
+}
+
+/**
+ * 取下一批匹配条件的书签 ID（按 ID 升序，从 afterId 之后开始）
+ */
+async function nextTargetIds(
+  db: D1Database,
+  target: Extract<BulkTargetResult, { success: true }>,
+  afterId: string | null
+): Promise<string[]> {
+  const conditions = afterId ? [...target.conditions, 'b.id > ?'] : target.conditions
+  const params = afterId ? [...target.params, afterId] : target.params
+  const { results } = await db
+    .prepare(
+      `SELECT DISTINCT b.id FROM ${target.from}
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY b.id ASC
+       LIMIT ?`
+    )
+    .bind(...params, BULK_CHUNK_SIZE)
+    .all<{ id: string }>()
+  return (results || []).map(row => row.id)
+}
+
+async function updateTags(
+  db: D1Database,
+  userId: string,
+  bookmarkIds: string[],
+  params: BulkActionParams
+): Promise<BulkChunkResult> {
+  const { results } = await db
+    .prepare(
+      `SELECT id FROM bookmarks
+       WHERE id IN (${bookmarkIds.map(() => '?').join(',')})
+         AND user_id = ?
+         AND deleted_at IS NULL`
+    )
+    .bind(...bookmarkIds, userId)
+    .all<{ id: string }>()
+  const validIds = (results || []).map(row => row.id)
+  if (validIds.length === 0) {
+    return { affected: 0, errors: [], updated: [] }
+  }
+
+  const now = new Date().toISOString()
+  const bookmarkPlaceholders = validIds.map(() => '?').join(',')
+  const addTagIds = params.add_tag_ids ?? []
+  const removeTagIds = params.remove_tag_ids ?? []
+  const statements: D1PreparedStatement[] = []
+
+  // 每个标签一条语句，参数数量不超过 D1 的上限
+  for (const tagId of removeTagIds) {
+    statements.push(
+      db
+        .prepare(
+          `DELETE FROM bookmark_tags
+           WHERE bookmark_id IN (${bookmarkPlaceholders})
+             AND tag_id = ?
+             AND user_id = ?`
+        )
+        .bind(...validIds, tagId, userId)
+    )
+  }
+
+  for (const tagId of addTagIds) {
+    statements.push(
+      db
+        .prepare(
+          `INSERT OR IGNORE INTO bookmark_tags (bookmark_id, tag_id, user_id, created_at)
+           SELECT id, ?, user_id, ? FROM bookmarks WHERE id IN (${bookmarkPlaceholders})`
+        )
+        .bind(tagId, now, ...validIds)
+    )
+  }
+
+  // 更新涉及标签的使用次数
+  for (const tagId of new Set([...addTagIds, ...removeTagIds])) {
+    statements.push(
+      db
+        .prepare(
+          `UPDATE tags
+           SET usage_count = (SELECT COUNT(*) FROM bookmark_tags WHERE tag_id = ? AND user_id = ?)
+           WHERE id = ? AND user_id = ?`
+        )
+        .bind(tagId, userId, tagId, userId)
+    )
+  }
+
+  statements.push(
+    db
+      .prepare(`UPDATE bookmarks SET updated_at = ? WHERE id IN (${bookmarkPlaceholders}) AND user_id = ?`)
+      .bind(now, ...validIds, userId)
+  )
+
+  await db.batch(statements)
+  return { affected: validIds.length, errors: [], updated: validIds }
+}
+
+/**
+ * 将书签 URL 改为 newUrls 中的地址；bookmarks 上有 UNIQUE(user_id, url)，
+ * 目标地址已被其他书签（含回收站）占用时跳过并记录错误
+ */
+async function rewriteUrls(
+  db: D1Database,
+  userId: string,
+  newUrls: Array<{ id: string; url: string }>,
+  canonicalRules: CanonicalUrlRules,
+  conflictMessage: string,
+  extraStatements: (id: string, url: string) => D1PreparedStatement[] = () => []
+): Promise<BulkChunkResult> {
+  const errors: BulkActionError[] = []
+  if (newUrls.length === 0) {
+    return { affected: 0, errors, updated: [] }
+  }
+
+  const targetUrls = [...new Set(newUrls.map(row => row.url))]
+  const { results } = await db
+    .prepare(`SELECT url FROM bookmarks WHERE user_id = ? AND url IN (${targetUrls.map(() => '?').join(',')})`)
+    .bind(userId, ...targetUrls)
+    .all<{ url: string }>()
+  const takenUrls = new Set((results || []).map(row => row.url))
+
+  const now = new Date().toISOString()
+  const statements: D1PreparedStatement[] = []
+  const updatedIds: string[] = []
+  for (const { id, url } of newUrls) {
+    if (takenUrls.has(url)) {
+      errors.push({ bookmark_id: id, message: conflictMessage })
+      continue
+    }
+    takenUrls.add(url)
+    updatedIds.push(id)
+    statements.push(
+      db
+        .prepare(
+          `UPDATE bookmarks
+           SET url = ?, canonical_url = ?, updated_at = ?
+           WHERE id = ? AND user_id = ?`
+        )
+        .bind(url, canonicalizeUrl(url, canonicalRules), now, id, userId),
+      ...extraStatements(id, url)
+    )
+  }
+
+  if (statements.length > 0) {
+    await db.batch(statements)
+  }
+  return { affected: updatedIds.length, errors, updated: updatedIds }
+}
+
+/**
+ * 对一批书签执行操作（bookmarkIds 不超过 BULK_CHUNK_SIZE）
+ * 不属于用户或不在操作范围内的 ID 会被忽略
+ */
+export async function applyBulkAction(
+  db: D1Database,
+  userId: string,
+  action: BulkActionType,
+  params: BulkActionParams,
+  bookmarkIds: string[],
+  canonicalRules: CanonicalUrlRules
+): Promise<BulkChunkResult> {
+  if (bookmarkIds.length === 0) {
+    return { affected: 0, errors: [] }
+  }
+
+  const placeholders = bookmarkIds.map(() => '?').join(',')
+  const now = new Date().toISOString()
+
+  const flag = FLAG_ACTIONS[action]
+  if (flag) {
+    const { results } = await db
+      .prepare(
+        `SELECT id FROM bookmarks
+         WHERE id IN (${placeholders})
+           AND user_id = ?
+           AND deleted_at IS NULL`
+      )
+      .bind(...bookmarkIds, userId)
+      .all<{ id: string }>()
+    const updated = (results || []).map(row => row.id)
+    if (updated.length === 0) {
+      return { affected: 0, errors: [], updated }
+    }
+
+    const result = await db
+      .prepare(
+        `UPDATE bookmarks
+         SET ${flag.column} = ?, updated_at = ?
+         WHERE id IN (${updated.map(() => '?').join(',')})
+           AND user_id = ?
+           AND deleted_at IS NULL`
+      )
+      .bind(flag.value, now, ...updated, userId)
+      .run()
+    return { affected: result.meta.changes || 0, errors: [], updated }
+  }
+
+  switch (action) {
+    case 'delete': {
+      const { results } = await db
+        .prepare(
+          `SELECT id, title, url FROM bookmarks
+           WHERE id IN (${placeholders})
+             AND user_id = ?
+             AND deleted_at IS NULL`
+        )
+        .bind(...bookmarkIds, userId)
+        .all<BulkDeletedBookmark>()
+      const deleted = results || []
+      if (deleted.length === 0) {
+        return { affected: 0, errors: [], deleted }
+      }
+
+      // 软删除，同时清除点击统计
+      const deletedPlaceholders = deleted.map(() => '?').join(',')
+      await db
+        .prepare(
+          `UPDATE bookmarks
+           SET deleted_at = ?, click_count = 0, last_clicked_at = NULL
+           WHERE id IN (${deletedPlaceholders})
+             AND user_id = ?
+             AND deleted_at IS NULL`
+        )
+        .bind(now, ...deleted.map(bookmark => bookmark.id), userId)
+        .run()
+      return { affected: deleted.length, errors: [], deleted }
+    }
+
+    case 'restore': {
+      const result = await db
+        .prepare(
+          `UPDATE bookmarks
+           SET deleted_at = NULL, updated_at = ?
+           WHERE id IN (${placeholders})
+             AND user_id = ?
+             AND deleted_at IS NOT NULL`
+        )
+        .bind(now, ...bookmarkIds, userId)
+        .run()
+      return { affected: result.meta.changes || 0, errors: [] }
+    }
+
+    case 'update_tags':
+    case 'add_tags':
+      return updateTags(db, userId, bookmarkIds, params)
+
+    case 'fix_redirects': {
+      // 将链接检测发现重定向的书签 URL 替换为最终地址
+      const { results } = await db
+        .prepare(
+          `SELECT b.id, c.final_url
+           FROM bookmarks b
+           INNER JOIN bookmark_link_checks c ON c.bookmark_id = b.id
+           WHERE b.id IN (${placeholders})
+             AND b.user_id = ?
+             AND b.deleted_at IS NULL
+             AND c.checked_url = b.url
+             AND c.status = 'redirected'
+             AND c.final_url IS NOT NULL`
+        )
+        .bind(...bookmarkIds, userId)
+        .all<{ id: string; final_url: string }>()
+
+      return rewriteUrls(
+        db,
+        userId,
+        (results || []).map(row => ({ id: row.id, url: row.final_url })),
+        canonicalRules,
+        'A bookmark with the redirected URL already exists',
+        (id, url) => [
+          db
+            .prepare(
+              `UPDATE bookmark_link_checks
+               SET checked_url = ?, status = 'ok', final_url = NULL, error = NULL, consecutive_failures = 0
+               WHERE bookmark_id = ?`
+            )
+            .bind(url, id),
+        ]
+      )
+    }
+
+    case 'replace_url_prefix': {
+      const from = params.url_prefix_from!
+      const to = params.url_prefix_to!
+      const prefix = urlPrefixCondition('url', from)
+      const { results } = await db
+        .prepare(
+          `SELECT id, url FROM bookmarks
+           WHERE id IN (${placeholders})
+             AND user_id = ?
+             AND deleted_at IS NULL
+             AND ${prefix.condition}`
+        )
+        .bind(...bookmarkIds, userId, ...prefix.params)
+        .all<{ id: string; url: string }>()
+
+      return rewriteUrls(
+        db,
+        userId,
+        (results || [])
+          .filter(row => row.url.startsWith(from))
+          .map(row => ({ id: row.id, url: to + row.url.slice(from.length) })),
+        canonicalRules,
+        'A bookmark with the new URL already exists'
+      )
+    }
+  }
+
+  return { affected: 0, errors: [] }
+}
+
+/**
+ * 按条件逐批执行（匹配数不超过 BULK_SYNC_LIMIT 时在请求内调用）
+ */
+export async function applyBulkActionToTarget(
+  db: D1Database,
+  userId: string,
+  action: BulkActionType,
+  params: BulkActionParams,
+  target: Extract<BulkTargetResult, { success: true }>,
+  canonicalRules: CanonicalUrlRules
+): Promise<BulkChunkResult> {
+  const total: BulkChunkResult = { affected: 0, errors: [], deleted: [], updated: [] }
+  let lastId: string | null = null
+
+  for (;;) {
+    const ids = await nextTargetIds(db, target, lastId)
+    if (ids.length === 0) break
+
+    const result = await applyBulkAction(db, userId, action, params, ids, canonicalRules)
+    total.affected += result.affected
+    total.errors.push(...result.errors)
+    total.deleted!.push(...(result.deleted ?? []))
+    total.updated!.push(...(result.updated ?? []))
+    lastId = ids[ids.length - 1]
+    if (ids.length < BULK_CHUNK_SIZE) break
+  }
+
+  return total
+}
+
+/**
+ * 为批量删除的书签触发 bookmark.deleted Webhook（按 WEBHOOK_BATCH_SIZE 分批投递）
+ */
+export async function dispatchBulkDeletedWebhooks(
+  env: Env,
+  userId: string,
+  bookmarks: BulkDeletedBookmark[]
+): Promise<void> {
+  await dispatchWebhookEventBatch(env, userId, 'bookmark.deleted', bookmarks, chunk => ({
+    bookmarks: chunk,
+    source: 'bulk_delete',
+  }))
+}
+
+/**
+ * 为批量修改的书签触发 bookmark.updated Webhook：按 ID 读取修改后的书签，按 WEBHOOK_BATCH_SIZE 分批投递
+ * 与 dispatchWebhookEventBatch 一样内部捕获所有错误
+ */
+export async function dispatchBulkUpdatedWebhooks(
+  env: Env,
+  userId: string,
+  action: BulkActionType,
+  bookmarkIds: string[]
+): Promise<void> {
+  if (bookmarkIds.length === 0) return
+
+  try {
+    const bookmarks: Array<{ id: string; title: string; url: string; updated_at: string }> = []
+    for (const ids of chunkIds([...new Set(bookmarkIds)])) {
+      const { results } = await env.DB.prepare(
+        `SELECT id, title, url, updated_at FROM bookmarks
+         WHERE id IN (${ids.map(() => '?').join(',')})
+           AND user_id = ?
+           AND deleted_at IS NULL`
+      )
+        .bind(...ids, userId)
+        .all<{ id: string; title: string; url: string; updated_at: string }>()
+      bookmarks.push(...(results || []))
+    }
+
+    await dispatchWebhookEventBatch(env, userId, 'bookmark.updated', bookmarks, chunk => ({
+      bookmarks: chunk,
+      source: 'bulk_update',
+      action,
+    }))
+  } catch (error) {
+    console.error(`[Webhook] Failed to dispatch bulk ${action} updates:`, error)
+  }
+}
+
+/**
+ * 写入批量操作的审计日志
+ */
+export async function logBulkAction(
+  db: D1Database,
+  userId: string,
+  action: BulkActionType,
+  payload: Record<string, unknown>
+): Promise<void> {
+  await db
+    .prepare(
+      `INSERT INTO audit_logs (user_id, event_type, payload, created_at)
+       VALUES (?, ?, ?, datetime('now'))`
+    )
+    .bind(userId, AUDIT_EVENTS[action], JSON.stringify({ action, ...payload }))
+    .run()
+}
+
+function parseJson<T>(value: string | null, fallback: T): T {
+  if (!value) return fallback
+  try {
+    return JSON.parse(value) as T
+  } catch {
+    return fallback
+  }
+}
+
+export function toBulkJob(row: BulkJobRow): BulkJob {
+  return {
+    id: row.id,
+    action: row.action,
+    status: row.status,
+    total_count: row.total_count,
+    processed_count: row.processed_count,
+    affected_count: row.affected_count,
+    errors: parseJson<BulkActionError[]>(row.errors, []),
+    error: row.error,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+    completed_at: row.completed_at,
+  }
+}
+
+/**
+ * 创建后台任务（参数已校验并准备完毕）
+ */
+export async function createBulkJob(
+  db: D1Database,
+  userId: string,
+  action: BulkActionType,
+  filters: BookmarkFilters,
+  params: BulkActionParams,
+  totalCount: number
+): Promise<BulkJob> {
+  const id = generateUUID()
+  const now = new Date().toISOString()
+  await db
+    .prepare(
+      `INSERT INTO bulk_jobs (id, user_id, action, query, params, status, total_count, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, 'pending', ?, ?, ?)`
+    )
+    .bind(id, userId, action, JSON.stringify(filters), JSON.stringify(params), totalCount, now, now)
+    .run()
+
+  return {
+    id,
+    action,
+    status: 'pending',
+    total_count: totalCount,
+    processed_count: 0,
+    affected_count: 0,
+    errors: [],
+    error: null,
+    created_at: now,
+    updated_at: now,
+    completed_at: null,
+  }
+}
+
+/**
+ * 查找没有执行者的未完成任务：尚未开始的，或运行中但租约已过期（执行者已退出或时间预算用完）的
+ */
+export async function listStalledBulkJobs(
+  db: D1Database,
+  limit: number
+): Promise<Array<{ id: string; user_id: string }>> {
+  const { results } = await db
+    .prepare(
+      `SELECT id, user_id FROM bulk_jobs
+       WHERE status IN ('pending', 'running')
+         AND (locked_until IS NULL OR locked_until < ?)
+       ORDER BY updated_at ASC
+       LIMIT ?`
+    )
+    .bind(new Date().toISOString(), limit)
+    .all<{ id: string; user_id: string }>()
+  return results || []
+}
+
+export async function getBulkJob(db: D1Database, userId: string, jobId: string): Promise<BulkJob | null> {
+  const row = await db
+    .prepare('SELECT * FROM bulk_jobs WHERE id = ? AND user_id = ?')
+    .bind(jobId, userId)
+    .first<BulkJobRow>()
+  return row ? toBulkJob(row) : null
+}
+
+/**
+ * 运行后台任务，直到完成或用完时间预算
+ * 通过租约保证同一任务同时只有一个执行者；未能取得租约时返回 null，否则返回运行后的任务状态
+ */
+export async function runBulkJob(
+  env: Env,
+  jobId: string,
+  canonicalRules: CanonicalUrlRules,
+  timeBudgetMs = JOB_TIME_BUDGET_MS
+): Promise<BulkJob | null> {
+  const db = env.DB
+  const startedAt = Date.now()
+  const lease = () => new Date(Date.now() + JOB_LEASE_MS).toISOString()
+
+  const acquired = await db
+    .prepare(
+      `UPDATE bulk_jobs
+       SET status = 'running', locked_until = ?, updated_at = ?
+       WHERE id = ?
+         AND status IN ('pending', 'running')
+         AND (locked_until IS NULL OR locked_until < ?)`
+    )
+    .bind(lease(), new Date().toISOString(), jobId, new Date().toISOString())
+    .run()
+  if (!acquired.meta.changes) {
+    return null
+  }
+
+  const row = await db.prepare('SELECT * FROM bulk_jobs WHERE id = ?').bind(jobId).first<BulkJobRow>()
+  if (!row) {
+    return null
+  }
+
+  const params = parseJson<BulkActionParams>(row.params, {})
+  const errors = parseJson<BulkActionError[]>(row.errors, [])
+  let processed = row.processed_count
+  let affected = row.affected_count
+  let lastId = row.last_bookmark_id
+  const deleted: BulkDeletedBookmark[] = []
+  const updated: string[] = []
+
+  // 保存进度；运行中默认续约，releaseLease 时释放租约以便后续请求接手
+  const save = async (status: BulkJobStatus, options: { error?: string; releaseLease?: boolean } = {}) => {
+    const now = new Date().toISOString()
+    const finished = status === 'completed' || status === 'failed'
+    await db
+      .prepare(
+        `UPDATE bulk_jobs
+         SET status = ?, processed_count = ?, affected_count = ?, errors = ?, last_bookmark_id = ?,
+             error = ?, locked_until = ?, updated_at = ?, completed_at = ?
+         WHERE id = ?`
+      )
+      .bind(
+        status,
+        processed,
+        affected,
+        errors.length > 0 ? JSON.stringify(errors.slice(0, MAX_JOB_ERRORS)) : null,
+        lastId,
+        options.error ?? null,
+        status === 'running' && !options.releaseLease ? lease() : null,
+        now,
+        finished ? now : null,
+        jobId
+      )
+      .run()
+  }
+
+  try {
+    const target = buildBulkTarget(row.user_id, row.action, normalizeBookmarkFilters(parseJson(row.query, {})), params)
+    if (!target.success) {
+      await save('failed', { error: target.message })
+    } else {
+      let done = false
+      while (Date.now() - startedAt < timeBudgetMs) {
+        const ids = await nextTargetIds(db, target, lastId)
+        if (ids.length === 0) {
+          done = true
+          break
+        }
+
+        const result = await applyBulkAction(db, row.user_id, row.action, params, ids, canonicalRules)
+        processed += ids.length
+        affected += result.affected
+        errors.push(...result.errors)
+        deleted.push(...(result.deleted ?? []))
+        updated.push(...(result.updated ?? []))
+        lastId = ids[ids.length - 1]
+
+        if (ids.length < BULK_CHUNK_SIZE) {
+          done = true
+          break
+        }
+        await save('running')
+      }
+
+      if (done) {
+        await save('completed')
+        await logBulkAction(db, row.user_id, row.action, {
+          job_id: jobId,
+          query: parseJson(row.query, {}),
+          ...params,
+          count: affected,
+        })
+      } else {
+        // 时间预算用完：释放租约，由下一次查询任务状态的请求或定时维护任务继续执行
+        await save('running', { releaseLease: true })
+      }
+    }
+  } catch (error) {
+    console.error(`[Bulk Job] ${jobId} failed:`, error)
+    await save('failed', { error: error instanceof Error ? error.message : String(error) })
+  }
+
+  // 本次运行中已删除或修改的书签（任务失败时之前的批次也已生效）
+  await dispatchBulkDeletedWebhooks(env, row.user_id, deleted)
+  await dispatchBulkUpdatedWebhooks(env, row.user_id, row.action, updated)
+
+  return getBulkJob(db, row.user_id, jobId)
+}
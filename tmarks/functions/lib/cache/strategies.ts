@@ -43,11 +43,25 @@ export function generateCacheKey(
       parts.push('search', params.keyword)
     }
 
-    if (type === 'tagFilter' && params.tags) {
+    // 标签维度对任何查询类型都参与键生成（搜索也可叠加标签筛选）
+    if (params.tags) {
       const tags = Array.isArray(params.tags) ? params.tags : [params.tags]
       parts.push('tags', tags.sort().join(','))
     }
 
+    if (params.tag_mode === 'any') {
+      parts.push('mode', 'any')
+    }
+
+    if (params.exclude_tags) {
+      const excludeTags = Array.isArray(params.exclude_tags) ? params.exclude_tags : [params.exclude_tags]
+      parts.push('exclude', [...excludeTags].sort().join(','))
+    }
+
+    if (params.include_descendants) {
+      parts.push('descendants')
+    }
+
     if (params.archived) {
       parts.push('archived')
     }
@@ -56,6 +70,14 @@ export function generateCacheKey(
       parts.push('pinned')
     }
 
+    if (params.link_status) {
+      parts.push('link', String(params.link_status))
+    }
+
+    if (Array.isArray(params.reading_status) && params.reading_status.length > 0) {
+      parts.push('reading', [...params.reading_status].sort().join(','))
+    }
+
     if (params.sort) {
       parts.push('sort', params.sort)
     }
@@ -85,13 +107,13 @@ export function getQueryType(params?: QueryParams): CacheStrategyType {
     return 'search'
   }
 
-  // 标签筛选
-  if (params.tags && params.tags.length > 0) {
+  // 标签筛选（包含 / 排除）
+  if ((params.tags && params.tags.length > 0) || (params.exclude_tags && params.exclude_tags.length > 0)) {
     return 'tagFilter'
   }
 
   // 默认列表 (无筛选条件)
-  if (!params.archived && !params.pinned && !params.sort) {
+  if (!params.archived && !params.pinned && !params.link_status && !params.reading_status?.length && !params.sort) {
     return 'defaultList'
   }
 
@@ -116,9 +138,9 @@ export function shouldCacheQuery(
     return true
   }
 
-  // 标签筛选：只缓存简单查询 (≤3个标签)
-  if (type === 'tagFilter' && params?.tags) {
-    return params.tags.length <= 3
+  // 标签筛选：只缓存简单查询 (包含与排除合计 ≤3个标签)
+  if (type === 'tagFilter' && (params?.tags || params?.exclude_tags)) {
+    return (params.tags?.length ?? 0) + (params.exclude_tags?.length ?? 0) <= 3
   }
 
   // 搜索：只缓存短关键词 (≤50字符)
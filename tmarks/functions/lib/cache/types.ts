@@ -91,8 +91,17 @@ export interface CacheStats {
 export interface QueryParams {
   keyword?: string
   tags?: string[]
+  /** 多标签匹配方式：all 交集（默认），any 并集 */
+  tag_mode?: 'any' | 'all'
+  exclude_tags?: string[]
+  /** 父标签是否同时匹配子孙标签 */
+  include_descendants?: boolean
   archived?: boolean
   pinned?: boolean
+  /** 按链接检测结果筛选 */
+  link_status?: string
+  /** 按阅读状态筛选 */
+  reading_status?: string[]
   sort?: string
   page_size?: number
   page_cursor?: string
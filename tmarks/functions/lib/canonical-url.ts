@@ -0,0 +1,221 @@
+/**
+ * URL 规范化
+ *
+ * bookmarks.url 保存用户原始输入，canonical_url 保存规范化后的地址，用于识别“看起来不同、实际相同”的书签：
+ * 去除跟踪参数、统一协议与主机名、去掉末尾斜杠和锚点等。规则可通过环境变量 URL_CANONICAL_RULES（JSON）覆盖。
+ */
+
+import type { Env } from './types'
+
+export interface CanonicalUrlRules {
+  /** 需要去除的查询参数，支持前缀通配（如 utm_*） */
+  stripParams: string[]
+  /** http 与 https 视为同一地址 */
+  ignoreScheme: boolean
+  /** 去掉主机名的 www. 前缀 */
+  stripWww: boolean
+  /** 去掉路径末尾的斜杠 */
+  stripTrailingSlash: boolean
+  /** 去掉锚点（#/ 和 #! 开头的前端路由除外） */
+  stripHash: boolean
+  /** 按参数名排序查询参数 */
+  sortParams: boolean
+}
+
+export const DEFAULT_CANONICAL_URL_RULES: CanonicalUrlRules = {
+  stripParams: [
+    'utm_*',
+    'fbclid',
+    'gclid',
+    'dclid',
+    'msclkid',
+    'yclid',
+    'igshid',
+    'mc_cid',
+    'mc_eid',
+    'mkt_tok',
+    '_hsenc',
+    '_hsmi',
+    'spm',
+  ],
+  ignoreScheme: true,
+  stripWww: true,
+  stripTrailingSlash: true,
+  stripHash: true,
+  sortParams: true,
+}
+
+/** 回填/重算时每批处理的书签数 */
+const BACKFILL_BATCH_SIZE = 500
+
+/**
+ * 读取规范化规则：环境变量中的配置覆盖默认值，解析失败时使用默认规则
+ */
+export function getCanonicalUrlRules(env: Pick<Env, 'URL_CANONICAL_RULES'>): CanonicalUrlRules {
+  if (!env.URL_CANONICAL_RULES) {
+    return DEFAULT_CANONICAL_URL_RULES
+  }
+
+  try {
+    const overrides = JSON.parse(env.URL_CANONICAL_RULES) as Partial<CanonicalUrlRules>
+    return {
+      ...DEFAULT_CANONICAL_URL_RULES,
+      ...overrides,
+      stripParams: Array.isArray(overrides.stripParams)
+        ? overrides.stripParams.map(param => String(param).toLowerCase())
+        : DEFAULT_CANONICAL_URL_RULES.stripParams,
+    }
+  } catch (error) {
+    console.warn('Invalid URL_CANONICAL_RULES, using defaults:', error)
+    return DEFAULT_CANONICAL_URL_RULES
+  }
+}
+
+function isStrippedParam(name: string, patterns: string[]): boolean {
+  const lower = name.toLowerCase()
+  return patterns.some(pattern =>
+    pattern.endsWith('*') ? lower.startsWith(pattern.slice(0, -1)) : lower === pattern
+  )
+}
+
+/**
+ * 计算规范化 URL；非 http(s) 地址原样返回
+ */
+export function canonicalizeUrl(url: string, rules: CanonicalUrlRules = DEFAULT_CANONICAL_URL_RULES): string {
+  let parsed: URL
+  try {
+    parsed = new URL(url.trim())
+  } catch {
+    return url.trim()
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return parsed.href
+  }
+
+  // URL 解析已完成主机名小写化与默认端口去除
+  if (rules.ignoreScheme) {
+    parsed.protocol = 'https:'
+  }
+
+  if (rules.stripWww && parsed.hostname.startsWith('www.')) {
+    parsed.hostname = parsed.hostname.slice(4)
+  }
+
+  const params = [...parsed.searchParams.entries()].filter(([name]) => !isStrippedParam(name, rules.stripParams))
+  if (rules.sortParams) {
+    params.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+  }
+  parsed.search = new URLSearchParams(params).toString()
+
+  if (rules.stripHash && !parsed.hash.startsWith('#/') && !parsed.hash.startsWith('#!')) {
+    parsed.hash = ''
+  }
+
+  if (rules.stripTrailingSlash && parsed.pathname.length > 1 && parsed.pathname.endsWith('/')) {
+    parsed.pathname = parsed.pathname.replace(/\/+$/, '') || '/'
+  }
+
+  return parsed.href
+}
+
+/**
+ * 为缺少规范化 URL 的书签补齐（迁移前的历史数据），recompute 为 true 时重算全部（规则变更后使用）
+ * @param options.limit - 本次最多扫描的书签数
+ * @returns 本次更新的书签数
+ */
+export async function backfillCanonicalUrls(
+  db: D1Database,
+  rules: CanonicalUrlRules,
+  options: { userId?: string; recompute?: boolean; limit?: number } = {}
+): Promise<number> {
+  const conditions: string[] = []
+  const params: string[] = []
+
+  if (options.userId) {
+    conditions.push('user_id = ?')
+    params.push(options.userId)
+  }
+  if (!options.recompute) {
+    conditions.push('canonical_url IS NULL')
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''
+  const limit = options.limit ?? Number.MAX_SAFE_INTEGER
+  let scanned = 0
+  let updated = 0
+  let lastId = ''
+
+  while (scanned < limit) {
+    const { results } = await db
+      .prepare(
+        `SELECT id, url, canonical_url FROM bookmarks
+         ${where ? `${where} AND` : 'WHERE'} id > ?
+         ORDER BY id
+         LIMIT ?`
+      )
+      .bind(...params, lastId, Math.min(BACKFILL_BATCH_SIZE, limit - scanned))
+      .all<{ id: string; url: string; canonical_url: string | null }>()
+
+    const rows = results || []
+    if (rows.length === 0) break
+    lastId = rows[rows.length - 1].id
+
+    const statements = rows
+      .map(row => ({ id: row.id, canonical: canonicalizeUrl(row.url, rules), previous: row.canonical_url }))
+      .filter(row => row.canonical !== row.previous)
+      .map(row => db.prepare('UPDATE bookmarks SET canonical_url = ? WHERE id = ?').bind(row.canonical, row.id))
+
+    if (statements.length > 0) {
+      await db.batch(statements)
+    }
+    scanned += rows.length
+    updated += statements.length
+
+    if (rows.length < BACKFILL_BATCH_SIZE) break
+  }
+
+  return updated
+}
+
+/**
+ * 按规范化 URL 查找用户未删除的书签（排除自身）
+ */
+export async function findBookmarkByCanonicalUrl(
+  db: D1Database,
+  userId: string,
+  canonicalUrl: string,
+  excludeId?: string
+): Promise<{ id: string; deleted_at: string | null } | null> {
+  return db
+    .prepare(
+      `SELECT id, deleted_at FROM bookmarks
+       WHERE user_id = ? AND canonical_url = ? AND deleted_at IS NULL ${excludeId ? 'AND id != ?' : ''}
+       ORDER BY created_at ASC
+       LIMIT 1`
+    )
+    .bind(userId, canonicalUrl, ...(excludeId ? [excludeId] : []))
+    .first<{ id: string; deleted_at: string | null }>()
+}
+
+/**
+ * 创建书签前查找已存在的书签：优先原始 URL 完全一致（含回收站中的，可直接恢复），
+ * 其次规范化 URL 一致的未删除书签
+ */
+export async function findExistingBookmark(
+  db: D1Database,
+  userId: string,
+  url: string,
+  canonicalUrl: string
+): Promise<{ id: string; deleted_at: string | null } | null> {
+  const exactMatch = await db
+    .prepare('SELECT id, deleted_at FROM bookmarks WHERE user_id = ? AND url = ?')
+    .bind(userId, url)
+    .first<{ id: string; deleted_at: string | null }>()
+
+  if (exactMatch && !exactMatch.deleted_at) {
+    return exactMatch
+  }
+
+  return (await findBookmarkByCanonicalUrl(db, userId, canonicalUrl)) ?? exactMatch
+}
@@ -0,0 +1,320 @@
+import type { Bookmark, BookmarkRow, SQLParam } from './types'
+import { normalizeBookmark } from './bookmark-utils'
+
+/**
+ * 增量同步变更流
+ *
+ * change_log 由 migrations/0103 中的触发器维护，记录书签、标签、标签页组的每次变更。
+ * 游标即 change_log.seq（全局自增），客户端保存上次返回的游标，下次只拉取其后的变更。
+ * 同一实体在一页内多次变更时只返回其当前状态：存在且未删除为 upsert，否则为墓碑（deleted）。
+ */
+
+export const CHANGE_FEED_DEFAULT_LIMIT = 500
+export const CHANGE_FEED_MAX_LIMIT = 1000
+
+/** D1 单条语句最多绑定 100 个参数，IN 查询需要分批 */
+const IN_CHUNK_SIZE = 90
+
+type ChangeEntityType = 'bookmark' | 'tag' | 'tab_group'
+
+interface ChangeLogRow {
+  seq: number
+  entity_type: ChangeEntityType
+  entity_id: string
+}
+
+export interface ChangeFeedTag {
+  id: string
+  name: string
+  color: string | null
+  parent_id: string | null
+  bookmark_count: number
+  created_at: string
+  updated_at: string
+}
+
+export interface ChangeFeedBookmark extends Bookmark {
+  tags: Array<{ id: string; name: string; color: string | null }>
+}
+
+export interface ChangeFeedTabGroup {
+  id: string
+  title: string
+  color: string | null
+  tags: string[] | null
+  parent_id: string | null
+  is_folder: number
+  position: number
+  created_at: string
+  updated_at: string
+  items: Array<{
+    id: string
+    title: string
+    url: string
+    favicon: string | null
+    position: number
+    is_pinned: number
+    is_todo: number
+    is_archived: number
+    created_at: string
+  }>
+}
+
+export interface ChangeSet<T> {
+  upserted: T[]
+  deleted: string[]
+}
+
+export interface ChangeFeedPage {
+  cursor: string
+  has_more: boolean
+  bookmarks: ChangeSet<ChangeFeedBookmark>
+  tags: ChangeSet<ChangeFeedTag>
+  tab_groups: ChangeSet<ChangeFeedTabGroup>
+}
+
+export type ChangeFeedResult =
+  | { success: true; page: ChangeFeedPage }
+  | { success: false; reason: 'invalid_cursor' | 'cursor_expired' }
+
+/**
+ * 解析游标，非法时返回 null
+ */
+export function parseChangeCursor(cursor: string): number | null {
+  if (!/^\d+$/.test(cursor)) return null
+  const seq = Number(cursor)
+  return Number.isSafeInteger(seq) ? seq : null
+}
+
+/**
+ * 当前最新游标（客户端全量同步前获取，之后从该位置开始增量同步）
+ */
+export async function getLatestChangeCursor(db: D1Database): Promise<string> {
+  const row = await db
+    .prepare('SELECT COALESCE(MAX(seq), 0) AS seq FROM change_log')
+    .first<{ seq: number }>()
+  return String(row?.seq ?? 0)
+}
+
+function chunk<T>(items: T[], size = IN_CHUNK_SIZE): T[][] {
+  const chunks: T[][] = []
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size))
+  }
+  return chunks
+}
+
+async function queryByIds<T>(
+  db: D1Database,
+  ids: string[],
+  buildSql: (placeholders: string) => string,
+  leadingParams: SQLParam[] = []
+): Promise<T[]> {
+  const rows: T[] = []
+  for (const idChunk of chunk(ids)) {
+    const placeholders = idChunk.map(() => '?').join(',')
+    const { results } = await db
+      .prepare(buildSql(placeholders))
+      .bind(...leadingParams, ...idChunk)
+      .all<T>()
+    rows.push(...(results || []))
+  }
+  return rows
+}
+
+async function loadBookmarks(
+  db: D1Database,
+  userId: string,
+  ids: string[]
+): Promise<ChangeSet<ChangeFeedBookmark>> {
+  const rows = await queryByIds<BookmarkRow>(
+    db,
+    ids,
+    (placeholders) =>
+      `SELECT * FROM bookmarks WHERE user_id = ? AND deleted_at IS NULL AND id IN (${placeholders})`,
+    [userId]
+  )
+
+  const liveIds = rows.map(row => row.id)
+  const tagRows = await queryByIds<{ bookmark_id: string; id: string; name: string; color: string | null }>(
+    db,
+    liveIds,
+    (placeholders) =>
+      `SELECT bt.bookmark_id, t.id, t.name, t.color
+       FROM tags t
+       INNER JOIN bookmark_tags bt ON t.id = bt.tag_id
+       WHERE bt.bookmark_id IN (${placeholders})
+         AND t.deleted_at IS NULL
+       ORDER BY bt.bookmark_id, t.name`
+  )
+
+  const tagsByBookmarkId = new Map<string, ChangeFeedBookmark['tags']>()
+  for (const tag of tagRows) {
+    if (!tagsByBookmarkId.has(tag.bookmark_id)) {
+      tagsByBookmarkId.set(tag.bookmark_id, [])
+    }
+    tagsByBookmarkId.get(tag.bookmark_id)!.push({ id: tag.id, name: tag.name, color: tag.color })
+  }
+
+  const live = new Set(liveIds)
+  return {
+    upserted: rows.map(row => ({
+      ...normalizeBookmark(row),
+      tags: tagsByBookmarkId.get(row.id) || [],
+    })),
+    deleted: ids.filter(id => !live.has(id)),
+  }
+}
+
+async function loadTags(
+  db: D1Database,
+  userId: string,
+  ids: string[]
+): Promise<ChangeSet<ChangeFeedTag>> {
+  const rows = await queryByIds<ChangeFeedTag>(
+    db,
+    ids,
+    (placeholders) =>
+      `SELECT
+         t.id,
+         t.name,
+         t.color,
+         t.parent_id,
+         t.created_at,
+         t.updated_at,
+         COUNT(b.id) AS bookmark_count
+       FROM tags t
+       LEFT JOIN bookmark_tags bt ON t.id = bt.tag_id AND bt.user_id = t.user_id
+       LEFT JOIN bookmarks b ON bt.bookmark_id = b.id AND b.deleted_at IS NULL
+       WHERE t.user_id = ? AND t.deleted_at IS NULL AND t.id IN (${placeholders})
+       GROUP BY t.id`,
+    [userId]
+  )
+
+  const live = new Set(rows.map(row => row.id))
+  return {
+    upserted: rows,
+    deleted: ids.filter(id => !live.has(id)),
+  }
+}
+
+async function loadTabGroups(
+  db: D1Database,
+  userId: string,
+  ids: string[]
+): Promise<ChangeSet<ChangeFeedTabGroup>> {
+  const rows = await queryByIds<Omit<ChangeFeedTabGroup, 'tags' | 'items'> & { tags: string | null }>(
+    db,
+    ids,
+    (placeholders) =>
+      `SELECT id, title, color, tags, parent_id, is_folder, position, created_at, updated_at
+       FROM tab_groups
+       WHERE user_id = ? AND (is_deleted IS NULL OR is_deleted = 0) AND id IN (${placeholders})`,
+    [userId]
+  )
+
+  const liveIds = rows.map(row => row.id)
+  const itemRows = await queryByIds<ChangeFeedTabGroup['items'][number] & { group_id: string }>(
+    db,
+    liveIds,
+    (placeholders) =>
+      `SELECT id, group_id, title, url, favicon, position, is_pinned, is_todo, is_archived, created_at
+       FROM tab_group_items
+       WHERE group_id IN (${placeholders})
+       ORDER BY group_id, COALESCE(is_pinned, 0) DESC, position ASC`
+  )
+
+  const itemsByGroupId = new Map<string, ChangeFeedTabGroup['items']>()
+  for (const { group_id, ...item } of itemRows) {
+    if (!itemsByGroupId.has(group_id)) {
+      itemsByGroupId.set(group_id, [])
+    }
+    itemsByGroupId.get(group_id)!.push(item)
+  }
+
+  const live = new Set(liveIds)
+  return {
+    upserted: rows.map(row => {
+      let tags: string[] | null = null
+      if (row.tags) {
+        try {
+          tags = JSON.parse(row.tags)
+        } catch {
+          tags = null
+        }
+      }
+      return { ...row, tags, items: itemsByGroupId.get(row.id) || [] }
+    }),
+    deleted: ids.filter(id => !live.has(id)),
+  }
+}
+
+/**
+ * 读取某个游标之后的变更
+ *
+ * @param since - 上次同步返回的游标
+ * @param limit - 本页最多读取的变更记录数（去重前）
+ */
+export async function readChangeFeed(
+  db: D1Database,
+  userId: string,
+  since: string,
+  limit = CHANGE_FEED_DEFAULT_LIMIT
+): Promise<ChangeFeedResult> {
+  const sinceSeq = parseChangeCursor(since)
+  if (sinceSeq === null) {
+    return { success: false, reason: 'invalid_cursor' }
+  }
+
+  // 游标超出当前序列（数据库被重建）或其后的记录已被清理时，客户端必须全量同步
+  const bounds = await db
+    .prepare('SELECT MIN(seq) AS min_seq, MAX(seq) AS max_seq FROM change_log')
+    .first<{ min_seq: number | null; max_seq: number | null }>()
+  const minSeq = bounds?.min_seq ?? null
+  const maxSeq = bounds?.max_seq ?? 0
+  if (sinceSeq > maxSeq || (minSeq !== null && minSeq > sinceSeq + 1)) {
+    return { success: false, reason: 'cursor_expired' }
+  }
+
+  const { results } = await db
+    .prepare(
+      `SELECT seq, entity_type, entity_id
+       FROM change_log
+       WHERE user_id = ? AND seq > ?
+       ORDER BY seq ASC
+       LIMIT ?`
+    )
+    .bind(userId, sinceSeq, limit + 1)
+    .all<ChangeLogRow>()
+
+  const rows = results || []
+  const hasMore = rows.length > limit
+  const pageRows = hasMore ? rows.slice(0, limit) : rows
+  const cursor = pageRows.length > 0 ? pageRows[pageRows.length - 1].seq : sinceSeq
+
+  const idsByType: Record<ChangeEntityType, Set<string>> = {
+    bookmark: new Set(),
+    tag: new Set(),
+    tab_group: new Set(),
+  }
+  for (const row of pageRows) {
+    idsByType[row.entity_type]?.add(row.entity_id)
+  }
+
+  const [bookmarks, tags, tabGroups] = await Promise.all([
+    loadBookmarks(db, userId, [...idsByType.bookmark]),
+    loadTags(db, userId, [...idsByType.tag]),
+    loadTabGroups(db, userId, [...idsByType.tab_group]),
+  ])
+
+  return {
+    success: true,
+    page: {
+      cursor: String(cursor),
+      has_more: hasMore,
+      bookmarks,
+      tags,
+      tab_groups: tabGroups,
+    },
+  }
+}
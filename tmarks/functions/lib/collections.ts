@@ -0,0 +1,91 @@
+/**
+ * 智能集合（保存的搜索）
+ *
+ * 集合只保存筛选条件（关键词、标签、归档/置顶、排序等），每次读取书签时重新执行查询，
+ * 因此新增或修改的书签会自动出现在集合中。
+ */
+
+import { normalizeBookmarkFilters, validateBookmarkFilters } from './bookmark-query'
+import type { BookmarkFilters } from './bookmark-query'
+import { parseSearchQuery } from './search-query'
+
+export const MAX_COLLECTIONS_PER_USER = 50
+export const COLLECTION_NAME_MAX_LENGTH = 50
+const KEYWORD_MAX_LENGTH = 500
+
+export interface SmartCollection {
+  id: string
+  name: string
+  filters: BookmarkFilters
+  position: number
+  created_at: string
+  updated_at: string
+}
+
+interface SmartCollectionRow extends Omit<SmartCollection, 'filters'> {
+  filters: string
+}
+
+export type CollectionFiltersResult =
+  | { success: true; filters: BookmarkFilters }
+  | { success: false; message: string; code: string }
+
+function parseCollectionRow(row: SmartCollectionRow): SmartCollection {
+  let filters: unknown = {}
+  try {
+    filters = JSON.parse(row.filters)
+  } catch {
+    console.warn('Invalid collection filters:', row.id)
+  }
+  return { ...row, filters: normalizeBookmarkFilters(filters) }
+}
+
+/**
+ * 校验请求中的筛选条件
+ */
+export function validateCollectionFilters(input: unknown): CollectionFiltersResult {
+  const validated = validateBookmarkFilters(input)
+  if (!validated.success) {
+    return validated
+  }
+  const { filters } = validated
+
+  if (filters.keyword) {
+    if (filters.keyword.length > KEYWORD_MAX_LENGTH) {
+      return { success: false, message: 'Keyword is too long', code: 'INVALID_SEARCH_QUERY' }
+    }
+    const parsed = parseSearchQuery(filters.keyword)
+    if (!parsed.success) {
+      return { success: false, message: parsed.error.message, code: 'INVALID_SEARCH_QUERY' }
+    }
+  }
+
+  return { success: true, filters }
+}
+
+export async function listCollections(db: D1Database, userId: string): Promise<SmartCollection[]> {
+  const { results } = await db
+    .prepare(
+      `SELECT id, name, filters, position, created_at, updated_at
+       FROM bookmark_collections
+       WHERE user_id = ?
+       ORDER BY position ASC, created_at ASC`
+    )
+    .bind(userId)
+    .all<SmartCollectionRow>()
+
+  return (results || []).map(parseCollectionRow)
+}
+
+export async function getCollection(db: D1Database, userId: string, id: string): Promise<SmartCollection | null> {
+  const row = await db
+    .prepare(
+      `SELECT id, name, filters, position, created_at, updated_at
+       FROM bookmark_collections
+       WHERE id = ? AND user_id = ?`
+    )
+    .bind(id, userId)
+    .first<SmartCollectionRow>()
+
+  return row ? parseCollectionRow(row) : null
+}
@@ -0,0 +1,203 @@
+import type { Bookmark, BookmarkRow } from './types'
+import { normalizeBookmark } from './bookmark-utils'
+
+/**
+ * 重复书签检测与合并
+ *
+ * 规范化 URL（canonical_url）相同的未删除书签视为重复。合并时保留一个书签，
+ * 其余书签的标签、点击数和快照并入保留的书签，然后移入回收站。
+ */
+
+/** D1 单条语句最多绑定 100 个参数，IN 查询需要分批 */
+const IN_CHUNK_SIZE = 90
+
+export const DUPLICATE_GROUPS_LIMIT = 200
+
+/** 单次最多合并的书签数（合并语句中被合并 ID 需绑定多次，受 D1 参数上限约束） */
+export const MERGE_MAX_BOOKMARKS = 18
+
+export interface DuplicateBookmark extends Bookmark {
+  tags: Array<{ id: string; name: string; color: string | null }>
+}
+
+export interface DuplicateGroup {
+  canonical_url: string
+  bookmarks: DuplicateBookmark[]
+}
+
+function chunk<T>(items: T[], size = IN_CHUNK_SIZE): T[][] {
+  const chunks: T[][] = []
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size))
+  }
+  return chunks
+}
+
+/**
+ * 查找用户的重复书签分组，重复数多的分组在前
+ */
+export async function findDuplicateGroups(
+  db: D1Database,
+  userId: string,
+  limit = DUPLICATE_GROUPS_LIMIT
+): Promise<{ groups: DuplicateGroup[]; total_groups: number }> {
+  const { results: groupRows } = await db
+    .prepare(
+      `SELECT canonical_url, COUNT(*) AS count
+       FROM bookmarks
+       WHERE user_id = ? AND deleted_at IS NULL AND canonical_url IS NOT NULL
+       GROUP BY canonical_url
+       HAVING COUNT(*) > 1
+       ORDER BY count DESC, canonical_url ASC`
+    )
+    .bind(userId)
+    .all<{ canonical_url: string; count: number }>()
+
+  const allGroups = groupRows || []
+  const canonicalUrls = allGroups.slice(0, limit).map(row => row.canonical_url)
+
+  const rows: BookmarkRow[] = []
+  for (const urlChunk of chunk(canonicalUrls)) {
+    const { results } = await db
+      .prepare(
+        `SELECT * FROM bookmarks
+         WHERE user_id = ? AND deleted_at IS NULL AND canonical_url IN (${urlChunk.map(() => '?').join(',')})
+         ORDER BY created_at ASC`
+      )
+      .bind(userId, ...urlChunk)
+      .all<BookmarkRow & { canonical_url: string }>()
+    rows.push(...(results || []))
+  }
+
+  const tagsByBookmarkId = new Map<string, DuplicateBookmark['tags']>()
+  for (const idChunk of chunk(rows.map(row => row.id))) {
+    const { results } = await db
+      .prepare(
+        `SELECT bt.bookmark_id, t.id, t.name, t.color
+         FROM tags t
+         INNER JOIN bookmark_tags bt ON t.id = bt.tag_id
+         WHERE bt.bookmark_id IN (${idChunk.map(() => '?').join(',')})
+           AND t.deleted_at IS NULL
+         ORDER BY t.name`
+      )
+      .bind(...idChunk)
+      .all<{ bookmark_id: string; id: string; name: string; color: string | null }>()
+
+    for (const { bookmark_id, ...tag } of results || []) {
+      if (!tagsByBookmarkId.has(bookmark_id)) {
+        tagsByBookmarkId.set(bookmark_id, [])
+      }
+      tagsByBookmarkId.get(bookmark_id)!.push(tag)
+    }
+  }
+
+  const bookmarksByUrl = new Map<string, DuplicateBookmark[]>()
+  for (const row of rows as Array<BookmarkRow & { canonical_url: string }>) {
+    if (!bookmarksByUrl.has(row.canonical_url)) {
+      bookmarksByUrl.set(row.canonical_url, [])
+    }
+    bookmarksByUrl.get(row.canonical_url)!.push({
+      ...normalizeBookmark(row),
+      tags: tagsByBookmarkId.get(row.id) || [],
+    })
+  }
+
+  return {
+    groups: canonicalUrls
+      .map(url => ({ canonical_url: url, bookmarks: bookmarksByUrl.get(url) || [] }))
+      .filter(group => group.bookmarks.length > 1),
+    total_groups: allGroups.length,
+  }
+}
+
+/**
+ * 将重复书签合并到保留的书签：
+ * - 标签取并集
+ * - 点击数累加，最近点击时间取最晚，创建时间取最早
+ * - 保留书签缺少描述或图标时从被合并书签补齐
+ * - 快照全部转移到保留书签并重新编号
+ * - 被合并书签移入回收站
+ *
+ * 调用方需保证所有书签属于同一用户、未删除且规范化 URL 相同
+ */
+export async function mergeDuplicateBookmarks(
+  db: D1Database,
+  userId: string,
+  keepId: string,
+  mergeIds: string[],
+  now: string
+): Promise<void> {
+  const placeholders = mergeIds.map(() => '?').join(',')
+
+  await db.batch([
+    db
+      .prepare(
+        `INSERT OR IGNORE INTO bookmark_tags (bookmark_id, tag_id, user_id, created_at)
+         SELECT ?, tag_id, user_id, created_at
+         FROM bookmark_tags
+         WHERE bookmark_id IN (${placeholders})`
+      )
+      .bind(keepId, ...mergeIds),
+    db
+      .prepare(
+        `UPDATE bookmarks
+         SET click_count = click_count + (SELECT COALESCE(SUM(click_count), 0) FROM bookmarks WHERE id IN (${placeholders})),
+             last_clicked_at = (SELECT MAX(last_clicked_at) FROM bookmarks WHERE id = ? OR id IN (${placeholders})),
+             created_at = MIN(created_at, (SELECT MIN(created_at) FROM bookmarks WHERE id IN (${placeholders}))),
+             description = COALESCE(description, (SELECT description FROM bookmarks WHERE id IN (${placeholders}) AND description IS NOT NULL ORDER BY created_at LIMIT 1)),
+             favicon = COALESCE(favicon, (SELECT favicon FROM bookmarks WHERE id IN (${placeholders}) AND favicon IS NOT NULL ORDER BY created_at LIMIT 1)),
+             updated_at = ?
+         WHERE id = ? AND user_id = ?`
+      )
+      .bind(...mergeIds, keepId, ...mergeIds, ...mergeIds, ...mergeIds, ...mergeIds, now, keepId, userId),
+    db
+      .prepare(
+        `UPDATE bookmark_snapshots
+         SET bookmark_id = ?, updated_at = ?
+         WHERE bookmark_id IN (${placeholders}) AND user_id = ?`
+      )
+      .bind(keepId, now, ...mergeIds, userId),
+    // 按创建时间重新编号，最新的一份标记为 latest
+    db
+      .prepare(
+        `UPDATE bookmark_snapshots
+         SET version = (
+               SELECT COUNT(*) FROM bookmark_snapshots s
+               WHERE s.bookmark_id = bookmark_snapshots.bookmark_id
+                 AND (s.created_at < bookmark_snapshots.created_at
+                   OR (s.created_at = bookmark_snapshots.created_at AND s.id <= bookmark_snapshots.id))
+             ),
+             is_latest = CASE WHEN id = (
+               SELECT id FROM bookmark_snapshots s
+               WHERE s.bookmark_id = bookmark_snapshots.bookmark_id
+               ORDER BY s.created_at DESC, s.id DESC
+               LIMIT 1
+             ) THEN 1 ELSE 0 END
+         WHERE bookmark_id = ?`
+      )
+      .bind(keepId),
+    db
+      .prepare(
+        `UPDATE bookmarks
+         SET snapshot_count = (SELECT COUNT(*) FROM bookmark_snapshots WHERE bookmark_id = ?),
+             has_snapshot = CASE WHEN EXISTS (SELECT 1 FROM bookmark_snapshots WHERE bookmark_id = ?) THEN 1 ELSE 0 END,
+             latest_snapshot_at = (SELECT MAX(created_at) FROM bookmark_snapshots WHERE bookmark_id = ?)
+         WHERE id = ?`
+      )
+      .bind(keepId, keepId, keepId, keepId),
+    db
+      .prepare(
+        `UPDATE bookmarks
+         SET deleted_at = ?, click_count = 0, last_clicked_at = NULL,
+             has_snapshot = 0, snapshot_count = 0, latest_snapshot_at = NULL, updated_at = ?
+         WHERE id IN (${placeholders}) AND user_id = ?`
+      )
+      .bind(now, now, ...mergeIds, userId),
+    db
+      .prepare(
+        `INSERT INTO audit_logs (user_id, event_type, payload, created_at)
+         VALUES (?, 'merge_duplicate_bookmarks', ?, datetime('now'))`
+      )
+      .bind(userId, JSON.stringify({ keep_id: keepId, merged_ids: mergeIds })),
+  ])
+}
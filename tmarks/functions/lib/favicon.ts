@@ -0,0 +1,313 @@
+/**
+ * 站点图标代理
+ *
+ * 按域名解析网站图标（页面中声明的图标，其次 /favicon.ico），统一转换为固定尺寸的 PNG 后存入 R2，
+ * 客户端不再直接请求第三方图标服务。
+ * - 对象键为 favicons/<域名>/<尺寸>，一次解析会生成所有尺寸
+ * - 对象的 customMetadata 记录抓取时间，过期后先返回旧图标，再在后台重新解析
+ * - 无法获取或无法解码的图标回退为按域名生成的字母头像（SVG），头像每次即时生成、不写入 R2；
+ *   解析失败的域名在 KV 中记录一段时间，期间不再重复抓取
+ * - 解析新域名需要带签名的地址（签名由已登录用户通过 /favicons/token 获取），避免匿名请求让 R2 无限增长
+ */
+
+import type { Env } from './types'
+import { fetchFollowingRedirects, readLimited, unfurlUrl } from './unfurl'
+import { isPrivateHost } from './private-host'
+import { extractSignedParams, generateSignedUrl, verifySignedUrl } from './signed-url'
+import { decodeIco, decodePng, encodePng, isIco, isPng, resizeImage, type RgbaImage } from './png'
+
+export const FAVICON_SIZES = [16, 32, 64, 128] as const
+export type FaviconSize = typeof FAVICON_SIZES[number]
+export const DEFAULT_FAVICON_SIZE: FaviconSize = 32
+
+/** 图标的重新验证周期 */
+const ICON_TTL_MS = 7 * 24 * 60 * 60 * 1000
+/** 解析失败后多久内不再重试（秒） */
+const RESOLVE_FAILURE_TTL_SECONDS = 24 * 60 * 60
+const ICON_MAX_BYTES = 256 * 1024
+const ICON_FETCH_TIMEOUT_MS = 5000
+/** 后台刷新的去重窗口（秒） */
+const REFRESH_LOCK_SECONDS = 300
+/** 图标签名的有效期（秒），客户端应在过期前重新获取 */
+export const FAVICON_SIGNATURE_TTL_SECONDS = 7 * 24 * 60 * 60
+const FAVICON_SIGNATURE_RESOURCE = 'favicons'
+const FAVICON_SIGNATURE_ACTION = 'resolve'
+
+export type FaviconKind = 'icon' | 'avatar'
+
+export interface FaviconAsset {
+  body: Uint8Array | string
+  contentType: string
+  kind: FaviconKind
+  fetchedAt: string
+}
+
+type FaviconEnv = Pick<Env, 'TMARKS_KV' | 'SNAPSHOTS_BUCKET'>
+
+export interface FaviconSignature {
+  /** 追加到图标地址后的查询参数（u、exp、sig） */
+  query: string
+  expires_at: string
+}
+
+/**
+ * 规范化域名：转小写、去掉末尾的点，拒绝非法主机名、IP 地址和内网地址
+ */
+export function normalizeFaviconDomain(value: string): string | null {
+  const domain = value.trim().toLowerCase().replace(/\.$/, '')
+  if (
+    domain.length === 0 ||
+    domain.length > 253 ||
+    !/^(?!-)[a-z0-9-]{1,63}(?<!-)(\.(?!-)[a-z0-9-]{1,63}(?<!-))+$/.test(domain) ||
+    /^[\d.]+$/.test(domain) ||
+    isPrivateHost(domain)
+  ) {
+    return null
+  }
+  return domain
+}
+
+/**
+ * 取不小于请求值的最小固定尺寸，超出范围取最大尺寸
+ */
+export function normalizeFaviconSize(value: string | null): FaviconSize {
+  const requested = value ? parseInt(value, 10) : NaN
+  if (!Number.isFinite(requested) || requested <= 0) return DEFAULT_FAVICON_SIZE
+  return FAVICON_SIZES.find(size => size >= requested) ?? FAVICON_SIZES[FAVICON_SIZES.length - 1]
+}
+
+function faviconKey(domain: string, size: FaviconSize): string {
+  return `favicons/${domain}/${size}`
+}
+
+const AVATAR_COLORS = ['#ef4444', '#f97316', '#d97706', '#16a34a', '#0d9488', '#0284c7', '#4f46e5', '#9333ea', '#db2777', '#475569']
+
+/**
+ * 字母头像：取主域名的首字符，背景色由域名哈希决定
+ */
+export function letterAvatarSvg(domain: string, size: number): string {
+  const labels = domain.replace(/^www\./, '').split('.')
+  const name = labels.length > 2 ? labels[labels.length - 2] : labels[0]
+  const letter = (name.match(/[a-z0-9]/)?.[0] ?? '?').toUpperCase()
+
+  let hash = 0
+  for (let i = 0; i < domain.length; i++) {
+    hash = (hash * 31 + domain.charCodeAt(i)) >>> 0
+  }
+  const color = AVATAR_COLORS[hash % AVATAR_COLORS.length]
+
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 64 64">` +
+    `<rect width="64" height="64" rx="14" fill="${color}"/>` +
+    `<text x="32" y="32" dy="0.35em" text-anchor="middle" font-family="system-ui,-apple-system,'Segoe UI',Roboto,sans-serif" font-size="36" font-weight="600" fill="#ffffff">${letter}</text>` +
+    `</svg>`
+  )
+}
+
+export function letterAvatarAsset(domain: string, size: FaviconSize): FaviconAsset {
+  return {
+    body: letterAvatarSvg(domain, size),
+    contentType: 'image/svg+xml',
+    kind: 'avatar',
+    fetchedAt: new Date().toISOString(),
+  }
+}
+
+/**
+ * 为用户生成图标地址签名，持有签名的请求才能触发新域名的解析
+ */
+export async function createFaviconSignature(userId: string, secret: string): Promise<FaviconSignature> {
+  const { signature, expires } = await generateSignedUrl(
+    {
+      userId,
+      resourceId: FAVICON_SIGNATURE_RESOURCE,
+      expiresIn: FAVICON_SIGNATURE_TTL_SECONDS,
+      action: FAVICON_SIGNATURE_ACTION,
+    },
+    secret
+  )
+  const query = new URLSearchParams({ u: userId, exp: String(expires), sig: signature }).toString()
+  return { query, expires_at: new Date(expires * 1000).toISOString() }
+}
+
+/**
+ * 校验请求地址中的图标签名，有效时返回签名用户的 ID
+ */
+export async function verifyFaviconSignature(request: Request, secret: string): Promise<string | null> {
+  const { signature, expires, userId } = extractSignedParams(request)
+  if (!signature || !expires || !userId) return null
+
+  const verification = await verifySignedUrl(
+    signature,
+    expires,
+    userId,
+    FAVICON_SIGNATURE_RESOURCE,
+    secret,
+    FAVICON_SIGNATURE_ACTION
+  )
+  return verification.valid ? userId : null
+}
+
+function resolveFailureKey(domain: string): string {
+  return `favicon-miss:${domain}`
+}
+
+/**
+ * 域名最近是否解析失败过（失败记录过期前不再抓取）
+ */
+export async function hasRecentResolveFailure(env: FaviconEnv, domain: string): Promise<boolean> {
+  const kv = env.TMARKS_KV
+  if (!kv) return false
+  try {
+    return (await kv.get(resolveFailureKey(domain))) !== null
+  } catch {
+    return false
+  }
+}
+
+async function recordResolveFailure(env: FaviconEnv, domain: string): Promise<void> {
+  await env.TMARKS_KV
+    ?.put(resolveFailureKey(domain), new Date().toISOString(), { expirationTtl: RESOLVE_FAILURE_TTL_SECONDS })
+    .catch(error => console.warn('[Favicon] Failed to record resolve failure:', error))
+}
+
+async function decodeIcon(bytes: Uint8Array): Promise<RgbaImage | null> {
+  const largest = FAVICON_SIZES[FAVICON_SIZES.length - 1]
+  if (isPng(bytes)) return decodePng(bytes)
+  if (isIco(bytes)) return decodeIco(bytes, largest)
+  return null
+}
+
+/**
+ * 候选图标地址：页面中声明的图标，其次站点根目录的 /favicon.ico
+ */
+async function iconCandidates(env: FaviconEnv, domain: string): Promise<string[]> {
+  const fallback = `https://${domain}/favicon.ico`
+  const unfurled = await unfurlUrl(env, `https://${domain}/`)
+  const declared = unfurled.success ? unfurled.metadata.favicon : null
+  return declared && declared !== fallback ? [declared, fallback] : [fallback]
+}
+
+/**
+ * 解析域名的图标并解码，所有候选都失败时返回 null
+ */
+async function resolveIcon(env: FaviconEnv, domain: string): Promise<{ image: RgbaImage; sourceUrl: string } | null> {
+  for (const candidate of await iconCandidates(env, domain)) {
+    try {
+      const { response, finalUrl } = await fetchFollowingRedirects(candidate, 'image/png,image/x-icon,image/*;q=0.8', {
+        timeoutMs: ICON_FETCH_TIMEOUT_MS,
+      })
+      const bytes = await readLimited(response, ICON_MAX_BYTES + 1)
+      if (bytes.length > ICON_MAX_BYTES) continue
+
+      const image = await decodeIcon(bytes)
+      if (image) {
+        return { image, sourceUrl: finalUrl }
+      }
+    } catch (error) {
+      console.warn(`[Favicon] Failed to load ${candidate}:`, error instanceof Error ? error.message : error)
+    }
+  }
+  return null
+}
+
+/**
+ * 重新解析域名的图标，生成所有尺寸并写入 R2；返回请求的尺寸
+ * 解析失败时只记录失败（已存储的旧图标保持不变），返回 null，由调用方回退为字母头像
+ */
+export async function refreshFavicon(env: FaviconEnv, domain: string, size: FaviconSize): Promise<FaviconAsset | null> {
+  const fetchedAt = new Date().toISOString()
+  const resolved = await resolveIcon(env, domain)
+
+  if (!resolved) {
+    await recordResolveFailure(env, domain)
+    return null
+  }
+
+  const assets = await Promise.all(
+    FAVICON_SIZES.map(async (targetSize): Promise<[FaviconSize, FaviconAsset]> => {
+      const body = await encodePng(resizeImage(resolved.image, targetSize))
+      return [targetSize, { body, contentType: 'image/png', kind: 'icon', fetchedAt }]
+    })
+  )
+
+  const bucket = env.SNAPSHOTS_BUCKET
+  if (bucket) {
+    await Promise.all(
+      assets.map(([targetSize, asset]) =>
+        bucket.put(faviconKey(domain, targetSize), asset.body, {
+          httpMetadata: { contentType: asset.contentType },
+          customMetadata: {
+            kind: asset.kind,
+            fetched_at: fetchedAt,
+            source_url: resolved.sourceUrl,
+          },
+        })
+      )
+    ).catch(error => console.error('[Favicon] Failed to store icons:', error))
+  }
+
+  return assets.find(([targetSize]) => targetSize === size)![1]
+}
+
+/**
+ * 获取后台刷新的锁，避免同一域名过期时被并发重复解析
+ */
+async function acquireRefreshLock(env: FaviconEnv, domain: string): Promise<boolean> {
+  const kv = env.TMARKS_KV
+  if (!kv) return true
+  const key = `favicon-refresh:${domain}`
+  try {
+    if (await kv.get(key)) return false
+    await kv.put(key, '1', { expirationTtl: REFRESH_LOCK_SECONDS })
+  } catch {
+    // KV 不可用时不阻止刷新
+  }
+  return true
+}
+
+/**
+ * 读取已存储的图标；过期时通过 waitUntil 在后台刷新，本次仍返回旧图标
+ * 未存储过时返回 null，由调用方决定是否同步解析
+ */
+export async function getStoredFavicon(
+  env: FaviconEnv,
+  domain: string,
+  size: FaviconSize,
+  waitUntil: (promise: Promise<unknown>) => void
+): Promise<FaviconAsset | null> {
+  const bucket = env.SNAPSHOTS_BUCKET
+  if (!bucket) return null
+
+  const object = await bucket.get(faviconKey(domain, size))
+  if (!object) return null
+
+  // 旧版本会把字母头像也写入 R2，读到时清理掉，按未存储处理
+  if (object.customMetadata?.kind === 'avatar') {
+    waitUntil(
+      bucket
+        .delete(FAVICON_SIZES.map(targetSize => faviconKey(domain, targetSize)))
+        .catch(error => console.error(`[Favicon] Failed to delete stored avatar for ${domain}:`, error))
+    )
+    return null
+  }
+
+  const fetchedAt = object.customMetadata?.fetched_at || object.uploaded.toISOString()
+
+  if (
+    Date.now() - new Date(fetchedAt).getTime() > ICON_TTL_MS &&
+    !(await hasRecentResolveFailure(env, domain)) &&
+    (await acquireRefreshLock(env, domain))
+  ) {
+    waitUntil(
+      refreshFavicon(env, domain, size).catch(error => console.error(`[Favicon] Failed to refresh ${domain}:`, error))
+    )
+  }
+
+  return {
+    body: new Uint8Array(await object.arrayBuffer()),
+    contentType: object.httpMetadata?.contentType || 'image/png',
+    kind: 'icon',
+    fetchedAt,
+  }
+}
@@ -10,6 +10,22 @@ import type {
   ParsedTag, 
   ValidationResult 
 } from '../../../../shared/import-export-types'
+import { TAG_PATH_SEPARATOR } from '../../tags'
+
+/** 不作为标签导入的根文件夹 */
+const IGNORED_FOLDERS = ['未分类', 'Bookmarks']
+
+/**
+ * 标准化标签名称
+ */
+function normalizeTag(tag: string): string {
+  return tag
+    .trim()
+    .toLowerCase()
+    .replace(/[^\w\u4e00-\u9fff\s-]/g, '') // 保留中文、英文、数字、空格、连字符
+    .replace(/\s+/g, '-') // 空格转连字符
+    .substring(0, 50) // 限制长度
+}
 
 export class HtmlParser implements ImportParser {
   readonly format = 'html' as const
@@ -255,21 +271,12 @@ export class HtmlParser implements ImportParser {
     }
     
     // 将文件夹作为标签
-    if (folder && folder !== '未分类' && folder !== 'Bookmarks') {
+    if (folder && !IGNORED_FOLDERS.includes(folder)) {
       tags.push(folder)
     }
     
     // 去重并标准化
-    return [...new Set(tags.map(tag => this.normalizeTag(tag)))]
-  }
-
-  private normalizeTag(tag: string): string {
-    return tag
-      .trim()
-      .toLowerCase()
-      .replace(/[^\w\u4e00-\u9fff\s-]/g, '') // 保留中文、英文、数字、空格、连字符
-      .replace(/\s+/g, '-') // 空格转连字符
-      .substring(0, 50) // 限制长度
+    return [...new Set(tags.map(tag => normalizeTag(tag)))]
   }
 
   private extractTags(bookmarks: ParsedBookmark[]): ParsedTag[] {
@@ -363,6 +370,38 @@ export class HtmlParser implements ImportParser {
   }
 }
 
+/**
+ * 将书签文件夹路径映射为层级标签
+ *
+ * 默认解析时整个文件夹路径被压平成一个标签（如 "Dev/Frontend" → "devfrontend"），
+ * 这里替换为层级路径标签 "dev/frontend"，由 createOrLinkTags 按路径创建父子标签。
+ */
+export function mapFoldersToTagTree(data: ImportData): ImportData {
+  const bookmarks = data.bookmarks.map(bookmark => {
+    if (!bookmark.folder) return bookmark
+
+    const segments = bookmark.folder
+      .split('/')
+      .filter(segment => !IGNORED_FOLDERS.includes(segment.trim()))
+      .map(normalizeTag)
+      .filter(Boolean)
+    const flatTag = normalizeTag(bookmark.folder)
+    const tags = bookmark.tags.filter(tag => tag !== flatTag)
+
+    if (segments.length > 0) {
+      tags.push(segments.join(TAG_PATH_SEPARATOR))
+    }
+
+    return { ...bookmark, tags: [...new Set(tags)] }
+  })
+
+  // 路径标签在关联书签时按层级创建，这里只保留普通标签
+  const usedTags = new Set(bookmarks.flatMap(bookmark => bookmark.tags))
+  const tags = data.tags.filter(tag => usedTags.has(tag.name) && !tag.name.includes(TAG_PATH_SEPARATOR))
+
+  return { ...data, bookmarks, tags }
+}
+
 /**
  * 创建 HTML 解析器实例
  */
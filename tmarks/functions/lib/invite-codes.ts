@@ -0,0 +1,380 @@
+/**
+ * 邀请码
+ * - 管理员可以创建多次使用、可选过期时间的邀请码；普通用户只能在配额内创建单次使用、最长 30 天有效的邀请码
+ * - 未开放注册时仍可凭有效邀请码注册（仅邀请模式）
+ * - 注册时校验并消耗邀请码，使用记录保存在 invite_code_uses 中（一个账号只对应一个邀请码）
+ * - 撤销只是标记 revoked_at，已注册的账号不受影响
+ */
+
+import type { D1Database, D1PreparedStatement } from '@cloudflare/workers-types'
+import { generateUUID } from './crypto'
+import { loadAppSettingOverrides } from './app-settings'
+
+export type InviteCodeStatus = 'active' | 'expired' | 'exhausted' | 'revoked'
+
+export interface InviteCodeRow {
+  id: string
+  code: string
+  created_by: string | null
+  created_by_username: string | null
+  max_uses: number
+  use_count: number
+  note: string | null
+  expires_at: string | null
+  revoked_at: string | null
+  created_at: string
+}
+
+export interface InviteCodeUse {
+  invite_code_id: string
+  user_id: string
+  username: string | null
+  created_at: string
+}
+
+export interface InviteCode extends InviteCodeRow {
+  status: InviteCodeStatus
+  uses: InviteCodeUse[]
+}
+
+export interface CreateInviteCodeInput {
+  maxUses: number
+  expiresAt: string | null
+  note: string | null
+}
+
+export type InviteCodeCheck =
+  | { valid: true; invite: InviteCodeRow }
+  | { valid: false; code: string; message: string }
+
+/** 管理员创建的邀请码最多可使用次数 */
+export const MAX_INVITE_CODE_USES = 1000
+
+/** 邀请码有效期上限（天） */
+export const MAX_INVITE_CODE_EXPIRY_DAYS = 365
+
+/** 未指定有效期时的默认值（天） */
+export const DEFAULT_INVITE_CODE_EXPIRY_DAYS = 7
+
+/** 普通用户创建的邀请码有效期上限（天） */
+export const MAX_USER_INVITE_CODE_EXPIRY_DAYS = 30
+
+/** 列表最多返回的邀请码数量 */
+const MAX_LIST_SIZE = 200
+
+const MAX_NOTE_LENGTH = 200
+
+/** 计入用户配额的邀请码：撤销且未被使用过的不计入 */
+const QUOTA_COUNTED_CONDITION = 'created_by = ? AND (revoked_at IS NULL OR use_count > 0)'
+
+// 去掉容易混淆的 0/O、1/I，32 个字符，随机字节取模后分布均匀
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'
+const CODE_LENGTH = 12
+const CODE_GROUP_SIZE = 4
+
+/** 生成 XXXX-XXXX-XXXX 格式的邀请码 */
+export function generateInviteCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(CODE_LENGTH))
+  const chars = Array.from(bytes, (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('')
+  return formatInviteCode(chars)
+}
+
+function formatInviteCode(chars: string): string {
+  const groups: string[] = []
+  for (let i = 0; i < chars.length; i += CODE_GROUP_SIZE) {
+    groups.push(chars.slice(i, i + CODE_GROUP_SIZE))
+  }
+  return groups.join('-')
+}
+
+/**
+ * 规范化用户输入的邀请码：忽略大小写、空格和分隔符，格式不对时返回 null
+ */
+export function normalizeInviteCode(input: string): string | null {
+  const chars = input.toUpperCase().replace(/[^A-Z0-9]/g, '')
+  if (chars.length !== CODE_LENGTH) {
+    return null
+  }
+  return formatInviteCode(chars)
+}
+
+export function getInviteCodeStatus(row: InviteCodeRow, now = new Date()): InviteCodeStatus {
+  if (row.revoked_at) return 'revoked'
+  if (row.use_count >= row.max_uses) return 'exhausted'
+  if (row.expires_at && new Date(row.expires_at) <= now) return 'expired'
+  return 'active'
+}
+
+/** 普通用户可以创建的邀请码数量（运行时设置，默认 0） */
+export async function getUserInviteQuota(db: D1Database): Promise<number> {
+  const overrides = await loadAppSettingOverrides(db)
+  return overrides.user_invite_quota ?? 0
+}
+
+/** 计入配额的邀请码数量 */
+export async function countUserInviteCodes(db: D1Database, userId: string): Promise<number> {
+  const row = await db
+    .prepare(`SELECT COUNT(*) AS count FROM invite_codes WHERE ${QUOTA_COUNTED_CONDITION}`)
+    .bind(userId)
+    .first<{ count: number }>()
+
+  return row?.count ?? 0
+}
+
+/**
+ * 校验创建邀请码的请求
+ * 普通用户只能创建单次使用的邀请码，且必须设置有效期
+ */
+export function validateCreateInviteCode(
+  body: unknown,
+  options: { isAdmin: boolean }
+): { valid: true; input: CreateInviteCodeInput } | { valid: false; error: string } {
+  const input = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>
+
+  let maxUses = 1
+  if (input.max_uses !== undefined) {
+    const limit = options.isAdmin ? MAX_INVITE_CODE_USES : 1
+    if (typeof input.max_uses !== 'number' || !Number.isInteger(input.max_uses) || input.max_uses < 1 || input.max_uses > limit) {
+      return { valid: false, error: `max_uses must be an integer between 1 and ${limit}` }
+    }
+    maxUses = input.max_uses
+  }
+
+  const maxDays = options.isAdmin ? MAX_INVITE_CODE_EXPIRY_DAYS : MAX_USER_INVITE_CODE_EXPIRY_DAYS
+  let expiresInDays: number | null = DEFAULT_INVITE_CODE_EXPIRY_DAYS
+  if (input.expires_in_days === null) {
+    if (!options.isAdmin) {
+      return { valid: false, error: 'Invite codes must have an expiry' }
+    }
+    expiresInDays = null
+  } else if (input.expires_in_days !== undefined) {
+    const days = input.expires_in_days
+    if (typeof days !== 'number' || !Number.isInteger(days) || days < 1 || days > maxDays) {
+      return { valid: false, error: `expires_in_days must be an integer between 1 and ${maxDays}` }
+    }
+    expiresInDays = days
+  }
+
+  let note: string | null = null
+  if (input.note !== undefined && input.note !== null) {
+    if (typeof input.note !== 'string') {
+      return { valid: false, error: 'note must be a string' }
+    }
+    note = input.note.trim().slice(0, MAX_NOTE_LENGTH) || null
+  }
+
+  return {
+    valid: true,
+    input: {
+      maxUses,
+      expiresAt: expiresInDays === null ? null : new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString(),
+      note,
+    },
+  }
+}
+
+export async function createInviteCode(
+  db: D1Database,
+  createdBy: string,
+  input: CreateInviteCodeInput
+): Promise<InviteCode> {
+  const id = generateUUID()
+  const code = generateInviteCode()
+  const now = new Date().toISOString()
+
+  await db
+    .prepare(
+      `INSERT INTO invite_codes (id, code, created_by, max_uses, use_count, note, expires_at, created_at)
+       VALUES (?, ?, ?, ?, 0, ?, ?, ?)`
+    )
+    .bind(id, code, createdBy, input.maxUses, input.note, input.expiresAt, now)
+    .run()
+
+  return loadCreatedInviteCode(db, id)
+}
+
+/**
+ * 普通用户在配额内创建邀请码，已达配额时返回 null
+ * 配额检查和写入在同一条语句中完成，避免并发请求超出配额
+ */
+export async function createUserInviteCode(
+  db: D1Database,
+  userId: string,
+  input: CreateInviteCodeInput,
+  quota: number
+): Promise<InviteCode | null> {
+  const id = generateUUID()
+  const code = generateInviteCode()
+  const now = new Date().toISOString()
+
+  const result = await db
+    .prepare(
+      `INSERT INTO invite_codes (id, code, created_by, max_uses, use_count, note, expires_at, created_at)
+       SELECT ?, ?, ?, ?, 0, ?, ?, ?
+       WHERE (SELECT COUNT(*) FROM invite_codes WHERE ${QUOTA_COUNTED_CONDITION}) < ?`
+    )
+    .bind(id, code, userId, input.maxUses, input.note, input.expiresAt, now, userId, quota)
+    .run()
+
+  if (!result.meta.changes) {
+    return null
+  }
+  return loadCreatedInviteCode(db, id)
+}
+
+async function loadCreatedInviteCode(db: D1Database, id: string): Promise<InviteCode> {
+  const invite = await getInviteCode(db, id)
+  if (!invite) {
+    throw new Error('Failed to load created invite code')
+  }
+  return invite
+}
+
+export async function getInviteCode(db: D1Database, id: string): Promise<InviteCode | null> {
+  const row = await db
+    .prepare(
+      `SELECT c.*, u.username AS created_by_username
+       FROM invite_codes c
+       LEFT JOIN users u ON u.id = c.created_by
+       WHERE c.id = ?`
+    )
+    .bind(id)
+    .first<InviteCodeRow>()
+
+  if (!row) {
+    return null
+  }
+
+  const { results } = await db
+    .prepare(
+      `SELECT iu.invite_code_id, iu.user_id, u.username, iu.created_at
+       FROM invite_code_uses iu
+       LEFT JOIN users u ON u.id = iu.user_id
+       WHERE iu.invite_code_id = ?
+       ORDER BY iu.created_at ASC`
+    )
+    .bind(id)
+    .all<InviteCodeUse>()
+
+  return { ...row, status: getInviteCodeStatus(row), uses: results || [] }
+}
+
+/**
+ * 获取邀请码列表（按创建时间倒序），createdBy 为空时返回所有用户创建的邀请码
+ */
+export async function listInviteCodes(db: D1Database, createdBy: string | null): Promise<InviteCode[]> {
+  const filter = createdBy ? 'WHERE c.created_by = ?' : ''
+  const params = createdBy ? [createdBy] : []
+
+  const [codes, uses] = await db.batch([
+    db
+      .prepare(
+        `SELECT c.*, u.username AS created_by_username
+         FROM invite_codes c
+         LEFT JOIN users u ON u.id = c.created_by
+         ${filter}
+         ORDER BY c.created_at DESC
+         LIMIT ?`
+      )
+      .bind(...params, MAX_LIST_SIZE),
+    db
+      .prepare(
+        `SELECT iu.invite_code_id, iu.user_id, u.username, iu.created_at
+         FROM invite_code_uses iu
+         LEFT JOIN users u ON u.id = iu.user_id
+         WHERE iu.invite_code_id IN (
+           SELECT c.id FROM invite_codes c ${filter} ORDER BY c.created_at DESC LIMIT ?
+         )
+         ORDER BY iu.created_at ASC`
+      )
+      .bind(...params, MAX_LIST_SIZE),
+  ])
+
+  const usesByCode = new Map<string, InviteCodeUse[]>()
+  for (const use of (uses.results || []) as InviteCodeUse[]) {
+    const list = usesByCode.get(use.invite_code_id) || []
+    list.push(use)
+    usesByCode.set(use.invite_code_id, list)
+  }
+
+  const now = new Date()
+  return ((codes.results || []) as InviteCodeRow[]).map((row) => ({
+    ...row,
+    status: getInviteCodeStatus(row, now),
+    uses: usesByCode.get(row.id) || [],
+  }))
+}
+
+/** 撤销邀请码，返回是否有记录被更新（已撤销的不重复更新） */
+export async function revokeInviteCode(db: D1Database, id: string): Promise<boolean> {
+  const result = await db
+    .prepare('UPDATE invite_codes SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL')
+    .bind(new Date().toISOString(), id)
+    .run()
+
+  return Boolean(result.meta.changes)
+}
+
+/**
+ * 注册前检查邀请码是否可用（不消耗次数）
+ */
+export async function checkInviteCode(db: D1Database, input: string): Promise<InviteCodeCheck> {
+  const code = normalizeInviteCode(input)
+  const row = code
+    ? await db
+        .prepare(
+          `SELECT c.*, NULL AS created_by_username
+           FROM invite_codes c
+           WHERE c.code = ?`
+        )
+        .bind(code)
+        .first<InviteCodeRow>()
+    : null
+
+  if (!row) {
+    return { valid: false, code: 'INVITE_CODE_INVALID', message: 'Invalid invite code' }
+  }
+
+  switch (getInviteCodeStatus(row)) {
+    case 'revoked':
+      return { valid: false, code: 'INVITE_CODE_REVOKED', message: 'This invite code has been revoked' }
+    case 'exhausted':
+      return { valid: false, code: 'INVITE_CODE_EXHAUSTED', message: 'This invite code has already been used' }
+    case 'expired':
+      return { valid: false, code: 'INVITE_CODE_EXPIRED', message: 'This invite code has expired' }
+    default:
+      return { valid: true, invite: row }
+  }
+}
+
+/**
+ * 占用邀请码的一次使用次数，邀请码已失效或次数已用完时返回 false
+ * 次数检查和计数在同一条语句中完成，避免并发注册超出次数
+ */
+export async function consumeInviteCode(db: D1Database, id: string): Promise<boolean> {
+  const result = await db
+    .prepare(
+      `UPDATE invite_codes SET use_count = use_count + 1
+       WHERE id = ? AND revoked_at IS NULL AND use_count < max_uses
+         AND (expires_at IS NULL OR expires_at > ?)`
+    )
+    .bind(id, new Date().toISOString())
+    .run()
+
+  return Boolean(result.meta.changes)
+}
+
+/** 注册失败时归还使用次数 */
+export async function releaseInviteCode(db: D1Database, id: string): Promise<void> {
+  await db
+    .prepare('UPDATE invite_codes SET use_count = MAX(use_count - 1, 0) WHERE id = ?')
+    .bind(id)
+    .run()
+}
+
+/** 记录账号使用的邀请码，与创建用户放在同一个 batch 中执行 */
+export function inviteCodeUseStatement(db: D1Database, inviteCodeId: string, userId: string, createdAt: string): D1PreparedStatement {
+  return db
+    .prepare('INSERT INTO invite_code_uses (id, invite_code_id, user_id, created_at) VALUES (?, ?, ?, ?)')
+    .bind(generateUUID(), inviteCodeId, userId, createdAt)
+}
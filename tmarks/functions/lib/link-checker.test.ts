@@ -0,0 +1,175 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import { LINK_CHECK_FAILURE_THRESHOLD, applyFailureThreshold, checkLink } from './link-checker'
+
+/** 本地 HTTP 桩：每个路径对应一种响应 */
+const routes: Record<string, (req: IncomingMessage, res: ServerResponse) => void> = {
+  '/ok': (_req, res) => {
+    res.writeHead(200, { 'Content-Type': 'text/html' })
+    res.end('<title>ok</title>')
+  },
+  '/missing': (_req, res) => {
+    res.writeHead(404)
+    res.end()
+  },
+  '/gone': (_req, res) => {
+    res.writeHead(410)
+    res.end()
+  },
+  '/no-head': (req, res) => {
+    res.writeHead(req.method === 'HEAD' ? 405 : 200)
+    res.end()
+  },
+  '/chain-1': (_req, res) => {
+    res.writeHead(301, { Location: '/chain-2' })
+    res.end()
+  },
+  '/chain-2': (_req, res) => {
+    res.writeHead(302, { Location: '/final?from=chain' })
+    res.end()
+  },
+  '/final': (_req, res) => {
+    res.writeHead(200)
+    res.end()
+  },
+  '/unavailable': (_req, res) => {
+    res.writeHead(503)
+    res.end()
+  },
+  '/slow': (_req, res) => {
+    setTimeout(() => {
+      res.writeHead(200)
+      res.end()
+    }, 1000)
+  },
+  '/redirect-private': (_req, res) => {
+    res.writeHead(302, { Location: 'http://169.254.169.254/latest/meta-data/' })
+    res.end()
+  },
+}
+
+let server: Server
+let baseUrl: string
+const hits: Record<string, number> = {}
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const path = (req.url || '/').split('?')[0] as string
+    hits[path] = (hits[path] || 0) + 1
+    const handler = routes[path]
+    if (handler) {
+      handler(req, res)
+    } else {
+      res.writeHead(404)
+      res.end()
+    }
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+})
+
+afterAll(async () => {
+  server.closeAllConnections()
+  await new Promise(resolve => server.close(resolve))
+})
+
+beforeEach(() => {
+  for (const path of Object.keys(hits)) delete hits[path]
+})
+
+/** 把公网域名 public.test 转发到本地桩，其他地址照常请求 */
+const fetcher: typeof fetch = (input, init) => {
+  const url = new URL(typeof input === 'string' ? input : input instanceof URL ? input.href : input.url)
+  if (url.hostname === 'public.test') {
+    return fetch(`${baseUrl}${url.pathname}${url.search}`, init)
+  }
+  return fetch(input, init)
+}
+
+describe('checkLink', () => {
+  it('reports a 200 response as ok', async () => {
+    const result = await checkLink('http://public.test/ok', { fetcher })
+
+    expect(result).toEqual({ status: 'ok', http_status: 200, final_url: null, error: null, failed: false })
+  })
+
+  it('reports 404 and 410 as broken', async () => {
+    for (const path of ['/missing', '/gone']) {
+      const result = await checkLink(`http://public.test${path}`, { fetcher })
+      expect(result.status, path).toBe('broken')
+      expect(result.failed, path).toBe(true)
+    }
+  })
+
+  it('falls back to GET when HEAD is not allowed', async () => {
+    const result = await checkLink('http://public.test/no-head', { fetcher })
+
+    expect(result.status).toBe('ok')
+    expect(result.http_status).toBe(200)
+    expect(hits['/no-head']).toBe(2)
+  })
+
+  it('follows a redirect chain and reports the final URL', async () => {
+    const result = await checkLink('http://public.test/chain-1', { fetcher })
+
+    expect(result.status).toBe('redirected')
+    expect(result.http_status).toBe(200)
+    expect(result.final_url).toBe('http://public.test/final?from=chain')
+  })
+
+  it('counts 5xx responses and timeouts as failures', async () => {
+    const unavailable = await checkLink('http://public.test/unavailable', { fetcher })
+    expect(unavailable).toMatchObject({ status: 'error', http_status: 503, failed: true })
+
+    const slow = await checkLink('http://public.test/slow', { fetcher, timeoutMs: 100 })
+    expect(slow).toMatchObject({ status: 'error', http_status: null, failed: true })
+  })
+
+  it('refuses to follow a redirect to a private address', async () => {
+    const result = await checkLink('http://public.test/redirect-private', { fetcher })
+
+    expect(result).toEqual({
+      status: 'error',
+      http_status: null,
+      final_url: null,
+      error: 'URL host is not allowed',
+      failed: false,
+    })
+    expect(hits['/redirect-private']).toBe(1)
+  })
+
+  it('does not request a private address unless allowed', async () => {
+    const blocked = await checkLink(`${baseUrl}/ok`, { fetcher })
+    expect(blocked.status).toBe('error')
+    expect(blocked.error).toBe('URL host is not allowed')
+    expect(hits['/ok']).toBeUndefined()
+
+    const allowed = await checkLink(`${baseUrl}/ok`, { fetcher, allowPrivateHosts: true })
+    expect(allowed.status).toBe('ok')
+  })
+})
+
+describe('applyFailureThreshold', () => {
+  it('marks repeated failures as broken once the threshold is reached', async () => {
+    const result = await checkLink('http://public.test/unavailable', { fetcher })
+
+    expect(applyFailureThreshold(result, 0)).toEqual({ status: 'error', failures: 1 })
+    expect(applyFailureThreshold(result, LINK_CHECK_FAILURE_THRESHOLD - 2)).toEqual({
+      status: 'error',
+      failures: LINK_CHECK_FAILURE_THRESHOLD - 1,
+    })
+    expect(applyFailureThreshold(result, LINK_CHECK_FAILURE_THRESHOLD - 1)).toEqual({
+      status: 'broken',
+      failures: LINK_CHECK_FAILURE_THRESHOLD,
+    })
+  })
+
+  it('keeps the failure count for inconclusive results and resets it on success', async () => {
+    const blocked = await checkLink('http://public.test/redirect-private', { fetcher })
+    expect(applyFailureThreshold(blocked, 2)).toEqual({ status: 'error', failures: 2 })
+
+    const ok = await checkLink('http://public.test/ok', { fetcher })
+    expect(applyFailureThreshold(ok, 2)).toEqual({ status: 'ok', failures: 0 })
+  })
+})
@@ -0,0 +1,374 @@
+/**
+ * 失效链接与重定向检测
+ *
+ * 定时任务（workers/scheduled）按批次检测书签 URL，结果写入 bookmark_link_checks：
+ * - ok：最终落在原地址且返回成功
+ * - redirected：跳转到了其他地址，final_url 为最终地址
+ * - broken：404/410，或连续多次请求失败（网络错误、5xx 等）
+ * - error：结果不确定（401/403/429、失败次数未达阈值），不视为失效
+ *
+ * 指向本机、内网或保留地址的 URL（包括重定向中的任何一跳）不发起请求，记为 error 且不计入失败次数。
+ *
+ * checked_url 记录检测时的书签 URL，书签 URL 修改后旧结果不再生效，并会被优先重新检测。
+ */
+
+import { isPrivateHost } from './private-host'
+
+export type LinkCheckStatus = 'ok' | 'redirected' | 'broken' | 'error'
+
+export const LINK_CHECK_STATUSES: LinkCheckStatus[] = ['ok', 'redirected', 'broken', 'error']
+
+export interface LinkCheckResult {
+  status: LinkCheckStatus
+  http_status: number | null
+  final_url: string | null
+  error: string | null
+  /** 本次是否计为一次失败（用于累计连续失败次数） */
+  failed: boolean
+}
+
+export interface CheckLinkOptions {
+  /** 自定义 fetch（本地调试时可指向 HTTP 桩） */
+  fetcher?: typeof fetch
+  timeoutMs?: number
+  /** 允许请求本机和内网地址（仅用于本地 HTTP 桩调试） */
+  allowPrivateHosts?: boolean
+}
+
+export interface RunLinkChecksOptions extends CheckLinkOptions {
+  /** 本次最多检测的书签数（注意 Workers 单次调用的子请求数上限） */
+  batchSize?: number
+  /** 检测结果的有效天数，过期后重新检测 */
+  intervalDays?: number
+  /** 只检测指定用户的书签 */
+  userId?: string
+  concurrency?: number
+}
+
+export interface RunLinkChecksSummary {
+  checked: number
+  counts: Record<LinkCheckStatus, number>
+  /** 检测结果发生变化的用户，调用方据此失效书签列表缓存 */
+  changed_user_ids: string[]
+}
+
+export const LINK_CHECK_DEFAULT_BATCH_SIZE = 20
+export const LINK_CHECK_DEFAULT_INTERVAL_DAYS = 7
+
+/** 连续失败达到该次数才判定为失效，避免偶发故障误判 */
+export const LINK_CHECK_FAILURE_THRESHOLD = 3
+
+/** 未达阈值的失败在该间隔后重试 */
+const RETRY_INTERVAL_MS = 24 * 60 * 60 * 1000
+const MAX_REDIRECTS = 10
+const DEFAULT_TIMEOUT_MS = 10000
+const DEFAULT_CONCURRENCY = 5
+const USER_AGENT = 'Mozilla/5.0 (compatible; TMarks-LinkChecker/1.0)'
+
+interface DueLinkCheckRow {
+  id: string
+  user_id: string
+  url: string
+  previous_status: LinkCheckStatus | null
+  previous_failures: number
+}
+
+interface FollowResult {
+  response: Response
+  finalUrl: string
+}
+
+/** 目标地址不允许请求（非 http(s)，或为本机、内网地址） */
+class BlockedUrlError extends Error {}
+
+function assertCheckable(url: string, allowPrivateHosts: boolean) {
+  const { protocol, hostname } = new URL(url)
+  if (protocol !== 'http:' && protocol !== 'https:') {
+    throw new BlockedUrlError('Only http and https URLs can be checked')
+  }
+  if (!allowPrivateHosts && isPrivateHost(hostname)) {
+    throw new BlockedUrlError('URL host is not allowed')
+  }
+}
+
+function normalizeUrl(url: string): string {
+  try {
+    return new URL(url).href
+  } catch {
+    return url
+  }
+}
+
+/**
+ * 手动跟随重定向，记录最终地址；每一跳请求前都校验目标地址
+ */
+async function followRedirects(
+  url: string,
+  method: 'HEAD' | 'GET',
+  fetcher: typeof fetch,
+  timeoutMs: number,
+  allowPrivateHosts: boolean
+): Promise<FollowResult> {
+  let currentUrl = url
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    assertCheckable(currentUrl, allowPrivateHosts)
+    const response = await fetcher(currentUrl, {
+      method,
+      redirect: 'manual',
+      headers: { 'User-Agent': USER_AGENT },
+      signal: AbortSignal.timeout(timeoutMs),
+    })
+
+    const location = response.headers.get('location')
+    if (response.status >= 300 && response.status < 400 && location) {
+      await response.body?.cancel()
+      currentUrl = new URL(location, currentUrl).href
+      continue
+    }
+
+    return { response, finalUrl: currentUrl }
+  }
+
+  throw new Error(`Too many redirects (>${MAX_REDIRECTS})`)
+}
+
+/**
+ * 检测单个链接
+ * 先发 HEAD 请求，站点不支持 HEAD 时退回 GET
+ */
+export async function checkLink(url: string, options: CheckLinkOptions = {}): Promise<LinkCheckResult> {
+  const fetcher = options.fetcher ?? fetch
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+  const allowPrivateHosts = Boolean(options.allowPrivateHosts)
+
+  let result: FollowResult
+  try {
+    result = await followRedirects(url, 'HEAD', fetcher, timeoutMs, allowPrivateHosts)
+    if (result.response.status === 405 || result.response.status === 501) {
+      result = await followRedirects(url, 'GET', fetcher, timeoutMs, allowPrivateHosts)
+    }
+    await result.response.body?.cancel()
+  } catch (error) {
+    // 不允许请求的地址：不是链接本身的问题，不计入失败次数，也不返回内网地址
+    if (error instanceof BlockedUrlError) {
+      return { status: 'error', http_status: null, final_url: null, error: error.message, failed: false }
+    }
+    return {
+      status: 'error',
+      http_status: null,
+      final_url: null,
+      error: error instanceof Error ? error.message : String(error),
+      failed: true,
+    }
+  }
+
+  const httpStatus = result.response.status
+  const finalUrl = normalizeUrl(result.finalUrl)
+  const moved = finalUrl !== normalizeUrl(url)
+
+  if (httpStatus >= 200 && httpStatus < 400) {
+    return {
+      status: moved ? 'redirected' : 'ok',
+      http_status: httpStatus,
+      final_url: moved ? finalUrl : null,
+      error: null,
+      failed: false,
+    }
+  }
+
+  // 明确的“不存在”直接判定失效
+  if (httpStatus === 404 || httpStatus === 410) {
+    return { status: 'broken', http_status: httpStatus, final_url: moved ? finalUrl : null, error: null, failed: true }
+  }
+
+  // 需要登录或被限流：无法判断链接是否有效
+  if (httpStatus === 401 || httpStatus === 403 || httpStatus === 429) {
+    return { status: 'error', http_status: httpStatus, final_url: moved ? finalUrl : null, error: null, failed: false }
+  }
+
+  return {
+    status: 'error',
+    http_status: httpStatus,
+    final_url: moved ? finalUrl : null,
+    error: `HTTP ${httpStatus}`,
+    failed: true,
+  }
+}
+
+/**
+ * 结合之前的连续失败次数得出最终状态：失败次数达到 LINK_CHECK_FAILURE_THRESHOLD 的 error 判定为失效
+ */
+export function applyFailureThreshold(
+  result: LinkCheckResult,
+  previousFailures: number
+): { status: LinkCheckStatus; failures: number } {
+  const failures = result.failed ? previousFailures + 1 : result.status === 'error' ? previousFailures : 0
+  const status: LinkCheckStatus =
+    result.failed && result.status === 'error' && failures >= LINK_CHECK_FAILURE_THRESHOLD ? 'broken' : result.status
+  return { status, failures }
+}
+
+/**
+ * 获取待检测的书签：从未检测、URL 已修改、结果过期或失败待重试，最久未检测的优先
+ */
+async function getDueBookmarks(
+  db: D1Database,
+  limit: number,
+  intervalDays: number,
+  userId?: string
+): Promise<DueLinkCheckRow[]> {
+  const now = Date.now()
+  const staleBefore = new Date(now - intervalDays * 24 * 60 * 60 * 1000).toISOString()
+  const retryBefore = new Date(now - RETRY_INTERVAL_MS).toISOString()
+
+  const { results } = await db
+    .prepare(
+      `SELECT
+         b.id,
+         b.user_id,
+         b.url,
+         CASE WHEN c.checked_url = b.url THEN c.status ELSE NULL END AS previous_status,
+         CASE WHEN c.checked_url = b.url THEN c.consecutive_failures ELSE 0 END AS previous_failures
+       FROM bookmarks b
+       LEFT JOIN bookmark_link_checks c ON c.bookmark_id = b.id
+       WHERE b.deleted_at IS NULL
+         AND (b.url LIKE 'http://%' OR b.url LIKE 'https://%')
+         ${userId ? 'AND b.user_id = ?' : ''}
+         AND (
+           c.bookmark_id IS NULL
+           OR c.checked_url != b.url
+           OR c.checked_at < ?
+           OR (c.status = 'error' AND c.consecutive_failures > 0 AND c.checked_at < ?)
+         )
+       ORDER BY c.checked_at IS NOT NULL, c.checked_at ASC
+       LIMIT ?`
+    )
+    .bind(...(userId ? [userId] : []), staleBefore, retryBefore, limit)
+    .all<DueLinkCheckRow>()
+
+  return results || []
+}
+
+/**
+ * 执行一批链接检测并保存结果
+ */
+export async function runLinkChecks(
+  db: D1Database,
+  options: RunLinkChecksOptions = {}
+): Promise<RunLinkChecksSummary> {
+  const batchSize = options.batchSize ?? LINK_CHECK_DEFAULT_BATCH_SIZE
+  const intervalDays = options.intervalDays ?? LINK_CHECK_DEFAULT_INTERVAL_DAYS
+  const concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY)
+
+  const counts: Record<LinkCheckStatus, number> = { ok: 0, redirected: 0, broken: 0, error: 0 }
+  const rows = await getDueBookmarks(db, batchSize, intervalDays, options.userId)
+  if (rows.length === 0) {
+    return { checked: 0, counts, changed_user_ids: [] }
+  }
+
+  const statements: D1PreparedStatement[] = []
+  const changedUserIds = new Set<string>()
+  let nextIndex = 0
+
+  const worker = async () => {
+    while (nextIndex < rows.length) {
+      const row = rows[nextIndex++]
+      const result = await checkLink(row.url, options)
+
+      const { status, failures } = applyFailureThreshold(result, row.previous_failures)
+
+      counts[status]++
+      if (status !== row.previous_status) {
+        changedUserIds.add(row.user_id)
+      }
+
+      statements.push(
+        db
+          .prepare(
+            `INSERT INTO bookmark_link_checks
+               (bookmark_id, user_id, checked_url, status, http_status, final_url, error, consecutive_failures, checked_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+             ON CONFLICT(bookmark_id) DO UPDATE SET
+               checked_url = excluded.checked_url,
+               status = excluded.status,
+               http_status = excluded.http_status,
+               final_url = excluded.final_url,
+               error = excluded.error,
+               consecutive_failures = excluded.consecutive_failures,
+               checked_at = excluded.checked_at`
+          )
+          .bind(
+            row.id,
+            row.user_id,
+            row.url,
+            status,
+            result.http_status,
+            result.final_url,
+            result.error,
+            failures,
+            new Date().toISOString()
+          )
+      )
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, rows.length) }, () => worker()))
+  await db.batch(statements)
+
+  return {
+    checked: rows.length,
+    counts,
+    changed_user_ids: [...changedUserIds],
+  }
+}
+
+export interface BookmarkLinkCheck {
+  status: LinkCheckStatus
+  http_status: number | null
+  final_url: string | null
+  checked_at: string
+}
+
+export function isLinkCheckStatus(value: string | null): value is LinkCheckStatus {
+  return value !== null && (LINK_CHECK_STATUSES as string[]).includes(value)
+}
+
+/**
+ * 书签列表按检测状态筛选的条件（只认与当前 URL 一致的检测结果）
+ */
+export const LINK_STATUS_CONDITION = `EXISTS (
+  SELECT 1
+  FROM bookmark_link_checks c
+  WHERE c.bookmark_id = b.id AND c.checked_url = b.url AND c.status = ?
+)`
+
+/**
+ * 批量读取书签的当前检测结果
+ */
+export async function getBookmarkLinkChecks(
+  db: D1Database,
+  bookmarks: Array<{ id: string; url: string }>
+): Promise<Map<string, BookmarkLinkCheck>> {
+  const checks = new Map<string, BookmarkLinkCheck>()
+  if (bookmarks.length === 0) return checks
+
+  const urlsById = new Map(bookmarks.map(bookmark => [bookmark.id, bookmark.url]))
+  const placeholders = bookmarks.map(() => '?').join(',')
+  const { results } = await db
+    .prepare(
+      `SELECT bookmark_id, checked_url, status, http_status, final_url, checked_at
+       FROM bookmark_link_checks
+       WHERE bookmark_id IN (${placeholders})`
+    )
+    .bind(...urlsById.keys())
+    .all<BookmarkLinkCheck & { bookmark_id: string; checked_url: string }>()
+
+  for (const { bookmark_id, checked_url, ...check } of results || []) {
+    if (urlsById.get(bookmark_id) === checked_url) {
+      checks.set(bookmark_id, check)
+    }
+  }
+
+  return checks
+}
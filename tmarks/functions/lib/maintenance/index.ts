@@ -0,0 +1,32 @@
+/**
+ * 定时维护任务
+ *
+ * 任务在 registry.ts 中注册，由定时任务 Worker（workers/scheduled）按各自的运行间隔触发，
+ * 管理员也可以通过 /api/v1/admin/maintenance 手动运行。
+ */
+
+export type {
+  MaintenanceJobDefinition,
+  MaintenanceJobName,
+  MaintenanceJobStatus,
+  MaintenanceJobSummary,
+  MaintenanceRun,
+  MaintenanceRunStatus,
+  MaintenanceTrigger,
+} from './types'
+
+export { MAINTENANCE_JOBS } from './registry'
+
+export {
+  MAINTENANCE_RUN_RETENTION_DAYS,
+  MAINTENANCE_TIME_BUDGET_MS,
+  cleanupMaintenanceRuns,
+  getMaintenanceJob,
+  listMaintenanceJobs,
+  listMaintenanceRuns,
+  runDueMaintenanceJobs,
+  runMaintenanceJob,
+} from './runner'
+
+export { TRASH_RETENTION_DEFAULT_DAYS } from './jobs/trash'
+export { CLICK_EVENTS_DEFAULT_RETENTION_DAYS } from './jobs/click-rollup'
@@ -0,0 +1,59 @@
+/**
+ * 批量操作任务续跑
+ *
+ * 后台批量任务（bulk_jobs）在创建请求和查询进度的请求中推进，客户端关闭页面后任务会停在原处。
+ * 本任务接手尚未开始、或运行中但租约已过期的任务，每个任务运行到完成或用完剩余时间预算。
+ */
+
+import { CacheService } from '../../cache'
+import { createBookmarkCacheManager } from '../../cache/bookmark-cache'
+import { getCanonicalUrlRules } from '../../canonical-url'
+import { listStalledBulkJobs, runBulkJob } from '../../bulk-actions'
+import { invalidatePublicShareCache } from '../../../api/shared/cache'
+import type { MaintenanceJobDefinition } from '../types'
+
+/** 每次运行最多查找的任务数 */
+const RESUME_BATCH_SIZE = 20
+
+export const resumeBulkJobsJob: MaintenanceJobDefinition = {
+  name: 'resume_bulk_jobs',
+  description: 'Resume bulk bookmark jobs that are pending or whose runner lease has expired',
+  intervalMinutes: 1,
+  async run({ env, deadline }) {
+    const db = env.DB
+    const canonicalRules = getCanonicalUrlRules(env)
+    const bookmarkCache = createBookmarkCacheManager(new CacheService(env))
+    let resumed = 0
+    let completed = 0
+    let failed = 0
+    let hasMore = false
+
+    const jobs = await listStalledBulkJobs(db, RESUME_BATCH_SIZE)
+    for (const job of jobs) {
+      const remainingMs = deadline - Date.now()
+      if (remainingMs <= 0) {
+        hasMore = true
+        break
+      }
+
+      // 与查询进度的请求同时接手时只有一方能取得租约
+      const result = await runBulkJob(env, job.id, canonicalRules, remainingMs)
+      if (!result) {
+        continue
+      }
+
+      resumed++
+      if (result.status === 'completed') completed++
+      if (result.status === 'failed') failed++
+      if (result.status === 'running') hasMore = true
+
+      await bookmarkCache.handleBatchOperation(job.user_id)
+      await invalidatePublicShareCache(env, job.user_id)
+    }
+
+    return {
+      summary: { jobs_resumed: resumed, jobs_completed: completed, jobs_failed: failed },
+      has_more: hasMore || jobs.length === RESUME_BATCH_SIZE,
+    }
+  },
+}
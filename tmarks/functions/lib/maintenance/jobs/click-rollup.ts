@@ -0,0 +1,88 @@
+/**
+ * 点击事件汇总
+ *
+ * bookmark_click_events 每次点击一行，长期保留会持续增长。超过保留天数的事件按书签和日期
+ * 汇总到 bookmark_click_daily 后删除，统计接口同时读取两张表，按天及更粗粒度的统计结果不变。
+ */
+
+import type { Env } from '../../types'
+import type { MaintenanceJobDefinition } from '../types'
+
+/** 原始点击事件默认保留天数 */
+export const CLICK_EVENTS_DEFAULT_RETENTION_DAYS = 90
+
+/** 每批汇总的事件数 */
+const ROLLUP_BATCH_SIZE = 5000
+
+function getRetentionDays(env: Env): number {
+  const parsed = parseInt(env.CLICK_EVENTS_RETENTION_DAYS || '', 10)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : CLICK_EVENTS_DEFAULT_RETENTION_DAYS
+}
+
+export const rollupClickEventsJob: MaintenanceJobDefinition = {
+  name: 'rollup_click_events',
+  description: 'Aggregate old bookmark click events into daily counts and delete the raw events',
+  intervalMinutes: 24 * 60,
+  async run({ env, deadline }) {
+    const db = env.DB
+    const retentionDays = getRetentionDays(env)
+    // 以整天为界，保证同一天的事件一次汇总完
+    const cutoffDate = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+    let rolledUp = 0
+    let hasMore = false
+
+    while (true) {
+      if (Date.now() >= deadline) {
+        hasMore = true
+        break
+      }
+
+      const batch = await db
+        .prepare(
+          `SELECT MAX(id) AS max_id, COUNT(*) AS count
+           FROM (
+             SELECT id FROM bookmark_click_events
+             WHERE clicked_at < ?
+             ORDER BY id
+             LIMIT ?
+           )`
+        )
+        .bind(cutoffDate, ROLLUP_BATCH_SIZE)
+        .first<{ max_id: number | null; count: number }>()
+
+      if (!batch || !batch.count || batch.max_id === null) {
+        break
+      }
+
+      // 汇总与删除在同一个批次（事务）中执行，中断时不会重复计数
+      await db.batch([
+        db
+          .prepare(
+            `INSERT INTO bookmark_click_daily (bookmark_id, user_id, day, click_count)
+             SELECT bookmark_id, user_id, DATE(clicked_at), COUNT(*)
+             FROM bookmark_click_events
+             WHERE clicked_at < ? AND id <= ?
+             GROUP BY bookmark_id, user_id, DATE(clicked_at)
+             ON CONFLICT(bookmark_id, day) DO UPDATE SET click_count = bookmark_click_daily.click_count + excluded.click_count`
+          )
+          .bind(cutoffDate, batch.max_id),
+        db
+          .prepare('DELETE FROM bookmark_click_events WHERE clicked_at < ? AND id <= ?')
+          .bind(cutoffDate, batch.max_id),
+      ])
+
+      rolledUp += batch.count
+      if (batch.count < ROLLUP_BATCH_SIZE) {
+        break
+      }
+    }
+
+    return {
+      summary: {
+        rolled_up_events: rolledUp,
+        cutoff_date: cutoffDate,
+      },
+      has_more: hasMore,
+    }
+  },
+}
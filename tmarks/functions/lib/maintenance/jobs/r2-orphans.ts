@@ -0,0 +1,132 @@
+/**
+ * R2 孤立文件清理
+ *
+ * 按游标分页扫描 SNAPSHOTS_BUCKET，删除数据库中已没有记录引用的文件：
+ * - 快照 HTML：{userId}/{bookmarkId}/snapshot-{timestamp}-v{version}.html，对应 bookmark_snapshots.r2_key
+ * - V2 快照图片：{userId}/{bookmarkId}/v{version}/images/{hash}，对应书签该版本的快照
+ * - 封面图：images/{hash}{ext}，对应 bookmark_images.r2_key
+ * 其他文件（如 favicons/ 下的网站图标缓存）不处理。上传不足 ORPHAN_GRACE_MS 的文件跳过，避免误删正在创建的快照。
+ * 一次扫描不完时保存游标，下一次定时触发时继续。
+ */
+
+import { chunkIds } from '../../bulk-actions'
+import type { MaintenanceJobDefinition, MaintenanceJobResult } from '../types'
+import { deleteR2Objects } from './snapshots'
+
+/** 每页列出的对象数 */
+const LIST_PAGE_SIZE = 500
+/** 上传后的保护期 */
+const ORPHAN_GRACE_MS = 24 * 60 * 60 * 1000
+
+const SNAPSHOT_HTML_PATTERN = /^[^/]+\/[^/]+\/snapshot-[^/]+\.html$/
+const SNAPSHOT_IMAGE_PATTERN = /^[^/]+\/([^/]+)\/v(\d+)\/images\/[^/]+$/
+const COVER_IMAGE_PREFIX = 'images/'
+
+interface R2OrphanScanState {
+  cursor?: string
+}
+
+/**
+ * 返回本页中没有数据库记录引用的文件
+ */
+async function findOrphanKeys(db: D1Database, keys: string[]): Promise<string[]> {
+  const htmlKeys: string[] = []
+  const coverKeys: string[] = []
+  const snapshotImages: { key: string; bookmarkId: string; version: number }[] = []
+
+  for (const key of keys) {
+    const imageMatch = SNAPSHOT_IMAGE_PATTERN.exec(key)
+    if (imageMatch) {
+      snapshotImages.push({ key, bookmarkId: imageMatch[1], version: parseInt(imageMatch[2], 10) })
+    } else if (SNAPSHOT_HTML_PATTERN.test(key)) {
+      htmlKeys.push(key)
+    } else if (key.startsWith(COVER_IMAGE_PREFIX)) {
+      coverKeys.push(key)
+    }
+  }
+
+  const referenced = new Set<string>()
+
+  const collectReferencedKeys = async (table: 'bookmark_snapshots' | 'bookmark_images', candidates: string[]) => {
+    for (const chunk of chunkIds(candidates)) {
+      const { results } = await db
+        .prepare(`SELECT r2_key FROM ${table} WHERE r2_key IN (${chunk.map(() => '?').join(',')})`)
+        .bind(...chunk)
+        .all<{ r2_key: string }>()
+      ;(results || []).forEach((row) => referenced.add(row.r2_key))
+    }
+  }
+
+  await collectReferencedKeys('bookmark_snapshots', htmlKeys)
+  await collectReferencedKeys('bookmark_images', coverKeys)
+
+  const liveVersions = new Set<string>()
+  for (const chunk of chunkIds([...new Set(snapshotImages.map((image) => image.bookmarkId))])) {
+    const { results } = await db
+      .prepare(
+        `SELECT bookmark_id, version FROM bookmark_snapshots WHERE bookmark_id IN (${chunk.map(() => '?').join(',')})`
+      )
+      .bind(...chunk)
+      .all<{ bookmark_id: string; version: number }>()
+    ;(results || []).forEach((row) => liveVersions.add(`${row.bookmark_id}:${row.version}`))
+  }
+  snapshotImages.forEach((image) => {
+    if (liveVersions.has(`${image.bookmarkId}:${image.version}`)) {
+      referenced.add(image.key)
+    }
+  })
+
+  return [...htmlKeys, ...coverKeys, ...snapshotImages.map((image) => image.key)].filter((key) => !referenced.has(key))
+}
+
+export const cleanupR2OrphansJob: MaintenanceJobDefinition = {
+  name: 'cleanup_r2_orphans',
+  description: 'Delete snapshot files and cover images in R2 that are no longer referenced by any record',
+  intervalMinutes: 24 * 60,
+  async run({ env, state, deadline }): Promise<MaintenanceJobResult> {
+    const bucket = env.SNAPSHOTS_BUCKET
+    if (!bucket) {
+      return { summary: { skipped: 'SNAPSHOTS_BUCKET is not configured' } }
+    }
+
+    let cursor = (state as R2OrphanScanState).cursor
+    let scanned = 0
+    let deleted = 0
+    let deletedBytes = 0
+    let completed = false
+    const uploadedBefore = Date.now() - ORPHAN_GRACE_MS
+
+    while (Date.now() < deadline) {
+      const page = await bucket.list({ cursor, limit: LIST_PAGE_SIZE })
+      scanned += page.objects.length
+
+      const candidates = page.objects.filter((object) => object.uploaded.getTime() < uploadedBefore)
+      const orphanKeys = new Set(await findOrphanKeys(env.DB, candidates.map((object) => object.key)))
+      if (orphanKeys.size > 0) {
+        await deleteR2Objects(bucket, [...orphanKeys])
+        deleted += orphanKeys.size
+        deletedBytes += candidates
+          .filter((object) => orphanKeys.has(object.key))
+          .reduce((sum, object) => sum + object.size, 0)
+      }
+
+      if (!page.truncated) {
+        cursor = undefined
+        completed = true
+        break
+      }
+      cursor = page.cursor
+    }
+
+    return {
+      summary: {
+        scanned,
+        deleted,
+        deleted_bytes: deletedBytes,
+        scan_completed: completed,
+      },
+      state: cursor ? { cursor } : {},
+      has_more: !completed,
+    }
+  },
+}
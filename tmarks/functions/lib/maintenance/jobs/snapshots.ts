@@ -0,0 +1,188 @@
+/**
+ * 快照清理
+ *
+ * 按用户偏好清理快照：
+ * - snapshot_retention_count：每个书签只保留最新的 N 个版本（-1 表示不限制）
+ * - snapshot_auto_cleanup_days：删除创建超过 N 天的快照（0 表示不自动清理）
+ * 删除快照时同时删除 R2 中的 HTML 文件；V2 快照的图片由 R2 孤立文件清理任务回收
+ */
+
+import { CacheService } from '../../cache'
+import { createBookmarkCacheManager } from '../../cache/bookmark-cache'
+import type { MaintenanceJobDefinition } from '../types'
+
+/** 每批处理的快照或书签数（D1 单条语句最多 100 个参数） */
+const PRUNE_BATCH_SIZE = 90
+/** R2 单次批量删除的最大对象数 */
+const R2_DELETE_BATCH_SIZE = 1000
+/** 与创建快照时的默认保留数量一致 */
+const DEFAULT_RETENTION_COUNT = 5
+
+interface SnapshotFileRow {
+  id: string
+  bookmark_id: string
+  user_id: string
+  r2_key: string
+}
+
+interface OverRetentionRow {
+  bookmark_id: string
+  retention_count: number
+}
+
+/**
+ * 批量删除 R2 对象（不存在的对象会被忽略）
+ */
+export async function deleteR2Objects(bucket: R2Bucket, keys: string[]): Promise<void> {
+  for (let i = 0; i < keys.length; i += R2_DELETE_BATCH_SIZE) {
+    await bucket.delete(keys.slice(i, i + R2_DELETE_BATCH_SIZE))
+  }
+}
+
+/**
+ * 删除后重新计算书签的快照计数、最新快照时间，并把剩余的最高版本标记为最新
+ */
+async function refreshSnapshotCounters(db: D1Database, bookmarkIds: string[]): Promise<void> {
+  const placeholders = bookmarkIds.map(() => '?').join(',')
+  await db.batch([
+    db
+      .prepare(
+        `UPDATE bookmark_snapshots
+         SET is_latest = 1
+         WHERE bookmark_id IN (${placeholders})
+           AND is_latest = 0
+           AND version = (SELECT MAX(s.version) FROM bookmark_snapshots s WHERE s.bookmark_id = bookmark_snapshots.bookmark_id)`
+      )
+      .bind(...bookmarkIds),
+    db
+      .prepare(
+        `UPDATE bookmarks
+         SET snapshot_count = (SELECT COUNT(*) FROM bookmark_snapshots s WHERE s.bookmark_id = bookmarks.id),
+             has_snapshot = EXISTS (SELECT 1 FROM bookmark_snapshots s WHERE s.bookmark_id = bookmarks.id),
+             latest_snapshot_at = (SELECT MAX(s.created_at) FROM bookmark_snapshots s WHERE s.bookmark_id = bookmarks.id)
+         WHERE id IN (${placeholders})`
+      )
+      .bind(...bookmarkIds),
+  ])
+}
+
+async function deleteSnapshots(
+  db: D1Database,
+  bucket: R2Bucket | undefined,
+  snapshots: SnapshotFileRow[]
+): Promise<void> {
+  if (bucket) {
+    await deleteR2Objects(bucket, snapshots.map((snapshot) => snapshot.r2_key))
+  }
+
+  const ids = snapshots.map((snapshot) => snapshot.id)
+  for (let i = 0; i < ids.length; i += PRUNE_BATCH_SIZE) {
+    const chunk = ids.slice(i, i + PRUNE_BATCH_SIZE)
+    await db
+      .prepare(`DELETE FROM bookmark_snapshots WHERE id IN (${chunk.map(() => '?').join(',')})`)
+      .bind(...chunk)
+      .run()
+  }
+
+  await refreshSnapshotCounters(db, [...new Set(snapshots.map((snapshot) => snapshot.bookmark_id))])
+}
+
+export const pruneSnapshotsJob: MaintenanceJobDefinition = {
+  name: 'prune_snapshots',
+  description: 'Delete snapshots beyond each user\'s retention count or older than their auto cleanup days',
+  intervalMinutes: 24 * 60,
+  async run({ env, deadline }) {
+    const db = env.DB
+    const bucket = env.SNAPSHOTS_BUCKET
+    const changedUserIds = new Set<string>()
+    let deletedByCount = 0
+    let deletedByAge = 0
+    let hasMore = false
+
+    // 1. 超过保留数量的旧版本
+    while (true) {
+      if (Date.now() >= deadline) {
+        hasMore = true
+        break
+      }
+
+      const { results: bookmarks } = await db
+        .prepare(
+          `SELECT s.bookmark_id, COALESCE(p.snapshot_retention_count, ?) AS retention_count
+           FROM bookmark_snapshots s
+           LEFT JOIN user_preferences p ON p.user_id = s.user_id
+           GROUP BY s.bookmark_id
+           HAVING retention_count >= 0 AND COUNT(*) > retention_count
+           LIMIT ?`
+        )
+        .bind(DEFAULT_RETENTION_COUNT, PRUNE_BATCH_SIZE)
+        .all<OverRetentionRow>()
+
+      if (!bookmarks || bookmarks.length === 0) {
+        break
+      }
+
+      const surplus: SnapshotFileRow[] = []
+      for (const bookmark of bookmarks) {
+        const { results } = await db
+          .prepare(
+            `SELECT id, bookmark_id, user_id, r2_key
+             FROM bookmark_snapshots
+             WHERE bookmark_id = ?
+             ORDER BY version DESC
+             LIMIT -1 OFFSET ?`
+          )
+          .bind(bookmark.bookmark_id, bookmark.retention_count)
+          .all<SnapshotFileRow>()
+        surplus.push(...(results || []))
+      }
+
+      await deleteSnapshots(db, bucket, surplus)
+      surplus.forEach((snapshot) => changedUserIds.add(snapshot.user_id))
+      deletedByCount += surplus.length
+    }
+
+    // 2. 超过自动清理天数的快照
+    while (!hasMore) {
+      if (Date.now() >= deadline) {
+        hasMore = true
+        break
+      }
+
+      const { results: expired } = await db
+        .prepare(
+          `SELECT s.id, s.bookmark_id, s.user_id, s.r2_key
+           FROM bookmark_snapshots s
+           INNER JOIN user_preferences p ON p.user_id = s.user_id
+           WHERE p.snapshot_auto_cleanup_days > 0
+             AND datetime(s.created_at) < datetime('now', '-' || p.snapshot_auto_cleanup_days || ' days')
+           LIMIT ?`
+        )
+        .bind(PRUNE_BATCH_SIZE)
+        .all<SnapshotFileRow>()
+
+      if (!expired || expired.length === 0) {
+        break
+      }
+
+      await deleteSnapshots(db, bucket, expired)
+      expired.forEach((snapshot) => changedUserIds.add(snapshot.user_id))
+      deletedByAge += expired.length
+    }
+
+    // 快照数量显示在书签列表中
+    if (changedUserIds.size > 0) {
+      const bookmarkCache = createBookmarkCacheManager(new CacheService(env))
+      await Promise.all([...changedUserIds].map((userId) => bookmarkCache.invalidateUserBookmarks(userId)))
+    }
+
+    return {
+      summary: {
+        deleted_by_retention_count: deletedByCount,
+        deleted_by_age: deletedByAge,
+        affected_users: changedUserIds.size,
+      },
+      has_more: hasMore,
+    }
+  },
+}
@@ -0,0 +1,156 @@
+/**
+ * 回收站清理
+ *
+ * 永久删除在回收站中超过用户设置天数（user_preferences.trash_retention_days，0 表示不自动清理）的书签和标签页组，
+ * 与手动永久删除的处理一致；书签的快照文件一并从 R2 删除，封面图等共享文件由 R2 孤立文件清理任务回收
+ */
+
+import { CacheService } from '../../cache'
+import { createBookmarkCacheManager } from '../../cache/bookmark-cache'
+import { dispatchWebhookEventBatch } from '../../webhooks'
+import type { MaintenanceJobDefinition } from '../types'
+import { deleteR2Objects } from './snapshots'
+
+/** 未设置偏好的用户的回收站保留天数 */
+export const TRASH_RETENTION_DEFAULT_DAYS = 30
+
+/** 每批永久删除的数量（D1 单条语句最多 100 个参数） */
+const PURGE_BATCH_SIZE = 90
+
+const RETENTION_DAYS_SQL = `COALESCE(p.trash_retention_days, ${TRASH_RETENTION_DEFAULT_DAYS})`
+
+interface TrashRow {
+  id: string
+  user_id: string
+}
+
+interface TrashBookmarkRow extends TrashRow {
+  title: string
+  url: string
+}
+
+export const purgeTrashJob: MaintenanceJobDefinition = {
+  name: 'purge_trash',
+  description: 'Permanently delete bookmarks and tab groups that stayed in trash longer than each user\'s retention days',
+  intervalMinutes: 24 * 60,
+  async run({ env, deadline }) {
+    const db = env.DB
+    const changedUserIds = new Set<string>()
+    // 按用户收集永久删除的书签，最后分批触发 bookmark.deleted Webhook
+    const purgedByUser = new Map<string, Array<{ id: string; title: string; url: string }>>()
+    let bookmarksPurged = 0
+    let tabGroupsPurged = 0
+    let snapshotFilesDeleted = 0
+    let hasMore = false
+
+    // 1. 书签
+    while (true) {
+      if (Date.now() >= deadline) {
+        hasMore = true
+        break
+      }
+
+      const { results: bookmarks } = await db
+        .prepare(
+          `SELECT b.id, b.user_id, b.title, b.url
+           FROM bookmarks b
+           LEFT JOIN user_preferences p ON p.user_id = b.user_id
+           WHERE b.deleted_at IS NOT NULL
+             AND ${RETENTION_DAYS_SQL} > 0
+             AND datetime(b.deleted_at) < datetime('now', '-' || ${RETENTION_DAYS_SQL} || ' days')
+           LIMIT ?`
+        )
+        .bind(PURGE_BATCH_SIZE)
+        .all<TrashBookmarkRow>()
+
+      if (!bookmarks || bookmarks.length === 0) {
+        break
+      }
+
+      const ids = bookmarks.map((bookmark) => bookmark.id)
+      const placeholders = ids.map(() => '?').join(',')
+
+      if (env.SNAPSHOTS_BUCKET) {
+        const { results: snapshots } = await db
+          .prepare(`SELECT r2_key FROM bookmark_snapshots WHERE bookmark_id IN (${placeholders})`)
+          .bind(...ids)
+          .all<{ r2_key: string }>()
+        const keys = (snapshots || []).map((snapshot) => snapshot.r2_key)
+        await deleteR2Objects(env.SNAPSHOTS_BUCKET, keys)
+        snapshotFilesDeleted += keys.length
+      }
+
+      await db.batch([
+        db.prepare(`DELETE FROM bookmark_tags WHERE bookmark_id IN (${placeholders})`).bind(...ids),
+        db.prepare(`DELETE FROM bookmark_snapshots WHERE bookmark_id IN (${placeholders})`).bind(...ids),
+        db.prepare(`DELETE FROM bookmarks WHERE id IN (${placeholders}) AND deleted_at IS NOT NULL`).bind(...ids),
+      ])
+
+      bookmarks.forEach((bookmark) => {
+        changedUserIds.add(bookmark.user_id)
+        const purged = purgedByUser.get(bookmark.user_id) ?? []
+        purged.push({ id: bookmark.id, title: bookmark.title, url: bookmark.url })
+        purgedByUser.set(bookmark.user_id, purged)
+      })
+      bookmarksPurged += bookmarks.length
+    }
+
+    // 2. 标签页组
+    while (!hasMore) {
+      if (Date.now() >= deadline) {
+        hasMore = true
+        break
+      }
+
+      const { results: groups } = await db
+        .prepare(
+          `SELECT g.id, g.user_id
+           FROM tab_groups g
+           LEFT JOIN user_preferences p ON p.user_id = g.user_id
+           WHERE g.is_deleted = 1
+             AND g.deleted_at IS NOT NULL
+             AND ${RETENTION_DAYS_SQL} > 0
+             AND datetime(g.deleted_at) < datetime('now', '-' || ${RETENTION_DAYS_SQL} || ' days')
+           LIMIT ?`
+        )
+        .bind(PURGE_BATCH_SIZE)
+        .all<TrashRow>()
+
+      if (!groups || groups.length === 0) {
+        break
+      }
+
+      const ids = groups.map((group) => group.id)
+      const placeholders = ids.map(() => '?').join(',')
+
+      await db.batch([
+        db.prepare(`DELETE FROM tab_group_items WHERE group_id IN (${placeholders})`).bind(...ids),
+        db.prepare(`DELETE FROM tab_groups WHERE id IN (${placeholders}) AND is_deleted = 1`).bind(...ids),
+      ])
+
+      tabGroupsPurged += groups.length
+    }
+
+    if (changedUserIds.size > 0) {
+      const bookmarkCache = createBookmarkCacheManager(new CacheService(env))
+      await Promise.all([...changedUserIds].map((userId) => bookmarkCache.invalidateUserBookmarks(userId)))
+    }
+
+    for (const [userId, purged] of purgedByUser) {
+      await dispatchWebhookEventBatch(env, userId, 'bookmark.deleted', purged, (chunk) => ({
+        bookmarks: chunk,
+        source: 'trash_purge',
+        permanent: true,
+      }))
+    }
+
+    return {
+      summary: {
+        bookmarks_purged: bookmarksPurged,
+        tab_groups_purged: tabGroupsPurged,
+        snapshot_files_deleted: snapshotFilesDeleted,
+      },
+      has_more: hasMore,
+    }
+  },
+}
@@ -0,0 +1,19 @@
+/**
+ * 已注册的维护任务，定时触发时按此顺序依次运行
+ */
+
+import type { MaintenanceJobDefinition } from './types'
+import { purgeTrashJob } from './jobs/trash'
+import { pruneSnapshotsJob } from './jobs/snapshots'
+import { cleanupR2OrphansJob } from './jobs/r2-orphans'
+import { rollupClickEventsJob } from './jobs/click-rollup'
+import { resumeBulkJobsJob } from './jobs/bulk-jobs'
+
+// 先清理回收站和快照，孤立文件清理才能回收它们留下的 R2 文件
+export const MAINTENANCE_JOBS: readonly MaintenanceJobDefinition[] = [
+  purgeTrashJob,
+  pruneSnapshotsJob,
+  cleanupR2OrphansJob,
+  rollupClickEventsJob,
+  resumeBulkJobsJob,
+]
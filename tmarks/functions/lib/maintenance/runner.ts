@@ -0,0 +1,323 @@
+/**
+ * 维护任务的执行：加锁、运行记录与调度
+ *
+ * 每个任务在 maintenance_jobs 中有一行记录，保存锁、任务状态和下次运行时间：
+ * - 锁通过条件 upsert 获取（locked_until 已过期才能覆盖），保证同一任务同时只有一个执行者；
+ *   执行者异常退出时锁在 JOB_LEASE_MS 后自动失效
+ * - 定时触发只运行已到期（next_run_at <= 当前时间）的任务，手动触发忽略运行间隔
+ * - 每次运行写入 maintenance_job_runs，保留 MAINTENANCE_RUN_RETENTION_DAYS 天
+ */
+
+import type { Env } from '../types'
+import { generateUUID } from '../crypto'
+import { MAINTENANCE_JOBS } from './registry'
+import type {
+  MaintenanceJobDefinition,
+  MaintenanceJobName,
+  MaintenanceJobState,
+  MaintenanceJobStatus,
+  MaintenanceJobSummary,
+  MaintenanceRun,
+  MaintenanceRunStatus,
+  MaintenanceTrigger,
+} from './types'
+
+/** 单个任务单次运行的时间预算（请求内手动运行时也需在 Functions 限制内完成） */
+export const MAINTENANCE_TIME_BUDGET_MS = 20 * 1000
+/** 运行记录保留天数 */
+export const MAINTENANCE_RUN_RETENTION_DAYS = 30
+/** 锁的租约时长，超过后视为执行者已退出 */
+const JOB_LEASE_MS = 15 * 60 * 1000
+
+interface MaintenanceJobRow {
+  name: string
+  state: string | null
+  next_run_at: string | null
+  last_run_at: string | null
+  last_status: 'succeeded' | 'failed' | null
+  locked_until: string | null
+  lock_token: string | null
+  updated_at: string
+}
+
+interface MaintenanceRunRow {
+  id: string
+  job_name: MaintenanceJobName
+  trigger: MaintenanceTrigger
+  triggered_by: string | null
+  status: MaintenanceRunStatus
+  result: string | null
+  error: string | null
+  started_at: string
+  finished_at: string | null
+  duration_ms: number | null
+}
+
+export interface RunMaintenanceJobOptions {
+  trigger: MaintenanceTrigger
+  /** 手动触发的管理员用户 ID */
+  triggeredBy?: string | null
+  /** 只在任务到期时运行（定时触发） */
+  dueOnly?: boolean
+  timeBudgetMs?: number
+}
+
+export interface ListMaintenanceRunsOptions {
+  jobName?: MaintenanceJobName
+  limit?: number
+}
+
+function parseJson<T>(value: string | null, fallback: T): T {
+  if (!value) return fallback
+  try {
+    return JSON.parse(value) as T
+  } catch {
+    return fallback
+  }
+}
+
+function toMaintenanceRun(row: MaintenanceRunRow): MaintenanceRun {
+  return {
+    id: row.id,
+    job_name: row.job_name,
+    trigger: row.trigger,
+    triggered_by: row.triggered_by,
+    status: row.status,
+    result: parseJson<MaintenanceJobSummary | null>(row.result, null),
+    error: row.error,
+    started_at: row.started_at,
+    finished_at: row.finished_at,
+    duration_ms: row.duration_ms,
+  }
+}
+
+export function getMaintenanceJob(name: string): MaintenanceJobDefinition | null {
+  return MAINTENANCE_JOBS.find((job) => job.name === name) ?? null
+}
+
+/**
+ * 获取任务锁，成功返回 true
+ */
+async function acquireJobLock(
+  db: D1Database,
+  jobName: MaintenanceJobName,
+  token: string,
+  dueOnly: boolean
+): Promise<boolean> {
+  const now = new Date().toISOString()
+  const lockedUntil = new Date(Date.now() + JOB_LEASE_MS).toISOString()
+
+  const result = await db
+    .prepare(
+      `INSERT INTO maintenance_jobs (name, locked_until, lock_token, updated_at)
+       VALUES (?, ?, ?, ?)
+       ON CONFLICT(name) DO UPDATE SET
+         locked_until = excluded.locked_until,
+         lock_token = excluded.lock_token,
+         updated_at = excluded.updated_at
+       WHERE (maintenance_jobs.locked_until IS NULL OR maintenance_jobs.locked_until < ?)
+         ${dueOnly ? 'AND (maintenance_jobs.next_run_at IS NULL OR maintenance_jobs.next_run_at <= ?)' : ''}`
+    )
+    .bind(jobName, lockedUntil, token, now, now, ...(dueOnly ? [now] : []))
+    .run()
+
+  return (result.meta.changes || 0) > 0
+}
+
+/**
+ * 运行单个维护任务
+ * 未能取得锁（任务正在运行，或定时触发时尚未到期）时返回 null，否则返回本次运行记录；
+ * 任务本身抛出的错误记录为失败的运行，不会向外抛出
+ */
+export async function runMaintenanceJob(
+  env: Env,
+  job: MaintenanceJobDefinition,
+  options: RunMaintenanceJobOptions
+): Promise<MaintenanceRun | null> {
+  const db = env.DB
+  const token = generateUUID()
+
+  if (!(await acquireJobLock(db, job.name, token, options.dueOnly ?? false))) {
+    return null
+  }
+
+  const startedAt = new Date()
+  const runId = generateUUID()
+  const row = await db
+    .prepare('SELECT * FROM maintenance_jobs WHERE name = ?')
+    .bind(job.name)
+    .first<MaintenanceJobRow>()
+  const previousState = parseJson<MaintenanceJobState>(row?.state ?? null, {})
+
+  // 持有锁时仍处于 running 的记录来自异常退出的执行者
+  await db.batch([
+    db
+      .prepare(
+        `UPDATE maintenance_job_runs
+         SET status = 'failed', error = 'Interrupted', finished_at = ?
+         WHERE job_name = ? AND status = 'running'`
+      )
+      .bind(startedAt.toISOString(), job.name),
+    db
+      .prepare(
+        `INSERT INTO maintenance_job_runs (id, job_name, trigger, triggered_by, status, started_at)
+         VALUES (?, ?, ?, ?, 'running', ?)`
+      )
+      .bind(runId, job.name, options.trigger, options.triggeredBy ?? null, startedAt.toISOString()),
+  ])
+
+  let status: 'succeeded' | 'failed'
+  let summary: MaintenanceJobSummary | null = null
+  let error: string | null = null
+  let state = previousState
+  let hasMore = false
+
+  try {
+    const output = await job.run({
+      env,
+      state: previousState,
+      deadline: startedAt.getTime() + (options.timeBudgetMs ?? MAINTENANCE_TIME_BUDGET_MS),
+    })
+    status = 'succeeded'
+    summary = output.summary
+    state = output.state ?? {}
+    hasMore = output.has_more ?? false
+  } catch (err) {
+    console.error(`Maintenance job ${job.name} failed:`, err)
+    status = 'failed'
+    error = err instanceof Error ? err.message : String(err)
+  }
+
+  const finishedAt = new Date()
+  const durationMs = finishedAt.getTime() - startedAt.getTime()
+  // 失败的任务在下一次定时触发时重试；有剩余数据的任务下一次定时触发时继续
+  const nextRunAt =
+    status === 'failed' || hasMore
+      ? finishedAt.toISOString()
+      : new Date(finishedAt.getTime() + job.intervalMinutes * 60 * 1000).toISOString()
+
+  await db.batch([
+    db
+      .prepare(
+        `UPDATE maintenance_job_runs
+         SET status = ?, result = ?, error = ?, finished_at = ?, duration_ms = ?
+         WHERE id = ?`
+      )
+      .bind(status, summary ? JSON.stringify(summary) : null, error, finishedAt.toISOString(), durationMs, runId),
+    db
+      .prepare(
+        `UPDATE maintenance_jobs
+         SET state = ?, next_run_at = ?, last_run_at = ?, last_status = ?,
+             locked_until = NULL, lock_token = NULL, updated_at = ?
+         WHERE name = ? AND lock_token = ?`
+      )
+      .bind(
+        JSON.stringify(state),
+        nextRunAt,
+        startedAt.toISOString(),
+        status,
+        finishedAt.toISOString(),
+        job.name,
+        token
+      ),
+  ])
+
+  return {
+    id: runId,
+    job_name: job.name,
+    trigger: options.trigger,
+    triggered_by: options.triggeredBy ?? null,
+    status,
+    result: summary,
+    error,
+    started_at: startedAt.toISOString(),
+    finished_at: finishedAt.toISOString(),
+    duration_ms: durationMs,
+  }
+}
+
+/**
+ * 依次运行所有到期的任务（定时任务 Worker 调用），并清理过期的运行记录
+ */
+export async function runDueMaintenanceJobs(env: Env): Promise<MaintenanceRun[]> {
+  const runs: MaintenanceRun[] = []
+
+  for (const job of MAINTENANCE_JOBS) {
+    try {
+      const run = await runMaintenanceJob(env, job, { trigger: 'cron', dueOnly: true })
+      if (run) {
+        runs.push(run)
+      }
+    } catch (error) {
+      console.error(`Maintenance job ${job.name} could not run:`, error)
+    }
+  }
+
+  await cleanupMaintenanceRuns(env.DB)
+  return runs
+}
+
+export async function cleanupMaintenanceRuns(db: D1Database): Promise<number> {
+  const cutoff = new Date(Date.now() - MAINTENANCE_RUN_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString()
+  const result = await db
+    .prepare(`DELETE FROM maintenance_job_runs WHERE started_at < ? AND status != 'running'`)
+    .bind(cutoff)
+    .run()
+  return result.meta.changes || 0
+}
+
+/**
+ * 获取所有已注册任务的状态及最近一次运行记录
+ */
+export async function listMaintenanceJobs(db: D1Database): Promise<MaintenanceJobStatus[]> {
+  const [jobRows, runRows] = await Promise.all([
+    db.prepare('SELECT * FROM maintenance_jobs').all<MaintenanceJobRow>(),
+    db
+      .prepare(
+        `SELECT * FROM (
+           SELECT r.*, ROW_NUMBER() OVER (PARTITION BY job_name ORDER BY started_at DESC) AS rn
+           FROM maintenance_job_runs r
+         )
+         WHERE rn = 1`
+      )
+      .all<MaintenanceRunRow>(),
+  ])
+
+  const now = new Date().toISOString()
+  const rowsByName = new Map((jobRows.results || []).map((row) => [row.name, row]))
+  const lastRuns = new Map((runRows.results || []).map((row) => [row.job_name, toMaintenanceRun(row)]))
+
+  return MAINTENANCE_JOBS.map((job) => {
+    const row = rowsByName.get(job.name)
+    const lockedUntil = row?.locked_until ?? null
+    return {
+      name: job.name,
+      description: job.description,
+      interval_minutes: job.intervalMinutes,
+      next_run_at: row?.next_run_at ?? null,
+      last_run_at: row?.last_run_at ?? null,
+      last_status: row?.last_status ?? null,
+      is_running: lockedUntil !== null && lockedUntil >= now,
+      locked_until: lockedUntil,
+      last_run: lastRuns.get(job.name) ?? null,
+    }
+  })
+}
+
+export async function listMaintenanceRuns(
+  db: D1Database,
+  options: ListMaintenanceRunsOptions = {}
+): Promise<MaintenanceRun[]> {
+  const limit = options.limit ?? 50
+  const { results } = await db
+    .prepare(
+      `SELECT * FROM maintenance_job_runs
+       ${options.jobName ? 'WHERE job_name = ?' : ''}
+       ORDER BY started_at DESC
+       LIMIT ?`
+    )
+    .bind(...(options.jobName ? [options.jobName, limit] : [limit]))
+    .all<MaintenanceRunRow>()
+
+  return (results || []).map(toMaintenanceRun)
+}
@@ -0,0 +1,69 @@
+import type { Env } from '../types'
+
+export type MaintenanceJobName =
+  | 'purge_trash'
+  | 'prune_snapshots'
+  | 'cleanup_r2_orphans'
+  | 'rollup_click_events'
+  | 'resume_bulk_jobs'
+
+/** cron：定时任务 Worker 触发；manual：管理员手动触发 */
+export type MaintenanceTrigger = 'cron' | 'manual'
+
+export type MaintenanceRunStatus = 'running' | 'succeeded' | 'failed'
+
+/** 任务在两次运行之间保存的状态（如分页游标），以 JSON 存入 maintenance_jobs.state */
+export type MaintenanceJobState = Record<string, unknown>
+
+/** 单次运行的结果统计，写入运行记录 */
+export type MaintenanceJobSummary = Record<string, string | number | boolean | null>
+
+export interface MaintenanceJobContext {
+  env: Env
+  /** 上次运行保存的状态 */
+  state: MaintenanceJobState
+  /** 本次运行的截止时间（毫秒时间戳），任务应在每批处理之间检查，超时后保存进度并返回 */
+  deadline: number
+}
+
+export interface MaintenanceJobResult {
+  summary: MaintenanceJobSummary
+  /** 下次运行时传入的状态，不返回表示清空 */
+  state?: MaintenanceJobState
+  /** 仍有未处理完的数据：下一次定时触发时继续运行，不等待运行间隔 */
+  has_more?: boolean
+}
+
+export interface MaintenanceJobDefinition {
+  name: MaintenanceJobName
+  description: string
+  /** 定时触发时两次运行的最小间隔（分钟） */
+  intervalMinutes: number
+  run(context: MaintenanceJobContext): Promise<MaintenanceJobResult>
+}
+
+export interface MaintenanceRun {
+  id: string
+  job_name: MaintenanceJobName
+  trigger: MaintenanceTrigger
+  triggered_by: string | null
+  status: MaintenanceRunStatus
+  result: MaintenanceJobSummary | null
+  error: string | null
+  started_at: string
+  finished_at: string | null
+  duration_ms: number | null
+}
+
+export interface MaintenanceJobStatus {
+  name: MaintenanceJobName
+  description: string
+  interval_minutes: number
+  next_run_at: string | null
+  last_run_at: string | null
+  last_status: 'succeeded' | 'failed' | null
+  /** 是否有执行者持有锁（正在运行） */
+  is_running: boolean
+  locked_until: string | null
+  last_run: MaintenanceRun | null
+}
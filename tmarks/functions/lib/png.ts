@@ -0,0 +1,449 @@
+/**
+ * 图标用的最小图像编解码
+ *
+ * 只覆盖网站图标常见的格式：PNG（非隔行）和 ICO（内嵌 PNG 或 1/4/8/24/32 位 BMP），
+ * 解码为 RGBA 后按区域平均缩放，再编码为 8 位 RGBA 的 PNG。
+ * 压缩和解压使用 Workers 运行时自带的 CompressionStream / DecompressionStream（zlib 格式）。
+ */
+
+export interface RgbaImage {
+  width: number
+  height: number
+  /** 每像素 4 字节，按行从上到下排列 */
+  data: Uint8Array
+}
+
+/** 允许解码的最大边长，防止超大图片占满内存 */
+export const MAX_IMAGE_DIMENSION = 1024
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]
+
+export function isPng(bytes: Uint8Array): boolean {
+  return bytes.length >= 8 && PNG_SIGNATURE.every((byte, index) => bytes[index] === byte)
+}
+
+export function isIco(bytes: Uint8Array): boolean {
+  return bytes.length >= 6 && bytes[0] === 0 && bytes[1] === 0 && bytes[2] === 1 && bytes[3] === 0
+}
+
+/**
+ * 通过压缩流转换数据，输出超过 maxBytes 时中止（防止解压炸弹）
+ */
+async function pipeThrough(
+  data: Uint8Array,
+  stream: CompressionStream | DecompressionStream,
+  maxBytes: number
+): Promise<Uint8Array> {
+  const reader = new Blob([data]).stream().pipeThrough(stream).getReader()
+  const chunks: Uint8Array[] = []
+  let total = 0
+
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    total += value.byteLength
+    if (total > maxBytes) {
+      await reader.cancel().catch(() => undefined)
+      throw new Error('Decompressed image data is too large')
+    }
+    chunks.push(value)
+  }
+
+  const output = new Uint8Array(total)
+  let offset = 0
+  for (const chunk of chunks) {
+    output.set(chunk, offset)
+    offset += chunk.byteLength
+  }
+  return output
+}
+
+function readUint32BE(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0
+}
+
+function readUint32LE(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0
+}
+
+function readUint16LE(bytes: Uint8Array, offset: number): number {
+  return bytes[offset] | (bytes[offset + 1] << 8)
+}
+
+function assertDimensions(width: number, height: number) {
+  if (width <= 0 || height <= 0 || width > MAX_IMAGE_DIMENSION || height > MAX_IMAGE_DIMENSION) {
+    throw new Error(`Unsupported image size ${width}x${height}`)
+  }
+}
+
+// 各颜色类型每像素的通道数
+const PNG_CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 }
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c
+  const pa = Math.abs(p - a)
+  const pb = Math.abs(p - b)
+  const pc = Math.abs(p - c)
+  if (pa <= pb && pa <= pc) return a
+  return pb <= pc ? b : c
+}
+
+/**
+ * 解码 PNG 为 RGBA（16 位通道取高字节，不支持 Adam7 隔行）
+ */
+export async function decodePng(bytes: Uint8Array): Promise<RgbaImage> {
+  if (!isPng(bytes)) {
+    throw new Error('Not a PNG image')
+  }
+
+  let width = 0
+  let height = 0
+  let bitDepth = 0
+  let colorType = 0
+  let palette: Uint8Array | null = null
+  let transparency: Uint8Array | null = null
+  const idat: Uint8Array[] = []
+
+  let offset = 8
+  while (offset + 8 <= bytes.length) {
+    const length = readUint32BE(bytes, offset)
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8))
+    const chunk = bytes.subarray(offset + 8, offset + 8 + length)
+    offset += 12 + length
+
+    if (type === 'IHDR') {
+      width = readUint32BE(chunk, 0)
+      height = readUint32BE(chunk, 4)
+      bitDepth = chunk[8]
+      colorType = chunk[9]
+      if (chunk[12] !== 0) {
+        throw new Error('Interlaced PNG is not supported')
+      }
+    } else if (type === 'PLTE') {
+      palette = chunk
+    } else if (type === 'tRNS') {
+      transparency = chunk
+    } else if (type === 'IDAT') {
+      idat.push(chunk)
+    } else if (type === 'IEND') {
+      break
+    }
+  }
+
+  const channels = PNG_CHANNELS[colorType]
+  if (!channels || ![1, 2, 4, 8, 16].includes(bitDepth)) {
+    throw new Error(`Unsupported PNG format (color type ${colorType}, bit depth ${bitDepth})`)
+  }
+  assertDimensions(width, height)
+  if (colorType === 3 && !palette) {
+    throw new Error('PNG palette is missing')
+  }
+
+  const compressed = new Uint8Array(idat.reduce((sum, chunk) => sum + chunk.length, 0))
+  idat.reduce((position, chunk) => {
+    compressed.set(chunk, position)
+    return position + chunk.length
+  }, 0)
+
+  const bitsPerPixel = channels * bitDepth
+  const stride = Math.ceil((width * bitsPerPixel) / 8)
+  const filterBpp = Math.max(1, bitsPerPixel >> 3)
+  const raw = await pipeThrough(compressed, new DecompressionStream('deflate'), (stride + 1) * height)
+  if (raw.length < (stride + 1) * height) {
+    throw new Error('PNG image data is truncated')
+  }
+
+  // 逐行反滤波
+  const pixels = new Uint8Array(stride * height)
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)]
+    const source = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1))
+    const row = pixels.subarray(y * stride, (y + 1) * stride)
+    const previous = y > 0 ? pixels.subarray((y - 1) * stride, y * stride) : null
+
+    for (let x = 0; x < stride; x++) {
+      const left = x >= filterBpp ? row[x - filterBpp] : 0
+      const up = previous ? previous[x] : 0
+      const upLeft = previous && x >= filterBpp ? previous[x - filterBpp] : 0
+      let value = source[x]
+      if (filter === 1) value += left
+      else if (filter === 2) value += up
+      else if (filter === 3) value += (left + up) >> 1
+      else if (filter === 4) value += paeth(left, up, upLeft)
+      else if (filter !== 0) throw new Error(`Invalid PNG filter ${filter}`)
+      row[x] = value & 0xff
+    }
+  }
+
+  // 读取第 index 个样本，统一换算为 8 位
+  const maxSample = (1 << bitDepth) - 1
+  const sample = (row: number, index: number): number => {
+    const base = row * stride
+    if (bitDepth === 8) return pixels[base + index]
+    if (bitDepth === 16) return pixels[base + index * 2]
+    const bit = index * bitDepth
+    const value = (pixels[base + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & maxSample
+    return colorType === 3 ? value : Math.round((value * 255) / maxSample)
+  }
+  const rawSample = (row: number, index: number): number => {
+    const base = row * stride
+    if (bitDepth === 16) return (pixels[base + index * 2] << 8) | pixels[base + index * 2 + 1]
+    if (bitDepth === 8) return pixels[base + index]
+    const bit = index * bitDepth
+    return (pixels[base + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & maxSample
+  }
+
+  const data = new Uint8Array(width * height * 4)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const out = (y * width + x) * 4
+      const first = x * channels
+
+      if (colorType === 3) {
+        const index = sample(y, x)
+        data[out] = palette![index * 3] ?? 0
+        data[out + 1] = palette![index * 3 + 1] ?? 0
+        data[out + 2] = palette![index * 3 + 2] ?? 0
+        data[out + 3] = transparency && index < transparency.length ? transparency[index] : 255
+      } else if (colorType === 0 || colorType === 4) {
+        const gray = sample(y, first)
+        data[out] = data[out + 1] = data[out + 2] = gray
+        if (colorType === 4) {
+          data[out + 3] = sample(y, first + 1)
+        } else {
+          const key = transparency && transparency.length >= 2 ? (transparency[0] << 8) | transparency[1] : -1
+          data[out + 3] = rawSample(y, first) === key ? 0 : 255
+        }
+      } else {
+        data[out] = sample(y, first)
+        data[out + 1] = sample(y, first + 1)
+        data[out + 2] = sample(y, first + 2)
+        if (colorType === 6) {
+          data[out + 3] = sample(y, first + 3)
+        } else {
+          const isKey =
+            transparency !== null &&
+            transparency.length >= 6 &&
+            rawSample(y, first) === ((transparency[0] << 8) | transparency[1]) &&
+            rawSample(y, first + 1) === ((transparency[2] << 8) | transparency[3]) &&
+            rawSample(y, first + 2) === ((transparency[4] << 8) | transparency[5])
+          data[out + 3] = isKey ? 0 : 255
+        }
+      }
+    }
+  }
+
+  return { width, height, data }
+}
+
+/**
+ * 解码 ICO 中的 BMP 图像（高度为 XOR 图与 AND 掩码之和，行自下而上存储）
+ */
+function decodeIcoBitmap(bytes: Uint8Array): RgbaImage {
+  const headerSize = readUint32LE(bytes, 0)
+  const width = readUint32LE(bytes, 4) | 0
+  const height = (readUint32LE(bytes, 8) | 0) / 2
+  const bitCount = readUint16LE(bytes, 14)
+  const compression = readUint32LE(bytes, 16)
+  const colorsUsed = readUint32LE(bytes, 32)
+
+  assertDimensions(width, height)
+  if (compression !== 0 || ![1, 4, 8, 24, 32].includes(bitCount)) {
+    throw new Error(`Unsupported ICO bitmap (${bitCount} bpp, compression ${compression})`)
+  }
+
+  const paletteSize = bitCount <= 8 ? (colorsUsed || 1 << bitCount) : 0
+  const paletteOffset = headerSize
+  const pixelOffset = paletteOffset + paletteSize * 4
+  const stride = Math.ceil((width * bitCount) / 32) * 4
+  const maskOffset = pixelOffset + stride * height
+  const maskStride = Math.ceil(width / 32) * 4
+  if (maskOffset > bytes.length) {
+    throw new Error('ICO bitmap data is truncated')
+  }
+
+  const data = new Uint8Array(width * height * 4)
+  let hasAlpha = false
+
+  for (let y = 0; y < height; y++) {
+    const row = pixelOffset + (height - 1 - y) * stride
+    for (let x = 0; x < width; x++) {
+      const out = (y * width + x) * 4
+      if (bitCount === 32 || bitCount === 24) {
+        const source = row + x * (bitCount / 8)
+        data[out] = bytes[source + 2]
+        data[out + 1] = bytes[source + 1]
+        data[out + 2] = bytes[source]
+        data[out + 3] = bitCount === 32 ? bytes[source + 3] : 255
+        if (bitCount === 32 && bytes[source + 3] > 0) hasAlpha = true
+      } else {
+        const bit = x * bitCount
+        const index = (bytes[row + (bit >> 3)] >> (8 - bitCount - (bit & 7))) & ((1 << bitCount) - 1)
+        const color = paletteOffset + index * 4
+        data[out] = bytes[color + 2] ?? 0
+        data[out + 1] = bytes[color + 1] ?? 0
+        data[out + 2] = bytes[color] ?? 0
+        data[out + 3] = 255
+      }
+    }
+  }
+
+  // 没有 alpha 通道时使用 AND 掩码（1 表示透明）
+  if (!hasAlpha && maskOffset + maskStride * height <= bytes.length) {
+    for (let y = 0; y < height; y++) {
+      const row = maskOffset + (height - 1 - y) * maskStride
+      for (let x = 0; x < width; x++) {
+        if ((bytes[row + (x >> 3)] >> (7 - (x & 7))) & 1) {
+          data[(y * width + x) * 4 + 3] = 0
+        }
+      }
+    }
+  }
+
+  return { width, height, data }
+}
+
+/**
+ * 解码 ICO：选取不小于目标尺寸的最小图像，没有则取最大的，同尺寸优先色深高的
+ */
+export async function decodeIco(bytes: Uint8Array, targetSize: number): Promise<RgbaImage> {
+  if (!isIco(bytes)) {
+    throw new Error('Not an ICO image')
+  }
+
+  const count = readUint16LE(bytes, 4)
+  const entries = Array.from({ length: count }, (_, index) => {
+    const entry = 6 + index * 16
+    return {
+      size: bytes[entry] || 256,
+      bitCount: readUint16LE(bytes, entry + 6),
+      length: readUint32LE(bytes, entry + 8),
+      offset: readUint32LE(bytes, entry + 12),
+    }
+  }).filter(entry => entry.offset + entry.length <= bytes.length && entry.length > 0)
+
+  if (entries.length === 0) {
+    throw new Error('ICO contains no images')
+  }
+
+  entries.sort((a, b) => {
+    const aFits = a.size >= targetSize
+    const bFits = b.size >= targetSize
+    if (aFits !== bFits) return aFits ? -1 : 1
+    if (a.size !== b.size) return aFits ? a.size - b.size : b.size - a.size
+    return b.bitCount - a.bitCount
+  })
+
+  const best = entries[0]
+  const image = bytes.subarray(best.offset, best.offset + best.length)
+  return isPng(image) ? decodePng(image) : decodeIcoBitmap(image)
+}
+
+/**
+ * 按区域平均缩放为 size x size（非正方形图像居中放置，四周透明）
+ * 颜色按 alpha 预乘后再平均，避免透明像素的颜色渗到边缘
+ */
+export function resizeImage(image: RgbaImage, size: number): RgbaImage {
+  const scale = Math.min(size / image.width, size / image.height)
+  const targetWidth = Math.max(1, Math.round(image.width * scale))
+  const targetHeight = Math.max(1, Math.round(image.height * scale))
+  const left = Math.floor((size - targetWidth) / 2)
+  const top = Math.floor((size - targetHeight) / 2)
+  const data = new Uint8Array(size * size * 4)
+
+  for (let ty = 0; ty < targetHeight; ty++) {
+    const y0 = Math.floor((ty * image.height) / targetHeight)
+    const y1 = Math.max(y0 + 1, Math.ceil(((ty + 1) * image.height) / targetHeight))
+    for (let tx = 0; tx < targetWidth; tx++) {
+      const x0 = Math.floor((tx * image.width) / targetWidth)
+      const x1 = Math.max(x0 + 1, Math.ceil(((tx + 1) * image.width) / targetWidth))
+
+      let r = 0
+      let g = 0
+      let b = 0
+      let a = 0
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          const source = (y * image.width + x) * 4
+          const alpha = image.data[source + 3]
+          r += image.data[source] * alpha
+          g += image.data[source + 1] * alpha
+          b += image.data[source + 2] * alpha
+          a += alpha
+        }
+      }
+
+      const out = ((top + ty) * size + left + tx) * 4
+      if (a > 0) {
+        data[out] = Math.round(r / a)
+        data[out + 1] = Math.round(g / a)
+        data[out + 2] = Math.round(b / a)
+        data[out + 3] = Math.round(a / ((y1 - y0) * (x1 - x0)))
+      }
+    }
+  }
+
+  return { width: size, height: size, data }
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length)
+  const view = new DataView(chunk.buffer)
+  view.setUint32(0, data.length)
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i)
+  chunk.set(data, 8)
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)))
+  return chunk
+}
+
+/**
+ * 编码为 8 位 RGBA 的 PNG（不做行滤波）
+ */
+export async function encodePng(image: RgbaImage): Promise<Uint8Array> {
+  const header = new Uint8Array(13)
+  const view = new DataView(header.buffer)
+  view.setUint32(0, image.width)
+  view.setUint32(4, image.height)
+  header[8] = 8 // 位深
+  header[9] = 6 // RGBA
+
+  const stride = image.width * 4
+  const raw = new Uint8Array((stride + 1) * image.height)
+  for (let y = 0; y < image.height; y++) {
+    raw.set(image.data.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1)
+  }
+  const compressed = await pipeThrough(raw, new CompressionStream('deflate'), raw.length + 1024)
+
+  const parts = [
+    new Uint8Array(PNG_SIGNATURE),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', compressed),
+    pngChunk('IEND', new Uint8Array()),
+  ]
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  parts.reduce((offset, part) => {
+    output.set(part, offset)
+    return offset + part.length
+  }, 0)
+  return output
+}
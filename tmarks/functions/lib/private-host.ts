@@ -0,0 +1,38 @@
+/**
+ * 本机、内网与保留地址判断
+ *
+ * 服务端代用户请求外部地址（链接检测、网页抓取、Webhook 投递等）前用于拒绝指向内部网络的地址，
+ * 跟随重定向时每一跳都需要重新判断。
+ */
+
+/**
+ * 是否为本机、内网或保留地址（按主机名判断，不做 DNS 解析）
+ */
+export function isPrivateHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '')
+
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local') || host.endsWith('.internal')) {
+    return true
+  }
+
+  const ipv4 = host.match(/^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/)
+  if (ipv4) {
+    const [a, b] = [Number(ipv4[1]), Number(ipv4[2])]
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      a >= 224
+    )
+  }
+
+  if (host.includes(':')) {
+    return host === '::' || host === '::1' || host.startsWith('fc') || host.startsWith('fd') || host.startsWith('fe80') || host.startsWith('::ffff:')
+  }
+
+  return false
+}
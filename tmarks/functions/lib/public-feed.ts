@@ -0,0 +1,315 @@
+/**
+ * 公开分享订阅源
+ * 将公开书签输出为 Atom 1.0、RSS 2.0 和 JSON Feed 1.1，支持按单个标签生成订阅源
+ *
+ * 订阅源数据与公开分享页共用 publicShare 缓存策略，书签变更时随 invalidatePublicShareCache 一起失效
+ */
+
+import type { D1Database } from '@cloudflare/workers-types'
+import type { BookmarkRow, Env, SQLParam } from './types'
+import { CacheService } from './cache'
+import { generateCacheKey } from './cache/strategies'
+import { escapeXml, toIsoTimestamp } from './utils'
+import {
+  PUBLIC_BOOKMARKS_WHERE,
+  attachPublicBookmarkTags,
+  findPublicShareUser,
+  type PublicShareBookmark,
+  type PublicShareTag,
+} from './public-share'
+
+/** 订阅源包含的最新书签数量 */
+export const FEED_ITEM_LIMIT = 50
+
+export type FeedFormat = 'atom' | 'rss' | 'json'
+
+export interface PublicFeedData {
+  profile: {
+    username: string
+    title: string | null
+    description: string | null
+    slug: string
+  }
+  tag: PublicShareTag | null
+  bookmarks: PublicShareBookmark[]
+  /** 订阅源内容的最后更新时间（书签 updated_at 的最大值） */
+  updated_at: string
+}
+
+export type PublicFeedResult =
+  | { success: true; feed: PublicFeedData }
+  | { success: false; message: string }
+
+/**
+ * 按 ID 或名称查找标签；只有至少关联一个公开书签的标签才能生成订阅源，
+ * 避免通过订阅源地址探测私有标签是否存在
+ */
+async function findPublicTag(db: D1Database, userId: string, tag: string): Promise<PublicShareTag | null> {
+  const row = await db.prepare(
+    `SELECT t.id, t.name, t.color
+     FROM tags t
+     WHERE t.user_id = ? AND t.deleted_at IS NULL AND (t.id = ? OR LOWER(t.name) = LOWER(?))
+       AND EXISTS (
+         SELECT 1 FROM bookmark_tags bt
+         INNER JOIN bookmarks b ON b.id = bt.bookmark_id
+         WHERE bt.tag_id = t.id AND ${PUBLIC_BOOKMARKS_WHERE}
+       )
+     LIMIT 1`
+  )
+    .bind(userId, tag, tag, userId)
+    .first<PublicShareTag>()
+  return row ?? null
+}
+
+/**
+ * 读取订阅源数据，slug 不存在或标签不存在（或没有公开书签）时返回错误
+ */
+export async function loadPublicFeed(env: Env, slug: string, tag: string | null): Promise<PublicFeedResult> {
+  const db = env.DB
+  const user = await findPublicShareUser(db, slug)
+  if (!user || !user.public_slug) {
+    return { success: false, message: 'Share link not found' }
+  }
+
+  const cache = new CacheService(env)
+  const cacheKey = generateCacheKey('publicShare', `${slug.toLowerCase()}:feed:${tag ? tag.toLowerCase() : 'all'}`)
+  const cached = await cache.get<PublicFeedData>('publicShare', cacheKey)
+  if (cached) {
+    return { success: true, feed: cached }
+  }
+
+  const feedTag = tag ? await findPublicTag(db, user.user_id, tag) : null
+  if (tag && !feedTag) {
+    return { success: false, message: 'Tag not found' }
+  }
+
+  let query = `
+      SELECT b.*
+      FROM bookmarks b
+      WHERE ${PUBLIC_BOOKMARKS_WHERE}
+    `
+  const params: SQLParam[] = [user.user_id]
+
+  if (feedTag) {
+    query += ' AND EXISTS (SELECT 1 FROM bookmark_tags bt WHERE bt.bookmark_id = b.id AND bt.tag_id = ?)'
+    params.push(feedTag.id)
+  }
+
+  // 订阅源按加入时间倒序，不受置顶影响
+  query += ' ORDER BY b.created_at DESC, b.id DESC LIMIT ?'
+  params.push(FEED_ITEM_LIMIT)
+
+  const { results } = await db.prepare(query).bind(...params).all<BookmarkRow>()
+  const bookmarks = await attachPublicBookmarkTags(db, results || [])
+
+  const updatedAt = bookmarks.reduce<string | null>((latest, bookmark) => {
+    const value = toIsoTimestamp(bookmark.updated_at) ?? toIsoTimestamp(bookmark.created_at)
+    return value && (!latest || value > latest) ? value : latest
+  }, null)
+
+  const feed: PublicFeedData = {
+    profile: {
+      username: user.username,
+      title: user.public_page_title,
+      description: user.public_page_description,
+      slug: user.public_slug,
+    },
+    tag: feedTag,
+    bookmarks,
+    updated_at: updatedAt ?? new Date().toISOString(),
+  }
+
+  await cache.set('publicShare', cacheKey, feed, { async: true })
+
+  return { success: true, feed }
+}
+
+interface FeedLinks {
+  /** 分享页地址 */
+  home: string
+  /** 当前订阅源地址 */
+  self: string
+}
+
+function getFeedLinks(origin: string, feed: PublicFeedData, format: FeedFormat): FeedLinks {
+  const slug = encodeURIComponent(feed.profile.slug)
+  const query = new URLSearchParams()
+  if (format === 'rss') query.set('format', 'rss')
+  if (feed.tag) query.set('tag', feed.tag.name)
+  const search = query.toString()
+  const file = format === 'json' ? 'feed.json' : 'feed.xml'
+  return {
+    home: `${origin}/share/${slug}`,
+    self: `${origin}/share/${slug}/${file}${search ? `?${search}` : ''}`,
+  }
+}
+
+function getFeedTitle(feed: PublicFeedData): string {
+  const title = feed.profile.title || `${feed.profile.username}'s bookmarks`
+  return feed.tag ? `${title} · #${feed.tag.name}` : title
+}
+
+/** 条目 ID 使用分享页地址加书签 ID，保持稳定 */
+function getItemId(links: FeedLinks, bookmark: PublicShareBookmark): string {
+  return `${links.home}#${bookmark.id}`
+}
+
+export function renderAtomFeed(feed: PublicFeedData, origin: string): string {
+  const links = getFeedLinks(origin, feed, 'atom')
+  const lines = [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <title>${escapeXml(getFeedTitle(feed))}</title>`,
+  ]
+  if (feed.profile.description) {
+    lines.push(`  <subtitle>${escapeXml(feed.profile.description)}</subtitle>`)
+  }
+  lines.push(
+    `  <id>${escapeXml(links.self)}</id>`,
+    `  <link rel="self" type="application/atom+xml" href="${escapeXml(links.self)}"/>`,
+    `  <link rel="alternate" type="text/html" href="${escapeXml(links.home)}"/>`,
+    `  <updated>${feed.updated_at}</updated>`,
+    `  <author><name>${escapeXml(feed.profile.username)}</name></author>`,
+    '  <generator>TMarks</generator>'
+  )
+
+  for (const bookmark of feed.bookmarks) {
+    const published = toIsoTimestamp(bookmark.created_at) ?? feed.updated_at
+    const updated = toIsoTimestamp(bookmark.updated_at) ?? published
+    lines.push(
+      '  <entry>',
+      `    <title>${escapeXml(bookmark.title || bookmark.url)}</title>`,
+      `    <link rel="alternate" href="${escapeXml(bookmark.url)}"/>`,
+      `    <id>${escapeXml(getItemId(links, bookmark))}</id>`,
+      `    <published>${published}</published>`,
+      `    <updated>${updated}</updated>`
+    )
+    if (bookmark.description) {
+      lines.push(`    <summary>${escapeXml(bookmark.description)}</summary>`)
+    }
+    for (const tag of bookmark.tags) {
+      lines.push(`    <category term="${escapeXml(tag.name)}"/>`)
+    }
+    lines.push('  </entry>')
+  }
+
+  lines.push('</feed>')
+  return lines.join('\n')
+}
+
+export function renderRssFeed(feed: PublicFeedData, origin: string): string {
+  const links = getFeedLinks(origin, feed, 'rss')
+  const lines = [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+    '  <channel>',
+    `    <title>${escapeXml(getFeedTitle(feed))}</title>`,
+    `    <link>${escapeXml(links.home)}</link>`,
+    `    <description>${escapeXml(feed.profile.description || getFeedTitle(feed))}</description>`,
+    `    <atom:link rel="self" type="application/rss+xml" href="${escapeXml(links.self)}"/>`,
+    `    <lastBuildDate>${new Date(feed.updated_at).toUTCString()}</lastBuildDate>`,
+    '    <generator>TMarks</generator>',
+  ]
+
+  for (const bookmark of feed.bookmarks) {
+    const published = toIsoTimestamp(bookmark.created_at) ?? feed.updated_at
+    lines.push(
+      '    <item>',
+      `      <title>${escapeXml(bookmark.title || bookmark.url)}</title>`,
+      `      <link>${escapeXml(bookmark.url)}</link>`,
+      `      <guid isPermaLink="false">${escapeXml(getItemId(links, bookmark))}</guid>`,
+      `      <pubDate>${new Date(published).toUTCString()}</pubDate>`
+    )
+    if (bookmark.description) {
+      lines.push(`      <description>${escapeXml(bookmark.description)}</description>`)
+    }
+    for (const tag of bookmark.tags) {
+      lines.push(`      <category>${escapeXml(tag.name)}</category>`)
+    }
+    lines.push('    </item>')
+  }
+
+  lines.push('  </channel>', '</rss>')
+  return lines.join('\n')
+}
+
+export function renderJsonFeed(feed: PublicFeedData, origin: string): string {
+  const links = getFeedLinks(origin, feed, 'json')
+  return JSON.stringify({
+    version: 'https://jsonfeed.org/version/1.1',
+    title: getFeedTitle(feed),
+    home_page_url: links.home,
+    feed_url: links.self,
+    ...(feed.profile.description ? { description: feed.profile.description } : {}),
+    authors: [{ name: feed.profile.username }],
+    items: feed.bookmarks.map((bookmark) => {
+      const published = toIsoTimestamp(bookmark.created_at) ?? feed.updated_at
+      return {
+        id: getItemId(links, bookmark),
+        url: bookmark.url,
+        title: bookmark.title || bookmark.url,
+        content_text: bookmark.description || bookmark.url,
+        ...(bookmark.cover_image ? { image: bookmark.cover_image } : {}),
+        date_published: published,
+        date_modified: toIsoTimestamp(bookmark.updated_at) ?? published,
+        tags: bookmark.tags.map((tag) => tag.name),
+      }
+    }),
+  })
+}
+
+const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+  atom: 'application/atom+xml; charset=utf-8',
+  rss: 'application/rss+xml; charset=utf-8',
+  json: 'application/feed+json; charset=utf-8',
+}
+
+/**
+ * 订阅源内容的 ETag：对条目的 (id, updated_at) 有序列表取哈希
+ * 只用数量和最大更新时间时，删除一条旧书签同时新增一条会得到相同的 ETag
+ */
+async function computeFeedEtag(feed: PublicFeedData, format: FeedFormat): Promise<string> {
+  const source = [
+    format,
+    feed.tag?.id ?? 'all',
+    ...feed.bookmarks.map((bookmark) => `${bookmark.id}:${bookmark.updated_at}`),
+  ].join('\n')
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(source))
+  const hash = Array.from(new Uint8Array(digest).slice(0, 16), (b) => b.toString(16).padStart(2, '0')).join('')
+  return `W/"${hash}"`
+}
+
+/**
+ * 生成订阅源响应，支持 If-None-Match / If-Modified-Since 条件请求
+ */
+export async function feedResponse(request: Request, feed: PublicFeedData, format: FeedFormat): Promise<Response> {
+  const origin = new URL(request.url).origin
+  const lastModified = new Date(feed.updated_at).toUTCString()
+  const etag = await computeFeedEtag(feed, format)
+  const headers = {
+    'Cache-Control': 'public, max-age=1800',
+    'Last-Modified': lastModified,
+    ETag: etag,
+  }
+
+  const ifNoneMatch = request.headers.get('If-None-Match')
+  const ifModifiedSince = request.headers.get('If-Modified-Since')
+  const notModified = ifNoneMatch
+    ? ifNoneMatch === etag
+    : Boolean(ifModifiedSince) && Date.parse(ifModifiedSince as string) >= Date.parse(lastModified)
+  if (notModified) {
+    return new Response(null, { status: 304, headers })
+  }
+
+  const body =
+    format === 'json'
+      ? renderJsonFeed(feed, origin)
+      : format === 'rss'
+        ? renderRssFeed(feed, origin)
+        : renderAtomFeed(feed, origin)
+
+  return new Response(body, {
+    status: 200,
+    headers: { ...headers, 'Content-Type': FEED_CONTENT_TYPES[format] },
+  })
+}
@@ -0,0 +1,187 @@
+/**
+ * 公开分享页面的数据查询
+ * 供 /api/public/:slug、服务端渲染的分享页（/share/:slug）与订阅源（/share/:slug/feed.*）共用
+ */
+
+import type { D1Database } from '@cloudflare/workers-types'
+import type { BookmarkRow, Env, PublicProfile } from './types'
+import { normalizeBookmark } from './bookmark-utils'
+import { CacheService } from './cache'
+import { generateCacheKey } from './cache/strategies'
+import { BOOKMARK_SORT_KEYS, buildOrderBy } from './bookmark-cursor'
+
+export interface PublicShareTag {
+  id: string
+  name: string
+  color: string | null
+}
+
+export type PublicShareBookmark = ReturnType<typeof normalizeBookmark> & { tags: PublicShareTag[] }
+
+export interface PublicShareTagStat extends PublicShareTag {
+  bookmark_count: number
+}
+
+export interface PublicShareProfile {
+  username: string
+  title: string | null
+  description: string | null
+  slug: string
+}
+
+/** 不分页时的完整分享数据，分享页的服务端渲染会把它嵌入 HTML 供前端直接使用 */
+export interface PublicSharePayload {
+  profile: PublicShareProfile
+  bookmarks: PublicShareBookmark[]
+  tags: PublicShareTagStat[]
+  generated_at: string
+}
+
+/** 公开书签的基础条件，调用方在此之后追加筛选、排序和 LIMIT */
+export const PUBLIC_BOOKMARKS_WHERE = `b.user_id = ?
+        AND b.is_public = 1
+        AND b.deleted_at IS NULL`
+
+const TAG_QUERY_CHUNK_SIZE = 90
+
+/**
+ * 根据 slug 查找已开启公开分享的用户
+ */
+export async function findPublicShareUser(db: D1Database, slug: string): Promise<PublicProfile | null> {
+  const user = await db.prepare(
+    `SELECT id as user_id, username, public_share_enabled, public_slug, public_page_title, public_page_description
+     FROM users
+     WHERE LOWER(public_slug) = ? AND public_share_enabled = 1`
+  )
+    .bind(slug.toLowerCase())
+    .first<PublicProfile>()
+
+  if (!user || !user.public_share_enabled || !user.public_slug) {
+    return null
+  }
+  return user
+}
+
+/**
+ * 为公开书签附加标签（已删除的标签不显示）
+ */
+export async function attachPublicBookmarkTags(db: D1Database, rows: BookmarkRow[]): Promise<PublicShareBookmark[]> {
+  const bookmarkIds = rows.map((row) => row.id)
+  const tagsByBookmark = new Map<string, PublicShareTag[]>()
+
+  // D1 单条语句的绑定参数有上限，按批查询
+  for (let i = 0; i < bookmarkIds.length; i += TAG_QUERY_CHUNK_SIZE) {
+    const chunk = bookmarkIds.slice(i, i + TAG_QUERY_CHUNK_SIZE)
+    const placeholders = chunk.map(() => '?').join(',')
+    const { results: tagRows } = await db.prepare(
+      `SELECT bt.bookmark_id, t.id, t.name, t.color
+       FROM bookmark_tags bt
+       INNER JOIN tags t ON t.id = bt.tag_id
+       WHERE bt.bookmark_id IN (${placeholders})
+         AND t.deleted_at IS NULL
+       ORDER BY t.name`
+    )
+      .bind(...chunk)
+      .all<{ bookmark_id: string } & PublicShareTag>()
+
+    for (const tag of tagRows || []) {
+      const tags = tagsByBookmark.get(tag.bookmark_id) || []
+      tags.push({ id: tag.id, name: tag.name, color: tag.color })
+      tagsByBookmark.set(tag.bookmark_id, tags)
+    }
+  }
+
+  return rows.map((row) => ({
+    ...normalizeBookmark(row),
+    tags: tagsByBookmark.get(row.id) || [],
+  }))
+}
+
+export function toPublicShareProfile(user: PublicProfile): PublicShareProfile {
+  return {
+    username: user.username,
+    title: user.public_page_title,
+    description: user.public_page_description,
+    slug: user.public_slug as string,
+  }
+}
+
+/**
+ * 公开书签的标签统计（单独缓存，分页的第一页也会用到）
+ */
+export async function getPublicShareTagStats(
+  cache: CacheService,
+  db: D1Database,
+  user: PublicProfile
+): Promise<PublicShareTagStat[]> {
+  const tagsCacheKey = generateCacheKey('publicShare', `${(user.public_slug as string).toLowerCase()}:tags`)
+
+  // 尝试从缓存获取标签
+  const cachedTags = await cache.get<PublicShareTagStat[]>('publicShare', tagsCacheKey)
+  if (cachedTags) {
+    return cachedTags
+  }
+
+  // 计算标签统计
+  const { results: tagStats } = await db.prepare(
+    `SELECT t.id, t.name, t.color, COUNT(DISTINCT bt.bookmark_id) as bookmark_count
+     FROM tags t
+     INNER JOIN bookmark_tags bt ON t.id = bt.tag_id
+     INNER JOIN bookmarks b ON bt.bookmark_id = b.id
+     WHERE b.user_id = ?
+       AND b.is_public = 1
+       AND b.deleted_at IS NULL
+       AND t.deleted_at IS NULL
+     GROUP BY t.id, t.name, t.color
+     ORDER BY t.name`
+  )
+    .bind(user.user_id)
+    .all<PublicShareTagStat>()
+
+  const tags = tagStats || []
+
+  // 缓存标签统计（30分钟）
+  if (tags.length > 0) {
+    await cache.set('publicShare', tagsCacheKey, tags, { async: true })
+  }
+
+  return tags
+}
+
+/**
+ * 获取不分页的完整分享数据（优先读取缓存）
+ */
+export async function getPublicSharePayload(
+  env: Env,
+  user: PublicProfile
+): Promise<{ payload: PublicSharePayload; cached: boolean }> {
+  const cache = new CacheService(env)
+  const cacheKey = generateCacheKey('publicShare', (user.public_slug as string).toLowerCase())
+
+  const cached = await cache.get<PublicSharePayload>('publicShare', cacheKey)
+  if (cached) {
+    return { payload: cached, cached: true }
+  }
+
+  // 公开分享固定按创建时间排序（置顶在前）
+  const { results: bookmarkRows } = await env.DB.prepare(
+    `SELECT b.*
+     FROM bookmarks b
+     WHERE ${PUBLIC_BOOKMARKS_WHERE}
+     ${buildOrderBy(BOOKMARK_SORT_KEYS.created)}`
+  )
+    .bind(user.user_id)
+    .all<BookmarkRow>()
+
+  const payload: PublicSharePayload = {
+    profile: toPublicShareProfile(user),
+    bookmarks: await attachPublicBookmarkTags(env.DB, bookmarkRows || []),
+    tags: await getPublicShareTagStats(cache, env.DB, user),
+    generated_at: new Date().toISOString(),
+  }
+
+  // 异步写入缓存 (30分钟 TTL, Level 0 配置)
+  await cache.set('publicShare', cacheKey, payload, { async: true })
+
+  return { payload, cached: false }
+}
@@ -188,3 +188,15 @@ export const filterRateLimiter = createRateLimiter(
   999999, // 取消限制
   60
 )
+
+/**
+ * Rate limiter for URL unfurl endpoint (每个请求都会在服务端抓取外部网页)
+ */
+export const unfurlRateLimiter = createRateLimiter(
+  (context) => {
+    const userId = context.data?.user_id || getClientIP(context.request)
+    return `unfurl:${userId}`
+  },
+  30,
+  60
+)
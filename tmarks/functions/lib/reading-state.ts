@@ -0,0 +1,187 @@
+/**
+ * 稍后阅读：书签的阅读状态与进度
+ *
+ * reading_status 为 NULL 表示书签不在阅读队列中：
+ * - unread: 已加入队列（记录 reading_queued_at）
+ * - reading: 正在阅读（记录 reading_started_at 与 reading_progress）
+ * - read: 已读完（记录 read_at），与归档 is_archived 相互独立
+ */
+
+export const READING_STATUSES = ['unread', 'reading', 'read'] as const
+export type ReadingStatus = typeof READING_STATUSES[number]
+
+export interface ReadingState {
+  reading_status: ReadingStatus | null
+  reading_progress: number
+  reading_queued_at: string | null
+  reading_started_at: string | null
+  read_at: string | null
+}
+
+export interface ReadingStateInput {
+  /** 传 null 表示移出阅读队列 */
+  status?: unknown
+  /** 阅读进度百分比 0-100 */
+  progress?: unknown
+}
+
+export type ReadingStateResult =
+  | { success: true; state: ReadingState }
+  | { success: false; message: string }
+
+const EMPTY_READING_STATE: ReadingState = {
+  reading_status: null,
+  reading_progress: 0,
+  reading_queued_at: null,
+  reading_started_at: null,
+  read_at: null,
+}
+
+export function isReadingStatus(value: unknown): value is ReadingStatus {
+  return typeof value === 'string' && (READING_STATUSES as readonly string[]).includes(value)
+}
+
+/**
+ * 解析逗号分隔的阅读状态筛选参数，忽略无效值
+ */
+export function parseReadingStatusList(value: string | null | undefined): ReadingStatus[] {
+  if (!value) return []
+  return [...new Set(value.split(',').map(status => status.trim()).filter(isReadingStatus))]
+}
+
+/**
+ * 从书签行读取阅读状态（迁移前的旧数据字段缺失时视为不在队列中）
+ */
+export function getReadingState(row: Partial<ReadingState>): ReadingState {
+  return {
+    reading_status: isReadingStatus(row.reading_status) ? row.reading_status : null,
+    reading_progress: Number(row.reading_progress || 0),
+    reading_queued_at: row.reading_queued_at ?? null,
+    reading_started_at: row.reading_started_at ?? null,
+    read_at: row.read_at ?? null,
+  }
+}
+
+/**
+ * 新加入阅读队列的状态（创建书签时指定 read_later 使用）
+ */
+export function queuedReadingState(now: string): ReadingState {
+  return { ...EMPTY_READING_STATE, reading_status: 'unread', reading_queued_at: now }
+}
+
+/**
+ * 计算更新后的阅读状态
+ * 只传进度时自动推导状态：进度大于 0 视为阅读中，达到 100 视为已读
+ */
+export function applyReadingState(current: ReadingState, input: ReadingStateInput, now: string): ReadingStateResult {
+  if (input.status === undefined && input.progress === undefined) {
+    return { success: false, message: 'Reading status or progress is required' }
+  }
+
+  if (input.status !== undefined && input.status !== null && !isReadingStatus(input.status)) {
+    return { success: false, message: 'Invalid reading status' }
+  }
+
+  let progress: number | undefined
+  if (input.progress !== undefined) {
+    if (typeof input.progress !== 'number' || !Number.isFinite(input.progress) || input.progress < 0 || input.progress > 100) {
+      return { success: false, message: 'Reading progress must be a number between 0 and 100' }
+    }
+    progress = Math.round(input.progress)
+  }
+
+  if (input.status === null) {
+    return { success: true, state: { ...EMPTY_READING_STATE } }
+  }
+
+  let status: ReadingStatus
+  if (isReadingStatus(input.status)) {
+    status = input.status
+  } else if (progress !== undefined && progress >= 100) {
+    status = 'read'
+  } else if (progress !== undefined && progress > 0) {
+    status = 'reading'
+  } else {
+    status = current.reading_status ?? 'unread'
+  }
+
+  const queuedAt = current.reading_queued_at ?? now
+
+  switch (status) {
+    case 'unread':
+      return {
+        success: true,
+        state: {
+          reading_status: 'unread',
+          reading_progress: progress ?? 0,
+          reading_queued_at: queuedAt,
+          reading_started_at: null,
+          read_at: null,
+        },
+      }
+    case 'reading':
+      return {
+        success: true,
+        state: {
+          reading_status: 'reading',
+          // 已读后重新打开时进度从头开始
+          reading_progress: Math.min(progress ?? (current.reading_status === 'read' ? 0 : current.reading_progress), 99),
+          reading_queued_at: queuedAt,
+          reading_started_at: current.reading_started_at ?? now,
+          read_at: null,
+        },
+      }
+    case 'read':
+      return {
+        success: true,
+        state: {
+          reading_status: 'read',
+          reading_progress: 100,
+          reading_queued_at: queuedAt,
+          reading_started_at: current.reading_started_at,
+          read_at: current.reading_status === 'read' && current.read_at ? current.read_at : now,
+        },
+      }
+  }
+}
+
+/**
+ * 读取当前用户未删除书签的阅读状态，书签不存在时返回 null
+ */
+export async function findBookmarkReadingState(
+  db: D1Database,
+  userId: string,
+  bookmarkId: string
+): Promise<ReadingState | null> {
+  const row = await db
+    .prepare(
+      `SELECT reading_status, reading_progress, reading_queued_at, reading_started_at, read_at
+       FROM bookmarks
+       WHERE id = ? AND user_id = ? AND deleted_at IS NULL`
+    )
+    .bind(bookmarkId, userId)
+    .first<ReadingState>()
+
+  return row ? getReadingState(row) : null
+}
+
+/**
+ * 写入阅读状态（不修改 updated_at，阅读进度不算书签内容变更）
+ */
+export async function saveReadingState(db: D1Database, bookmarkId: string, state: ReadingState): Promise<void> {
+  await db
+    .prepare(
+      `UPDATE bookmarks
+       SET reading_status = ?, reading_progress = ?, reading_queued_at = ?, reading_started_at = ?, read_at = ?
+       WHERE id = ?`
+    )
+    .bind(
+      state.reading_status,
+      state.reading_progress,
+      state.reading_queued_at,
+      state.reading_started_at,
+      state.read_at,
+      bookmarkId
+    )
+    .run()
+}
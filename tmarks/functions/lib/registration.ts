@@ -0,0 +1,79 @@
+/**
+ * 注册策略
+ * - 是否开放注册：管理员覆盖值优先，否则取 ALLOW_REGISTRATION
+ * - 邀请码模式：开放注册时可要求注册必须提供有效邀请码；未开放注册时只能凭有效邀请码注册
+ * - 每日注册上限：按 UTC 日期在 registration_limits 中计数，0 表示不限制（仍然计数，供后台查看历史）
+ */
+
+import type { D1Database } from '@cloudflare/workers-types'
+import type { Env } from './types'
+import { isRegistrationAllowed } from './config'
+import { loadAppSettingOverrides } from './app-settings'
+
+export interface RegistrationSettings {
+  /** 是否开放注册（关闭时为仅邀请模式） */
+  allowed: boolean
+  /** 注册时是否必须提供邀请码：开启了邀请码模式，或未开放注册 */
+  invite_required: boolean
+  daily_limit: number
+}
+
+export interface RegistrationDay {
+  date: string
+  count: number
+  updated_at: string
+}
+
+export async function getRegistrationSettings(db: D1Database, env: Env): Promise<RegistrationSettings> {
+  const overrides = await loadAppSettingOverrides(db)
+  const allowed = overrides.allow_registration ?? isRegistrationAllowed(env)
+
+  return {
+    allowed,
+    invite_required: !allowed || (overrides.invite_code_required ?? false),
+    daily_limit: overrides.registration_daily_limit ?? 0,
+  }
+}
+
+/** registration_limits 使用的日期（UTC，YYYY-MM-DD） */
+export function getRegistrationDate(now = new Date()): string {
+  return now.toISOString().slice(0, 10)
+}
+
+/**
+ * 占用当天的一个注册名额，已达上限时返回 false
+ * 计数和上限检查在同一条语句中完成，避免并发注册超出上限
+ */
+export async function reserveRegistrationSlot(db: D1Database, dailyLimit: number): Promise<boolean> {
+  const result = await db
+    .prepare(
+      `INSERT INTO registration_limits (date, count, updated_at)
+       VALUES (?, 1, ?)
+       ON CONFLICT(date) DO UPDATE SET count = registration_limits.count + 1, updated_at = excluded.updated_at
+       WHERE ? = 0 OR registration_limits.count < ?`
+    )
+    .bind(getRegistrationDate(), new Date().toISOString(), dailyLimit, dailyLimit)
+    .run()
+
+  return Boolean(result.meta.changes)
+}
+
+/** 注册失败时归还名额 */
+export async function releaseRegistrationSlot(db: D1Database): Promise<void> {
+  await db
+    .prepare('UPDATE registration_limits SET count = MAX(count - 1, 0), updated_at = ? WHERE date = ?')
+    .bind(new Date().toISOString(), getRegistrationDate())
+    .run()
+}
+
+/** 最近 days 天的注册计数（按日期倒序，没有注册的日期不返回） */
+export async function listRegistrationHistory(db: D1Database, days: number): Promise<RegistrationDay[]> {
+  const since = getRegistrationDate(new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000))
+
+  const { results } = await db
+    .prepare('SELECT date, count, updated_at FROM registration_limits WHERE date >= ? ORDER BY date DESC')
+    .bind(since)
+    .all<RegistrationDay>()
+
+  return results || []
+}
@@ -0,0 +1,507 @@
+/**
+ * 书签提醒与自动重温
+ *
+ * - manual: 用户为书签设置的提醒（例如“两周后提醒我”）
+ * - resurface: 自动重温，按设置的间隔挑选点击少、久未访问的书签生成提醒
+ *
+ * 每个书签最多只有一条待处理（pending）提醒，到期后由新标签页和浏览器扩展通知展示，
+ * 用户处理后标记为 done（已完成）或 dismissed（忽略），也可以推迟（snooze）。
+ */
+
+import { generateUUID } from './crypto'
+
+export const REMINDER_SOURCES = ['manual', 'resurface'] as const
+export type ReminderSource = typeof REMINDER_SOURCES[number]
+
+export const REMINDER_STATUSES = ['pending', 'done', 'dismissed'] as const
+export type ReminderStatus = typeof REMINDER_STATUSES[number]
+
+export const REMINDER_ACTIONS = ['done', 'dismiss', 'snooze'] as const
+export type ReminderAction = typeof REMINDER_ACTIONS[number]
+
+export const MAX_REMINDER_DAYS = 730
+export const MAX_DUE_REMINDERS = 50
+const NOTE_MAX_LENGTH = 500
+const DEFAULT_SNOOZE_DAYS = 1
+// 处理过的书签在冷却期内不会再次被自动重温
+const RESURFACE_COOLDOWN_DAYS = 90
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface BookmarkReminder {
+  id: string
+  bookmark_id: string
+  remind_at: string
+  note: string | null
+  source: ReminderSource
+  status: ReminderStatus
+  completed_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface ReminderBookmark {
+  id: string
+  title: string
+  url: string
+  description: string | null
+  favicon: string | null
+  click_count: number
+  last_clicked_at: string | null
+  created_at: string
+}
+
+export interface ReminderWithBookmark extends BookmarkReminder {
+  bookmark: ReminderBookmark
+}
+
+interface ReminderWithBookmarkRow extends BookmarkReminder {
+  bookmark_title: string
+  bookmark_url: string
+  bookmark_description: string | null
+  bookmark_favicon: string | null
+  bookmark_click_count: number
+  bookmark_last_clicked_at: string | null
+  bookmark_created_at: string
+}
+
+export interface ResurfacingSettings {
+  enabled: boolean
+  interval_days: number
+  batch_size: number
+  min_age_days: number
+  last_run_at: string | null
+}
+
+interface ResurfacingSettingsRow {
+  enabled: number
+  interval_days: number
+  batch_size: number
+  min_age_days: number
+  last_run_at: string | null
+}
+
+export const DEFAULT_RESURFACING_SETTINGS: ResurfacingSettings = {
+  enabled: false,
+  interval_days: 7,
+  batch_size: 3,
+  min_age_days: 30,
+  last_run_at: null,
+}
+
+const RESURFACING_LIMITS = {
+  interval_days: { min: 1, max: 90 },
+  batch_size: { min: 1, max: 20 },
+  min_age_days: { min: 0, max: 365 },
+} as const
+
+export interface ReminderInput {
+  /** ISO 时间，与 remind_in_days 二选一 */
+  remind_at?: unknown
+  /** 从现在起的天数 */
+  remind_in_days?: unknown
+  note?: unknown
+}
+
+export type ReminderInputResult =
+  | { success: true; remindAt: string; note: string | null }
+  | { success: false; message: string }
+
+export interface ReminderActionInput {
+  action?: unknown
+  /** 推迟天数，仅 snooze 时使用 */
+  snooze_days?: unknown
+}
+
+export type ReminderActionResult =
+  | { success: true; action: ReminderAction; snoozeDays: number }
+  | { success: false; message: string }
+
+export type ResurfacingSettingsResult =
+  | { success: true; settings: ResurfacingSettings }
+  | { success: false; message: string }
+
+const REMINDER_COLUMNS = 'r.id, r.bookmark_id, r.remind_at, r.note, r.source, r.status, r.completed_at, r.created_at, r.updated_at'
+
+function addDays(now: string, days: number): string {
+  return new Date(new Date(now).getTime() + days * DAY_MS).toISOString()
+}
+
+function toReminderWithBookmark(row: ReminderWithBookmarkRow): ReminderWithBookmark {
+  return {
+    id: row.id,
+    bookmark_id: row.bookmark_id,
+    remind_at: row.remind_at,
+    note: row.note,
+    source: row.source,
+    status: row.status,
+    completed_at: row.completed_at,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+    bookmark: {
+      id: row.bookmark_id,
+      title: row.bookmark_title,
+      url: row.bookmark_url,
+      description: row.bookmark_description,
+      favicon: row.bookmark_favicon,
+      click_count: Number(row.bookmark_click_count || 0),
+      last_clicked_at: row.bookmark_last_clicked_at,
+      created_at: row.bookmark_created_at,
+    },
+  }
+}
+
+/**
+ * 校验提醒时间和备注
+ */
+export function validateReminderInput(input: ReminderInput, now: string): ReminderInputResult {
+  let remindAt: string
+
+  if (input.remind_in_days !== undefined) {
+    const days = input.remind_in_days
+    if (typeof days !== 'number' || !Number.isFinite(days) || days <= 0 || days > MAX_REMINDER_DAYS) {
+      return { success: false, message: `remind_in_days must be between 1 and ${MAX_REMINDER_DAYS}` }
+    }
+    remindAt = addDays(now, days)
+  } else if (input.remind_at !== undefined) {
+    const time = typeof input.remind_at === 'string' ? new Date(input.remind_at).getTime() : NaN
+    if (!Number.isFinite(time)) {
+      return { success: false, message: 'Invalid remind_at' }
+    }
+    if (time > new Date(now).getTime() + MAX_REMINDER_DAYS * DAY_MS) {
+      return { success: false, message: `Reminder cannot be more than ${MAX_REMINDER_DAYS} days ahead` }
+    }
+    remindAt = new Date(time).toISOString()
+  } else {
+    return { success: false, message: 'remind_at or remind_in_days is required' }
+  }
+
+  if (input.note !== undefined && input.note !== null && typeof input.note !== 'string') {
+    return { success: false, message: 'Note must be a string' }
+  }
+  const note = typeof input.note === 'string' ? input.note.trim().slice(0, NOTE_MAX_LENGTH) || null : null
+
+  return { success: true, remindAt, note }
+}
+
+export function validateReminderAction(input: ReminderActionInput): ReminderActionResult {
+  if (!REMINDER_ACTIONS.includes(input.action as ReminderAction)) {
+    return { success: false, message: 'Invalid reminder action' }
+  }
+
+  const snoozeDays = input.snooze_days ?? DEFAULT_SNOOZE_DAYS
+  if (typeof snoozeDays !== 'number' || !Number.isFinite(snoozeDays) || snoozeDays <= 0 || snoozeDays > MAX_REMINDER_DAYS) {
+    return { success: false, message: `snooze_days must be between 1 and ${MAX_REMINDER_DAYS}` }
+  }
+
+  return { success: true, action: input.action as ReminderAction, snoozeDays }
+}
+
+/**
+ * 获取书签当前待处理的提醒
+ */
+export async function getBookmarkReminder(
+  db: D1Database,
+  userId: string,
+  bookmarkId: string
+): Promise<BookmarkReminder | null> {
+  return db
+    .prepare(
+      `SELECT ${REMINDER_COLUMNS}
+       FROM bookmark_reminders r
+       WHERE r.bookmark_id = ? AND r.user_id = ? AND r.status = 'pending'`
+    )
+    .bind(bookmarkId, userId)
+    .first<BookmarkReminder>()
+}
+
+/**
+ * 设置书签提醒：已有待处理提醒时更新时间和备注，否则新建
+ */
+export async function setBookmarkReminder(
+  db: D1Database,
+  userId: string,
+  bookmarkId: string,
+  remindAt: string,
+  note: string | null
+): Promise<BookmarkReminder> {
+  const now = new Date().toISOString()
+  const existing = await getBookmarkReminder(db, userId, bookmarkId)
+
+  if (existing) {
+    await db
+      .prepare(
+        `UPDATE bookmark_reminders
+         SET remind_at = ?, note = ?, source = 'manual', updated_at = ?
+         WHERE id = ?`
+      )
+      .bind(remindAt, note, now, existing.id)
+      .run()
+
+    return { ...existing, remind_at: remindAt, note, source: 'manual', updated_at: now }
+  }
+
+  const reminder: BookmarkReminder = {
+    id: generateUUID(),
+    bookmark_id: bookmarkId,
+    remind_at: remindAt,
+    note,
+    source: 'manual',
+    status: 'pending',
+    completed_at: null,
+    created_at: now,
+    updated_at: now,
+  }
+
+  await db
+    .prepare(
+      `INSERT INTO bookmark_reminders (id, user_id, bookmark_id, remind_at, note, source, status, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, 'manual', 'pending', ?, ?)`
+    )
+    .bind(reminder.id, userId, bookmarkId, remindAt, note, now, now)
+    .run()
+
+  return reminder
+}
+
+/**
+ * 取消书签的待处理提醒
+ */
+export async function clearBookmarkReminder(db: D1Database, userId: string, bookmarkId: string): Promise<boolean> {
+  const result = await db
+    .prepare(`DELETE FROM bookmark_reminders WHERE bookmark_id = ? AND user_id = ? AND status = 'pending'`)
+    .bind(bookmarkId, userId)
+    .run()
+  return Boolean(result.meta.changes)
+}
+
+/**
+ * 列出待处理提醒（附带书签信息），dueOnly 时只返回已到期的
+ */
+export async function listPendingReminders(
+  db: D1Database,
+  userId: string,
+  options: { dueOnly?: boolean; now?: string; limit?: number } = {}
+): Promise<ReminderWithBookmark[]> {
+  const conditions = [`r.user_id = ?`, `r.status = 'pending'`, 'b.deleted_at IS NULL']
+  const params: (string | number)[] = [userId]
+
+  if (options.dueOnly) {
+    conditions.push('r.remind_at <= ?')
+    params.push(options.now ?? new Date().toISOString())
+  }
+
+  params.push(options.limit ?? MAX_DUE_REMINDERS)
+
+  const { results } = await db
+    .prepare(
+      `SELECT ${REMINDER_COLUMNS},
+              b.title AS bookmark_title, b.url AS bookmark_url, b.description AS bookmark_description,
+              b.favicon AS bookmark_favicon, b.click_count AS bookmark_click_count,
+              b.last_clicked_at AS bookmark_last_clicked_at, b.created_at AS bookmark_created_at
+       FROM bookmark_reminders r
+       JOIN bookmarks b ON b.id = r.bookmark_id
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY r.remind_at ASC, r.id ASC
+       LIMIT ?`
+    )
+    .bind(...params)
+    .all<ReminderWithBookmarkRow>()
+
+  return (results || []).map(toReminderWithBookmark)
+}
+
+export async function getReminder(db: D1Database, userId: string, id: string): Promise<BookmarkReminder | null> {
+  return db
+    .prepare(`SELECT ${REMINDER_COLUMNS} FROM bookmark_reminders r WHERE r.id = ? AND r.user_id = ?`)
+    .bind(id, userId)
+    .first<BookmarkReminder>()
+}
+
+/**
+ * 处理提醒：完成、忽略或推迟指定天数
+ */
+export async function applyReminderAction(
+  db: D1Database,
+  reminder: BookmarkReminder,
+  action: ReminderAction,
+  snoozeDays: number
+): Promise<BookmarkReminder> {
+  const now = new Date().toISOString()
+  let updated: BookmarkReminder
+
+  if (action === 'snooze') {
+    updated = { ...reminder, status: 'pending', remind_at: addDays(now, snoozeDays), completed_at: null, updated_at: now }
+  } else {
+    updated = { ...reminder, status: action === 'done' ? 'done' : 'dismissed', completed_at: now, updated_at: now }
+  }
+
+  await db
+    .prepare(
+      `UPDATE bookmark_reminders
+       SET status = ?, remind_at = ?, completed_at = ?, updated_at = ?
+       WHERE id = ?`
+    )
+    .bind(updated.status, updated.remind_at, updated.completed_at, updated.updated_at, reminder.id)
+    .run()
+
+  return updated
+}
+
+export async function getResurfacingSettings(db: D1Database, userId: string): Promise<ResurfacingSettings> {
+  const row = await db
+    .prepare(
+      `SELECT enabled, interval_days, batch_size, min_age_days, last_run_at
+       FROM resurfacing_settings
+       WHERE user_id = ?`
+    )
+    .bind(userId)
+    .first<ResurfacingSettingsRow>()
+
+  if (!row) {
+    return { ...DEFAULT_RESURFACING_SETTINGS }
+  }
+
+  return {
+    enabled: row.enabled === 1,
+    interval_days: row.interval_days,
+    batch_size: row.batch_size,
+    min_age_days: row.min_age_days,
+    last_run_at: row.last_run_at,
+  }
+}
+
+/**
+ * 校验自动重温设置，未提供的字段沿用当前值
+ */
+export function validateResurfacingSettings(
+  input: Record<string, unknown>,
+  current: ResurfacingSettings
+): ResurfacingSettingsResult {
+  const settings = { ...current }
+
+  if (input.enabled !== undefined) {
+    if (typeof input.enabled !== 'boolean') {
+      return { success: false, message: 'enabled must be a boolean' }
+    }
+    settings.enabled = input.enabled
+  }
+
+  for (const key of Object.keys(RESURFACING_LIMITS) as (keyof typeof RESURFACING_LIMITS)[]) {
+    const value = input[key]
+    if (value === undefined) continue
+
+    const { min, max } = RESURFACING_LIMITS[key]
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+      return { success: false, message: `${key} must be an integer between ${min} and ${max}` }
+    }
+    settings[key] = value
+  }
+
+  return { success: true, settings }
+}
+
+export async function saveResurfacingSettings(
+  db: D1Database,
+  userId: string,
+  settings: ResurfacingSettings
+): Promise<void> {
+  await db
+    .prepare(
+      `INSERT INTO resurfacing_settings (user_id, enabled, interval_days, batch_size, min_age_days, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT(user_id) DO UPDATE SET
+         enabled = excluded.enabled,
+         interval_days = excluded.interval_days,
+         batch_size = excluded.batch_size,
+         min_age_days = excluded.min_age_days,
+         updated_at = excluded.updated_at`
+    )
+    .bind(
+      userId,
+      settings.enabled ? 1 : 0,
+      settings.interval_days,
+      settings.batch_size,
+      settings.min_age_days,
+      new Date().toISOString()
+    )
+    .run()
+}
+
+/**
+ * 到达重温间隔时挑选被遗忘的书签生成提醒，返回新生成的数量
+ *
+ * 候选：未归档、创建超过 min_age_days、最近 min_age_days 内没有点击、冷却期内没有提醒记录；
+ * 按点击次数升序、最后访问时间（从未访问则用创建时间）升序排列。
+ */
+export async function runResurfacingIfDue(db: D1Database, userId: string, now: string): Promise<number> {
+  const settings = await getResurfacingSettings(db, userId)
+  if (!settings.enabled) {
+    return 0
+  }
+
+  // 用条件更新 last_run_at 抢占本轮执行，避免并发请求重复生成
+  const claim = await db
+    .prepare(
+      `UPDATE resurfacing_settings
+       SET last_run_at = ?
+       WHERE user_id = ? AND enabled = 1 AND (last_run_at IS NULL OR last_run_at <= ?)`
+    )
+    .bind(now, userId, addDays(now, -settings.interval_days))
+    .run()
+
+  if (!claim.meta.changes) {
+    return 0
+  }
+
+  const cutoff = addDays(now, -settings.min_age_days)
+  const { results } = await db
+    .prepare(
+      `SELECT b.id
+       FROM bookmarks b
+       WHERE b.user_id = ? AND b.deleted_at IS NULL AND b.is_archived = 0
+         AND b.created_at <= ?
+         AND (b.last_clicked_at IS NULL OR b.last_clicked_at <= ?)
+         AND NOT EXISTS (
+           SELECT 1 FROM bookmark_reminders r
+           WHERE r.bookmark_id = b.id AND (r.status = 'pending' OR r.updated_at >= ?)
+         )
+       ORDER BY b.click_count ASC, COALESCE(b.last_clicked_at, b.created_at) ASC
+       LIMIT ?`
+    )
+    .bind(userId, cutoff, cutoff, addDays(now, -RESURFACE_COOLDOWN_DAYS), settings.batch_size)
+    .all<{ id: string }>()
+
+  const candidates = results || []
+  if (candidates.length === 0) {
+    return 0
+  }
+
+  await db.batch(
+    candidates.map((bookmark) =>
+      db
+        .prepare(
+          `INSERT OR IGNORE INTO bookmark_reminders (id, user_id, bookmark_id, remind_at, source, status, created_at, updated_at)
+           VALUES (?, ?, ?, ?, 'resurface', 'pending', ?, ?)`
+        )
+        .bind(generateUUID(), userId, bookmark.id, now, now, now)
+    )
+  )
+
+  return candidates.length
+}
+
+/**
+ * 获取到期提醒（先执行到期的自动重温）
+ */
+export async function getDueReminders(db: D1Database, userId: string): Promise<ReminderWithBookmark[]> {
+  const now = new Date().toISOString()
+
+  try {
+    await runResurfacingIfDue(db, userId, now)
+  } catch (error) {
+    // 自动重温失败不影响手动提醒的返回
+    console.error('Resurfacing error:', error)
+  }
+
+  return listPendingReminders(db, userId, { dueOnly: true, now })
+}
@@ -0,0 +1,326 @@
+import type { SQLParam } from './types'
+import { buildTermsSearch } from './search'
+
+/**
+ * 书签搜索查询语言
+ *
+ * 支持的语法（可任意组合，空格分隔表示 AND，前缀 "-" 表示取反）：
+ *   react hooks           自由文本（FTS 全文匹配）
+ *   "state management"    短语
+ *   tag:dev  -tag:old     标签（名称不区分大小写，含空格时用引号：tag:"machine learning"）
+ *   site:github.com       域名（包含子域名）
+ *   is:pinned | is:archived | is:public | is:private
+ *   has:snapshot | has:description | has:cover
+ *   before:2025-01-01     创建时间早于该日期（不含）
+ *   after:2025-01-01      创建时间不早于该日期（含）
+ *   clicks:>10            点击次数（支持 > >= < <= =，省略运算符表示 =）
+ */
+
+export type SearchIsValue = 'pinned' | 'archived' | 'public' | 'private'
+export type SearchHasValue = 'snapshot' | 'description' | 'cover'
+export type SearchComparisonOperator = '>' | '>=' | '<' | '<=' | '='
+
+export type SearchQueryNode =
+  | { type: 'text'; value: string; phrase: boolean; negated: boolean }
+  | { type: 'tag'; value: string; negated: boolean }
+  | { type: 'site'; value: string; negated: boolean }
+  | { type: 'is'; value: SearchIsValue; negated: boolean }
+  | { type: 'has'; value: SearchHasValue; negated: boolean }
+  | { type: 'date'; field: 'before' | 'after'; value: string; negated: boolean }
+  | { type: 'clicks'; operator: SearchComparisonOperator; value: number; negated: boolean }
+
+export interface SearchQuery {
+  nodes: SearchQueryNode[]
+}
+
+export interface SearchQueryParseError {
+  message: string
+  /** 出错位置（字符下标） */
+  position: number
+  token: string
+}
+
+export type SearchQueryParseResult =
+  | { success: true; query: SearchQuery }
+  | { success: false; error: SearchQueryParseError }
+
+export interface CompiledSearchQuery {
+  /** 额外的 SELECT 列（FTS 排名与高亮） */
+  select: string
+  /** FTS 表连接子句 */
+  join: string
+  conditions: string[]
+  params: SQLParam[]
+  /** 是否可按相关度（BM25）排序 */
+  ranked: boolean
+  /** 查询中显式包含 is:archived，调用方不应再追加默认的归档过滤 */
+  filtersArchived: boolean
+}
+
+const IS_VALUES: readonly SearchIsValue[] = ['pinned', 'archived', 'public', 'private']
+const HAS_VALUES: readonly SearchHasValue[] = ['snapshot', 'description', 'cover']
+const OPERATOR_KEYS = ['tag', 'site', 'is', 'has', 'before', 'after', 'clicks'] as const
+type OperatorKey = (typeof OPERATOR_KEYS)[number]
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const CLICKS_PATTERN = /^(>=|<=|>|<|=)?(\d+)$/
+const SITE_PATTERN = /^[a-z0-9.-]+$/i
+
+function isOperatorKey(key: string): key is OperatorKey {
+  return (OPERATOR_KEYS as readonly string[]).includes(key)
+}
+
+function isValidDate(value: string): boolean {
+  if (!DATE_PATTERN.test(value)) return false
+  const date = new Date(`${value}T00:00:00Z`)
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value)
+}
+
+/**
+ * 读取引号包裹的字符串，返回内容与结束位置
+ */
+function readQuoted(
+  input: string,
+  start: number
+): { value: string; end: number } | null {
+  const close = input.indexOf('"', start + 1)
+  if (close === -1) return null
+  return { value: input.slice(start + 1, close), end: close + 1 }
+}
+
+/**
+ * 读取到下一个空白字符为止
+ */
+function readWord(input: string, start: number): { value: string; end: number } {
+  let end = start
+  while (end < input.length && !/\s/.test(input[end]!)) {
+    end++
+  }
+  return { value: input.slice(start, end), end }
+}
+
+function buildOperatorNode(
+  key: OperatorKey,
+  value: string,
+  negated: boolean
+): SearchQueryNode | string {
+  switch (key) {
+    case 'tag':
+      return { type: 'tag', value, negated }
+    case 'site': {
+      const host = value.toLowerCase().replace(/^www\./, '')
+      if (!SITE_PATTERN.test(host)) return `Invalid domain "${value}"`
+      return { type: 'site', value: host, negated }
+    }
+    case 'is': {
+      const normalized = value.toLowerCase()
+      if (!(IS_VALUES as readonly string[]).includes(normalized)) {
+        return `Unknown value "${value}" for is:, expected one of ${IS_VALUES.join(', ')}`
+      }
+      return { type: 'is', value: normalized as SearchIsValue, negated }
+    }
+    case 'has': {
+      const normalized = value.toLowerCase()
+      if (!(HAS_VALUES as readonly string[]).includes(normalized)) {
+        return `Unknown value "${value}" for has:, expected one of ${HAS_VALUES.join(', ')}`
+      }
+      return { type: 'has', value: normalized as SearchHasValue, negated }
+    }
+    case 'before':
+    case 'after':
+      if (!isValidDate(value)) return `Invalid date "${value}", expected YYYY-MM-DD`
+      return { type: 'date', field: key, value, negated }
+    case 'clicks': {
+      const match = CLICKS_PATTERN.exec(value)
+      if (!match) return `Invalid click count "${value}", expected e.g. clicks:>10`
+      return {
+        type: 'clicks',
+        operator: (match[1] as SearchComparisonOperator | undefined) ?? '=',
+        value: Number(match[2]),
+        negated,
+      }
+    }
+  }
+}
+
+/**
+ * 解析搜索查询字符串为 AST
+ */
+export function parseSearchQuery(input: string): SearchQueryParseResult {
+  const nodes: SearchQueryNode[] = []
+  let position = 0
+
+  const fail = (message: string, at: number, token: string): SearchQueryParseResult => ({
+    success: false,
+    error: { message, position: at, token },
+  })
+
+  while (position < input.length) {
+    if (/\s/.test(input[position]!)) {
+      position++
+      continue
+    }
+
+    const tokenStart = position
+    let negated = false
+    if (input[position] === '-' && position + 1 < input.length && !/\s/.test(input[position + 1]!)) {
+      negated = true
+      position++
+    }
+
+    // 短语
+    if (input[position] === '"') {
+      const quoted = readQuoted(input, position)
+      if (!quoted) {
+        return fail('Unterminated quote', position, input.slice(position))
+      }
+      const value = quoted.value.trim()
+      if (value) {
+        nodes.push({ type: 'text', value, phrase: true, negated })
+      }
+      position = quoted.end
+      continue
+    }
+
+    // 运算符 key:value
+    const operatorMatch = /^([a-z]+):/i.exec(input.slice(position))
+    const key = operatorMatch?.[1]?.toLowerCase()
+    if (operatorMatch && key && isOperatorKey(key)) {
+      const valueStart = position + operatorMatch[0].length
+      let value: string
+      let end: number
+
+      if (input[valueStart] === '"') {
+        const quoted = readQuoted(input, valueStart)
+        if (!quoted) {
+          return fail('Unterminated quote', valueStart, input.slice(tokenStart))
+        }
+        value = quoted.value.trim()
+        end = quoted.end
+      } else {
+        const word = readWord(input, valueStart)
+        value = word.value
+        end = word.end
+      }
+
+      const token = input.slice(tokenStart, end)
+      if (!value) {
+        return fail(`Missing value for ${key}:`, tokenStart, token)
+      }
+
+      const node = buildOperatorNode(key, value, negated)
+      if (typeof node === 'string') {
+        return fail(node, tokenStart, token)
+      }
+
+      nodes.push(node)
+      position = end
+      continue
+    }
+
+    // 自由文本
+    const word = readWord(input, position)
+    nodes.push({ type: 'text', value: word.value, phrase: false, negated })
+    position = word.end
+  }
+
+  return { success: true, query: { nodes } }
+}
+
+/**
+ * 将 AST 编译为参数化 SQL 片段
+ *
+ * @param query - parseSearchQuery 的结果
+ * @param alias - bookmarks 表别名
+ */
+export function compileSearchQuery(query: SearchQuery, alias = 'b'): CompiledSearchQuery {
+  const conditions: string[] = []
+  const params: SQLParam[] = []
+  const positiveTerms: string[] = []
+  let filtersArchived = false
+
+  const push = (negated: boolean, condition: string, ...values: SQLParam[]) => {
+    conditions.push(negated ? `NOT ${condition}` : condition)
+    params.push(...values)
+  }
+
+  for (const node of query.nodes) {
+    switch (node.type) {
+      case 'text': {
+        if (!node.negated) {
+          positiveTerms.push(node.value)
+          break
+        }
+        const pattern = `%${node.value}%`
+        push(true, `(${alias}.title LIKE ? OR ${alias}.description LIKE ? OR ${alias}.url LIKE ?)`, pattern, pattern, pattern)
+        break
+      }
+      case 'tag':
+        push(
+          node.negated,
+          `EXISTS (
+            SELECT 1 FROM bookmark_tags qbt
+            INNER JOIN tags qt ON qt.id = qbt.tag_id
+            WHERE qbt.bookmark_id = ${alias}.id AND qt.deleted_at IS NULL AND LOWER(qt.name) = LOWER(?)
+          )`,
+          node.value
+        )
+        break
+      case 'site':
+        push(
+          node.negated,
+          `(${alias}.url LIKE ? OR ${alias}.url LIKE ? OR ${alias}.url LIKE ? OR ${alias}.url LIKE ?)`,
+          `%://${node.value}`,
+          `%://${node.value}/%`,
+          `%://%.${node.value}`,
+          `%://%.${node.value}/%`
+        )
+        break
+      case 'is':
+        switch (node.value) {
+          case 'pinned':
+            push(false, `${alias}.is_pinned = ?`, node.negated ? 0 : 1)
+            break
+          case 'archived':
+            filtersArchived = true
+            push(false, `${alias}.is_archived = ?`, node.negated ? 0 : 1)
+            break
+          case 'public':
+          case 'private':
+            push(false, `${alias}.is_public = ?`, (node.value === 'public') !== node.negated ? 1 : 0)
+            break
+        }
+        break
+      case 'has':
+        switch (node.value) {
+          case 'snapshot':
+            push(node.negated, `(${alias}.has_snapshot = 1)`)
+            break
+          case 'description':
+            push(node.negated, `(${alias}.description IS NOT NULL AND ${alias}.description != '')`)
+            break
+          case 'cover':
+            push(node.negated, `(${alias}.cover_image IS NOT NULL AND ${alias}.cover_image != '')`)
+            break
+        }
+        break
+      case 'date':
+        push(node.negated, `(${alias}.created_at ${node.field === 'before' ? '<' : '>='} ?)`, node.value)
+        break
+      case 'clicks':
+        push(node.negated, `(${alias}.click_count ${node.operator} ?)`, node.value)
+        break
+    }
+  }
+
+  const termsSearch = buildTermsSearch(positiveTerms, alias)
+
+  return {
+    select: termsSearch.select,
+    join: termsSearch.join,
+    conditions: [...termsSearch.conditions, ...conditions],
+    params: [...termsSearch.params, ...params],
+    ranked: termsSearch.ranked,
+    filtersArchived,
+  }
+}
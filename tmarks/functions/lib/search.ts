@@ -0,0 +1,109 @@
+import type { SQLParam } from './types'
+
+/**
+ * 书签全文搜索（SQLite FTS5）
+ *
+ * bookmarks_fts 使用 trigram 分词器，按子串匹配（天然覆盖前缀匹配，且支持中文），
+ * 由 migrations/0102 中的触发器与 bookmarks / bookmark_tags / tags 保持同步。
+ * trigram 无法索引不足 3 个字符的词项，这类词项回退为 LIKE 匹配。
+ */
+
+const FTS_MIN_TERM_LENGTH = 3
+
+/** BM25 列权重：title, description, url, tags */
+const BM25_WEIGHTS = '10.0, 4.0, 2.0, 6.0'
+
+export const HIGHLIGHT_OPEN = '<mark>'
+export const HIGHLIGHT_CLOSE = '</mark>'
+
+export interface SearchHighlights {
+  title: string | null
+  description: string | null
+}
+
+export interface SearchRankColumns {
+  search_rank?: number | null
+  title_highlight?: string | null
+  description_highlight?: string | null
+}
+
+export interface KeywordSearchSql {
+  /** 额外的 SELECT 列（以逗号开头，未使用 FTS 时为空字符串） */
+  select: string
+  /** FTS 表连接子句 */
+  join: string
+  /** WHERE 条件 */
+  conditions: string[]
+  /** 条件参数，与 conditions 顺序一致 */
+  params: SQLParam[]
+  /** 是否可按相关度（BM25）排序 */
+  ranked: boolean
+}
+
+/**
+ * 将词项转为 FTS5 短语（转义内部双引号）
+ */
+function toFtsPhrase(term: string): string {
+  return `"${term.replace(/"/g, '""')}"`
+}
+
+/**
+ * 构建全文搜索的 SQL 片段
+ *
+ * @param terms - 已拆分的搜索词（短语不含引号），见 search-query.ts
+ * @param alias - bookmarks 表别名
+ */
+export function buildTermsSearch(terms: string[], alias = 'b'): KeywordSearchSql {
+  const ftsTerms = terms.filter(term => term.length >= FTS_MIN_TERM_LENGTH)
+  const likeTerms = terms.filter(term => term.length < FTS_MIN_TERM_LENGTH)
+
+  const conditions: string[] = []
+  const params: SQLParam[] = []
+
+  if (ftsTerms.length > 0) {
+    conditions.push('bookmarks_fts MATCH ?')
+    params.push(ftsTerms.map(toFtsPhrase).join(' '))
+  }
+
+  for (const term of likeTerms) {
+    conditions.push(`(${alias}.title LIKE ? OR ${alias}.description LIKE ? OR ${alias}.url LIKE ?)`)
+    const searchPattern = `%${term}%`
+    params.push(searchPattern, searchPattern, searchPattern)
+  }
+
+  if (ftsTerms.length === 0) {
+    return { select: '', join: '', conditions, params, ranked: false }
+  }
+
+  return {
+    select: `,
+        bm25(bookmarks_fts, ${BM25_WEIGHTS}) AS search_rank,
+        highlight(bookmarks_fts, 0, '${HIGHLIGHT_OPEN}', '${HIGHLIGHT_CLOSE}') AS title_highlight,
+        snippet(bookmarks_fts, 1, '${HIGHLIGHT_OPEN}', '${HIGHLIGHT_CLOSE}', '…', 32) AS description_highlight`,
+    join: `INNER JOIN bookmarks_fts ON bookmarks_fts.rowid = ${alias}.rowid`,
+    conditions,
+    params,
+    ranked: true,
+  }
+}
+
+/**
+ * 从查询结果行中剥离排名/高亮列
+ */
+export function extractSearchHighlights<T extends SearchRankColumns>(
+  row: T
+): { row: Omit<T, keyof SearchRankColumns>; highlights: SearchHighlights | null } {
+  const { search_rank, title_highlight, description_highlight, ...rest } = row
+
+  if (search_rank === undefined || search_rank === null) {
+    return { row: rest, highlights: null }
+  }
+
+  return {
+    row: rest,
+    highlights: {
+      title: title_highlight ?? null,
+      description: description_highlight || null,
+    },
+  }
+}
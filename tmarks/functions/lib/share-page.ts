@@ -0,0 +1,286 @@
+/**
+ * 分享页服务端渲染
+ *
+ * - 书签公开分享页：在前端 index.html 中注入标题、描述、Open Graph 标签和书签列表，
+ *   并把完整分享数据嵌入页面，前端 PublicSharePage 启动后直接使用这份数据渲染，不再重复请求
+ * - 标签页组分享页：前端没有对应页面，直接输出独立的 HTML；
+ *   需要密码或链接不可用（已撤销、已过期、达到浏览次数上限）时输出对应的提示页。
+ *   渲染本身不计入浏览次数：GET 渲染的页面由浏览器脚本请求一次 /api/share/:token 计数，
+ *   设置了浏览次数上限的分享需先确认查看（POST）
+ */
+
+import type { PublicSharePayload } from './public-share'
+import { SHARE_ACCESS_ERRORS, type ShareAccessError, type SharedTabGroup } from './tab-group-share'
+import { escapeXml } from './utils'
+
+/** 嵌入分享数据的 script 元素 ID，需与前端 src/services/share.ts 保持一致 */
+export const PUBLIC_SHARE_DATA_ELEMENT_ID = 'tmarks-public-share'
+
+/** 服务端渲染的书签数量上限，其余书签由前端分页显示 */
+const SSR_BOOKMARK_LIMIT = 100
+
+const SITE_NAME = 'TMarks'
+
+interface PageMeta {
+  title: string
+  description: string
+  url: string
+  type: 'website' | 'article'
+}
+
+function renderMetaTags(meta: PageMeta): string {
+  const title = escapeXml(meta.title)
+  const description = escapeXml(meta.description)
+  const url = escapeXml(meta.url)
+  return [
+    `<meta name="description" content="${description}" />`,
+    `<link rel="canonical" href="${url}" />`,
+    `<meta property="og:site_name" content="${SITE_NAME}" />`,
+    `<meta property="og:type" content="${meta.type}" />`,
+    `<meta property="og:title" content="${title}" />`,
+    `<meta property="og:description" content="${description}" />`,
+    `<meta property="og:url" content="${url}" />`,
+    '<meta name="twitter:card" content="summary" />',
+    `<meta name="twitter:title" content="${title}" />`,
+    `<meta name="twitter:description" content="${description}" />`,
+  ].join('\n    ')
+}
+
+/** 只为 http(s) 地址生成链接，其他协议（如 javascript:）按纯文本显示 */
+function renderLink(url: string, text: string, className?: string): string {
+  const label = escapeXml(text || url)
+  if (!/^https?:\/\//i.test(url)) {
+    return `<span${className ? ` class="${className}"` : ''}>${label}</span>`
+  }
+  return `<a href="${escapeXml(url)}" rel="noopener" title="${escapeXml(url)}"${className ? ` class="${className}"` : ''}>${label}</a>`
+}
+
+/** 嵌入 script 元素的 JSON 需要转义 <，避免提前闭合标签 */
+function serializeForScript(value: unknown): string {
+  return JSON.stringify(value).replace(/</g, '\\u003c')
+}
+
+function getPublicShareMeta(payload: PublicSharePayload, origin: string): PageMeta {
+  const { profile } = payload
+  const title = profile.title || `${profile.username}'s bookmarks`
+  return {
+    title,
+    description: profile.description || `${payload.bookmarks.length} public bookmarks shared by ${profile.username}`,
+    url: `${origin}/share/${encodeURIComponent(profile.slug)}`,
+    type: 'website',
+  }
+}
+
+function renderPublicShareMarkup(payload: PublicSharePayload, meta: PageMeta): string {
+  const items = payload.bookmarks.slice(0, SSR_BOOKMARK_LIMIT).map((bookmark) => {
+    const parts = [
+      renderLink(bookmark.url, bookmark.title, 'font-medium text-foreground hover:text-primary'),
+    ]
+    if (bookmark.description) {
+      parts.push(`<p class="text-sm text-muted-foreground mt-1">${escapeXml(bookmark.description)}</p>`)
+    }
+    if (bookmark.tags.length > 0) {
+      parts.push(
+        `<p class="text-xs text-muted-foreground mt-1">${bookmark.tags.map((tag) => `#${escapeXml(tag.name)}`).join(' ')}</p>`
+      )
+    }
+    return `<li class="card">${parts.join('')}</li>`
+  })
+
+  const feedBase = `${meta.url}/feed`
+  return [
+    '<main class="container mx-auto px-4 py-8">',
+    '<header class="mb-6">',
+    `<h1 class="text-2xl font-bold text-primary">${escapeXml(meta.title)}</h1>`,
+    payload.profile.description
+      ? `<p class="text-sm text-muted-foreground mt-1">${escapeXml(payload.profile.description)}</p>`
+      : '',
+    '</header>',
+    `<ul class="space-y-3">${items.join('')}</ul>`,
+    `<p class="text-sm text-muted-foreground mt-6"><a href="${escapeXml(`${feedBase}.xml`)}">Atom</a> · <a href="${escapeXml(`${feedBase}.xml?format=rss`)}">RSS</a> · <a href="${escapeXml(`${feedBase}.json`)}">JSON Feed</a></p>`,
+    '</main>',
+  ].join('')
+}
+
+/**
+ * 基于前端 index.html 渲染书签公开分享页
+ */
+export function renderPublicSharePage(request: Request, page: Response, payload: PublicSharePayload): Response {
+  const origin = new URL(request.url).origin
+  const meta = getPublicShareMeta(payload, origin)
+  const feedBase = `${meta.url}/feed`
+
+  const head = [
+    renderMetaTags(meta),
+    `<link rel="alternate" type="application/atom+xml" title="${escapeXml(meta.title)}" href="${escapeXml(`${feedBase}.xml`)}" />`,
+    `<link rel="alternate" type="application/rss+xml" title="${escapeXml(meta.title)}" href="${escapeXml(`${feedBase}.xml?format=rss`)}" />`,
+    `<link rel="alternate" type="application/feed+json" title="${escapeXml(meta.title)}" href="${escapeXml(`${feedBase}.json`)}" />`,
+    `<script type="application/json" id="${PUBLIC_SHARE_DATA_ELEMENT_ID}">${serializeForScript(payload)}</script>`,
+  ].join('\n    ')
+
+  const transformed = new HTMLRewriter()
+    .on('title', {
+      element(element) {
+        element.setInnerContent(`${meta.title} · ${SITE_NAME}`)
+      },
+    })
+    .on('head', {
+      element(element) {
+        element.append(head, { html: true })
+      },
+    })
+    .on('div#root', {
+      element(element) {
+        element.setInnerContent(renderPublicShareMarkup(payload, meta), { html: true })
+      },
+    })
+    .transform(page)
+
+  const response = new Response(transformed.body, transformed)
+  response.headers.set('Content-Type', 'text/html; charset=utf-8')
+  response.headers.set('Cache-Control', 'public, max-age=300')
+  response.headers.delete('Content-Length')
+  response.headers.delete('ETag')
+  return response
+}
+
+const TAB_GROUP_PAGE_STYLE = `
+      body { margin: 0; font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "PingFang SC", "Microsoft YaHei", sans-serif; background: #f8fafc; color: #0f172a; }
+      main { max-width: 760px; margin: 0 auto; padding: 40px 20px; }
+      h1 { margin: 0 0 4px; font-size: 24px; }
+      .meta { color: #64748b; font-size: 14px; margin-bottom: 24px; }
+      ul { list-style: none; margin: 0; padding: 0; }
+      li { display: flex; align-items: center; gap: 10px; padding: 10px 12px; background: #fff; border: 1px solid #e2e8f0; border-radius: 10px; margin-bottom: 8px; }
+      li img { width: 16px; height: 16px; flex-shrink: 0; }
+      li a { color: inherit; text-decoration: none; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+      li a:hover { color: #2563eb; }
+      footer { margin-top: 24px; color: #94a3b8; font-size: 12px; }
+      .notice { max-width: 420px; margin: 80px auto 0; text-align: center; }
+      .notice p { color: #64748b; }
+      form { display: flex; gap: 8px; margin-top: 20px; }
+      input { flex: 1; padding: 10px 12px; border: 1px solid #cbd5e1; border-radius: 8px; font-size: 14px; background: inherit; color: inherit; }
+      button { padding: 10px 16px; border: 0; border-radius: 8px; background: #2563eb; color: #fff; font-size: 14px; cursor: pointer; }
+      .error { color: #dc2626; font-size: 14px; margin-top: 12px; }
+      @media (prefers-color-scheme: dark) {
+        body { background: #0f172a; color: #e2e8f0; }
+        li { background: #1e293b; border-color: #334155; }
+        input { border-color: #334155; }
+      }`
+
+function renderStandalonePage(title: string, head: string, body: string, status = 200): Response {
+  const html = `<!doctype html>
+<html>
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${escapeXml(title)} · ${SITE_NAME}</title>
+    ${head}
+    <style>${TAB_GROUP_PAGE_STYLE}
+    </style>
+  </head>
+  <body>
+    <main>
+      ${body}
+      <footer>${SITE_NAME}</footer>
+    </main>
+  </body>
+</html>`
+
+  return new Response(html, {
+    status,
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Cache-Control': 'no-store',
+    },
+  })
+}
+
+/**
+ * 渲染标签页组分享页（独立 HTML）
+ */
+export function renderTabGroupSharePage(request: Request, shareToken: string, shared: SharedTabGroup): Response {
+  const origin = new URL(request.url).origin
+  const group = shared.tab_group
+  const meta: PageMeta = {
+    title: group.title || 'Shared tabs',
+    description: `${group.item_count} tabs: ${group.items.slice(0, 5).map((item) => item.title || item.url).join(', ')}`,
+    url: `${origin}/share/${encodeURIComponent(shareToken)}`,
+    type: 'article',
+  }
+
+  const items = group.items.map((item) => {
+    const favicon = item.favicon && /^(https?:|data:image\/)/i.test(item.favicon) ? `<img src="${escapeXml(item.favicon)}" alt="" loading="lazy" />` : ''
+    return `<li>${favicon}${renderLink(item.url, item.title)}</li>`
+  })
+
+  const body = [
+    `<h1>${escapeXml(meta.title)}</h1>`,
+    `<div class="meta">${group.item_count} tabs${group.tags && group.tags.length > 0 ? ` · ${group.tags.map((tag) => `#${escapeXml(tag)}`).join(' ')}` : ''}</div>`,
+    `<ul>${items.join('')}</ul>`,
+  ].join('\n      ')
+
+  // 设置了浏览次数上限或密码的分享不希望被搜索引擎收录
+  const restricted = shared.share_info.max_views !== null || shared.share_info.has_password
+  const head = restricted ? `${renderMetaTags(meta)}\n    <meta name="robots" content="noindex" />` : renderMetaTags(meta)
+
+  // POST（提交密码或确认查看）已经计数；GET 渲染由执行脚本的浏览器计数，链接预览爬虫不会执行
+  const viewBeacon =
+    request.method === 'GET'
+      ? `\n      <script>fetch(${serializeForScript(`/api/share/${encodeURIComponent(shareToken)}`)}, { headers: { Accept: 'application/json' } }).catch(function () {})</script>`
+      : ''
+
+  return renderStandalonePage(meta.title, head, body + viewBeacon)
+}
+
+const SHARE_ERROR_PAGES: Record<ShareAccessError, { title: string; description: string }> = {
+  not_found: { title: 'Share not found', description: 'This share link does not exist.' },
+  private: { title: 'This share is private', description: 'The owner has made this tab group private.' },
+  revoked: { title: 'This link has been revoked', description: 'The owner has stopped sharing this tab group.' },
+  expired: { title: 'This link has expired', description: 'Ask the owner for a new link.' },
+  view_limit_reached: { title: 'View limit reached', description: 'This link has been opened the maximum number of times allowed by its owner.' },
+  password_required: { title: 'Password required', description: 'This tab group is protected. Enter the password to view it.' },
+  invalid_password: { title: 'Password required', description: 'This tab group is protected. Enter the password to view it.' },
+  too_many_attempts: { title: 'Password required', description: 'This tab group is protected. Enter the password to view it.' },
+  view_confirmation_required: { title: 'View shared tabs', description: 'This link can only be opened a limited number of times. Viewing it counts as one view.' },
+}
+
+/**
+ * 渲染标签页组分享的提示页：需要密码时显示密码表单，链接不可用时说明原因
+ */
+export function renderTabGroupShareErrorPage(shareToken: string, error: ShareAccessError): Response {
+  const page = SHARE_ERROR_PAGES[error]
+  const needsPassword = error === 'password_required' || error === 'invalid_password' || error === 'too_many_attempts'
+  const action = escapeXml(`/share/${encodeURIComponent(shareToken)}`)
+
+  const parts = [
+    '<div class="notice">',
+    `<h1>${escapeXml(page.title)}</h1>`,
+    `<p>${escapeXml(page.description)}</p>`,
+  ]
+  if (needsPassword) {
+    parts.push(
+      `<form method="post" action="${action}">`,
+      '<input type="password" name="password" placeholder="Password" autocomplete="current-password" required autofocus />',
+      '<button type="submit">View</button>',
+      '</form>'
+    )
+  }
+  if (error === 'view_confirmation_required') {
+    parts.push(
+      `<form method="post" action="${action}">`,
+      '<button type="submit">View tabs</button>',
+      '</form>'
+    )
+  }
+  if (error === 'invalid_password' || error === 'too_many_attempts') {
+    parts.push(`<p class="error">${escapeXml(SHARE_ACCESS_ERRORS[error].message)}</p>`)
+  }
+  parts.push('</div>')
+
+  return renderStandalonePage(
+    page.title,
+    '<meta name="robots" content="noindex" />',
+    parts.join('\n      '),
+    SHARE_ACCESS_ERRORS[error].status
+  )
+}
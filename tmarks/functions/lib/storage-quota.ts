@@ -1,5 +1,6 @@
 import type { Env } from './types'
 import type { D1Database } from '@cloudflare/workers-types'
+import { loadAppSettingOverrides } from './app-settings'
 
 /**
  * R2 存储配额相关工具
@@ -45,6 +46,21 @@ export function getR2MaxTotalBytes(env: Env): number {
   return parsed
 }
 
+/**
+ * 获取生效的 R2 总配额（字节）
+ *
+ * 管理员在后台设置的覆盖值优先（null 表示不限制），否则使用环境变量
+ */
+export async function getR2QuotaLimitBytes(db: D1Database, env: Env): Promise<number> {
+  const overrides = await loadAppSettingOverrides(db)
+
+  if (overrides.r2_max_total_bytes !== undefined) {
+    return overrides.r2_max_total_bytes ?? Number.POSITIVE_INFINITY
+  }
+
+  return getR2MaxTotalBytes(env)
+}
+
 /**
  * 计算当前在 R2 中的大致占用（字节）
  *
@@ -87,7 +103,7 @@ export async function checkR2Quota(
   env: Env,
   additionalBytes: number
 ): Promise<R2QuotaCheckResult> {
-  const limitBytes = getR2MaxTotalBytes(env)
+  const limitBytes = await getR2QuotaLimitBytes(db, env)
 
   // 无限配额：直接允许
   if (!Number.isFinite(limitBytes)) {
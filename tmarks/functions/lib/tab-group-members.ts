@@ -0,0 +1,271 @@
+/**
+ * 标签页组协作成员
+ * - 所有者可以把标签页组（或 TabGroupTree 中的文件夹）共享给其他用户，成员角色为 viewer（只读）或 editor（可编辑标签页项）
+ * - 共享文件夹时，成员对文件夹下所有子分组拥有相同权限；同一用户在多个层级都有成员关系时取最高角色
+ * - 分组本身的修改、删除、分享链接和成员管理仍然只有所有者可以操作
+ */
+
+import type { D1Database } from '@cloudflare/workers-types'
+import { generateUUID } from './crypto'
+
+export type TabGroupMemberRole = 'viewer' | 'editor'
+
+/** 当前用户对标签页组的访问角色 */
+export type TabGroupAccessRole = 'owner' | TabGroupMemberRole
+
+export const TAB_GROUP_MEMBER_ROLES: TabGroupMemberRole[] = ['viewer', 'editor']
+
+/** 每个标签页组最多的成员数 */
+export const MAX_TAB_GROUP_MEMBERS = 50
+
+/** 沿 parent_id 查找祖先 / 子孙时的最大层级，防止异常数据形成环 */
+const MAX_TREE_DEPTH = 32
+
+export interface TabGroupRow {
+  id: string
+  user_id: string
+  title: string
+  color: string | null
+  tags: string | null
+  parent_id: string | null
+  is_folder: number
+  is_deleted: number
+  deleted_at: string | null
+  position: number
+  created_at: string
+  updated_at: string
+}
+
+export interface TabGroupItemRow {
+  id: string
+  group_id: string
+  title: string
+  url: string
+  favicon: string | null
+  position: number
+  created_at: string
+  is_pinned?: number
+  is_todo?: number
+  is_archived?: number
+  created_by: string | null
+  updated_by: string | null
+  updated_at: string | null
+  created_by_username: string | null
+  updated_by_username: string | null
+}
+
+export interface TabGroupAccess {
+  group: TabGroupRow
+  role: TabGroupAccessRole
+}
+
+export interface TabGroupMember {
+  id: string
+  group_id: string
+  user_id: string
+  username: string
+  role: TabGroupMemberRole
+  invited_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface SharedTabGroupRow extends TabGroupRow {
+  access_role: TabGroupMemberRole
+  owner_username: string
+}
+
+export function isTabGroupMemberRole(value: unknown): value is TabGroupMemberRole {
+  return typeof value === 'string' && TAB_GROUP_MEMBER_ROLES.includes(value as TabGroupMemberRole)
+}
+
+/** 是否可以编辑标签页项（添加、修改、删除、移动） */
+export function canEditTabGroupItems(role: TabGroupAccessRole): boolean {
+  return role === 'owner' || role === 'editor'
+}
+
+/**
+ * 获取用户对标签页组的访问权限，无权访问时返回 null
+ * 所有者可以访问自己的所有分组（包括回收站中的）；成员只能访问未删除的分组
+ */
+export async function getTabGroupAccess(
+  db: D1Database,
+  userId: string,
+  groupId: string
+): Promise<TabGroupAccess | null> {
+  const group = await db.prepare('SELECT * FROM tab_groups WHERE id = ?').bind(groupId).first<TabGroupRow>()
+
+  if (!group) {
+    return null
+  }
+  if (group.user_id === userId) {
+    return { group, role: 'owner' }
+  }
+  if (group.is_deleted) {
+    return null
+  }
+
+  // 成员关系可以设在分组本身或任意一级父文件夹上，祖先链在已删除的文件夹处中断
+  const { results } = await db
+    .prepare(
+      `WITH RECURSIVE ancestors(id, parent_id, depth) AS (
+         SELECT id, parent_id, 0 FROM tab_groups WHERE id = ?
+         UNION ALL
+         SELECT g.id, g.parent_id, a.depth + 1
+         FROM tab_groups g
+         INNER JOIN ancestors a ON g.id = a.parent_id
+         WHERE g.user_id = ? AND g.is_deleted = 0 AND a.depth < ?
+       )
+       SELECT m.role FROM tab_group_members m
+       INNER JOIN ancestors a ON a.id = m.group_id
+       WHERE m.user_id = ?`
+    )
+    .bind(groupId, group.user_id, MAX_TREE_DEPTH, userId)
+    .all<{ role: TabGroupMemberRole }>()
+
+  if (!results || results.length === 0) {
+    return null
+  }
+
+  const role = results.some((row) => row.role === 'editor') ? 'editor' : 'viewer'
+  return { group, role }
+}
+
+/**
+ * 获取共享给用户的标签页组（包括共享文件夹下的子分组），按所有者和位置排序
+ */
+export async function listSharedTabGroups(db: D1Database, userId: string): Promise<SharedTabGroupRow[]> {
+  const { results } = await db
+    .prepare(
+      `WITH RECURSIVE shared(id, owner_id, role, depth) AS (
+         SELECT g.id, g.user_id, m.role, 0
+         FROM tab_group_members m
+         INNER JOIN tab_groups g ON g.id = m.group_id
+         WHERE m.user_id = ? AND g.user_id != ? AND g.is_deleted = 0
+         UNION ALL
+         SELECT g.id, g.user_id, s.role, s.depth + 1
+         FROM tab_groups g
+         INNER JOIN shared s ON g.parent_id = s.id
+         WHERE g.user_id = s.owner_id AND g.is_deleted = 0 AND s.depth < ?
+       )
+       SELECT g.*, u.username AS owner_username,
+              CASE WHEN MAX(s.role = 'editor') = 1 THEN 'editor' ELSE 'viewer' END AS access_role
+       FROM shared s
+       INNER JOIN tab_groups g ON g.id = s.id
+       INNER JOIN users u ON u.id = g.user_id
+       GROUP BY g.id
+       ORDER BY u.username ASC, g.position ASC, g.created_at DESC`
+    )
+    .bind(userId, userId, MAX_TREE_DEPTH)
+    .all<SharedTabGroupRow>()
+
+  return results || []
+}
+
+/**
+ * 获取标签页组的标签页项，附带添加者和最后修改者的用户名
+ */
+export async function listTabGroupItems(db: D1Database, groupId: string): Promise<TabGroupItemRow[]> {
+  const { results } = await db
+    .prepare(
+      `SELECT tgi.*, cu.username AS created_by_username, uu.username AS updated_by_username
+       FROM tab_group_items tgi
+       LEFT JOIN users cu ON cu.id = tgi.created_by
+       LEFT JOIN users uu ON uu.id = tgi.updated_by
+       WHERE tgi.group_id = ?
+       ORDER BY COALESCE(tgi.is_pinned, 0) DESC, tgi.position ASC`
+    )
+    .bind(groupId)
+    .all<TabGroupItemRow>()
+
+  return results || []
+}
+
+export async function listTabGroupMembers(db: D1Database, groupId: string): Promise<TabGroupMember[]> {
+  const { results } = await db
+    .prepare(
+      `SELECT m.id, m.group_id, m.user_id, u.username, m.role, m.invited_by, m.created_at, m.updated_at
+       FROM tab_group_members m
+       INNER JOIN users u ON u.id = m.user_id
+       WHERE m.group_id = ?
+       ORDER BY m.created_at ASC`
+    )
+    .bind(groupId)
+    .all<TabGroupMember>()
+
+  return results || []
+}
+
+export async function getTabGroupMember(
+  db: D1Database,
+  groupId: string,
+  memberId: string
+): Promise<TabGroupMember | null> {
+  return db
+    .prepare(
+      `SELECT m.id, m.group_id, m.user_id, u.username, m.role, m.invited_by, m.created_at, m.updated_at
+       FROM tab_group_members m
+       INNER JOIN users u ON u.id = m.user_id
+       WHERE m.group_id = ? AND m.id = ?`
+    )
+    .bind(groupId, memberId)
+    .first<TabGroupMember>()
+}
+
+/** 按用户名或邮箱（不区分大小写）查找要邀请的用户 */
+export async function findInviteeUser(
+  db: D1Database,
+  identifier: string
+): Promise<{ id: string; username: string } | null> {
+  return db
+    .prepare('SELECT id, username FROM users WHERE LOWER(username) = LOWER(?) OR LOWER(email) = LOWER(?) LIMIT 1')
+    .bind(identifier, identifier)
+    .first<{ id: string; username: string }>()
+}
+
+export type AddMemberResult =
+  | { success: true; member: TabGroupMember }
+  | { success: false; error: 'already_member' | 'limit_reached' }
+
+export async function addTabGroupMember(
+  db: D1Database,
+  group: TabGroupRow,
+  invitee: { id: string; username: string },
+  role: TabGroupMemberRole
+): Promise<AddMemberResult> {
+  const now = new Date().toISOString()
+  const id = generateUUID()
+
+  // 数量限制和唯一约束在同一条语句中检查，避免并发邀请超出上限
+  const result = await db
+    .prepare(
+      `INSERT INTO tab_group_members (id, group_id, user_id, role, invited_by, created_at, updated_at)
+       SELECT ?, ?, ?, ?, ?, ?, ?
+       WHERE (SELECT COUNT(*) FROM tab_group_members WHERE group_id = ?) < ?
+       ON CONFLICT(group_id, user_id) DO NOTHING`
+    )
+    .bind(id, group.id, invitee.id, role, group.user_id, now, now, group.id, MAX_TAB_GROUP_MEMBERS)
+    .run()
+
+  if (!result.meta.changes) {
+    const existing = await db
+      .prepare('SELECT id FROM tab_group_members WHERE group_id = ? AND user_id = ?')
+      .bind(group.id, invitee.id)
+      .first<{ id: string }>()
+    return { success: false, error: existing ? 'already_member' : 'limit_reached' }
+  }
+
+  return {
+    success: true,
+    member: {
+      id,
+      group_id: group.id,
+      user_id: invitee.id,
+      username: invitee.username,
+      role,
+      invited_by: group.user_id,
+      created_at: now,
+      updated_at: now,
+    },
+  }
+}
@@ -0,0 +1,500 @@
+/**
+ * 标签页组分享链接
+ * - 分享设置的校验、创建/更新、重新生成令牌和撤销，供 /api/v1 与 /api/tab 下的分享接口共用
+ * - 按令牌读取分享内容，供 /api/share/:token 与服务端渲染的分享页（/share/:token）共用
+ * - 浏览次数只在访问者明确请求内容时增加：客户端请求 /api/share/:token、提交密码或确认查看的 POST；
+ *   服务端渲染的 GET、HEAD 请求和已知爬虫（链接预览）不计数
+ *
+ * 每个标签页组只有一条分享记录；撤销后记录保留，访问旧链接时可以明确提示“已撤销”
+ */
+
+import type { D1Database } from '@cloudflare/workers-types'
+import type { Env } from './types'
+import { generateNanoId, generateUUID, hashPassword, verifyPassword } from './crypto'
+import { checkRateLimit } from './rate-limit'
+
+export interface ShareRow {
+  id: string
+  group_id: string
+  user_id: string
+  share_token: string
+  is_public: number
+  view_count: number
+  created_at: string
+  expires_at: string | null
+  password_hash: string | null
+  max_views: number | null
+  revoked_at: string | null
+  updated_at: string | null
+}
+
+interface TabGroupRow {
+  id: string
+  title: string
+  color: string | null
+  tags: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface SharedTabGroupItem {
+  id: string
+  group_id: string
+  title: string
+  url: string
+  favicon: string | null
+  position: number
+  is_pinned: number
+  is_todo: number
+  created_at: string
+}
+
+/** 分享内容只返回分享页展示的字段，不包含所有者和协作者的用户 ID（user_id、created_by、updated_by） */
+const SHARED_GROUP_COLUMNS = 'id, title, color, tags, created_at, updated_at'
+const SHARED_ITEM_COLUMNS = 'id, group_id, title, url, favicon, position, is_pinned, is_todo, created_at'
+
+export interface SharedTabGroup {
+  tab_group: Omit<TabGroupRow, 'tags'> & {
+    tags: string[] | null
+    items: SharedTabGroupItem[]
+    item_count: number
+  }
+  share_info: {
+    view_count: number
+    max_views: number | null
+    has_password: boolean
+    created_at: string
+    expires_at: string | null
+  }
+}
+
+/** 分享链接的状态，只有 active 可以访问 */
+export type ShareStatus = 'active' | 'private' | 'revoked' | 'expired' | 'view_limit_reached'
+
+/** 访问分享失败的原因 */
+export type ShareAccessError =
+  | Exclude<ShareStatus, 'active'>
+  | 'not_found'
+  | 'password_required'
+  | 'invalid_password'
+  | 'too_many_attempts'
+  | 'view_confirmation_required'
+
+export type SharedTabGroupResult =
+  | { success: true; data: SharedTabGroup }
+  | { success: false; error: ShareAccessError; message: string }
+
+/** 各失败原因对应的 HTTP 状态码、错误码和说明 */
+export const SHARE_ACCESS_ERRORS: Record<ShareAccessError, { status: number; code: string; message: string }> = {
+  not_found: { status: 404, code: 'SHARE_NOT_FOUND', message: 'Share not found' },
+  private: { status: 404, code: 'SHARE_PRIVATE', message: 'Share is private' },
+  revoked: { status: 410, code: 'SHARE_REVOKED', message: 'Share has been revoked' },
+  expired: { status: 410, code: 'SHARE_EXPIRED', message: 'Share has expired' },
+  view_limit_reached: { status: 410, code: 'SHARE_VIEW_LIMIT_REACHED', message: 'Share has reached its view limit' },
+  password_required: { status: 401, code: 'SHARE_PASSWORD_REQUIRED', message: 'Password required' },
+  invalid_password: { status: 401, code: 'SHARE_INVALID_PASSWORD', message: 'Invalid password' },
+  too_many_attempts: { status: 429, code: 'SHARE_TOO_MANY_ATTEMPTS', message: 'Too many password attempts, please try again later' },
+  view_confirmation_required: { status: 403, code: 'SHARE_VIEW_CONFIRMATION_REQUIRED', message: 'Confirm to view this share' },
+}
+
+/** 有效期上限（天） */
+export const SHARE_MAX_EXPIRES_DAYS = 365
+/** 浏览次数上限的最大值 */
+export const SHARE_MAX_VIEWS_LIMIT = 1000000
+export const SHARE_PASSWORD_MIN_LENGTH = 4
+export const SHARE_PASSWORD_MAX_LENGTH = 128
+
+/** 链接预览、搜索引擎等爬虫的 User-Agent，访问分享时不计入浏览次数 */
+const BOT_USER_AGENT_PATTERN =
+  /bot\b|crawler|spider|slurp|preview|facebookexternalhit|facebookcatalog|embedly|whatsapp|vkshare|pinterest|quora link|outbrain|headlesschrome|curl\/|wget\//i
+
+/** 同一 IP 对同一分享的密码尝试次数限制 */
+const PASSWORD_ATTEMPT_LIMIT = 10
+const PASSWORD_ATTEMPT_WINDOW = 15 * 60
+
+/**
+ * 分享设置。字段省略表示保持原值，expires_in_days / password / max_views 为 null 表示取消对应限制
+ */
+export interface ShareSettings {
+  is_public?: boolean
+  expires_in_days?: number | null
+  password?: string | null
+  max_views?: number | null
+}
+
+export type ParseShareSettingsResult =
+  | { success: true; settings: ShareSettings }
+  | { success: false; message: string }
+
+/** 对外返回的分享信息（不包含密码哈希） */
+export interface ShareInfo {
+  id: string
+  group_id: string
+  share_token: string
+  share_url: string
+  is_public: boolean
+  has_password: boolean
+  max_views: number | null
+  view_count: number
+  status: ShareStatus
+  expires_at: string | null
+  revoked_at: string | null
+  created_at: string
+  updated_at: string | null
+}
+
+function isPositiveInteger(value: unknown, max: number): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0 && value <= max
+}
+
+/**
+ * 校验请求体中的分享设置
+ */
+export function parseShareSettings(body: unknown): ParseShareSettingsResult {
+  const input = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>
+  const settings: ShareSettings = {}
+
+  if (input.is_public !== undefined) {
+    if (typeof input.is_public !== 'boolean') {
+      return { success: false, message: 'is_public must be a boolean' }
+    }
+    settings.is_public = input.is_public
+  }
+
+  if (input.expires_in_days !== undefined) {
+    if (input.expires_in_days === null || input.expires_in_days === 0) {
+      settings.expires_in_days = null
+    } else if (isPositiveInteger(input.expires_in_days, SHARE_MAX_EXPIRES_DAYS)) {
+      settings.expires_in_days = input.expires_in_days
+    } else {
+      return { success: false, message: `expires_in_days must be an integer between 1 and ${SHARE_MAX_EXPIRES_DAYS}` }
+    }
+  }
+
+  if (input.password !== undefined) {
+    if (input.password === null || input.password === '') {
+      settings.password = null
+    } else if (
+      typeof input.password === 'string' &&
+      input.password.length >= SHARE_PASSWORD_MIN_LENGTH &&
+      input.password.length <= SHARE_PASSWORD_MAX_LENGTH
+    ) {
+      settings.password = input.password
+    } else {
+      return {
+        success: false,
+        message: `password must be between ${SHARE_PASSWORD_MIN_LENGTH} and ${SHARE_PASSWORD_MAX_LENGTH} characters`,
+      }
+    }
+  }
+
+  if (input.max_views !== undefined) {
+    if (input.max_views === null || input.max_views === 0) {
+      settings.max_views = null
+    } else if (isPositiveInteger(input.max_views, SHARE_MAX_VIEWS_LIMIT)) {
+      settings.max_views = input.max_views
+    } else {
+      return { success: false, message: `max_views must be an integer between 1 and ${SHARE_MAX_VIEWS_LIMIT}` }
+    }
+  }
+
+  return { success: true, settings }
+}
+
+function generateShareToken(): string {
+  return generateNanoId(16)
+}
+
+function getExpiresAt(days: number | null): string | null {
+  return days ? new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString() : null
+}
+
+/**
+ * 计算分享链接当前的状态（不含密码校验）
+ */
+export function getShareStatus(share: ShareRow): ShareStatus {
+  if (share.revoked_at) {
+    return 'revoked'
+  }
+  if (share.is_public !== 1) {
+    return 'private'
+  }
+  if (share.expires_at && new Date(share.expires_at) < new Date()) {
+    return 'expired'
+  }
+  if (share.max_views !== null && share.view_count >= share.max_views) {
+    return 'view_limit_reached'
+  }
+  return 'active'
+}
+
+export function getShareUrl(origin: string, shareToken: string): string {
+  return `${origin}/share/${shareToken}`
+}
+
+export function toShareInfo(share: ShareRow, origin: string): ShareInfo {
+  return {
+    id: share.id,
+    group_id: share.group_id,
+    share_token: share.share_token,
+    share_url: getShareUrl(origin, share.share_token),
+    is_public: share.is_public === 1,
+    has_password: Boolean(share.password_hash),
+    max_views: share.max_views,
+    view_count: share.view_count,
+    status: getShareStatus(share),
+    expires_at: share.expires_at,
+    revoked_at: share.revoked_at,
+    created_at: share.created_at,
+    updated_at: share.updated_at,
+  }
+}
+
+/**
+ * 读取标签页组的分享记录（包括已撤销的）
+ */
+export async function findGroupShare(db: D1Database, userId: string, groupId: string): Promise<ShareRow | null> {
+  const share = await db.prepare('SELECT * FROM shares WHERE group_id = ? AND user_id = ?')
+    .bind(groupId, userId)
+    .first<ShareRow>()
+  return share ?? null
+}
+
+/**
+ * 创建或更新标签页组的分享链接
+ *
+ * 已撤销的分享会以新令牌重新启用，旧链接继续保持失效；此时未提供的设置恢复为默认值
+ */
+export async function saveGroupShare(
+  db: D1Database,
+  userId: string,
+  groupId: string,
+  settings: ShareSettings
+): Promise<{ share: ShareRow; created: boolean }> {
+  const existing = await findGroupShare(db, userId, groupId)
+  const now = new Date().toISOString()
+  const passwordHash = settings.password ? await hashPassword(settings.password) : null
+
+  if (!existing || existing.revoked_at) {
+    const share: ShareRow = {
+      id: existing?.id ?? generateUUID(),
+      group_id: groupId,
+      user_id: userId,
+      share_token: generateShareToken(),
+      is_public: settings.is_public === false ? 0 : 1,
+      view_count: 0,
+      created_at: existing?.created_at ?? now,
+      expires_at: getExpiresAt(settings.expires_in_days ?? null),
+      password_hash: passwordHash,
+      max_views: settings.max_views ?? null,
+      revoked_at: null,
+      updated_at: now,
+    }
+
+    if (existing) {
+      await db.prepare(
+        `UPDATE shares
+         SET share_token = ?, is_public = ?, view_count = 0, expires_at = ?, password_hash = ?,
+             max_views = ?, revoked_at = NULL, updated_at = ?
+         WHERE id = ?`
+      )
+        .bind(share.share_token, share.is_public, share.expires_at, share.password_hash, share.max_views, now, share.id)
+        .run()
+    } else {
+      await db.prepare(
+        `INSERT INTO shares (id, group_id, user_id, share_token, is_public, view_count, created_at, expires_at,
+                             password_hash, max_views, updated_at)
+         VALUES (?, ?, ?, ?, ?, 0, ?, ?, ?, ?, ?)`
+      )
+        .bind(
+          share.id,
+          groupId,
+          userId,
+          share.share_token,
+          share.is_public,
+          now,
+          share.expires_at,
+          share.password_hash,
+          share.max_views,
+          now
+        )
+        .run()
+    }
+
+    return { share, created: true }
+  }
+
+  const share: ShareRow = {
+    ...existing,
+    is_public: settings.is_public === undefined ? existing.is_public : settings.is_public ? 1 : 0,
+    expires_at: settings.expires_in_days === undefined ? existing.expires_at : getExpiresAt(settings.expires_in_days),
+    password_hash: settings.password === undefined ? existing.password_hash : passwordHash,
+    max_views: settings.max_views === undefined ? existing.max_views : settings.max_views,
+    updated_at: now,
+  }
+
+  await db.prepare(
+    'UPDATE shares SET is_public = ?, expires_at = ?, password_hash = ?, max_views = ?, updated_at = ? WHERE id = ?'
+  )
+    .bind(share.is_public, share.expires_at, share.password_hash, share.max_views, now, share.id)
+    .run()
+
+  return { share, created: false }
+}
+
+/**
+ * 重新生成分享令牌，旧链接立即失效
+ * 密码、有效期和浏览次数上限保持不变，浏览次数从 0 重新计算
+ */
+export async function regenerateShareToken(db: D1Database, share: ShareRow): Promise<ShareRow> {
+  const now = new Date().toISOString()
+  const shareToken = generateShareToken()
+
+  await db.prepare('UPDATE shares SET share_token = ?, view_count = 0, updated_at = ? WHERE id = ?')
+    .bind(shareToken, now, share.id)
+    .run()
+
+  return { ...share, share_token: shareToken, view_count: 0, updated_at: now }
+}
+
+/**
+ * 撤销分享链接
+ */
+export async function revokeShare(db: D1Database, share: ShareRow): Promise<void> {
+  const now = new Date().toISOString()
+  await db.prepare('UPDATE shares SET revoked_at = ?, updated_at = ? WHERE id = ? AND revoked_at IS NULL')
+    .bind(now, now, share.id)
+    .run()
+}
+
+function accessError(error: ShareAccessError): SharedTabGroupResult {
+  return { success: false, error, message: SHARE_ACCESS_ERRORS[error].message }
+}
+
+/**
+ * 请求是否应计入浏览次数：HEAD 请求和已知爬虫不计数
+ */
+export function shouldCountShareView(request: Request): boolean {
+  if (request.method !== 'GET' && request.method !== 'POST') {
+    return false
+  }
+  const userAgent = request.headers.get('User-Agent') || ''
+  return userAgent !== '' && !BOT_USER_AGENT_PATTERN.test(userAgent)
+}
+
+export interface LoadSharedTabGroupOptions {
+  /** 访问者提交的密码 */
+  password?: string | null
+  /** 访问者 IP，用于限制密码尝试次数 */
+  clientIp?: string
+  /**
+   * 是否增加浏览次数，默认不增加
+   * 不计数时，设置了浏览次数上限的分享不返回内容（view_confirmation_required），避免绕过上限
+   */
+  countView?: boolean
+}
+
+/**
+ * 按分享令牌读取标签页组，countView 为 true 时增加浏览次数
+ * 依次检查撤销、公开状态、有效期、浏览次数上限和密码
+ */
+export async function loadSharedTabGroup(
+  env: Env,
+  shareToken: string,
+  options: LoadSharedTabGroupOptions = {}
+): Promise<SharedTabGroupResult> {
+  const db = env.DB
+  const share = await db.prepare('SELECT * FROM shares WHERE share_token = ?')
+    .bind(shareToken)
+    .first<ShareRow>()
+
+  if (!share) {
+    return accessError('not_found')
+  }
+
+  const status = getShareStatus(share)
+  if (status !== 'active') {
+    return accessError(status)
+  }
+
+  if (share.password_hash) {
+    if (!options.password) {
+      return accessError('password_required')
+    }
+
+    const attempt = await checkRateLimit(env.TMARKS_KV, {
+      key: `share-password:${share.id}:${options.clientIp || 'unknown'}`,
+      limit: PASSWORD_ATTEMPT_LIMIT,
+      window: PASSWORD_ATTEMPT_WINDOW,
+    })
+    if (!attempt.allowed) {
+      return accessError('too_many_attempts')
+    }
+
+    if (!(await verifyPassword(options.password, share.password_hash))) {
+      return accessError('invalid_password')
+    }
+  }
+
+  // Get tab group
+  const groupRow = await db.prepare(`SELECT ${SHARED_GROUP_COLUMNS} FROM tab_groups WHERE id = ? AND is_deleted = 0`)
+    .bind(share.group_id)
+    .first<TabGroupRow>()
+
+  if (!groupRow) {
+    return accessError('not_found')
+  }
+
+  let viewCount = share.view_count
+  if (options.countView) {
+    // 增加浏览次数，同时确认没有超过上限（并发访问时以数据库中的计数为准）
+    const viewResult = await db.prepare(
+      'UPDATE shares SET view_count = view_count + 1 WHERE id = ? AND (max_views IS NULL OR view_count < max_views)'
+    )
+      .bind(share.id)
+      .run()
+
+    if (!viewResult.meta.changes) {
+      return accessError('view_limit_reached')
+    }
+    viewCount++
+  } else if (share.max_views !== null) {
+    return accessError('view_confirmation_required')
+  }
+
+  // Get tab group items
+  const { results: items } = await db.prepare(
+    `SELECT ${SHARED_ITEM_COLUMNS} FROM tab_group_items WHERE group_id = ? ORDER BY position ASC`
+  )
+    .bind(share.group_id)
+    .all<SharedTabGroupItem>()
+
+  // Parse tags
+  let tags: string[] | null = null
+  if (groupRow.tags) {
+    try {
+      tags = JSON.parse(groupRow.tags)
+    } catch {
+      tags = null
+    }
+  }
+
+  return {
+    success: true,
+    data: {
+      tab_group: {
+        ...groupRow,
+        tags,
+        items: items || [],
+        item_count: items?.length || 0,
+      },
+      share_info: {
+        view_count: viewCount,
+        max_views: share.max_views,
+        has_password: Boolean(share.password_hash),
+        created_at: share.created_at,
+        expires_at: share.expires_at,
+      },
+    },
+  }
+}
@@ -1,28 +1,287 @@
 import { generateUUID } from './crypto'
 
+/** 层级标签路径分隔符，如 dev/frontend/react */
+export const TAG_PATH_SEPARATOR = '/'
+
+const ALIAS_LOOKUP_CHUNK_SIZE = 90
+
 /**
- * 创建或链接标签到书签
- * 自动处理标签的创建、查找和链接
- * 
- * @param db - D1 数据库实例
- * @param bookmarkId - 书签 ID
- * @param tagNames - 标签名称数组
- * @param userId - 用户 ID
+ * 拆分标签路径，去除空段
  */
-export async function createOrLinkTags(
+export function splitTagPath(path: string): string[] {
+  return path
+    .split(TAG_PATH_SEPARATOR)
+    .map(segment => segment.trim())
+    .filter(segment => segment.length > 0)
+}
+
+/**
+ * 标签子树 CTE（tag_tree 包含根标签及其所有未删除的后代）
+ *
+ * @param seedCount - 根标签 ID 占位符数量
+ */
+export function tagSubtreeCte(seedCount: number): string {
+  const placeholders = Array.from({ length: seedCount }, () => '?').join(',')
+  return `WITH RECURSIVE tag_tree(id) AS (
+    SELECT id FROM tags WHERE id IN (${placeholders})
+    UNION
+    SELECT t.id FROM tags t INNER JOIN tag_tree tt ON t.parent_id = tt.id WHERE t.deleted_at IS NULL
+  )`
+}
+
+/**
+ * 标签子树 ID 子查询，可直接用于 IN (...)
+ */
+export function tagSubtreeSql(seedCount: number): string {
+  return `${tagSubtreeCte(seedCount)} SELECT id FROM tag_tree`
+}
+
+/**
+ * 判断 candidateId 是否为 rootId 本身或其后代
+ */
+export async function isTagInSubtree(
   db: D1Database,
-  bookmarkId: string,
-  tagNames: string[],
-  userId: string
+  rootId: string,
+  candidateId: string
+): Promise<boolean> {
+  const row = await db
+    .prepare(`${tagSubtreeCte(1)} SELECT 1 AS found FROM tag_tree WHERE id = ? LIMIT 1`)
+    .bind(rootId, candidateId)
+    .first<{ found: number }>()
+  return Boolean(row)
+}
+
+/**
+ * 确保标签路径上的每一级标签都存在，返回叶子标签 ID
+ *
+ * 标签名称在用户内唯一，已存在的同名标签会被复用；
+ * 若复用的是顶层标签，则挂到路径中的父标签下（已有父级的标签不会被移动）。
+ *
+ * @param segments - splitTagPath 的结果
+ */
+export async function ensureTagPath(
+  db: D1Database,
+  userId: string,
+  segments: string[],
+  now = new Date().toISOString()
+): Promise<string> {
+  let parentId: string | null = null
+
+  for (const segment of segments) {
+    const existing: { id: string; parent_id: string | null } | null = await db
+      .prepare('SELECT id, parent_id FROM tags WHERE user_id = ? AND LOWER(name) = LOWER(?) AND deleted_at IS NULL')
+      .bind(userId, segment)
+      .first<{ id: string; parent_id: string | null }>()
+
+    if (existing) {
+      if (
+        parentId &&
+        !existing.parent_id &&
+        existing.id !== parentId &&
+        !(await isTagInSubtree(db, existing.id, parentId))
+      ) {
+        await db
+          .prepare('UPDATE tags SET parent_id = ?, updated_at = ? WHERE id = ?')
+          .bind(parentId, now, existing.id)
+          .run()
+      }
+      parentId = existing.id
+      continue
+    }
+
+    const tagId = generateUUID()
+    await db
+      .prepare('INSERT INTO tags (id, user_id, name, parent_id, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?)')
+      .bind(tagId, userId, segment, parentId, now, now)
+      .run()
+    parentId = tagId
+  }
+
+  if (!parentId) {
+    throw new Error('Tag path is empty')
+  }
+  return parentId
+}
+
+/**
+ * 按别名查找标签，返回 小写名称 → 标签 ID（仅包含命中别名的名称）
+ */
+export async function resolveTagAliases(
+  db: D1Database,
+  userId: string,
+  names: string[]
+): Promise<Map<string, string>> {
+  const resolved = new Map<string, string>()
+
+  // D1 单条语句最多绑定 100 个参数
+  for (let i = 0; i < names.length; i += ALIAS_LOOKUP_CHUNK_SIZE) {
+    const chunk = names.slice(i, i + ALIAS_LOOKUP_CHUNK_SIZE)
+    const placeholders = chunk.map(() => '?').join(',')
+    const { results } = await db
+      .prepare(
+        `SELECT ta.alias, ta.tag_id
+         FROM tag_aliases ta
+         INNER JOIN tags t ON t.id = ta.tag_id AND t.deleted_at IS NULL
+         WHERE ta.user_id = ? AND LOWER(ta.alias) IN (${placeholders})`
+      )
+      .bind(userId, ...chunk.map(name => name.toLowerCase()))
+      .all<{ alias: string; tag_id: string }>()
+
+    for (const row of results || []) {
+      resolved.set(row.alias.toLowerCase(), row.tag_id)
+    }
+  }
+
+  return resolved
+}
+
+/**
+ * 新增或改写别名（同一用户下别名唯一，已存在时指向新的标签）
+ */
+export function upsertTagAliasStatement(
+  db: D1Database,
+  userId: string,
+  tagId: string,
+  alias: string,
+  now = new Date().toISOString()
+): D1PreparedStatement {
+  return db
+    .prepare(
+      `INSERT INTO tag_aliases (id, user_id, tag_id, alias, created_at)
+       VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT(user_id, alias) DO UPDATE SET tag_id = excluded.tag_id`
+    )
+    .bind(generateUUID(), userId, tagId, alias, now)
+}
+
+export interface TagMergeSource {
+  id: string
+  name: string
+  parent_id: string | null
+  click_count: number
+  last_clicked_at: string | null
+}
+
+export interface TagMergeTarget {
+  id: string
+  name: string
+  click_count: number
+  last_clicked_at: string | null
+}
+
+export interface TagMergePreview {
+  /** 源标签关联的书签数 */
+  source_bookmarks: number
+  /** 目标标签关联的书签数 */
+  target_bookmarks: number
+  /** 同时带有两个标签的书签数（合并后不会重复计数） */
+  overlapping_bookmarks: number
+  /** 合并后目标标签关联的书签数 */
+  resulting_bookmarks: number
+}
+
+/**
+ * 预览合并影响的书签数（不含已删除书签）
+ */
+export async function getTagMergePreview(
+  db: D1Database,
+  sourceId: string,
+  targetId: string
+): Promise<TagMergePreview> {
+  const row = await db
+    .prepare(
+      `SELECT
+         SUM(CASE WHEN bt.tag_id = ? THEN 1 ELSE 0 END) AS source_bookmarks,
+         SUM(CASE WHEN bt.tag_id = ? THEN 1 ELSE 0 END) AS target_bookmarks,
+         COUNT(DISTINCT bt.bookmark_id) AS resulting_bookmarks
+       FROM bookmark_tags bt
+       INNER JOIN bookmarks b ON b.id = bt.bookmark_id AND b.deleted_at IS NULL
+       WHERE bt.tag_id IN (?, ?)`
+    )
+    .bind(sourceId, targetId, sourceId, targetId)
+    .first<{ source_bookmarks: number | null; target_bookmarks: number | null; resulting_bookmarks: number | null }>()
+
+  const sourceBookmarks = row?.source_bookmarks ?? 0
+  const targetBookmarks = row?.target_bookmarks ?? 0
+  const resultingBookmarks = row?.resulting_bookmarks ?? 0
+
+  return {
+    source_bookmarks: sourceBookmarks,
+    target_bookmarks: targetBookmarks,
+    overlapping_bookmarks: sourceBookmarks + targetBookmarks - resultingBookmarks,
+    resulting_bookmarks: resultingBookmarks,
+  }
+}
+
+/**
+ * 将源标签合并到目标标签
+ *
+ * 书签关联改指向目标标签，点击数累加，源标签的子标签与别名转移到目标标签，
+ * 源标签名称成为目标标签的别名，智能集合中的源标签改为目标标签，最后删除源标签。
+ * 所有语句在同一批次（事务）中执行。
+ */
+export async function mergeTags(
+  db: D1Database,
+  userId: string,
+  source: TagMergeSource,
+  target: TagMergeTarget,
+  now = new Date().toISOString()
 ): Promise<void> {
-  if (!tagNames || tagNames.length === 0) return
+  // 目标是源标签的后代时，子标签上移到源标签的父级，避免形成环
+  const childParentId = (await isTagInSubtree(db, source.id, target.id)) ? source.parent_id : target.id
 
-  const now = new Date().toISOString()
+  const lastClickedAt = [source.last_clicked_at, target.last_clicked_at]
+    .filter((value): value is string => Boolean(value))
+    .sort()
+    .pop() ?? null
 
-  // 优化：批量查询所有标签，避免 N+1 查询
-  const trimmedNames = tagNames.map(name => name.trim()).filter(name => name.length > 0)
-  if (trimmedNames.length === 0) return
+  const statements = [
+    db
+      .prepare(
+        `INSERT OR IGNORE INTO bookmark_tags (bookmark_id, tag_id, user_id, created_at)
+         SELECT bookmark_id, ?, user_id, created_at FROM bookmark_tags WHERE tag_id = ?`
+      )
+      .bind(target.id, source.id),
+    db
+      .prepare('UPDATE tags SET click_count = ?, last_clicked_at = ?, updated_at = ? WHERE id = ?')
+      .bind(source.click_count + target.click_count, lastClickedAt, now, target.id),
+    db
+      .prepare('UPDATE tags SET parent_id = ?, updated_at = ? WHERE parent_id = ? AND user_id = ?')
+      .bind(childParentId, now, source.id, userId),
+    db
+      .prepare('UPDATE tag_aliases SET tag_id = ? WHERE tag_id = ?')
+      .bind(target.id, source.id),
+    // 筛选条件以 JSON 保存，按带引号的 ID 替换；读取时会对标签去重
+    db
+      .prepare(
+        `UPDATE bookmark_collections SET filters = REPLACE(filters, ?, ?), updated_at = ?
+         WHERE user_id = ? AND INSTR(filters, ?) > 0`
+      )
+      .bind(JSON.stringify(source.id), JSON.stringify(target.id), now, userId, JSON.stringify(source.id)),
+  ]
+
+  if (source.name.toLowerCase() !== target.name.toLowerCase()) {
+    statements.push(upsertTagAliasStatement(db, userId, target.id, source.name, now))
+  }
+
+  statements.push(db.prepare('DELETE FROM tags WHERE id = ?').bind(source.id))
+
+  await db.batch(statements)
+}
 
+/**
+ * 按名称查找标签，不存在时创建，返回 小写名称 → 标签 ID
+ * 没有同名标签时先按别名查找（如 js → javascript）
+ * 含分隔符的名称（如 dev/frontend/react）在没有同名标签时按路径创建层级标签，映射到叶子标签
+ *
+ * @param trimmedNames - 已去除首尾空白的非空标签名称
+ */
+export async function ensureTagsByName(
+  db: D1Database,
+  userId: string,
+  trimmedNames: string[],
+  now = new Date().toISOString()
+): Promise<Map<string, string>> {
   // 构建 IN 查询的占位符
   const placeholders = trimmedNames.map(() => '?').join(',')
   const { results: existingTags } = await db
@@ -36,8 +295,33 @@ export async function createOrLinkTags(
     tagMap.set(tag.name.toLowerCase(), tag.id)
   }
 
+  // 别名映射到已有标签
+  const aliasMap = await resolveTagAliases(
+    db,
+    userId,
+    trimmedNames.filter(name => !tagMap.has(name.toLowerCase()))
+  )
+  for (const [alias, tagId] of aliasMap) {
+    tagMap.set(alias, tagId)
+  }
+
   // 找出需要创建的新标签
-  const tagsToCreate = trimmedNames.filter(name => !tagMap.has(name.toLowerCase()))
+  const missingNames = trimmedNames.filter(name => !tagMap.has(name.toLowerCase()))
+
+  // 层级路径逐级创建
+  for (const name of missingNames) {
+    const segments = splitTagPath(name)
+    if (segments.length > 1) {
+      tagMap.set(name.toLowerCase(), await ensureTagPath(db, userId, segments, now))
+    }
+  }
+
+  // 同一批次中仅大小写不同的名称只创建一次
+  const tagsToCreate = missingNames.filter(
+    (name, index) =>
+      !tagMap.has(name.toLowerCase()) &&
+      missingNames.findIndex(other => other.toLowerCase() === name.toLowerCase()) === index
+  )
 
   // 批量创建新标签
   if (tagsToCreate.length > 0) {
@@ -54,6 +338,34 @@ export async function createOrLinkTags(
     await db.batch(insertStatements)
   }
 
+  return tagMap
+}
+
+/**
+ * 创建或链接标签到书签
+ * 自动处理标签的创建、查找和链接（名称解析规则见 ensureTagsByName）
+ * 
+ * @param db - D1 数据库实例
+ * @param bookmarkId - 书签 ID
+ * @param tagNames - 标签名称数组
+ * @param userId - 用户 ID
+ */
+export async function createOrLinkTags(
+  db: D1Database,
+  bookmarkId: string,
+  tagNames: string[],
+  userId: string
+): Promise<void> {
+  if (!tagNames || tagNames.length === 0) return
+
+  const now = new Date().toISOString()
+
+  // 优化：批量查询所有标签，避免 N+1 查询
+  const trimmedNames = tagNames.map(name => name.trim()).filter(name => name.length > 0)
+  if (trimmedNames.length === 0) return
+
+  const tagMap = await ensureTagsByName(db, userId, trimmedNames, now)
+
   // 批量链接标签到书签
   const linkStatements = trimmedNames.map(name => {
     const tagId = tagMap.get(name.toLowerCase())
@@ -0,0 +1,480 @@
+/**
+ * 两步验证（TOTP）
+ * - 兼容 RFC 6238 的验证器应用：HMAC-SHA1、6 位数字、30 秒步长，验证时允许前后各一个步长的时钟误差
+ * - 密钥使用 ENCRYPTION_KEY 以 AES-GCM 加密后保存；同一个步长的验证码只能使用一次
+ * - 启用后生成一组一次性恢复码，只保存哈希
+ * - 开启两步验证的账号登录时，密码校验通过后只返回短期有效的挑战令牌，提交验证码后才签发 auth_tokens
+ */
+
+import type { D1Database, D1PreparedStatement } from '@cloudflare/workers-types'
+import { generateToken, generateUUID, hashRefreshToken } from './crypto'
+
+export const TOTP_ISSUER = 'TMarks'
+
+const TOTP_DIGITS = 6
+const TOTP_PERIOD_SECONDS = 30
+/** 允许的时钟误差（步长数） */
+const TOTP_WINDOW = 1
+const TOTP_SECRET_BYTES = 20
+
+export const RECOVERY_CODE_COUNT = 10
+const RECOVERY_CODE_LENGTH = 10
+
+/** 登录挑战令牌有效期（秒） */
+export const TWO_FACTOR_CHALLENGE_TTL_SECONDS = 5 * 60
+/** 每个登录挑战最多可以尝试的次数，超过后需要重新输入密码 */
+const MAX_CHALLENGE_ATTEMPTS = 5
+
+export const INVALID_TWO_FACTOR_CODE = 'INVALID_TWO_FACTOR_CODE'
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+// 恢复码去掉容易混淆的 0/o、1/l
+const RECOVERY_CODE_ALPHABET = 'abcdefghijkmnpqrstuvwxyz23456789'
+
+export interface TwoFactorRecord {
+  user_id: string
+  secret_encrypted: string
+  enabled_at: string | null
+  last_used_step: number | null
+  created_at: string
+  updated_at: string
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean
+  enabled_at: string | null
+  recovery_codes_remaining: number
+}
+
+export interface TwoFactorChallenge {
+  id: string
+  user_id: string
+  remember_me: number
+  attempts: number
+  expires_at: string
+}
+
+export type TwoFactorMethod = 'totp' | 'recovery_code'
+
+function isMissingTableError(error: unknown): boolean {
+  return error instanceof Error && /no such table: (user_two_factor|two_factor_)/i.test(error.message)
+}
+
+export function base32Encode(bytes: Uint8Array): string {
+  let bits = 0
+  let value = 0
+  let output = ''
+
+  for (const byte of bytes) {
+    value = (value << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+  }
+  return output
+}
+
+export function base32Decode(input: string): Uint8Array {
+  const chars = input.toUpperCase().replace(/[\s=-]/g, '')
+  const bytes: number[] = []
+  let bits = 0
+  let value = 0
+
+  for (const char of chars) {
+    const index = BASE32_ALPHABET.indexOf(char)
+    if (index === -1) {
+      throw new Error('Invalid base32 character')
+    }
+    value = (value << 5) | index
+    bits += 5
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff)
+      bits -= 8
+    }
+  }
+  return new Uint8Array(bytes)
+}
+
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.getRandomValues(new Uint8Array(TOTP_SECRET_BYTES)))
+}
+
+export function getTotpStep(now = Date.now()): number {
+  return Math.floor(now / 1000 / TOTP_PERIOD_SECONDS)
+}
+
+/** 计算指定步长的验证码（RFC 4226 动态截断） */
+export async function generateTotp(secret: string, step: number): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', base32Decode(secret), { name: 'HMAC', hash: 'SHA-1' }, false, [
+    'sign',
+  ])
+
+  // 8 字节大端计数器
+  const counter = new Uint8Array(8)
+  const view = new DataView(counter.buffer)
+  view.setUint32(0, Math.floor(step / 2 ** 32))
+  view.setUint32(4, step >>> 0)
+  const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, counter))
+
+  const offset = hmac[hmac.length - 1] & 0x0f
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) | (hmac[offset + 1] << 16) | (hmac[offset + 2] << 8) | hmac[offset + 3]
+
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0')
+}
+
+/**
+ * 在允许的时钟误差内查找匹配的步长，不匹配时返回 null
+ * 只接受大于 lastUsedStep 的步长，防止同一个验证码被重放
+ */
+export async function findTotpStep(
+  secret: string,
+  code: string,
+  lastUsedStep: number | null,
+  now = Date.now()
+): Promise<number | null> {
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(code)) {
+    return null
+  }
+
+  const current = getTotpStep(now)
+  for (let step = current - TOTP_WINDOW; step <= current + TOTP_WINDOW; step++) {
+    if (lastUsedStep !== null && step <= lastUsedStep) {
+      continue
+    }
+    if ((await generateTotp(secret, step)) === code) {
+      return step
+    }
+  }
+  return null
+}
+
+/** 验证器应用扫描的 otpauth:// URI（二维码内容） */
+export function buildOtpAuthUri(secret: string, accountName: string): string {
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${accountName}`)
+  const params = new URLSearchParams({
+    secret,
+    issuer: TOTP_ISSUER,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  })
+  return `otpauth://totp/${label}?${params.toString()}`
+}
+
+/** 用户输入的验证码：去掉空格和分隔符 */
+export function normalizeTwoFactorCode(input: unknown): string {
+  return typeof input === 'string' ? input.trim().toLowerCase().replace(/[\s-]/g, '') : ''
+}
+
+async function getSecretKey(encryptionKey: string, usage: 'encrypt' | 'decrypt'): Promise<CryptoKey> {
+  const keyBytes = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(encryptionKey))
+  return crypto.subtle.importKey('raw', keyBytes, { name: 'AES-GCM' }, false, [usage])
+}
+
+async function encryptSecret(secret: string, encryptionKey: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const encrypted = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    await getSecretKey(encryptionKey, 'encrypt'),
+    new TextEncoder().encode(secret)
+  )
+
+  const combined = new Uint8Array(iv.length + encrypted.byteLength)
+  combined.set(iv)
+  combined.set(new Uint8Array(encrypted), iv.length)
+  return btoa(String.fromCharCode(...combined))
+}
+
+async function decryptSecret(encrypted: string, encryptionKey: string): Promise<string> {
+  const combined = Uint8Array.from(atob(encrypted), (char) => char.charCodeAt(0))
+  const decrypted = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: combined.slice(0, 12) },
+    await getSecretKey(encryptionKey, 'decrypt'),
+    combined.slice(12)
+  )
+  return new TextDecoder().decode(decrypted)
+}
+
+export async function getTwoFactorRecord(db: D1Database, userId: string): Promise<TwoFactorRecord | null> {
+  try {
+    return await db.prepare('SELECT * FROM user_two_factor WHERE user_id = ?').bind(userId).first<TwoFactorRecord>()
+  } catch (error) {
+    if (isMissingTableError(error)) {
+      return null
+    }
+    throw error
+  }
+}
+
+/**
+ * 账号是否已启用两步验证
+ * 尚未执行 0119 迁移时视为未启用
+ */
+export async function isTwoFactorEnabled(db: D1Database, userId: string): Promise<boolean> {
+  const record = await getTwoFactorRecord(db, userId)
+  return Boolean(record?.enabled_at)
+}
+
+export async function getTwoFactorStatus(db: D1Database, userId: string): Promise<TwoFactorStatus> {
+  const record = await getTwoFactorRecord(db, userId)
+  if (!record?.enabled_at) {
+    return { enabled: false, enabled_at: null, recovery_codes_remaining: 0 }
+  }
+
+  const row = await db
+    .prepare('SELECT COUNT(*) AS count FROM two_factor_recovery_codes WHERE user_id = ? AND used_at IS NULL')
+    .bind(userId)
+    .first<{ count: number }>()
+
+  return {
+    enabled: true,
+    enabled_at: record.enabled_at,
+    recovery_codes_remaining: row?.count ?? 0,
+  }
+}
+
+/**
+ * 开始绑定：生成新的密钥并保存为未启用状态（重复调用会替换之前未完成的密钥）
+ * 已启用时返回 null，需要先关闭再重新绑定
+ */
+export async function startTwoFactorEnrollment(
+  db: D1Database,
+  encryptionKey: string,
+  userId: string
+): Promise<string | null> {
+  const secret = generateTotpSecret()
+  const now = new Date().toISOString()
+
+  const result = await db
+    .prepare(
+      `INSERT INTO user_two_factor (user_id, secret_encrypted, enabled_at, last_used_step, created_at, updated_at)
+       VALUES (?, ?, NULL, NULL, ?, ?)
+       ON CONFLICT(user_id) DO UPDATE SET
+         secret_encrypted = excluded.secret_encrypted,
+         last_used_step = NULL,
+         updated_at = excluded.updated_at
+       WHERE user_two_factor.enabled_at IS NULL`
+    )
+    .bind(userId, await encryptSecret(secret, encryptionKey), now, now)
+    .run()
+
+  return result.meta.changes ? secret : null
+}
+
+/**
+ * 校验 TOTP 验证码并记录已使用的步长
+ * 步长更新带条件，并发提交同一个验证码时只有一个请求成功
+ */
+export async function verifyTotpCode(
+  db: D1Database,
+  encryptionKey: string,
+  record: TwoFactorRecord,
+  code: string
+): Promise<boolean> {
+  const secret = await decryptSecret(record.secret_encrypted, encryptionKey)
+  const step = await findTotpStep(secret, code, record.last_used_step)
+  if (step === null) {
+    return false
+  }
+
+  const result = await db
+    .prepare(
+      `UPDATE user_two_factor SET last_used_step = ?, updated_at = ?
+       WHERE user_id = ? AND (last_used_step IS NULL OR last_used_step < ?)`
+    )
+    .bind(step, new Date().toISOString(), record.user_id, step)
+    .run()
+
+  return Boolean(result.meta.changes)
+}
+
+/**
+ * 完成绑定：验证码正确后启用两步验证，并生成恢复码
+ * 返回明文恢复码（只在这里返回一次），验证码错误时返回 null
+ */
+export async function enableTwoFactor(
+  db: D1Database,
+  encryptionKey: string,
+  record: TwoFactorRecord,
+  code: string
+): Promise<string[] | null> {
+  if (!(await verifyTotpCode(db, encryptionKey, record, code))) {
+    return null
+  }
+
+  const now = new Date().toISOString()
+  const { codes, statements } = await buildRecoveryCodeStatements(db, record.user_id, now)
+
+  await db.batch([
+    db
+      .prepare('UPDATE user_two_factor SET enabled_at = ?, updated_at = ? WHERE user_id = ? AND enabled_at IS NULL')
+      .bind(now, now, record.user_id),
+    ...statements,
+  ])
+
+  return codes
+}
+
+/** 关闭两步验证：删除密钥、恢复码和未完成的登录挑战 */
+export async function disableTwoFactor(db: D1Database, userId: string): Promise<void> {
+  await db.batch([
+    db.prepare('DELETE FROM user_two_factor WHERE user_id = ?').bind(userId),
+    db.prepare('DELETE FROM two_factor_recovery_codes WHERE user_id = ?').bind(userId),
+    db.prepare('DELETE FROM two_factor_challenges WHERE user_id = ?').bind(userId),
+  ])
+}
+
+function generateRecoveryCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(RECOVERY_CODE_LENGTH))
+  const chars = Array.from(bytes, (byte) => RECOVERY_CODE_ALPHABET[byte % RECOVERY_CODE_ALPHABET.length]).join('')
+  return `${chars.slice(0, RECOVERY_CODE_LENGTH / 2)}-${chars.slice(RECOVERY_CODE_LENGTH / 2)}`
+}
+
+function hashRecoveryCode(code: string): Promise<string> {
+  return hashRefreshToken(normalizeTwoFactorCode(code))
+}
+
+/** 生成一组新的恢复码，返回明文和替换旧恢复码的语句 */
+async function buildRecoveryCodeStatements(
+  db: D1Database,
+  userId: string,
+  now: string
+): Promise<{ codes: string[]; statements: D1PreparedStatement[] }> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode)
+  const hashes = await Promise.all(codes.map(hashRecoveryCode))
+
+  const statements = [
+    db.prepare('DELETE FROM two_factor_recovery_codes WHERE user_id = ?').bind(userId),
+    ...hashes.map((hash) =>
+      db
+        .prepare('INSERT INTO two_factor_recovery_codes (id, user_id, code_hash, used_at, created_at) VALUES (?, ?, ?, NULL, ?)')
+        .bind(generateUUID(), userId, hash, now)
+    ),
+  ]
+
+  return { codes, statements }
+}
+
+/** 重新生成恢复码，旧的恢复码全部失效 */
+export async function regenerateRecoveryCodes(db: D1Database, userId: string): Promise<string[]> {
+  const { codes, statements } = await buildRecoveryCodeStatements(db, userId, new Date().toISOString())
+  await db.batch(statements)
+  return codes
+}
+
+/** 使用一个恢复码，每个恢复码只能使用一次 */
+export async function consumeRecoveryCode(db: D1Database, userId: string, code: string): Promise<boolean> {
+  if (normalizeTwoFactorCode(code).length !== RECOVERY_CODE_LENGTH) {
+    return false
+  }
+
+  const result = await db
+    .prepare(
+      `UPDATE two_factor_recovery_codes SET used_at = ?
+       WHERE id = (
+         SELECT id FROM two_factor_recovery_codes
+         WHERE user_id = ? AND code_hash = ? AND used_at IS NULL
+         LIMIT 1
+       )`
+    )
+    .bind(new Date().toISOString(), userId, await hashRecoveryCode(code))
+    .run()
+
+  return Boolean(result.meta.changes)
+}
+
+/**
+ * 校验验证码：6 位数字按 TOTP 校验，其他输入按恢复码校验
+ * 返回使用的验证方式，校验失败时返回 null
+ */
+export async function verifyTwoFactorCode(
+  db: D1Database,
+  encryptionKey: string,
+  record: TwoFactorRecord,
+  input: unknown
+): Promise<TwoFactorMethod | null> {
+  const code = normalizeTwoFactorCode(input)
+  if (!code) {
+    return null
+  }
+
+  if (code.length === TOTP_DIGITS && /^\d+$/.test(code)) {
+    return (await verifyTotpCode(db, encryptionKey, record, code)) ? 'totp' : null
+  }
+  return (await consumeRecoveryCode(db, record.user_id, code)) ? 'recovery_code' : null
+}
+
+/** 密码校验通过后创建登录挑战，返回明文令牌（只保存哈希） */
+export async function createTwoFactorChallenge(
+  db: D1Database,
+  userId: string,
+  rememberMe: boolean
+): Promise<{ token: string; expiresAt: string }> {
+  const token = generateToken(32)
+  const now = new Date()
+  const expiresAt = new Date(now.getTime() + TWO_FACTOR_CHALLENGE_TTL_SECONDS * 1000).toISOString()
+
+  await db.batch([
+    // 顺便清理该用户已过期或已使用的挑战
+    db
+      .prepare('DELETE FROM two_factor_challenges WHERE user_id = ? AND (expires_at <= ? OR consumed_at IS NOT NULL)')
+      .bind(userId, now.toISOString()),
+    db
+      .prepare(
+        `INSERT INTO two_factor_challenges (id, user_id, token_hash, remember_me, attempts, expires_at, consumed_at, created_at)
+         VALUES (?, ?, ?, ?, 0, ?, NULL, ?)`
+      )
+      .bind(generateUUID(), userId, await hashRefreshToken(token), rememberMe ? 1 : 0, expiresAt, now.toISOString()),
+  ])
+
+  return { token, expiresAt }
+}
+
+/**
+ * 占用登录挑战的一次尝试机会
+ * 令牌不存在、已过期、已使用或尝试次数用完时返回 null
+ */
+export async function claimTwoFactorChallengeAttempt(
+  db: D1Database,
+  token: string
+): Promise<TwoFactorChallenge | null> {
+  const tokenHash = await hashRefreshToken(token)
+  const now = new Date().toISOString()
+
+  const result = await db
+    .prepare(
+      `UPDATE two_factor_challenges SET attempts = attempts + 1
+       WHERE token_hash = ? AND consumed_at IS NULL AND expires_at > ? AND attempts < ?`
+    )
+    .bind(tokenHash, now, MAX_CHALLENGE_ATTEMPTS)
+    .run()
+
+  if (!result.meta.changes) {
+    return null
+  }
+
+  return db
+    .prepare('SELECT id, user_id, remember_me, attempts, expires_at FROM two_factor_challenges WHERE token_hash = ?')
+    .bind(tokenHash)
+    .first<TwoFactorChallenge>()
+}
+
+/** 验证通过后标记挑战已使用，并发请求中只有一个能成功 */
+export async function consumeTwoFactorChallenge(db: D1Database, challengeId: string): Promise<boolean> {
+  const result = await db
+    .prepare('UPDATE two_factor_challenges SET consumed_at = ? WHERE id = ? AND consumed_at IS NULL')
+    .bind(new Date().toISOString(), challengeId)
+    .run()
+
+  return Boolean(result.meta.changes)
+}
+
+export function getRemainingChallengeAttempts(challenge: TwoFactorChallenge): number {
+  return Math.max(MAX_CHALLENGE_ATTEMPTS - challenge.attempts, 0)
+}
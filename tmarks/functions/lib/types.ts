@@ -22,6 +22,19 @@ export interface Env {
   ENABLE_MEMORY_CACHE?: string // 'true' | 'false'
   MEMORY_CACHE_MAX_AGE?: string
   CACHE_DEBUG?: string // 'true' | 'false'
+
+  // 失效链接检测（定时任务）
+  LINK_CHECK_BATCH_SIZE?: string // 每次定时任务检测的书签数，默认 20
+  LINK_CHECK_INTERVAL_DAYS?: string // 检测结果有效天数，默认 7
+
+  URL_CANONICAL_RULES?: string // URL 规范化规则（JSON），覆盖默认规则，见 lib/canonical-url.ts
+
+  // Webhook
+  WEBHOOK_ALLOW_PRIVATE_HOSTS?: string // 'true' 时允许投递到内网地址（开发环境默认允许）
+  WEBHOOK_RETRY_BATCH_SIZE?: string // 每次定时任务重试的投递数，默认 20
+
+  // 维护任务（定时任务 / 管理员手动运行）
+  CLICK_EVENTS_RETENTION_DAYS?: string // 原始点击事件保留天数，超过后汇总为每日点击数，默认 90
 }
 
 export interface User {
@@ -49,6 +62,13 @@ export interface Bookmark {
   has_snapshot?: boolean
   latest_snapshot_at?: string | null
   snapshot_count?: number
+  note_count?: number
+  /** 稍后阅读状态，NULL 表示不在阅读队列中 */
+  reading_status?: 'unread' | 'reading' | 'read' | null
+  reading_progress?: number
+  reading_queued_at?: string | null
+  reading_started_at?: string | null
+  read_at?: string | null
   created_at: string
   updated_at: string
   deleted_at: string | null
@@ -74,6 +94,7 @@ export interface Tag {
   user_id: string
   name: string
   color: string | null
+  parent_id: string | null
   click_count: number
   last_clicked_at: string | null
   created_at: string
@@ -81,6 +102,13 @@ export interface Tag {
   deleted_at: string | null
 }
 
+export interface TagAlias {
+  id: string
+  tag_id: string
+  alias: string
+  created_at: string
+}
+
 export interface ApiError {
   code: string
   message: string
@@ -0,0 +1,249 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import type { Env } from './types'
+import { isPrivateHost } from './private-host'
+import { UNFURL_MAX_BYTES, parseHtmlMetadata, readLimited, unfurlUrl } from './unfurl'
+
+/** 本地 HTTP 桩：每个路径对应一种响应 */
+const routes: Record<string, (req: IncomingMessage, res: ServerResponse) => void> = {
+  '/article': (_req, res) => {
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' })
+    res.end(`<!doctype html><html><head>
+      <title>Fallback title</title>
+      <meta property="og:title" content="OG &amp; title">
+      <meta name="twitter:description" content="Twitter description">
+      <meta property="og:image" content="/cover.png">
+      <link rel="icon" sizes="32x32" href="/icon-32.png">
+      <link rel="icon" sizes="192x192" href="/icon-192.png">
+    </head><body></body></html>`)
+  },
+  '/redirect': (_req, res) => {
+    res.writeHead(302, { Location: '/article' })
+    res.end()
+  },
+  '/redirect-private': (_req, res) => {
+    res.writeHead(302, { Location: 'http://169.254.169.254/latest/meta-data/' })
+    res.end()
+  },
+  '/huge': (_req, res) => {
+    res.writeHead(200, { 'Content-Type': 'text/html' })
+    res.write('<html><head>')
+    res.write(`<!-- ${'x'.repeat(UNFURL_MAX_BYTES)} -->`)
+    res.end('<title>Beyond the cap</title></head></html>')
+  },
+  '/slow': (_req, res) => {
+    setTimeout(() => {
+      res.writeHead(200, { 'Content-Type': 'text/html' })
+      res.end('<title>Too late</title>')
+    }, 1000)
+  },
+  '/missing': (_req, res) => {
+    res.writeHead(404)
+    res.end('not found')
+  },
+}
+
+let server: Server
+let baseUrl: string
+const hits: Record<string, number> = {}
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const path = (req.url || '/').split('?')[0] as string
+    hits[path] = (hits[path] || 0) + 1
+    const handler = routes[path]
+    if (handler) {
+      handler(req, res)
+    } else {
+      res.writeHead(404)
+      res.end()
+    }
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+})
+
+afterAll(async () => {
+  server.closeAllConnections()
+  await new Promise(resolve => server.close(resolve))
+})
+
+beforeEach(() => {
+  for (const path of Object.keys(hits)) delete hits[path]
+})
+
+/** 把公网域名 public.test 转发到本地桩，用来模拟“公网地址重定向到内网” */
+const publicFetcher: typeof fetch = (input, init) => {
+  const url = new URL(typeof input === 'string' ? input : input instanceof URL ? input.href : input.url)
+  if (url.hostname === 'public.test') {
+    return fetch(`${baseUrl}${url.pathname}${url.search}`, init)
+  }
+  return fetch(input, init)
+}
+
+/** 内存版 KV，记录写入时的 TTL */
+function createKv() {
+  const store = new Map<string, { value: string; ttl?: number }>()
+  const kv = {
+    async get(key: string, type?: string) {
+      const entry = store.get(key)
+      if (!entry) return null
+      return type === 'json' ? JSON.parse(entry.value) : entry.value
+    },
+    async put(key: string, value: string, options?: { expirationTtl?: number }) {
+      store.set(key, { value, ttl: options?.expirationTtl })
+    },
+  }
+  return { store, env: { TMARKS_KV: kv } as unknown as Pick<Env, 'TMARKS_KV'> }
+}
+
+const noCache = { TMARKS_KV: undefined } as unknown as Pick<Env, 'TMARKS_KV'>
+
+describe('isPrivateHost', () => {
+  it('rejects loopback, link-local, private and reserved hosts', () => {
+    for (const host of ['localhost', 'app.localhost', 'nas.local', '127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '[::1]', 'fd00::1', '::ffff:127.0.0.1']) {
+      expect(isPrivateHost(host), host).toBe(true)
+    }
+  })
+
+  it('allows public hosts', () => {
+    for (const host of ['example.com', '8.8.8.8', '172.32.0.1', '2606:4700::1111']) {
+      expect(isPrivateHost(host), host).toBe(false)
+    }
+  })
+})
+
+describe('unfurlUrl', () => {
+  it('rejects private hosts before fetching', async () => {
+    const result = await unfurlUrl(noCache, `${baseUrl}/article`)
+    expect(result).toMatchObject({ success: false, code: 'URL_NOT_ALLOWED' })
+    expect(hits['/article']).toBeUndefined()
+  })
+
+  it('rejects non-http schemes', async () => {
+    const result = await unfurlUrl(noCache, 'file:///etc/passwd')
+    expect(result).toMatchObject({ success: false, code: 'URL_NOT_ALLOWED' })
+  })
+
+  it('rejects a redirect from a public host to a private address', async () => {
+    const result = await unfurlUrl(noCache, 'http://public.test/redirect-private', { fetcher: publicFetcher })
+    expect(result).toMatchObject({ success: false, code: 'URL_NOT_ALLOWED' })
+    expect(hits['/redirect-private']).toBe(1)
+  })
+
+  it('follows redirects and parses metadata', async () => {
+    const result = await unfurlUrl(noCache, `${baseUrl}/redirect`, { allowPrivateHosts: true })
+    expect(result.success).toBe(true)
+    if (!result.success) return
+
+    expect(result.cached).toBe(false)
+    expect(result.metadata.final_url).toBe(`${baseUrl}/article`)
+    expect(result.metadata.title).toBe('OG & title')
+    expect(result.metadata.description).toBe('Twitter description')
+    expect(result.metadata.image).toBe(`${baseUrl}/cover.png`)
+    expect(result.metadata.favicon).toBe(`${baseUrl}/icon-192.png`)
+  })
+
+  it('stops reading after the size cap', async () => {
+    const result = await unfurlUrl(noCache, `${baseUrl}/huge`, { allowPrivateHosts: true })
+    expect(result.success).toBe(true)
+    if (!result.success) return
+    // <title> 位于 512KB 之后，不应被读取
+    expect(result.metadata.title).toBeNull()
+  })
+
+  it('times out slow responses', async () => {
+    const startedAt = Date.now()
+    const result = await unfurlUrl(noCache, `${baseUrl}/slow`, { allowPrivateHosts: true, timeoutMs: 100 })
+    expect(result).toEqual({ success: false, code: 'UNFURL_FAILED', message: 'Timed out fetching URL' })
+    expect(Date.now() - startedAt).toBeLessThan(900)
+  })
+
+  it('caches successful results', async () => {
+    const { env } = createKv()
+    await unfurlUrl(env, `${baseUrl}/article`, { allowPrivateHosts: true })
+    const second = await unfurlUrl(env, `${baseUrl}/article`, { allowPrivateHosts: true })
+
+    expect(second).toMatchObject({ success: true, cached: true })
+    expect(hits['/article']).toBe(1)
+  })
+
+  it('caches failed fetches for a shorter time', async () => {
+    const { env, store } = createKv()
+    const first = await unfurlUrl(env, `${baseUrl}/missing`, { allowPrivateHosts: true })
+    const second = await unfurlUrl(env, `${baseUrl}/missing`, { allowPrivateHosts: true })
+
+    expect(first).toEqual({ success: false, code: 'UNFURL_FAILED', message: 'HTTP 404' })
+    expect(second).toEqual(first)
+    expect(hits['/missing']).toBe(1)
+    expect([...store.values()][0]?.ttl).toBe(10 * 60)
+
+    await unfurlUrl(env, `${baseUrl}/missing`, { allowPrivateHosts: true, refresh: true })
+    expect(hits['/missing']).toBe(2)
+  })
+})
+
+describe('readLimited', () => {
+  it('truncates the body to maxBytes', async () => {
+    const body = new Uint8Array(UNFURL_MAX_BYTES * 2).fill(65)
+    const bytes = await readLimited(new Response(body), UNFURL_MAX_BYTES)
+    expect(bytes.byteLength).toBe(UNFURL_MAX_BYTES)
+  })
+})
+
+describe('parseHtmlMetadata', () => {
+  const pageUrl = 'https://example.com/posts/1'
+
+  it('prefers Open Graph over Twitter Card and <title>', () => {
+    const metadata = parseHtmlMetadata(
+      `<head>
+        <title>Page title</title>
+        <meta name="twitter:title" content="Twitter title">
+        <meta property="og:title" content="OG title">
+        <meta property="og:description" content="OG description">
+        <meta name="description" content="Meta description">
+      </head>`,
+      pageUrl
+    )
+    expect(metadata.title).toBe('OG title')
+    expect(metadata.description).toBe('OG description')
+  })
+
+  it('falls back to Twitter Card when Open Graph is missing', () => {
+    const metadata = parseHtmlMetadata(
+      `<head>
+        <title>Page title</title>
+        <meta name="twitter:title" content="Twitter title">
+        <meta name="twitter:image" content="https://cdn.example.com/card.jpg">
+      </head>`,
+      pageUrl
+    )
+    expect(metadata.title).toBe('Twitter title')
+    expect(metadata.image).toBe('https://cdn.example.com/card.jpg')
+  })
+
+  it('falls back to JSON-LD, then <title> and meta description', () => {
+    const jsonLd = parseHtmlMetadata(
+      `<head>
+        <title>Page title</title>
+        <script type="application/ld+json">
+          {"@graph": [{"@type": "WebSite", "name": "Site"}, {"@type": "Article", "headline": "Article headline", "image": {"url": "/hero.jpg"}}]}
+        </script>
+      </head>`,
+      pageUrl
+    )
+    expect(jsonLd.title).toBe('Article headline')
+    expect(jsonLd.image).toBe('https://example.com/hero.jpg')
+
+    const plain = parseHtmlMetadata(
+      `<head><title>  Plain
+        title </title><meta name="description" content="Meta description"></head>`,
+      pageUrl
+    )
+    expect(plain.title).toBe('Plain title')
+    expect(plain.description).toBe('Meta description')
+    expect(plain.image).toBeNull()
+    expect(plain.favicon).toBe('https://example.com/favicon.ico')
+  })
+})
@@ -0,0 +1,496 @@
+/**
+ * 服务端抓取网页元数据（unfurl）
+ *
+ * 解析 Open Graph、Twitter Card、JSON-LD 与 <link rel="icon">，按以上优先级合并出标题、描述、封面图和图标。
+ * - 只读取响应的前 UNFURL_MAX_BYTES 字节（元数据都在 <head> 中），整个抓取过程（含重定向）受超时限制
+ * - 只允许 http/https 且不指向本机或内网地址，重定向的每一跳都会重新校验
+ * - 结果按 URL 缓存在 KV 中，抓取失败的结果缓存较短时间，避免反复请求同一个失效地址
+ */
+
+import type { Env } from './types'
+import { isPrivateHost } from './private-host'
+
+export interface UnfurlMetadata {
+  url: string
+  /** 跟随重定向后的最终地址 */
+  final_url: string
+  title: string | null
+  description: string | null
+  /** 封面图（og:image、twitter:image 或 JSON-LD image） */
+  image: string | null
+  favicon: string | null
+  site_name: string | null
+  fetched_at: string
+}
+
+export type UnfurlResult =
+  | { success: true; metadata: UnfurlMetadata; cached: boolean }
+  | { success: false; code: 'URL_NOT_ALLOWED' | 'UNFURL_FAILED'; message: string }
+
+export interface UnfurlOptions {
+  /** 自定义 fetch（本地调试时可指向 HTTP 桩） */
+  fetcher?: typeof fetch
+  timeoutMs?: number
+  maxBytes?: number
+  /** 允许抓取本机和内网地址（仅用于本地 HTTP 桩调试） */
+  allowPrivateHosts?: boolean
+  /** 跳过缓存重新抓取 */
+  refresh?: boolean
+}
+
+export const UNFURL_TIMEOUT_MS = 8000
+export const UNFURL_MAX_BYTES = 512 * 1024
+const MAX_REDIRECTS = 5
+const CACHE_TTL_SECONDS = 24 * 60 * 60
+const FAILURE_CACHE_TTL_SECONDS = 10 * 60
+const MAX_TEXT_LENGTH = { title: 500, description: 1000, url: 2000 }
+const USER_AGENT = 'Mozilla/5.0 (compatible; TMarks-Unfurl/1.0)'
+
+type CachedUnfurl = { ok: true; metadata: UnfurlMetadata } | { ok: false; message: string }
+
+class UnfurlError extends Error {
+  constructor(public code: 'URL_NOT_ALLOWED' | 'UNFURL_FAILED', message: string) {
+    super(message)
+  }
+}
+
+function assertFetchable(url: URL, allowPrivateHosts: boolean) {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new UnfurlError('URL_NOT_ALLOWED', 'Only http and https URLs can be unfurled')
+  }
+  if (!allowPrivateHosts && isPrivateHost(url.hostname)) {
+    throw new UnfurlError('URL_NOT_ALLOWED', 'URL host is not allowed')
+  }
+}
+
+async function cacheKey(url: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(url))
+  const hex = Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+  return `unfurl:${hex}`
+}
+
+/**
+ * 读取响应体，超过 maxBytes 后截断并取消剩余的下载
+ */
+export async function readLimited(response: Response, maxBytes: number): Promise<Uint8Array> {
+  if (!response.body) return new Uint8Array()
+
+  const reader = response.body.getReader()
+  const chunks: Uint8Array[] = []
+  let total = 0
+
+  while (total < maxBytes) {
+    const { done, value } = await reader.read()
+    if (done) break
+    chunks.push(value)
+    total += value.byteLength
+  }
+  if (total >= maxBytes) {
+    await reader.cancel().catch(() => undefined)
+  }
+
+  const bytes = new Uint8Array(Math.min(total, maxBytes))
+  let offset = 0
+  for (const chunk of chunks) {
+    const part = chunk.subarray(0, bytes.length - offset)
+    bytes.set(part, offset)
+    offset += part.length
+    if (offset >= bytes.length) break
+  }
+  return bytes
+}
+
+/**
+ * 按 Content-Type 或 <meta charset> 解码 HTML，未知编码按 UTF-8 处理
+ */
+function decodeHtml(bytes: Uint8Array, contentType: string): string {
+  let charset = contentType.match(/charset=["']?([\w-]+)/i)?.[1]
+  if (!charset) {
+    const head = new TextDecoder('latin1').decode(bytes.subarray(0, 2048))
+    charset = head.match(/<meta[^>]+charset=["']?([\w-]+)/i)?.[1]
+  }
+
+  try {
+    return new TextDecoder(charset || 'utf-8').decode(bytes)
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes)
+  }
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, body: string) => {
+    if (body[0] === '#') {
+      const code = body[1].toLowerCase() === 'x' ? parseInt(body.slice(2), 16) : parseInt(body.slice(1), 10)
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity
+    }
+    return NAMED_ENTITIES[body.toLowerCase()] ?? entity
+  })
+}
+
+function cleanText(value: unknown, maxLength: number): string | null {
+  if (typeof value !== 'string') return null
+  const text = decodeEntities(value).replace(/\s+/g, ' ').trim()
+  return text ? text.slice(0, maxLength) : null
+}
+
+function parseAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {}
+  const pattern = /([^\s=/>]+)\s*=\s*("([^"]*)"|'([^']*)'|([^\s>]+))/g
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(tag))) {
+    attributes[match[1].toLowerCase()] = match[3] ?? match[4] ?? match[5] ?? ''
+  }
+  return attributes
+}
+
+function resolveUrl(value: string | null | undefined, baseUrl: string): string | null {
+  if (!value) return null
+  try {
+    const resolved = new URL(decodeEntities(value.trim()), baseUrl)
+    if (resolved.protocol !== 'http:' && resolved.protocol !== 'https:') return null
+    return resolved.href.slice(0, MAX_TEXT_LENGTH.url)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * 从 JSON-LD 中找出描述页面主体的对象（跳过 BreadcrumbList、WebSite 等辅助节点）
+ */
+function findJsonLdEntity(scripts: string[]): Record<string, unknown> | null {
+  const candidates: Record<string, unknown>[] = []
+
+  const collect = (node: unknown) => {
+    if (Array.isArray(node)) {
+      node.forEach(collect)
+    } else if (node && typeof node === 'object') {
+      const record = node as Record<string, unknown>
+      if (Array.isArray(record['@graph'])) {
+        collect(record['@graph'])
+      } else {
+        candidates.push(record)
+      }
+    }
+  }
+
+  for (const script of scripts) {
+    try {
+      collect(JSON.parse(script))
+    } catch {
+      // 忽略格式错误的 JSON-LD
+    }
+  }
+
+  const auxiliaryTypes = new Set(['BreadcrumbList', 'WebSite', 'Organization', 'SearchAction', 'ImageObject'])
+  const isAuxiliary = (entity: Record<string, unknown>) => {
+    const types = Array.isArray(entity['@type']) ? entity['@type'] : [entity['@type']]
+    return types.every(type => typeof type !== 'string' || auxiliaryTypes.has(type))
+  }
+
+  return candidates.find(entity => !isAuxiliary(entity) && (entity.headline || entity.name)) ?? null
+}
+
+function jsonLdImage(value: unknown): string | null {
+  if (typeof value === 'string') return value
+  if (Array.isArray(value)) return jsonLdImage(value[0])
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>
+    return typeof record.url === 'string' ? record.url : null
+  }
+  return null
+}
+
+/**
+ * 挑选图标：优先 rel=icon 中尺寸最大的，其次 apple-touch-icon，最后退回站点根目录的 /favicon.ico
+ */
+function pickFavicon(links: Array<Record<string, string>>, baseUrl: string): string | null {
+  const icons = links
+    .map(link => {
+      const rel = (link.rel || '').toLowerCase().split(/\s+/)
+      const priority = rel.includes('icon') ? 2 : rel.includes('apple-touch-icon') ? 1 : 0
+      const size = Math.max(0, ...(link.sizes || '').split(/\s+/).map(size => parseInt(size, 10) || 0))
+      return { href: resolveUrl(link.href, baseUrl), priority, size }
+    })
+    .filter(icon => icon.priority > 0 && icon.href)
+    .sort((a, b) => b.priority - a.priority || b.size - a.size)
+
+  if (icons.length > 0) return icons[0].href
+  try {
+    return new URL('/favicon.ico', baseUrl).href
+  } catch {
+    return null
+  }
+}
+
+/**
+ * 解析 HTML 中的元数据
+ */
+export function parseHtmlMetadata(html: string, pageUrl: string): Omit<UnfurlMetadata, 'url' | 'final_url' | 'fetched_at'> {
+  // 元数据都在 <head> 中，找不到 </head> 时解析全部已读取的内容
+  const headEnd = html.search(/<\/head\s*>/i)
+  const head = headEnd >= 0 ? html.slice(0, headEnd) : html
+
+  const meta: Record<string, string> = {}
+  for (const [tag] of head.matchAll(/<meta\b[^>]*>/gi)) {
+    const attributes = parseAttributes(tag)
+    const key = (attributes.property || attributes.name || attributes.itemprop || '').toLowerCase()
+    if (key && attributes.content !== undefined && !(key in meta)) {
+      meta[key] = attributes.content
+    }
+  }
+
+  const links = Array.from(head.matchAll(/<link\b[^>]*>/gi), ([tag]) => parseAttributes(tag))
+  const baseHref = head.match(/<base\b[^>]*>/i)?.[0]
+  const baseUrl = resolveUrl(baseHref ? parseAttributes(baseHref).href : null, pageUrl) ?? pageUrl
+
+  const jsonLdScripts = Array.from(
+    html.matchAll(/<script\b[^>]*type\s*=\s*["']?application\/ld\+json["']?[^>]*>([\s\S]*?)<\/script>/gi),
+    match => match[1]
+  )
+  const jsonLd = findJsonLdEntity(jsonLdScripts)
+  const publisher = jsonLd?.publisher as Record<string, unknown> | undefined
+
+  const titleTag = head.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1]
+
+  return {
+    title:
+      cleanText(meta['og:title'], MAX_TEXT_LENGTH.title) ??
+      cleanText(meta['twitter:title'], MAX_TEXT_LENGTH.title) ??
+      cleanText(jsonLd?.headline, MAX_TEXT_LENGTH.title) ??
+      cleanText(jsonLd?.name, MAX_TEXT_LENGTH.title) ??
+      cleanText(titleTag, MAX_TEXT_LENGTH.title),
+    description:
+      cleanText(meta['og:description'], MAX_TEXT_LENGTH.description) ??
+      cleanText(meta['twitter:description'], MAX_TEXT_LENGTH.description) ??
+      cleanText(jsonLd?.description, MAX_TEXT_LENGTH.description) ??
+      cleanText(meta['description'], MAX_TEXT_LENGTH.description),
+    image:
+      resolveUrl(meta['og:image:secure_url'] ?? meta['og:image'] ?? meta['og:image:url'], baseUrl) ??
+      resolveUrl(meta['twitter:image'] ?? meta['twitter:image:src'], baseUrl) ??
+      resolveUrl(jsonLdImage(jsonLd?.image), baseUrl) ??
+      resolveUrl(links.find(link => (link.rel || '').toLowerCase() === 'image_src')?.href, baseUrl),
+    favicon: pickFavicon(links, baseUrl),
+    site_name:
+      cleanText(meta['og:site_name'], MAX_TEXT_LENGTH.title) ??
+      cleanText(meta['application-name'], MAX_TEXT_LENGTH.title) ??
+      cleanText(publisher?.name, MAX_TEXT_LENGTH.title),
+  }
+}
+
+/**
+ * 手动跟随重定向发起 GET 请求，每一跳都校验目标地址；非 2xx 响应抛出 UNFURL_FAILED
+ * 返回成功的响应（响应体尚未读取）和最终地址
+ */
+export async function fetchFollowingRedirects(
+  url: string,
+  accept: string,
+  options: UnfurlOptions = {}
+): Promise<{ response: Response; finalUrl: string }> {
+  const fetcher = options.fetcher ?? fetch
+  const signal = AbortSignal.timeout(options.timeoutMs ?? UNFURL_TIMEOUT_MS)
+  const allowPrivateHosts = Boolean(options.allowPrivateHosts)
+
+  let currentUrl = new URL(url)
+  let response: Response | null = null
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    assertFetchable(currentUrl, allowPrivateHosts)
+    response = await fetcher(currentUrl.href, {
+      method: 'GET',
+      redirect: 'manual',
+      headers: {
+        'User-Agent': USER_AGENT,
+        Accept: accept,
+      },
+      signal,
+    })
+
+    const location = response.headers.get('location')
+    if (response.status >= 300 && response.status < 400 && location) {
+      await response.body?.cancel()
+      currentUrl = new URL(location, currentUrl)
+      response = null
+      continue
+    }
+    break
+  }
+
+  if (!response) {
+    throw new UnfurlError('UNFURL_FAILED', `Too many redirects (>${MAX_REDIRECTS})`)
+  }
+  if (!response.ok) {
+    await response.body?.cancel()
+    throw new UnfurlError('UNFURL_FAILED', `HTTP ${response.status}`)
+  }
+
+  return { response, finalUrl: currentUrl.href }
+}
+
+/**
+ * 抓取网页并解析元数据（不读写缓存）
+ */
+async function fetchMetadata(url: string, options: UnfurlOptions): Promise<UnfurlMetadata> {
+  const { response, finalUrl } = await fetchFollowingRedirects(
+    url,
+    'text/html,application/xhtml+xml;q=0.9,*/*;q=0.5',
+    options
+  )
+  const contentType = response.headers.get('content-type') || ''
+  const base: UnfurlMetadata = {
+    url,
+    final_url: finalUrl,
+    title: null,
+    description: null,
+    image: null,
+    favicon: null,
+    site_name: null,
+    fetched_at: new Date().toISOString(),
+  }
+
+  // 图片等非 HTML 资源没有可解析的元数据
+  if (contentType && !/text\/html|application\/xhtml\+xml/i.test(contentType)) {
+    await response.body?.cancel()
+    if (contentType.startsWith('image/')) {
+      return { ...base, image: finalUrl, favicon: pickFavicon([], finalUrl) }
+    }
+    return { ...base, favicon: pickFavicon([], finalUrl) }
+  }
+
+  const bytes = await readLimited(response, options.maxBytes ?? UNFURL_MAX_BYTES)
+  return { ...base, ...parseHtmlMetadata(decodeHtml(bytes, contentType), finalUrl) }
+}
+
+/**
+ * 获取 URL 的元数据，优先读取 KV 缓存
+ */
+export async function unfurlUrl(env: Pick<Env, 'TMARKS_KV'>, url: string, options: UnfurlOptions = {}): Promise<UnfurlResult> {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+    assertFetchable(parsed, Boolean(options.allowPrivateHosts))
+  } catch (error) {
+    if (error instanceof UnfurlError) {
+      return { success: false, code: error.code, message: error.message }
+    }
+    return { success: false, code: 'URL_NOT_ALLOWED', message: 'Invalid URL' }
+  }
+
+  const kv = env.TMARKS_KV
+  const key = await cacheKey(parsed.href)
+
+  if (kv && !options.refresh) {
+    const cached = await kv.get<CachedUnfurl>(key, 'json').catch(() => null)
+    if (cached?.ok) {
+      return { success: true, metadata: { ...cached.metadata, url }, cached: true }
+    }
+    if (cached && !cached.ok) {
+      return { success: false, code: 'UNFURL_FAILED', message: cached.message }
+    }
+  }
+
+  try {
+    const metadata = await fetchMetadata(parsed.href, options)
+    if (kv) {
+      const entry: CachedUnfurl = { ok: true, metadata }
+      await kv
+        .put(key, JSON.stringify(entry), { expirationTtl: CACHE_TTL_SECONDS })
+        .catch(error => console.warn('Failed to cache unfurl result:', error))
+    }
+    return { success: true, metadata: { ...metadata, url }, cached: false }
+  } catch (error) {
+    if (error instanceof UnfurlError && error.code === 'URL_NOT_ALLOWED') {
+      return { success: false, code: error.code, message: error.message }
+    }
+
+    const message = error instanceof Error
+      ? error.name === 'TimeoutError' || error.name === 'AbortError'
+        ? 'Timed out fetching URL'
+        : error.message
+      : String(error)
+
+    if (kv) {
+      const entry: CachedUnfurl = { ok: false, message }
+      await kv
+        .put(key, JSON.stringify(entry), { expirationTtl: FAILURE_CACHE_TTL_SECONDS })
+        .catch(cacheError => console.warn('Failed to cache unfurl result:', cacheError))
+    }
+    return { success: false, code: 'UNFURL_FAILED', message }
+  }
+}
+
+/** 导入后补全元数据每次最多抓取的书签数（受 Workers 单次调用的子请求数上限约束） */
+export const BACKFILL_MAX_BOOKMARKS = 40
+const BACKFILL_CONCURRENCY = 5
+/** D1 单条语句最多绑定 100 个参数，IN 查询需要分批 */
+const IN_CHUNK_SIZE = 90
+
+interface BackfillRow {
+  id: string
+  url: string
+  title: string
+  favicon: string | null
+}
+
+/**
+ * 为缺少标题或图标的书签补全元数据（用于导入后的后台任务）
+ * 只填充缺失的字段，不覆盖已有内容，返回实际更新的书签数
+ */
+export async function backfillBookmarkMetadata(
+  env: Pick<Env, 'DB' | 'TMARKS_KV'>,
+  userId: string,
+  bookmarkIds: string[],
+  options: UnfurlOptions & { limit?: number } = {}
+): Promise<number> {
+  const limit = options.limit ?? BACKFILL_MAX_BOOKMARKS
+  const rows: BackfillRow[] = []
+
+  for (let i = 0; i < bookmarkIds.length && rows.length < limit; i += IN_CHUNK_SIZE) {
+    const chunk = bookmarkIds.slice(i, i + IN_CHUNK_SIZE)
+    const { results } = await env.DB
+      .prepare(
+        `SELECT id, url, title, favicon
+         FROM bookmarks
+         WHERE user_id = ? AND deleted_at IS NULL
+           AND id IN (${chunk.map(() => '?').join(',')})
+           AND (favicon IS NULL OR favicon = '' OR TRIM(title) = '' OR title = 'Untitled' OR title = url)
+         LIMIT ?`
+      )
+      .bind(userId, ...chunk, limit - rows.length)
+      .all<BackfillRow>()
+    rows.push(...(results || []))
+  }
+
+  let updated = 0
+  const queue = [...rows]
+
+  const worker = async () => {
+    for (let row = queue.shift(); row; row = queue.shift()) {
+      const result = await unfurlUrl(env, row.url, options)
+      if (!result.success) continue
+
+      const { title, favicon } = result.metadata
+      const titleMissing = !row.title.trim() || row.title === 'Untitled' || row.title === row.url
+      const nextTitle = titleMissing && title ? title : null
+      const nextFavicon = !row.favicon && favicon ? favicon : null
+      if (!nextTitle && !nextFavicon) continue
+
+      await env.DB
+        .prepare('UPDATE bookmarks SET title = COALESCE(?, title), favicon = COALESCE(?, favicon) WHERE id = ?')
+        .bind(nextTitle, nextFavicon, row.id)
+        .run()
+      updated++
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(BACKFILL_CONCURRENCY, rows.length) }, worker))
+  return updated
+}
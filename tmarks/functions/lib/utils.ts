@@ -2,3 +2,27 @@ export function generateSlug(): string {
   const uuid = crypto.randomUUID().replace(/-/g, '')
   return uuid.slice(0, 10)
 }
+
+/**
+ * 转义 XML / HTML 文本和属性值，并去掉 XML 不允许的控制字符
+ */
+export function escapeXml(value: string): string {
+  return value
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+/**
+ * 数据库时间可能是 ISO 字符串，也可能是 SQLite 的 "YYYY-MM-DD HH:MM:SS"（UTC），统一转为 ISO 8601
+ */
+export function toIsoTimestamp(value: string | null | undefined): string | null {
+  if (!value) return null
+  const normalized = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(value) ? `${value.replace(' ', 'T')}Z` : value
+  const date = new Date(normalized)
+  return Number.isNaN(date.getTime()) ? null : date.toISOString()
+}
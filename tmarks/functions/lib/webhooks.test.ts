@@ -0,0 +1,290 @@
+import { createHmac } from 'node:crypto'
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  RETRY_DELAYS_MS,
+  WEBHOOK_BATCH_SIZE,
+  dispatchWebhookEventBatch,
+  retryWebhookDeliveries,
+  sendWebhookPing,
+  type WebhookRow,
+} from './webhooks'
+
+interface ReceivedRequest {
+  path: string
+  headers: IncomingMessage['headers']
+  body: string
+}
+
+/** 本地接收端：每个路径对应一种响应 */
+const routes: Record<string, (req: IncomingMessage, res: ServerResponse) => void> = {
+  '/ok': (_req, res) => {
+    res.writeHead(200)
+    res.end('received')
+  },
+  '/fail': (_req, res) => {
+    res.writeHead(500)
+    res.end('boom')
+  },
+  '/redirect': (_req, res) => {
+    res.writeHead(302, { Location: '/ok' })
+    res.end()
+  },
+  // 不响应，等待投递超时
+  '/hang': () => {},
+}
+
+let server: Server
+let baseUrl: string
+let received: ReceivedRequest[] = []
+let onRequest: ((request: ReceivedRequest) => void) | null = null
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const chunks: Buffer[] = []
+    req.on('data', chunk => chunks.push(chunk))
+    req.on('end', () => {
+      const request = { path: req.url || '/', headers: req.headers, body: Buffer.concat(chunks).toString('utf8') }
+      received.push(request)
+      onRequest?.(request)
+      const handler = routes[request.path]
+      if (handler) {
+        handler(req, res)
+      } else {
+        res.writeHead(404)
+        res.end()
+      }
+    })
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+})
+
+afterAll(async () => {
+  server.closeAllConnections()
+  await new Promise(resolve => server.close(resolve))
+})
+
+beforeEach(() => {
+  received = []
+  onRequest = null
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+type DeliveryRecord = Record<string, unknown> & { id: string; status: string; next_attempt_at: string | null }
+
+/** 内存版 D1，只实现 webhooks.ts 用到的语句 */
+function createDb(webhooks: WebhookRow[]) {
+  const deliveries: DeliveryRecord[] = []
+
+  const execute = (sql: string, args: unknown[]): { rows: unknown[]; changes: number } => {
+    if (sql.startsWith('INSERT INTO webhook_deliveries')) {
+      const [id, webhook_id, user_id, event, payload, next_attempt_at, created_at] = args as string[]
+      deliveries.push({
+        id,
+        webhook_id,
+        user_id,
+        event,
+        payload,
+        status: 'pending',
+        attempt_count: 0,
+        next_attempt_at,
+        response_status: null,
+        response_body: null,
+        error: null,
+        duration_ms: null,
+        created_at,
+        delivered_at: null,
+      })
+      return { rows: [], changes: 1 }
+    }
+    if (sql.startsWith('UPDATE webhook_deliveries SET status = ?, attempt_count = ?')) {
+      const [status, attempt_count, next_attempt_at, response_status, response_body, error, duration_ms, delivered_at, id] =
+        args as [string, number, string | null, number | null, string | null, string | null, number, string | null, string]
+      const row = deliveries.find(delivery => delivery.id === id)
+      if (!row) return { rows: [], changes: 0 }
+      Object.assign(row, { status, attempt_count, next_attempt_at, response_status, response_body, error, duration_ms, delivered_at })
+      return { rows: [], changes: 1 }
+    }
+    if (sql.startsWith('UPDATE webhooks SET last_delivery_at')) {
+      const [last_delivery_at, last_delivery_status, id] = args as [string, WebhookRow['last_delivery_status'], string]
+      const webhook = webhooks.find(row => row.id === id)
+      if (webhook) Object.assign(webhook, { last_delivery_at, last_delivery_status })
+      return { rows: [], changes: webhook ? 1 : 0 }
+    }
+    if (sql.startsWith('SELECT * FROM webhooks WHERE user_id = ? AND is_active = 1')) {
+      return { rows: webhooks.filter(row => row.user_id === args[0] && row.is_active === 1), changes: 0 }
+    }
+    if (sql.startsWith('SELECT * FROM webhooks WHERE id = ?')) {
+      return { rows: webhooks.filter(row => row.id === args[0]), changes: 0 }
+    }
+    if (sql.startsWith("UPDATE webhook_deliveries SET status = 'failed'")) {
+      return { rows: [], changes: 0 }
+    }
+    if (sql.startsWith('SELECT d.* FROM webhook_deliveries d')) {
+      const [now, limit] = args as [string, number]
+      const rows = deliveries
+        .filter(row => row.status === 'pending' && row.next_attempt_at !== null && row.next_attempt_at <= now)
+        .sort((a, b) => String(a.next_attempt_at).localeCompare(String(b.next_attempt_at)))
+        .slice(0, limit)
+      return { rows: rows.map(row => ({ ...row })), changes: 0 }
+    }
+    if (sql.startsWith('UPDATE webhook_deliveries SET next_attempt_at = ?')) {
+      const [lease, id, expected] = args as string[]
+      const row = deliveries.find(delivery => delivery.id === id)
+      if (!row || row.status !== 'pending' || row.next_attempt_at !== expected) return { rows: [], changes: 0 }
+      row.next_attempt_at = lease
+      return { rows: [], changes: 1 }
+    }
+    throw new Error(`Unexpected SQL: ${sql}`)
+  }
+
+  const prepare = (query: string) => {
+    const sql = query.replace(/\s+/g, ' ').trim()
+    const bound = (args: unknown[]) => ({
+      bind: (...next: unknown[]) => bound(next),
+      async all() {
+        return { results: execute(sql, args).rows }
+      },
+      async first() {
+        return execute(sql, args).rows[0] ?? null
+      },
+      async run() {
+        return { meta: { changes: execute(sql, args).changes } }
+      },
+    })
+    return bound([])
+  }
+
+  const db = {
+    prepare,
+    async batch(statements: Array<{ run(): Promise<unknown> }>) {
+      for (const statement of statements) await statement.run()
+      return []
+    },
+  }
+
+  const env = {
+    DB: db,
+    ENVIRONMENT: 'production',
+    // 接收端在 127.0.0.1，需要放开内网地址限制
+    WEBHOOK_ALLOW_PRIVATE_HOSTS: 'true',
+  } as unknown as Parameters<typeof sendWebhookPing>[0]
+
+  return { env, deliveries }
+}
+
+function createWebhook(path: string, overrides: Partial<WebhookRow> = {}): WebhookRow {
+  return {
+    id: `webhook-${path.slice(1)}`,
+    user_id: 'user-1',
+    url: `${baseUrl}${path}`,
+    secret: 'whsec_test',
+    events: JSON.stringify(['bookmark.deleted']),
+    description: null,
+    is_active: 1,
+    last_delivery_at: null,
+    last_delivery_status: null,
+    created_at: '2024-01-01T00:00:00.000Z',
+    updated_at: '2024-01-01T00:00:00.000Z',
+    ...overrides,
+  }
+}
+
+describe('webhook delivery', () => {
+  it('signs the timestamp and body with HMAC-SHA256', async () => {
+    const webhook = createWebhook('/ok')
+    const { env } = createDb([webhook])
+
+    const delivery = await sendWebhookPing(env, webhook)
+
+    expect(delivery.status).toBe('success')
+    expect(received).toHaveLength(1)
+    const [request] = received
+    const timestamp = request.headers['x-tmarks-timestamp'] as string
+    const expected = createHmac('sha256', webhook.secret).update(`${timestamp}.${request.body}`).digest('hex')
+    expect(request.headers['x-tmarks-signature']).toBe(`sha256=${expected}`)
+    expect(request.headers['x-tmarks-event']).toBe('ping')
+    expect(request.headers['x-tmarks-delivery']).toBe(delivery.id)
+  })
+
+  it('backs off through every retry delay and then fails', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2024-01-01T00:00:00.000Z'))
+    const webhook = createWebhook('/fail')
+    const { env, deliveries } = createDb([webhook])
+
+    const first = await sendWebhookPing(env, webhook)
+    expect(first).toMatchObject({ status: 'pending', attempt_count: 1, response_status: 500, error: 'HTTP 500' })
+    expect(Date.parse(first.next_attempt_at!) - Date.now()).toBe(RETRY_DELAYS_MS[0])
+
+    for (let retry = 1; retry <= RETRY_DELAYS_MS.length; retry++) {
+      const [row] = deliveries
+      vi.setSystemTime(new Date(row.next_attempt_at!))
+      expect(await retryWebhookDeliveries(env, 10)).toEqual({ attempted: 1, succeeded: 0 })
+      expect(row.attempt_count).toBe(retry + 1)
+
+      if (retry < RETRY_DELAYS_MS.length) {
+        expect(row.status).toBe('pending')
+        expect(Date.parse(row.next_attempt_at!) - Date.now()).toBe(RETRY_DELAYS_MS[retry])
+      }
+    }
+
+    expect(deliveries[0]).toMatchObject({ status: 'failed', next_attempt_at: null, error: 'HTTP 500' })
+    expect(received).toHaveLength(RETRY_DELAYS_MS.length + 1)
+    expect(await retryWebhookDeliveries(env, 10)).toEqual({ attempted: 0, succeeded: 0 })
+  })
+
+  it('schedules a retry when the receiver times out', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] })
+    const webhook = createWebhook('/hang')
+    const { env } = createDb([webhook])
+    const arrived = new Promise<void>(resolve => {
+      onRequest = () => resolve()
+    })
+
+    const pending = sendWebhookPing(env, webhook)
+    await arrived
+    await vi.advanceTimersByTimeAsync(10 * 1000)
+    const delivery = await pending
+
+    expect(delivery).toMatchObject({ status: 'pending', attempt_count: 1, response_status: null, error: 'Request timed out' })
+    expect(Date.parse(delivery.next_attempt_at!) - Date.now()).toBeGreaterThan(RETRY_DELAYS_MS[0] - 1000)
+    server.closeAllConnections()
+  })
+
+  it('treats redirects as failures without following them', async () => {
+    const webhook = createWebhook('/redirect')
+    const { env } = createDb([webhook])
+
+    const delivery = await sendWebhookPing(env, webhook)
+
+    expect(delivery).toMatchObject({ status: 'pending', response_status: 302, error: 'HTTP 302' })
+    expect(received.map(request => request.path)).toEqual(['/redirect'])
+  })
+})
+
+describe('dispatchWebhookEventBatch', () => {
+  it('splits items into WEBHOOK_BATCH_SIZE deliveries for subscribed webhooks only', async () => {
+    const subscribed = createWebhook('/ok')
+    const unsubscribed = createWebhook('/fail', { events: JSON.stringify(['bookmark.created']) })
+    const { env, deliveries } = createDb([subscribed, unsubscribed])
+    const ids = Array.from({ length: WEBHOOK_BATCH_SIZE * 2 + 5 }, (_, i) => `bookmark-${i}`)
+
+    await dispatchWebhookEventBatch(env, 'user-1', 'bookmark.deleted', ids, chunk => ({
+      bookmarks: chunk.map(id => ({ id })),
+      source: 'bulk_action',
+    }))
+
+    expect(received.map(request => request.path)).toEqual(['/ok', '/ok', '/ok'])
+    const batches = received.map(request => JSON.parse(request.body))
+    expect(batches.map(batch => batch.data.bookmarks.length)).toEqual([WEBHOOK_BATCH_SIZE, WEBHOOK_BATCH_SIZE, 5])
+    expect(batches.flatMap(batch => batch.data.bookmarks.map((bookmark: { id: string }) => bookmark.id))).toEqual(ids)
+    expect(new Set(batches.map(batch => batch.id)).size).toBe(3)
+    expect(deliveries.every(delivery => delivery.status === 'success')).toBe(true)
+  })
+})
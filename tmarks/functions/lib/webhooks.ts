@@ -0,0 +1,536 @@
+/**
+ * 出站 Webhook
+ *
+ * 用户登记接收地址并选择订阅的事件，事件发生时为每个订阅的 Webhook 写入一条投递记录并立即投递。
+ * - 请求体为 JSON：{ id, event, created_at, data }，重新投递时请求体不变（id 相同，接收方可据此去重）
+ * - 签名：X-TMarks-Signature: sha256=<hex>，为 HMAC-SHA256(secret, `${X-TMarks-Timestamp}.${body}`)
+ * - 投递失败（非 2xx、超时、网络错误）按 RETRY_DELAYS_MS 退避，由定时任务 Worker 重试，用完次数后标记为失败
+ * - 批量操作（批量删除与修改、合并重复、回收站清理、导入）按 WEBHOOK_BATCH_SIZE 分批，每批一次投递，
+ *   data 为 { bookmarks: [...], source }，单条操作的 data 为 { bookmark }
+ */
+
+import type { Env } from './types'
+import { generateUUID } from './crypto'
+import { isPrivateHost } from './private-host'
+
+export const WEBHOOK_EVENTS = [
+  'bookmark.created',
+  'bookmark.updated',
+  'bookmark.deleted',
+  'tag.created',
+  'tag.deleted',
+  'tab_group.created',
+  'tab_group.deleted',
+  'tab_group.shared',
+  'snapshot.created',
+] as const
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number]
+
+/** 测试投递使用的事件，不需要订阅 */
+export const WEBHOOK_PING_EVENT = 'ping'
+
+export const MAX_WEBHOOKS_PER_USER = 10
+/** 首次投递失败后的重试间隔，共重试 RETRY_DELAYS_MS.length 次 */
+export const RETRY_DELAYS_MS = [60 * 1000, 5 * 60 * 1000, 30 * 60 * 1000, 2 * 60 * 60 * 1000, 12 * 60 * 60 * 1000]
+const DELIVERY_TIMEOUT_MS = 10 * 1000
+/** 投递进行中的占用时长，避免定时任务与请求内投递重复发送 */
+const DELIVERY_LEASE_MS = 2 * 60 * 1000
+/** 投递记录中保存的响应内容长度 */
+const RESPONSE_BODY_MAX_CHARS = 1024
+/** 投递记录保留天数 */
+export const WEBHOOK_DELIVERY_RETENTION_DAYS = 30
+/** 批量事件每次投递包含的最大条目数 */
+export const WEBHOOK_BATCH_SIZE = 100
+
+export type WebhookDeliveryStatus = 'pending' | 'success' | 'failed'
+
+export interface WebhookRow {
+  id: string
+  user_id: string
+  url: string
+  secret: string
+  events: string
+  description: string | null
+  is_active: number
+  last_delivery_at: string | null
+  last_delivery_status: WebhookDeliveryStatus | null
+  created_at: string
+  updated_at: string
+}
+
+export interface Webhook {
+  id: string
+  url: string
+  events: WebhookEvent[]
+  description: string | null
+  is_active: boolean
+  /** 密钥末尾 4 位，完整密钥只在创建和重新生成时返回 */
+  secret_hint: string
+  last_delivery_at: string | null
+  last_delivery_status: WebhookDeliveryStatus | null
+  created_at: string
+  updated_at: string
+}
+
+interface WebhookDeliveryRow {
+  id: string
+  webhook_id: string
+  user_id: string
+  event: string
+  payload: string
+  status: WebhookDeliveryStatus
+  attempt_count: number
+  next_attempt_at: string | null
+  response_status: number | null
+  response_body: string | null
+  error: string | null
+  duration_ms: number | null
+  created_at: string
+  delivered_at: string | null
+}
+
+export interface WebhookDelivery {
+  id: string
+  webhook_id: string
+  event: string
+  payload: unknown
+  status: WebhookDeliveryStatus
+  attempt_count: number
+  next_attempt_at: string | null
+  response_status: number | null
+  response_body: string | null
+  error: string | null
+  duration_ms: number | null
+  created_at: string
+  delivered_at: string | null
+}
+
+type WebhookEnv = Pick<Env, 'DB' | 'ENVIRONMENT' | 'WEBHOOK_ALLOW_PRIVATE_HOSTS'>
+
+export function isWebhookEvent(value: unknown): value is WebhookEvent {
+  return typeof value === 'string' && (WEBHOOK_EVENTS as readonly string[]).includes(value)
+}
+
+/**
+ * 规范化订阅事件列表，忽略未知事件
+ */
+export function normalizeWebhookEvents(value: unknown): WebhookEvent[] {
+  if (!Array.isArray(value)) return []
+  return WEBHOOK_EVENTS.filter(event => value.includes(event))
+}
+
+/**
+ * 生成签名密钥（whsec_ + 64 位十六进制）
+ */
+export function generateWebhookSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32))
+  return `whsec_${Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('')}`
+}
+
+/**
+ * 是否允许投递到内网地址：开发环境或显式开启 WEBHOOK_ALLOW_PRIVATE_HOSTS 时允许（便于使用本地接收端调试）
+ */
+function allowPrivateHosts(env: WebhookEnv): boolean {
+  return env.ENVIRONMENT === 'development' || env.WEBHOOK_ALLOW_PRIVATE_HOSTS === 'true'
+}
+
+/**
+ * 校验接收地址，返回错误信息；合法时返回 null
+ */
+export function validateWebhookUrl(env: WebhookEnv, value: unknown): string | null {
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    return 'URL is required'
+  }
+  if (value.length > 2048) {
+    return 'URL is too long'
+  }
+
+  let url: URL
+  try {
+    url = new URL(value.trim())
+  } catch {
+    return 'Invalid URL'
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return 'URL must use http or https'
+  }
+  if (url.username || url.password) {
+    return 'URL must not contain credentials'
+  }
+  if (!allowPrivateHosts(env) && isPrivateHost(url.hostname)) {
+    return 'Private network addresses are not allowed'
+  }
+  return null
+}
+
+export function toWebhook(row: WebhookRow): Webhook {
+  let events: unknown = []
+  try {
+    events = JSON.parse(row.events)
+  } catch {
+    // 忽略损坏的事件列表
+  }
+  return {
+    id: row.id,
+    url: row.url,
+    events: normalizeWebhookEvents(events),
+    description: row.description,
+    is_active: row.is_active === 1,
+    secret_hint: row.secret.slice(-4),
+    last_delivery_at: row.last_delivery_at,
+    last_delivery_status: row.last_delivery_status,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  }
+}
+
+function toWebhookDelivery(row: WebhookDeliveryRow): WebhookDelivery {
+  let payload: unknown = null
+  try {
+    payload = JSON.parse(row.payload)
+  } catch {
+    payload = row.payload
+  }
+  return {
+    id: row.id,
+    webhook_id: row.webhook_id,
+    event: row.event,
+    payload,
+    status: row.status,
+    attempt_count: row.attempt_count,
+    next_attempt_at: row.next_attempt_at,
+    response_status: row.response_status,
+    response_body: row.response_body,
+    error: row.error,
+    duration_ms: row.duration_ms,
+    created_at: row.created_at,
+    delivered_at: row.delivered_at,
+  }
+}
+
+export async function getWebhookRow(db: D1Database, userId: string, webhookId: string): Promise<WebhookRow | null> {
+  return db
+    .prepare('SELECT * FROM webhooks WHERE id = ? AND user_id = ?')
+    .bind(webhookId, userId)
+    .first<WebhookRow>()
+}
+
+/**
+ * 计算签名（十六进制 HMAC-SHA256）
+ */
+export async function signWebhookPayload(secret: string, timestamp: string, body: string): Promise<string> {
+  const encoder = new TextEncoder()
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, [
+    'sign',
+  ])
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`))
+  return Array.from(new Uint8Array(signature), b => b.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * 写入一条投递记录，并占用一段时间（由调用方随后立即投递）
+ */
+async function createDelivery(
+  db: D1Database,
+  webhook: WebhookRow,
+  event: string,
+  payload: string
+): Promise<WebhookDeliveryRow> {
+  const now = new Date()
+  const row: WebhookDeliveryRow = {
+    id: generateUUID(),
+    webhook_id: webhook.id,
+    user_id: webhook.user_id,
+    event,
+    payload,
+    status: 'pending',
+    attempt_count: 0,
+    next_attempt_at: new Date(now.getTime() + DELIVERY_LEASE_MS).toISOString(),
+    response_status: null,
+    response_body: null,
+    error: null,
+    duration_ms: null,
+    created_at: now.toISOString(),
+    delivered_at: null,
+  }
+  await db
+    .prepare(
+      `INSERT INTO webhook_deliveries (id, webhook_id, user_id, event, payload, status, attempt_count, next_attempt_at, created_at)
+       VALUES (?, ?, ?, ?, ?, 'pending', 0, ?, ?)`
+    )
+    .bind(row.id, row.webhook_id, row.user_id, row.event, row.payload, row.next_attempt_at, row.created_at)
+    .run()
+  return row
+}
+
+/**
+ * 发送一次投递并记录结果
+ */
+async function attemptDelivery(
+  env: WebhookEnv,
+  webhook: WebhookRow,
+  delivery: WebhookDeliveryRow
+): Promise<WebhookDelivery> {
+  const attempt = delivery.attempt_count + 1
+  const startedAt = Date.now()
+  let responseStatus: number | null = null
+  let responseBody: string | null = null
+  let error: string | null = null
+
+  const urlError = validateWebhookUrl(env, webhook.url)
+  if (urlError) {
+    error = urlError
+  } else {
+    const timestamp = Math.floor(startedAt / 1000).toString()
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), DELIVERY_TIMEOUT_MS)
+    try {
+      const response = await fetch(webhook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'TMarks-Webhook/1.0',
+          'X-TMarks-Event': delivery.event,
+          'X-TMarks-Delivery': delivery.id,
+          'X-TMarks-Timestamp': timestamp,
+          'X-TMarks-Signature': `sha256=${await signWebhookPayload(webhook.secret, timestamp, delivery.payload)}`,
+        },
+        body: delivery.payload,
+        redirect: 'manual',
+        signal: controller.signal,
+      })
+      responseStatus = response.status
+      responseBody = (await response.text().catch(() => '')).slice(0, RESPONSE_BODY_MAX_CHARS)
+      if (!response.ok) {
+        error = `HTTP ${response.status}`
+      }
+    } catch (fetchError) {
+      error = controller.signal.aborted
+        ? 'Request timed out'
+        : fetchError instanceof Error
+          ? fetchError.message
+          : String(fetchError)
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  const now = new Date().toISOString()
+  const succeeded = error === null
+  const retryDelay = RETRY_DELAYS_MS[attempt - 1]
+  const status: WebhookDeliveryStatus = succeeded ? 'success' : retryDelay !== undefined ? 'pending' : 'failed'
+  const nextAttemptAt = status === 'pending' ? new Date(Date.now() + retryDelay).toISOString() : null
+  const durationMs = Date.now() - startedAt
+
+  await env.DB.batch([
+    env.DB.prepare(
+      `UPDATE webhook_deliveries
+       SET status = ?, attempt_count = ?, next_attempt_at = ?, response_status = ?, response_body = ?,
+           error = ?, duration_ms = ?, delivered_at = ?
+       WHERE id = ?`
+    ).bind(status, attempt, nextAttemptAt, responseStatus, responseBody, error, durationMs, succeeded ? now : null, delivery.id),
+    env.DB.prepare(
+      `UPDATE webhooks SET last_delivery_at = ?, last_delivery_status = ? WHERE id = ?`
+    ).bind(now, succeeded ? 'success' : 'failed', webhook.id),
+  ])
+
+  return toWebhookDelivery({
+    ...delivery,
+    status,
+    attempt_count: attempt,
+    next_attempt_at: nextAttemptAt,
+    response_status: responseStatus,
+    response_body: responseBody,
+    error,
+    duration_ms: durationMs,
+    delivered_at: succeeded ? now : null,
+  })
+}
+
+function buildPayload(event: string, data: unknown): string {
+  return JSON.stringify({
+    id: generateUUID(),
+    event,
+    created_at: new Date().toISOString(),
+    data,
+  })
+}
+
+async function getSubscribedWebhooks(db: D1Database, userId: string, event: WebhookEvent): Promise<WebhookRow[]> {
+  const { results } = await db.prepare('SELECT * FROM webhooks WHERE user_id = ? AND is_active = 1')
+    .bind(userId)
+    .all<WebhookRow>()
+  return (results || []).filter(row => toWebhook(row).events.includes(event))
+}
+
+/**
+ * 触发事件：投递给用户所有订阅了该事件的启用中的 Webhook
+ * 在请求中通过 context.waitUntil 调用，内部捕获所有错误，不影响业务请求
+ */
+export async function dispatchWebhookEvent(
+  env: WebhookEnv,
+  userId: string,
+  event: WebhookEvent,
+  data: unknown
+): Promise<void> {
+  try {
+    const webhooks = await getSubscribedWebhooks(env.DB, userId, event)
+    if (webhooks.length === 0) return
+
+    const payload = buildPayload(event, data)
+    await Promise.all(
+      webhooks.map(async webhook => {
+        const delivery = await createDelivery(env.DB, webhook, event, payload)
+        await attemptDelivery(env, webhook, delivery)
+      })
+    )
+  } catch (error) {
+    console.error(`[Webhook] Failed to dispatch ${event}:`, error)
+  }
+}
+
+/**
+ * 触发批量事件：items 按 WEBHOOK_BATCH_SIZE 分批，每批由 toData 生成一次投递的 data
+ * 先写入所有批次的投递记录再逐批投递，执行被中断时未投递的批次由定时任务重试；
+ * 与 dispatchWebhookEvent 一样内部捕获所有错误
+ */
+export async function dispatchWebhookEventBatch<T>(
+  env: WebhookEnv,
+  userId: string,
+  event: WebhookEvent,
+  items: T[],
+  toData: (chunk: T[]) => unknown
+): Promise<void> {
+  if (items.length === 0) return
+
+  try {
+    const webhooks = await getSubscribedWebhooks(env.DB, userId, event)
+    if (webhooks.length === 0) return
+
+    const deliveries: Array<{ webhook: WebhookRow; delivery: WebhookDeliveryRow }> = []
+    for (let i = 0; i < items.length; i += WEBHOOK_BATCH_SIZE) {
+      const payload = buildPayload(event, toData(items.slice(i, i + WEBHOOK_BATCH_SIZE)))
+      for (const webhook of webhooks) {
+        deliveries.push({ webhook, delivery: await createDelivery(env.DB, webhook, event, payload) })
+      }
+    }
+
+    for (const { webhook, delivery } of deliveries) {
+      await attemptDelivery(env, webhook, delivery)
+    }
+  } catch (error) {
+    console.error(`[Webhook] Failed to dispatch ${event} batch:`, error)
+  }
+}
+
+/**
+ * 发送测试事件（不受订阅和启用状态限制）
+ */
+export async function sendWebhookPing(env: WebhookEnv, webhook: WebhookRow): Promise<WebhookDelivery> {
+  const payload = buildPayload(WEBHOOK_PING_EVENT, { webhook_id: webhook.id, message: 'Webhook is configured correctly' })
+  const delivery = await createDelivery(env.DB, webhook, WEBHOOK_PING_EVENT, payload)
+  return attemptDelivery(env, webhook, delivery)
+}
+
+/**
+ * 以原请求体重新投递一次（生成新的投递记录）
+ */
+export async function redeliverWebhook(
+  env: WebhookEnv,
+  webhook: WebhookRow,
+  deliveryId: string
+): Promise<WebhookDelivery | null> {
+  const original = await env.DB.prepare('SELECT * FROM webhook_deliveries WHERE id = ? AND webhook_id = ?')
+    .bind(deliveryId, webhook.id)
+    .first<WebhookDeliveryRow>()
+  if (!original) return null
+
+  const delivery = await createDelivery(env.DB, webhook, original.event, original.payload)
+  return attemptDelivery(env, webhook, delivery)
+}
+
+export async function listWebhookDeliveries(
+  db: D1Database,
+  webhookId: string,
+  options: { status?: WebhookDeliveryStatus; limit: number }
+): Promise<WebhookDelivery[]> {
+  const { results } = await db
+    .prepare(
+      `SELECT * FROM webhook_deliveries
+       WHERE webhook_id = ? ${options.status ? 'AND status = ?' : ''}
+       ORDER BY created_at DESC
+       LIMIT ?`
+    )
+    .bind(...(options.status ? [webhookId, options.status, options.limit] : [webhookId, options.limit]))
+    .all<WebhookDeliveryRow>()
+  return (results || []).map(toWebhookDelivery)
+}
+
+/**
+ * 重试到期的投递（定时任务调用）；Webhook 已停用的投递直接标记为失败
+ */
+export async function retryWebhookDeliveries(
+  env: WebhookEnv,
+  limit: number
+): Promise<{ attempted: number; succeeded: number }> {
+  const now = new Date().toISOString()
+
+  await env.DB.prepare(
+    `UPDATE webhook_deliveries
+     SET status = 'failed', next_attempt_at = NULL, error = COALESCE(error, 'Webhook disabled')
+     WHERE status = 'pending'
+       AND next_attempt_at <= ?
+       AND webhook_id IN (SELECT id FROM webhooks WHERE is_active = 0)`
+  )
+    .bind(now)
+    .run()
+
+  const { results } = await env.DB.prepare(
+    `SELECT d.* FROM webhook_deliveries d
+     INNER JOIN webhooks w ON w.id = d.webhook_id
+     WHERE d.status = 'pending' AND d.next_attempt_at <= ? AND w.is_active = 1
+     ORDER BY d.next_attempt_at ASC
+     LIMIT ?`
+  )
+    .bind(now, limit)
+    .all<WebhookDeliveryRow>()
+
+  let attempted = 0
+  let succeeded = 0
+  for (const delivery of results || []) {
+    // 占用该投递，避免与其他执行者重复发送
+    const lease = new Date(Date.now() + DELIVERY_LEASE_MS).toISOString()
+    const claimed = await env.DB.prepare(
+      `UPDATE webhook_deliveries SET next_attempt_at = ?
+       WHERE id = ? AND status = 'pending' AND next_attempt_at = ?`
+    )
+      .bind(lease, delivery.id, delivery.next_attempt_at)
+      .run()
+    if (!claimed.meta.changes) continue
+
+    const webhook = await env.DB.prepare('SELECT * FROM webhooks WHERE id = ?')
+      .bind(delivery.webhook_id)
+      .first<WebhookRow>()
+    if (!webhook) continue
+
+    const result = await attemptDelivery(env, webhook, delivery)
+    attempted++
+    if (result.status === 'success') succeeded++
+  }
+
+  return { attempted, succeeded }
+}
+
+/**
+ * 清理过期的投递记录（定时任务调用）
+ */
+export async function cleanupWebhookDeliveries(db: D1Database): Promise<number> {
+  const cutoff = new Date(Date.now() - WEBHOOK_DELIVERY_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString()
+  const result = await db
+    .prepare(`DELETE FROM webhook_deliveries WHERE created_at < ? AND status != 'pending'`)
+    .bind(cutoff)
+    .run()
+  return result.meta.changes || 0
+}
@@ -0,0 +1,25 @@
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env } from '../lib/types'
+import { forbidden, internalError } from '../lib/response'
+import type { AuthContext } from './auth'
+
+/**
+ * 管理员中间件 - 需放在 requireAuth 之后，要求当前用户的 role 为 admin
+ * 角色不写入 JWT，每次从数据库读取，撤销管理员权限后立即生效
+ */
+export const requireAdmin: PagesFunction<Env, string, AuthContext> = async (context) => {
+  try {
+    const user = await context.env.DB.prepare('SELECT role FROM users WHERE id = ?')
+      .bind(context.data.user_id)
+      .first<{ role: string | null }>()
+
+    if (user?.role !== 'admin') {
+      return forbidden('Administrator access required')
+    }
+
+    return context.next()
+  } catch (error) {
+    console.error('Admin check error:', error)
+    return internalError('Failed to verify administrator access')
+  }
+}
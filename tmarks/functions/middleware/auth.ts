@@ -2,6 +2,7 @@ import type { PagesFunction } from '@cloudflare/workers-types'
 import type { Env, RouteParams } from '../lib/types'
 import { extractJWT, verifyJWT } from '../lib/jwt'
 import { unauthorized } from '../lib/response'
+import { isAccountDisabled, ACCOUNT_DISABLED_CODE, ACCOUNT_DISABLED_MESSAGE } from '../lib/account-status'
 
 export interface AuthContext extends Record<string, unknown> {
   user_id: string
@@ -10,6 +11,7 @@ export interface AuthContext extends Record<string, unknown> {
 
 /**
  * 认证中间件 - 验证 JWT 并提取用户信息
+ * 已停用的账号即使持有未过期的令牌也会被拒绝
  */
 export const requireAuth: PagesFunction<Env, RouteParams, AuthContext> = async (context) => {
   const token = extractJWT(context.request)
@@ -18,18 +20,23 @@ export const requireAuth: PagesFunction<Env, RouteParams, AuthContext> = async (
     return unauthorized('Missing authorization token')
   }
 
+  let payload: Awaited<ReturnType<typeof verifyJWT>>
   try {
-    const payload = await verifyJWT(token, context.env.JWT_SECRET)
-
-    // 将用户信息附加到 context.data
-    context.data.user_id = payload.sub
-    context.data.session_id = payload.session_id
-
-    return context.next()
+    payload = await verifyJWT(token, context.env.JWT_SECRET)
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Invalid token'
     return unauthorized(message)
   }
+
+  if (await isAccountDisabled(context.env.DB, payload.sub)) {
+    return unauthorized(ACCOUNT_DISABLED_MESSAGE, ACCOUNT_DISABLED_CODE)
+  }
+
+  // 将用户信息附加到 context.data
+  context.data.user_id = payload.sub
+  context.data.session_id = payload.session_id
+
+  return context.next()
 }
 
 /**
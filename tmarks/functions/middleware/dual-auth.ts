@@ -10,6 +10,7 @@ import { checkRateLimit, recordRequest } from '../lib/api-key/rate-limiter'
 import { hasPermission } from '../../shared/permissions'
 import { unauthorized, forbidden, tooManyRequests } from '../lib/response'
 import { verifyJWT } from '../lib/jwt'
+import { isAccountDisabled, ACCOUNT_DISABLED_CODE, ACCOUNT_DISABLED_MESSAGE } from '../lib/account-status'
 
 export interface DualAuthContext {
   user_id: string
@@ -117,27 +118,33 @@ export function requireDualAuth(
       if (authHeader && authHeader.startsWith('Bearer ')) {
         const token = authHeader.substring(7)
 
-        try {
-          const payload = await verifyJWT(token, context.env.JWT_SECRET)
-
-          if (!payload || !payload.sub) {
-            return unauthorized({
-              code: 'INVALID_TOKEN',
-              message: 'Invalid or expired token',
-            })
-          }
-
-          // 传递用户信息到 context.data
-          context.data.user_id = payload.sub
-          context.data.auth_type = 'jwt'
+        let payload: Awaited<ReturnType<typeof verifyJWT>> | null = null
 
-          return context.next()
+        try {
+          payload = await verifyJWT(token, context.env.JWT_SECRET)
         } catch {
+          payload = null
+        }
+
+        if (!payload || !payload.sub) {
           return unauthorized({
             code: 'INVALID_TOKEN',
             message: 'Invalid or expired token',
           })
         }
+
+        if (await isAccountDisabled(context.env.DB, payload.sub)) {
+          return unauthorized({
+            code: ACCOUNT_DISABLED_CODE,
+            message: ACCOUNT_DISABLED_MESSAGE,
+          })
+        }
+
+        // 传递用户信息到 context.data
+        context.data.user_id = payload.sub
+        context.data.auth_type = 'jwt'
+
+        return context.next()
       }
 
       // 3. 没有任何认证信息
@@ -0,0 +1,32 @@
+/**
+ * 爬虫规则
+ * 路径: /robots.txt
+ * 认证: 无（公开访问）
+ *
+ * 只允许抓取公开分享页，并声明站点地图地址（需要绝对地址，因此动态生成）
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env } from './lib/types'
+
+// GET /robots.txt - 获取爬虫规则
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const origin = new URL(context.request.url).origin
+  const body = [
+    'User-agent: *',
+    'Allow: /share/',
+    'Allow: /assets/',
+    'Disallow: /',
+    '',
+    `Sitemap: ${origin}/sitemap.xml`,
+    '',
+  ].join('\n')
+
+  return new Response(body, {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/plain; charset=utf-8',
+      'Cache-Control': 'public, max-age=86400',
+    },
+  })
+}
@@ -0,0 +1,26 @@
+/**
+ * 公开分享订阅源（JSON Feed 1.1）
+ * 路径: /share/:slug/feed.json?tag=标签名
+ * 认证: 无（公开访问）
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env } from '../../lib/types'
+import { notFound, internalError } from '../../lib/response'
+import { feedResponse, loadPublicFeed } from '../../lib/public-feed'
+
+// GET /share/:slug/feed.json - 获取 JSON Feed 订阅源
+export const onRequestGet: PagesFunction<Env, 'slug'> = async (context) => {
+  try {
+    const url = new URL(context.request.url)
+    const result = await loadPublicFeed(context.env, context.params.slug as string, url.searchParams.get('tag'))
+    if (!result.success) {
+      return notFound(result.message)
+    }
+
+    return await feedResponse(context.request, result.feed, 'json')
+  } catch (error) {
+    console.error('Public feed error:', error)
+    return internalError('Failed to generate feed')
+  }
+}
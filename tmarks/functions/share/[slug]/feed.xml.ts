@@ -0,0 +1,29 @@
+/**
+ * 公开分享订阅源（Atom / RSS 2.0）
+ * 路径: /share/:slug/feed.xml?tag=标签名&format=rss
+ * 认证: 无（公开访问）
+ *
+ * 默认输出 Atom 1.0，format=rss 时输出 RSS 2.0
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env } from '../../lib/types'
+import { notFound, internalError } from '../../lib/response'
+import { feedResponse, loadPublicFeed } from '../../lib/public-feed'
+
+// GET /share/:slug/feed.xml - 获取 Atom / RSS 订阅源
+export const onRequestGet: PagesFunction<Env, 'slug'> = async (context) => {
+  try {
+    const url = new URL(context.request.url)
+    const result = await loadPublicFeed(context.env, context.params.slug as string, url.searchParams.get('tag'))
+    if (!result.success) {
+      return notFound(result.message)
+    }
+
+    const format = url.searchParams.get('format') === 'rss' ? 'rss' : 'atom'
+    return await feedResponse(context.request, result.feed, format)
+  } catch (error) {
+    console.error('Public feed error:', error)
+    return internalError('Failed to generate feed')
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * 服务端渲染的分享页
+ * 路径: /share/:slug
+ * 认证: 无（公开访问）
+ *
+ * slug 对应书签公开分享时渲染书签分享页（前端接管后继续使用嵌入的数据），
+ * 对应标签页组分享令牌时渲染标签页组分享页（需要密码或链接不可用时渲染提示页），其余情况交给前端路由处理
+ *
+ * 标签页组分享的 GET 渲染不计入浏览次数（链接预览爬虫也会请求），提交密码或确认查看的 POST 才计数
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env } from '../../lib/types'
+import { findPublicShareUser, getPublicSharePayload } from '../../lib/public-share'
+import { getClientIP } from '../../lib/rate-limit'
+import { loadSharedTabGroup, shouldCountShareView } from '../../lib/tab-group-share'
+import { renderPublicSharePage, renderTabGroupShareErrorPage, renderTabGroupSharePage } from '../../lib/share-page'
+
+type ShareContext = Parameters<PagesFunction<Env, 'slug'>>[0]
+
+/**
+ * 渲染标签页组分享页，令牌不存在时返回 null
+ */
+async function renderTabGroupShare(context: ShareContext, password: string | null): Promise<Response | null> {
+  const token = context.params.slug as string
+  const shared = await loadSharedTabGroup(context.env, token, {
+    password,
+    clientIp: getClientIP(context.request),
+    countView: context.request.method === 'POST' && shouldCountShareView(context.request as unknown as Request),
+  })
+
+  if (shared.success) {
+    return renderTabGroupSharePage(context.request, token, shared.data)
+  }
+  if (shared.error === 'not_found') {
+    return null
+  }
+  return renderTabGroupShareErrorPage(token, shared.error)
+}
+
+// GET /share/:slug - 渲染分享页
+export const onRequestGet: PagesFunction<Env, 'slug'> = async (context) => {
+  const slug = context.params.slug as string
+
+  try {
+    const user = await findPublicShareUser(context.env.DB, slug)
+    if (user) {
+      const { payload } = await getPublicSharePayload(context.env, user)
+      // 以不带条件请求头的请求获取前端入口页面，避免拿到 304 空响应
+      const page = await context.next(new Request(context.request.url, { method: 'GET' }))
+      if (page.ok && (page.headers.get('Content-Type') || '').includes('text/html')) {
+        return renderPublicSharePage(context.request, page, payload)
+      }
+      return page
+    }
+
+    const response = await renderTabGroupShare(context, null)
+    if (response) {
+      return response
+    }
+  } catch (error) {
+    console.error('Render share page error:', error)
+  }
+
+  return context.next()
+}
+
+// POST /share/:slug - 提交标签页组分享的访问密码，或确认查看设置了浏览次数上限的分享
+export const onRequestPost: PagesFunction<Env, 'slug'> = async (context) => {
+  try {
+    const form = await context.request.formData().catch(() => null)
+    const password = form?.get('password')
+    const response = await renderTabGroupShare(context, typeof password === 'string' ? password : null)
+    if (response) {
+      return response
+    }
+  } catch (error) {
+    console.error('Render share page error:', error)
+  }
+
+  return context.next()
+}
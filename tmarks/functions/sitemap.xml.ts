@@ -0,0 +1,97 @@
+/**
+ * 站点地图
+ * 路径: /sitemap.xml
+ * 认证: 无（公开访问）
+ *
+ * 包含已开启的书签公开分享页，以及公开、未过期且没有设置密码和浏览次数上限的标签页组分享
+ */
+
+import type { PagesFunction } from '@cloudflare/workers-types'
+import type { Env } from './lib/types'
+import { internalError } from './lib/response'
+import { CacheService } from './lib/cache'
+import { generateCacheKey } from './lib/cache/strategies'
+import { escapeXml, toIsoTimestamp } from './lib/utils'
+
+/** 单个站点地图最多 50000 条，两类分享各取一半 */
+const SITEMAP_LIMIT_PER_TYPE = 25000
+
+interface SitemapEntry {
+  path: string
+  lastmod: string | null
+}
+
+async function loadSitemapEntries(env: Env): Promise<SitemapEntry[]> {
+  const cache = new CacheService(env)
+  const cacheKey = generateCacheKey('publicShare', 'sitemap')
+  const cached = await cache.get<SitemapEntry[]>('publicShare', cacheKey)
+  if (cached) {
+    return cached
+  }
+
+  const { results: profiles } = await env.DB.prepare(
+    `SELECT u.public_slug AS slug, MAX(b.updated_at) AS lastmod
+     FROM users u
+     LEFT JOIN bookmarks b ON b.user_id = u.id AND b.is_public = 1 AND b.deleted_at IS NULL
+     WHERE u.public_share_enabled = 1 AND u.public_slug IS NOT NULL
+     GROUP BY u.id
+     LIMIT ?`
+  )
+    .bind(SITEMAP_LIMIT_PER_TYPE)
+    .all<{ slug: string; lastmod: string | null }>()
+
+  const { results: groups } = await env.DB.prepare(
+    `SELECT s.share_token AS token, g.updated_at AS lastmod
+     FROM shares s
+     INNER JOIN tab_groups g ON g.id = s.group_id
+     WHERE s.is_public = 1
+       AND s.revoked_at IS NULL
+       AND s.password_hash IS NULL
+       AND s.max_views IS NULL
+       AND g.is_deleted = 0
+       AND (s.expires_at IS NULL OR s.expires_at > ?)
+     ORDER BY s.created_at DESC
+     LIMIT ?`
+  )
+    .bind(new Date().toISOString(), SITEMAP_LIMIT_PER_TYPE)
+    .all<{ token: string; lastmod: string | null }>()
+
+  const entries: SitemapEntry[] = [
+    ...(profiles || []).map((row) => ({ path: `/share/${encodeURIComponent(row.slug)}`, lastmod: toIsoTimestamp(row.lastmod) })),
+    ...(groups || []).map((row) => ({ path: `/share/${encodeURIComponent(row.token)}`, lastmod: toIsoTimestamp(row.lastmod) })),
+  ]
+
+  await cache.set('publicShare', cacheKey, entries, { async: true })
+  return entries
+}
+
+// GET /sitemap.xml - 获取站点地图
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  try {
+    const origin = new URL(context.request.url).origin
+    const entries = await loadSitemapEntries(context.env)
+
+    const urls = entries.map((entry) => {
+      const lastmod = entry.lastmod ? `<lastmod>${entry.lastmod}</lastmod>` : ''
+      return `  <url><loc>${escapeXml(`${origin}${entry.path}`)}</loc>${lastmod}</url>`
+    })
+
+    const body = [
+      '<?xml version="1.0" encoding="utf-8"?>',
+      '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+      ...urls,
+      '</urlset>',
+    ].join('\n')
+
+    return new Response(body, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/xml; charset=utf-8',
+        'Cache-Control': 'public, max-age=3600',
+      },
+    })
+  } catch (error) {
+    console.error('Sitemap error:', error)
+    return internalError('Failed to generate sitemap')
+  }
+}
@@ -0,0 +1,10 @@
+CREATE VIRTUAL TABLE IF NOT EXISTS bookmarks_fts USING fts5(title, description, url, tags, tokenize = 'trigram');
+CREATE TRIGGER IF NOT EXISTS bookmarks_fts_after_insert AFTER INSERT ON bookmarks BEGIN INSERT INTO bookmarks_fts (rowid, title, description, url, tags) VALUES (NEW.rowid, NEW.title, COALESCE(NEW.description, ''), NEW.url, ''); END;
+CREATE TRIGGER IF NOT EXISTS bookmarks_fts_after_update AFTER UPDATE OF title, description, url ON bookmarks BEGIN UPDATE bookmarks_fts SET title = NEW.title, description = COALESCE(NEW.description, ''), url = NEW.url WHERE rowid = NEW.rowid; END;
+CREATE TRIGGER IF NOT EXISTS bookmarks_fts_after_delete AFTER DELETE ON bookmarks BEGIN DELETE FROM bookmarks_fts WHERE rowid = OLD.rowid; END;
+CREATE TRIGGER IF NOT EXISTS bookmarks_fts_tags_after_insert AFTER INSERT ON bookmark_tags BEGIN UPDATE bookmarks_fts SET tags = (SELECT COALESCE(group_concat(t.name, ' '), '') FROM bookmark_tags bt INNER JOIN tags t ON t.id = bt.tag_id WHERE bt.bookmark_id = NEW.bookmark_id AND t.deleted_at IS NULL) WHERE rowid = (SELECT rowid FROM bookmarks WHERE id = NEW.bookmark_id); END;
+CREATE TRIGGER IF NOT EXISTS bookmarks_fts_tags_after_delete AFTER DELETE ON bookmark_tags BEGIN UPDATE bookmarks_fts SET tags = (SELECT COALESCE(group_concat(t.name, ' '), '') FROM bookmark_tags bt INNER JOIN tags t ON t.id = bt.tag_id WHERE bt.bookmark_id = OLD.bookmark_id AND t.deleted_at IS NULL) WHERE rowid = (SELECT rowid FROM bookmarks WHERE id = OLD.bookmark_id); END;
+CREATE TRIGGER IF NOT EXISTS bookmarks_fts_tag_after_update AFTER UPDATE OF name, deleted_at ON tags BEGIN UPDATE bookmarks_fts SET tags = (SELECT COALESCE(group_concat(t.name, ' '), '') FROM bookmark_tags bt INNER JOIN tags t ON t.id = bt.tag_id WHERE bt.bookmark_id = (SELECT id FROM bookmarks WHERE rowid = bookmarks_fts.rowid) AND t.deleted_at IS NULL) WHERE rowid IN (SELECT b.rowid FROM bookmarks b INNER JOIN bookmark_tags bt ON bt.bookmark_id = b.id WHERE bt.tag_id = NEW.id); END;
+DELETE FROM bookmarks_fts;
+INSERT INTO bookmarks_fts (rowid, title, description, url, tags) SELECT b.rowid, b.title, COALESCE(b.description, ''), b.url, COALESCE((SELECT group_concat(t.name, ' ') FROM bookmark_tags bt INNER JOIN tags t ON t.id = bt.tag_id WHERE bt.bookmark_id = b.id AND t.deleted_at IS NULL), '') FROM bookmarks b;
+INSERT OR IGNORE INTO schema_migrations (version) VALUES ('0102');
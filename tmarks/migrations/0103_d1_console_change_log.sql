@@ -0,0 +1,17 @@
+CREATE TABLE IF NOT EXISTS change_log (seq INTEGER PRIMARY KEY AUTOINCREMENT, user_id TEXT NOT NULL, entity_type TEXT NOT NULL CHECK (entity_type IN ('bookmark', 'tag', 'tab_group')), entity_id TEXT NOT NULL, operation TEXT NOT NULL CHECK (operation IN ('upsert', 'delete')), changed_at TEXT NOT NULL DEFAULT (datetime('now')));
+CREATE INDEX IF NOT EXISTS idx_change_log_user_seq ON change_log(user_id, seq);
+CREATE TRIGGER IF NOT EXISTS change_log_bookmarks_after_insert AFTER INSERT ON bookmarks BEGIN INSERT INTO change_log (user_id, entity_type, entity_id, operation) VALUES (NEW.user_id, 'bookmark', NEW.id, 'upsert'); END;
+CREATE TRIGGER IF NOT EXISTS change_log_bookmarks_after_update AFTER UPDATE OF title, url, description, cover_image, favicon, is_pinned, is_archived, is_public, deleted_at ON bookmarks BEGIN INSERT INTO change_log (user_id, entity_type, entity_id, operation) VALUES (NEW.user_id, 'bookmark', NEW.id, CASE WHEN NEW.deleted_at IS NULL THEN 'upsert' ELSE 'delete' END); END;
+CREATE TRIGGER IF NOT EXISTS change_log_bookmarks_after_delete AFTER DELETE ON bookmarks BEGIN INSERT INTO change_log (user_id, entity_type, entity_id, operation) VALUES (OLD.user_id, 'bookmark', OLD.id, 'delete'); END;
+CREATE TRIGGER IF NOT EXISTS change_log_bookmark_tags_after_insert AFTER INSERT ON bookmark_tags BEGIN INSERT INTO change_log (user_id, entity_type, entity_id, operation) VALUES (NEW.user_id, 'bookmark', NEW.bookmark_id, 'upsert'), (NEW.user_id, 'tag', NEW.tag_id, 'upsert'); END;
+CREATE TRIGGER IF NOT EXISTS change_log_bookmark_tags_after_delete AFTER DELETE ON bookmark_tags BEGIN INSERT INTO change_log (user_id, entity_type, entity_id, operation) VALUES (OLD.user_id, 'bookmark', OLD.bookmark_id, 'upsert'), (OLD.user_id, 'tag', OLD.tag_id, 'upsert'); END;
+CREATE TRIGGER IF NOT EXISTS change_log_tags_after_insert AFTER INSERT ON tags BEGIN INSERT INTO change_log (user_id, entity_type, entity_id, operation) VALUES (NEW.user_id, 'tag', NEW.id, 'upsert'); END;
+CREATE TRIGGER IF NOT EXISTS change_log_tags_after_update AFTER UPDATE OF name, color, deleted_at ON tags BEGIN INSERT INTO change_log (user_id, entity_type, entity_id, operation) VALUES (NEW.user_id, 'tag', NEW.id, CASE WHEN NEW.deleted_at IS NULL THEN 'upsert' ELSE 'delete' END); INSERT INTO change_log (user_id, entity_type, entity_id, operation) SELECT NEW.user_id, 'bookmark', bt.bookmark_id, 'upsert' FROM bookmark_tags bt WHERE bt.tag_id = NEW.id; END;
+CREATE TRIGGER IF NOT EXISTS change_log_tags_after_delete AFTER DELETE ON tags BEGIN INSERT INTO change_log (user_id, entity_type, entity_id, operation) VALUES (OLD.user_id, 'tag', OLD.id, 'delete'); END;
+CREATE TRIGGER IF NOT EXISTS change_log_tab_groups_after_insert AFTER INSERT ON tab_groups BEGIN INSERT INTO change_log (user_id, entity_type, entity_id, operation) VALUES (NEW.user_id, 'tab_group', NEW.id, 'upsert'); END;
+CREATE TRIGGER IF NOT EXISTS change_log_tab_groups_after_update AFTER UPDATE OF title, color, tags, parent_id, position, is_folder, is_deleted ON tab_groups BEGIN INSERT INTO change_log (user_id, entity_type, entity_id, operation) VALUES (NEW.user_id, 'tab_group', NEW.id, CASE WHEN NEW.is_deleted = 0 THEN 'upsert' ELSE 'delete' END); END;
+CREATE TRIGGER IF NOT EXISTS change_log_tab_groups_after_delete AFTER DELETE ON tab_groups BEGIN INSERT INTO change_log (user_id, entity_type, entity_id, operation) VALUES (OLD.user_id, 'tab_group', OLD.id, 'delete'); END;
+CREATE TRIGGER IF NOT EXISTS change_log_tab_group_items_after_insert AFTER INSERT ON tab_group_items BEGIN INSERT INTO change_log (user_id, entity_type, entity_id, operation) SELECT tg.user_id, 'tab_group', tg.id, 'upsert' FROM tab_groups tg WHERE tg.id = NEW.group_id; END;
+CREATE TRIGGER IF NOT EXISTS change_log_tab_group_items_after_update AFTER UPDATE ON tab_group_items BEGIN INSERT INTO change_log (user_id, entity_type, entity_id, operation) SELECT tg.user_id, 'tab_group', tg.id, 'upsert' FROM tab_groups tg WHERE tg.id IN (OLD.group_id, NEW.group_id); END;
+CREATE TRIGGER IF NOT EXISTS change_log_tab_group_items_after_delete AFTER DELETE ON tab_group_items BEGIN INSERT INTO change_log (user_id, entity_type, entity_id, operation) SELECT tg.user_id, 'tab_group', tg.id, 'upsert' FROM tab_groups tg WHERE tg.id = OLD.group_id; END;
+INSERT OR IGNORE INTO schema_migrations (version) VALUES ('0103');
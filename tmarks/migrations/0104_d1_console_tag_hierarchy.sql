@@ -0,0 +1,5 @@
+ALTER TABLE tags ADD COLUMN parent_id TEXT DEFAULT NULL;
+CREATE INDEX IF NOT EXISTS idx_tags_user_parent ON tags(user_id, parent_id);
+DROP TRIGGER IF EXISTS change_log_tags_after_update;
+CREATE TRIGGER IF NOT EXISTS change_log_tags_after_update AFTER UPDATE OF name, color, parent_id, deleted_at ON tags BEGIN INSERT INTO change_log (user_id, entity_type, entity_id, operation) VALUES (NEW.user_id, 'tag', NEW.id, CASE WHEN NEW.deleted_at IS NULL THEN 'upsert' ELSE 'delete' END); INSERT INTO change_log (user_id, entity_type, entity_id, operation) SELECT NEW.user_id, 'bookmark', bt.bookmark_id, 'upsert' FROM bookmark_tags bt WHERE bt.tag_id = NEW.id; END;
+INSERT OR IGNORE INTO schema_migrations (version) VALUES ('0104');
@@ -0,0 +1,3 @@
+CREATE TABLE IF NOT EXISTS tag_aliases (id TEXT PRIMARY KEY, user_id TEXT NOT NULL, tag_id TEXT NOT NULL, alias TEXT NOT NULL COLLATE NOCASE, created_at TEXT NOT NULL DEFAULT (datetime('now')), FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE, FOREIGN KEY (tag_id) REFERENCES tags(id) ON DELETE CASCADE, UNIQUE(user_id, alias));
+CREATE INDEX IF NOT EXISTS idx_tag_aliases_tag ON tag_aliases(tag_id);
+INSERT OR IGNORE INTO schema_migrations (version) VALUES ('0105');
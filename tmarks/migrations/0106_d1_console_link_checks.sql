@@ -0,0 +1,4 @@
+CREATE TABLE IF NOT EXISTS bookmark_link_checks (bookmark_id TEXT PRIMARY KEY, user_id TEXT NOT NULL, checked_url TEXT NOT NULL, status TEXT NOT NULL CHECK (status IN ('ok', 'redirected', 'broken', 'error')), http_status INTEGER, final_url TEXT, error TEXT, consecutive_failures INTEGER NOT NULL DEFAULT 0, checked_at TEXT NOT NULL, FOREIGN KEY (bookmark_id) REFERENCES bookmarks(id) ON DELETE CASCADE, FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE);
+CREATE INDEX IF NOT EXISTS idx_bookmark_link_checks_user_status ON bookmark_link_checks(user_id, status);
+CREATE INDEX IF NOT EXISTS idx_bookmark_link_checks_checked_at ON bookmark_link_checks(checked_at);
+INSERT OR IGNORE INTO schema_migrations (version) VALUES ('0106');
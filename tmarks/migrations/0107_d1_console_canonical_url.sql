@@ -0,0 +1,3 @@
+ALTER TABLE bookmarks ADD COLUMN canonical_url TEXT;
+CREATE INDEX IF NOT EXISTS idx_bookmarks_user_canonical_url ON bookmarks(user_id, canonical_url);
+INSERT OR IGNORE INTO schema_migrations (version) VALUES ('0107');
@@ -0,0 +1,3 @@
+CREATE TABLE IF NOT EXISTS bookmark_collections (id TEXT PRIMARY KEY, user_id TEXT NOT NULL, name TEXT NOT NULL COLLATE NOCASE, filters TEXT NOT NULL DEFAULT '{}', position INTEGER NOT NULL DEFAULT 0, created_at TEXT NOT NULL DEFAULT (datetime('now')), updated_at TEXT NOT NULL DEFAULT (datetime('now')), FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE, UNIQUE(user_id, name));
+CREATE INDEX IF NOT EXISTS idx_bookmark_collections_user_position ON bookmark_collections(user_id, position);
+INSERT OR IGNORE INTO schema_migrations (version) VALUES ('0108');
@@ -0,0 +1,4 @@
+CREATE TABLE IF NOT EXISTS bookmark_notes (id TEXT PRIMARY KEY, user_id TEXT NOT NULL, bookmark_id TEXT NOT NULL, kind TEXT NOT NULL DEFAULT 'note' CHECK (kind IN ('note', 'highlight')), content TEXT NOT NULL DEFAULT '', quote TEXT, selector TEXT, color TEXT, created_at TEXT NOT NULL DEFAULT (datetime('now')), updated_at TEXT NOT NULL DEFAULT (datetime('now')), FOREIGN KEY (bookmark_id) REFERENCES bookmarks(id) ON DELETE CASCADE, FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE);
+CREATE INDEX IF NOT EXISTS idx_bookmark_notes_bookmark_created ON bookmark_notes(bookmark_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_bookmark_notes_user ON bookmark_notes(user_id);
+INSERT OR IGNORE INTO schema_migrations (version) VALUES ('0109');
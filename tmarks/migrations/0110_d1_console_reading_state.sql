@@ -0,0 +1,8 @@
+ALTER TABLE bookmarks ADD COLUMN reading_status TEXT CHECK (reading_status IN ('unread', 'reading', 'read'));
+ALTER TABLE bookmarks ADD COLUMN reading_progress INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE bookmarks ADD COLUMN reading_queued_at TEXT;
+ALTER TABLE bookmarks ADD COLUMN reading_started_at TEXT;
+ALTER TABLE bookmarks ADD COLUMN read_at TEXT;
+CREATE INDEX IF NOT EXISTS idx_bookmarks_user_reading_queue ON bookmarks(user_id, reading_status, reading_queued_at);
+CREATE TRIGGER IF NOT EXISTS change_log_bookmarks_after_reading_update AFTER UPDATE OF reading_status ON bookmarks WHEN OLD.reading_status IS NOT NEW.reading_status BEGIN INSERT INTO change_log (user_id, entity_type, entity_id, operation) VALUES (NEW.user_id, 'bookmark', NEW.id, CASE WHEN NEW.deleted_at IS NULL THEN 'upsert' ELSE 'delete' END); END;
+INSERT OR IGNORE INTO schema_migrations (version) VALUES ('0110');
@@ -0,0 +1,5 @@
+CREATE TABLE IF NOT EXISTS bookmark_reminders (id TEXT PRIMARY KEY, user_id TEXT NOT NULL, bookmark_id TEXT NOT NULL, remind_at TEXT NOT NULL, note TEXT, source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'resurface')), status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'done', 'dismissed')), completed_at TEXT, created_at TEXT NOT NULL DEFAULT (datetime('now')), updated_at TEXT NOT NULL DEFAULT (datetime('now')), FOREIGN KEY (bookmark_id) REFERENCES bookmarks(id) ON DELETE CASCADE, FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE);
+CREATE INDEX IF NOT EXISTS idx_bookmark_reminders_user_status_remind ON bookmark_reminders(user_id, status, remind_at);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bookmark_reminders_pending_bookmark ON bookmark_reminders(bookmark_id) WHERE status = 'pending';
+CREATE TABLE IF NOT EXISTS resurfacing_settings (user_id TEXT PRIMARY KEY, enabled INTEGER NOT NULL DEFAULT 0, interval_days INTEGER NOT NULL DEFAULT 7, batch_size INTEGER NOT NULL DEFAULT 3, min_age_days INTEGER NOT NULL DEFAULT 30, last_run_at TEXT, updated_at TEXT NOT NULL DEFAULT (datetime('now')), FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE);
+INSERT OR IGNORE INTO schema_migrations (version) VALUES ('0111');
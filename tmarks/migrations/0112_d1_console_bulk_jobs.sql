@@ -0,0 +1,4 @@
+CREATE TABLE IF NOT EXISTS bulk_jobs (id TEXT PRIMARY KEY, user_id TEXT NOT NULL, action TEXT NOT NULL, query TEXT NOT NULL, params TEXT NOT NULL DEFAULT '{}', status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'failed')), total_count INTEGER NOT NULL DEFAULT 0, processed_count INTEGER NOT NULL DEFAULT 0, affected_count INTEGER NOT NULL DEFAULT 0, errors TEXT, last_bookmark_id TEXT, locked_until TEXT, error TEXT, created_at TEXT NOT NULL DEFAULT (datetime('now')), updated_at TEXT NOT NULL DEFAULT (datetime('now')), completed_at TEXT, FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE);
+CREATE INDEX IF NOT EXISTS idx_bulk_jobs_user_created ON bulk_jobs(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_bulk_jobs_status ON bulk_jobs(status, updated_at);
+INSERT OR IGNORE INTO schema_migrations (version) VALUES ('0112');
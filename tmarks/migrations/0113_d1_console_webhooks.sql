@@ -0,0 +1,6 @@
+CREATE TABLE IF NOT EXISTS webhooks (id TEXT PRIMARY KEY, user_id TEXT NOT NULL, url TEXT NOT NULL, secret TEXT NOT NULL, events TEXT NOT NULL DEFAULT '[]', description TEXT, is_active INTEGER NOT NULL DEFAULT 1, last_delivery_at TEXT, last_delivery_status TEXT, created_at TEXT NOT NULL DEFAULT (datetime('now')), updated_at TEXT NOT NULL DEFAULT (datetime('now')), FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE);
+CREATE INDEX IF NOT EXISTS idx_webhooks_user ON webhooks(user_id, is_active);
+CREATE TABLE IF NOT EXISTS webhook_deliveries (id TEXT PRIMARY KEY, webhook_id TEXT NOT NULL, user_id TEXT NOT NULL, event TEXT NOT NULL, payload TEXT NOT NULL, status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'success', 'failed')), attempt_count INTEGER NOT NULL DEFAULT 0, next_attempt_at TEXT, response_status INTEGER, response_body TEXT, error TEXT, duration_ms INTEGER, created_at TEXT NOT NULL DEFAULT (datetime('now')), delivered_at TEXT, FOREIGN KEY (webhook_id) REFERENCES webhooks(id) ON DELETE CASCADE, FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook_created ON webhook_deliveries(webhook_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_pending ON webhook_deliveries(status, next_attempt_at);
+INSERT OR IGNORE INTO schema_migrations (version) VALUES ('0113');
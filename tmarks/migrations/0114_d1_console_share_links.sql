@@ -0,0 +1,7 @@
+ALTER TABLE shares ADD COLUMN password_hash TEXT DEFAULT NULL;
+ALTER TABLE shares ADD COLUMN max_views INTEGER DEFAULT NULL CHECK (max_views IS NULL OR max_views > 0);
+ALTER TABLE shares ADD COLUMN revoked_at TEXT DEFAULT NULL;
+ALTER TABLE shares ADD COLUMN updated_at TEXT DEFAULT NULL;
+CREATE INDEX IF NOT EXISTS idx_shares_user_created ON shares(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_shares_group ON shares(group_id);
+INSERT OR IGNORE INTO schema_migrations (version) VALUES ('0114');
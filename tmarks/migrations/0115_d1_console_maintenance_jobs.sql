@@ -0,0 +1,10 @@
+CREATE TABLE IF NOT EXISTS maintenance_jobs (name TEXT PRIMARY KEY, state TEXT NOT NULL DEFAULT '{}', next_run_at TEXT, last_run_at TEXT, last_status TEXT CHECK (last_status IN ('succeeded', 'failed')), locked_until TEXT, lock_token TEXT, updated_at TEXT NOT NULL DEFAULT (datetime('now')));
+CREATE TABLE IF NOT EXISTS maintenance_job_runs (id TEXT PRIMARY KEY, job_name TEXT NOT NULL, trigger TEXT NOT NULL CHECK (trigger IN ('cron', 'manual')), triggered_by TEXT, status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'succeeded', 'failed')), result TEXT, error TEXT, started_at TEXT NOT NULL DEFAULT (datetime('now')), finished_at TEXT, duration_ms INTEGER, FOREIGN KEY (triggered_by) REFERENCES users(id) ON DELETE SET NULL);
+CREATE INDEX IF NOT EXISTS idx_maintenance_job_runs_job_started ON maintenance_job_runs(job_name, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_maintenance_job_runs_started ON maintenance_job_runs(started_at DESC);
+CREATE TABLE IF NOT EXISTS bookmark_click_daily (bookmark_id TEXT NOT NULL, user_id TEXT NOT NULL, day TEXT NOT NULL, click_count INTEGER NOT NULL DEFAULT 0, PRIMARY KEY (bookmark_id, day), FOREIGN KEY (bookmark_id) REFERENCES bookmarks(id) ON DELETE CASCADE, FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE);
+CREATE INDEX IF NOT EXISTS idx_bookmark_click_daily_user_day ON bookmark_click_daily(user_id, day);
+CREATE INDEX IF NOT EXISTS idx_bookmark_click_events_clicked_at ON bookmark_click_events(clicked_at);
+CREATE INDEX IF NOT EXISTS idx_bookmarks_deleted_at ON bookmarks(deleted_at) WHERE deleted_at IS NOT NULL;
+ALTER TABLE user_preferences ADD COLUMN trash_retention_days INTEGER NOT NULL DEFAULT 30;
+INSERT OR IGNORE INTO schema_migrations (version) VALUES ('0115');
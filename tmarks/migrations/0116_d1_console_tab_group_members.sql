@@ -0,0 +1,7 @@
+CREATE TABLE IF NOT EXISTS tab_group_members (id TEXT PRIMARY KEY, group_id TEXT NOT NULL, user_id TEXT NOT NULL, role TEXT NOT NULL DEFAULT 'viewer' CHECK (role IN ('viewer', 'editor')), invited_by TEXT, created_at TEXT NOT NULL DEFAULT (datetime('now')), updated_at TEXT NOT NULL DEFAULT (datetime('now')), UNIQUE (group_id, user_id), FOREIGN KEY (group_id) REFERENCES tab_groups(id) ON DELETE CASCADE, FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE, FOREIGN KEY (invited_by) REFERENCES users(id) ON DELETE SET NULL);
+CREATE INDEX IF NOT EXISTS idx_tab_group_members_user ON tab_group_members(user_id);
+CREATE INDEX IF NOT EXISTS idx_tab_group_members_group ON tab_group_members(group_id);
+ALTER TABLE tab_group_items ADD COLUMN created_by TEXT DEFAULT NULL;
+ALTER TABLE tab_group_items ADD COLUMN updated_by TEXT DEFAULT NULL;
+ALTER TABLE tab_group_items ADD COLUMN updated_at TEXT DEFAULT NULL;
+INSERT OR IGNORE INTO schema_migrations (version) VALUES ('0116');
@@ -0,0 +1,3 @@
+ALTER TABLE users ADD COLUMN disabled_at TEXT DEFAULT NULL;
+CREATE TABLE IF NOT EXISTS app_settings (key TEXT PRIMARY KEY, value TEXT NOT NULL, updated_by TEXT, updated_at TEXT NOT NULL DEFAULT (datetime('now')), FOREIGN KEY (updated_by) REFERENCES users(id) ON DELETE SET NULL);
+INSERT OR IGNORE INTO schema_migrations (version) VALUES ('0117');
@@ -0,0 +1,5 @@
+CREATE TABLE IF NOT EXISTS invite_codes (id TEXT PRIMARY KEY, code TEXT NOT NULL UNIQUE, created_by TEXT, max_uses INTEGER NOT NULL DEFAULT 1 CHECK (max_uses > 0), use_count INTEGER NOT NULL DEFAULT 0, note TEXT, expires_at TEXT, revoked_at TEXT, created_at TEXT NOT NULL DEFAULT (datetime('now')), FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL);
+CREATE INDEX IF NOT EXISTS idx_invite_codes_created_by ON invite_codes(created_by, created_at DESC);
+CREATE TABLE IF NOT EXISTS invite_code_uses (id TEXT PRIMARY KEY, invite_code_id TEXT NOT NULL, user_id TEXT NOT NULL UNIQUE, created_at TEXT NOT NULL DEFAULT (datetime('now')), FOREIGN KEY (invite_code_id) REFERENCES invite_codes(id) ON DELETE CASCADE, FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE);
+CREATE INDEX IF NOT EXISTS idx_invite_code_uses_code ON invite_code_uses(invite_code_id, created_at DESC);
+INSERT OR IGNORE INTO schema_migrations (version) VALUES ('0118');
@@ -22,6 +22,29 @@ const requiredTables = [
   'bookmark_snapshots',
   'bookmark_images',
   'api_keys',
+  'bookmarks_fts',
+  'change_log',
+  'tag_aliases',
+  'bookmark_link_checks',
+  'bookmark_collections',
+  'bookmark_notes',
+  'bookmark_reminders',
+  'resurfacing_settings',
+  'bulk_jobs',
+  'webhooks',
+  'webhook_deliveries',
+  'shares',
+  'maintenance_jobs',
+  'maintenance_job_runs',
+  'bookmark_click_daily',
+  'tab_group_members',
+  'app_settings',
+  'registration_limits',
+  'invite_codes',
+  'invite_code_uses',
+  'user_two_factor',
+  'two_factor_recovery_codes',
+  'two_factor_challenges',
 ];
 
 // bookmarks表必需的字段
@@ -45,6 +68,70 @@ const requiredBookmarkFields = [
   'created_at',
   'updated_at',
   'deleted_at',
+  'canonical_url',
+  'reading_status',
+  'reading_progress',
+  'reading_queued_at',
+  'reading_started_at',
+  'read_at',
+];
+
+// shares表必需的字段
+const requiredShareFields = [
+  'id',
+  'group_id',
+  'user_id',
+  'share_token',
+  'is_public',
+  'view_count',
+  'created_at',
+  'expires_at',
+  'password_hash',
+  'max_views',
+  'revoked_at',
+  'updated_at',
+];
+
+// tab_group_items表必需的字段
+const requiredTabGroupItemFields = [
+  'id',
+  'group_id',
+  'title',
+  'url',
+  'favicon',
+  'position',
+  'is_pinned',
+  'is_todo',
+  'is_archived',
+  'created_at',
+  'created_by',
+  'updated_by',
+  'updated_at',
+];
+
+// users表必需的字段
+const requiredUserFields = [
+  'id',
+  'username',
+  'email',
+  'password_hash',
+  'role',
+  'disabled_at',
+  'created_at',
+  'updated_at',
+];
+
+// invite_codes表必需的字段
+const requiredInviteCodeFields = [
+  'id',
+  'code',
+  'created_by',
+  'max_uses',
+  'use_count',
+  'note',
+  'expires_at',
+  'revoked_at',
+  'created_at',
 ];
 
 // user_preferences表必需的字段
@@ -65,6 +152,7 @@ const requiredPreferenceFields = [
   'snapshot_auto_create',
   'snapshot_auto_dedupe',
   'snapshot_auto_cleanup_days',
+  'trash_retention_days',
   'updated_at',
 ];
 
@@ -161,6 +249,38 @@ if (!checkTableFields('user_preferences', requiredPreferenceFields)) {
   allGood = false;
 }
 
+console.log('='.repeat(60));
+console.log('检查shares表字段');
+console.log('='.repeat(60) + '\n');
+
+if (!checkTableFields('shares', requiredShareFields)) {
+  allGood = false;
+}
+
+console.log('='.repeat(60));
+console.log('检查tab_group_items表字段');
+console.log('='.repeat(60) + '\n');
+
+if (!checkTableFields('tab_group_items', requiredTabGroupItemFields)) {
+  allGood = false;
+}
+
+console.log('='.repeat(60));
+console.log('检查users表字段');
+console.log('='.repeat(60) + '\n');
+
+if (!checkTableFields('users', requiredUserFields)) {
+  allGood = false;
+}
+
+console.log('='.repeat(60));
+console.log('检查invite_codes表字段');
+console.log('='.repeat(60) + '\n');
+
+if (!checkTableFields('invite_codes', requiredInviteCodeFields)) {
+  allGood = false;
+}
+
 console.log('='.repeat(60));
 checkMigrations();
 console.log('='.repeat(60) + '\n');
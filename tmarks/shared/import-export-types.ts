@@ -17,6 +17,23 @@ export interface ExportBookmark {
   updated_at: string
   click_count?: number
   last_clicked_at?: string
+  notes?: ExportBookmarkNote[]
+}
+
+export interface ExportBookmarkNote {
+  kind: 'note' | 'highlight'
+  content: string
+  quote?: string
+  selector?: {
+    exact: string
+    prefix?: string
+    suffix?: string
+    start?: number
+    end?: number
+  }
+  color?: string
+  created_at: string
+  updated_at: string
 }
 
 export interface ExportTag {
@@ -206,6 +223,10 @@ export interface ImportOptions {
   max_concurrent: number
   default_tag_color: string
   folder_as_tag: boolean
+  /** 将文件夹路径映射为层级标签（如 Dev/Frontend → dev/frontend），仅 HTML 导入 */
+  folder_as_tag_tree: boolean
+  /** 导入后在后台抓取网页，补全缺失的标题和图标 */
+  backfill_metadata: boolean
 }
 
 export interface ExportOptions {
@@ -299,7 +320,9 @@ export const DEFAULT_IMPORT_OPTIONS: ImportOptions = {
   batch_size: 50,
   max_concurrent: 5,
   default_tag_color: '#3b82f6',
-  folder_as_tag: true
+  folder_as_tag: true,
+  folder_as_tag_tree: false,
+  backfill_metadata: true
 }
 
 export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
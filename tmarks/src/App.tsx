@@ -8,6 +8,7 @@ import { DialogHost } from '@/components/common/DialogHost'
 import { useToastStore } from '@/stores/toastStore'
 import { useThemeStore } from '@/stores/themeStore'
 import { queryClient } from '@/lib/query-client'
+import { clearFaviconSignature, ensureFaviconSignature } from '@/lib/favicon'
 
 function App() {
   const { user, isAuthenticated, accessToken, refreshToken, clearAuth, refreshAccessToken } = useAuthStore()
@@ -48,6 +49,15 @@ function App() {
     }
   }, [userId])
 
+  // 图标代理只为带签名的地址解析新域名
+  useEffect(() => {
+    if (userId && accessToken) {
+      ensureFaviconSignature(userId)
+    } else if (!userId) {
+      clearFaviconSignature()
+    }
+  }, [userId, accessToken])
+
   useEffect(() => {
     const handler = () => {
       queryClient.invalidateQueries({ queryKey: ['bookmarks'] }).catch(() => {})
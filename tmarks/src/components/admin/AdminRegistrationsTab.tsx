@@ -0,0 +1,120 @@
+/**
+ * 管理后台 - 注册记录标签页
+ * 展示当前注册策略和 registration_limits 中的每日注册计数
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import { useTranslation } from 'react-i18next'
+import { UserPlus, CalendarDays } from 'lucide-react'
+import { adminService } from '@/services/admin'
+import type { AdminRegistrationsResponse } from '@/lib/types'
+import { SettingsSection, SettingsItem } from '@/components/settings/SettingsSection'
+import { logger } from '@/lib/logger'
+
+const DAY_OPTIONS = [7, 30, 90, 365]
+
+export function AdminRegistrationsTab() {
+  const { t } = useTranslation('admin')
+  const [days, setDays] = useState(30)
+  const [data, setData] = useState<AdminRegistrationsResponse | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadRegistrations = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      setError(null)
+      setData(await adminService.getRegistrations(days))
+    } catch (err) {
+      logger.error('Failed to load registrations:', err)
+      setError(t('registrations.loadFailed'))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [days, t])
+
+  useEffect(() => {
+    loadRegistrations()
+  }, [loadRegistrations])
+
+  if (isLoading && !data) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    )
+  }
+
+  if (error || !data) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-sm text-error mb-3">{error}</p>
+        <button onClick={loadRegistrations} className="btn btn-sm">
+          {t('retry')}
+        </button>
+      </div>
+    )
+  }
+
+  const maxCount = Math.max(...data.history.map((day) => day.count), 1)
+  const totalCount = data.history.reduce((sum, day) => sum + day.count, 0)
+
+  return (
+    <div className="space-y-6">
+      <SettingsSection icon={UserPlus} title={t('registrations.title')} description={t('registrations.description')}>
+        <div className="grid gap-3 sm:grid-cols-3">
+          <SettingsItem
+            title={t('registrations.status')}
+            description={data.allowed ? t('registrations.open') : t('registrations.closed')}
+          />
+          <SettingsItem
+            title={t('registrations.dailyLimit')}
+            description={data.daily_limit > 0 ? String(data.daily_limit) : t('registrations.unlimited')}
+          />
+          <SettingsItem
+            title={t('registrations.today')}
+            description={
+              data.daily_limit > 0 ? `${data.today.count} / ${data.daily_limit}` : String(data.today.count)
+            }
+          />
+        </div>
+      </SettingsSection>
+
+      <SettingsSection
+        icon={CalendarDays}
+        title={t('registrations.historyTitle')}
+        description={t('registrations.historyDescription', { days: data.days, count: totalCount })}
+      >
+        <div className="space-y-4">
+          <div className="flex gap-2">
+            {DAY_OPTIONS.map((option) => (
+              <button
+                key={option}
+                onClick={() => setDays(option)}
+                className={`btn btn-sm ${days === option ? 'btn-primary' : 'btn-ghost'}`}
+              >
+                {t('registrations.days', { count: option })}
+              </button>
+            ))}
+          </div>
+
+          {data.history.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">{t('registrations.empty')}</p>
+          ) : (
+            <div className="space-y-1">
+              {data.history.map((day) => (
+                <div key={day.date} className="flex items-center gap-3 text-sm">
+                  <span className="w-24 flex-shrink-0 font-mono text-xs text-muted-foreground">{day.date}</span>
+                  <div className="flex-1 h-2 rounded bg-muted/50 overflow-hidden">
+                    <div className="h-full bg-primary" style={{ width: `${(day.count / maxCount) * 100}%` }} />
+                  </div>
+                  <span className="w-10 text-right">{day.count}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </SettingsSection>
+    </div>
+  )
+}
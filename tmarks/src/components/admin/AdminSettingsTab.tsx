@@ -0,0 +1,323 @@
+/**
+ * 管理后台 - 运行时设置标签页
+ * 覆盖注册开关、每日注册上限、邀请码设置和 R2 总配额，未覆盖的项使用环境变量
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import { useTranslation } from 'react-i18next'
+import { SlidersHorizontal, UserPlus, Ticket, HardDrive, Save, RotateCcw } from 'lucide-react'
+import { adminService } from '@/services/admin'
+import type { AdminSettingsResponse, AppSettingKey, UpdateAppSettingsRequest } from '@/lib/types'
+import { ApiError } from '@/lib/api-client'
+import { useToastStore } from '@/stores/toastStore'
+import { Toggle } from '@/components/common/Toggle'
+import { SettingsSection, SettingsItem } from '@/components/settings/SettingsSection'
+import { logger } from '@/lib/logger'
+import { formatBytes, BYTES_PER_GB } from './format'
+
+/** 与后端 MAX_USER_INVITE_QUOTA 保持一致 */
+const MAX_USER_INVITE_QUOTA = 100
+
+interface SettingsForm {
+  allowRegistration: boolean
+  dailyLimit: string
+  inviteRequired: boolean
+  userInviteQuota: string
+  r2Unlimited: boolean
+  r2LimitGb: string
+}
+
+function toForm(data: AdminSettingsResponse): SettingsForm {
+  const { settings } = data
+  return {
+    allowRegistration: settings.allow_registration,
+    dailyLimit: String(settings.registration_daily_limit),
+    inviteRequired: settings.invite_code_required,
+    userInviteQuota: String(settings.user_invite_quota),
+    r2Unlimited: settings.r2_max_total_bytes === null,
+    r2LimitGb: settings.r2_max_total_bytes === null ? '' : String(parseFloat((settings.r2_max_total_bytes / BYTES_PER_GB).toFixed(2))),
+  }
+}
+
+export function AdminSettingsTab() {
+  const { t } = useTranslation('admin')
+  const { addToast } = useToastStore()
+  const [data, setData] = useState<AdminSettingsResponse | null>(null)
+  const [form, setForm] = useState<SettingsForm | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const applyResponse = (response: AdminSettingsResponse) => {
+    setData(response)
+    setForm(toForm(response))
+  }
+
+  const loadSettings = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      setError(null)
+      applyResponse(await adminService.getSettings())
+    } catch (err) {
+      logger.error('Failed to load settings:', err)
+      setError(t('settings.loadFailed'))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [t])
+
+  useEffect(() => {
+    loadSettings()
+  }, [loadSettings])
+
+  const submit = async (patch: UpdateAppSettingsRequest) => {
+    try {
+      setIsSaving(true)
+      applyResponse(await adminService.updateSettings(patch))
+      addToast('success', t('settings.saveSuccess'))
+    } catch (err) {
+      logger.error('Failed to update settings:', err)
+      addToast('error', err instanceof ApiError && err.message ? err.message : t('settings.saveFailed'))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleSave = () => {
+    if (!data || !form) return
+    const patch: UpdateAppSettingsRequest = {}
+
+    if (form.allowRegistration !== data.settings.allow_registration) {
+      patch.allow_registration = form.allowRegistration
+    }
+
+    const dailyLimit = Number(form.dailyLimit)
+    if (!Number.isInteger(dailyLimit) || dailyLimit < 0) {
+      addToast('error', t('settings.invalidDailyLimit'))
+      return
+    }
+    if (dailyLimit !== data.settings.registration_daily_limit) {
+      patch.registration_daily_limit = dailyLimit
+    }
+
+    if (form.inviteRequired !== data.settings.invite_code_required) {
+      patch.invite_code_required = form.inviteRequired
+    }
+
+    const userInviteQuota = Number(form.userInviteQuota)
+    if (!Number.isInteger(userInviteQuota) || userInviteQuota < 0 || userInviteQuota > MAX_USER_INVITE_QUOTA) {
+      addToast('error', t('settings.invalidUserInviteQuota', { max: MAX_USER_INVITE_QUOTA }))
+      return
+    }
+    if (userInviteQuota !== data.settings.user_invite_quota) {
+      patch.user_invite_quota = userInviteQuota
+    }
+
+    if (form.r2Unlimited) {
+      if (data.settings.r2_max_total_bytes !== null) {
+        patch.r2_max_total_bytes = null
+      }
+    } else {
+      const gb = Number(form.r2LimitGb)
+      if (!Number.isFinite(gb) || gb <= 0) {
+        addToast('error', t('settings.invalidR2Limit'))
+        return
+      }
+      const bytes = Math.round(gb * BYTES_PER_GB)
+      if (bytes !== data.settings.r2_max_total_bytes) {
+        patch.r2_max_total_bytes = bytes
+      }
+    }
+
+    if (Object.keys(patch).length === 0) {
+      addToast('info', t('settings.noChanges'))
+      return
+    }
+
+    submit(patch)
+  }
+
+  const handleReset = (key: AppSettingKey) => {
+    submit({ reset: [key] })
+  }
+
+  if (isLoading && !data) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    )
+  }
+
+  if (error || !data || !form) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-sm text-error mb-3">{error}</p>
+        <button onClick={loadSettings} className="btn btn-sm">
+          {t('retry')}
+        </button>
+      </div>
+    )
+  }
+
+  const { defaults, overrides, records } = data
+
+  const sourceLabel = (key: AppSettingKey, defaultText: string) => {
+    if (overrides[key] === undefined) {
+      return t('settings.usingDefault', { value: defaultText })
+    }
+    const record = records.find((item) => item.key === key)
+    return t('settings.overridden', {
+      value: defaultText,
+      user: record?.updated_by_username || '-',
+      date: record ? new Date(record.updated_at).toLocaleString() : '-',
+    })
+  }
+
+  const resetButton = (key: AppSettingKey) =>
+    overrides[key] !== undefined && (
+      <button
+        onClick={() => handleReset(key)}
+        disabled={isSaving}
+        className="mt-2 text-xs text-primary hover:underline flex items-center gap-1"
+      >
+        <RotateCcw className="w-3 h-3" />
+        {t('settings.resetToDefault')}
+      </button>
+    )
+
+  return (
+    <div className="space-y-6">
+      <SettingsSection icon={SlidersHorizontal} title={t('settings.title')} description={t('settings.description')}>
+        <div className="space-y-3">
+          <SettingsItem
+            icon={UserPlus}
+            title={t('settings.allowRegistration')}
+            description={sourceLabel(
+              'allow_registration',
+              defaults.allow_registration ? t('settings.on') : t('settings.off')
+            )}
+            action={
+              <Toggle
+                checked={form.allowRegistration}
+                onChange={(checked) => setForm({ ...form, allowRegistration: checked })}
+              />
+            }
+          >
+            {resetButton('allow_registration')}
+          </SettingsItem>
+
+          <SettingsItem
+            icon={UserPlus}
+            title={t('settings.dailyLimit')}
+            description={sourceLabel(
+              'registration_daily_limit',
+              defaults.registration_daily_limit > 0 ? String(defaults.registration_daily_limit) : t('settings.unlimited')
+            )}
+            action={
+              <input
+                type="number"
+                min={0}
+                step={1}
+                className="input w-24 text-sm"
+                value={form.dailyLimit}
+                onChange={(e) => setForm({ ...form, dailyLimit: e.target.value })}
+              />
+            }
+          >
+            <p className="text-xs text-muted-foreground mt-1">{t('settings.dailyLimitHint')}</p>
+            {resetButton('registration_daily_limit')}
+          </SettingsItem>
+
+          <SettingsItem
+            icon={Ticket}
+            title={t('settings.inviteRequired')}
+            description={sourceLabel(
+              'invite_code_required',
+              defaults.invite_code_required ? t('settings.on') : t('settings.off')
+            )}
+            action={
+              <Toggle
+                checked={form.inviteRequired}
+                onChange={(checked) => setForm({ ...form, inviteRequired: checked })}
+              />
+            }
+          >
+            <p className="text-xs text-muted-foreground mt-1">{t('settings.inviteRequiredHint')}</p>
+            {resetButton('invite_code_required')}
+          </SettingsItem>
+
+          <SettingsItem
+            icon={Ticket}
+            title={t('settings.userInviteQuota')}
+            description={sourceLabel('user_invite_quota', String(defaults.user_invite_quota))}
+            action={
+              <input
+                type="number"
+                min={0}
+                max={MAX_USER_INVITE_QUOTA}
+                step={1}
+                className="input w-24 text-sm"
+                value={form.userInviteQuota}
+                onChange={(e) => setForm({ ...form, userInviteQuota: e.target.value })}
+              />
+            }
+          >
+            <p className="text-xs text-muted-foreground mt-1">{t('settings.userInviteQuotaHint')}</p>
+            {resetButton('user_invite_quota')}
+          </SettingsItem>
+
+          <SettingsItem
+            icon={HardDrive}
+            title={t('settings.r2Limit')}
+            description={sourceLabel(
+              'r2_max_total_bytes',
+              defaults.r2_max_total_bytes === null ? t('settings.unlimited') : formatBytes(defaults.r2_max_total_bytes)
+            )}
+            action={
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  className="input w-24 text-sm"
+                  value={form.r2LimitGb}
+                  disabled={form.r2Unlimited}
+                  onChange={(e) => setForm({ ...form, r2LimitGb: e.target.value })}
+                />
+                <span className="text-sm text-muted-foreground">GB</span>
+              </div>
+            }
+          >
+            <div className="flex items-center gap-2 mt-2">
+              <Toggle
+                checked={form.r2Unlimited}
+                onChange={(checked) => setForm({ ...form, r2Unlimited: checked })}
+              />
+              <span className="text-xs text-muted-foreground">{t('settings.unlimited')}</span>
+            </div>
+            <p className="text-xs text-muted-foreground mt-1">
+              {t('settings.r2Usage', { size: formatBytes(data.usage.r2_used_bytes) })}
+            </p>
+            {resetButton('r2_max_total_bytes')}
+          </SettingsItem>
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setForm(toForm(data))}
+              disabled={isSaving}
+              className="btn btn-ghost btn-sm flex items-center gap-2"
+            >
+              <RotateCcw className="w-4 h-4" />
+              {t('settings.discard')}
+            </button>
+            <button onClick={handleSave} disabled={isSaving} className="btn btn-primary btn-sm flex items-center gap-2">
+              <Save className="w-4 h-4" />
+              {isSaving ? t('settings.saving') : t('settings.save')}
+            </button>
+          </div>
+        </div>
+      </SettingsSection>
+    </div>
+  )
+}
@@ -0,0 +1,284 @@
+/**
+ * 管理后台 - 用户标签页
+ * 查看用户的书签数、存储占用和最近登录时间，停用 / 启用账号，重置密码
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Users, Search, KeyRound, Ban, CheckCircle, ChevronLeft, ChevronRight, Shield } from 'lucide-react'
+import { adminService } from '@/services/admin'
+import type { AdminUser } from '@/lib/types'
+import { ApiError } from '@/lib/api-client'
+import { useAuthStore } from '@/stores/authStore'
+import { useToastStore } from '@/stores/toastStore'
+import { ConfirmDialog } from '@/components/common/ConfirmDialog'
+import { SettingsSection } from '@/components/settings/SettingsSection'
+import { logger } from '@/lib/logger'
+import { formatBytes } from './format'
+
+const PAGE_SIZE = 50
+
+export function AdminUsersTab() {
+  const { t } = useTranslation('admin')
+  const currentUser = useAuthStore((state) => state.user)
+  const { addToast } = useToastStore()
+
+  const [users, setUsers] = useState<AdminUser[]>([])
+  const [total, setTotal] = useState(0)
+  const [page, setPage] = useState(1)
+  const [searchInput, setSearchInput] = useState('')
+  const [query, setQuery] = useState('')
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [temporaryPassword, setTemporaryPassword] = useState<{ username: string; password: string } | null>(null)
+  const [confirmState, setConfirmState] = useState<{
+    title: string
+    message: string
+    onConfirm: () => void
+  } | null>(null)
+
+  const loadUsers = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      setError(null)
+      const response = await adminService.getUsers({ q: query || undefined, page, page_size: PAGE_SIZE })
+      setUsers(response.users)
+      setTotal(response.meta.total)
+    } catch (err) {
+      logger.error('Failed to load users:', err)
+      setError(t('users.loadFailed'))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [query, page, t])
+
+  useEffect(() => {
+    loadUsers()
+  }, [loadUsers])
+
+  const handleSearch = () => {
+    setPage(1)
+    setQuery(searchInput.trim())
+  }
+
+  const replaceUser = (user: AdminUser) => {
+    setUsers((prev) => prev.map((item) => (item.id === user.id ? user : item)))
+  }
+
+  const handleToggleDisabled = (user: AdminUser) => {
+    const disabling = !user.disabled_at
+    setConfirmState({
+      title: disabling ? t('users.disableTitle') : t('users.enableTitle'),
+      message: disabling
+        ? t('users.disableMessage', { username: user.username })
+        : t('users.enableMessage', { username: user.username }),
+      onConfirm: async () => {
+        setConfirmState(null)
+        try {
+          const response = await adminService.setUserDisabled(user.id, disabling)
+          replaceUser(response.user)
+          addToast('success', disabling ? t('users.disableSuccess') : t('users.enableSuccess'))
+        } catch (err) {
+          logger.error('Failed to update user:', err)
+          addToast(
+            'error',
+            err instanceof ApiError && err.code === 'CANNOT_DISABLE_SELF' ? t('users.cannotDisableSelf') : t('users.updateFailed')
+          )
+        }
+      },
+    })
+  }
+
+  const handleResetPassword = (user: AdminUser) => {
+    setConfirmState({
+      title: t('users.resetPasswordTitle'),
+      message: t('users.resetPasswordMessage', { username: user.username }),
+      onConfirm: async () => {
+        setConfirmState(null)
+        try {
+          const response = await adminService.resetPassword(user.id)
+          if (response.temporary_password) {
+            setTemporaryPassword({ username: user.username, password: response.temporary_password })
+          }
+        } catch (err) {
+          logger.error('Failed to reset password:', err)
+          addToast('error', t('users.resetPasswordFailed'))
+        }
+      },
+    })
+  }
+
+  const handleCopyPassword = async () => {
+    if (!temporaryPassword) return
+    try {
+      await navigator.clipboard.writeText(temporaryPassword.password)
+      addToast('success', t('users.copied'))
+    } catch (err) {
+      logger.error('Failed to copy:', err)
+    }
+  }
+
+  const totalPages = Math.max(Math.ceil(total / PAGE_SIZE), 1)
+
+  return (
+    <div className="space-y-6">
+      {confirmState && (
+        <ConfirmDialog
+          isOpen
+          title={confirmState.title}
+          message={confirmState.message}
+          type="warning"
+          onConfirm={confirmState.onConfirm}
+          onCancel={() => setConfirmState(null)}
+        />
+      )}
+
+      <SettingsSection icon={Users} title={t('users.title')} description={t('users.description', { count: total })}>
+        <div className="space-y-4">
+          {/* 搜索 */}
+          <div className="flex gap-2">
+            <div className="relative flex-1">
+              <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+              <input
+                type="text"
+                className="input w-full pl-9 text-sm"
+                placeholder={t('users.searchPlaceholder')}
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    handleSearch()
+                  }
+                }}
+              />
+            </div>
+            <button onClick={handleSearch} className="btn btn-sm">
+              {t('users.search')}
+            </button>
+          </div>
+
+          {/* 临时密码只显示一次 */}
+          {temporaryPassword && (
+            <div className="p-3 rounded-lg border border-warning/30 bg-warning/5 space-y-2">
+              <p className="text-sm">{t('users.temporaryPasswordHint', { username: temporaryPassword.username })}</p>
+              <div className="flex items-center gap-2">
+                <code className="flex-1 text-xs font-mono break-all">{temporaryPassword.password}</code>
+                <button className="btn btn-sm" onClick={handleCopyPassword}>
+                  {t('users.copy')}
+                </button>
+                <button className="btn btn-sm" onClick={() => setTemporaryPassword(null)}>
+                  {t('users.done')}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : error ? (
+            <div className="text-center py-8">
+              <p className="text-sm text-error mb-3">{error}</p>
+              <button onClick={loadUsers} className="btn btn-sm">
+                {t('retry')}
+              </button>
+            </div>
+          ) : users.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <Users className="w-10 h-10 mx-auto mb-2 opacity-30" />
+              <p className="text-sm">{t('users.empty')}</p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {users.map((user) => {
+                const isSelf = user.id === currentUser?.id
+                return (
+                  <div
+                    key={user.id}
+                    className={`p-3 rounded-lg border border-border ${user.disabled_at ? 'bg-muted/30 opacity-75' : 'bg-card'}`}
+                  >
+                    <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2 mb-1">
+                          <span className="font-medium text-sm truncate">{user.username}</span>
+                          {user.role === 'admin' && (
+                            <span className="flex items-center gap-1 text-xs px-1.5 py-0.5 rounded bg-primary/10 text-primary">
+                              <Shield className="w-3 h-3" />
+                              {t('users.admin')}
+                            </span>
+                          )}
+                          {user.disabled_at && (
+                            <span className="text-xs px-1.5 py-0.5 rounded bg-error/20 text-error">
+                              {t('users.disabled')}
+                            </span>
+                          )}
+                        </div>
+                        {user.email && <p className="text-xs text-muted-foreground truncate mb-1">{user.email}</p>}
+                        <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+                          <span>{t('users.bookmarkCount', { count: user.bookmark_count })}</span>
+                          <span>{t('users.storage', { size: formatBytes(user.storage_bytes) })}</span>
+                          <span>{t('users.createdAt', { date: new Date(user.created_at).toLocaleDateString() })}</span>
+                          <span>
+                            {user.last_login_at
+                              ? t('users.lastLogin', { date: new Date(user.last_login_at).toLocaleString() })
+                              : t('users.neverLoggedIn')}
+                          </span>
+                        </div>
+                      </div>
+
+                      <div className="flex items-center gap-2 flex-shrink-0">
+                        <button
+                          onClick={() => handleResetPassword(user)}
+                          className="btn btn-sm flex items-center gap-1"
+                          title={t('users.resetPassword')}
+                        >
+                          <KeyRound className="w-4 h-4" />
+                          <span className="hidden sm:inline">{t('users.resetPassword')}</span>
+                        </button>
+                        <button
+                          onClick={() => handleToggleDisabled(user)}
+                          disabled={isSelf}
+                          className={`btn btn-sm flex items-center gap-1 ${user.disabled_at ? '' : 'text-error hover:bg-error/10'}`}
+                          title={isSelf ? t('users.cannotDisableSelf') : undefined}
+                        >
+                          {user.disabled_at ? <CheckCircle className="w-4 h-4" /> : <Ban className="w-4 h-4" />}
+                          <span className="hidden sm:inline">
+                            {user.disabled_at ? t('users.enable') : t('users.disable')}
+                          </span>
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          )}
+
+          {/* 分页 */}
+          {totalPages > 1 && (
+            <div className="flex items-center justify-center gap-3 text-sm">
+              <button
+                onClick={() => setPage((prev) => Math.max(prev - 1, 1))}
+                disabled={page <= 1}
+                className="btn btn-sm btn-ghost p-2"
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </button>
+              <span className="text-muted-foreground">
+                {page} / {totalPages}
+              </span>
+              <button
+                onClick={() => setPage((prev) => Math.min(prev + 1, totalPages))}
+                disabled={page >= totalPages}
+                className="btn btn-sm btn-ghost p-2"
+              >
+                <ChevronRight className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+        </div>
+      </SettingsSection>
+    </div>
+  )
+}
@@ -0,0 +1,11 @@
+const BYTE_UNITS = ['B', 'KB', 'MB', 'GB', 'TB']
+
+/** 格式化字节数，例如 1536 -> 1.5 KB */
+export function formatBytes(bytes: number): string {
+  if (!bytes || bytes <= 0) return '0 B'
+
+  const index = Math.min(Math.floor(Math.log(bytes) / Math.log(1024)), BYTE_UNITS.length - 1)
+  return `${parseFloat((bytes / Math.pow(1024, index)).toFixed(1))} ${BYTE_UNITS[index]}`
+}
+
+export const BYTES_PER_GB = 1024 * 1024 * 1024
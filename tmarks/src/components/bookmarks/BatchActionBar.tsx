@@ -1,7 +1,7 @@
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { useTranslation } from 'react-i18next'
-import type { BatchActionType } from '@/lib/types'
-import { useBatchAction } from '@/hooks/useBookmarks'
+import type { BatchActionRequest, BatchActionType, CollectionFilters } from '@/lib/types'
+import { useBatchAction, useBatchMatchCount, useBulkJob } from '@/hooks/useBookmarks'
 import { useTags } from '@/hooks/useTags'
 import { ConfirmDialog } from '@/components/common/ConfirmDialog'
 import { AlertDialog } from '@/components/common/AlertDialog'
@@ -9,12 +9,18 @@ import { Z_INDEX } from '@/lib/constants/z-index'
 
 interface BatchActionBarProps {
   selectedIds: string[]
+  /** 筛选重定向链接时显示“更新为新地址”操作 */
+  showFixRedirects?: boolean
+  /** 当前列表的筛选条件，提供时可选择“应用到全部匹配的书签” */
+  matchQuery?: CollectionFilters
   onClearSelection: () => void
   onSuccess?: () => void
 }
 
 export function BatchActionBar({
   selectedIds,
+  showFixRedirects = false,
+  matchQuery,
   onClearSelection,
   onSuccess,
 }: BatchActionBarProps) {
@@ -27,15 +33,52 @@ export function BatchActionBar({
   const [showSuccessAlert, setShowSuccessAlert] = useState(false)
   const [successMessage, setSuccessMessage] = useState('')
   const [pendingAction, setPendingAction] = useState<BatchActionType | null>(null)
+  const [tagNamesInput, setTagNamesInput] = useState('')
+  const [showUrlMenu, setShowUrlMenu] = useState(false)
+  const [urlPrefixFrom, setUrlPrefixFrom] = useState('')
+  const [urlPrefixTo, setUrlPrefixTo] = useState('')
+  const [applyToAll, setApplyToAll] = useState(false)
+  const [jobId, setJobId] = useState<string | null>(null)
   const batchAction = useBatchAction()
   const { data: tagsData } = useTags({ sort: 'name' })
+  const { data: matchedCount = 0 } = useBatchMatchCount(matchQuery)
+  const { data: job } = useBulkJob(jobId)
 
   const tags = tagsData?.tags || []
+  // 匹配数多于已选数量时才提供“应用到全部”
+  const canApplyToAll = !!matchQuery && matchedCount > selectedIds.length
+  const queryTarget = applyToAll && canApplyToAll
+  const targetCount = queryTarget ? matchedCount : selectedIds.length
+  const jobRunning = !!jobId && job?.status !== 'completed' && job?.status !== 'failed'
+  const busy = batchAction.isPending || jobRunning
+
+  const target = (): Pick<BatchActionRequest, 'bookmark_ids' | 'query'> =>
+    queryTarget ? { query: matchQuery } : { bookmark_ids: selectedIds }
+
+  // 后台任务结束后再清除选择，避免操作栏提前卸载而停止轮询
+  useEffect(() => {
+    if (!job || (job.status !== 'completed' && job.status !== 'failed')) return
+    setJobId(null)
+    if (job.status === 'completed') {
+      setSuccessMessage(t('batch.jobCompleted', { count: job.affected_count }))
+      setShowSuccessAlert(true)
+      onClearSelection()
+      onSuccess?.()
+    } else {
+      setShowErrorAlert(true)
+    }
+  }, [job, t, onClearSelection, onSuccess])
 
   const handleAction = async (action: BatchActionType) => {
-    if (selectedIds.length === 0) return
+    if (targetCount === 0) return
 
-    if (action === 'delete' || action === 'pin' || action === 'archive') {
+    if (
+      action === 'delete' ||
+      action === 'pin' ||
+      action === 'archive' ||
+      action === 'fix_redirects' ||
+      queryTarget
+    ) {
       setPendingAction(action)
       setShowConfirmDialog(true)
       return
@@ -44,33 +87,51 @@ export function BatchActionBar({
     await executeAction(action)
   }
 
-  const getSuccessMessage = (action: BatchActionType) => {
-    const count = selectedIds.length
+  const getSuccessMessage = (action: BatchActionType, affectedCount: number) => {
+    const count = targetCount
     switch (action) {
+      case 'fix_redirects':
+        return affectedCount < count
+          ? t('batch.fixRedirectsPartial', { count: affectedCount, skipped: count - affectedCount })
+          : t('batch.fixRedirectsSuccess', { count: affectedCount })
       case 'delete':
         return t('batch.deleteSuccess', { count })
       case 'pin':
         return t('batch.pinSuccess', { count })
       case 'archive':
         return t('batch.archiveSuccess', { count })
+      case 'set_public':
+        return t('batch.makePublicSuccess', { count: affectedCount })
+      case 'set_private':
+        return t('batch.makePrivateSuccess', { count: affectedCount })
+      case 'replace_url_prefix':
+        return t('batch.replaceUrlSuccess', { count: affectedCount })
       default:
         return tc('message.operationSuccess')
     }
   }
 
-  const executeAction = async (action: BatchActionType) => {
+  const executeAction = async (action: BatchActionType, extra: Partial<BatchActionRequest> = {}) => {
     try {
-      await batchAction.mutateAsync({
+      const result = await batchAction.mutateAsync({
         action,
-        bookmark_ids: selectedIds,
+        ...target(),
+        ...extra,
       })
+      // 匹配数量较多时服务端转为后台任务，等待任务结束
+      if (result.job) {
+        setJobId(result.job.id)
+        return true
+      }
       onClearSelection()
       onSuccess?.()
-      setSuccessMessage(getSuccessMessage(action))
+      setSuccessMessage(getSuccessMessage(action, result?.affected_count ?? targetCount))
       setShowSuccessAlert(true)
+      return true
     } catch (error) {
       console.error('Batch action failed:', error)
       setShowErrorAlert(true)
+      return false
     }
   }
 
@@ -88,7 +149,7 @@ export function BatchActionBar({
   }
 
   const getConfirmDialogConfig = () => {
-    const count = selectedIds.length
+    const count = targetCount
     switch (pendingAction) {
       case 'delete':
         return {
@@ -108,32 +169,42 @@ export function BatchActionBar({
           message: t('batch.archiveMessage', { count }),
           type: 'info' as const,
         }
+      case 'fix_redirects':
+        return {
+          title: t('batch.fixRedirectsTitle'),
+          message: t('batch.fixRedirectsMessage', { count }),
+          type: 'info' as const,
+        }
       default:
         return {
           title: t('batch.confirmAction'),
-          message: t('batch.confirmMessage'),
+          message: queryTarget ? t('batch.applyToAllMessage', { count }) : t('batch.confirmMessage'),
           type: 'info' as const,
         }
     }
   }
 
   const handleUpdateTags = async (mode: 'add' | 'remove') => {
-    if (selectedIds.length === 0 || selectedTagIds.length === 0) return
+    if (targetCount === 0 || selectedTagIds.length === 0) return
 
     try {
-      await batchAction.mutateAsync({
+      const result = await batchAction.mutateAsync({
         action: 'update_tags',
-        bookmark_ids: selectedIds,
+        ...target(),
         add_tag_ids: mode === 'add' ? selectedTagIds : undefined,
         remove_tag_ids: mode === 'remove' ? selectedTagIds : undefined,
       })
+      setSelectedTagIds([])
+      setShowTagMenu(false)
+      if (result.job) {
+        setJobId(result.job.id)
+        return
+      }
       const message = mode === 'add'
-        ? t('batch.addTagsSuccess', { count: selectedIds.length })
-        : t('batch.removeTagsSuccess', { count: selectedIds.length })
+        ? t('batch.addTagsSuccess', { count: targetCount })
+        : t('batch.removeTagsSuccess', { count: targetCount })
       setSuccessMessage(message)
       setShowSuccessAlert(true)
-      setSelectedTagIds([])
-      setShowTagMenu(false)
       onClearSelection()
       onSuccess?.()
     } catch (error) {
@@ -142,6 +213,31 @@ export function BatchActionBar({
     }
   }
 
+  const handleAddTagNames = async () => {
+    const tagNames = [...new Set(tagNamesInput.split(/[,，]/).map((name) => name.trim()).filter(Boolean))]
+    if (targetCount === 0 || tagNames.length === 0) return
+
+    if (await executeAction('add_tags', { tag_names: tagNames })) {
+      setTagNamesInput('')
+      setShowTagMenu(false)
+    }
+  }
+
+  const handleReplaceUrlPrefix = async () => {
+    if (!urlPrefixFrom.trim() || !urlPrefixTo.trim()) return
+
+    if (
+      await executeAction('replace_url_prefix', {
+        url_prefix_from: urlPrefixFrom.trim(),
+        url_prefix_to: urlPrefixTo.trim(),
+      })
+    ) {
+      setUrlPrefixFrom('')
+      setUrlPrefixTo('')
+      setShowUrlMenu(false)
+    }
+  }
+
   const toggleTag = (tagId: string) => {
     if (selectedTagIds.includes(tagId)) {
       setSelectedTagIds(selectedTagIds.filter((id) => id !== tagId))
@@ -155,16 +251,42 @@ export function BatchActionBar({
       <div className="card bg-primary text-primary-content shadow-2xl">
         <div className="flex items-center gap-4">
           <div className="text-sm font-medium">
-            {t('batch.selected', { count: selectedIds.length })}
+            {jobRunning
+              ? t('batch.jobProgress', { processed: job?.processed_count ?? 0, total: job?.total_count ?? targetCount })
+              : queryTarget
+                ? t('batch.allMatching', { count: matchedCount })
+                : t('batch.selected', { count: selectedIds.length })}
+            {canApplyToAll && !jobRunning && (
+              <label className="flex items-center gap-2 text-xs font-normal mt-1 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={applyToAll}
+                  onChange={(e) => setApplyToAll(e.target.checked)}
+                  className="checkbox checkbox-sm"
+                />
+                {t('batch.applyToAll', { count: matchedCount })}
+              </label>
+            )}
           </div>
 
           <div className="w-px h-6 bg-primary-content/20"></div>
 
           <div className="flex gap-2">
+            {showFixRedirects && (
+              <button
+                onClick={() => handleAction('fix_redirects')}
+                className="btn btn-sm bg-primary-content/10 hover:bg-primary-content/20 border-none text-primary-content"
+                disabled={busy}
+                title={t('batch.fixRedirects')}
+              >
+                {t('batch.fixRedirects')}
+              </button>
+            )}
+
             <button
               onClick={() => handleAction('pin')}
               className="btn btn-sm bg-primary-content/10 hover:bg-primary-content/20 border-none text-primary-content"
-              disabled={batchAction.isPending}
+              disabled={busy}
               title={t('batch.pin')}
             >
               {t('batch.pin')}
@@ -173,17 +295,76 @@ export function BatchActionBar({
             <button
               onClick={() => handleAction('archive')}
               className="btn btn-sm bg-primary-content/10 hover:bg-primary-content/20 border-none text-primary-content"
-              disabled={batchAction.isPending}
+              disabled={busy}
               title={t('batch.archive')}
             >
               {t('batch.archive')}
             </button>
 
+            <button
+              onClick={() => handleAction('set_public')}
+              className="btn btn-sm bg-primary-content/10 hover:bg-primary-content/20 border-none text-primary-content"
+              disabled={busy}
+              title={t('batch.makePublic')}
+            >
+              {t('batch.makePublic')}
+            </button>
+
+            <button
+              onClick={() => handleAction('set_private')}
+              className="btn btn-sm bg-primary-content/10 hover:bg-primary-content/20 border-none text-primary-content"
+              disabled={busy}
+              title={t('batch.makePrivate')}
+            >
+              {t('batch.makePrivate')}
+            </button>
+
+            <div className="relative">
+              <button
+                onClick={() => setShowUrlMenu(!showUrlMenu)}
+                className="btn btn-sm bg-primary-content/10 hover:bg-primary-content/20 border-none text-primary-content"
+                disabled={busy}
+              >
+                {t('batch.replaceUrl')}
+              </button>
+
+              {showUrlMenu && (
+                <div
+                  className="absolute bottom-full mb-2 left-0 w-72 text-base-content rounded-lg shadow-xl p-3 border space-y-2"
+                  style={{ backgroundColor: 'var(--card)', borderColor: 'var(--border)' }}
+                >
+                  <div className="text-sm font-medium">{t('batch.replaceUrlTitle')}</div>
+                  <input
+                    type="url"
+                    value={urlPrefixFrom}
+                    onChange={(e) => setUrlPrefixFrom(e.target.value)}
+                    placeholder={t('batch.replaceUrlFrom')}
+                    className="input text-sm w-full"
+                  />
+                  <input
+                    type="url"
+                    value={urlPrefixTo}
+                    onChange={(e) => setUrlPrefixTo(e.target.value)}
+                    placeholder={t('batch.replaceUrlTo')}
+                    className="input text-sm w-full"
+                  />
+                  <p className="text-xs text-muted-foreground">{t('batch.replaceUrlHint')}</p>
+                  <button
+                    onClick={handleReplaceUrlPrefix}
+                    className="btn btn-sm w-full"
+                    disabled={!urlPrefixFrom.trim() || !urlPrefixTo.trim() || busy}
+                  >
+                    {t('batch.replaceUrlApply')}
+                  </button>
+                </div>
+              )}
+            </div>
+
             <div className="relative">
               <button
                 onClick={() => setShowTagMenu(!showTagMenu)}
                 className="btn btn-sm bg-primary-content/10 hover:bg-primary-content/20 border-none text-primary-content"
-                disabled={batchAction.isPending}
+                disabled={busy}
               >
                 {t('batch.tags')}
               </button>
@@ -214,18 +395,40 @@ export function BatchActionBar({
                     <button
                       onClick={() => handleUpdateTags('add')}
                       className="btn btn-sm flex-1"
-                      disabled={selectedTagIds.length === 0 || batchAction.isPending}
+                      disabled={selectedTagIds.length === 0 || busy}
                     >
                       {t('batch.addTags')}
                     </button>
                     <button
                       onClick={() => handleUpdateTags('remove')}
                       className="btn btn-sm btn-outline flex-1"
-                      disabled={selectedTagIds.length === 0 || batchAction.isPending}
+                      disabled={selectedTagIds.length === 0 || busy}
                     >
                       {t('batch.removeTags')}
                     </button>
                   </div>
+                  <div className="flex gap-2 border-t pt-2 mt-2" style={{ borderColor: 'var(--border)' }}>
+                    <input
+                      type="text"
+                      value={tagNamesInput}
+                      onChange={(e) => setTagNamesInput(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') {
+                          e.preventDefault()
+                          handleAddTagNames()
+                        }
+                      }}
+                      placeholder={t('batch.tagNamesPlaceholder')}
+                      className="input text-sm flex-1 min-w-0"
+                    />
+                    <button
+                      onClick={handleAddTagNames}
+                      className="btn btn-sm"
+                      disabled={!tagNamesInput.trim() || busy}
+                    >
+                      {t('batch.addTags')}
+                    </button>
+                  </div>
                 </div>
               )}
             </div>
@@ -233,7 +436,7 @@ export function BatchActionBar({
             <button
               onClick={() => handleAction('delete')}
               className="btn btn-sm bg-error/10 hover:bg-error/20 border-none text-primary-content"
-              disabled={batchAction.isPending}
+              disabled={busy}
               title={t('batch.delete')}
             >
               {t('batch.delete')}
@@ -245,7 +448,7 @@ export function BatchActionBar({
           <button
             onClick={onClearSelection}
             className="btn btn-sm btn-ghost text-primary-content"
-            disabled={batchAction.isPending}
+            disabled={busy}
           >
             {t('batch.cancel')}
           </button>
@@ -1,12 +1,17 @@
 import { useTranslation } from 'react-i18next'
 import type { Bookmark } from '@/lib/types'
 import { AdaptiveImage } from '@/components/common/AdaptiveImage'
-import { useRecordClick } from '@/hooks/useBookmarks'
+import { HighlightedText } from '@/components/common/HighlightedText'
+import { useRecordClick, useUpdateReadingState } from '@/hooks/useBookmarks'
 import { useState, useEffect, useRef } from 'react'
 import type { ImageType } from '@/lib/image-utils'
+import { getFaviconUrl } from '@/lib/favicon'
 import { DefaultBookmarkIconComponent } from './DefaultBookmarkIcon'
 import { usePreferences } from '@/hooks/usePreferences'
 import { SnapshotViewer } from './SnapshotViewer'
+import { BookmarkNotesDialog } from './BookmarkNotes'
+import { BookOpen, BookOpenCheck, StickyNote } from 'lucide-react'
+import { useToastStore } from '@/stores/toastStore'
 
 interface BookmarkCardViewProps {
   bookmarks: Bookmark[]
@@ -175,42 +180,31 @@ function BookmarkCard({
   const [imageType, setImageType] = useState<ImageType>('unknown')
   const [coverImageError, setCoverImageError] = useState(false)
   const [faviconError, setFaviconError] = useState(false)
-  const [googleFaviconIsDefault, setGoogleFaviconIsDefault] = useState(false)
+  const [proxyFaviconError, setProxyFaviconError] = useState(false)
+  const [showNotes, setShowNotes] = useState(false)
+  const noteCount = readOnly ? 0 : bookmark.note_count ?? 0
   const recordClick = useRecordClick()
+  const updateReadingState = useUpdateReadingState()
+  const { addToast } = useToastStore()
+  const readingStatus = readOnly ? null : bookmark.reading_status ?? null
   const { data: preferences } = usePreferences()
   const defaultIcon = preferences?.default_bookmark_icon || 'orbital-spinner'
+  const linkStatus = bookmark.link_check?.status === 'broken' || bookmark.link_check?.status === 'redirected'
+    ? bookmark.link_check.status
+    : null
 
-  // 生成Google Favicon URL作为最终fallback
-  const getFaviconUrl = (url: string): string => {
-    try {
-      const urlObj = new URL(url)
-      return `https://www.google.com/s2/favicons?domain=${urlObj.hostname}&sz=64`
-    } catch {
-      return ''
-    }
-  }
-
-  const googleFaviconUrl = getFaviconUrl(bookmark.url)
-
-  // 检测 Google Favicon 是否为默认灰色地球图标
-  const checkIfGoogleDefaultIcon = (img: HTMLImageElement) => {
-    // Google 的默认图标特征：
-    // 1. 图片很小（通常是 16x16 或更小）
-    // 2. 可以通过加载后检查图片尺寸来判断
-    if (img.naturalWidth <= 16 && img.naturalHeight <= 16) {
-      setGoogleFaviconIsDefault(true)
-    }
-  }
+  // 服务端代理的站点图标作为最终fallback
+  const proxyFaviconUrl = getFaviconUrl(bookmark.url)
 
   // 决定显示什么图片 - 改进的回退策略
   // 1. cover_image (封面图)
   // 2. favicon (网站图标，从插件获取)
-  // 3. Google Favicon API (但跳过默认灰色地球)
+  // 3. 服务端代理的站点图标 (无图标时为字母头像)
   // 4. 用户自定义的 SVG 图标
   const hasCoverImage = bookmark.cover_image && bookmark.cover_image.trim() !== '' && !coverImageError
   const hasFavicon = !hasCoverImage && bookmark.favicon && bookmark.favicon.trim() !== '' && !faviconError
-  const shouldShowGoogleFavicon = !hasCoverImage && !hasFavicon && googleFaviconUrl && !faviconError && !googleFaviconIsDefault
-  const shouldShowImageArea = hasCoverImage || hasFavicon || shouldShowGoogleFavicon
+  const shouldShowProxyFavicon = !hasCoverImage && !hasFavicon && proxyFaviconUrl && !proxyFaviconError
+  const shouldShowImageArea = hasCoverImage || hasFavicon || shouldShowProxyFavicon
 
   const handleVisit = () => {
     // 记录点击统计
@@ -221,6 +215,20 @@ function BookmarkCard({
     window.open(bookmark.url, '_blank', 'noopener,noreferrer')
   }
 
+  // 加入或移出稍后阅读队列
+  const handleToggleReadLater = async () => {
+    try {
+      await updateReadingState.mutateAsync({
+        id: bookmark.id,
+        data: { status: readingStatus ? null : 'unread' },
+      })
+      addToast('success', readingStatus ? t('readLater.removed') : t('readLater.added'))
+    } catch (error) {
+      console.error('Failed to update reading state:', error)
+      addToast('error', t('readLater.updateFailed'))
+    }
+  }
+
   const handleCardClick = (e: React.MouseEvent) => {
     if (batchMode && onToggleSelect) {
       e.preventDefault()
@@ -284,10 +292,53 @@ function BookmarkCard({
         </button>
       )}
 
-      {/* 图片区域 - 三级回退：cover_image → favicon → Google Favicon API → 默认图标 */}
+      {/* 笔记按钮 */}
+      {!readOnly && !batchMode && (
+        <button
+          onClick={(event) => {
+            event.stopPropagation()
+            setShowNotes(true)
+          }}
+          className={`absolute top-2 sm:top-3 ${onEdit ? 'right-11 sm:right-12' : 'right-2 sm:right-3'} w-8 h-8 rounded-lg flex items-center justify-center transition-all hover:scale-110 z-10 touch-manipulation ${showEditHint ? 'opacity-100' : 'opacity-0 group-hover:opacity-100 active:opacity-100'
+            }`}
+          title={t('notes.open')}
+        >
+          <StickyNote className="w-4 h-4 text-base-content drop-shadow-lg" strokeWidth={2} />
+        </button>
+      )}
+
+      {/* 稍后阅读按钮 */}
+      {!readOnly && !batchMode && (
+        <button
+          onClick={(event) => {
+            event.stopPropagation()
+            handleToggleReadLater()
+          }}
+          disabled={updateReadingState.isPending}
+          className={`absolute top-2 sm:top-3 ${onEdit ? 'right-20 sm:right-[5.25rem]' : 'right-11 sm:right-12'} w-8 h-8 rounded-lg flex items-center justify-center transition-all hover:scale-110 z-10 touch-manipulation ${showEditHint ? 'opacity-100' : 'opacity-0 group-hover:opacity-100 active:opacity-100'
+            }`}
+          title={readingStatus ? t('readLater.remove') : t('readLater.add')}
+        >
+          {readingStatus ? (
+            <BookOpenCheck className="w-4 h-4 text-primary drop-shadow-lg" strokeWidth={2} />
+          ) : (
+            <BookOpen className="w-4 h-4 text-base-content drop-shadow-lg" strokeWidth={2} />
+          )}
+        </button>
+      )}
+
+      {showNotes && (
+        <BookmarkNotesDialog
+          bookmarkId={bookmark.id}
+          bookmarkTitle={bookmark.title}
+          onClose={() => setShowNotes(false)}
+        />
+      )}
+
+      {/* 图片区域 - 三级回退：cover_image → favicon → 代理站点图标 → 默认图标 */}
       {shouldShowImageArea && (
         <div
-          className={`relative overflow-hidden flex-shrink-0 flex items-center justify-center ${imageType === 'favicon' || hasFavicon || shouldShowGoogleFavicon
+          className={`relative overflow-hidden flex-shrink-0 flex items-center justify-center ${imageType === 'favicon' || hasFavicon || shouldShowProxyFavicon
             ? 'h-24 sm:h-20 bg-gradient-to-br from-primary/5 to-secondary/5'
             : 'h-40 sm:h-32 bg-gradient-to-br from-primary/10 to-secondary/10'
             }`}
@@ -314,17 +365,13 @@ function BookmarkCard({
                 onError={() => setFaviconError(true)}
               />
             </div>
-          ) : shouldShowGoogleFavicon ? (
+          ) : shouldShowProxyFavicon ? (
             <div className="relative w-14 h-14 sm:w-12 sm:h-12 flex items-center justify-center">
               <img
-                src={googleFaviconUrl}
+                src={proxyFaviconUrl}
                 alt={bookmark.title}
                 className="w-full h-full object-contain"
-                onLoad={(e) => {
-                  const img = e.target as HTMLImageElement
-                  checkIfGoogleDefaultIcon(img)
-                }}
-                onError={() => setFaviconError(true)}
+                onError={() => setProxyFaviconError(true)}
               />
             </div>
           ) : null}
@@ -344,7 +391,7 @@ function BookmarkCard({
       {/* 内容区 */}
       <div className="flex flex-col p-4 sm:p-3 gap-2.5 sm:gap-2 relative">
         {/* 状态标识 */}
-        {(!!bookmark.is_pinned || !!bookmark.is_archived) && (
+        {(!!bookmark.is_pinned || !!bookmark.is_archived || linkStatus || readingStatus) && (
           <div className="flex gap-1.5 mb-1">
             {!!bookmark.is_pinned && (
               <span className="bg-warning text-warning-content text-xs px-2 py-0.5 rounded-full font-medium">
@@ -356,6 +403,37 @@ function BookmarkCard({
                 {t('status.archived')}
               </span>
             )}
+            {readingStatus === 'unread' && (
+              <span className="bg-primary text-primary-foreground text-xs px-2 py-0.5 rounded-full font-medium">
+                {t('readLater.status.unread')}
+              </span>
+            )}
+            {readingStatus === 'reading' && (
+              <span className="bg-accent text-accent-foreground text-xs px-2 py-0.5 rounded-full font-medium">
+                {t('readLater.readingProgress', { progress: bookmark.reading_progress ?? 0 })}
+              </span>
+            )}
+            {readingStatus === 'read' && (
+              <span className="bg-success text-success-foreground text-xs px-2 py-0.5 rounded-full font-medium">
+                {t('readLater.status.read')}
+              </span>
+            )}
+            {linkStatus === 'broken' && (
+              <span
+                className="bg-error text-error-content text-xs px-2 py-0.5 rounded-full font-medium"
+                title={bookmark.link_check?.http_status ? `HTTP ${bookmark.link_check.http_status}` : undefined}
+              >
+                {t('linkStatus.broken')}
+              </span>
+            )}
+            {linkStatus === 'redirected' && (
+              <span
+                className="bg-info text-info-content text-xs px-2 py-0.5 rounded-full font-medium"
+                title={bookmark.link_check?.final_url ?? undefined}
+              >
+                {t('linkStatus.redirected')}
+              </span>
+            )}
           </div>
         )}
 
@@ -364,18 +442,18 @@ function BookmarkCard({
           className="font-semibold text-base sm:text-sm line-clamp-2 hover:text-primary transition-colors leading-snug"
           title={bookmark.title}
         >
-          {bookmark.title}
+          <HighlightedText text={bookmark.title} highlight={bookmark.search_highlights?.title} />
         </h3>
 
         {/* 描述 */}
         {bookmark.description && (
           <p className="text-sm sm:text-xs text-base-content/70 line-clamp-3 leading-relaxed">
-            {bookmark.description}
+            <HighlightedText text={bookmark.description} highlight={bookmark.search_highlights?.description} />
           </p>
         )}
 
-        {/* 标签和快照 */}
-        {(bookmark.tags && bookmark.tags.length > 0) || (bookmark.has_snapshot && (bookmark.snapshot_count ?? 0) > 0) ? (
+        {/* 标签、快照和笔记 */}
+        {(bookmark.tags && bookmark.tags.length > 0) || (bookmark.has_snapshot && (bookmark.snapshot_count ?? 0) > 0) || noteCount > 0 ? (
           <div className="flex flex-wrap items-center gap-1.5 mt-1">
             {/* 快照图标 - 只在有快照且数量大于0时显示 */}
             {bookmark.has_snapshot && (bookmark.snapshot_count ?? 0) > 0 && (
@@ -384,10 +462,26 @@ function BookmarkCard({
                   bookmarkId={bookmark.id} 
                   bookmarkTitle={bookmark.title}
                   snapshotCount={bookmark.snapshot_count ?? 0}
+                  noteCount={noteCount}
                 />
               </div>
             )}
             
+            {/* 笔记数量 */}
+            {noteCount > 0 && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation()
+                  setShowNotes(true)
+                }}
+                className="inline-flex items-center gap-1 px-2 py-0.5 text-xs rounded-full bg-info/10 text-info hover:bg-info/20 hover:scale-105 active:scale-95 transition-all"
+                title={t('notes.viewCount', { count: noteCount })}
+              >
+                <StickyNote className="w-3 h-3" strokeWidth={2} />
+                <span className="font-medium">{noteCount}</span>
+              </button>
+            )}
+
             {/* 标签 */}
             {bookmark.tags && bookmark.tags.slice(0, 4).map((tag) => (
               <span
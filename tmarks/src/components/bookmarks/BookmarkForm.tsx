@@ -3,11 +3,16 @@ import { useTranslation } from 'react-i18next'
 import { logger } from '@/lib/logger'
 import { useCreateBookmark, useUpdateBookmark, useDeleteBookmark } from '@/hooks/useBookmarks'
 import { useCreateTag, useTags } from '@/hooks/useTags'
+import { useBookmarkReminder, useClearBookmarkReminder, useSetBookmarkReminder } from '@/hooks/useReminders'
 import { bookmarksService } from '@/services/bookmarks'
 import type { Bookmark, CreateBookmarkRequest, UpdateBookmarkRequest } from '@/lib/types'
 import { ConfirmDialog } from '@/components/common/ConfirmDialog'
 import { Z_INDEX } from '@/lib/constants/z-index'
 
+// 提醒选项：keep 保留已有提醒，none 不提醒（编辑时会取消已有提醒），数字为若干天后提醒
+const REMINDER_DAY_OPTIONS = ['1', '3', '7', '14', '30', '90'] as const
+type ReminderChoice = 'keep' | 'none' | typeof REMINDER_DAY_OPTIONS[number]
+
 interface BookmarkFormProps {
   bookmark?: Bookmark | null
   onClose: () => void
@@ -25,6 +30,7 @@ export function BookmarkForm({ bookmark, onClose, onSuccess }: BookmarkFormProps
   const [url, setUrl] = useState(bookmark?.url || '')
   const [description, setDescription] = useState(bookmark?.description || '')
   const [coverImage, setCoverImage] = useState(bookmark?.cover_image || '')
+  const [favicon, setFavicon] = useState(bookmark?.favicon || '')
   const [selectedTagIds, setSelectedTagIds] = useState<string[]>(
     bookmark?.tags.map((t) => t.id) || []
   )
@@ -36,14 +42,27 @@ export function BookmarkForm({ bookmark, onClose, onSuccess }: BookmarkFormProps
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false)
   const [urlWarning, setUrlWarning] = useState<{ exists: true; bookmark: Bookmark } | null>(null)
   const [checkingUrl, setCheckingUrl] = useState(false)
+  const [fetchingMetadata, setFetchingMetadata] = useState(false)
+  const [metadataFailed, setMetadataFailed] = useState(false)
+  const [reminderChoice, setReminderChoice] = useState<ReminderChoice>('none')
 
   const createBookmark = useCreateBookmark()
   const updateBookmark = useUpdateBookmark()
   const deleteBookmark = useDeleteBookmark()
   const createTag = useCreateTag()
+  const { data: existingReminder } = useBookmarkReminder(bookmark?.id)
+  const setBookmarkReminder = useSetBookmarkReminder()
+  const clearBookmarkReminder = useClearBookmarkReminder()
   const { data: tagsData } = useTags()
   const tags = tagsData?.tags || []
 
+  // 已有提醒加载后默认保留
+  useEffect(() => {
+    if (existingReminder) {
+      setReminderChoice((choice) => (choice === 'none' ? 'keep' : choice))
+    }
+  }, [existingReminder])
+
   // URL 变化时检查是否已存在
   useEffect(() => {
     const checkUrl = async () => {
@@ -86,6 +105,32 @@ export function BookmarkForm({ bookmark, onClose, onSuccess }: BookmarkFormProps
     return () => clearTimeout(timeoutId)
   }, [url, isEditing])
 
+  // 粘贴 URL 时抓取网页元数据，只填充尚未填写的字段
+  const handleUrlPaste = async (e: React.ClipboardEvent<HTMLInputElement>) => {
+    const pasted = e.clipboardData.getData('text').trim()
+    try {
+      const parsed = new URL(pasted)
+      if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return
+    } catch {
+      return
+    }
+
+    setFetchingMetadata(true)
+    setMetadataFailed(false)
+    try {
+      const metadata = await bookmarksService.unfurl(pasted)
+      if (metadata.title) setTitle((current) => (current.trim() ? current : metadata.title!))
+      if (metadata.description) setDescription((current) => (current.trim() ? current : metadata.description!))
+      if (metadata.image) setCoverImage((current) => (current.trim() ? current : metadata.image!))
+      if (metadata.favicon) setFavicon((current) => current || metadata.favicon!)
+    } catch (error) {
+      logger.error('Failed to fetch page metadata:', error)
+      setMetadataFailed(true)
+    } finally {
+      setFetchingMetadata(false)
+    }
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setError('')
@@ -139,20 +184,27 @@ export function BookmarkForm({ bookmark, onClose, onSuccess }: BookmarkFormProps
           updateData.cover_image = coverImage.trim() ? coverImage.trim() : null
         }
 
+        if (favicon !== (bookmark.favicon || '')) {
+          updateData.favicon = favicon || null
+        }
+
         await updateBookmark.mutateAsync({ id: bookmark.id, data: updateData })
+        await saveReminder(bookmark.id)
       } else {
         const createData: CreateBookmarkRequest = {
           title: title.trim(),
           url: url.trim(),
           description: description.trim() ? description.trim() : undefined,
           cover_image: coverImage.trim() ? coverImage.trim() : undefined,
+          favicon: favicon || undefined,
           tag_ids: selectedTagIds,
           is_pinned: isPinned,
           is_archived: isArchived,
           is_public: isPublic,
         }
 
-        await createBookmark.mutateAsync(createData)
+        const created = await createBookmark.mutateAsync(createData)
+        await saveReminder(created.id)
       }
       onSuccess?.()
       onClose()
@@ -161,6 +213,22 @@ export function BookmarkForm({ bookmark, onClose, onSuccess }: BookmarkFormProps
     }
   }
 
+  const saveReminder = async (bookmarkId: string) => {
+    if (reminderChoice === 'keep') return
+
+    if (reminderChoice === 'none') {
+      if (existingReminder) {
+        await clearBookmarkReminder.mutateAsync(bookmarkId)
+      }
+      return
+    }
+
+    await setBookmarkReminder.mutateAsync({
+      bookmarkId,
+      data: { remind_in_days: Number(reminderChoice) },
+    })
+  }
+
   const toggleTag = (tagId: string) => {
     if (selectedTagIds.includes(tagId)) {
       setSelectedTagIds(selectedTagIds.filter((id) => id !== tagId))
@@ -252,7 +320,7 @@ export function BookmarkForm({ bookmark, onClose, onSuccess }: BookmarkFormProps
     }
   }
 
-  const isPending = createBookmark.isPending || updateBookmark.isPending || deleteBookmark.isPending || createTag.isPending
+  const isPending = createBookmark.isPending || updateBookmark.isPending || deleteBookmark.isPending || createTag.isPending || setBookmarkReminder.isPending || clearBookmarkReminder.isPending
 
   return (
     <div className="fixed inset-0 bg-background/80 backdrop-blur-sm flex items-center justify-center p-4" style={{ zIndex: Z_INDEX.BOOKMARK_FORM }}>
@@ -313,9 +381,10 @@ export function BookmarkForm({ bookmark, onClose, onSuccess }: BookmarkFormProps
                   placeholder={t('form.urlPlaceholder')}
                   value={url}
                   onChange={(e) => setUrl(e.target.value)}
+                  onPaste={handleUrlPaste}
                   disabled={isPending}
                 />
-                {checkingUrl && (
+                {(checkingUrl || fetchingMetadata) && (
                   <div className="absolute right-3 top-1/2 -translate-y-1/2">
                     <svg className="animate-spin h-4 w-4 text-muted-foreground" viewBox="0 0 24 24" fill="none">
                       <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
@@ -324,6 +393,12 @@ export function BookmarkForm({ bookmark, onClose, onSuccess }: BookmarkFormProps
                   </div>
                 )}
               </div>
+              {fetchingMetadata && (
+                <p className="mt-1 text-xs text-muted-foreground">{t('form.fetchingMetadata')}</p>
+              )}
+              {metadataFailed && !fetchingMetadata && (
+                <p className="mt-1 text-xs text-muted-foreground">{t('form.fetchMetadataFailed')}</p>
+              )}
               {urlWarning && (
                 <div className="mt-1.5 p-2 bg-warning/10 border border-warning/30 rounded-lg text-xs text-warning animate-fade-in flex items-start gap-2">
                   <svg className="w-4 h-4 flex-shrink-0 mt-0.5" fill="currentColor" viewBox="0 0 20 20">
@@ -497,6 +572,28 @@ export function BookmarkForm({ bookmark, onClose, onSuccess }: BookmarkFormProps
               />
               <span className="text-xs text-foreground">{t('form.public')}</span>
             </label>
+
+            <label className="flex items-center gap-1.5">
+              <span className="text-xs text-foreground">{t('form.reminder')}</span>
+              <select
+                value={reminderChoice}
+                onChange={(e) => setReminderChoice(e.target.value as ReminderChoice)}
+                disabled={isPending}
+                className="text-xs bg-card border border-border rounded px-1.5 py-0.5 text-foreground"
+              >
+                {existingReminder && (
+                  <option value="keep">
+                    {t('form.reminderKeep', { date: new Date(existingReminder.remind_at).toLocaleDateString() })}
+                  </option>
+                )}
+                <option value="none">{t('form.reminderNone')}</option>
+                {REMINDER_DAY_OPTIONS.map((days) => (
+                  <option key={days} value={days}>
+                    {t(`form.reminderOptions.${days}`)}
+                  </option>
+                ))}
+              </select>
+            </label>
             </div>
 
             {/* 按钮 */}
@@ -1,3 +1,4 @@
+import { useMemo } from 'react'
 import { useTranslation } from 'react-i18next'
 import type { Bookmark } from '@/lib/types'
 import { BookmarkListView } from './BookmarkListView'
@@ -18,7 +19,7 @@ interface BookmarkListContainerProps {
 }
 
 export function BookmarkListContainer({
-  bookmarks,
+  bookmarks: rawBookmarks,
   isLoading,
   viewMode = 'list',
   onEdit,
@@ -30,6 +31,16 @@ export function BookmarkListContainer({
 }: BookmarkListContainerProps) {
   const { t } = useTranslation('bookmarks')
 
+  // 无限滚动拼接多页时按 ID 去重，同一书签只渲染一张卡片
+  const bookmarks = useMemo(() => {
+    const seen = new Set<string>()
+    return rawBookmarks.filter((bookmark) => {
+      if (seen.has(bookmark.id)) return false
+      seen.add(bookmark.id)
+      return true
+    })
+  }, [rawBookmarks])
+
   if (isLoading && bookmarks.length === 0) {
     const skeletonCount = previousCount > 0 ? Math.min(previousCount, 10) : 3
 
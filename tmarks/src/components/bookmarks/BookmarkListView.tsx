@@ -6,6 +6,8 @@ import { useRecordClick } from '@/hooks/useBookmarks'
 import { usePreferences } from '@/hooks/usePreferences'
 import { DefaultBookmarkIconComponent } from './DefaultBookmarkIcon'
 import { SnapshotViewer } from './SnapshotViewer'
+import { HighlightedText } from '@/components/common/HighlightedText'
+import { getFaviconUrl } from '@/lib/favicon'
 
 interface BookmarkListViewProps {
   bookmarks: Bookmark[]
@@ -137,39 +139,23 @@ const BookmarkListItem = memo(function BookmarkListItem({
   const { t } = useTranslation('bookmarks')
   const [coverImageError, setCoverImageError] = useState(false)
   const [faviconError, setFaviconError] = useState(false)
-  const [googleFaviconIsDefault, setGoogleFaviconIsDefault] = useState(false)
+  const [proxyFaviconError, setProxyFaviconError] = useState(false)
   const recordClick = useRecordClick()
   const { data: preferences } = usePreferences()
   const defaultIcon = preferences?.default_bookmark_icon || 'orbital-spinner'
 
-  // 生成Google Favicon URL作为fallback
-  const getFaviconUrl = (url: string): string => {
-    try {
-      const urlObj = new URL(url)
-      return `https://www.google.com/s2/favicons?domain=${urlObj.hostname}&sz=64`
-    } catch {
-      return ''
-    }
-  }
+  // 服务端代理的站点图标作为fallback
+  const proxyFaviconUrl = getFaviconUrl(bookmark.url)
 
-  const googleFaviconUrl = getFaviconUrl(bookmark.url)
-  
-  // 检测 Google Favicon 是否为默认灰色地球图标
-  const checkIfGoogleDefaultIcon = (img: HTMLImageElement) => {
-    if (img.naturalWidth <= 16 && img.naturalHeight <= 16) {
-      setGoogleFaviconIsDefault(true)
-    }
-  }
-  
   // 决定显示什么图片 - 四级回退策略
   // 1. cover_image (封面图)
   // 2. favicon (网站图标，从插件获取)
-  // 3. Google Favicon API (但跳过默认灰色地球)
+  // 3. 服务端代理的站点图标 (无图标时为字母头像)
   // 4. 动画图标
   const hasCoverImage = bookmark.cover_image && !coverImageError
   const hasFavicon = !hasCoverImage && bookmark.favicon && !faviconError
-  const shouldShowGoogleFavicon = !hasCoverImage && !hasFavicon && googleFaviconUrl && !faviconError && !googleFaviconIsDefault
-  const shouldShowIcon = hasCoverImage || hasFavicon || shouldShowGoogleFavicon
+  const shouldShowProxyFavicon = !hasCoverImage && !hasFavicon && proxyFaviconUrl && !proxyFaviconError
+  const shouldShowIcon = hasCoverImage || hasFavicon || shouldShowProxyFavicon
 
   const handleVisit = () => {
     // 记录点击统计
@@ -248,16 +234,12 @@ const BookmarkListItem = memo(function BookmarkListItem({
                   className="w-8 h-8 sm:w-10 sm:h-10 object-contain"
                   onError={() => setFaviconError(true)}
                 />
-              ) : shouldShowGoogleFavicon ? (
+              ) : shouldShowProxyFavicon ? (
                 <img
-                  src={googleFaviconUrl}
+                  src={proxyFaviconUrl}
                   alt={bookmark.title}
                   className="w-8 h-8 sm:w-10 sm:h-10 object-contain"
-                  onLoad={(e) => {
-                    const img = e.target as HTMLImageElement
-                    checkIfGoogleDefaultIcon(img)
-                  }}
-                  onError={() => setFaviconError(true)}
+                  onError={() => setProxyFaviconError(true)}
                 />
               ) : null
             ) : (
@@ -276,7 +258,7 @@ const BookmarkListItem = memo(function BookmarkListItem({
                 className="font-semibold text-sm sm:text-base hover:text-primary transition-colors text-left flex-1 min-w-0 truncate"
                 title={bookmark.title}
               >
-                {bookmark.title}
+                <HighlightedText text={bookmark.title} highlight={bookmark.search_highlights?.title} />
               </button>
               {!!bookmark.is_pinned && (
                 <span className="bg-warning text-warning-content text-xs px-2 py-0.5 rounded-full font-medium flex-shrink-0" title={t('status.pinned')}>
@@ -306,7 +288,7 @@ const BookmarkListItem = memo(function BookmarkListItem({
         {/* 第二行：描述（占据整个宽度） */}
         {bookmark.description && (
           <p className="text-sm text-base-content/70 line-clamp-2 leading-relaxed">
-            {bookmark.description}
+            <HighlightedText text={bookmark.description} highlight={bookmark.search_highlights?.description} />
           </p>
         )}
 
@@ -0,0 +1,260 @@
+/**
+ * 书签笔记与高亮摘录
+ * BookmarkNotesPanel 渲染笔记列表（可选编辑），BookmarkNotesDialog 为书签卡片使用的弹窗
+ */
+
+import { useState, useEffect } from 'react'
+import { createPortal } from 'react-dom'
+import { useTranslation } from 'react-i18next'
+import { Highlighter, Pencil, StickyNote, Trash2 } from 'lucide-react'
+import { formatDistanceToNow } from 'date-fns'
+import { zhCN, enUS } from 'date-fns/locale'
+import { MarkdownText } from '@/components/common/MarkdownText'
+import {
+  useBookmarkNotes,
+  useCreateBookmarkNote,
+  useDeleteBookmarkNote,
+  useUpdateBookmarkNote,
+} from '@/hooks/useBookmarkNotes'
+import { useDialogStore } from '@/stores/dialogStore'
+import { useToastStore } from '@/stores/toastStore'
+import { Z_INDEX } from '@/lib/constants/z-index'
+import type { BookmarkNote, HighlightColor } from '@/lib/types'
+
+const HIGHLIGHT_BORDER: Record<HighlightColor, string> = {
+  yellow: 'border-yellow-400 bg-yellow-400/10',
+  green: 'border-green-500 bg-green-500/10',
+  blue: 'border-blue-500 bg-blue-500/10',
+  pink: 'border-pink-500 bg-pink-500/10',
+  purple: 'border-purple-500 bg-purple-500/10',
+}
+
+interface BookmarkNotesPanelProps {
+  bookmarkId: string
+  /** 是否允许添加、编辑和删除 */
+  editable?: boolean
+  enabled?: boolean
+}
+
+export function BookmarkNotesPanel({ bookmarkId, editable = false, enabled = true }: BookmarkNotesPanelProps) {
+  const { t, i18n } = useTranslation('bookmarks')
+  const dateLocale = i18n.language === 'zh-CN' ? zhCN : enUS
+  const { data: notes = [], isLoading } = useBookmarkNotes(bookmarkId, { enabled })
+  const createNote = useCreateBookmarkNote(bookmarkId)
+  const updateNote = useUpdateBookmarkNote(bookmarkId)
+  const deleteNote = useDeleteBookmarkNote(bookmarkId)
+  const { addToast } = useToastStore()
+
+  const [draft, setDraft] = useState('')
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editingContent, setEditingContent] = useState('')
+
+  const handleCreate = async () => {
+    const content = draft.trim()
+    if (!content) return
+    try {
+      await createNote.mutateAsync({ kind: 'note', content })
+      setDraft('')
+    } catch (error) {
+      console.error('Failed to create note:', error)
+      addToast('error', t('notes.saveFailed'))
+    }
+  }
+
+  const handleStartEdit = (note: BookmarkNote) => {
+    setEditingId(note.id)
+    setEditingContent(note.content)
+  }
+
+  const handleSaveEdit = async (note: BookmarkNote) => {
+    if (note.kind === 'note' && !editingContent.trim()) return
+    try {
+      await updateNote.mutateAsync({ noteId: note.id, data: { content: editingContent } })
+      setEditingId(null)
+    } catch (error) {
+      console.error('Failed to update note:', error)
+      addToast('error', t('notes.saveFailed'))
+    }
+  }
+
+  const handleDelete = async (note: BookmarkNote) => {
+    const confirmed = await useDialogStore.getState().confirm({
+      title: t('notes.deleteTitle'),
+      message: t(note.kind === 'highlight' ? 'notes.deleteHighlightMessage' : 'notes.deleteMessage'),
+      type: 'warning',
+    })
+    if (!confirmed) return
+
+    try {
+      await deleteNote.mutateAsync(note.id)
+    } catch (error) {
+      console.error('Failed to delete note:', error)
+      addToast('error', t('notes.deleteFailed'))
+    }
+  }
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground py-4 text-center">{t('notes.loading')}</p>
+  }
+
+  return (
+    <div className="space-y-3">
+      {notes.length === 0 && !editable && (
+        <p className="text-sm text-muted-foreground py-4 text-center">{t('notes.empty')}</p>
+      )}
+
+      {notes.map((note) => (
+        <div key={note.id} className="group p-3 rounded-lg border border-border bg-muted/30 text-sm">
+          {note.kind === 'highlight' && note.quote && (
+            <blockquote
+              className={`border-l-4 pl-3 py-1 rounded-r text-foreground/90 whitespace-pre-wrap ${HIGHLIGHT_BORDER[note.color ?? 'yellow']}`}
+            >
+              {note.quote}
+            </blockquote>
+          )}
+
+          {editingId === note.id ? (
+            <div className="mt-2 space-y-2">
+              <textarea
+                className="input w-full min-h-[6rem] text-sm font-mono"
+                value={editingContent}
+                onChange={(e) => setEditingContent(e.target.value)}
+                placeholder={note.kind === 'highlight' ? t('notes.commentPlaceholder') : t('notes.placeholder')}
+                autoFocus
+              />
+              <div className="flex justify-end gap-2">
+                <button type="button" className="btn btn-sm btn-ghost" onClick={() => setEditingId(null)}>
+                  {t('common:button.cancel')}
+                </button>
+                <button
+                  type="button"
+                  className="btn btn-sm btn-primary"
+                  onClick={() => handleSaveEdit(note)}
+                  disabled={updateNote.isPending}
+                >
+                  {t('common:button.save')}
+                </button>
+              </div>
+            </div>
+          ) : (
+            note.content && <MarkdownText text={note.content} className={note.kind === 'highlight' ? 'mt-2' : ''} />
+          )}
+
+          <div className="flex items-center gap-2 mt-2 text-xs text-muted-foreground">
+            {note.kind === 'highlight' ? <Highlighter className="w-3 h-3" /> : <StickyNote className="w-3 h-3" />}
+            <span>{formatDistanceToNow(new Date(note.updated_at), { addSuffix: true, locale: dateLocale })}</span>
+            {editable && editingId !== note.id && (
+              <div className="ml-auto flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                <button
+                  type="button"
+                  onClick={() => handleStartEdit(note)}
+                  className="p-1 rounded hover:bg-muted hover:text-foreground"
+                  title={note.kind === 'highlight' ? t('notes.editComment') : t('notes.edit')}
+                >
+                  <Pencil className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleDelete(note)}
+                  className="p-1 rounded hover:bg-destructive/10 hover:text-destructive"
+                  title={t('notes.delete')}
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      ))}
+
+      {editable && (
+        <div className="space-y-2">
+          <textarea
+            className="input w-full min-h-[6rem] text-sm font-mono"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder={t('notes.placeholder')}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+                e.preventDefault()
+                handleCreate()
+              }
+            }}
+          />
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-muted-foreground">{t('notes.markdownHint')}</span>
+            <button
+              type="button"
+              className="btn btn-sm btn-primary"
+              onClick={handleCreate}
+              disabled={!draft.trim() || createNote.isPending}
+            >
+              {createNote.isPending ? t('notes.saving') : t('notes.add')}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface BookmarkNotesDialogProps {
+  bookmarkId: string
+  bookmarkTitle: string
+  onClose: () => void
+}
+
+export function BookmarkNotesDialog({ bookmarkId, bookmarkTitle, onClose }: BookmarkNotesDialogProps) {
+  const { t } = useTranslation('bookmarks')
+
+  // 键盘支持：ESC 关闭弹窗
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose()
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [onClose])
+
+  return createPortal(
+    <div
+      className="fixed inset-0 bg-background/80 backdrop-blur-sm flex items-center justify-center p-4"
+      style={{ zIndex: Z_INDEX.NOTES_DIALOG }}
+      onClick={(e) => {
+        e.stopPropagation()
+        onClose()
+      }}
+    >
+      <div
+        className="card w-full max-w-2xl max-h-[90vh] overflow-hidden flex flex-col"
+        style={{ backgroundColor: 'var(--card)' }}
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex-1 min-w-0 pr-2">
+            <h2 className="text-xl font-bold text-foreground truncate">{bookmarkTitle}</h2>
+            <p className="text-sm text-muted-foreground mt-1">{t('notes.title')}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="w-8 h-8 rounded-lg hover:bg-muted flex items-center justify-center text-foreground transition-colors flex-shrink-0"
+            aria-label={t('notes.close')}
+          >
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto -mx-6 px-6 scrollbar-hide">
+          <BookmarkNotesPanel bookmarkId={bookmarkId} editable />
+        </div>
+      </div>
+    </div>,
+    document.body
+  )
+}
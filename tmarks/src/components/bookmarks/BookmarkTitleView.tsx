@@ -1,6 +1,7 @@
 import { useMemo, useRef, useState, useEffect } from 'react'
 import { useTranslation } from 'react-i18next'
 import type { Bookmark } from '@/lib/types'
+import { getFaviconUrl } from '@/lib/favicon'
 import { useRecordClick } from '@/hooks/useBookmarks'
 import { usePreferences } from '@/hooks/usePreferences'
 import { DefaultBookmarkIconComponent } from './DefaultBookmarkIcon'
@@ -185,7 +186,7 @@ function TitleOnlyCard({
   
   const [coverImageError, setCoverImageError] = useState(false)
   const [faviconError, setFaviconError] = useState(false)
-  const [googleFaviconIsDefault, setGoogleFaviconIsDefault] = useState(false)
+  const [proxyFaviconError, setProxyFaviconError] = useState(false)
   
   const domain = useMemo(() => {
     try {
@@ -195,33 +196,18 @@ function TitleOnlyCard({
     }
   }, [bookmark.url])
   
-  // 生成Google Favicon URL作为最终fallback
-  const googleFaviconUrl = useMemo(() => {
-    try {
-      const urlObj = new URL(bookmark.url)
-      return `https://www.google.com/s2/favicons?domain=${urlObj.hostname}&sz=64`
-    } catch {
-      return ''
-    }
-  }, [bookmark.url])
-  
-  // 检测 Google Favicon 是否为默认灰色地球图标
-  const checkIfGoogleDefaultIcon = (img: HTMLImageElement) => {
-    // Google 的默认图标特征：图片很小（通常是 16x16 或更小）
-    if (img.naturalWidth <= 16 && img.naturalHeight <= 16) {
-      setGoogleFaviconIsDefault(true)
-    }
-  }
+  // 服务端代理的站点图标作为最终fallback
+  const proxyFaviconUrl = useMemo(() => getFaviconUrl(bookmark.url), [bookmark.url])
   
   // 决定显示什么图标 - 与全局一致的回退策略
   // 1. cover_image (封面图)
   // 2. favicon (网站图标，从插件获取)
-  // 3. Google Favicon API (但跳过默认灰色地球)
+  // 3. 服务端代理的站点图标 (无图标时为字母头像)
   // 4. 用户自定义的 SVG 图标
   const hasCoverImage = bookmark.cover_image && bookmark.cover_image.trim() !== '' && !coverImageError
   const hasFavicon = !hasCoverImage && bookmark.favicon && bookmark.favicon.trim() !== '' && !faviconError
-  const shouldShowGoogleFavicon = !hasCoverImage && !hasFavicon && googleFaviconUrl && !faviconError && !googleFaviconIsDefault
-  const shouldShowIcon = hasCoverImage || hasFavicon || shouldShowGoogleFavicon
+  const shouldShowProxyFavicon = !hasCoverImage && !hasFavicon && proxyFaviconUrl && !proxyFaviconError
+  const shouldShowIcon = hasCoverImage || hasFavicon || shouldShowProxyFavicon
 
   const handleVisit = () => {
     if (!readOnly) {
@@ -330,16 +316,12 @@ function TitleOnlyCard({
                     className="w-full h-full object-contain"
                     onError={() => setFaviconError(true)}
                   />
-                ) : shouldShowGoogleFavicon ? (
+                ) : shouldShowProxyFavicon ? (
                   <img
-                    src={googleFaviconUrl}
+                    src={proxyFaviconUrl}
                     alt=""
                     className="w-full h-full object-contain"
-                    onLoad={(e) => {
-                      const img = e.target as HTMLImageElement
-                      checkIfGoogleDefaultIcon(img)
-                    }}
-                    onError={() => setFaviconError(true)}
+                    onError={() => setProxyFaviconError(true)}
                   />
                 ) : null
               ) : (
@@ -10,6 +10,7 @@ import { useToastStore } from '@/stores/toastStore';
 import { useQueryClient } from '@tanstack/react-query';
 import { BOOKMARKS_QUERY_KEY } from '@/hooks/useBookmarks';
 import { Z_INDEX } from '@/lib/constants/z-index';
+import { BookmarkNotesPanel } from './BookmarkNotes';
 
 interface Snapshot {
   id: string;
@@ -24,9 +25,10 @@ interface SnapshotViewerProps {
   bookmarkId: string;
   bookmarkTitle: string;
   snapshotCount?: number; // 从书签数据中传入，避免额外请求
+  noteCount?: number; // 有笔记时在快照列表下方显示笔记和高亮摘录
 }
 
-export function SnapshotViewer({ bookmarkId, bookmarkTitle, snapshotCount = 0 }: SnapshotViewerProps) {
+export function SnapshotViewer({ bookmarkId, bookmarkTitle, snapshotCount = 0, noteCount = 0 }: SnapshotViewerProps) {
   const { t, i18n } = useTranslation('bookmarks');
   const dateLocale = i18n.language === 'zh-CN' ? zhCN : enUS;
   const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
@@ -283,6 +285,14 @@ export function SnapshotViewer({ bookmarkId, bookmarkTitle, snapshotCount = 0 }:
               ))}
             </div>
           )}
+
+          {/* 笔记和高亮摘录 */}
+          {noteCount > 0 && (
+            <div className="mt-6 pt-4 border-t border-border">
+              <h3 className="text-sm font-semibold text-foreground mb-3">{t('notes.title')}</h3>
+              <BookmarkNotesPanel bookmarkId={bookmarkId} enabled={isOpen} />
+            </div>
+          )}
         </div>
       </div>
     </div>,
@@ -0,0 +1,191 @@
+/**
+ * 智能集合列表 - 保存当前筛选条件，点击集合一键恢复
+ */
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import {
+  useCollections,
+  useCreateCollection,
+  useDeleteCollection,
+  useUpdateCollection,
+} from '@/hooks/useCollections'
+import { ApiError } from '@/lib/api-client'
+import { logger } from '@/lib/logger'
+import { isSameCollectionFilters, isEmptyCollectionFilters } from '@/lib/collection-filters'
+import { useDialogStore } from '@/stores/dialogStore'
+import type { CollectionFilters, SmartCollection } from '@/lib/types'
+
+interface SmartCollectionListProps {
+  activeCollectionId: string | null
+  /** 传入 null 表示取消当前集合 */
+  onSelect: (collection: SmartCollection | null) => void
+  /** 当前页面的筛选条件，用于保存为新集合或更新当前集合 */
+  currentFilters: CollectionFilters
+}
+
+export function SmartCollectionList({ activeCollectionId, onSelect, currentFilters }: SmartCollectionListProps) {
+  const { t } = useTranslation('tags')
+  const [showSaveForm, setShowSaveForm] = useState(false)
+  const [name, setName] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  const { data: collections = [] } = useCollections()
+  const createCollection = useCreateCollection()
+  const updateCollection = useUpdateCollection()
+  const deleteCollection = useDeleteCollection()
+
+  const activeCollection = collections.find((collection) => collection.id === activeCollectionId) ?? null
+  const isModified = activeCollection !== null && !isSameCollectionFilters(activeCollection.filters, currentFilters)
+  const canSave = !isEmptyCollectionFilters(currentFilters)
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const value = name.trim()
+    if (!value) return
+
+    setError(null)
+    try {
+      const collection = await createCollection.mutateAsync({ name: value, filters: currentFilters })
+      setName('')
+      setShowSaveForm(false)
+      onSelect(collection)
+    } catch (err) {
+      logger.error('Failed to create collection:', err)
+      setError(
+        err instanceof ApiError && err.code === 'COLLECTION_NAME_EXISTS'
+          ? t('collections.nameExists')
+          : t('collections.saveFailed')
+      )
+    }
+  }
+
+  const handleUpdate = async () => {
+    if (!activeCollection) return
+    try {
+      await updateCollection.mutateAsync({ id: activeCollection.id, data: { filters: currentFilters } })
+    } catch (err) {
+      logger.error('Failed to update collection:', err)
+    }
+  }
+
+  const handleDelete = async (collection: SmartCollection) => {
+    const confirmed = await useDialogStore.getState().confirm({
+      title: t('collections.deleteTitle'),
+      message: t('collections.deleteMessage', { name: collection.name }),
+      type: 'warning',
+    })
+    if (!confirmed) return
+
+    try {
+      await deleteCollection.mutateAsync(collection.id)
+      if (collection.id === activeCollectionId) {
+        onSelect(null)
+      }
+    } catch (err) {
+      logger.error('Failed to delete collection:', err)
+    }
+  }
+
+  return (
+    <div className="mb-4 sm:mb-5 flex-shrink-0">
+      <div className="flex items-center gap-2 mb-2">
+        <h4 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+          {t('collections.title')}
+        </h4>
+        {isModified && (
+          <button
+            type="button"
+            onClick={handleUpdate}
+            disabled={updateCollection.isPending}
+            className="text-xs text-primary hover:text-primary/80"
+            title={t('collections.updateHint')}
+          >
+            {t('collections.update')}
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={() => {
+            setShowSaveForm(!showSaveForm)
+            setError(null)
+          }}
+          disabled={!canSave && !showSaveForm}
+          className="btn btn-sm btn-ghost p-1 ml-auto disabled:opacity-40"
+          title={canSave ? t('collections.save') : t('collections.saveDisabled')}
+        >
+          <svg
+            className={`w-3.5 h-3.5 transition-transform ${showSaveForm ? 'rotate-45' : ''}`}
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+            strokeWidth={2}
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" d="M12 4v16m8-8H4" />
+          </svg>
+        </button>
+      </div>
+
+      {showSaveForm && (
+        <form onSubmit={handleSave} className="mb-2 animate-fade-in">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              className="input flex-1 text-sm"
+              placeholder={t('collections.namePlaceholder')}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={50}
+              autoFocus
+            />
+            <button type="submit" className="btn btn-sm" disabled={!name.trim() || createCollection.isPending}>
+              {createCollection.isPending ? '...' : '✓'}
+            </button>
+          </div>
+          {error && <p className="text-xs text-error mt-1">{error}</p>}
+        </form>
+      )}
+
+      {collections.length === 0 ? (
+        !showSaveForm && <p className="text-xs text-muted-foreground/70">{t('collections.empty')}</p>
+      ) : (
+        <div className="flex flex-wrap gap-1.5 max-h-32 overflow-y-auto scrollbar-hide">
+          {collections.map((collection) => {
+            const isActive = collection.id === activeCollectionId
+            return (
+              <span
+                key={collection.id}
+                className={`group inline-flex items-center gap-1 rounded-md px-2 py-1 text-xs transition-colors ${
+                  isActive
+                    ? 'bg-primary text-primary-content'
+                    : 'border border-border bg-card text-foreground hover:border-primary/50'
+                }`}
+              >
+                <button
+                  type="button"
+                  onClick={() => onSelect(isActive ? null : collection)}
+                  className="max-w-[10rem] truncate"
+                  title={isActive ? t('collections.clear') : collection.name}
+                >
+                  {collection.name}
+                  {isActive && isModified ? ' *' : ''}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleDelete(collection)}
+                  className={`opacity-0 group-hover:opacity-100 transition-opacity ${
+                    isActive ? 'text-primary-content/80' : 'text-muted-foreground hover:text-error'
+                  }`}
+                  title={t('collections.delete')}
+                >
+                  <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2.5}>
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </span>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,47 @@
+/**
+ * 搜索高亮文本组件
+ * 将服务端返回的 <mark>…</mark> 片段渲染为高亮，不解析任何其他 HTML
+ */
+
+interface HighlightedTextProps {
+  text: string
+  highlight?: string | null
+}
+
+const MARK_PATTERN = /<mark>(.*?)<\/mark>/g
+
+export function HighlightedText({ text, highlight }: HighlightedTextProps) {
+  if (!highlight) {
+    return <>{text}</>
+  }
+
+  const parts: Array<{ text: string; marked: boolean }> = []
+  let lastIndex = 0
+
+  for (const match of highlight.matchAll(MARK_PATTERN)) {
+    const index = match.index ?? 0
+    if (index > lastIndex) {
+      parts.push({ text: highlight.slice(lastIndex, index), marked: false })
+    }
+    parts.push({ text: match[1] ?? '', marked: true })
+    lastIndex = index + match[0].length
+  }
+
+  if (lastIndex < highlight.length) {
+    parts.push({ text: highlight.slice(lastIndex), marked: false })
+  }
+
+  return (
+    <>
+      {parts.map((part, index) =>
+        part.marked ? (
+          <mark key={index} className="bg-warning/40 text-inherit rounded-sm px-0.5">
+            {part.text}
+          </mark>
+        ) : (
+          <span key={index}>{part.text}</span>
+        )
+      )}
+    </>
+  )
+}
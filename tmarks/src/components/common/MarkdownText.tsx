@@ -0,0 +1,187 @@
+/**
+ * 轻量 Markdown 渲染组件
+ * 支持标题、列表、引用、代码块以及行内粗体/斜体/代码/链接，全部渲染为 React 元素，不解析任何 HTML
+ */
+
+import type { ReactNode } from 'react'
+
+interface MarkdownTextProps {
+  text: string
+  className?: string
+}
+
+type Block =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'list'; ordered: boolean; items: string[] }
+  | { type: 'quote'; lines: string[] }
+  | { type: 'code'; text: string }
+  | { type: 'paragraph'; lines: string[] }
+
+const INLINE_PATTERN = /(`[^`]+`)|(\*\*[^*]+\*\*)|(\*[^*\s][^*]*\*)|(\[[^\]]+\]\([^)\s]+\))/g
+const LINK_PATTERN = /^\[([^\]]+)\]\(([^)\s]+)\)$/
+
+function parseBlocks(text: string): Block[] {
+  const blocks: Block[] = []
+  const lines = text.replace(/\r\n/g, '\n').split('\n')
+  let i = 0
+
+  while (i < lines.length) {
+    const line = lines[i]!
+
+    if (line.startsWith('```')) {
+      const code: string[] = []
+      i++
+      while (i < lines.length && !lines[i]!.startsWith('```')) {
+        code.push(lines[i]!)
+        i++
+      }
+      blocks.push({ type: 'code', text: code.join('\n') })
+      i++
+      continue
+    }
+
+    const heading = /^(#{1,3})\s+(.*)$/.exec(line)
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1]!.length, text: heading[2]! })
+      i++
+      continue
+    }
+
+    if (/^\s*([-*]|\d+\.)\s+/.test(line)) {
+      const ordered = /^\s*\d+\./.test(line)
+      const items: string[] = []
+      while (i < lines.length && /^\s*([-*]|\d+\.)\s+/.test(lines[i]!)) {
+        items.push(lines[i]!.replace(/^\s*([-*]|\d+\.)\s+/, ''))
+        i++
+      }
+      blocks.push({ type: 'list', ordered, items })
+      continue
+    }
+
+    if (line.startsWith('>')) {
+      const quote: string[] = []
+      while (i < lines.length && lines[i]!.startsWith('>')) {
+        quote.push(lines[i]!.replace(/^>\s?/, ''))
+        i++
+      }
+      blocks.push({ type: 'quote', lines: quote })
+      continue
+    }
+
+    if (!line.trim()) {
+      i++
+      continue
+    }
+
+    const paragraph: string[] = []
+    while (i < lines.length && lines[i]!.trim() && !/^(#{1,3}\s|```|>|\s*([-*]|\d+\.)\s)/.test(lines[i]!)) {
+      paragraph.push(lines[i]!)
+      i++
+    }
+    blocks.push({ type: 'paragraph', lines: paragraph })
+  }
+
+  return blocks
+}
+
+function isSafeUrl(url: string): boolean {
+  return /^https?:\/\//i.test(url)
+}
+
+function renderInline(text: string): ReactNode[] {
+  const nodes: ReactNode[] = []
+  let lastIndex = 0
+
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const token = match[0]
+    const index = match.index ?? 0
+    if (index > lastIndex) {
+      nodes.push(text.slice(lastIndex, index))
+    }
+
+    if (token.startsWith('`')) {
+      nodes.push(
+        <code key={index} className="px-1 py-0.5 rounded bg-muted text-[0.9em] font-mono">
+          {token.slice(1, -1)}
+        </code>
+      )
+    } else if (token.startsWith('**')) {
+      nodes.push(<strong key={index}>{token.slice(2, -2)}</strong>)
+    } else if (token.startsWith('*')) {
+      nodes.push(<em key={index}>{token.slice(1, -1)}</em>)
+    } else {
+      const link = LINK_PATTERN.exec(token)
+      if (link && isSafeUrl(link[2]!)) {
+        nodes.push(
+          <a
+            key={index}
+            href={link[2]}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-primary hover:underline"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {link[1]}
+          </a>
+        )
+      } else {
+        nodes.push(token)
+      }
+    }
+
+    lastIndex = index + token.length
+  }
+
+  if (lastIndex < text.length) {
+    nodes.push(text.slice(lastIndex))
+  }
+
+  return nodes
+}
+
+function renderLines(lines: string[]): ReactNode[] {
+  return lines.flatMap((line, index) => (index === 0 ? renderInline(line) : [<br key={`br-${index}`} />, ...renderInline(line)]))
+}
+
+export function MarkdownText({ text, className = '' }: MarkdownTextProps) {
+  const blocks = parseBlocks(text)
+
+  return (
+    <div className={`space-y-2 break-words ${className}`}>
+      {blocks.map((block, index) => {
+        switch (block.type) {
+          case 'heading':
+            return (
+              <p key={index} className={`font-semibold text-foreground ${block.level === 1 ? 'text-base' : 'text-sm'}`}>
+                {renderInline(block.text)}
+              </p>
+            )
+          case 'list': {
+            const ListTag = block.ordered ? 'ol' : 'ul'
+            return (
+              <ListTag key={index} className={`pl-5 space-y-0.5 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+                {block.items.map((item, itemIndex) => (
+                  <li key={itemIndex}>{renderInline(item)}</li>
+                ))}
+              </ListTag>
+            )
+          }
+          case 'quote':
+            return (
+              <blockquote key={index} className="border-l-2 border-border pl-3 text-muted-foreground">
+                {renderLines(block.lines)}
+              </blockquote>
+            )
+          case 'code':
+            return (
+              <pre key={index} className="p-2 rounded bg-muted text-xs font-mono overflow-x-auto">
+                {block.text}
+              </pre>
+            )
+          default:
+            return <p key={index}>{renderLines(block.lines)}</p>
+        }
+      })}
+    </div>
+  )
+}
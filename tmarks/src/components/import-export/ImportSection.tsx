@@ -382,6 +382,28 @@ export function ImportSection({ onImport }: ImportSectionProps) {
               <span className="text-sm text-foreground">{t('import.folderAsTag')}</span>
             </label>
           )}
+
+          {selectedFormat === 'html' && options.folder_as_tag && (
+            <label className="flex items-center space-x-2 p-2 rounded-lg border border-border hover:border-muted-foreground/30 cursor-pointer transition-colors">
+              <input
+                type="checkbox"
+                checked={options.folder_as_tag_tree}
+                onChange={(e) => setOptions((prev) => ({ ...prev, folder_as_tag_tree: e.target.checked }))}
+                className="h-4 w-4 text-primary border-border rounded focus:ring-primary flex-shrink-0"
+              />
+              <span className="text-sm text-foreground">{t('import.folderAsTagTree')}</span>
+            </label>
+          )}
+
+          <label className="flex items-center space-x-2 p-2 rounded-lg border border-border hover:border-muted-foreground/30 cursor-pointer transition-colors">
+            <input
+              type="checkbox"
+              checked={options.backfill_metadata}
+              onChange={(e) => setOptions((prev) => ({ ...prev, backfill_metadata: e.target.checked }))}
+              className="h-4 w-4 text-primary border-border rounded focus:ring-primary flex-shrink-0"
+            />
+            <span className="text-sm text-foreground">{t('import.backfillMetadata')}</span>
+          </label>
         </div>
       </div>
 
@@ -30,7 +30,9 @@ export function useImportState() {
     batch_size: 50,
     max_concurrent: 5,
     default_tag_color: 'hsl(var(--primary))',
-    folder_as_tag: true
+    folder_as_tag: true,
+    folder_as_tag_tree: false,
+    backfill_metadata: true
   })
 
   const fileInputRef = useRef<HTMLInputElement>(null)
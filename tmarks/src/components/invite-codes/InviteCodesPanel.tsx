@@ -0,0 +1,326 @@
+/**
+ * 邀请码面板
+ * 管理后台和个人设置共用：管理员可以创建多次使用、永不过期的邀请码并查看所有人的邀请码；
+ * 普通用户只能在配额内创建单次使用的邀请码
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Ticket, Plus, Copy, Link2, Ban, Clock, Users } from 'lucide-react'
+import { adminService } from '@/services/admin'
+import { inviteCodesService } from '@/services/invite-codes'
+import type { InviteCode, InviteCodeQuota, CreateInviteCodeRequest } from '@/lib/types'
+import { ApiError } from '@/lib/api-client'
+import { useToastStore } from '@/stores/toastStore'
+import { ConfirmDialog } from '@/components/common/ConfirmDialog'
+import { SettingsSection } from '@/components/settings/SettingsSection'
+import { logger } from '@/lib/logger'
+
+/** 有效期选项（天），null 表示永不过期 */
+const USER_EXPIRY_OPTIONS: (number | null)[] = [1, 7, 30]
+const ADMIN_EXPIRY_OPTIONS: (number | null)[] = [1, 7, 30, 90, 365, null]
+const DEFAULT_EXPIRY_DAYS = 7
+
+const STATUS_STYLES: Record<InviteCode['status'], string> = {
+  active: 'bg-success/20 text-success',
+  exhausted: 'bg-muted text-muted-foreground',
+  expired: 'bg-warning/20 text-warning',
+  revoked: 'bg-error/20 text-error',
+}
+
+interface InviteCodesPanelProps {
+  /** 管理员模式：调用 /admin/invite-codes，显示所有用户创建的邀请码 */
+  admin?: boolean
+}
+
+export function InviteCodesPanel({ admin = false }: InviteCodesPanelProps) {
+  const { t } = useTranslation('inviteCodes')
+  const { addToast } = useToastStore()
+
+  const [inviteCodes, setInviteCodes] = useState<InviteCode[]>([])
+  const [quota, setQuota] = useState<InviteCodeQuota | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [isCreating, setIsCreating] = useState(false)
+  const [pendingRevoke, setPendingRevoke] = useState<InviteCode | null>(null)
+
+  // 创建表单
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(DEFAULT_EXPIRY_DAYS)
+  const [maxUses, setMaxUses] = useState('1')
+  const [note, setNote] = useState('')
+
+  const expiryOptions = admin ? ADMIN_EXPIRY_OPTIONS : USER_EXPIRY_OPTIONS
+  const canCreate = admin || (quota !== null && quota.used < quota.limit)
+
+  const loadInviteCodes = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      setError(null)
+      if (admin) {
+        const response = await adminService.getInviteCodes()
+        setInviteCodes(response.invite_codes)
+      } else {
+        const response = await inviteCodesService.getInviteCodes()
+        setInviteCodes(response.invite_codes)
+        setQuota(response.quota)
+      }
+    } catch (err) {
+      logger.error('Failed to load invite codes:', err)
+      setError(t('loadFailed'))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [admin, t])
+
+  useEffect(() => {
+    loadInviteCodes()
+  }, [loadInviteCodes])
+
+  const replaceInviteCode = (inviteCode: InviteCode) => {
+    setInviteCodes((prev) => prev.map((item) => (item.id === inviteCode.id ? inviteCode : item)))
+  }
+
+  const handleCreate = async () => {
+    const request: CreateInviteCodeRequest = {
+      expires_in_days: expiresInDays,
+      note: note.trim() || undefined,
+    }
+
+    if (admin) {
+      const uses = Number(maxUses)
+      if (!Number.isInteger(uses) || uses < 1) {
+        addToast('error', t('invalidMaxUses'))
+        return
+      }
+      request.max_uses = uses
+    }
+
+    try {
+      setIsCreating(true)
+      const response = admin
+        ? await adminService.createInviteCode(request)
+        : await inviteCodesService.createInviteCode(request)
+      setInviteCodes((prev) => [response.invite_code, ...prev])
+      if (response.quota) {
+        setQuota(response.quota)
+      }
+      setNote('')
+      addToast('success', t('createSuccess'))
+    } catch (err) {
+      logger.error('Failed to create invite code:', err)
+      if (err instanceof ApiError && err.code === 'INVITE_QUOTA_EXCEEDED') {
+        addToast('error', t('quotaExceeded'))
+      } else {
+        addToast('error', err instanceof ApiError && err.message ? err.message : t('createFailed'))
+      }
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  const handleRevoke = async (inviteCode: InviteCode) => {
+    try {
+      const response = admin
+        ? await adminService.revokeInviteCode(inviteCode.id)
+        : await inviteCodesService.revokeInviteCode(inviteCode.id)
+      replaceInviteCode(response.invite_code)
+      // 撤销未使用过的邀请码会归还配额
+      if (!admin && inviteCode.use_count === 0) {
+        setQuota((prev) => (prev ? { ...prev, used: Math.max(prev.used - 1, 0) } : prev))
+      }
+      addToast('success', t('revokeSuccess'))
+    } catch (err) {
+      logger.error('Failed to revoke invite code:', err)
+      addToast('error', t('revokeFailed'))
+    }
+  }
+
+  const copyText = async (text: string) => {
+    try {
+      await navigator.clipboard.writeText(text)
+      addToast('success', t('copied'))
+    } catch (err) {
+      logger.error('Failed to copy:', err)
+    }
+  }
+
+  const inviteLink = (inviteCode: InviteCode) =>
+    `${window.location.origin}/register?invite=${encodeURIComponent(inviteCode.code)}`
+
+  const expiryLabel = (days: number | null) => (days === null ? t('neverExpires') : t('days', { count: days }))
+
+  const description = admin
+    ? t('adminDescription')
+    : quota && quota.limit > 0
+      ? t('quota', { used: quota.used, limit: quota.limit })
+      : t('notEnabled')
+
+  return (
+    <div className="space-y-6">
+      <ConfirmDialog
+        isOpen={pendingRevoke !== null}
+        title={t('revokeTitle')}
+        message={t('revokeMessage', { code: pendingRevoke?.code || '' })}
+        type="warning"
+        onConfirm={() => {
+          const inviteCode = pendingRevoke
+          setPendingRevoke(null)
+          if (inviteCode) {
+            handleRevoke(inviteCode)
+          }
+        }}
+        onCancel={() => setPendingRevoke(null)}
+      />
+
+      <SettingsSection icon={Ticket} title={t('title')} description={isLoading ? undefined : description}>
+        <div className="space-y-4">
+          {/* 创建邀请码 */}
+          {(admin || (quota && quota.limit > 0)) && (
+            <div className="p-4 rounded-lg border border-border bg-card space-y-3">
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <label className="block">
+                  <span className="block text-xs text-muted-foreground mb-1">{t('expiresIn')}</span>
+                  <select
+                    className="input w-full text-sm"
+                    value={expiresInDays === null ? 'never' : String(expiresInDays)}
+                    onChange={(e) => setExpiresInDays(e.target.value === 'never' ? null : Number(e.target.value))}
+                  >
+                    {expiryOptions.map((days) => (
+                      <option key={days ?? 'never'} value={days === null ? 'never' : String(days)}>
+                        {expiryLabel(days)}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                {admin && (
+                  <label className="block">
+                    <span className="block text-xs text-muted-foreground mb-1">{t('maxUses')}</span>
+                    <input
+                      type="number"
+                      min={1}
+                      step={1}
+                      className="input w-full text-sm"
+                      value={maxUses}
+                      onChange={(e) => setMaxUses(e.target.value)}
+                    />
+                  </label>
+                )}
+                <label className={`block ${admin ? '' : 'sm:col-span-2'}`}>
+                  <span className="block text-xs text-muted-foreground mb-1">{t('note')}</span>
+                  <input
+                    type="text"
+                    className="input w-full text-sm"
+                    maxLength={200}
+                    placeholder={t('notePlaceholder')}
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                  />
+                </label>
+              </div>
+              <div className="flex justify-end">
+                <button
+                  onClick={handleCreate}
+                  disabled={isCreating || !canCreate}
+                  className="btn btn-primary btn-sm flex items-center gap-2"
+                  title={canCreate ? undefined : t('quotaExceeded')}
+                >
+                  <Plus className="w-4 h-4" />
+                  {isCreating ? t('creating') : t('create')}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : error ? (
+            <div className="text-center py-8">
+              <p className="text-sm text-error mb-3">{error}</p>
+              <button onClick={loadInviteCodes} className="btn btn-sm">
+                {t('retry')}
+              </button>
+            </div>
+          ) : inviteCodes.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <Ticket className="w-10 h-10 mx-auto mb-2 opacity-30" />
+              <p className="text-sm">{t('empty')}</p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {inviteCodes.map((inviteCode) => (
+                <div
+                  key={inviteCode.id}
+                  className={`p-3 rounded-lg border border-border ${inviteCode.status === 'active' ? 'bg-card' : 'bg-muted/30'}`}
+                >
+                  <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 mb-1">
+                        <code className="font-mono text-sm font-medium">{inviteCode.code}</code>
+                        <span className={`text-xs px-1.5 py-0.5 rounded ${STATUS_STYLES[inviteCode.status]}`}>
+                          {t(`status.${inviteCode.status}`)}
+                        </span>
+                      </div>
+                      {inviteCode.note && <p className="text-xs text-muted-foreground truncate mb-1">{inviteCode.note}</p>}
+                      <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+                        <span className="flex items-center gap-1">
+                          <Users className="w-3 h-3" />
+                          {t('uses', { used: inviteCode.use_count, max: inviteCode.max_uses })}
+                        </span>
+                        <span className="flex items-center gap-1">
+                          <Clock className="w-3 h-3" />
+                          {inviteCode.expires_at
+                            ? t('expiresAt', { date: new Date(inviteCode.expires_at).toLocaleString() })
+                            : t('neverExpires')}
+                        </span>
+                        {admin && (
+                          <span>{t('createdBy', { username: inviteCode.created_by_username || '-' })}</span>
+                        )}
+                        <span>{t('createdAt', { date: new Date(inviteCode.created_at).toLocaleDateString() })}</span>
+                      </div>
+                      {inviteCode.uses.length > 0 && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {t('usedBy', { users: inviteCode.uses.map((use) => use.username || '-').join(', ') })}
+                        </p>
+                      )}
+                    </div>
+
+                    {inviteCode.status === 'active' && (
+                      <div className="flex items-center gap-2 flex-shrink-0">
+                        <button
+                          onClick={() => copyText(inviteCode.code)}
+                          className="btn btn-sm flex items-center gap-1"
+                          title={t('copyCode')}
+                        >
+                          <Copy className="w-4 h-4" />
+                          <span className="hidden sm:inline">{t('copyCode')}</span>
+                        </button>
+                        <button
+                          onClick={() => copyText(inviteLink(inviteCode))}
+                          className="btn btn-sm flex items-center gap-1"
+                          title={t('copyLink')}
+                        >
+                          <Link2 className="w-4 h-4" />
+                          <span className="hidden sm:inline">{t('copyLink')}</span>
+                        </button>
+                        <button
+                          onClick={() => setPendingRevoke(inviteCode)}
+                          className="btn btn-sm flex items-center gap-1 text-error hover:bg-error/10"
+                          title={t('revoke')}
+                        >
+                          <Ban className="w-4 h-4" />
+                          <span className="hidden sm:inline">{t('revoke')}</span>
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </SettingsSection>
+    </div>
+  )
+}
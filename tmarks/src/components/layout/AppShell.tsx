@@ -3,7 +3,8 @@ import { useTranslation } from 'react-i18next'
 import {
   BookOpen,
   User,
-  Layers
+  Layers,
+  Shield
 } from 'lucide-react'
 import { useThemeStore } from '@/stores/themeStore'
 import { useAuthStore } from '@/stores/authStore'
@@ -104,6 +105,17 @@ export function AppShell() {
               )}
             </button>
 
+            {/* 管理后台按钮 - 仅管理员可见 */}
+            {user?.role === 'admin' && (
+              <button
+                onClick={() => navigate('/admin')}
+                className="flex items-center justify-center w-11 h-11 rounded-2xl transition-all duration-300 hover:bg-primary/10 text-foreground"
+                title={t('nav.admin')}
+              >
+                <Shield className="w-5 h-5" />
+              </button>
+            )}
+
             {/* 用户按钮 - 有容器 */}
             {user && (
               <button
@@ -3,7 +3,8 @@ import { useTranslation } from 'react-i18next'
 import {
   BookOpen,
   User,
-  Layers
+  Layers,
+  Shield
 } from 'lucide-react'
 import { useThemeStore } from '@/stores/themeStore'
 import { useAuthStore } from '@/stores/authStore'
@@ -69,6 +70,16 @@ export function FullScreenAppShell() {
             <ThemeToggle />
             <ColorThemeSelector />
 
+            {user?.role === 'admin' && (
+              <button
+                onClick={() => navigate('/admin')}
+                className="btn btn-sm btn-ghost p-2"
+                title={t('nav.admin')}
+              >
+                <Shield className="w-4 h-4" />
+              </button>
+            )}
+
             {user && (
               <button
                 onClick={() => navigate('/settings/general')}
@@ -0,0 +1,344 @@
+/**
+ * 两步验证设置
+ * 绑定流程：生成密钥 → 用身份验证器扫描二维码 → 输入验证码确认 → 显示一次恢复码
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { useTranslation } from 'react-i18next'
+import { ShieldCheck, ShieldOff, KeyRound, Copy, RefreshCw } from 'lucide-react'
+import { authService } from '@/services/auth'
+import type { TwoFactorStatus, TwoFactorSetupResponse } from '@/lib/types'
+import { ApiError } from '@/lib/api-client'
+import { encodeQrCode } from '@/lib/qr-code'
+import { useToastStore } from '@/stores/toastStore'
+import { logger } from '@/lib/logger'
+import { SettingsSection } from './SettingsSection'
+
+/** 二维码四周的空白模块数 */
+const QR_QUIET_ZONE = 4
+
+/** 后端错误码对应的提示文案 */
+const ERROR_KEYS: Record<string, string> = {
+  INVALID_TWO_FACTOR_CODE: 'basic.twoFactor.invalidCode',
+  INVALID_PASSWORD: 'basic.twoFactor.invalidPassword',
+  TWO_FACTOR_SETUP_REQUIRED: 'basic.twoFactor.setupExpired',
+}
+
+type Mode = 'idle' | 'setup' | 'disable' | 'regenerate'
+
+function QrCodeImage({ value }: { value: string }) {
+  const path = useMemo(() => {
+    const qr = encodeQrCode(value)
+    const parts: string[] = []
+    qr.modules.forEach((row, y) => {
+      row.forEach((dark, x) => {
+        if (dark) {
+          parts.push(`M${x + QR_QUIET_ZONE},${y + QR_QUIET_ZONE}h1v1h-1z`)
+        }
+      })
+    })
+    return { size: qr.size + QR_QUIET_ZONE * 2, d: parts.join('') }
+  }, [value])
+
+  return (
+    <svg
+      viewBox={`0 0 ${path.size} ${path.size}`}
+      className="w-44 h-44 rounded-lg border border-border"
+      shapeRendering="crispEdges"
+      role="img"
+    >
+      <rect width={path.size} height={path.size} fill="#ffffff" />
+      <path d={path.d} fill="#000000" />
+    </svg>
+  )
+}
+
+export function TwoFactorSettings() {
+  const { t } = useTranslation('settings')
+  const { addToast } = useToastStore()
+
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [mode, setMode] = useState<Mode>('idle')
+  const [setup, setSetup] = useState<TwoFactorSetupResponse | null>(null)
+  const [code, setCode] = useState('')
+  const [password, setPassword] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  // 新生成的恢复码只在这里显示一次
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+
+  const loadStatus = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      setStatus(await authService.getTwoFactorStatus())
+    } catch (err) {
+      logger.error('Failed to load two-factor status:', err)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadStatus()
+  }, [loadStatus])
+
+  const resetForm = () => {
+    setMode('idle')
+    setSetup(null)
+    setCode('')
+    setPassword('')
+  }
+
+  const showError = (err: unknown, fallbackKey: string) => {
+    const key = err instanceof ApiError ? ERROR_KEYS[err.code] : undefined
+    addToast('error', key ? t(key) : t(fallbackKey))
+  }
+
+  const handleStartSetup = async () => {
+    try {
+      setIsSubmitting(true)
+      setRecoveryCodes(null)
+      setSetup(await authService.setupTwoFactor())
+      setCode('')
+      setMode('setup')
+    } catch (err) {
+      logger.error('Failed to start two-factor setup:', err)
+      showError(err, 'basic.twoFactor.setupFailed')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!code.trim()) {
+      addToast('error', t('basic.twoFactor.codeRequired'))
+      return
+    }
+
+    try {
+      setIsSubmitting(true)
+      const response = await authService.enableTwoFactor(code.trim())
+      setRecoveryCodes(response.recovery_codes)
+      resetForm()
+      addToast('success', t('basic.twoFactor.enableSuccess'))
+      await loadStatus()
+    } catch (err) {
+      logger.error('Failed to enable two-factor:', err)
+      showError(err, 'basic.twoFactor.enableFailed')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleDisable = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!password || !code.trim()) {
+      addToast('error', t('basic.twoFactor.fillAllFields'))
+      return
+    }
+
+    try {
+      setIsSubmitting(true)
+      await authService.disableTwoFactor(password, code.trim())
+      setRecoveryCodes(null)
+      resetForm()
+      addToast('success', t('basic.twoFactor.disableSuccess'))
+      await loadStatus()
+    } catch (err) {
+      logger.error('Failed to disable two-factor:', err)
+      showError(err, 'basic.twoFactor.disableFailed')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleRegenerate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!code.trim()) {
+      addToast('error', t('basic.twoFactor.codeRequired'))
+      return
+    }
+
+    try {
+      setIsSubmitting(true)
+      const response = await authService.regenerateRecoveryCodes(code.trim())
+      setRecoveryCodes(response.recovery_codes)
+      resetForm()
+      addToast('success', t('basic.twoFactor.regenerateSuccess'))
+      await loadStatus()
+    } catch (err) {
+      logger.error('Failed to regenerate recovery codes:', err)
+      showError(err, 'basic.twoFactor.regenerateFailed')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const copyText = async (text: string) => {
+    try {
+      await navigator.clipboard.writeText(text)
+      addToast('success', t('basic.twoFactor.copied'))
+    } catch (err) {
+      logger.error('Failed to copy:', err)
+    }
+  }
+
+  const codeInput = (
+    <label className="block">
+      <span className="block text-sm font-medium mb-2">{t('basic.twoFactor.code')}</span>
+      <input
+        type="text"
+        className="input w-full font-mono tracking-widest"
+        placeholder={mode === 'disable' ? t('basic.twoFactor.codeOrRecoveryPlaceholder') : t('basic.twoFactor.codePlaceholder')}
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        autoComplete="one-time-code"
+        maxLength={32}
+        disabled={isSubmitting}
+      />
+    </label>
+  )
+
+  const formButtons = (submitLabel: string) => (
+    <div className="flex gap-2 pt-2">
+      <button type="button" onClick={resetForm} className="btn btn-ghost flex-1" disabled={isSubmitting}>
+        {t('basic.twoFactor.cancel')}
+      </button>
+      <button type="submit" className="btn btn-primary flex-1" disabled={isSubmitting}>
+        {isSubmitting ? t('basic.twoFactor.submitting') : submitLabel}
+      </button>
+    </div>
+  )
+
+  const description = status?.enabled
+    ? t('basic.twoFactor.enabledDescription', {
+        date: status.enabled_at ? new Date(status.enabled_at).toLocaleDateString() : '-',
+      })
+    : t('basic.twoFactor.description')
+
+  return (
+    <SettingsSection icon={ShieldCheck} title={t('basic.twoFactor.title')} description={isLoading ? undefined : description}>
+      {isLoading ? (
+        <div className="flex items-center justify-center h-20">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {recoveryCodes && (
+            <div className="p-4 rounded-lg border border-warning/40 bg-warning/10 space-y-3">
+              <div>
+                <div className="text-sm font-medium">{t('basic.twoFactor.recoveryCodesTitle')}</div>
+                <div className="text-xs text-muted-foreground">{t('basic.twoFactor.recoveryCodesHint')}</div>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                {recoveryCodes.map((recoveryCode) => (
+                  <code key={recoveryCode} className="font-mono text-sm px-2 py-1 rounded bg-card border border-border text-center">
+                    {recoveryCode}
+                  </code>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <button onClick={() => copyText(recoveryCodes.join('\n'))} className="btn btn-sm flex items-center gap-2">
+                  <Copy className="w-4 h-4" />
+                  {t('basic.twoFactor.copyRecoveryCodes')}
+                </button>
+                <button onClick={() => setRecoveryCodes(null)} className="btn btn-primary btn-sm">
+                  {t('basic.twoFactor.recoveryCodesSaved')}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {mode === 'setup' && setup ? (
+            <form onSubmit={handleEnable} className="space-y-4 p-4 rounded-lg bg-card border border-border">
+              <p className="text-sm">{t('basic.twoFactor.scanHint')}</p>
+              <div className="flex flex-col sm:flex-row items-center gap-4">
+                <QrCodeImage value={setup.otpauth_uri} />
+                <div className="flex-1 min-w-0 w-full space-y-2">
+                  <div className="text-xs text-muted-foreground">{t('basic.twoFactor.manualEntry')}</div>
+                  <div className="flex items-center gap-2">
+                    <code className="flex-1 min-w-0 break-all font-mono text-sm px-2 py-1 rounded bg-muted">{setup.secret}</code>
+                    <button
+                      type="button"
+                      onClick={() => copyText(setup.secret)}
+                      className="btn btn-sm flex-shrink-0"
+                      title={t('basic.twoFactor.copySecret')}
+                    >
+                      <Copy className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              </div>
+              {codeInput}
+              {formButtons(t('basic.twoFactor.enable'))}
+            </form>
+          ) : mode === 'disable' ? (
+            <form onSubmit={handleDisable} className="space-y-4 p-4 rounded-lg bg-card border border-border">
+              <p className="text-sm text-muted-foreground">{t('basic.twoFactor.disableHint')}</p>
+              <label className="block">
+                <span className="block text-sm font-medium mb-2">{t('basic.twoFactor.password')}</span>
+                <input
+                  type="password"
+                  className="input w-full"
+                  placeholder={t('basic.password.currentPlaceholder')}
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  autoComplete="current-password"
+                  disabled={isSubmitting}
+                />
+              </label>
+              {codeInput}
+              {formButtons(t('basic.twoFactor.disable'))}
+            </form>
+          ) : mode === 'regenerate' ? (
+            <form onSubmit={handleRegenerate} className="space-y-4 p-4 rounded-lg bg-card border border-border">
+              <p className="text-sm text-muted-foreground">{t('basic.twoFactor.regenerateHint')}</p>
+              {codeInput}
+              {formButtons(t('basic.twoFactor.regenerate'))}
+            </form>
+          ) : status?.enabled ? (
+            <div className="p-4 rounded-lg bg-card border border-border space-y-3">
+              <div className="flex items-center gap-2 text-sm">
+                <span className="text-xs px-1.5 py-0.5 rounded bg-success/20 text-success">{t('basic.twoFactor.statusEnabled')}</span>
+                <span className="text-muted-foreground">
+                  {t('basic.twoFactor.recoveryCodesRemaining', { count: status.recovery_codes_remaining })}
+                </span>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <button onClick={() => setMode('regenerate')} className="btn btn-sm flex items-center gap-2">
+                  <RefreshCw className="w-4 h-4" />
+                  {t('basic.twoFactor.regenerate')}
+                </button>
+                <button
+                  onClick={() => setMode('disable')}
+                  className="btn btn-sm flex items-center gap-2 text-error hover:bg-error/10"
+                >
+                  <ShieldOff className="w-4 h-4" />
+                  {t('basic.twoFactor.disable')}
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="p-4 rounded-lg bg-card border border-border">
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <div className="text-sm font-medium">{t('basic.twoFactor.statusDisabled')}</div>
+                  <div className="text-xs text-muted-foreground">{t('basic.twoFactor.setupHint')}</div>
+                </div>
+                <button
+                  onClick={handleStartSetup}
+                  disabled={isSubmitting}
+                  className="btn btn-primary btn-sm flex items-center gap-2 flex-shrink-0"
+                >
+                  <KeyRound className="w-4 h-4" />
+                  {t('basic.twoFactor.setup')}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </SettingsSection>
+  )
+}
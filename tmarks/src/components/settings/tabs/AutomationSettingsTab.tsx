@@ -1,10 +1,10 @@
 /**
  * 自动化设置标签页
- * 搜索和标签的自动清除设置
+ * 搜索和标签的自动清除设置、回收站自动清理
  */
 
 import { useTranslation } from 'react-i18next'
-import { Search, Tag, Zap } from 'lucide-react'
+import { Search, Tag, Trash2, Zap } from 'lucide-react'
 import { Toggle } from '@/components/common/Toggle'
 import { SettingsSection, SettingsItem, SettingsDivider } from '../SettingsSection'
 import { InfoBox } from '../InfoBox'
@@ -18,6 +18,8 @@ interface AutomationSettingsTabProps {
   onSearchSecondsChange: (seconds: number) => void
   onTagEnabledChange: (enabled: boolean) => void
   onTagSecondsChange: (seconds: number) => void
+  trashRetentionDays: number
+  onTrashRetentionDaysChange: (days: number) => void
 }
 
 export function AutomationSettingsTab({
@@ -29,6 +31,8 @@ export function AutomationSettingsTab({
   onSearchSecondsChange,
   onTagEnabledChange,
   onTagSecondsChange,
+  trashRetentionDays,
+  onTrashRetentionDaysChange,
 }: AutomationSettingsTabProps) {
   const { t } = useTranslation('settings')
 
@@ -88,6 +92,29 @@ export function AutomationSettingsTab({
 
       <SettingsDivider />
 
+      {/* 回收站自动清理 */}
+      <SettingsSection icon={Trash2} title={t('automation.trash.title')} description={t('automation.trash.description')}>
+        <div className="p-4 rounded-lg bg-card border border-border">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-sm font-medium">{t('automation.trash.days')}</span>
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                value={trashRetentionDays}
+                onChange={(e) => onTrashRetentionDaysChange(parseInt(e.target.value) || 0)}
+                min="0"
+                max="365"
+                className="input w-16 text-center text-sm"
+              />
+              <span className="text-xs text-muted-foreground">{t('automation.trash.unit')}</span>
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">{t('automation.trash.daysHint')}</p>
+        </div>
+      </SettingsSection>
+
+      <SettingsDivider />
+
       <InfoBox icon={Zap} title={t('automation.infoBox.title')} variant="info">
         <ul className="space-y-1 text-xs">
           <li>• {t('automation.infoBox.tip1')}</li>
@@ -1,6 +1,6 @@
 /**
  * 基础设置标签页
- * 包含账户信息、安全设置、语言设置
+ * 包含账户信息、安全设置、两步验证、语言设置
  */
 
 import { useState } from 'react'
@@ -11,6 +11,7 @@ import { useToastStore } from '@/stores/toastStore'
 import { apiClient } from '@/lib/api-client'
 import { useLanguage } from '@/hooks/useLanguage'
 import { SettingsSection, SettingsItem, SettingsDivider } from '../SettingsSection'
+import { TwoFactorSettings } from '../TwoFactorSettings'
 
 export function BasicSettingsTab() {
   const { t, i18n } = useTranslation('settings')
@@ -164,6 +165,11 @@ export function BasicSettingsTab() {
 
       <SettingsDivider />
 
+      {/* 两步验证 */}
+      <TwoFactorSettings />
+
+      <SettingsDivider />
+
       {/* 语言设置 */}
       <SettingsSection icon={Globe} title={t('language.title')} description={t('language.description')}>
         <div className="p-4 rounded-lg bg-card border border-border">
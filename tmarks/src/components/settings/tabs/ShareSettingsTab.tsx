@@ -5,8 +5,9 @@
 
 import { useState, useEffect, useMemo } from 'react'
 import { useTranslation } from 'react-i18next'
-import { Share2, Copy, RefreshCw, Info } from 'lucide-react'
+import { Share2, Copy, RefreshCw, Info, Rss } from 'lucide-react'
 import { useShareSettings, useUpdateShareSettings } from '@/hooks/useShare'
+import { getPublicFeedUrl, type PublicFeedFormat } from '@/services/share'
 import { useToastStore } from '@/stores/toastStore'
 import { Toggle } from '@/components/common/Toggle'
 import { SettingsSection, SettingsDivider } from '../SettingsSection'
@@ -181,6 +182,30 @@ export function ShareSettingsTab() {
                   {updateShare.isPending ? t('action.saving') : t('action.save')}
                 </button>
               </div>
+
+              {/* 订阅源地址（使用已保存的 slug） */}
+              {data?.enabled && data.slug && (
+                <div className="space-y-1 text-xs text-muted-foreground">
+                  <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+                    <span className="inline-flex items-center gap-1">
+                      <Rss className="w-3.5 h-3.5" />
+                      {t('share.feeds.label')}
+                    </span>
+                    {(['atom', 'rss', 'json'] as PublicFeedFormat[]).map((format) => (
+                      <a
+                        key={format}
+                        href={getPublicFeedUrl(data.slug as string, format)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-primary hover:underline"
+                      >
+                        {t(`share.feeds.${format}`)}
+                      </a>
+                    ))}
+                  </div>
+                  <p>{t('share.feeds.tagHint')}</p>
+                </div>
+              )}
             </div>
           </SettingsSection>
         </>
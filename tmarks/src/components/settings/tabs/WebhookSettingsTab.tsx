@@ -0,0 +1,273 @@
+/**
+ * Webhook 设置标签页
+ * 管理出站 Webhook：创建、编辑、启停、测试、重新生成密钥和查看投递记录
+ */
+
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Webhook as WebhookIcon, Plus, Pencil, Trash2, Send, History, KeyRound, Info, ShieldCheck, Power } from 'lucide-react'
+import {
+  useWebhooks,
+  useUpdateWebhook,
+  useDeleteWebhook,
+  useRotateWebhookSecret,
+  useTestWebhook,
+} from '@/hooks/useWebhooks'
+import { useToastStore } from '@/stores/toastStore'
+import { WebhookFormModal } from '@/components/webhooks/WebhookFormModal'
+import { WebhookDeliveriesModal } from '@/components/webhooks/WebhookDeliveriesModal'
+import { ConfirmDialog } from '@/components/common/ConfirmDialog'
+import { SettingsSection, SettingsDivider } from '../SettingsSection'
+import { InfoBox } from '../InfoBox'
+import type { Webhook } from '@/services/webhooks'
+
+export function WebhookSettingsTab() {
+  const { t } = useTranslation('settings')
+  const { data, isLoading } = useWebhooks()
+  const updateWebhook = useUpdateWebhook()
+  const deleteWebhook = useDeleteWebhook()
+  const rotateSecret = useRotateWebhookSecret()
+  const testWebhook = useTestWebhook()
+  const { addToast } = useToastStore()
+
+  const [formState, setFormState] = useState<{ webhook: Webhook | null } | null>(null)
+  const [deliveriesWebhook, setDeliveriesWebhook] = useState<Webhook | null>(null)
+  const [rotatedSecret, setRotatedSecret] = useState<string | null>(null)
+  const [confirmState, setConfirmState] = useState<{
+    title: string
+    message: string
+    onConfirm: () => void
+  } | null>(null)
+
+  const handleToggle = async (webhook: Webhook) => {
+    try {
+      await updateWebhook.mutateAsync({ id: webhook.id, data: { is_active: !webhook.is_active } })
+    } catch {
+      addToast('error', t('webhooks.page.updateFailed'))
+    }
+  }
+
+  const handleTest = async (webhook: Webhook) => {
+    try {
+      const delivery = await testWebhook.mutateAsync(webhook.id)
+      if (delivery.status === 'success') {
+        addToast('success', t('webhooks.page.testSuccess', { status: delivery.response_status }))
+      } else {
+        addToast('error', t('webhooks.page.testFailed', { error: delivery.error || delivery.response_status }))
+      }
+    } catch {
+      addToast('error', t('webhooks.page.testFailed', { error: '' }))
+    }
+  }
+
+  const handleRotate = (webhook: Webhook) => {
+    setConfirmState({
+      title: t('webhooks.page.rotateTitle'),
+      message: t('webhooks.page.rotateMessage'),
+      onConfirm: async () => {
+        setConfirmState(null)
+        try {
+          const result = await rotateSecret.mutateAsync(webhook.id)
+          setRotatedSecret(result.secret)
+        } catch {
+          addToast('error', t('webhooks.page.rotateFailed'))
+        }
+      },
+    })
+  }
+
+  const handleDelete = (webhook: Webhook) => {
+    setConfirmState({
+      title: t('webhooks.page.deleteTitle'),
+      message: t('webhooks.page.deleteMessage'),
+      onConfirm: async () => {
+        setConfirmState(null)
+        try {
+          await deleteWebhook.mutateAsync(webhook.id)
+          addToast('success', t('webhooks.page.deleteSuccess'))
+        } catch {
+          addToast('error', t('webhooks.page.deleteFailed'))
+        }
+      },
+    })
+  }
+
+  const handleCopySecret = () => {
+    if (rotatedSecret) {
+      navigator.clipboard.writeText(rotatedSecret)
+      addToast('success', t('share.copySuccess'))
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    )
+  }
+
+  const webhooks = data?.webhooks || []
+  const events = data?.events || []
+  const limit = data?.limit ?? 10
+
+  return (
+    <div className="space-y-6">
+      {confirmState && (
+        <ConfirmDialog
+          isOpen
+          title={confirmState.title}
+          message={confirmState.message}
+          type="warning"
+          onConfirm={confirmState.onConfirm}
+          onCancel={() => setConfirmState(null)}
+        />
+      )}
+
+      <SettingsSection icon={WebhookIcon} title={t('webhooks.page.title')} description={t('webhooks.page.description')}>
+        <div className="space-y-4">
+          {/* 配额和创建按钮 */}
+          <div className="flex items-center justify-between p-3 bg-muted/30 rounded-lg">
+            <div className="text-sm">
+              <span className="text-muted-foreground">{t('webhooks.page.currentUsage')}</span>
+              <span className="font-medium ml-2">
+                {webhooks.length} / {limit}
+              </span>
+            </div>
+            <button
+              onClick={() => setFormState({ webhook: null })}
+              disabled={webhooks.length >= limit}
+              className="btn btn-primary btn-sm flex items-center gap-2"
+            >
+              <Plus className="w-4 h-4" />
+              {t('webhooks.page.createNew')}
+            </button>
+          </div>
+
+          {/* 重新生成的密钥只显示一次 */}
+          {rotatedSecret && (
+            <div className="p-3 rounded-lg border border-warning/30 bg-warning/5 space-y-2">
+              <p className="text-sm">{t('webhooks.form.secretHint')}</p>
+              <div className="flex items-center gap-2">
+                <code className="flex-1 text-xs font-mono break-all">{rotatedSecret}</code>
+                <button className="btn btn-sm" onClick={handleCopySecret}>
+                  {t('webhooks.form.copy')}
+                </button>
+                <button className="btn btn-sm" onClick={() => setRotatedSecret(null)}>
+                  {t('webhooks.form.done')}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* Webhook 列表 */}
+          {webhooks.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <WebhookIcon className="w-10 h-10 mx-auto mb-2 opacity-30" />
+              <p className="text-sm">{t('webhooks.page.empty')}</p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {webhooks.map((webhook) => (
+                <div
+                  key={webhook.id}
+                  className={`p-3 rounded-lg border ${
+                    webhook.is_active ? 'border-border bg-card' : 'border-border bg-muted/30 opacity-75'
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 mb-1">
+                        <span className="font-medium text-sm truncate">{webhook.url}</span>
+                        {!webhook.is_active && (
+                          <span className="text-xs px-1.5 py-0.5 rounded bg-muted text-muted-foreground">
+                            {t('webhooks.page.disabled')}
+                          </span>
+                        )}
+                        {webhook.last_delivery_status && (
+                          <span
+                            className={`text-xs px-1.5 py-0.5 rounded ${
+                              webhook.last_delivery_status === 'failed'
+                                ? 'bg-error/20 text-error'
+                                : 'bg-success/20 text-success'
+                            }`}
+                          >
+                            {t(`webhooks.status.${webhook.last_delivery_status}`)}
+                          </span>
+                        )}
+                      </div>
+                      {webhook.description && (
+                        <p className="text-xs text-muted-foreground mb-1">{webhook.description}</p>
+                      )}
+                      <p className="text-xs text-muted-foreground">
+                        {t('webhooks.page.eventCount', { count: webhook.events.length })}
+                        {' · '}
+                        <code className="font-mono">whsec_••••{webhook.secret_hint}</code>
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <button
+                        onClick={() => handleToggle(webhook)}
+                        disabled={updateWebhook.isPending}
+                        className={`p-1.5 rounded hover:bg-muted ${webhook.is_active ? 'text-success' : 'text-muted-foreground'}`}
+                        title={webhook.is_active ? t('webhooks.page.disable') : t('webhooks.page.enable')}
+                      >
+                        <Power className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleTest(webhook)}
+                        disabled={testWebhook.isPending}
+                        className="p-1.5 hover:bg-muted rounded"
+                        title={t('webhooks.page.test')}
+                      >
+                        <Send className="w-4 h-4" />
+                      </button>
+                      <button onClick={() => setDeliveriesWebhook(webhook)} className="p-1.5 hover:bg-muted rounded" title={t('webhooks.page.deliveries')}>
+                        <History className="w-4 h-4" />
+                      </button>
+                      <button onClick={() => setFormState({ webhook })} className="p-1.5 hover:bg-muted rounded" title={t('webhooks.page.edit')}>
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                      <button onClick={() => handleRotate(webhook)} className="p-1.5 text-warning hover:bg-warning/10 rounded" title={t('webhooks.page.rotate')}>
+                        <KeyRound className="w-4 h-4" />
+                      </button>
+                      <button onClick={() => handleDelete(webhook)} className="p-1.5 text-error hover:bg-error/10 rounded" title={t('webhooks.page.delete')}>
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </SettingsSection>
+
+      <SettingsDivider />
+
+      <div className="grid sm:grid-cols-2 gap-3">
+        <InfoBox icon={Info} title={t('webhooks.infoBox.deliveryTitle')} variant="info">
+          <ul className="space-y-1 text-xs">
+            <li>• {t('webhooks.infoBox.deliveryTip1')}</li>
+            <li>• {t('webhooks.infoBox.deliveryTip2')}</li>
+            <li>• {t('webhooks.infoBox.deliveryTip3')}</li>
+          </ul>
+        </InfoBox>
+
+        <InfoBox icon={ShieldCheck} title={t('webhooks.infoBox.signatureTitle')} variant="warning">
+          <ul className="space-y-1 text-xs">
+            <li>• {t('webhooks.infoBox.signatureTip1')}</li>
+            <li>• {t('webhooks.infoBox.signatureTip2')}</li>
+          </ul>
+        </InfoBox>
+      </div>
+
+      {formState && (
+        <WebhookFormModal webhook={formState.webhook} events={events} onClose={() => setFormState(null)} />
+      )}
+      {deliveriesWebhook && (
+        <WebhookDeliveriesModal webhook={deliveriesWebhook} onClose={() => setDeliveriesWebhook(null)} />
+      )}
+    </div>
+  )
+}
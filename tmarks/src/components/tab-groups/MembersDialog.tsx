@@ -0,0 +1,292 @@
+import { useState, useEffect, useCallback } from 'react'
+import { createPortal } from 'react-dom'
+import { useTranslation } from 'react-i18next'
+import { X, Users, UserPlus, Trash2, Crown, LogOut } from 'lucide-react'
+import { tabGroupsService } from '@/services/tab-groups'
+import type { TabGroupAccessRole, TabGroupMember, TabGroupMemberRole } from '@/lib/types'
+import { ApiError } from '@/lib/api-client'
+import { Z_INDEX } from '@/lib/constants/z-index'
+import { useIsMobile } from '@/hooks/useMediaQuery'
+import { useAuthStore } from '@/stores/authStore'
+import { ConfirmDialog } from '@/components/common/ConfirmDialog'
+import { logger } from '@/lib/logger'
+
+/** 后端错误码对应的提示文案 */
+const INVITE_ERROR_KEYS: Record<string, string> = {
+  USER_NOT_FOUND: 'members.errors.userNotFound',
+  ALREADY_MEMBER: 'members.errors.alreadyMember',
+  CANNOT_INVITE_SELF: 'members.errors.cannotInviteSelf',
+  MEMBER_LIMIT_REACHED: 'members.errors.limitReached',
+}
+
+interface MembersDialogProps {
+  groupId: string
+  groupTitle: string
+  onClose: () => void
+  /** 当前用户退出共享后调用 */
+  onLeft?: () => void
+}
+
+export function MembersDialog({ groupId, groupTitle, onClose, onLeft }: MembersDialogProps) {
+  const { t } = useTranslation('tabGroups')
+  const { t: tc } = useTranslation('common')
+  const isMobile = useIsMobile()
+  const currentUser = useAuthStore((state) => state.user)
+  const [owner, setOwner] = useState<{ id: string; username: string } | null>(null)
+  const [members, setMembers] = useState<TabGroupMember[]>([])
+  const [accessRole, setAccessRole] = useState<TabGroupAccessRole | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  // 邀请表单
+  const [identifier, setIdentifier] = useState('')
+  const [role, setRole] = useState<TabGroupMemberRole>('viewer')
+  const [isInviting, setIsInviting] = useState(false)
+  const [inviteError, setInviteError] = useState<string | null>(null)
+
+  const [pendingRemoval, setPendingRemoval] = useState<TabGroupMember | null>(null)
+
+  const isOwner = accessRole === 'owner'
+  const selfMember = members.find((member) => member.user_id === currentUser?.id) || null
+
+  useEffect(() => {
+    document.body.style.overflow = 'hidden'
+    return () => {
+      document.body.style.overflow = ''
+    }
+  }, [])
+
+  useEffect(() => {
+    const handleEsc = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose()
+      }
+    }
+    window.addEventListener('keydown', handleEsc)
+    return () => window.removeEventListener('keydown', handleEsc)
+  }, [onClose])
+
+  const loadMembers = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      setError(null)
+      const response = await tabGroupsService.getMembers(groupId)
+      setOwner(response.owner)
+      setMembers(response.members)
+      setAccessRole(response.access_role)
+    } catch (err) {
+      logger.error('Failed to load members:', err)
+      setError(t('members.loadFailed'))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [groupId, t])
+
+  useEffect(() => {
+    loadMembers()
+  }, [loadMembers])
+
+  const handleInvite = async () => {
+    const value = identifier.trim()
+    if (!value) return
+    setInviteError(null)
+
+    try {
+      setIsInviting(true)
+      const response = await tabGroupsService.addMember(groupId, value, role)
+      setMembers((prev) => [...prev, response.member])
+      setIdentifier('')
+    } catch (err) {
+      logger.error('Failed to invite member:', err)
+      const key = err instanceof ApiError ? INVITE_ERROR_KEYS[err.code] : undefined
+      setInviteError(key ? t(key) : t('members.inviteFailed'))
+    } finally {
+      setIsInviting(false)
+    }
+  }
+
+  const handleRoleChange = async (member: TabGroupMember, nextRole: TabGroupMemberRole) => {
+    try {
+      const response = await tabGroupsService.updateMemberRole(groupId, member.id, nextRole)
+      setMembers((prev) => prev.map((item) => (item.id === member.id ? response.member : item)))
+    } catch (err) {
+      logger.error('Failed to update member role:', err)
+      setError(t('members.updateFailed'))
+    }
+  }
+
+  const handleRemove = async (member: TabGroupMember) => {
+    try {
+      await tabGroupsService.removeMember(groupId, member.id)
+      if (member.user_id === currentUser?.id) {
+        onLeft?.()
+        onClose()
+        return
+      }
+      setMembers((prev) => prev.filter((item) => item.id !== member.id))
+    } catch (err) {
+      logger.error('Failed to remove member:', err)
+      setError(t('members.removeFailed'))
+    }
+  }
+
+  const dialogContent = (
+    <div className="fixed inset-0 bg-background/80 backdrop-blur-sm flex items-center justify-center p-4 sm:p-6" style={{ zIndex: Z_INDEX.MEMBERS_DIALOG }} onClick={onClose}>
+      <div className="rounded-2xl sm:rounded-3xl shadow-xl max-w-md w-full max-h-[90vh] overflow-y-auto border border-border" style={{backgroundColor: 'var(--card)'}} onClick={(e) => e.stopPropagation()}>
+        <ConfirmDialog
+          isOpen={pendingRemoval !== null}
+          title={tc('dialog.confirmTitle')}
+          message={
+            pendingRemoval?.user_id === currentUser?.id
+              ? t('members.confirmLeave', { title: groupTitle })
+              : t('members.confirmRemove', { username: pendingRemoval?.username || '' })
+          }
+          type="warning"
+          onConfirm={() => {
+            const member = pendingRemoval
+            setPendingRemoval(null)
+            if (member) {
+              handleRemove(member)
+            }
+          }}
+          onCancel={() => setPendingRemoval(null)}
+        />
+
+        {/* Header */}
+        <div className={`flex items-center justify-between border-b border-border ${isMobile ? 'p-4' : 'p-6'}`}>
+          <div className="flex items-center gap-2 sm:gap-3">
+            <Users className={`text-primary ${isMobile ? 'w-5 h-5' : 'w-6 h-6'}`} />
+            <h2 className={`font-semibold text-foreground ${isMobile ? 'text-lg' : 'text-xl'}`}>{t('members.title')}</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-muted-foreground hover:text-foreground transition-colors p-1"
+          >
+            <X className={isMobile ? 'w-5 h-5' : 'w-6 h-6'} />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className={isMobile ? 'p-4' : 'p-6'}>
+          {isLoading ? (
+            <div className="text-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+              <p className="text-muted-foreground">{tc('status.loading')}</p>
+            </div>
+          ) : (
+            <>
+              <div className="mb-4">
+                <p className="text-sm text-muted-foreground mb-2">{t('share.groupName')}</p>
+                <p className="text-foreground font-medium">{groupTitle}</p>
+              </div>
+
+              {error && <p className="text-sm text-destructive mb-4">{error}</p>}
+
+              {isOwner && (
+                <div className="mb-4 sm:mb-6 space-y-2">
+                  <p className="text-sm font-medium text-foreground">{t('members.invite')}</p>
+                  <div className={`flex gap-2 ${isMobile ? 'flex-col' : ''}`}>
+                    <input
+                      type="text"
+                      className="input flex-1 text-sm"
+                      placeholder={t('members.identifierPlaceholder')}
+                      value={identifier}
+                      onChange={(e) => setIdentifier(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') {
+                          handleInvite()
+                        }
+                      }}
+                    />
+                    <select
+                      className="input text-sm"
+                      value={role}
+                      onChange={(e) => setRole(e.target.value as TabGroupMemberRole)}
+                    >
+                      <option value="viewer">{t('members.role.viewer')}</option>
+                      <option value="editor">{t('members.role.editor')}</option>
+                    </select>
+                    <button
+                      onClick={handleInvite}
+                      disabled={isInviting || !identifier.trim()}
+                      className={`flex items-center justify-center gap-2 bg-primary text-primary-foreground rounded hover:bg-primary/90 transition-colors disabled:opacity-50 ${isMobile ? 'py-3 min-h-[44px]' : 'px-4 py-2'}`}
+                    >
+                      <UserPlus className="w-4 h-4" />
+                      <span>{isInviting ? t('members.inviting') : t('members.inviteButton')}</span>
+                    </button>
+                  </div>
+                  {inviteError && <p className="text-sm text-destructive">{inviteError}</p>}
+                  <p className="text-xs text-muted-foreground">{t('members.roleHint')}</p>
+                </div>
+              )}
+
+              <div className="space-y-2 mb-4">
+                {owner && (
+                  <div className="flex items-center gap-3 p-3 rounded border border-border">
+                    <Crown className="w-4 h-4 text-warning flex-shrink-0" />
+                    <span className="flex-1 text-sm font-medium text-foreground truncate">{owner.username}</span>
+                    <span className="text-xs text-muted-foreground">{t('members.role.owner')}</span>
+                  </div>
+                )}
+
+                {members.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-4">{t('members.empty')}</p>
+                ) : (
+                  members.map((member) => (
+                    <div key={member.id} className="flex items-center gap-3 p-3 rounded border border-border">
+                      <Users className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                      <span className="flex-1 text-sm text-foreground truncate">{member.username}</span>
+                      {isOwner ? (
+                        <>
+                          <select
+                            className="input text-xs py-1"
+                            value={member.role}
+                            onChange={(e) => handleRoleChange(member, e.target.value as TabGroupMemberRole)}
+                          >
+                            <option value="viewer">{t('members.role.viewer')}</option>
+                            <option value="editor">{t('members.role.editor')}</option>
+                          </select>
+                          <button
+                            onClick={() => setPendingRemoval(member)}
+                            className="p-1.5 text-destructive hover:bg-destructive/10 rounded transition-colors"
+                            title={t('members.remove')}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </>
+                      ) : (
+                        <span className="text-xs text-muted-foreground">{t(`members.role.${member.role}`)}</span>
+                      )}
+                    </div>
+                  ))
+                )}
+              </div>
+
+              <div className={`flex gap-2 ${isMobile ? 'flex-col-reverse' : 'justify-between'}`}>
+                {!isOwner && selfMember ? (
+                  <button
+                    onClick={() => setPendingRemoval(selfMember)}
+                    className={`flex items-center justify-center gap-2 text-destructive hover:bg-destructive/10 rounded transition-colors ${isMobile ? 'py-3 min-h-[44px]' : 'px-4 py-2'}`}
+                  >
+                    <LogOut className="w-4 h-4" />
+                    {t('members.leave')}
+                  </button>
+                ) : (
+                  <span />
+                )}
+                <button
+                  onClick={onClose}
+                  className={`bg-muted text-foreground rounded hover:bg-muted/80 transition-colors ${isMobile ? 'py-3 min-h-[44px]' : 'px-4 py-2'}`}
+                >
+                  {t('share.close')}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+
+  return createPortal(dialogContent, document.body)
+}
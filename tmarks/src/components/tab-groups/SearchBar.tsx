@@ -1,4 +1,4 @@
-import { Search, CheckCircle, Archive, ArrowUpDown } from 'lucide-react'
+import { Search, CheckCircle, Archive, ArrowUpDown, Share2 } from 'lucide-react'
 import { Link } from 'react-router-dom'
 import { useTranslation } from 'react-i18next'
 import type { SortOption } from './sortUtils'
@@ -78,6 +78,15 @@ export function SearchBar({
         <CheckCircle className="w-5 h-5" />
       </button>
 
+      {/* Shares Link */}
+      <Link
+        to="/tab/shares"
+        className="w-10 h-10 flex-shrink-0 flex items-center justify-center border border-border rounded hover:bg-muted transition-colors text-muted-foreground"
+        title={t('sharesPage.title')}
+      >
+        <Share2 className="w-5 h-5" />
+      </Link>
+
       {/* Trash Link - 移动端隐藏（在底部导航） */}
       {!isMobile && (
         <Link
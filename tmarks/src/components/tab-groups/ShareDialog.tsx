@@ -1,14 +1,18 @@
 import { useState, useEffect, useCallback } from 'react'
 import { createPortal } from 'react-dom'
 import { useTranslation } from 'react-i18next'
-import { X, Copy, Check, Share2, Eye } from 'lucide-react'
+import { X, Copy, Check, Share2, Eye, Lock, Clock, RefreshCw } from 'lucide-react'
 import { tabGroupsService } from '@/services/tab-groups'
-import type { Share } from '@/lib/types'
+import type { Share, TabGroupShareSettings } from '@/lib/types'
+import { ApiError } from '@/lib/api-client'
 import { Z_INDEX } from '@/lib/constants/z-index'
 import { useIsMobile } from '@/hooks/useMediaQuery'
 import { ConfirmDialog } from '@/components/common/ConfirmDialog'
 import { AlertDialog } from '@/components/common/AlertDialog'
 
+/** 有效期预设（天） */
+const EXPIRY_PRESETS = [1, 7, 30, 90]
+
 interface ShareDialogProps {
   groupId: string
   groupTitle: string
@@ -24,9 +28,28 @@ export function ShareDialog({ groupId, groupTitle, onClose }: ShareDialogProps)
   const [isLoading, setIsLoading] = useState(true)
   const [isCopied, setIsCopied] = useState(false)
   const [error, setError] = useState<string | null>(null)
-  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false)
+  const [confirmAction, setConfirmAction] = useState<'revoke' | 'regenerate' | null>(null)
   const [showCopyError, setShowCopyError] = useState(false)
 
+  // 分享设置表单
+  // 'keep' 保持当前有效期，'never' 永不过期，其余为预设天数
+  const [expiry, setExpiry] = useState('keep')
+  const [passwordEnabled, setPasswordEnabled] = useState(false)
+  const [password, setPassword] = useState('')
+  const [maxViews, setMaxViews] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [settingsError, setSettingsError] = useState<string | null>(null)
+  const [settingsSaved, setSettingsSaved] = useState(false)
+
+  const applyShare = useCallback((next: Share, url: string) => {
+    setShare(next)
+    setShareUrl(url)
+    setExpiry('keep')
+    setPasswordEnabled(next.has_password)
+    setPassword('')
+    setMaxViews(next.max_views ? String(next.max_views) : '')
+  }, [])
+
   useEffect(() => {
     document.body.style.overflow = 'hidden'
     return () => {
@@ -51,12 +74,10 @@ export function ShareDialog({ groupId, groupTitle, onClose }: ShareDialogProps)
 
       try {
         const response = await tabGroupsService.getShare(groupId)
-        setShare(response.share)
-        setShareUrl(response.share_url)
+        applyShare(response.share, response.share_url)
       } catch {
         const response = await tabGroupsService.createShare(groupId, { is_public: true })
-        setShare(response.share)
-        setShareUrl(response.share_url)
+        applyShare(response.share, response.share_url)
       }
     } catch (error) {
       console.error('Failed to load/create share:', error)
@@ -64,7 +85,7 @@ export function ShareDialog({ groupId, groupTitle, onClose }: ShareDialogProps)
     } finally {
       setIsLoading(false)
     }
-  }, [groupId, t])
+  }, [groupId, t, applyShare])
 
   useEffect(() => {
     loadOrCreateShare()
@@ -91,19 +112,74 @@ export function ShareDialog({ groupId, groupTitle, onClose }: ShareDialogProps)
     }
   }
 
+  const handleRegenerate = async () => {
+    try {
+      const response = await tabGroupsService.regenerateShare(groupId)
+      applyShare(response.share, response.share_url)
+      setIsCopied(false)
+    } catch (err) {
+      console.error('Failed to regenerate share:', err)
+      setSettingsError(t('share.regenerateFailed'))
+    }
+  }
+
+  const handleSaveSettings = async () => {
+    if (!share) return
+    setSettingsError(null)
+    setSettingsSaved(false)
+
+    const settings: TabGroupShareSettings = {}
+    if (expiry !== 'keep') {
+      settings.expires_in_days = expiry === 'never' ? null : Number(expiry)
+    }
+
+    if (!passwordEnabled) {
+      if (share.has_password) settings.password = null
+    } else if (password) {
+      settings.password = password
+    } else if (!share.has_password) {
+      setSettingsError(t('share.settings.passwordRequired'))
+      return
+    }
+
+    const views = maxViews.trim() ? Number(maxViews) : null
+    if (views !== null && (!Number.isInteger(views) || views < 1)) {
+      setSettingsError(t('share.settings.maxViewsInvalid'))
+      return
+    }
+    settings.max_views = views
+
+    try {
+      setIsSaving(true)
+      const response = await tabGroupsService.createShare(groupId, settings)
+      applyShare(response.share, response.share_url)
+      setSettingsSaved(true)
+    } catch (err) {
+      console.error('Failed to update share settings:', err)
+      setSettingsError(err instanceof ApiError ? err.message : t('share.settings.saveFailed'))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
   const dialogContent = (
     <div className="fixed inset-0 bg-background/80 backdrop-blur-sm flex items-center justify-center p-4 sm:p-6" style={{ zIndex: Z_INDEX.SHARE_DIALOG }} onClick={onClose}>
-      <div className="rounded-2xl sm:rounded-3xl shadow-xl max-w-md w-full border border-border" style={{backgroundColor: 'var(--card)'}} onClick={(e) => e.stopPropagation()}>
+      <div className="rounded-2xl sm:rounded-3xl shadow-xl max-w-md w-full max-h-[90vh] overflow-y-auto border border-border" style={{backgroundColor: 'var(--card)'}} onClick={(e) => e.stopPropagation()}>
         <ConfirmDialog
-          isOpen={showDeleteConfirm}
+          isOpen={confirmAction !== null}
           title={tc('dialog.confirmTitle')}
-          message={t('share.confirmDelete')}
+          message={confirmAction === 'regenerate' ? t('share.confirmRegenerate') : t('share.confirmDelete')}
           type="warning"
           onConfirm={() => {
-            setShowDeleteConfirm(false)
-            handleDelete()
+            const action = confirmAction
+            setConfirmAction(null)
+            if (action === 'regenerate') {
+              handleRegenerate()
+            } else {
+              handleDelete()
+            }
           }}
-          onCancel={() => setShowDeleteConfirm(false)}
+          onCancel={() => setConfirmAction(null)}
         />
 
         <AlertDialog
@@ -153,11 +229,31 @@ export function ShareDialog({ groupId, groupTitle, onClose }: ShareDialogProps)
               </div>
 
               {share && (
-                <div className="mb-4">
-                  <div className="flex items-center gap-2 text-sm text-muted-foreground mb-2">
+                <div className="mb-4 space-y-2 text-sm text-muted-foreground">
+                  <div className="flex items-center gap-2">
                     <Eye className="w-4 h-4" />
-                    <span>{t('share.viewCount')}: {share.view_count}</span>
+                    <span>
+                      {t('share.viewCount')}: {share.view_count}
+                      {share.max_views ? ` / ${share.max_views}` : ''}
+                    </span>
                   </div>
+                  <div className="flex items-center gap-2">
+                    <Clock className="w-4 h-4" />
+                    <span>
+                      {share.expires_at
+                        ? t('share.expiresAt', { date: new Date(share.expires_at).toLocaleString() })
+                        : t('share.neverExpires')}
+                    </span>
+                  </div>
+                  {share.has_password && (
+                    <div className="flex items-center gap-2">
+                      <Lock className="w-4 h-4" />
+                      <span>{t('share.passwordProtected')}</span>
+                    </div>
+                  )}
+                  {share.status !== 'active' && (
+                    <p className="text-destructive">{t(`share.status.${share.status}`)}</p>
+                  )}
                 </div>
               )}
 
@@ -189,25 +285,109 @@ export function ShareDialog({ groupId, groupTitle, onClose }: ShareDialogProps)
                 </div>
               </div>
 
+              {share && (
+                <div className="mb-4 sm:mb-6 space-y-3 border-t border-border pt-4">
+                  <p className="text-sm font-medium text-foreground">{t('share.settings.title')}</p>
+
+                  <div>
+                    <label className="block text-sm text-muted-foreground mb-1">{t('share.settings.expiry')}</label>
+                    <select
+                      className="input w-full text-sm"
+                      value={expiry}
+                      onChange={(e) => setExpiry(e.target.value)}
+                    >
+                      <option value="keep">{t('share.settings.expiryKeep')}</option>
+                      <option value="never">{t('share.settings.expiryNever')}</option>
+                      {EXPIRY_PRESETS.map((days) => (
+                        <option key={days} value={String(days)}>
+                          {t('share.settings.expiryDays', { count: days })}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div>
+                    <label className="flex items-center gap-2 text-sm text-muted-foreground cursor-pointer">
+                      <input
+                        type="checkbox"
+                        className="checkbox checkbox-sm"
+                        checked={passwordEnabled}
+                        onChange={(e) => setPasswordEnabled(e.target.checked)}
+                      />
+                      {t('share.settings.password')}
+                    </label>
+                    {passwordEnabled && (
+                      <input
+                        type="password"
+                        className="input w-full text-sm mt-2"
+                        autoComplete="new-password"
+                        maxLength={128}
+                        placeholder={
+                          share.has_password
+                            ? t('share.settings.passwordKeepPlaceholder')
+                            : t('share.settings.passwordPlaceholder')
+                        }
+                        value={password}
+                        onChange={(e) => setPassword(e.target.value)}
+                      />
+                    )}
+                  </div>
+
+                  <div>
+                    <label className="block text-sm text-muted-foreground mb-1">{t('share.settings.maxViews')}</label>
+                    <input
+                      type="number"
+                      min={1}
+                      className="input w-full text-sm"
+                      placeholder={t('share.settings.maxViewsPlaceholder')}
+                      value={maxViews}
+                      onChange={(e) => setMaxViews(e.target.value)}
+                    />
+                  </div>
+
+                  {settingsError && <p className="text-sm text-destructive">{settingsError}</p>}
+                  {settingsSaved && !settingsError && (
+                    <p className="text-sm text-success">{t('share.settings.saved')}</p>
+                  )}
+
+                  <button
+                    onClick={handleSaveSettings}
+                    disabled={isSaving}
+                    className={`w-full bg-primary text-primary-foreground rounded hover:bg-primary/90 transition-colors disabled:opacity-50 ${isMobile ? 'py-3 min-h-[44px]' : 'px-4 py-2'}`}
+                  >
+                    {isSaving ? t('share.settings.saving') : t('share.settings.save')}
+                  </button>
+                </div>
+              )}
+
               <div className="bg-primary/10 border border-primary/20 rounded p-3 sm:p-4 mb-4">
                 <p className="text-xs sm:text-sm text-foreground">
-                  {t('share.tip')}
+                  {share?.has_password ? t('share.tipProtected') : t('share.tip')}
                 </p>
               </div>
 
               <div className={`flex gap-2 ${isMobile ? 'flex-col-reverse' : 'justify-between'}`}>
                 <button
-                  onClick={() => setShowDeleteConfirm(true)}
+                  onClick={() => setConfirmAction('revoke')}
                   className={`text-destructive hover:bg-destructive/10 rounded transition-colors ${isMobile ? 'py-3 min-h-[44px]' : 'px-4 py-2'}`}
                 >
                   {t('share.delete')}
                 </button>
-                <button
-                  onClick={onClose}
-                  className={`bg-muted text-foreground rounded hover:bg-muted/80 transition-colors ${isMobile ? 'py-3 min-h-[44px]' : 'px-4 py-2'}`}
-                >
-                  {t('share.close')}
-                </button>
+                <div className={`flex gap-2 ${isMobile ? 'flex-col-reverse' : ''}`}>
+                  <button
+                    onClick={() => setConfirmAction('regenerate')}
+                    className={`flex items-center justify-center gap-2 border border-border text-foreground rounded hover:bg-muted transition-colors ${isMobile ? 'py-3 min-h-[44px]' : 'px-4 py-2'}`}
+                  >
+                    <RefreshCw className="w-4 h-4" />
+                    {t('share.regenerate')}
+                  </button>
+                  <button
+                    onClick={onClose}
+                    className={`bg-muted text-foreground rounded hover:bg-muted/80 transition-colors ${isMobile ? 'py-3 min-h-[44px]' : 'px-4 py-2'}`}
+                  >
+                    {t('share.close')}
+                  </button>
+                </div>
               </div>
             </>
           )}
@@ -1,4 +1,4 @@
-import { Calendar, Edit2, Check, X, Share2, FolderOpen, Download, Trash2, MoreVertical } from 'lucide-react'
+import { Calendar, Edit2, Check, X, Share2, FolderOpen, Download, Trash2, MoreVertical, Users } from 'lucide-react'
 import { useTranslation } from 'react-i18next'
 import { formatDistanceToNow } from 'date-fns'
 import { zhCN, enUS } from 'date-fns/locale'
@@ -19,6 +19,7 @@ interface TabGroupHeaderProps {
   onExport: () => void
   onDelete: () => void
   isDeleting: boolean
+  onMembersClick?: () => void
 }
 
 export function TabGroupHeader({
@@ -34,6 +35,7 @@ export function TabGroupHeader({
   onExport,
   onDelete,
   isDeleting,
+  onMembersClick,
 }: TabGroupHeaderProps) {
   const { t, i18n } = useTranslation('tabGroups')
   const { t: tc } = useTranslation('common')
@@ -42,6 +44,9 @@ export function TabGroupHeader({
   // 根据当前语言选择 date-fns locale
   const dateLocale = i18n.language === 'zh-CN' ? zhCN : enUS
 
+  // 其他用户共享给我的分组：不能重命名、分享或删除
+  const isShared = group.access_role === 'viewer' || group.access_role === 'editor'
+
   return (
     <div className="flex items-start justify-between mb-4">
       <div className="flex-1">
@@ -83,13 +88,15 @@ export function TabGroupHeader({
               <h3 className="text-xl font-semibold text-foreground flex-1">
                 {group.title}
               </h3>
-              <button
-                onClick={onEditTitle}
-                className="p-2 text-muted-foreground hover:bg-muted rounded transition-colors"
-                title={t('action.rename')}
-              >
-                <Edit2 className="w-5 h-5" />
-              </button>
+              {!isShared && (
+                <button
+                  onClick={onEditTitle}
+                  className="p-2 text-muted-foreground hover:bg-muted rounded transition-colors"
+                  title={t('action.rename')}
+                >
+                  <Edit2 className="w-5 h-5" />
+                </button>
+              )}
             </>
           )}
         </div>
@@ -108,6 +115,17 @@ export function TabGroupHeader({
           <div className="flex items-center gap-1">
             <span>{t('header.tabCount', { count: group.items?.length || 0 })}</span>
           </div>
+          {isShared && (
+            <div className="flex items-center gap-1">
+              <Users className="w-4 h-4" />
+              <span>
+                {t('members.sharedBy', {
+                  owner: group.owner_username || '',
+                  role: t(`members.role.${group.access_role}`),
+                })}
+              </span>
+            </div>
+          )}
         </div>
       </div>
 
@@ -133,18 +151,25 @@ export function TabGroupHeader({
                 onClick: onExport,
                 disabled: !group.items || group.items.length === 0,
               },
-              {
-                label: t('action.share'),
-                icon: <Share2 className="w-4 h-4" />,
-                onClick: onShareClick,
-              },
-              {
-                label: isDeleting ? t('action.deleting') : t('action.delete'),
-                icon: <Trash2 className="w-4 h-4" />,
-                onClick: onDelete,
-                disabled: isDeleting,
-                danger: true,
-              },
+              ...(onMembersClick ? [{
+                label: t('members.title'),
+                icon: <Users className="w-4 h-4" />,
+                onClick: onMembersClick,
+              }] : []),
+              ...(isShared ? [] : [
+                {
+                  label: t('action.share'),
+                  icon: <Share2 className="w-4 h-4" />,
+                  onClick: onShareClick,
+                },
+                {
+                  label: isDeleting ? t('action.deleting') : t('action.delete'),
+                  icon: <Trash2 className="w-4 h-4" />,
+                  onClick: onDelete,
+                  disabled: isDeleting,
+                  danger: true,
+                },
+              ]),
             ]}
           />
         ) : (
@@ -165,21 +190,34 @@ export function TabGroupHeader({
             >
               <Download className="w-5 h-5" />
             </button>
-            <button
-              onClick={onShareClick}
-              className="p-2 text-muted-foreground hover:bg-muted rounded transition-colors"
-              title={t('action.share')}
-            >
-              <Share2 className="w-5 h-5" />
-            </button>
-            <button
-              onClick={onDelete}
-              disabled={isDeleting}
-              className="p-2 text-destructive hover:bg-destructive/10 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-              title={isDeleting ? t('action.deleting') : t('action.delete')}
-            >
-              <Trash2 className="w-5 h-5" />
-            </button>
+            {onMembersClick && (
+              <button
+                onClick={onMembersClick}
+                className="p-2 text-muted-foreground hover:bg-muted rounded transition-colors"
+                title={t('members.title')}
+              >
+                <Users className="w-5 h-5" />
+              </button>
+            )}
+            {!isShared && (
+              <>
+                <button
+                  onClick={onShareClick}
+                  className="p-2 text-muted-foreground hover:bg-muted rounded transition-colors"
+                  title={t('action.share')}
+                >
+                  <Share2 className="w-5 h-5" />
+                </button>
+                <button
+                  onClick={onDelete}
+                  disabled={isDeleting}
+                  className="p-2 text-destructive hover:bg-destructive/10 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  title={isDeleting ? t('action.deleting') : t('action.delete')}
+                >
+                  <Trash2 className="w-5 h-5" />
+                </button>
+              </>
+            )}
           </>
         )}
       </div>
@@ -1,16 +1,22 @@
 import { useState, useEffect } from 'react'
 import { useTranslation } from 'react-i18next'
-import { FolderPlus, Circle, Folder } from 'lucide-react'
+import { FolderPlus, Circle, Folder, Users } from 'lucide-react'
 import { DndContext, DragOverlay } from '@dnd-kit/core'
 import { SortableContext, verticalListSortingStrategy } from '@dnd-kit/sortable'
 import type { TabGroup } from '@/lib/types'
 import { TreeNode } from './tree/TreeNode'
+import { TreeNodeSimple } from './tree/TreeNodeSimple'
 import { buildTree } from './tree/TreeUtils'
 import { useDragAndDrop } from './tree/useDragAndDrop'
 import { MoveToFolderDialog } from './MoveToFolderDialog'
+import { MembersDialog } from './MembersDialog'
+
+const EMPTY_GROUPS: TabGroup[] = []
 
 interface TabGroupTreeProps {
   tabGroups: TabGroup[]
+  /** 其他用户共享给我的分组，显示在“共享给我”区域（只读树） */
+  sharedGroups?: TabGroup[]
   selectedGroupId: string | null
   onSelectGroup: (groupId: string | null) => void
   onCreateFolder?: () => void
@@ -21,6 +27,7 @@ interface TabGroupTreeProps {
 
 export function TabGroupTree({
   tabGroups,
+  sharedGroups = EMPTY_GROUPS,
   selectedGroupId,
   onSelectGroup,
   onCreateFolder,
@@ -32,23 +39,24 @@ export function TabGroupTree({
   
   // 状态管理
   const [expandedGroups, setExpandedGroups] = useState<Set<string>>(() => {
-    const folderIds = tabGroups.filter(g => g.is_folder === 1).map(g => g.id)
+    const folderIds = [...tabGroups, ...sharedGroups].filter(g => g.is_folder === 1).map(g => g.id)
     return new Set(folderIds)
   })
   const [editingGroupId, setEditingGroupId] = useState<string | null>(null)
   const [editingTitle, setEditingTitle] = useState('')
   const [moveDialogOpen, setMoveDialogOpen] = useState(false)
   const [movingGroup, setMovingGroup] = useState<TabGroup | null>(null)
+  const [membersGroup, setMembersGroup] = useState<TabGroup | null>(null)
 
   // 当 tabGroups 变化时，自动展开新增的文件夹
   useEffect(() => {
-    const folderIds = tabGroups.filter(g => g.is_folder === 1).map(g => g.id)
+    const folderIds = [...tabGroups, ...sharedGroups].filter(g => g.is_folder === 1).map(g => g.id)
     setExpandedGroups(prev => {
       const next = new Set(prev)
       folderIds.forEach(id => next.add(id))
       return next
     })
-  }, [tabGroups])
+  }, [tabGroups, sharedGroups])
 
   // 拖拽功能
   const {
@@ -64,8 +72,7 @@ export function TabGroupTree({
   } = useDragAndDrop({ tabGroups, onMoveGroup })
 
   // 展开/折叠
-  const toggleGroup = (groupId: string, e: React.MouseEvent) => {
-    e.stopPropagation()
+  const toggleExpanded = (groupId: string) => {
     setExpandedGroups((prev) => {
       const next = new Set(prev)
       if (next.has(groupId)) {
@@ -77,8 +84,14 @@ export function TabGroupTree({
     })
   }
 
+  const toggleGroup = (groupId: string, e: React.MouseEvent) => {
+    e.stopPropagation()
+    toggleExpanded(groupId)
+  }
+
   // 构建树形结构
   const treeData = buildTree(tabGroups)
+  const sharedTreeData = buildTree(sharedGroups)
   const allIds = tabGroups.map(g => g.id)
   const totalCount = tabGroups.reduce((sum, group) => {
     if (group.is_folder === 1) return sum
@@ -175,11 +188,35 @@ export function TabGroupTree({
                           setMovingGroup(group)
                           setMoveDialogOpen(true)
                         }}
+                        onOpenMembersDialog={setMembersGroup}
                       />
                     ))}
                   </div>
                 )}
               </div>
+
+              {/* Shared with me */}
+              {sharedTreeData.length > 0 && (
+                <div className="mt-2 pt-2 border-t border-border">
+                  <div className="px-3 py-1.5 flex items-center gap-2 text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+                    <Users className="w-3.5 h-3.5" />
+                    <span>{t('members.sharedWithMe')}</span>
+                  </div>
+                  {sharedTreeData.map((group, index) => (
+                    <TreeNodeSimple
+                      key={group.id}
+                      group={group}
+                      level={1}
+                      isLast={index === sharedTreeData.length - 1}
+                      parentHasMore={[]}
+                      selectedGroupId={selectedGroupId}
+                      onSelectGroup={onSelectGroup}
+                      expandedGroups={expandedGroups}
+                      onToggleExpand={toggleExpanded}
+                    />
+                  ))}
+                </div>
+              )}
             </div>
           </SortableContext>
         </div>
@@ -213,6 +250,15 @@ export function TabGroupTree({
         </DragOverlay>
       </DndContext>
 
+      {/* 成员对话框 */}
+      {membersGroup && (
+        <MembersDialog
+          groupId={membersGroup.id}
+          groupTitle={membersGroup.title}
+          onClose={() => setMembersGroup(null)}
+        />
+      )}
+
       {/* 移动对话框 */}
       {moveDialogOpen && movingGroup && (
         <MoveToFolderDialog
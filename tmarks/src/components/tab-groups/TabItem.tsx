@@ -1,10 +1,12 @@
 import { ExternalLink, Trash2, Edit2, Pin, CheckSquare, Check, X, GripVertical, FolderInput, MoreVertical } from 'lucide-react'
 import { useTranslation } from 'react-i18next'
 import type { TabGroupItem } from '@/lib/types'
+import { getFaviconUrl } from '@/lib/favicon'
 import { useSortable } from '@dnd-kit/sortable'
 import { CSS } from '@dnd-kit/utilities'
 import { useIsMobile } from '@/hooks/useMediaQuery'
 import { DropdownMenu } from '@/components/common/DropdownMenu'
+import { useAuthStore } from '@/stores/authStore'
 
 interface TabItemProps {
   item: TabGroupItem
@@ -23,7 +25,8 @@ interface TabItemProps {
   onMoveItem?: (item: TabGroupItem) => void
   setEditingItemId: (id: string | null) => void
   setEditingTitle: (title: string) => void
-  extractDomain: (url: string) => string
+  /** 只读（共享给我的 viewer 分组），只保留打开链接 */
+  readOnly?: boolean
 }
 
 export function TabItem({
@@ -43,10 +46,11 @@ export function TabItem({
   onMoveItem,
   setEditingItemId,
   setEditingTitle,
-  extractDomain,
+  readOnly = false,
 }: TabItemProps) {
   const { t } = useTranslation('tabGroups')
   const isMobile = useIsMobile()
+  const currentUsername = useAuthStore((state) => state.user?.username)
 
   const {
     attributes,
@@ -67,6 +71,14 @@ export function TabItem({
 
   const isEditing = editingItemId === item.id
 
+  // 协作分组中由其他成员添加或修改的标签页，显示操作者
+  const attribution =
+    item.updated_by_username && item.updated_by_username !== currentUsername
+      ? t('item.editedBy', { username: item.updated_by_username })
+      : item.created_by_username && item.created_by_username !== currentUsername
+        ? t('item.addedBy', { username: item.created_by_username })
+        : null
+
   return (
     <div
       ref={setNodeRef}
@@ -82,7 +94,7 @@ export function TabItem({
       }`}
     >
       {/* Drag Handle */}
-      {!batchMode && (
+      {!batchMode && !readOnly && (
         <button
           {...attributes}
           {...listeners}
@@ -107,15 +119,15 @@ export function TabItem({
 
       {/* Favicon */}
       <img
-        src={item.favicon || `https://www.google.com/s2/favicons?domain=${extractDomain(item.url)}&sz=32`}
+        src={item.favicon && !item.favicon.includes('/favicons/') ? item.favicon : getFaviconUrl(item.url, 32)}
         alt=""
         className="w-5 h-5 flex-shrink-0"
         onError={(e) => {
           const target = e.currentTarget
-          const googleFaviconUrl = `https://www.google.com/s2/favicons?domain=${extractDomain(item.url)}&sz=32`
-          // 如果当前不是 Google Favicon API，先尝试它
-          if (!target.src.includes('google.com/s2/favicons')) {
-            target.src = googleFaviconUrl
+          const proxyFaviconUrl = getFaviconUrl(item.url, 32)
+          // 如果当前不是代理的站点图标，先尝试它
+          if (proxyFaviconUrl && !target.src.includes('/favicons/')) {
+            target.src = proxyFaviconUrl
           } else {
             // 最终回退到默认图标
             target.src = 'data:image/svg+xml,' + encodeURIComponent('<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="%236b7280" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><circle cx="12" cy="12" r="10"/><line x1="2" y1="12" x2="22" y2="12"/><path d="M12 2a15.3 15.3 0 0 1 4 10 15.3 15.3 0 0 1-4 10 15.3 15.3 0 0 1-4-10 15.3 15.3 0 0 1 4-10z"/></svg>')
@@ -159,13 +171,29 @@ export function TabItem({
                 <CheckSquare className="w-3 h-3 text-accent flex-shrink-0" />
               )}
             </div>
-            <p className="text-xs text-muted-foreground truncate">{item.url}</p>
+            <p className="text-xs text-muted-foreground truncate">
+              {item.url}
+              {attribution && <span className="ml-2 text-muted-foreground/70">· {attribution}</span>}
+            </p>
           </>
         )}
       </div>
 
+      {/* Read-only: only open link */}
+      {!batchMode && readOnly && (
+        <a
+          href={item.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className={`p-1.5 text-muted-foreground hover:bg-muted rounded transition-colors ${isMobile ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}
+          title={t('menu.openLink')}
+        >
+          <ExternalLink className="w-4 h-4" />
+        </a>
+      )}
+
       {/* Actions */}
-      {!batchMode && (
+      {!batchMode && !readOnly && (
         <div className={`flex items-center gap-1 ${isMobile ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'} transition-opacity`}>
           {isEditing ? (
             <>
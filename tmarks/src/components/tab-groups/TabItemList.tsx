@@ -24,6 +24,7 @@ interface TabItemListProps {
   setEditingItemId: (id: string | null) => void
   setEditingTitle: (title: string) => void
   extractDomain: (url: string) => string
+  readOnly?: boolean
 }
 
 export function TabItemList({
@@ -44,6 +45,7 @@ export function TabItemList({
   setEditingItemId,
   setEditingTitle,
   extractDomain,
+  readOnly,
 }: TabItemListProps) {
   const { t } = useTranslation('tabGroups')
   
@@ -85,7 +87,7 @@ export function TabItemList({
               onMoveItem={onMoveItem}
               setEditingItemId={setEditingItemId}
               setEditingTitle={setEditingTitle}
-              extractDomain={extractDomain}
+              readOnly={readOnly}
             />
           )
         })}
@@ -33,6 +33,7 @@ interface TreeNodeProps {
   overId: string | null
   dropPosition: 'before' | 'inside' | 'after' | null
   onOpenMoveDialog?: (group: TabGroup) => void
+  onOpenMembersDialog?: (group: TabGroup) => void
 }
 
 export function TreeNode({
@@ -54,6 +55,7 @@ export function TreeNode({
   overId,
   dropPosition,
   onOpenMoveDialog,
+  onOpenMembersDialog,
 }: TreeNodeProps) {
   const { t } = useTranslation('tabGroups')
   const isSelected = selectedGroupId === group.id
@@ -120,7 +122,8 @@ export function TreeNode({
       setEditingGroupId(groupId)
       setEditingTitle(title)
     },
-    onOpenMoveDialog
+    onOpenMoveDialog,
+    onOpenMembersDialog
   })
 
   const menuItems = buildTreeNodeMenu({
@@ -294,6 +297,7 @@ export function TreeNode({
               overId={overId}
               dropPosition={dropPosition}
               onOpenMoveDialog={onOpenMoveDialog}
+              onOpenMembersDialog={onOpenMembersDialog}
             />
           ))}
         </div>
@@ -7,7 +7,8 @@ import {
   Trash2,
   Move,
   Lock,
-  Pin
+  Pin,
+  Users
 } from 'lucide-react'
 import type { MenuItem } from '@/components/common/DropdownMenu'
 import type { TabGroup } from '@/lib/types'
@@ -58,6 +59,11 @@ export function buildTreeNodeMenu({
       onClick: () => menuActions.onShare(group),
       disabled: isFolder
     },
+    {
+      label: t('members.title'),
+      icon: <Users className="w-4 h-4" />,
+      onClick: () => menuActions.onManageMembers(group)
+    },
     {
       label: t('menu.copyToClipboard'),
       icon: <Copy className="w-4 h-4" />,
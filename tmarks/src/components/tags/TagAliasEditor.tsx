@@ -0,0 +1,108 @@
+/**
+ * 标签别名编辑 - 别名在创建/关联标签时映射到当前标签
+ */
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useAddTagAlias, useDeleteTagAlias, useTagAliases } from '@/hooks/useTags'
+import { ApiError } from '@/lib/api-client'
+import { logger } from '@/lib/logger'
+
+interface TagAliasEditorProps {
+  tagId: string
+}
+
+export function TagAliasEditor({ tagId }: TagAliasEditorProps) {
+  const { t } = useTranslation('tags')
+  const [alias, setAlias] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  const { data: aliases = [], isLoading } = useTagAliases(tagId)
+  const addAlias = useAddTagAlias()
+  const deleteAlias = useDeleteTagAlias()
+
+  const handleAdd = async () => {
+    const value = alias.trim()
+    if (!value) return
+
+    setError(null)
+    try {
+      await addAlias.mutateAsync({ tagId, alias: value })
+      setAlias('')
+    } catch (err) {
+      logger.error('Failed to add tag alias:', err)
+      if (err instanceof ApiError && err.code === 'TAG_NAME_EXISTS') {
+        setError(t('alias.tagExists'))
+      } else if (err instanceof ApiError && err.code === 'ALIAS_EXISTS') {
+        setError(t('alias.aliasExists'))
+      } else {
+        setError(t('alias.addFailed'))
+      }
+    }
+  }
+
+  const handleDelete = async (aliasId: string) => {
+    try {
+      await deleteAlias.mutateAsync({ tagId, aliasId })
+    } catch (err) {
+      logger.error('Failed to delete tag alias:', err)
+    }
+  }
+
+  return (
+    <div className="space-y-1.5">
+      <label className="text-xs font-medium text-muted-foreground">{t('alias.label')}</label>
+      <p className="text-xs text-muted-foreground/70">{t('alias.hint')}</p>
+
+      {!isLoading && aliases.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {aliases.map((item) => (
+            <span
+              key={item.id}
+              className="inline-flex items-center gap-1 px-2 py-0.5 rounded-md bg-muted text-xs text-foreground"
+            >
+              {item.alias}
+              <button
+                type="button"
+                className="text-muted-foreground hover:text-error"
+                onClick={() => handleDelete(item.id)}
+                disabled={deleteAlias.isPending}
+                title={t('alias.remove')}
+              >
+                <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2.5}>
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          className="input flex-1 text-sm"
+          value={alias}
+          onChange={(e) => setAlias(e.target.value)}
+          placeholder={t('alias.placeholder')}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault()
+              e.stopPropagation()
+              if (!addAlias.isPending) handleAdd()
+            }
+          }}
+        />
+        <button
+          type="button"
+          className="btn btn-sm btn-outline"
+          onClick={handleAdd}
+          disabled={!alias.trim() || addAlias.isPending}
+        >
+          {t('alias.add')}
+        </button>
+      </div>
+
+      {error && <p className="text-xs text-error">{error}</p>}
+    </div>
+  )
+}
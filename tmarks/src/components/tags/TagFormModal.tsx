@@ -1,41 +1,59 @@
-import { useEffect, useState } from 'react'
+import { useEffect, useState, type ReactNode } from 'react'
 import { useTranslation } from 'react-i18next'
 import { Z_INDEX } from '@/lib/constants/z-index'
 
+interface TagParentOption {
+  id: string
+  label: string
+}
+
 interface TagFormModalProps {
   isOpen: boolean
   title: string
   initialName: string
-  onConfirm: (name: string) => void
+  /** 可选的父标签，未提供时不显示父标签选择 */
+  parentOptions?: TagParentOption[]
+  initialParentId?: string | null
+  onConfirm: (name: string, parentId: string | null) => void
   onCancel: () => void
   confirmLabel?: string
   isSubmitting?: boolean
   onDelete?: () => void
   isDeleting?: boolean
+  /** 提供时显示“合并到…”按钮 */
+  onMerge?: () => void
+  /** 表单下方的附加内容（如别名编辑） */
+  children?: ReactNode
 }
 
 export function TagFormModal({
   isOpen,
   title,
   initialName,
+  parentOptions,
+  initialParentId = null,
   onConfirm,
   onCancel,
   confirmLabel,
   isSubmitting = false,
   onDelete,
   isDeleting = false,
+  onMerge,
+  children,
 }: TagFormModalProps) {
   const { t } = useTranslation('tags')
   const { t: tc } = useTranslation('common')
   const [name, setName] = useState(initialName)
+  const [parentId, setParentId] = useState<string | null>(initialParentId)
 
   const displayConfirmLabel = confirmLabel ?? t('action.save')
 
   useEffect(() => {
     if (isOpen) {
       setName(initialName)
+      setParentId(initialParentId)
     }
-  }, [initialName, isOpen])
+  }, [initialName, initialParentId, isOpen])
 
   if (!isOpen) return null
 
@@ -57,23 +75,54 @@ export function TagFormModal({
             placeholder={t('form.namePlaceholder')}
             autoFocus
             onKeyDown={(e) => {
-              if (e.key === 'Enter' && !isSubmitting) onConfirm(name.trim())
+              if (e.key === 'Enter' && !isSubmitting) onConfirm(name.trim(), parentId)
               if (e.key === 'Escape') onCancel()
             }}
           />
         </div>
+        {parentOptions && (
+          <div className="space-y-1.5">
+            <label className="text-xs font-medium text-muted-foreground">{t('form.parentLabel')}</label>
+            <select
+              className="input w-full"
+              value={parentId ?? ''}
+              onChange={(e) => setParentId(e.target.value || null)}
+            >
+              <option value="">{t('form.noParent')}</option>
+              {parentOptions.map((option) => (
+                <option key={option.id} value={option.id}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {children}
 
         <div className="flex items-center justify-between gap-3">
-          {onDelete ? (
-            <button
-              type="button"
-              className="btn btn-sm btn-error"
-              onClick={onDelete}
-              disabled={isSubmitting || isDeleting}
-            >
-              {isDeleting ? t('action.deleting') : t('action.delete')}
-            </button>
-          ) : <span />}
+          <div className="flex gap-2">
+            {onDelete && (
+              <button
+                type="button"
+                className="btn btn-sm btn-error"
+                onClick={onDelete}
+                disabled={isSubmitting || isDeleting}
+              >
+                {isDeleting ? t('action.deleting') : t('action.delete')}
+              </button>
+            )}
+            {onMerge && (
+              <button
+                type="button"
+                className="btn btn-sm btn-outline"
+                onClick={onMerge}
+                disabled={isSubmitting || isDeleting}
+              >
+                {t('action.merge')}
+              </button>
+            )}
+          </div>
           <div className="flex gap-3">
             <button
               type="button"
@@ -86,7 +135,7 @@ export function TagFormModal({
             <button
               type="button"
               className="btn btn-sm"
-              onClick={() => onConfirm(name.trim())}
+              onClick={() => onConfirm(name.trim(), parentId)}
               disabled={!name.trim() || isSubmitting || isDeleting}
             >
               {isSubmitting ? t('action.saving') : displayConfirmLabel}
@@ -6,16 +6,41 @@ import type { Tag } from '@/lib/types'
 interface TagItemProps {
   tag: Tag
   isSelected: boolean
+  isExcluded?: boolean
   isRelated: boolean
   hasSelection: boolean
   layout: 'grid' | 'masonry'
   onToggle: () => void
+  /** Shift+点击时触发，未提供时 Shift+点击等同普通点击 */
+  onExclude?: () => void
+  title?: string
+  /** 树形展示时的层级深度，未提供时按平铺方式展示 */
+  depth?: number
+  hasChildren?: boolean
+  isExpanded?: boolean
+  onToggleExpand?: () => void
 }
 
-export function TagItem({ tag, isSelected, isRelated, hasSelection, layout, onToggle }: TagItemProps) {
+export function TagItem({
+  tag,
+  isSelected,
+  isExcluded = false,
+  isRelated,
+  hasSelection,
+  layout,
+  onToggle,
+  onExclude,
+  title,
+  depth,
+  hasChildren = false,
+  isExpanded = false,
+  onToggleExpand,
+}: TagItemProps) {
   const stateClasses = isSelected
     ? 'border border-transparent bg-primary text-primary-content shadow-inner ring-1 ring-primary/40'
-    : isRelated
+    : isExcluded
+      ? 'border border-error/40 bg-error/10 text-error ring-1 ring-transparent'
+      : isRelated
       ? 'border border-transparent bg-accent/5 text-accent'
       : hasSelection
         ? 'border border-transparent bg-base-200/80 text-muted-foreground opacity-70 ring-1 ring-transparent'
@@ -23,13 +48,17 @@ export function TagItem({ tag, isSelected, isRelated, hasSelection, layout, onTo
 
   const indicatorClasses = isSelected
     ? 'bg-primary-content/20 border-2 border-primary-content'
-    : isRelated
+    : isExcluded
+      ? 'bg-error/20 border-2 border-error'
+      : isRelated
       ? 'bg-accent/20 border-2 border-accent'
       : 'bg-transparent border-2 border-border'
 
   const countClasses = isSelected
     ? 'bg-primary-content/25 text-primary-content'
-    : isRelated
+    : isExcluded
+      ? 'bg-error/20 text-error'
+      : isRelated
       ? 'bg-accent/20 text-accent'
       : hasSelection
         ? 'bg-base-300 text-muted-foreground'
@@ -46,8 +75,16 @@ export function TagItem({ tag, isSelected, isRelated, hasSelection, layout, onTo
 
   return (
     <div
-      className={`relative overflow-hidden rounded-lg cursor-pointer transition-all ${stateClasses}`}
-      onClick={onToggle}
+      className={`relative overflow-hidden rounded-lg cursor-pointer select-none transition-all ${stateClasses}`}
+      onClick={(event) => {
+        if (event.shiftKey && onExclude) {
+          onExclude()
+        } else {
+          onToggle()
+        }
+      }}
+      title={title}
+      style={depth ? { marginLeft: depth * 16 } : undefined}
     >
       {showMarquee && (
         <div className="pointer-events-none absolute inset-0 z-0 rounded-lg overflow-hidden">
@@ -87,15 +124,43 @@ export function TagItem({ tag, isSelected, isRelated, hasSelection, layout, onTo
       )}
       <div className={`relative z-10 ${layoutClasses}`}>
         <div className={`flex items-center gap-2 ${layout === 'masonry' ? '' : 'flex-1 min-w-0'}`}>
+          {depth !== undefined && (
+            hasChildren ? (
+              <button
+                type="button"
+                className="w-3.5 h-3.5 flex-shrink-0 flex items-center justify-center opacity-70 hover:opacity-100"
+                onClick={(event) => {
+                  event.stopPropagation()
+                  onToggleExpand?.()
+                }}
+              >
+                <svg
+                  className={`w-3 h-3 transition-transform ${isExpanded ? 'rotate-90' : ''}`}
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M9 5l7 7-7 7" />
+                </svg>
+              </button>
+            ) : (
+              <span className="w-3.5 flex-shrink-0" />
+            )
+          )}
           <div className={`w-3.5 h-3.5 rounded flex-shrink-0 flex items-center justify-center ${indicatorClasses}`}>
             {isSelected && (
               <svg className="w-2 h-2 text-primary-content" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3.5} d="M5 13l4 4L19 7" />
               </svg>
             )}
+            {isExcluded && (
+              <svg className="w-2 h-2 text-error" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3.5} d="M5 12h14" />
+              </svg>
+            )}
           </div>
 
-          <span className={`text-xs ${layout === 'masonry' ? 'whitespace-nowrap' : 'truncate flex-1'} ${isSelected ? 'font-semibold' : 'font-medium'}`}>
+          <span className={`text-xs ${layout === 'masonry' ? 'whitespace-nowrap' : 'truncate flex-1'} ${isSelected ? 'font-semibold' : 'font-medium'} ${isExcluded ? 'line-through' : ''}`}>
             {tag.name}
           </span>
 
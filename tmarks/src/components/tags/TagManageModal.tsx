@@ -5,8 +5,11 @@ import { useDeleteTag, useUpdateTag } from '@/hooks/useTags'
 import { ConfirmDialog } from '@/components/common/ConfirmDialog'
 import { AlertDialog } from '@/components/common/AlertDialog'
 import { TagFormModal } from './TagFormModal'
+import { TagMergeModal } from './TagMergeModal'
+import { TagAliasEditor } from './TagAliasEditor'
 import { logger } from '@/lib/logger'
 import { Z_INDEX } from '@/lib/constants/z-index'
+import { flattenTagTree, getDescendantIds, getTagPath, hasTagHierarchy } from '@/lib/tag-tree'
 
 interface TagManageModalProps {
   tags: Tag[]
@@ -25,6 +28,7 @@ export function TagManageModal({ tags, onClose }: TagManageModalProps) {
   const [showErrorAlert, setShowErrorAlert] = useState(false)
   const [errorMessage, setErrorMessage] = useState('')
   const [isEditModalOpen, setIsEditModalOpen] = useState(false)
+  const [mergingTag, setMergingTag] = useState<Tag | null>(null)
 
   const deleteTag = useDeleteTag()
   const updateTag = useUpdateTag()
@@ -33,21 +37,45 @@ export function TagManageModal({ tags, onClose }: TagManageModalProps) {
     return [...tags].sort((a, b) => (b.bookmark_count || 0) - (a.bookmark_count || 0))
   }, [tags])
 
+  const tagsById = useMemo(() => new Map(tags.map((tag) => [tag.id, tag])), [tags])
+  const isTreeView = useMemo(() => hasTagHierarchy(tags), [tags])
+
+  // 树形展示时按层级展开，同级仍按书签数排序
+  const tagRows = useMemo(() => {
+    if (!isTreeView) {
+      return sortedTags.map((tag) => ({ tag, depth: 0 }))
+    }
+    return flattenTagTree(sortedTags)
+  }, [isTreeView, sortedTags])
+
+  // 父标签候选：排除自身及其子孙，避免形成环
+  const parentOptions = useMemo(() => {
+    if (!editingTag) return []
+    const excluded = getDescendantIds(tags, editingTag.id)
+    excluded.add(editingTag.id)
+    return tags
+      .filter((tag) => !excluded.has(tag.id))
+      .map((tag) => ({ id: tag.id, label: getTagPath(tag, tagsById) }))
+      .sort((a, b) => a.label.localeCompare(b.label))
+  }, [editingTag, tags, tagsById])
+
   const handleEditClick = (tag: Tag) => {
     setEditingTag(tag)
     setEditName(tag.name)
     setIsEditModalOpen(true)
   }
 
-  const handleSaveEdit = async (value?: string) => {
+  const handleSaveEdit = async (value?: string, parentId?: string | null) => {
     if (!editingTag) return
     const nextName = value?.trim() ?? editName.trim()
     if (!nextName) return
 
+    const parentChanged = parentId !== undefined && parentId !== (editingTag.parent_id ?? null)
+
     try {
       await updateTag.mutateAsync({
         id: editingTag.id,
-        data: { name: nextName },
+        data: parentChanged ? { name: nextName, parent_id: parentId } : { name: nextName },
       })
       setEditingTag(null)
       setEditName('')
@@ -67,6 +95,26 @@ export function TagManageModal({ tags, onClose }: TagManageModalProps) {
     setIsEditModalOpen(false)
   }
 
+  const handleMergeClick = () => {
+    if (!editingTag) return
+    setMergingTag(editingTag)
+    setIsEditModalOpen(false)
+  }
+
+  const handleMerged = (target: Tag) => {
+    const sourceName = mergingTag?.name ?? ''
+    setMergingTag(null)
+    setEditingTag(null)
+    setEditName('')
+    setSuccessMessage(t('message.mergeSuccess', { source: sourceName, target: target.name }))
+    setShowSuccessAlert(true)
+  }
+
+  const handleCancelMerge = () => {
+    setMergingTag(null)
+    setIsEditModalOpen(Boolean(editingTag))
+  }
+
   const openDeleteConfirm = (tag: Tag) => {
     setTagToDelete(tag)
     setShowDeleteConfirm(true)
@@ -134,12 +182,12 @@ export function TagManageModal({ tags, onClose }: TagManageModalProps) {
               <p className="text-xs text-muted-foreground/50">{t('manage.noTagsHint')}</p>
             </div>
           ) : (
-            <div className="columns-1 sm:columns-2 lg:columns-3 gap-2.5 space-y-2.5">
-              {sortedTags.map((tag, index) => (
+            <div className={isTreeView ? 'space-y-2.5' : 'columns-1 sm:columns-2 lg:columns-3 gap-2.5 space-y-2.5'}>
+              {tagRows.map(({ tag, depth }, index) => (
                 <div
                   key={tag.id}
                   className="break-inside-avoid cursor-pointer group"
-                  style={{ animationDelay: `${index * 30}ms` }}
+                  style={{ animationDelay: `${index * 30}ms`, marginLeft: depth ? depth * 24 : undefined }}
                   onClick={() => handleEditClick(tag)}
                 >
                   <div className="relative rounded-xl border border-border bg-card/95 shadow-sm hover:shadow-md hover:shadow-primary/10 transition-all duration-200 hover:-translate-y-0.5">
@@ -158,6 +206,9 @@ export function TagManageModal({ tags, onClose }: TagManageModalProps) {
                     <div className="p-3.5 space-y-2">
                       <div className="space-y-0.5">
                         <h3 className="text-base font-semibold text-foreground truncate">{tag.name}</h3>
+                        {depth > 0 && (
+                          <p className="text-xs text-muted-foreground/60 truncate">{getTagPath(tag, tagsById)}</p>
+                        )}
                         {tag.bookmark_count !== undefined && (
                           <p className="text-xs text-muted-foreground/70">
                             {tag.bookmark_count === 0 
@@ -213,7 +264,9 @@ export function TagManageModal({ tags, onClose }: TagManageModalProps) {
         isOpen={isEditModalOpen && Boolean(editingTag)}
         title={t('action.edit')}
         initialName={editingTag?.name ?? ''}
-        onConfirm={(value) => handleSaveEdit(value)}
+        parentOptions={parentOptions}
+        initialParentId={editingTag?.parent_id ?? null}
+        onConfirm={(value, parentId) => handleSaveEdit(value, parentId)}
         onCancel={handleCancelEdit}
         confirmLabel={t('action.save')}
         isSubmitting={updateTag.isPending}
@@ -223,6 +276,17 @@ export function TagManageModal({ tags, onClose }: TagManageModalProps) {
           }
         }}
         isDeleting={deleteTag.isPending}
+        onMerge={tags.length > 1 ? handleMergeClick : undefined}
+      >
+        {editingTag && <TagAliasEditor tagId={editingTag.id} />}
+      </TagFormModal>
+
+      <TagMergeModal
+        isOpen={Boolean(mergingTag)}
+        source={mergingTag}
+        tags={tags}
+        onMerged={handleMerged}
+        onCancel={handleCancelMerge}
       />
     </div>
   )
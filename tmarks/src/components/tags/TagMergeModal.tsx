@@ -0,0 +1,152 @@
+/**
+ * 标签合并弹窗 - 选择目标标签并预览受影响的书签数
+ */
+import { useEffect, useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import type { Tag, TagMergePreview } from '@/lib/types'
+import { useMergeTag } from '@/hooks/useTags'
+import { tagsService } from '@/services/tags'
+import { getTagPath } from '@/lib/tag-tree'
+import { logger } from '@/lib/logger'
+import { Z_INDEX } from '@/lib/constants/z-index'
+
+interface TagMergeModalProps {
+  isOpen: boolean
+  source: Tag | null
+  tags: Tag[]
+  onMerged: (target: Tag) => void
+  onCancel: () => void
+}
+
+export function TagMergeModal({ isOpen, source, tags, onMerged, onCancel }: TagMergeModalProps) {
+  const { t } = useTranslation('tags')
+  const { t: tc } = useTranslation('common')
+  const [targetId, setTargetId] = useState('')
+  const [preview, setPreview] = useState<TagMergePreview | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const mergeTag = useMergeTag()
+
+  const targetOptions = useMemo(() => {
+    const tagsById = new Map(tags.map((tag) => [tag.id, tag]))
+    return tags
+      .filter((tag) => tag.id !== source?.id)
+      .map((tag) => ({ id: tag.id, label: getTagPath(tag, tagsById) }))
+      .sort((a, b) => a.label.localeCompare(b.label))
+  }, [tags, source?.id])
+
+  useEffect(() => {
+    if (isOpen) {
+      setTargetId('')
+      setPreview(null)
+      setError(null)
+    }
+  }, [isOpen, source?.id])
+
+  // 选择目标后请求影响预览
+  useEffect(() => {
+    if (!source || !targetId) {
+      setPreview(null)
+      return
+    }
+
+    let cancelled = false
+    tagsService
+      .mergeTag(source.id, { target_id: targetId, dry_run: true })
+      .then((result) => {
+        if (!cancelled) setPreview(result.preview)
+      })
+      .catch((err) => {
+        logger.error('Failed to preview tag merge:', err)
+        if (!cancelled) setPreview(null)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [source, targetId])
+
+  if (!isOpen || !source) return null
+
+  const targetName = targetOptions.find((option) => option.id === targetId)?.label ?? ''
+
+  const handleMerge = async () => {
+    if (!targetId) return
+    setError(null)
+    try {
+      const result = await mergeTag.mutateAsync({ id: source.id, data: { target_id: targetId } })
+      onMerged(result.tag)
+    } catch (err) {
+      logger.error('Failed to merge tags:', err)
+      setError(t('merge.failed'))
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center p-4" style={{ zIndex: Z_INDEX.TAG_FORM_MODAL }}>
+      <div className="absolute inset-0 bg-background/80 backdrop-blur-sm" onClick={onCancel} />
+      <div className="relative w-full max-w-sm card p-5 space-y-4 animate-scale-in border border-border shadow-2xl rounded-xl" style={{ backgroundColor: 'var(--card)' }}>
+        <div>
+          <h3 className="text-base font-semibold mb-1">{t('merge.title', { name: source.name })}</h3>
+          <p className="text-xs text-muted-foreground">{t('merge.hint')}</p>
+        </div>
+
+        <div className="space-y-1.5">
+          <label className="text-xs font-medium text-muted-foreground">{t('merge.targetLabel')}</label>
+          <select
+            className="input w-full"
+            value={targetId}
+            onChange={(e) => setTargetId(e.target.value)}
+          >
+            <option value="">{t('merge.selectTarget')}</option>
+            {targetOptions.map((option) => (
+              <option key={option.id} value={option.id}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {targetId && (
+          <div className="rounded-lg bg-muted/50 p-3 text-xs text-muted-foreground space-y-1">
+            {preview ? (
+              <>
+                <p>{t('merge.previewMoved', { count: preview.source_bookmarks, target: targetName })}</p>
+                {preview.overlapping_bookmarks > 0 && (
+                  <p>{t('merge.previewOverlap', { count: preview.overlapping_bookmarks })}</p>
+                )}
+                <p className="font-medium text-foreground">
+                  {t('merge.previewResult', { count: preview.resulting_bookmarks, target: targetName })}
+                </p>
+                <p>{t('merge.previewAlias', { name: source.name })}</p>
+              </>
+            ) : (
+              <p>{t('status.loading')}</p>
+            )}
+          </div>
+        )}
+
+        {error && <p className="text-xs text-error">{error}</p>}
+
+        <div className="flex justify-end gap-3">
+          <button
+            type="button"
+            className="btn btn-sm btn-outline"
+            onClick={onCancel}
+            disabled={mergeTag.isPending}
+          >
+            {tc('button.cancel')}
+          </button>
+          <button
+            type="button"
+            className="btn btn-sm"
+            onClick={handleMerge}
+            disabled={!targetId || !preview || mergeTag.isPending}
+          >
+            {mergeTag.isPending ? t('merge.merging') : t('merge.confirm')}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -2,15 +2,26 @@ import { useState, useMemo } from 'react'
 import { useTranslation } from 'react-i18next'
 import { useTags, useCreateTag } from '@/hooks/useTags'
 import { tagsService } from '@/services/tags'
-import type { Bookmark, Tag } from '@/lib/types'
+import type { Bookmark, CollectionFilters, SmartCollection, Tag } from '@/lib/types'
 import { TagManageModal } from './TagManageModal'
 import { TagItem } from './TagItem'
+import { SmartCollectionList } from '@/components/collections/SmartCollectionList'
 import { useTagFiltering } from './useTagFiltering'
 import { logger } from '@/lib/logger'
+import { flattenTagTree, hasTagHierarchy } from '@/lib/tag-tree'
 
 interface TagSidebarProps {
   selectedTags: string[]
   onTagsChange: (tags: string[]) => void
+  /** 排除的标签（Shift+点击），未提供 onExcludedTagsChange 时不启用 */
+  excludedTags?: string[]
+  onExcludedTagsChange?: (tags: string[]) => void
+  /** 多标签匹配方式，未提供 onTagModeChange 时不显示切换按钮 */
+  tagMode?: 'all' | 'any'
+  onTagModeChange?: (mode: 'all' | 'any') => void
+  /** 选中父标签时是否同时匹配子孙标签，未提供 onIncludeDescendantsChange 时不显示切换按钮 */
+  includeDescendants?: boolean
+  onIncludeDescendantsChange?: (include: boolean) => void
   isLoadingBookmarks?: boolean
   bookmarks: Bookmark[]
   tagLayout: 'grid' | 'masonry'
@@ -20,11 +31,21 @@ interface TagSidebarProps {
   tagSortBy?: 'usage' | 'name' | 'clicks'
   onTagSortChange?: (sortBy: 'usage' | 'name' | 'clicks') => void
   searchQuery?: string
+  /** 智能集合，未提供 onCollectionSelect 时不显示 */
+  activeCollectionId?: string | null
+  onCollectionSelect?: (collection: SmartCollection | null) => void
+  currentFilters?: CollectionFilters
 }
 
 export function TagSidebar({
   selectedTags,
   onTagsChange,
+  excludedTags = [],
+  onExcludedTagsChange,
+  tagMode = 'all',
+  onTagModeChange,
+  includeDescendants = false,
+  onIncludeDescendantsChange,
   bookmarks,
   tagLayout,
   onTagLayoutChange,
@@ -33,12 +54,16 @@ export function TagSidebar({
   tagSortBy: externalTagSortBy,
   onTagSortChange,
   searchQuery: externalSearchQuery = '',
+  activeCollectionId = null,
+  onCollectionSelect,
+  currentFilters = {},
 }: TagSidebarProps) {
   const { t } = useTranslation('tags')
   const [showCreateForm, setShowCreateForm] = useState(false)
   const [showManageModal, setShowManageModal] = useState(false)
   const [newTagName, setNewTagName] = useState('')
   const [internalSortBy, setInternalSortBy] = useState<'usage' | 'name' | 'clicks'>('usage')
+  const [collapsedTagIds, setCollapsedTagIds] = useState<Set<string>>(new Set())
 
   const sortBy = externalTagSortBy !== undefined ? externalTagSortBy : internalSortBy
   const setSortBy = onTagSortChange || setInternalSortBy
@@ -53,15 +78,39 @@ export function TagSidebar({
     tags,
     bookmarks,
     selectedTags,
-    externalSearchQuery
+    externalSearchQuery,
+    tagMode,
+    excludedTags
   )
 
+  // 存在父子标签且未搜索时按树形展示
+  const isTreeView = !externalSearchQuery && hasTagHierarchy(tags)
+  const treeRows = useMemo(
+    () => (isTreeView ? flattenTagTree(tags, collapsedTagIds) : []),
+    [isTreeView, tags, collapsedTagIds]
+  )
+
+  const handleToggleExpand = (tagId: string) => {
+    setCollapsedTagIds((prev) => {
+      const next = new Set(prev)
+      if (next.has(tagId)) {
+        next.delete(tagId)
+      } else {
+        next.add(tagId)
+      }
+      return next
+    })
+  }
+
   const handleToggleTag = async (tagId: string) => {
     let newSelectedTags: string[]
     if (selectedTags.includes(tagId)) {
       newSelectedTags = selectedTags.filter((id) => id !== tagId)
     } else {
       newSelectedTags = [...selectedTags, tagId]
+      if (excludedTags.includes(tagId)) {
+        onExcludedTagsChange?.(excludedTags.filter((id) => id !== tagId))
+      }
       if (!readOnly) {
         try {
           await tagsService.incrementClick(tagId)
@@ -73,6 +122,18 @@ export function TagSidebar({
     onTagsChange(newSelectedTags)
   }
 
+  const handleExcludeTag = (tagId: string) => {
+    if (!onExcludedTagsChange) return
+    if (excludedTags.includes(tagId)) {
+      onExcludedTagsChange(excludedTags.filter((id) => id !== tagId))
+      return
+    }
+    if (selectedTags.includes(tagId)) {
+      onTagsChange(selectedTags.filter((id) => id !== tagId))
+    }
+    onExcludedTagsChange([...excludedTags, tagId])
+  }
+
   const handleCreateTag = async (e: React.FormEvent) => {
     e.preventDefault()
     if (readOnly) return
@@ -153,6 +214,32 @@ export function TagSidebar({
             )}
           </button>
 
+          {/* 匹配方式切换 */}
+          {onTagModeChange && (
+            <button
+              onClick={() => onTagModeChange(tagMode === 'all' ? 'any' : 'all')}
+              className={`btn btn-sm p-2 flex-shrink-0 text-xs font-semibold ${tagMode === 'any' ? 'btn-ghost text-primary' : 'btn-ghost'}`}
+              title={tagMode === 'all' ? t('filter.matchAll') : t('filter.matchAny')}
+            >
+              {tagMode === 'all' ? 'AND' : 'OR'}
+            </button>
+          )}
+
+          {/* 子孙标签匹配切换 */}
+          {isTreeView && onIncludeDescendantsChange && (
+            <button
+              onClick={() => onIncludeDescendantsChange(!includeDescendants)}
+              className={`btn btn-sm btn-ghost p-2 flex-shrink-0 ${includeDescendants ? 'text-primary' : ''}`}
+              title={includeDescendants ? t('filter.includeDescendants') : t('filter.excludeDescendants')}
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M5 4v12a2 2 0 002 2h4M5 10h6" />
+                <rect x="13" y="7" width="6" height="6" rx="1" />
+                <rect x="13" y="15" width="6" height="6" rx="1" opacity={includeDescendants ? 1 : 0.4} />
+              </svg>
+            </button>
+          )}
+
           {/* 右侧按钮组 */}
           {!readOnly && (
             <>
@@ -205,6 +292,15 @@ export function TagSidebar({
           </form>
         )}
 
+        {/* 智能集合 */}
+        {!readOnly && onCollectionSelect && (
+          <SmartCollectionList
+            activeCollectionId={activeCollectionId}
+            onSelect={onCollectionSelect}
+            currentFilters={currentFilters}
+          />
+        )}
+
         {/* 标签列表 */}
         <div className="flex-1 overflow-y-auto scrollbar-hide p-1 min-h-0 overscroll-contain touch-auto">
           {isTagLoading && (
@@ -232,7 +328,32 @@ export function TagSidebar({
             </div>
           )}
 
-          {!isTagLoading && orderedTags.length > 0 && (
+          {!isTagLoading && orderedTags.length > 0 && isTreeView && (
+            <div className="flex flex-col gap-1.5">
+              {treeRows.map(({ tag, depth, hasChildren }) => (
+                <TagItem
+                  key={tag.id}
+                  tag={tag}
+                  isSelected={selectedTags.includes(tag.id)}
+                  isExcluded={excludedTags.includes(tag.id)}
+                  isRelated={relatedTagIds.has(tag.id)}
+                  hasSelection={selectedTags.length > 0}
+                  layout="grid"
+                  onToggle={() =>
+                    excludedTags.includes(tag.id) ? handleExcludeTag(tag.id) : handleToggleTag(tag.id)
+                  }
+                  onExclude={onExcludedTagsChange ? () => handleExcludeTag(tag.id) : undefined}
+                  title={onExcludedTagsChange ? t('filter.excludeHint') : undefined}
+                  depth={depth}
+                  hasChildren={hasChildren}
+                  isExpanded={!collapsedTagIds.has(tag.id)}
+                  onToggleExpand={() => handleToggleExpand(tag.id)}
+                />
+              ))}
+            </div>
+          )}
+
+          {!isTagLoading && orderedTags.length > 0 && !isTreeView && (
             <div
               className={`${tagLayout === 'masonry'
                 ? 'flex flex-wrap items-start gap-2 justify-between'
@@ -244,10 +365,15 @@ export function TagSidebar({
                   key={tag.id}
                   tag={tag}
                   isSelected={selectedTags.includes(tag.id)}
+                  isExcluded={excludedTags.includes(tag.id)}
                   isRelated={relatedTagIds.has(tag.id)}
                   hasSelection={selectedTags.length > 0}
                   layout={tagLayout}
-                  onToggle={() => handleToggleTag(tag.id)}
+                  onToggle={() =>
+                    excludedTags.includes(tag.id) ? handleExcludeTag(tag.id) : handleToggleTag(tag.id)
+                  }
+                  onExclude={onExcludedTagsChange ? () => handleExcludeTag(tag.id) : undefined}
+                  title={onExcludedTagsChange ? t('filter.excludeHint') : undefined}
                 />
               ))}
             </div>
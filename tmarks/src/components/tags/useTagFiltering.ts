@@ -8,7 +8,9 @@ export function useTagFiltering(
   tags: Tag[],
   bookmarks: Bookmark[],
   selectedTags: string[],
-  searchQuery: string
+  searchQuery: string,
+  tagMode: 'all' | 'any' = 'all',
+  excludedTags: string[] = []
 ) {
   // 计算标签共现关系
   const coOccurrenceMap = useMemo(() => {
@@ -46,14 +48,26 @@ export function useTagFiltering(
     return map
   }, [bookmarks])
 
-  // 计算相关标签
+  // 计算相关标签（all 模式需与所有选中标签共现，any 模式与任一选中标签共现即可）
   const relatedTagIds = useMemo(() => {
     if (selectedTags.length === 0) return new Set<string>()
 
+    if (tagMode === 'any') {
+      const related = new Set<string>()
+      for (const tagId of selectedTags) {
+        coOccurrenceMap.get(tagId)?.forEach((neighborId) => {
+          if (!selectedTags.includes(neighborId) && !excludedTags.includes(neighborId)) {
+            related.add(neighborId)
+          }
+        })
+      }
+      return related
+    }
+
     if (selectedTags.length === 1) {
       const neighbors = coOccurrenceMap.get(selectedTags[0]!)
       if (!neighbors) return new Set<string>()
-      return new Set([...neighbors].filter(id => !selectedTags.includes(id)))
+      return new Set([...neighbors].filter(id => !selectedTags.includes(id) && !excludedTags.includes(id)))
     }
 
     const firstTagNeighbors = coOccurrenceMap.get(selectedTags[0]!)
@@ -62,7 +76,7 @@ export function useTagFiltering(
     const related = new Set<string>()
 
     firstTagNeighbors.forEach((neighborId) => {
-      if (selectedTags.includes(neighborId)) return
+      if (selectedTags.includes(neighborId) || excludedTags.includes(neighborId)) return
 
       const isRelatedToAll = selectedTags.every((tagId) => {
         const neighbors = coOccurrenceMap.get(tagId)
@@ -75,7 +89,7 @@ export function useTagFiltering(
     })
 
     return related
-  }, [selectedTags, coOccurrenceMap])
+  }, [selectedTags, excludedTags, tagMode, coOccurrenceMap])
 
   // 搜索筛选
   const filteredTags = useMemo(() => {
@@ -85,15 +99,18 @@ export function useTagFiltering(
     return tags.filter((tag) => tag.name.toLowerCase().includes(query))
   }, [tags, searchQuery])
 
-  // 排序：已选中、相关、其他
+  // 排序：已选中、已排除、相关、其他
   const orderedTags = useMemo(() => {
     const selected: Tag[] = []
+    const excluded: Tag[] = []
     const related: Tag[] = []
     const others: Tag[] = []
 
     for (const tag of filteredTags) {
       if (selectedTags.includes(tag.id)) {
         selected.push(tag)
+      } else if (excludedTags.includes(tag.id)) {
+        excluded.push(tag)
       } else if (relatedTagIds.has(tag.id)) {
         related.push(tag)
       } else {
@@ -101,8 +118,8 @@ export function useTagFiltering(
       }
     }
 
-    return [...selected, ...related, ...others]
-  }, [filteredTags, selectedTags, relatedTagIds])
+    return [...selected, ...excluded, ...related, ...others]
+  }, [filteredTags, selectedTags, excludedTags, relatedTagIds])
 
   return { orderedTags, relatedTagIds }
 }
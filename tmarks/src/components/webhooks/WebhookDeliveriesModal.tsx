@@ -0,0 +1,154 @@
+/**
+ * Webhook 投递记录模态框
+ * 显示最近的投递结果，可查看请求内容、响应并重新投递
+ */
+
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { ChevronDown, ChevronRight, RotateCw } from 'lucide-react'
+import { useWebhookDeliveries, useRedeliverWebhook } from '@/hooks/useWebhooks'
+import { useToastStore } from '@/stores/toastStore'
+import type { Webhook, WebhookDelivery, WebhookDeliveryStatus } from '@/services/webhooks'
+import { Z_INDEX } from '@/lib/constants/z-index'
+
+interface WebhookDeliveriesModalProps {
+  webhook: Webhook
+  onClose: () => void
+}
+
+const STATUS_FILTERS: Array<WebhookDeliveryStatus | 'all'> = ['all', 'success', 'pending', 'failed']
+
+const STATUS_CLASS: Record<WebhookDeliveryStatus, string> = {
+  success: 'bg-success/20 text-success',
+  pending: 'bg-warning/20 text-warning',
+  failed: 'bg-error/20 text-error',
+}
+
+export function WebhookDeliveriesModal({ webhook, onClose }: WebhookDeliveriesModalProps) {
+  const { t, i18n } = useTranslation('settings')
+  const { addToast } = useToastStore()
+  const [statusFilter, setStatusFilter] = useState<WebhookDeliveryStatus | 'all'>('all')
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const { data: deliveries = [], isLoading } = useWebhookDeliveries(
+    webhook.id,
+    statusFilter === 'all' ? undefined : statusFilter
+  )
+  const redeliver = useRedeliverWebhook()
+
+  const handleRedeliver = async (delivery: WebhookDelivery) => {
+    try {
+      const result = await redeliver.mutateAsync({ id: webhook.id, deliveryId: delivery.id })
+      addToast(
+        result.status === 'success' ? 'success' : 'error',
+        result.status === 'success' ? t('webhooks.deliveries.redeliverSuccess') : t('webhooks.deliveries.redeliverFailed')
+      )
+    } catch {
+      addToast('error', t('webhooks.deliveries.redeliverFailed'))
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-background/80 backdrop-blur-sm flex items-center justify-center" style={{ zIndex: Z_INDEX.WEBHOOK_MODAL }}>
+      <div className="card rounded-2xl shadow-2xl max-w-3xl w-full mx-4 max-h-[90vh] overflow-y-auto" style={{ backgroundColor: 'var(--card)' }}>
+        <div className="p-6">
+          {/* 标题 */}
+          <div className="flex items-center justify-between gap-3 mb-4">
+            <div className="min-w-0">
+              <h2 className="text-xl font-bold text-foreground">{t('webhooks.deliveries.title')}</h2>
+              <p className="text-xs text-muted-foreground truncate">{webhook.url}</p>
+            </div>
+            <button className="btn btn-sm" onClick={onClose}>
+              {t('webhooks.deliveries.close')}
+            </button>
+          </div>
+
+          {/* 状态筛选 */}
+          <div className="flex gap-1 mb-4">
+            {STATUS_FILTERS.map((status) => (
+              <button
+                key={status}
+                className={`btn btn-sm ${statusFilter === status ? 'btn-primary' : ''}`}
+                onClick={() => setStatusFilter(status)}
+              >
+                {t(`webhooks.status.${status}`)}
+              </button>
+            ))}
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+            </div>
+          ) : deliveries.length === 0 ? (
+            <p className="text-center py-8 text-sm text-muted-foreground">{t('webhooks.deliveries.empty')}</p>
+          ) : (
+            <div className="space-y-2">
+              {deliveries.map((delivery) => {
+                const expanded = expandedId === delivery.id
+                return (
+                  <div key={delivery.id} className="rounded-lg border border-border">
+                    <div className="flex items-center gap-3 p-3 text-sm">
+                      <button
+                        className="p-0.5 hover:bg-muted rounded"
+                        onClick={() => setExpandedId(expanded ? null : delivery.id)}
+                      >
+                        {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                      </button>
+                      <span className={`text-xs px-1.5 py-0.5 rounded ${STATUS_CLASS[delivery.status]}`}>
+                        {t(`webhooks.status.${delivery.status}`)}
+                      </span>
+                      <code className="text-xs">{delivery.event}</code>
+                      <span className="flex-1 text-xs text-muted-foreground text-right">
+                        {delivery.response_status ?? '—'}
+                        {delivery.duration_ms !== null && ` · ${delivery.duration_ms} ms`}
+                        {' · '}
+                        {new Date(delivery.created_at).toLocaleString(i18n.language)}
+                      </span>
+                      <button
+                        className="p-1.5 hover:bg-muted rounded"
+                        title={t('webhooks.deliveries.redeliver')}
+                        disabled={redeliver.isPending}
+                        onClick={() => handleRedeliver(delivery)}
+                      >
+                        <RotateCw className="w-4 h-4" />
+                      </button>
+                    </div>
+
+                    {expanded && (
+                      <div className="border-t border-border p-3 space-y-3 text-xs">
+                        <div className="grid sm:grid-cols-2 gap-1 text-muted-foreground">
+                          <span>{t('webhooks.deliveries.attempts', { count: delivery.attempt_count })}</span>
+                          {delivery.next_attempt_at && delivery.status === 'pending' && (
+                            <span>
+                              {t('webhooks.deliveries.nextAttempt')}{' '}
+                              {new Date(delivery.next_attempt_at).toLocaleString(i18n.language)}
+                            </span>
+                          )}
+                        </div>
+                        {delivery.error && <p className="text-error">{delivery.error}</p>}
+                        <div>
+                          <div className="font-medium mb-1">{t('webhooks.deliveries.payload')}</div>
+                          <pre className="bg-muted rounded p-2 overflow-x-auto max-h-60">
+                            {JSON.stringify(delivery.payload, null, 2)}
+                          </pre>
+                        </div>
+                        {delivery.response_body && (
+                          <div>
+                            <div className="font-medium mb-1">{t('webhooks.deliveries.response')}</div>
+                            <pre className="bg-muted rounded p-2 overflow-x-auto max-h-40 whitespace-pre-wrap break-all">
+                              {delivery.response_body}
+                            </pre>
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,167 @@
+/**
+ * Webhook 创建/编辑模态框
+ * 创建成功后显示一次完整的签名密钥
+ */
+
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Copy, Check } from 'lucide-react'
+import { useCreateWebhook, useUpdateWebhook } from '@/hooks/useWebhooks'
+import { ApiError } from '@/lib/api-client'
+import type { Webhook } from '@/services/webhooks'
+import { Z_INDEX } from '@/lib/constants/z-index'
+
+interface WebhookFormModalProps {
+  webhook?: Webhook | null
+  events: string[]
+  onClose: () => void
+}
+
+export function WebhookFormModal({ webhook, events, onClose }: WebhookFormModalProps) {
+  const { t } = useTranslation('settings')
+  const createWebhook = useCreateWebhook()
+  const updateWebhook = useUpdateWebhook()
+  const isEdit = !!webhook
+
+  const [url, setUrl] = useState(webhook?.url ?? '')
+  const [description, setDescription] = useState(webhook?.description ?? '')
+  const [selectedEvents, setSelectedEvents] = useState<string[]>(webhook?.events ?? events)
+  const [error, setError] = useState<string | null>(null)
+  const [secret, setSecret] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+
+  const isSaving = createWebhook.isPending || updateWebhook.isPending
+  const canSave = url.trim().length > 0 && selectedEvents.length > 0 && !isSaving
+
+  const toggleEvent = (event: string) => {
+    setSelectedEvents((prev) =>
+      prev.includes(event) ? prev.filter((e) => e !== event) : [...prev, event]
+    )
+  }
+
+  const handleSave = async () => {
+    setError(null)
+    const data = { url: url.trim(), events: selectedEvents, description: description.trim() }
+    try {
+      if (webhook) {
+        await updateWebhook.mutateAsync({ id: webhook.id, data })
+        onClose()
+      } else {
+        const result = await createWebhook.mutateAsync(data)
+        setSecret(result.secret)
+      }
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : t('webhooks.form.saveFailed'))
+    }
+  }
+
+  const handleCopy = () => {
+    if (secret) {
+      navigator.clipboard.writeText(secret)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-background/80 backdrop-blur-sm flex items-center justify-center" style={{ zIndex: Z_INDEX.WEBHOOK_MODAL }}>
+      <div className="card rounded-2xl shadow-2xl max-w-xl w-full mx-4 max-h-[90vh] overflow-y-auto" style={{ backgroundColor: 'var(--card)' }}>
+        {secret ? (
+          <div className="p-6">
+            <h2 className="text-xl font-bold text-foreground mb-2">{t('webhooks.form.createdTitle')}</h2>
+            <p className="text-sm text-muted-foreground mb-4">{t('webhooks.form.secretHint')}</p>
+
+            <div className="flex items-center gap-2 p-3 bg-muted rounded-lg">
+              <code className="flex-1 text-xs font-mono break-all">{secret}</code>
+              <button className="btn btn-sm flex items-center gap-1" onClick={handleCopy}>
+                {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                {copied ? t('webhooks.form.copied') : t('webhooks.form.copy')}
+              </button>
+            </div>
+
+            <div className="flex justify-end mt-6">
+              <button className="btn btn-primary" onClick={onClose}>
+                {t('webhooks.form.done')}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="p-6">
+            <h2 className="text-xl font-bold text-foreground mb-4">
+              {isEdit ? t('webhooks.form.editTitle') : t('webhooks.form.createTitle')}
+            </h2>
+
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-foreground mb-2">
+                  {t('webhooks.form.url')}
+                </label>
+                <input
+                  type="url"
+                  className="input w-full"
+                  placeholder="https://example.com/webhooks/tmarks"
+                  value={url}
+                  onChange={(e) => setUrl(e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground mt-1">{t('webhooks.form.urlHint')}</p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-foreground mb-2">
+                  {t('webhooks.form.description')}
+                </label>
+                <input
+                  type="text"
+                  className="input w-full"
+                  maxLength={200}
+                  placeholder={t('webhooks.form.descriptionPlaceholder')}
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                />
+              </div>
+
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <label className="text-sm font-medium text-foreground">{t('webhooks.form.events')}</label>
+                  <button
+                    type="button"
+                    className="text-xs text-primary hover:underline"
+                    onClick={() => setSelectedEvents(selectedEvents.length === events.length ? [] : events)}
+                  >
+                    {selectedEvents.length === events.length
+                      ? t('webhooks.form.clearAll')
+                      : t('webhooks.form.selectAll')}
+                  </button>
+                </div>
+                <div className="grid sm:grid-cols-2 gap-2">
+                  {events.map((event) => (
+                    <label key={event} className="flex items-center gap-2 text-sm cursor-pointer">
+                      <input
+                        type="checkbox"
+                        className="checkbox checkbox-sm"
+                        checked={selectedEvents.includes(event)}
+                        onChange={() => toggleEvent(event)}
+                      />
+                      <code className="text-xs">{event}</code>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              {error && <p className="text-sm text-error">{error}</p>}
+            </div>
+
+            <div className="flex justify-between mt-6">
+              <button className="btn" onClick={onClose}>
+                {t('webhooks.form.cancel')}
+              </button>
+              <button className="btn btn-primary" onClick={handleSave} disabled={!canSave}>
+                {isSaving ? t('webhooks.form.saving') : t('webhooks.form.save')}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
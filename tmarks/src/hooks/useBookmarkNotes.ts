@@ -0,0 +1,73 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { bookmarksService } from '@/services/bookmarks'
+import { BOOKMARKS_QUERY_KEY } from '@/hooks/useBookmarks'
+import type { CreateBookmarkNoteRequest, UpdateBookmarkNoteRequest } from '@/lib/types'
+
+export const BOOKMARK_NOTES_QUERY_KEY = 'bookmark-notes'
+
+/**
+ * 获取书签的笔记和高亮摘录
+ */
+export function useBookmarkNotes(bookmarkId: string, options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: [BOOKMARK_NOTES_QUERY_KEY, bookmarkId],
+    queryFn: () => bookmarksService.getNotes(bookmarkId),
+    staleTime: 5 * 60 * 1000, // 5分钟
+    enabled: options?.enabled ?? true,
+  })
+}
+
+/**
+ * 笔记增删改后刷新笔记列表和书签列表（笔记数量）
+ */
+function useInvalidateNotes(bookmarkId: string) {
+  const queryClient = useQueryClient()
+
+  return async (options?: { includeBookmarks?: boolean }) => {
+    try {
+      await queryClient.invalidateQueries({ queryKey: [BOOKMARK_NOTES_QUERY_KEY, bookmarkId] })
+      if (options?.includeBookmarks) {
+        await queryClient.invalidateQueries({ queryKey: [BOOKMARKS_QUERY_KEY] })
+      }
+    } catch (error) {
+      console.error('Failed to invalidate queries:', error)
+    }
+  }
+}
+
+/**
+ * 添加笔记
+ */
+export function useCreateBookmarkNote(bookmarkId: string) {
+  const invalidate = useInvalidateNotes(bookmarkId)
+
+  return useMutation({
+    mutationFn: (data: CreateBookmarkNoteRequest) => bookmarksService.createNote(bookmarkId, data),
+    onSuccess: () => invalidate({ includeBookmarks: true }),
+  })
+}
+
+/**
+ * 编辑笔记
+ */
+export function useUpdateBookmarkNote(bookmarkId: string) {
+  const invalidate = useInvalidateNotes(bookmarkId)
+
+  return useMutation({
+    mutationFn: ({ noteId, data }: { noteId: string; data: UpdateBookmarkNoteRequest }) =>
+      bookmarksService.updateNote(bookmarkId, noteId, data),
+    onSuccess: () => invalidate(),
+  })
+}
+
+/**
+ * 删除笔记
+ */
+export function useDeleteBookmarkNote(bookmarkId: string) {
+  const invalidate = useInvalidateNotes(bookmarkId)
+
+  return useMutation({
+    mutationFn: (noteId: string) => bookmarksService.deleteNote(bookmarkId, noteId),
+    onSuccess: () => invalidate({ includeBookmarks: true }),
+  })
+}
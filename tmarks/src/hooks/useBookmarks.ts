@@ -1,10 +1,13 @@
 import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
 import { bookmarksService } from '@/services/bookmarks'
+import { ApiError } from '@/lib/api-client'
 import type {
   BookmarkQueryParams,
   CreateBookmarkRequest,
   UpdateBookmarkRequest,
   BatchActionRequest,
+  CollectionFilters,
+  UpdateReadingStateRequest,
 } from '@/lib/types'
 
 export const BOOKMARKS_QUERY_KEY = 'bookmarks'
@@ -47,6 +50,10 @@ export function useInfiniteBookmarks(
       }),
     initialPageParam: undefined as string | undefined,
     getNextPageParam: (lastPage) => (lastPage.meta?.has_more ? lastPage.meta.next_cursor : undefined),
+    // 搜索语法错误与无效游标无需重试
+    retry: (failureCount, error) =>
+      !(error instanceof ApiError && (error.code === 'INVALID_SEARCH_QUERY' || error.code === 'INVALID_PAGE_CURSOR')) &&
+      failureCount < 2,
     staleTime: options?.staleTime ?? 30 * 60 * 1000, // 30分钟
     gcTime: options?.cacheTime ?? 24 * 60 * 60 * 1000, // 24小时
     refetchOnWindowFocus: 'always', // 窗口聚焦时刷新，保持数据同步
@@ -144,6 +151,25 @@ export function useRecordClick() {
   })
 }
 
+/**
+ * 设置阅读状态（稍后阅读队列）
+ */
+export function useUpdateReadingState() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateReadingStateRequest }) =>
+      bookmarksService.updateReadingState(id, data),
+    onSuccess: async () => {
+      try {
+        await queryClient.invalidateQueries({ queryKey: [BOOKMARKS_QUERY_KEY] })
+      } catch (error) {
+        console.error('Failed to invalidate queries:', error)
+      }
+    },
+  })
+}
+
 /**
  * 批量操作书签
  */
@@ -164,3 +190,42 @@ export function useBatchAction() {
     },
   })
 }
+
+/**
+ * 统计筛选条件匹配的书签数（批量操作的 dry run）
+ */
+export function useBatchMatchCount(query: CollectionFilters | undefined, enabled = true) {
+  return useQuery({
+    queryKey: [BOOKMARKS_QUERY_KEY, 'bulk-count', query],
+    queryFn: async () => {
+      const result = await bookmarksService.batchAction({ dry_run: true, query })
+      return result.matched_count ?? 0
+    },
+    enabled: enabled && !!query,
+    staleTime: 30 * 1000,
+  })
+}
+
+/**
+ * 轮询批量操作后台任务的进度，任务结束后刷新书签和标签
+ */
+export function useBulkJob(jobId: string | null) {
+  const queryClient = useQueryClient()
+
+  return useQuery({
+    queryKey: ['bulk-job', jobId],
+    queryFn: async () => {
+      const job = await bookmarksService.getBulkJob(jobId!)
+      if (job.status === 'completed' || job.status === 'failed') {
+        await queryClient.invalidateQueries({ queryKey: [BOOKMARKS_QUERY_KEY] })
+        await queryClient.invalidateQueries({ queryKey: ['tags'] })
+      }
+      return job
+    },
+    enabled: !!jobId,
+    refetchInterval: (query) => {
+      const status = query.state.data?.status
+      return status === 'completed' || status === 'failed' ? false : 2000
+    },
+  })
+}
@@ -0,0 +1,61 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { collectionsService } from '@/services/collections'
+import type { CreateCollectionRequest, UpdateCollectionRequest } from '@/lib/types'
+
+export const COLLECTIONS_QUERY_KEY = 'collections'
+
+/**
+ * 获取智能集合列表
+ */
+export function useCollections(options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: [COLLECTIONS_QUERY_KEY],
+    queryFn: () => collectionsService.getCollections(),
+    staleTime: 60 * 60 * 1000, // 1小时 (集合很少变化)
+    gcTime: 24 * 60 * 60 * 1000, // 24小时
+    enabled: options?.enabled ?? true,
+  })
+}
+
+/**
+ * 创建智能集合
+ */
+export function useCreateCollection() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: CreateCollectionRequest) => collectionsService.createCollection(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [COLLECTIONS_QUERY_KEY] })
+    },
+  })
+}
+
+/**
+ * 更新智能集合
+ */
+export function useUpdateCollection() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateCollectionRequest }) =>
+      collectionsService.updateCollection(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [COLLECTIONS_QUERY_KEY] })
+    },
+  })
+}
+
+/**
+ * 删除智能集合
+ */
+export function useDeleteCollection() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (id: string) => collectionsService.deleteCollection(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [COLLECTIONS_QUERY_KEY] })
+    },
+  })
+}
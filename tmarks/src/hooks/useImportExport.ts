@@ -267,7 +267,9 @@ export function getDefaultImportOptions(format: ImportFormat): ImportOptions {
     batch_size: 50,
     max_concurrent: 5,
     default_tag_color: 'hsl(var(--primary))',
-    folder_as_tag: true
+    folder_as_tag: true,
+    folder_as_tag_tree: false,
+    backfill_metadata: true
   }
 
   // 根据格式调整默认选项
@@ -21,6 +21,7 @@ const DEFAULT_PREFERENCES: Partial<UserPreferences> = {
   snapshot_auto_create: false,
   snapshot_auto_dedupe: true,
   snapshot_auto_cleanup_days: 0,
+  trash_retention_days: 30,
 }
 
 /**
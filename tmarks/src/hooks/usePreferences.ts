@@ -70,6 +70,7 @@ function getDefaultPreferences(): UserPreferences {
     snapshot_auto_create: false,
     snapshot_auto_dedupe: true,
     snapshot_auto_cleanup_days: 0,
+    trash_retention_days: 30,
     updated_at: new Date().toISOString(),
   }
 }
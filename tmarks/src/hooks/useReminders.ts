@@ -0,0 +1,110 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { remindersService } from '@/services/reminders'
+import type { ReminderAction, SetReminderRequest, UpdateResurfacingSettingsRequest } from '@/lib/types'
+
+export const REMINDERS_QUERY_KEY = 'reminders'
+export const RESURFACING_SETTINGS_QUERY_KEY = 'resurfacing-settings'
+
+/**
+ * 获取所有待处理提醒
+ */
+export function useReminders() {
+  return useQuery({
+    queryKey: [REMINDERS_QUERY_KEY, 'pending'],
+    queryFn: () => remindersService.getReminders(),
+    staleTime: 60 * 1000, // 1分钟
+  })
+}
+
+/**
+ * 获取已到期的提醒
+ */
+export function useDueReminders() {
+  return useQuery({
+    queryKey: [REMINDERS_QUERY_KEY, 'due'],
+    queryFn: () => remindersService.getDueReminders(),
+    staleTime: 60 * 1000, // 1分钟
+  })
+}
+
+/**
+ * 获取单个书签的提醒
+ */
+export function useBookmarkReminder(bookmarkId: string | undefined) {
+  return useQuery({
+    queryKey: [REMINDERS_QUERY_KEY, 'bookmark', bookmarkId],
+    queryFn: () => remindersService.getBookmarkReminder(bookmarkId!),
+    enabled: !!bookmarkId,
+  })
+}
+
+/**
+ * 处理提醒（完成 / 忽略 / 推迟）
+ */
+export function useUpdateReminder() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, action, snoozeDays }: { id: string; action: ReminderAction; snoozeDays?: number }) =>
+      remindersService.updateReminder(id, action, snoozeDays),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [REMINDERS_QUERY_KEY] })
+    },
+  })
+}
+
+/**
+ * 设置书签提醒
+ */
+export function useSetBookmarkReminder() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ bookmarkId, data }: { bookmarkId: string; data: SetReminderRequest }) =>
+      remindersService.setBookmarkReminder(bookmarkId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [REMINDERS_QUERY_KEY] })
+    },
+  })
+}
+
+/**
+ * 取消书签提醒
+ */
+export function useClearBookmarkReminder() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (bookmarkId: string) => remindersService.clearBookmarkReminder(bookmarkId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [REMINDERS_QUERY_KEY] })
+    },
+  })
+}
+
+/**
+ * 获取自动重温设置
+ */
+export function useResurfacingSettings() {
+  return useQuery({
+    queryKey: [RESURFACING_SETTINGS_QUERY_KEY],
+    queryFn: () => remindersService.getResurfacingSettings(),
+    staleTime: 5 * 60 * 1000, // 5分钟
+  })
+}
+
+/**
+ * 更新自动重温设置
+ */
+export function useUpdateResurfacingSettings() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: UpdateResurfacingSettingsRequest) => remindersService.updateResurfacingSettings(data),
+    onSuccess: (settings) => {
+      queryClient.setQueryData([RESURFACING_SETTINGS_QUERY_KEY], settings)
+      // 开启后下次获取到期提醒时可能立即生成重温书签
+      queryClient.invalidateQueries({ queryKey: [REMINDERS_QUERY_KEY] })
+    },
+  })
+}
@@ -1,5 +1,5 @@
 import { useQuery, useMutation, useQueryClient, useInfiniteQuery } from '@tanstack/react-query'
-import { shareService } from '@/services/share'
+import { shareService, takeEmbeddedPublicShare } from '@/services/share'
 import type { ShareSettings, UpdateShareSettingsRequest, PublicSharePayload, PublicSharePaginatedPayload } from '@/lib/types'
 
 export const SHARE_SETTINGS_QUERY_KEY = 'share-settings'
@@ -26,6 +26,8 @@ export function usePublicShare(slug: string, enabled: boolean) {
   return useQuery<PublicSharePayload>({
     queryKey: ['public-share', slug],
     queryFn: () => shareService.getPublicShare(slug),
+    // 服务端渲染的分享页已嵌入数据，首次渲染直接使用
+    initialData: () => takeEmbeddedPublicShare(slug),
     enabled: enabled && Boolean(slug),
     staleTime: 60 * 1000,
   })
@@ -18,15 +18,17 @@ export interface TabGroupMenuActions {
   onLock: (group: TabGroup) => void
   onMove: (group: TabGroup) => Promise<void>
   onMoveToTrash: (group: TabGroup) => void
+  onManageMembers: (group: TabGroup) => void
 }
 
 interface UseTabGroupMenuProps {
   onRefresh?: () => Promise<void>
   onStartRename: (groupId: string, title: string) => void
   onOpenMoveDialog?: (group: TabGroup) => void
+  onOpenMembersDialog?: (group: TabGroup) => void
 }
 
-export function useTabGroupMenu({ onRefresh, onStartRename, onOpenMoveDialog }: UseTabGroupMenuProps): TabGroupMenuActions {
+export function useTabGroupMenu({ onRefresh, onStartRename, onOpenMoveDialog, onOpenMembersDialog }: UseTabGroupMenuProps): TabGroupMenuActions {
   const { t } = useTranslation('tabGroups')
   const dialog = useDialogStore.getState()
 
@@ -427,6 +429,10 @@ export function useTabGroupMenu({ onRefresh, onStartRename, onOpenMoveDialog }:
     }
   }
 
+  const onManageMembers = (group: TabGroup) => {
+    onOpenMembersDialog?.(group)
+  }
+
   const onMoveToTrash = async (group: TabGroup) => {
     const confirmed = await dialog.confirm({
       title: t('confirm.deleteGroup'),
@@ -459,6 +465,7 @@ export function useTabGroupMenu({ onRefresh, onStartRename, onOpenMoveDialog }:
     onLock,
     onMove,
     onMoveToTrash,
+    onManageMembers,
   }
 }
 
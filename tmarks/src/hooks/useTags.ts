@@ -1,8 +1,10 @@
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
 import { tagsService } from '@/services/tags'
-import type { CreateTagRequest, UpdateTagRequest, TagQueryParams } from '@/lib/types'
+import type { CreateTagRequest, UpdateTagRequest, TagQueryParams, MergeTagRequest } from '@/lib/types'
+import { COLLECTIONS_QUERY_KEY } from './useCollections'
 
 export const TAGS_QUERY_KEY = 'tags'
+export const TAG_ALIASES_QUERY_KEY = 'tag-aliases'
 
 /**
  * 获取标签列表
@@ -44,8 +46,10 @@ export function useUpdateTag() {
   return useMutation({
     mutationFn: ({ id, data }: { id: string; data: UpdateTagRequest }) =>
       tagsService.updateTag(id, data),
-    onSuccess: () => {
+    onSuccess: (_tag, { id }) => {
       queryClient.invalidateQueries({ queryKey: [TAGS_QUERY_KEY] })
+      // 重命名会把旧名称保留为别名
+      queryClient.invalidateQueries({ queryKey: [TAG_ALIASES_QUERY_KEY, id] })
     },
   })
 }
@@ -65,3 +69,63 @@ export function useDeleteTag() {
     },
   })
 }
+
+/**
+ * 合并标签
+ */
+export function useMergeTag() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: MergeTagRequest }) =>
+      tagsService.mergeTag(id, data),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: [TAGS_QUERY_KEY] })
+      queryClient.invalidateQueries({ queryKey: [TAG_ALIASES_QUERY_KEY, result.tag.id] })
+      queryClient.invalidateQueries({ queryKey: ['bookmarks'] })
+      // 智能集合中的源标签已替换为目标标签
+      queryClient.invalidateQueries({ queryKey: [COLLECTIONS_QUERY_KEY] })
+    },
+  })
+}
+
+/**
+ * 获取标签别名
+ */
+export function useTagAliases(tagId: string | null) {
+  return useQuery({
+    queryKey: [TAG_ALIASES_QUERY_KEY, tagId],
+    queryFn: () => tagsService.getAliases(tagId!),
+    enabled: Boolean(tagId),
+  })
+}
+
+/**
+ * 添加标签别名
+ */
+export function useAddTagAlias() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ tagId, alias }: { tagId: string; alias: string }) =>
+      tagsService.addAlias(tagId, alias),
+    onSuccess: (_alias, { tagId }) => {
+      queryClient.invalidateQueries({ queryKey: [TAG_ALIASES_QUERY_KEY, tagId] })
+    },
+  })
+}
+
+/**
+ * 删除标签别名
+ */
+export function useDeleteTagAlias() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ tagId, aliasId }: { tagId: string; aliasId: string }) =>
+      tagsService.deleteAlias(tagId, aliasId),
+    onSuccess: (_result, { tagId }) => {
+      queryClient.invalidateQueries({ queryKey: [TAG_ALIASES_QUERY_KEY, tagId] })
+    },
+  })
+}
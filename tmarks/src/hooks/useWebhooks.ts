@@ -0,0 +1,137 @@
+/**
+ * Webhooks React Query Hooks
+ * 使用 React Query 管理 Webhook 及投递记录
+ */
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import {
+  getWebhooks,
+  createWebhook,
+  updateWebhook,
+  deleteWebhook,
+  rotateWebhookSecret,
+  testWebhook,
+  getWebhookDeliveries,
+  redeliverWebhook,
+  type UpdateWebhookRequest,
+  type WebhookDeliveryStatus,
+} from '@/services/webhooks'
+
+// Query Keys
+export const webhooksKeys = {
+  all: ['webhooks'] as const,
+  lists: () => [...webhooksKeys.all, 'list'] as const,
+  list: () => [...webhooksKeys.lists()] as const,
+  deliveries: (id: string) => [...webhooksKeys.all, 'deliveries', id] as const,
+  deliveryList: (id: string, status?: WebhookDeliveryStatus) =>
+    [...webhooksKeys.deliveries(id), status ?? 'all'] as const,
+}
+
+/**
+ * 获取 Webhook 列表
+ */
+export function useWebhooks() {
+  return useQuery({
+    queryKey: webhooksKeys.list(),
+    queryFn: getWebhooks,
+  })
+}
+
+/**
+ * 获取投递记录，存在待重试的记录时定时刷新
+ */
+export function useWebhookDeliveries(id: string, status?: WebhookDeliveryStatus) {
+  return useQuery({
+    queryKey: webhooksKeys.deliveryList(id, status),
+    queryFn: () => getWebhookDeliveries(id, status),
+    enabled: !!id,
+    refetchInterval: (query) =>
+      query.state.data?.some((delivery) => delivery.status === 'pending') ? 10000 : false,
+  })
+}
+
+/**
+ * 创建 Webhook
+ */
+export function useCreateWebhook() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: createWebhook,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: webhooksKeys.lists() })
+    },
+  })
+}
+
+/**
+ * 更新 Webhook
+ */
+export function useUpdateWebhook() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateWebhookRequest }) => updateWebhook(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: webhooksKeys.lists() })
+    },
+  })
+}
+
+/**
+ * 删除 Webhook
+ */
+export function useDeleteWebhook() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: deleteWebhook,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: webhooksKeys.lists() })
+    },
+  })
+}
+
+/**
+ * 重新生成签名密钥
+ */
+export function useRotateWebhookSecret() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: rotateWebhookSecret,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: webhooksKeys.lists() })
+    },
+  })
+}
+
+/**
+ * 发送测试事件
+ */
+export function useTestWebhook() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: testWebhook,
+    onSuccess: (_, id) => {
+      queryClient.invalidateQueries({ queryKey: webhooksKeys.lists() })
+      queryClient.invalidateQueries({ queryKey: webhooksKeys.deliveries(id) })
+    },
+  })
+}
+
+/**
+ * 重新投递
+ */
+export function useRedeliverWebhook() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, deliveryId }: { id: string; deliveryId: string }) => redeliverWebhook(id, deliveryId),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: webhooksKeys.lists() })
+      queryClient.invalidateQueries({ queryKey: webhooksKeys.deliveries(variables.id) })
+    },
+  })
+}
@@ -13,6 +13,8 @@ import zhCNSettings from './locales/zh-CN/settings.json'
 import zhCNImport from './locales/zh-CN/import.json'
 import zhCNInfo from './locales/zh-CN/info.json'
 import zhCNShare from './locales/zh-CN/share.json'
+import zhCNAdmin from './locales/zh-CN/admin.json'
+import zhCNInviteCodes from './locales/zh-CN/inviteCodes.json'
 
 import enCommon from './locales/en/common.json'
 import enAuth from './locales/en/auth.json'
@@ -24,6 +26,8 @@ import enSettings from './locales/en/settings.json'
 import enImport from './locales/en/import.json'
 import enInfo from './locales/en/info.json'
 import enShare from './locales/en/share.json'
+import enAdmin from './locales/en/admin.json'
+import enInviteCodes from './locales/en/inviteCodes.json'
 
 // 支持的语言列表
 export const supportedLanguages = [
@@ -45,7 +49,9 @@ const resources = {
     settings: zhCNSettings,
     import: zhCNImport,
     info: zhCNInfo,
-    share: zhCNShare
+    share: zhCNShare,
+    admin: zhCNAdmin,
+    inviteCodes: zhCNInviteCodes
   },
   en: {
     common: enCommon,
@@ -57,7 +63,9 @@ const resources = {
     settings: enSettings,
     import: enImport,
     info: enInfo,
-    share: enShare
+    share: enShare,
+    admin: enAdmin,
+    inviteCodes: enInviteCodes
   }
 }
 
@@ -69,7 +77,7 @@ i18n
     resources,
     fallbackLng: 'zh-CN',
     defaultNS: 'common',
-    ns: ['common', 'auth', 'errors', 'tabGroups', 'bookmarks', 'tags', 'settings', 'import', 'info', 'share'],
+    ns: ['common', 'auth', 'errors', 'tabGroups', 'bookmarks', 'tags', 'settings', 'import', 'info', 'share', 'admin', 'inviteCodes'],
 
     detection: {
       // 语言检测顺序：localStorage -> 浏览器语言
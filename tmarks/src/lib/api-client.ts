@@ -8,7 +8,8 @@ export class ApiError extends Error {
   constructor(
     public code: string,
     message: string,
-    public status: number
+    public status: number,
+    public details?: unknown
   ) {
     super(message)
     this.name = 'ApiError'
@@ -159,9 +160,9 @@ class HttpClient {
       }
 
       if (!response.ok) {
-        const errorData = data as { error?: { code: string; message: string } }
+        const errorData = data as { error?: { code: string; message: string; details?: unknown } }
         const error = errorData.error || { code: 'UNKNOWN_ERROR', message: 'An error occurred' }
-        throw new ApiError(error.code, error.message, response.status)
+        throw new ApiError(error.code, error.message, response.status, error.details)
       }
 
       return data as ApiResponse<T>
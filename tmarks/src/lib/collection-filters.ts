@@ -0,0 +1,42 @@
+/**
+ * 智能集合筛选条件工具函数
+ * 规则与服务端 normalizeBookmarkFilters 保持一致，保证前端比较结果与已保存的条件一致
+ */
+
+import type { CollectionFilters } from './types'
+
+/**
+ * 规范化筛选条件：丢弃空值与默认值，标签去重并排序
+ */
+export function normalizeCollectionFilters(input: CollectionFilters): CollectionFilters {
+  const filters: CollectionFilters = {}
+
+  const keyword = input.keyword?.trim()
+  if (keyword) filters.keyword = keyword
+
+  const tags = Array.from(new Set(input.tags ?? [])).sort()
+  const excludeTags = Array.from(new Set(input.exclude_tags ?? [])).sort()
+  if (tags.length > 0) filters.tags = tags
+  if (tags.length > 1 && input.tag_mode === 'any') filters.tag_mode = 'any'
+  if (excludeTags.length > 0) filters.exclude_tags = excludeTags
+  if (input.include_descendants && (tags.length > 0 || excludeTags.length > 0)) {
+    filters.include_descendants = true
+  }
+
+  if (input.archived) filters.archived = true
+  if (input.pinned) filters.pinned = true
+  if (input.link_status) filters.link_status = input.link_status
+  if (input.sort && input.sort !== (keyword ? 'relevance' : 'created')) {
+    filters.sort = input.sort
+  }
+
+  return filters
+}
+
+export function isEmptyCollectionFilters(filters: CollectionFilters): boolean {
+  return Object.keys(normalizeCollectionFilters(filters)).length === 0
+}
+
+export function isSameCollectionFilters(a: CollectionFilters, b: CollectionFilters): boolean {
+  return JSON.stringify(normalizeCollectionFilters(a)) === JSON.stringify(normalizeCollectionFilters(b))
+}
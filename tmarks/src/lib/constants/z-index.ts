@@ -34,10 +34,13 @@ export const Z_INDEX = {
   MODAL_CONTENT: 200,
   BOOKMARK_FORM: 200,
   SNAPSHOT_VIEWER: 200,
+  NOTES_DIALOG: 200,
   API_KEY_MODAL: 200,
+  WEBHOOK_MODAL: 200,
   TAG_MANAGE_MODAL: 200,
   MOVE_ITEM_DIALOG: 200,
   SHARE_DIALOG: 200,
+  MEMBERS_DIALOG: 200,
   MOVE_TO_FOLDER_DIALOG: 200,
   TAG_FORM_MODAL: 210,
   
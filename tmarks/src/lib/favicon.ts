@@ -0,0 +1,81 @@
+/**
+ * 站点图标地址
+ * 图标由服务端 /api/favicons/:domain 代理并缓存，无法获取时服务端返回字母头像
+ * 未缓存的域名只有带签名的地址才会被解析，签名在登录后获取并保存在 localStorage 中
+ */
+
+import type { FaviconSignature } from '@/lib/types'
+import { faviconsService } from '@/services/favicons'
+import { logger } from '@/lib/logger'
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || '/api/v1'
+const FAVICON_API_BASE = `${API_BASE_URL.replace(/\/v1\/?$/, '')}/favicons`
+
+const SIGNATURE_STORAGE_KEY = 'tmarks-favicon-signature'
+/** 签名剩余有效期不足一天时重新获取 */
+const SIGNATURE_REFRESH_MARGIN_MS = 24 * 60 * 60 * 1000
+
+function readStoredSignature(): FaviconSignature | null {
+  try {
+    const stored = localStorage.getItem(SIGNATURE_STORAGE_KEY)
+    return stored ? (JSON.parse(stored) as FaviconSignature) : null
+  } catch {
+    return null
+  }
+}
+
+let signature: FaviconSignature | null = readStoredSignature()
+let pendingSignature: Promise<void> | null = null
+
+function signatureUserId(value: FaviconSignature): string | null {
+  return new URLSearchParams(value.query).get('u')
+}
+
+function isSignatureUsable(value: FaviconSignature | null, marginMs = 0): value is FaviconSignature {
+  return !!value && new Date(value.expires_at).getTime() - marginMs > Date.now()
+}
+
+/**
+ * 确保持有当前用户的有效签名，缺失、即将过期或属于其他用户时重新获取
+ */
+export function ensureFaviconSignature(userId: string): Promise<void> {
+  if (isSignatureUsable(signature, SIGNATURE_REFRESH_MARGIN_MS) && signatureUserId(signature) === userId) {
+    return Promise.resolve()
+  }
+
+  pendingSignature ??= faviconsService
+    .getSignature()
+    .then((value) => {
+      signature = value
+      localStorage.setItem(SIGNATURE_STORAGE_KEY, JSON.stringify(value))
+    })
+    .catch((error) => {
+      logger.warn('Failed to load favicon signature:', error)
+    })
+    .finally(() => {
+      pendingSignature = null
+    })
+  return pendingSignature
+}
+
+/**
+ * 登出时清除签名
+ */
+export function clearFaviconSignature(): void {
+  signature = null
+  localStorage.removeItem(SIGNATURE_STORAGE_KEY)
+}
+
+/**
+ * 获取网址对应的站点图标地址，网址无效时返回空字符串
+ */
+export function getFaviconUrl(url: string, size = 64): string {
+  try {
+    const { hostname } = new URL(url)
+    if (!hostname) return ''
+    const base = `${FAVICON_API_BASE}/${encodeURIComponent(hostname)}?size=${size}`
+    return isSignatureUsable(signature) ? `${base}&${signature.query}` : base
+  } catch {
+    return ''
+  }
+}
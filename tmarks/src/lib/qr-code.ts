@@ -0,0 +1,405 @@
+/**
+ * 最小的二维码编码器
+ *
+ * 只覆盖两步验证绑定用到的场景：字节模式、纠错等级 M、版本 1-10（最多 213 字节），
+ * 足够容纳 otpauth:// URI。按 ISO/IEC 18004 生成模块矩阵，在 8 种掩码中选择惩罚分最低的一种。
+ */
+
+export interface QrCode {
+  /** 每边的模块数 */
+  size: number
+  /** modules[y][x] 为 true 表示深色模块 */
+  modules: boolean[][]
+}
+
+const MAX_VERSION = 10
+
+// 纠错等级 M：每块纠错码字数、块数（下标为版本号）
+const ECC_CODEWORDS_PER_BLOCK = [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26]
+const NUM_ERROR_CORRECTION_BLOCKS = [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5]
+const ECC_FORMAT_BITS_M = 0
+
+const PENALTY_N1 = 3
+const PENALTY_N2 = 3
+const PENALTY_N3 = 40
+const PENALTY_N4 = 10
+
+function getBit(value: number, index: number): boolean {
+  return ((value >>> index) & 1) !== 0
+}
+
+/** 除功能图形外可用于数据的模块数 */
+function getNumRawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2
+    result -= (25 * numAlign - 10) * numAlign - 55
+    if (version >= 7) {
+      result -= 36
+    }
+  }
+  return result
+}
+
+function getNumDataCodewords(version: number): number {
+  return (
+    Math.floor(getNumRawDataModules(version) / 8) -
+    ECC_CODEWORDS_PER_BLOCK[version]! * NUM_ERROR_CORRECTION_BLOCKS[version]!
+  )
+}
+
+function getAlignmentPatternPositions(version: number): number[] {
+  if (version === 1) {
+    return []
+  }
+  const size = version * 4 + 17
+  const numAlign = Math.floor(version / 7) + 2
+  const step = Math.ceil((size - 13) / (numAlign * 2 - 2)) * 2
+  const result = [6]
+  for (let pos = size - 7; result.length < numAlign; pos -= step) {
+    result.splice(1, 0, pos)
+  }
+  return result
+}
+
+// GF(2^8) 乘法，本原多项式 0x11D
+function gfMultiply(x: number, y: number): number {
+  let z = 0
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d)
+    z ^= ((y >>> i) & 1) * x
+  }
+  return z
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0)
+  result[degree - 1] = 1
+  let root = 1
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      result[j] = gfMultiply(result[j]!, root)
+      if (j + 1 < degree) {
+        result[j]! ^= result[j + 1]!
+      }
+    }
+    root = gfMultiply(root, 0x02)
+  }
+  return result
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = new Array<number>(divisor.length).fill(0)
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number)
+    result.push(0)
+    divisor.forEach((coef, i) => {
+      result[i]! ^= gfMultiply(coef, factor)
+    })
+  }
+  return result
+}
+
+/** 分块计算纠错码并交织 */
+function addEccAndInterleave(data: number[], version: number): number[] {
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[version]!
+  const blockEccLen = ECC_CODEWORDS_PER_BLOCK[version]!
+  const rawCodewords = Math.floor(getNumRawDataModules(version) / 8)
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks)
+  const shortBlockLen = Math.floor(rawCodewords / numBlocks)
+
+  const divisor = reedSolomonDivisor(blockEccLen)
+  const blocks: number[][] = []
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const dat = data.slice(k, k + shortBlockLen - blockEccLen + (i < numShortBlocks ? 0 : 1))
+    k += dat.length
+    const ecc = reedSolomonRemainder(dat, divisor)
+    if (i < numShortBlocks) {
+      dat.push(0)
+    }
+    blocks.push(dat.concat(ecc))
+  }
+
+  const result: number[] = []
+  for (let i = 0; i < blocks[0]!.length; i++) {
+    blocks.forEach((block, j) => {
+      // 短块中补齐用的占位字节不输出
+      if (i !== shortBlockLen - blockEccLen || j >= numShortBlocks) {
+        result.push(block[i]!)
+      }
+    })
+  }
+  return result
+}
+
+/** 字节模式数据段 + 终止符 + 填充字节 */
+function encodeDataCodewords(bytes: Uint8Array, version: number): number[] {
+  const bits: number[] = []
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) {
+      bits.push((value >>> i) & 1)
+    }
+  }
+
+  append(0b0100, 4)
+  append(bytes.length, version <= 9 ? 8 : 16)
+  bytes.forEach((byte) => append(byte, 8))
+
+  const capacityBits = getNumDataCodewords(version) * 8
+  append(0, Math.min(4, capacityBits - bits.length))
+  append(0, (8 - (bits.length % 8)) % 8)
+  for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) {
+    append(pad, 8)
+  }
+
+  const codewords: number[] = []
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((acc, bit) => (acc << 1) | bit, 0))
+  }
+  return codewords
+}
+
+class QrMatrix {
+  readonly modules: boolean[][]
+  readonly isFunction: boolean[][]
+
+  constructor(
+    readonly version: number,
+    readonly size: number
+  ) {
+    this.modules = Array.from({ length: size }, () => new Array<boolean>(size).fill(false))
+    this.isFunction = Array.from({ length: size }, () => new Array<boolean>(size).fill(false))
+  }
+
+  setFunction(x: number, y: number, dark: boolean): void {
+    this.modules[y]![x] = dark
+    this.isFunction[y]![x] = true
+  }
+
+  drawFunctionPatterns(): void {
+    for (let i = 0; i < this.size; i++) {
+      this.setFunction(6, i, i % 2 === 0)
+      this.setFunction(i, 6, i % 2 === 0)
+    }
+
+    this.drawFinderPattern(3, 3)
+    this.drawFinderPattern(this.size - 4, 3)
+    this.drawFinderPattern(3, this.size - 4)
+
+    const positions = getAlignmentPatternPositions(this.version)
+    const last = positions.length - 1
+    positions.forEach((x, i) => {
+      positions.forEach((y, j) => {
+        // 与定位图形重叠的三个位置不画
+        if (!((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0))) {
+          this.drawAlignmentPattern(x, y)
+        }
+      })
+    })
+
+    // 先占位，选定掩码后再写入真正的格式信息
+    this.drawFormatBits(0)
+    this.drawVersion()
+  }
+
+  private drawFinderPattern(x: number, y: number): void {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const dist = Math.max(Math.abs(dx), Math.abs(dy))
+        const xx = x + dx
+        const yy = y + dy
+        if (xx >= 0 && xx < this.size && yy >= 0 && yy < this.size) {
+          this.setFunction(xx, yy, dist !== 2 && dist !== 4)
+        }
+      }
+    }
+  }
+
+  private drawAlignmentPattern(x: number, y: number): void {
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        this.setFunction(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1)
+      }
+    }
+  }
+
+  drawFormatBits(mask: number): void {
+    const data = (ECC_FORMAT_BITS_M << 3) | mask
+    let rem = data
+    for (let i = 0; i < 10; i++) {
+      rem = (rem << 1) ^ ((rem >>> 9) * 0x537)
+    }
+    const bits = ((data << 10) | rem) ^ 0x5412
+
+    for (let i = 0; i <= 5; i++) {
+      this.setFunction(8, i, getBit(bits, i))
+    }
+    this.setFunction(8, 7, getBit(bits, 6))
+    this.setFunction(8, 8, getBit(bits, 7))
+    this.setFunction(7, 8, getBit(bits, 8))
+    for (let i = 9; i < 15; i++) {
+      this.setFunction(14 - i, 8, getBit(bits, i))
+    }
+
+    for (let i = 0; i < 8; i++) {
+      this.setFunction(this.size - 1 - i, 8, getBit(bits, i))
+    }
+    for (let i = 8; i < 15; i++) {
+      this.setFunction(8, this.size - 15 + i, getBit(bits, i))
+    }
+    this.setFunction(8, this.size - 8, true)
+  }
+
+  private drawVersion(): void {
+    if (this.version < 7) {
+      return
+    }
+    let rem = this.version
+    for (let i = 0; i < 12; i++) {
+      rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25)
+    }
+    const bits = (this.version << 12) | rem
+
+    for (let i = 0; i < 18; i++) {
+      const dark = getBit(bits, i)
+      const a = this.size - 11 + (i % 3)
+      const b = Math.floor(i / 3)
+      this.setFunction(a, b, dark)
+      this.setFunction(b, a, dark)
+    }
+  }
+
+  /** 从右下角开始按两列一组的之字形写入数据 */
+  drawCodewords(data: number[]): void {
+    let i = 0
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) {
+        right = 5
+      }
+      for (let vert = 0; vert < this.size; vert++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j
+          const upward = ((right + 1) & 2) === 0
+          const y = upward ? this.size - 1 - vert : vert
+          if (!this.isFunction[y]![x] && i < data.length * 8) {
+            this.modules[y]![x] = getBit(data[i >>> 3]!, 7 - (i & 7))
+            i++
+          }
+        }
+      }
+    }
+  }
+
+  /** 掩码是异或操作，同一个掩码应用两次即可撤销 */
+  applyMask(mask: number): void {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        let invert: boolean
+        switch (mask) {
+          case 0: invert = (x + y) % 2 === 0; break
+          case 1: invert = y % 2 === 0; break
+          case 2: invert = x % 3 === 0; break
+          case 3: invert = (x + y) % 3 === 0; break
+          case 4: invert = (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0; break
+          case 5: invert = ((x * y) % 2) + ((x * y) % 3) === 0; break
+          case 6: invert = (((x * y) % 2) + ((x * y) % 3)) % 2 === 0; break
+          default: invert = (((x + y) % 2) + ((x * y) % 3)) % 2 === 0; break
+        }
+        if (invert && !this.isFunction[y]![x]) {
+          this.modules[y]![x] = !this.modules[y]![x]
+        }
+      }
+    }
+  }
+
+  getPenaltyScore(): number {
+    let score = 0
+    const lines: string[] = []
+    for (let i = 0; i < this.size; i++) {
+      lines.push(this.modules[i]!.map((dark) => (dark ? '1' : '0')).join(''))
+      lines.push(this.modules.map((row) => (row[i] ? '1' : '0')).join(''))
+    }
+
+    for (const line of lines) {
+      // N1：同色连续 5 个及以上
+      for (const run of line.match(/0{5,}|1{5,}/g) || []) {
+        score += PENALTY_N1 + run.length - 5
+      }
+      // N3：类似定位图形的 1:1:3:1:1 图案（两侧 4 个浅色模块，线外视为浅色）
+      const padded = `0000${line}0000`
+      for (let i = 0; i + 11 <= padded.length; i++) {
+        const segment = padded.slice(i, i + 11)
+        if (segment === '10111010000' || segment === '00001011101') {
+          score += PENALTY_N3
+        }
+      }
+    }
+
+    let dark = 0
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        const color = this.modules[y]![x]
+        if (color) {
+          dark++
+        }
+        // N2：2x2 同色方块
+        if (
+          x + 1 < this.size &&
+          y + 1 < this.size &&
+          color === this.modules[y]![x + 1] &&
+          color === this.modules[y + 1]![x] &&
+          color === this.modules[y + 1]![x + 1]
+        ) {
+          score += PENALTY_N2
+        }
+      }
+    }
+
+    // N4：深色模块比例偏离 50% 的程度
+    const total = this.size * this.size
+    const k = Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1
+    score += Math.max(k, 0) * PENALTY_N4
+
+    return score
+  }
+}
+
+/**
+ * 把文本（UTF-8）编码为二维码，内容超过版本 10 的容量时抛出错误
+ */
+export function encodeQrCode(text: string): QrCode {
+  const bytes = new TextEncoder().encode(text)
+
+  let version = 1
+  while (version <= MAX_VERSION) {
+    const headerBits = 4 + (version <= 9 ? 8 : 16)
+    if (headerBits + bytes.length * 8 <= getNumDataCodewords(version) * 8) {
+      break
+    }
+    version++
+  }
+  if (version > MAX_VERSION) {
+    throw new Error('Data too long for QR code')
+  }
+
+  const matrix = new QrMatrix(version, version * 4 + 17)
+  matrix.drawFunctionPatterns()
+  matrix.drawCodewords(addEccAndInterleave(encodeDataCodewords(bytes, version), version))
+
+  let bestMask = 0
+  let minPenalty = Infinity
+  for (let mask = 0; mask < 8; mask++) {
+    matrix.applyMask(mask)
+    matrix.drawFormatBits(mask)
+    const penalty = matrix.getPenaltyScore()
+    if (penalty < minPenalty) {
+      bestMask = mask
+      minPenalty = penalty
+    }
+    matrix.applyMask(mask)
+  }
+  matrix.applyMask(bestMask)
+  matrix.drawFormatBits(bestMask)
+
+  return { size: matrix.size, modules: matrix.modules }
+}
@@ -0,0 +1,103 @@
+/**
+ * 层级标签工具函数
+ * 标签通过 parent_id 组成树，这里基于已加载的标签列表在前端构建树结构
+ */
+
+import type { Tag } from './types'
+
+export interface TagTreeRow {
+  tag: Tag
+  depth: number
+  hasChildren: boolean
+}
+
+/**
+ * 是否存在父子关系（全部为顶级标签时按原有平铺方式展示）
+ */
+export function hasTagHierarchy(tags: Tag[]): boolean {
+  return tags.some((tag) => Boolean(tag.parent_id))
+}
+
+/**
+ * 按父标签分组，保持输入顺序；父标签不在列表中的视为顶级标签
+ */
+export function groupTagsByParent(tags: Tag[]): Map<string | null, Tag[]> {
+  const ids = new Set(tags.map((tag) => tag.id))
+  const groups = new Map<string | null, Tag[]>()
+
+  for (const tag of tags) {
+    const parentId = tag.parent_id && ids.has(tag.parent_id) ? tag.parent_id : null
+    const siblings = groups.get(parentId)
+    if (siblings) {
+      siblings.push(tag)
+    } else {
+      groups.set(parentId, [tag])
+    }
+  }
+
+  return groups
+}
+
+/**
+ * 深度优先展开标签树，折叠节点的子孙不输出
+ */
+export function flattenTagTree(tags: Tag[], collapsedIds: Set<string> = new Set()): TagTreeRow[] {
+  const groups = groupTagsByParent(tags)
+  const rows: TagTreeRow[] = []
+  const visited = new Set<string>()
+
+  const walk = (parentId: string | null, depth: number) => {
+    for (const tag of groups.get(parentId) || []) {
+      if (visited.has(tag.id)) continue
+      visited.add(tag.id)
+
+      const hasChildren = (groups.get(tag.id)?.length ?? 0) > 0
+      rows.push({ tag, depth, hasChildren })
+      if (hasChildren && !collapsedIds.has(tag.id)) {
+        walk(tag.id, depth + 1)
+      }
+    }
+  }
+
+  walk(null, 0)
+  return rows
+}
+
+/**
+ * 获取标签的完整路径（如 dev/frontend/react）
+ */
+export function getTagPath(tag: Tag, tagsById: Map<string, Tag>): string {
+  const names = [tag.name]
+  const visited = new Set([tag.id])
+  let parentId = tag.parent_id
+
+  while (parentId && !visited.has(parentId)) {
+    const parent = tagsById.get(parentId)
+    if (!parent) break
+    names.unshift(parent.name)
+    visited.add(parent.id)
+    parentId = parent.parent_id
+  }
+
+  return names.join('/')
+}
+
+/**
+ * 获取标签的所有子孙标签 ID（不含自身）
+ */
+export function getDescendantIds(tags: Tag[], rootId: string): Set<string> {
+  const groups = groupTagsByParent(tags)
+  const descendants = new Set<string>()
+  const stack = [rootId]
+
+  while (stack.length > 0) {
+    const id = stack.pop()!
+    for (const child of groups.get(id) || []) {
+      if (child.id === rootId || descendants.has(child.id)) continue
+      descendants.add(child.id)
+      stack.push(child.id)
+    }
+  }
+
+  return descendants
+}
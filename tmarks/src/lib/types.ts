@@ -41,16 +41,56 @@ export interface LoginResponse {
   user: User
 }
 
+/** 开启两步验证的账号登录时返回的第二步挑战 */
+export interface TwoFactorChallengeResponse {
+  two_factor_required: true
+  challenge_token: string
+  expires_at: string
+}
+
+export type LoginResult = LoginResponse | TwoFactorChallengeResponse
+
+export interface TwoFactorVerifyRequest {
+  challenge_token: string
+  code: string
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean
+  enabled_at: string | null
+  recovery_codes_remaining: number
+}
+
+export interface TwoFactorSetupResponse {
+  secret: string
+  otpauth_uri: string
+}
+
+export interface TwoFactorEnableResponse {
+  enabled: true
+  recovery_codes: string[]
+}
+
+export interface RecoveryCodesResponse {
+  recovery_codes: string[]
+}
+
 export interface RegisterRequest {
   username: string
   password: string
   email?: string
+  invite_code?: string
 }
 
 export interface RegisterResponse {
   user: User
 }
 
+export interface RegistrationInfo {
+  allowed: boolean
+  invite_required: boolean
+}
+
 export interface RefreshTokenRequest {
   refresh_token: string
 }
@@ -79,12 +119,125 @@ export interface Bookmark {
   has_snapshot: boolean
   latest_snapshot_at: string | null
   snapshot_count?: number
+  note_count?: number
+  // 稍后阅读状态（null 表示不在阅读队列中）
+  reading_status?: ReadingStatus | null
+  reading_progress?: number
+  reading_queued_at?: string | null
+  reading_started_at?: string | null
+  read_at?: string | null
   created_at: string
   updated_at: string
   deleted_at?: string | null
   tags: Tag[]
+  // 关键词搜索时返回的高亮片段（匹配部分以 <mark> 包裹）
+  search_highlights?: {
+    title: string | null
+    description: string | null
+  }
+  // 最近一次链接检测结果（未检测或 URL 修改后不返回）
+  link_check?: BookmarkLinkCheck
+}
+
+export type LinkCheckStatus = 'ok' | 'redirected' | 'broken' | 'error'
+
+// 稍后阅读：未读 / 阅读中 / 已读
+export type ReadingStatus = 'unread' | 'reading' | 'read'
+
+export interface ReadingState {
+  reading_status: ReadingStatus | null
+  reading_progress: number
+  reading_queued_at: string | null
+  reading_started_at: string | null
+  read_at: string | null
+}
+
+export interface UpdateReadingStateRequest {
+  status?: ReadingStatus | null // null 表示移出阅读队列
+  progress?: number // 0-100，只传进度时自动推导状态
+}
+
+export interface BookmarkLinkCheck {
+  status: LinkCheckStatus
+  http_status: number | null
+  final_url: string | null
+  checked_at: string
+}
+
+// 书签笔记：Markdown 笔记或带文本选择器的高亮摘录
+export type BookmarkNoteKind = 'note' | 'highlight'
+export type HighlightColor = 'yellow' | 'green' | 'blue' | 'pink' | 'purple'
+
+export interface NoteTextSelector {
+  exact: string
+  prefix?: string
+  suffix?: string
+  start?: number
+  end?: number
+}
+
+export interface BookmarkNote {
+  id: string
+  bookmark_id: string
+  kind: BookmarkNoteKind
+  content: string
+  quote: string | null
+  selector: NoteTextSelector | null
+  color: HighlightColor | null
+  created_at: string
+  updated_at: string
+}
+
+export interface CreateBookmarkNoteRequest {
+  kind?: BookmarkNoteKind
+  content?: string
+  quote?: string
+  selector?: NoteTextSelector
+  color?: HighlightColor
+}
+
+export interface UpdateBookmarkNoteRequest {
+  content?: string
+  color?: HighlightColor
+}
+
+// 书签提醒类型
+export type ReminderSource = 'manual' | 'resurface'
+export type ReminderStatus = 'pending' | 'done' | 'dismissed'
+export type ReminderAction = 'done' | 'dismiss' | 'snooze'
+
+export interface BookmarkReminder {
+  id: string
+  bookmark_id: string
+  remind_at: string
+  note: string | null
+  source: ReminderSource
+  status: ReminderStatus
+  completed_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface ReminderWithBookmark extends BookmarkReminder {
+  bookmark: Pick<Bookmark, 'id' | 'title' | 'url' | 'description' | 'favicon' | 'click_count' | 'last_clicked_at' | 'created_at'>
+}
+
+export interface SetReminderRequest {
+  remind_at?: string
+  remind_in_days?: number
+  note?: string | null
 }
 
+export interface ResurfacingSettings {
+  enabled: boolean
+  interval_days: number
+  batch_size: number
+  min_age_days: number
+  last_run_at: string | null
+}
+
+export type UpdateResurfacingSettingsRequest = Partial<Omit<ResurfacingSettings, 'last_run_at'>>
+
 export interface CreateBookmarkRequest {
   title: string
   url: string
@@ -95,6 +248,7 @@ export interface CreateBookmarkRequest {
   is_pinned?: boolean
   is_archived?: boolean
   is_public?: boolean
+  read_later?: boolean // 加入稍后阅读队列
 }
 
 export interface UpdateBookmarkRequest {
@@ -109,6 +263,24 @@ export interface UpdateBookmarkRequest {
   is_public?: boolean
 }
 
+// 服务端抓取的网页元数据（POST /unfurl）
+export interface UnfurlMetadata {
+  url: string
+  final_url: string
+  title: string | null
+  description: string | null
+  image: string | null
+  favicon: string | null
+  site_name: string | null
+  fetched_at: string
+}
+
+// 站点图标地址签名（GET /favicons/token），附加到 /api/favicons/:domain 后才会解析新域名
+export interface FaviconSignature {
+  query: string
+  expires_at: string
+}
+
 export interface BookmarksResponse {
   bookmarks: Bookmark[]
   meta: {
@@ -125,6 +297,7 @@ export interface Tag {
   user_id?: string
   name: string
   color: string | null
+  parent_id?: string | null
   bookmark_count?: number
   click_count?: number
   last_clicked_at?: string | null
@@ -135,17 +308,47 @@ export interface Tag {
 export interface CreateTagRequest {
   name: string
   color?: string
+  parent_id?: string | null
 }
 
 export interface UpdateTagRequest {
   name?: string
   color?: string | null
+  parent_id?: string | null
+  /** 重命名时保留旧名称作为别名，默认 true */
+  keep_alias?: boolean
 }
 
 export interface TagsResponse {
   tags: Tag[]
 }
 
+// 标签别名：创建/关联标签时别名会映射到目标标签（如 js → javascript）
+export interface TagAlias {
+  id: string
+  tag_id: string
+  alias: string
+  created_at: string
+}
+
+export interface MergeTagRequest {
+  target_id: string
+  dry_run?: boolean
+}
+
+export interface TagMergePreview {
+  source_bookmarks: number
+  target_bookmarks: number
+  overlapping_bookmarks: number
+  resulting_bookmarks: number
+}
+
+export interface MergeTagResponse {
+  merged: boolean
+  preview: TagMergePreview
+  tag: Tag
+}
+
 // 用户偏好类型
 export type TagLayoutPreference = 'grid' | 'masonry'
 export type SortByPreference = 'created' | 'updated' | 'pinned' | 'popular'
@@ -172,6 +375,8 @@ export interface UserPreferences {
   snapshot_auto_create: boolean
   snapshot_auto_dedupe: boolean
   snapshot_auto_cleanup_days: number
+  // 回收站设置（0 表示不自动清理）
+  trash_retention_days: number
   updated_at: string
 }
 
@@ -203,6 +408,7 @@ export interface UpdatePreferencesRequest {
   snapshot_auto_create?: boolean
   snapshot_auto_dedupe?: boolean
   snapshot_auto_cleanup_days?: number
+  trash_retention_days?: number
   
   // 5. 动画和性能相关
   enable_animations?: boolean
@@ -291,11 +497,53 @@ export interface PublicSharePaginatedPayload {
 export interface BookmarkQueryParams {
   keyword?: string
   tags?: string // 逗号分隔的标签ID
+  tag_mode?: 'any' | 'all' // 多标签匹配方式，默认 all（交集）
+  exclude_tags?: string // 逗号分隔的排除标签ID
+  include_descendants?: boolean // 父标签同时匹配所有子孙标签
   page_size?: number
   page_cursor?: string
-  sort?: 'created' | 'updated' | 'pinned' | 'popular'
+  sort?: 'created' | 'updated' | 'pinned' | 'popular' | 'relevance' | 'queue' // queue: 稍后阅读队列，最早加入的在前
   archived?: boolean
   pinned?: boolean
+  link_status?: LinkCheckStatus // 按链接检测结果筛选
+  reading_status?: ReadingStatus[] // 按阅读状态筛选（并集）
+}
+
+// 智能集合：保存的筛选条件，每次读取时由服务端重新查询（字段与书签列表查询参数同名）
+export interface CollectionFilters {
+  keyword?: string
+  tags?: string[]
+  tag_mode?: 'all' | 'any'
+  exclude_tags?: string[]
+  include_descendants?: boolean
+  archived?: boolean
+  pinned?: boolean
+  link_status?: LinkCheckStatus
+  sort?: BookmarkQueryParams['sort']
+}
+
+export interface SmartCollection {
+  id: string
+  name: string
+  filters: CollectionFilters
+  position: number
+  created_at: string
+  updated_at: string
+}
+
+export interface CreateCollectionRequest {
+  name: string
+  filters: CollectionFilters
+}
+
+export interface UpdateCollectionRequest {
+  name?: string
+  filters?: CollectionFilters
+  position?: number
+}
+
+export interface CollectionBookmarksResponse extends BookmarksResponse {
+  collection: SmartCollection
 }
 
 export interface TagQueryParams {
@@ -303,21 +551,87 @@ export interface TagQueryParams {
 }
 
 // 批量操作类型
-export type BatchActionType = 'delete' | 'update_tags' | 'pin' | 'unpin' | 'archive' | 'unarchive'
+export type BatchActionType =
+  | 'delete'
+  | 'restore'
+  | 'update_tags'
+  | 'add_tags'
+  | 'pin'
+  | 'unpin'
+  | 'archive'
+  | 'unarchive'
+  | 'set_public'
+  | 'set_private'
+  | 'fix_redirects'
+  | 'replace_url_prefix'
 
 export interface BatchActionRequest {
-  action: BatchActionType
-  bookmark_ids: string[]
+  // dry_run 时可省略，只统计匹配数量
+  action?: BatchActionType
+  // 二选一：书签 ID 列表，或筛选条件
+  bookmark_ids?: string[]
+  query?: CollectionFilters
+  dry_run?: boolean
   add_tag_ids?: string[]
   remove_tag_ids?: string[]
+  // add_tags：按名称添加，不存在的标签会自动创建
+  tag_names?: string[]
+  // replace_url_prefix
+  url_prefix_from?: string
+  url_prefix_to?: string
+}
+
+export type BulkJobStatus = 'pending' | 'running' | 'completed' | 'failed'
+
+// 按条件操作大量书签时创建的后台任务
+export interface BulkJob {
+  id: string
+  action: BatchActionType
+  status: BulkJobStatus
+  total_count: number
+  processed_count: number
+  affected_count: number
+  errors: Array<{ bookmark_id: string; message: string }>
+  error: string | null
+  created_at: string
+  updated_at: string
+  completed_at: string | null
 }
 
 export interface BatchActionResponse {
   success: boolean
   affected_count: number
+  matched_count?: number
+  dry_run?: boolean
+  job?: BulkJob
   errors?: Array<{ bookmark_id: string; message: string }>
 }
 
+// 重复书签（规范化 URL 相同）
+export interface DuplicateBookmark extends Omit<Bookmark, 'tags'> {
+  tags: Array<Pick<Tag, 'id' | 'name' | 'color'>>
+}
+
+export interface DuplicateGroup {
+  canonical_url: string
+  bookmarks: DuplicateBookmark[]
+}
+
+export interface DuplicateGroupsResponse {
+  groups: DuplicateGroup[]
+  total_groups: number
+}
+
+export interface MergeDuplicatesRequest {
+  keep_id: string
+  merge_ids: string[]
+}
+
+export interface MergeDuplicatesResponse {
+  keep_id: string
+  merged_count: number
+}
+
 // 标签页组类型
 export interface TabGroup {
   id: string
@@ -335,6 +649,10 @@ export interface TabGroup {
   items?: TabGroupItem[]
   item_count?: number
   children?: TabGroup[]
+  /** 当前用户的访问角色，仅共享给我的分组和单个分组详情返回 */
+  access_role?: TabGroupAccessRole
+  /** 所有者用户名，仅共享给我的分组返回 */
+  owner_username?: string
 }
 
 export interface TabGroupItem {
@@ -348,6 +666,11 @@ export interface TabGroupItem {
   is_pinned?: number
   is_todo?: number
   is_archived?: number
+  created_by?: string | null
+  updated_by?: string | null
+  updated_at?: string | null
+  created_by_username?: string | null
+  updated_by_username?: string | null
 }
 
 export interface CreateTabGroupRequest {
@@ -383,16 +706,48 @@ export interface TabGroupResponse {
   tab_group: TabGroup
 }
 
+// 标签页组协作成员类型
+export type TabGroupMemberRole = 'viewer' | 'editor'
+export type TabGroupAccessRole = 'owner' | TabGroupMemberRole
+
+export interface TabGroupMember {
+  id: string
+  group_id: string
+  user_id: string
+  username: string
+  role: TabGroupMemberRole
+  invited_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface TabGroupMembersResponse {
+  owner: { id: string; username: string } | null
+  members: TabGroupMember[]
+  access_role: TabGroupAccessRole
+}
+
+export interface TabGroupMemberResponse {
+  member: TabGroupMember
+}
+
 // 分享类型
+export type ShareStatus = 'active' | 'private' | 'revoked' | 'expired' | 'view_limit_reached'
+
 export interface Share {
   id: string
   group_id: string
-  user_id: string
   share_token: string
-  is_public: number
+  share_url: string
+  is_public: boolean
+  has_password: boolean
+  max_views: number | null
   view_count: number
-  created_at: string
+  status: ShareStatus
   expires_at: string | null
+  revoked_at: string | null
+  created_at: string
+  updated_at: string | null
 }
 
 export interface ShareResponse {
@@ -400,6 +755,23 @@ export interface ShareResponse {
   share_url: string
 }
 
+/** 标签页组分享设置，省略的字段保持原值，null 表示取消对应限制 */
+export interface TabGroupShareSettings {
+  is_public?: boolean
+  expires_in_days?: number | null
+  password?: string | null
+  max_views?: number | null
+}
+
+export interface ShareListItem extends Share {
+  group_title: string
+  item_count: number
+}
+
+export interface SharesResponse {
+  shares: ShareListItem[]
+}
+
 // 统计类型
 export interface StatisticsSummary {
   total_groups: number
@@ -433,3 +805,132 @@ export interface StatisticsResponse {
   group_size_distribution: GroupSizeDistribution[]
 }
 
+// 管理后台类型
+export interface AdminUser {
+  id: string
+  username: string
+  email: string | null
+  role: string
+  created_at: string
+  disabled_at: string | null
+  bookmark_count: number
+  storage_bytes: number
+  last_login_at: string | null
+}
+
+export interface AdminUsersResponse {
+  users: AdminUser[]
+  meta: {
+    page: number
+    page_size: number
+    total: number
+  }
+}
+
+export interface AdminUserResponse {
+  user: AdminUser
+}
+
+export interface AdminResetPasswordResponse {
+  user_id: string
+  temporary_password: string | null
+}
+
+export interface RegistrationDay {
+  date: string
+  count: number
+  updated_at: string
+}
+
+export interface AdminRegistrationsResponse {
+  allowed: boolean
+  daily_limit: number
+  today: {
+    date: string
+    count: number
+  }
+  days: number
+  history: RegistrationDay[]
+}
+
+export interface AppSettings {
+  allow_registration: boolean
+  registration_daily_limit: number
+  invite_code_required: boolean
+  user_invite_quota: number
+  r2_max_total_bytes: number | null
+}
+
+export type AppSettingKey = keyof AppSettings
+
+export interface AppSettingRecord {
+  key: AppSettingKey
+  updated_by: string | null
+  updated_by_username: string | null
+  updated_at: string
+}
+
+export interface AdminSettingsResponse {
+  settings: AppSettings
+  defaults: AppSettings
+  overrides: Partial<AppSettings>
+  records: AppSettingRecord[]
+  usage: {
+    r2_used_bytes: number
+  }
+}
+
+export type UpdateAppSettingsRequest = Partial<AppSettings> & {
+  reset?: AppSettingKey[]
+}
+
+// 邀请码类型
+export type InviteCodeStatus = 'active' | 'expired' | 'exhausted' | 'revoked'
+
+export interface InviteCodeUse {
+  invite_code_id: string
+  user_id: string
+  username: string | null
+  created_at: string
+}
+
+export interface InviteCode {
+  id: string
+  code: string
+  created_by: string | null
+  created_by_username: string | null
+  max_uses: number
+  use_count: number
+  note: string | null
+  expires_at: string | null
+  revoked_at: string | null
+  created_at: string
+  status: InviteCodeStatus
+  uses: InviteCodeUse[]
+}
+
+export interface InviteCodeQuota {
+  used: number
+  limit: number
+}
+
+export interface CreateInviteCodeRequest {
+  /** 仅管理员可以设置大于 1 的值 */
+  max_uses?: number
+  /** null 表示永不过期（仅管理员） */
+  expires_in_days?: number | null
+  note?: string
+}
+
+export interface InviteCodesResponse {
+  invite_codes: InviteCode[]
+}
+
+export interface MyInviteCodesResponse extends InviteCodesResponse {
+  quota: InviteCodeQuota
+}
+
+export interface InviteCodeResponse {
+  invite_code: InviteCode
+  quota?: InviteCodeQuota
+}
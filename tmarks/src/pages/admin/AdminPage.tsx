@@ -0,0 +1,51 @@
+import { useState } from 'react'
+import { Navigate } from 'react-router-dom'
+import { useTranslation } from 'react-i18next'
+import { Users, UserPlus, Ticket, SlidersHorizontal } from 'lucide-react'
+import { useAuthStore } from '@/stores/authStore'
+import { SettingsTabs } from '@/components/settings/SettingsTabs'
+import { AdminUsersTab } from '@/components/admin/AdminUsersTab'
+import { AdminRegistrationsTab } from '@/components/admin/AdminRegistrationsTab'
+import { AdminSettingsTab } from '@/components/admin/AdminSettingsTab'
+import { InviteCodesPanel } from '@/components/invite-codes/InviteCodesPanel'
+
+export function AdminPage() {
+  const { t } = useTranslation('admin')
+  const user = useAuthStore((state) => state.user)
+  const [activeTab, setActiveTab] = useState('users')
+
+  // 非管理员直接返回首页（接口同样会拒绝访问）
+  if (user?.role !== 'admin') {
+    return <Navigate to="/" replace />
+  }
+
+  const tabs = [
+    { id: 'users', label: t('tabs.users'), icon: <Users className="w-4 h-4" /> },
+    { id: 'registrations', label: t('tabs.registrations'), icon: <UserPlus className="w-4 h-4" /> },
+    { id: 'invites', label: t('tabs.inviteCodes'), icon: <Ticket className="w-4 h-4" /> },
+    { id: 'settings', label: t('tabs.settings'), icon: <SlidersHorizontal className="w-4 h-4" /> },
+  ]
+
+  return (
+    <div className="w-full px-4 sm:px-6 lg:px-8 mx-auto space-y-4 sm:space-y-6">
+      {/* 页面标题卡片 */}
+      <div className="card p-4 sm:p-6">
+        <h1 className="text-xl sm:text-2xl font-bold text-foreground">{t('title')}</h1>
+        <p className="text-xs sm:text-sm text-muted-foreground mt-1">{t('description')}</p>
+      </div>
+
+      {/* 标签页容器卡片 */}
+      <div className="card p-3 sm:p-6">
+        <SettingsTabs tabs={tabs} activeTab={activeTab} onTabChange={setActiveTab}>
+          {activeTab === 'users' && <AdminUsersTab />}
+
+          {activeTab === 'registrations' && <AdminRegistrationsTab />}
+
+          {activeTab === 'invites' && <InviteCodesPanel admin />}
+
+          {activeTab === 'settings' && <AdminSettingsTab />}
+        </SettingsTabs>
+      </div>
+    </div>
+  )
+}
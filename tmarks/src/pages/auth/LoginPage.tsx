@@ -3,11 +3,13 @@ import { useNavigate, Link } from 'react-router-dom'
 import { useTranslation } from 'react-i18next'
 import { useAuthStore } from '@/stores/authStore'
 import { ApiError } from '@/lib/api-client'
+import type { TwoFactorChallengeResponse } from '@/lib/types'
 
 export function LoginPage() {
   const { t } = useTranslation('auth')
   const navigate = useNavigate()
   const login = useAuthStore((state) => state.login)
+  const verifyTwoFactor = useAuthStore((state) => state.verifyTwoFactor)
   const isLoading = useAuthStore((state) => state.isLoading)
 
   const [username, setUsername] = useState('')
@@ -16,6 +18,10 @@ export function LoginPage() {
   const [error, setError] = useState('')
   const [showPassword, setShowPassword] = useState(false)
 
+  // 两步验证第二步
+  const [challenge, setChallenge] = useState<TwoFactorChallengeResponse | null>(null)
+  const [twoFactorCode, setTwoFactorCode] = useState('')
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setError('')
@@ -26,17 +32,59 @@ export function LoginPage() {
     }
 
     try {
-      await login(username, password, rememberMe)
+      const pendingChallenge = await login(username, password, rememberMe)
+      if (pendingChallenge) {
+        setChallenge(pendingChallenge)
+        setTwoFactorCode('')
+        return
+      }
       navigate('/')
     } catch (err) {
       if (err instanceof ApiError) {
-        setError(err.message)
+        setError(err.code === 'ACCOUNT_DISABLED' ? t('error.accountDisabled') : err.message)
+      } else {
+        setError(t('error.loginFailed'))
+      }
+    }
+  }
+
+  const handleTwoFactorSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+
+    if (!challenge) return
+    if (!twoFactorCode.trim()) {
+      setError(t('validation.twoFactorCodeRequired'))
+      return
+    }
+
+    try {
+      await verifyTwoFactor(challenge.challenge_token, twoFactorCode.trim())
+      navigate('/')
+    } catch (err) {
+      if (err instanceof ApiError && err.code === 'INVALID_TWO_FACTOR_CODE') {
+        setError(t('error.twoFactorCodeInvalid'))
+        setTwoFactorCode('')
+      } else if (err instanceof ApiError && err.code === 'TWO_FACTOR_CHALLENGE_INVALID') {
+        // 挑战过期或尝试次数用完，需要重新输入密码
+        setChallenge(null)
+        setPassword('')
+        setError(t('error.twoFactorChallengeExpired'))
+      } else if (err instanceof ApiError) {
+        setError(err.code === 'ACCOUNT_DISABLED' ? t('error.accountDisabled') : err.message)
       } else {
         setError(t('error.loginFailed'))
       }
     }
   }
 
+  const handleBackToLogin = () => {
+    setChallenge(null)
+    setTwoFactorCode('')
+    setPassword('')
+    setError('')
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center p-4 relative overflow-hidden bg-gradient-to-br from-background via-background to-primary/5">
       {/* 背景装饰 */}
@@ -56,7 +104,9 @@ export function LoginPage() {
           <h2 className="text-3xl font-bold mb-2 text-primary">
             {t('login.title')}
           </h2>
-          <p className="text-base-content/60 text-sm">{t('login.subtitle')}</p>
+          <p className="text-base-content/60 text-sm">
+            {challenge ? t('twoFactor.subtitle') : t('login.subtitle')}
+          </p>
         </div>
 
         {error && (
@@ -70,86 +120,122 @@ export function LoginPage() {
           </div>
         )}
 
-        <form onSubmit={handleSubmit} className="space-y-5">
-          <div>
-            <label htmlFor="username" className="block text-sm font-semibold mb-2 text-base-content">
-              {t('login.username')}
-            </label>
-            <input
-              id="username"
-              type="text"
-              className="input"
-              placeholder={t('login.usernamePlaceholder')}
-              value={username}
-              onChange={(e) => setUsername(e.target.value)}
-              disabled={isLoading}
-              autoComplete="username"
-            />
-          </div>
-
-          <div>
-            <label htmlFor="password" className="block text-sm font-semibold mb-2 text-base-content">
-              {t('login.password')}
-            </label>
-            <div className="relative">
+        {challenge ? (
+          <form onSubmit={handleTwoFactorSubmit} className="space-y-5">
+            <div>
+              <label htmlFor="two-factor-code" className="block text-sm font-semibold mb-2 text-base-content">
+                {t('twoFactor.code')}
+              </label>
               <input
-                id="password"
-                type={showPassword ? "text" : "password"}
-                className="input pr-12"
-                placeholder={t('login.passwordPlaceholder')}
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
+                id="two-factor-code"
+                type="text"
+                className="input font-mono tracking-widest"
+                placeholder={t('twoFactor.codePlaceholder')}
+                value={twoFactorCode}
+                onChange={(e) => setTwoFactorCode(e.target.value)}
                 disabled={isLoading}
-                autoComplete="current-password"
+                autoComplete="one-time-code"
+                autoFocus
+                maxLength={32}
               />
-              <button
-                type="button"
-                onClick={() => setShowPassword(!showPassword)}
-                className="absolute right-3 top-1/2 -translate-y-1/2 text-base-content/40 hover:text-base-content/70 transition-colors p-1"
-                tabIndex={-1}
-              >
-                {showPassword ? (
-                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.88 9.88l-3.29-3.29m7.532 7.532l3.29 3.29M3 3l3.59 3.59m0 0A9.953 9.953 0 0112 5c4.478 0 8.268 2.943 9.543 7a10.025 10.025 0 01-4.132 5.411m0 0L21 21" />
-                  </svg>
-                ) : (
-                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
-                  </svg>
-                )}
-              </button>
+              <p className="mt-2 text-xs text-base-content/60">{t('twoFactor.recoveryHint')}</p>
             </div>
-          </div>
 
-          <div className="flex items-center">
-            <input
-              id="remember"
-              type="checkbox"
-              className="checkbox mr-3"
-              checked={rememberMe}
-              onChange={(e) => setRememberMe(e.target.checked)}
+            <button type="submit" className="btn w-full mt-6" disabled={isLoading}>
+              {isLoading ? t('twoFactor.verifying') : t('twoFactor.verify')}
+            </button>
+
+            <button
+              type="button"
+              onClick={handleBackToLogin}
+              className="w-full text-sm text-base-content/60 hover:text-base-content transition-colors"
               disabled={isLoading}
-            />
-            <label htmlFor="remember" className="text-sm font-medium cursor-pointer">
-              {t('login.rememberMe')}
-            </label>
-          </div>
+            >
+              {t('twoFactor.back')}
+            </button>
+          </form>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-5">
+            <div>
+              <label htmlFor="username" className="block text-sm font-semibold mb-2 text-base-content">
+                {t('login.username')}
+              </label>
+              <input
+                id="username"
+                type="text"
+                className="input"
+                placeholder={t('login.usernamePlaceholder')}
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                disabled={isLoading}
+                autoComplete="username"
+              />
+            </div>
+
+            <div>
+              <label htmlFor="password" className="block text-sm font-semibold mb-2 text-base-content">
+                {t('login.password')}
+              </label>
+              <div className="relative">
+                <input
+                  id="password"
+                  type={showPassword ? "text" : "password"}
+                  className="input pr-12"
+                  placeholder={t('login.passwordPlaceholder')}
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  disabled={isLoading}
+                  autoComplete="current-password"
+                />
+                <button
+                  type="button"
+                  onClick={() => setShowPassword(!showPassword)}
+                  className="absolute right-3 top-1/2 -translate-y-1/2 text-base-content/40 hover:text-base-content/70 transition-colors p-1"
+                  tabIndex={-1}
+                >
+                  {showPassword ? (
+                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.88 9.88l-3.29-3.29m7.532 7.532l3.29 3.29M3 3l3.59 3.59m0 0A9.953 9.953 0 0112 5c4.478 0 8.268 2.943 9.543 7a10.025 10.025 0 01-4.132 5.411m0 0L21 21" />
+                    </svg>
+                  ) : (
+                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+                    </svg>
+                  )}
+                </button>
+              </div>
+            </div>
+
+            <div className="flex items-center">
+              <input
+                id="remember"
+                type="checkbox"
+                className="checkbox mr-3"
+                checked={rememberMe}
+                onChange={(e) => setRememberMe(e.target.checked)}
+                disabled={isLoading}
+              />
+              <label htmlFor="remember" className="text-sm font-medium cursor-pointer">
+                {t('login.rememberMe')}
+              </label>
+            </div>
 
-          <button type="submit" className="btn w-full mt-6" disabled={isLoading}>
-            {isLoading ? (
-              <span className="flex items-center justify-center gap-2">
-                <svg className="animate-spin h-5 w-5" viewBox="0 0 24 24" fill="none">
-                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                </svg>
-                {t('login.submitting')}
-              </span>
-            ) : (
-              t('login.submit')
-            )}
-          </button>
-        </form>
+            <button type="submit" className="btn w-full mt-6" disabled={isLoading}>
+              {isLoading ? (
+                <span className="flex items-center justify-center gap-2">
+                  <svg className="animate-spin h-5 w-5" viewBox="0 0 24 24" fill="none">
+                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                  </svg>
+                  {t('login.submitting')}
+                </span>
+              ) : (
+                t('login.submit')
+              )}
+            </button>
+          </form>
+        )}
 
         <div className="mt-8 pt-6 border-t border-base-300/50">
           <p className="text-center text-sm text-base-content/60">
@@ -1,12 +1,24 @@
-import { useState } from 'react'
-import { useNavigate, Link } from 'react-router-dom'
+import { useState, useEffect } from 'react'
+import { useNavigate, useSearchParams, Link } from 'react-router-dom'
 import { useTranslation } from 'react-i18next'
 import { useAuthStore } from '@/stores/authStore'
+import { authService } from '@/services/auth'
 import { ApiError } from '@/lib/api-client'
+import type { RegistrationInfo } from '@/lib/types'
+
+/** 邀请码相关的后端错误码对应的提示文案 */
+const INVITE_ERROR_KEYS: Record<string, string> = {
+  INVITE_CODE_REQUIRED: 'error.inviteCodeRequired',
+  INVITE_CODE_INVALID: 'error.inviteCodeInvalid',
+  INVITE_CODE_REVOKED: 'error.inviteCodeRevoked',
+  INVITE_CODE_EXHAUSTED: 'error.inviteCodeExhausted',
+  INVITE_CODE_EXPIRED: 'error.inviteCodeExpired',
+}
 
 export function RegisterPage() {
   const { t } = useTranslation('auth')
   const navigate = useNavigate()
+  const [searchParams] = useSearchParams()
   const register = useAuthStore((state) => state.register)
   const isLoading = useAuthStore((state) => state.isLoading)
 
@@ -14,11 +26,27 @@ export function RegisterPage() {
   const [email, setEmail] = useState('')
   const [password, setPassword] = useState('')
   const [confirmPassword, setConfirmPassword] = useState('')
+  // 邀请链接 /register?invite=XXXX-XXXX-XXXX 自动填入邀请码
+  const [inviteCode, setInviteCode] = useState(() => searchParams.get('invite') || '')
+  const [registrationInfo, setRegistrationInfo] = useState<RegistrationInfo | null>(null)
   const [error, setError] = useState('')
   const [success, setSuccess] = useState(false)
   const [showPassword, setShowPassword] = useState(false)
   const [showConfirmPassword, setShowConfirmPassword] = useState(false)
 
+  useEffect(() => {
+    authService
+      .getRegistrationInfo()
+      .then(setRegistrationInfo)
+      .catch((err) => {
+        // 获取失败时仍然显示可选的邀请码输入框，由注册接口做最终校验
+        console.error('Failed to load registration info:', err)
+      })
+  }, [])
+
+  const inviteRequired = registrationInfo?.invite_required ?? false
+  const registrationClosed = registrationInfo !== null && !registrationInfo.allowed
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setError('')
@@ -53,16 +81,26 @@ export function RegisterPage() {
       return
     }
 
+    if (inviteRequired && !inviteCode.trim()) {
+      setError(t('error.inviteCodeRequired'))
+      return
+    }
+
     try {
-      await register(username, password, email || undefined)
+      await register(username, password, email || undefined, inviteCode.trim() || undefined)
       setSuccess(true)
       setTimeout(() => {
         navigate('/login')
       }, 2000)
     } catch (err) {
       if (err instanceof ApiError) {
+        const inviteErrorKey = INVITE_ERROR_KEYS[err.code]
         if (err.status === 409) {
           setError(t('error.userExists'))
+        } else if (err.code === 'REGISTRATION_LIMIT_REACHED') {
+          setError(t('error.registrationLimitReached'))
+        } else if (inviteErrorKey) {
+          setError(t(inviteErrorKey))
         } else if (err.status === 500) {
           setError(t('error.serverErrorMaySuccess'))
         } else {
@@ -122,6 +160,12 @@ export function RegisterPage() {
           <p className="text-base-content/60 text-sm">{t('register.subtitle')}</p>
         </div>
 
+        {registrationClosed && !error && (
+          <div className="mb-6 p-4 bg-warning/10 border-2 border-warning/30 text-warning rounded-xl text-sm">
+            {t('register.closed')}
+          </div>
+        )}
+
         {error && (
           <div className="mb-6 p-4 bg-error/10 border-2 border-error/30 text-error rounded-xl text-sm shadow-float animate-fade-in">
             <div className="flex items-center gap-2">
@@ -167,6 +211,28 @@ export function RegisterPage() {
             />
           </div>
 
+          <div>
+            <label htmlFor="inviteCode" className="block text-sm font-semibold mb-2 text-base-content">
+              {t('register.inviteCode')}{' '}
+              {inviteRequired ? (
+                <span className="text-error text-base">*</span>
+              ) : (
+                <span className="text-xs font-normal text-base-content/50">{t('register.inviteCodeOptional')}</span>
+              )}
+            </label>
+            <input
+              id="inviteCode"
+              type="text"
+              className="input font-mono uppercase"
+              placeholder={t('register.inviteCodePlaceholder')}
+              value={inviteCode}
+              onChange={(e) => setInviteCode(e.target.value)}
+              disabled={isLoading}
+              autoComplete="off"
+              spellCheck={false}
+            />
+          </div>
+
           <div className="grid grid-cols-2 gap-4">
             <div>
               <label htmlFor="password" className="block text-sm font-semibold mb-2 text-base-content">
@@ -0,0 +1,311 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Copy, ArrowLeft, Calendar, Camera, Link2, Merge, MousePointerClick, RefreshCw } from 'lucide-react'
+import { Link } from 'react-router-dom'
+import { formatDistanceToNow } from 'date-fns'
+import { zhCN, enUS } from 'date-fns/locale'
+import { bookmarksService } from '@/services/bookmarks'
+import type { DuplicateGroup } from '@/lib/types'
+import { useToastStore } from '@/stores/toastStore'
+import { ConfirmDialog } from '@/components/common/ConfirmDialog'
+import { logger } from '@/lib/logger'
+import { useIsMobile } from '@/hooks/useMediaQuery'
+import { MobileHeader } from '@/components/common/MobileHeader'
+
+/** 与服务端单次合并上限保持一致，超出时分批合并 */
+const MERGE_CHUNK_SIZE = 18
+
+export function BookmarkDuplicatesPage() {
+  const { t, i18n } = useTranslation('bookmarks')
+  const dateLocale = i18n.language === 'zh-CN' ? zhCN : enUS
+  const isMobile = useIsMobile()
+  const { success, error: showError } = useToastStore()
+  const [groups, setGroups] = useState<DuplicateGroup[]>([])
+  const [totalGroups, setTotalGroups] = useState(0)
+  // 每组选中保留的书签，默认保留最早创建的
+  const [keepIds, setKeepIds] = useState<Record<string, string>>({})
+  const [mergingUrl, setMergingUrl] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isRescanning, setIsRescanning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [confirmGroup, setConfirmGroup] = useState<DuplicateGroup | null>(null)
+
+  const loadDuplicates = useCallback(async (rescan = false) => {
+    try {
+      if (rescan) {
+        setIsRescanning(true)
+      } else {
+        setIsLoading(true)
+      }
+      setError(null)
+      const response = await bookmarksService.getDuplicates({ rescan })
+      setGroups(response.groups)
+      setTotalGroups(response.total_groups)
+      setKeepIds(
+        Object.fromEntries(response.groups.map(group => [group.canonical_url, group.bookmarks[0]!.id]))
+      )
+    } catch (err) {
+      logger.error('Failed to load duplicate bookmarks:', err)
+      setError(t('duplicates.loadFailed'))
+    } finally {
+      setIsLoading(false)
+      setIsRescanning(false)
+    }
+  }, [t])
+
+  useEffect(() => {
+    loadDuplicates()
+  }, [loadDuplicates])
+
+  const handleMerge = async (group: DuplicateGroup) => {
+    setConfirmGroup(null)
+    const keepId = keepIds[group.canonical_url] ?? group.bookmarks[0]!.id
+    const mergeIds = group.bookmarks.map(b => b.id).filter(id => id !== keepId)
+
+    setMergingUrl(group.canonical_url)
+    try {
+      let mergedCount = 0
+      for (let i = 0; i < mergeIds.length; i += MERGE_CHUNK_SIZE) {
+        const result = await bookmarksService.mergeDuplicates({
+          keep_id: keepId,
+          merge_ids: mergeIds.slice(i, i + MERGE_CHUNK_SIZE),
+        })
+        mergedCount += result.merged_count
+      }
+      setGroups(prev => prev.filter(g => g.canonical_url !== group.canonical_url))
+      setTotalGroups(prev => Math.max(prev - 1, 0))
+      success(t('duplicates.mergeSuccess', { count: mergedCount }))
+    } catch (err) {
+      logger.error('Failed to merge duplicate bookmarks:', err)
+      showError(t('duplicates.mergeFailed'))
+    } finally {
+      setMergingUrl(null)
+    }
+  }
+
+  const rescanButton = (
+    <button
+      onClick={() => loadDuplicates(true)}
+      disabled={isRescanning}
+      className="flex items-center gap-2 px-3 py-1.5 sm:px-4 sm:py-2 text-sm border border-border rounded-lg hover:bg-muted transition-colors disabled:opacity-50"
+      title={t('duplicates.rescanHint')}
+    >
+      <RefreshCw className={`w-4 h-4 ${isRescanning ? 'animate-spin' : ''}`} />
+      {isRescanning ? t('duplicates.rescanning') : t('duplicates.rescan')}
+    </button>
+  )
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">{t('duplicates.loading')}</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <p className="text-destructive mb-4">{error}</p>
+          <button
+            onClick={() => loadDuplicates()}
+            className="px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90"
+          >
+            {t('duplicates.retry')}
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className={`h-screen flex flex-col bg-background ${isMobile ? 'overflow-hidden' : ''}`}>
+      {/* 移动端顶部工具栏 */}
+      {isMobile && (
+        <MobileHeader
+          title={t('duplicates.title')}
+          showMenu={false}
+          showSearch={false}
+          showMore={false}
+        />
+      )}
+
+      <div className={`flex-1 overflow-y-auto ${isMobile ? 'pb-20 min-h-0' : ''}`}>
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {/* Header - 桌面端显示 */}
+          {!isMobile && (
+            <div className="mb-8">
+              <Link
+                to="/bookmarks"
+                className="inline-flex items-center gap-2 text-muted-foreground hover:text-foreground mb-4 transition-colors"
+              >
+                <ArrowLeft className="w-5 h-5" />
+                <span>{t('duplicates.backToBookmarks')}</span>
+              </Link>
+              <div className="flex items-center justify-between">
+                <div>
+                  <div className="flex items-center gap-3 mb-2">
+                    <Copy className="w-8 h-8 text-muted-foreground" />
+                    <h1 className="text-3xl font-bold text-foreground">{t('duplicates.title')}</h1>
+                  </div>
+                  <p className="text-muted-foreground">{t('duplicates.description')}</p>
+                </div>
+                {rescanButton}
+              </div>
+            </div>
+          )}
+
+          {isMobile && <div className="mb-4 flex justify-end">{rescanButton}</div>}
+
+          {/* Empty State */}
+          {groups.length === 0 ? (
+            <div className="text-center py-16">
+              <Copy className="w-16 h-16 text-muted-foreground/30 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-foreground mb-2">{t('duplicates.emptyState.title')}</h3>
+              <p className="text-muted-foreground">{t('duplicates.emptyState.description')}</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                {totalGroups > groups.length
+                  ? t('duplicates.summaryPartial', { count: totalGroups, shown: groups.length })
+                  : t('duplicates.summary', { count: totalGroups })}
+              </p>
+
+              {groups.map((group) => {
+                const keepId = keepIds[group.canonical_url] ?? group.bookmarks[0]!.id
+                const isMerging = mergingUrl === group.canonical_url
+
+                return (
+                  <div key={group.canonical_url} className="card p-4 sm:p-6">
+                    <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+                      <div className="min-w-0">
+                        <p className="text-xs text-muted-foreground">{t('duplicates.canonicalUrl')}</p>
+                        <p className="text-sm font-medium text-foreground truncate" title={group.canonical_url}>
+                          {group.canonical_url}
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => setConfirmGroup(group)}
+                        disabled={mergingUrl !== null}
+                        className="flex items-center gap-2 px-3 py-1.5 sm:px-4 sm:py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors text-sm flex-shrink-0 disabled:opacity-50"
+                      >
+                        <Merge className="w-4 h-4" />
+                        {isMerging ? t('duplicates.merging') : t('duplicates.merge', { count: group.bookmarks.length })}
+                      </button>
+                    </div>
+
+                    <div className="space-y-2">
+                      {group.bookmarks.map((bookmark) => (
+                        <label
+                          key={bookmark.id}
+                          className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${
+                            bookmark.id === keepId ? 'border-primary bg-primary/5' : 'border-border hover:bg-muted/50'
+                          }`}
+                        >
+                          <input
+                            type="radio"
+                            name={`keep-${group.canonical_url}`}
+                            className="mt-1"
+                            checked={bookmark.id === keepId}
+                            disabled={isMerging}
+                            onChange={() => setKeepIds(prev => ({ ...prev, [group.canonical_url]: bookmark.id }))}
+                          />
+                          {bookmark.favicon ? (
+                            <img
+                              src={bookmark.favicon}
+                              alt=""
+                              className="w-5 h-5 rounded flex-shrink-0 mt-0.5"
+                              onError={(e) => {
+                                (e.target as HTMLImageElement).style.display = 'none'
+                              }}
+                            />
+                          ) : (
+                            <Link2 className="w-5 h-5 text-muted-foreground flex-shrink-0 mt-0.5" />
+                          )}
+                          <div className="min-w-0 flex-1">
+                            <div className="flex items-center gap-2">
+                              <h3 className="text-sm font-semibold text-foreground truncate">{bookmark.title}</h3>
+                              {bookmark.id === keepId && (
+                                <span className="px-1.5 py-0.5 text-xs rounded bg-primary/10 text-primary flex-shrink-0">
+                                  {t('duplicates.keep')}
+                                </span>
+                              )}
+                            </div>
+                            <a
+                              href={bookmark.url}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="block text-xs text-muted-foreground truncate hover:underline"
+                              onClick={(e) => e.stopPropagation()}
+                            >
+                              {bookmark.url}
+                            </a>
+                            <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-1.5 text-xs text-muted-foreground">
+                              <span className="flex items-center gap-1">
+                                <Calendar className="w-3.5 h-3.5" />
+                                {t('duplicates.createdAt', {
+                                  time: formatDistanceToNow(new Date(bookmark.created_at), {
+                                    addSuffix: true,
+                                    locale: dateLocale,
+                                  }),
+                                })}
+                              </span>
+                              <span className="flex items-center gap-1">
+                                <MousePointerClick className="w-3.5 h-3.5" />
+                                {t('duplicates.clicks', { count: bookmark.click_count })}
+                              </span>
+                              {(bookmark.snapshot_count ?? 0) > 0 && (
+                                <span className="flex items-center gap-1">
+                                  <Camera className="w-3.5 h-3.5" />
+                                  {t('snapshot.count', { count: bookmark.snapshot_count })}
+                                </span>
+                              )}
+                            </div>
+                            {bookmark.tags.length > 0 && (
+                              <div className="flex flex-wrap gap-1 mt-1.5">
+                                {bookmark.tags.map((tag) => (
+                                  <span key={tag.id} className="px-1.5 py-0.5 text-xs rounded bg-muted text-foreground">
+                                    {tag.name}
+                                  </span>
+                                ))}
+                              </div>
+                            )}
+                          </div>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          )}
+
+          {/* Confirm Dialog */}
+          <ConfirmDialog
+            isOpen={confirmGroup !== null}
+            title={t('duplicates.mergeTitle')}
+            message={
+              confirmGroup
+                ? t('duplicates.mergeMessage', {
+                    count: confirmGroup.bookmarks.length - 1,
+                    title:
+                      confirmGroup.bookmarks.find(b => b.id === keepIds[confirmGroup.canonical_url])?.title ??
+                      confirmGroup.bookmarks[0]!.title,
+                  })
+                : ''
+            }
+            onConfirm={() => confirmGroup && handleMerge(confirmGroup)}
+            onCancel={() => setConfirmGroup(null)}
+            confirmText={t('duplicates.mergeConfirm')}
+            cancelText={t('batch.cancel')}
+          />
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,278 @@
+import { useState, useEffect } from 'react'
+import { useTranslation } from 'react-i18next'
+import { ArrowLeft, BookOpen, BookOpenCheck, Calendar, CheckCircle, Link2, RotateCcw, X } from 'lucide-react'
+import { Link } from 'react-router-dom'
+import { formatDistanceToNow } from 'date-fns'
+import { zhCN, enUS } from 'date-fns/locale'
+import { useInfiniteBookmarks, useRecordClick, useUpdateReadingState } from '@/hooks/useBookmarks'
+import type { Bookmark, ReadingStatus, UpdateReadingStateRequest } from '@/lib/types'
+import { useToastStore } from '@/stores/toastStore'
+import { logger } from '@/lib/logger'
+import { useIsMobile } from '@/hooks/useMediaQuery'
+import { MobileHeader } from '@/components/common/MobileHeader'
+
+type ReadLaterTab = 'queue' | 'read'
+
+const TAB_STATUSES: Record<ReadLaterTab, ReadingStatus[]> = {
+  queue: ['unread', 'reading'],
+  read: ['read'],
+}
+
+export function BookmarkReadLaterPage() {
+  const { t } = useTranslation('bookmarks')
+  const isMobile = useIsMobile()
+  const [tab, setTab] = useState<ReadLaterTab>('queue')
+
+  const bookmarksQuery = useInfiniteBookmarks({
+    sort: 'queue',
+    reading_status: TAB_STATUSES[tab],
+    page_size: 30,
+  })
+  const bookmarks = bookmarksQuery.data?.pages.flatMap(page => page.bookmarks) ?? []
+
+  return (
+    <div className={`h-screen flex flex-col bg-background ${isMobile ? 'overflow-hidden' : ''}`}>
+      {/* 移动端顶部工具栏 */}
+      {isMobile && (
+        <MobileHeader
+          title={t('readLater.title')}
+          showMenu={false}
+          showSearch={false}
+          showMore={false}
+        />
+      )}
+
+      <div className={`flex-1 overflow-y-auto ${isMobile ? 'pb-20 min-h-0' : ''}`}>
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {/* Header - 桌面端显示 */}
+          {!isMobile && (
+            <div className="mb-8">
+              <Link
+                to="/bookmarks"
+                className="inline-flex items-center gap-2 text-muted-foreground hover:text-foreground mb-4 transition-colors"
+              >
+                <ArrowLeft className="w-5 h-5" />
+                <span>{t('readLater.backToBookmarks')}</span>
+              </Link>
+              <div className="flex items-center gap-3 mb-2">
+                <BookOpen className="w-8 h-8 text-muted-foreground" />
+                <h1 className="text-3xl font-bold text-foreground">{t('readLater.title')}</h1>
+              </div>
+              <p className="text-muted-foreground">{t('readLater.description')}</p>
+            </div>
+          )}
+
+          {/* 队列 / 已读 切换 */}
+          <div className="flex gap-2 mb-6">
+            {(['queue', 'read'] as ReadLaterTab[]).map((value) => (
+              <button
+                key={value}
+                onClick={() => setTab(value)}
+                className={`px-3 py-1.5 sm:px-4 sm:py-2 text-sm rounded-lg border transition-colors ${
+                  tab === value
+                    ? 'bg-primary text-primary-foreground border-primary'
+                    : 'border-border hover:bg-muted'
+                }`}
+              >
+                {t(`readLater.tabs.${value}`)}
+              </button>
+            ))}
+          </div>
+
+          {bookmarksQuery.isLoading ? (
+            <div className="flex items-center justify-center min-h-[300px]">
+              <div className="text-center">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+                <p className="text-muted-foreground">{t('readLater.loading')}</p>
+              </div>
+            </div>
+          ) : bookmarksQuery.isError ? (
+            <div className="flex items-center justify-center min-h-[300px]">
+              <div className="text-center">
+                <p className="text-destructive mb-4">{t('readLater.loadFailed')}</p>
+                <button
+                  onClick={() => bookmarksQuery.refetch()}
+                  className="px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90"
+                >
+                  {t('readLater.retry')}
+                </button>
+              </div>
+            </div>
+          ) : bookmarks.length === 0 ? (
+            <div className="text-center py-16">
+              <BookOpen className="w-16 h-16 text-muted-foreground/30 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-foreground mb-2">{t(`readLater.emptyState.${tab}.title`)}</h3>
+              <p className="text-muted-foreground">{t(`readLater.emptyState.${tab}.description`)}</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {bookmarks.map((bookmark) => (
+                <ReadLaterItem key={bookmark.id} bookmark={bookmark} />
+              ))}
+
+              {bookmarksQuery.hasNextPage && (
+                <div className="flex justify-center pt-2">
+                  <button
+                    onClick={() => bookmarksQuery.fetchNextPage()}
+                    disabled={bookmarksQuery.isFetchingNextPage}
+                    className="px-4 py-2 text-sm border border-border rounded-lg hover:bg-muted transition-colors disabled:opacity-50"
+                  >
+                    {bookmarksQuery.isFetchingNextPage ? t('readLater.loading') : t('readLater.loadMore')}
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+function ReadLaterItem({ bookmark }: { bookmark: Bookmark }) {
+  const { t, i18n } = useTranslation('bookmarks')
+  const dateLocale = i18n.language === 'zh-CN' ? zhCN : enUS
+  const { addToast } = useToastStore()
+  const recordClick = useRecordClick()
+  const updateReadingState = useUpdateReadingState()
+  const status = bookmark.reading_status ?? 'unread'
+  const [progress, setProgress] = useState(bookmark.reading_progress ?? 0)
+
+  useEffect(() => {
+    setProgress(bookmark.reading_progress ?? 0)
+  }, [bookmark.reading_progress])
+
+  const update = async (data: UpdateReadingStateRequest) => {
+    try {
+      await updateReadingState.mutateAsync({ id: bookmark.id, data })
+    } catch (err) {
+      logger.error('Failed to update reading state:', err)
+      addToast('error', t('readLater.updateFailed'))
+    }
+  }
+
+  const handleOpen = () => {
+    recordClick.mutate(bookmark.id)
+    window.open(bookmark.url, '_blank', 'noopener,noreferrer')
+    // 打开未读书签时自动标记为阅读中
+    if (status === 'unread') {
+      update({ status: 'reading' })
+    }
+  }
+
+  const commitProgress = () => {
+    if (progress !== (bookmark.reading_progress ?? 0)) {
+      update({ progress })
+    }
+  }
+
+  const timestamp = status === 'read' && bookmark.read_at
+    ? t('readLater.readAt', { time: formatDistanceToNow(new Date(bookmark.read_at), { addSuffix: true, locale: dateLocale }) })
+    : bookmark.reading_queued_at
+      ? t('readLater.queuedAt', { time: formatDistanceToNow(new Date(bookmark.reading_queued_at), { addSuffix: true, locale: dateLocale }) })
+      : null
+
+  return (
+    <div className="card p-4">
+      <div className="flex items-start gap-3">
+        {bookmark.favicon ? (
+          <img
+            src={bookmark.favicon}
+            alt=""
+            className="w-5 h-5 rounded flex-shrink-0 mt-0.5"
+            onError={(e) => {
+              (e.target as HTMLImageElement).style.display = 'none'
+            }}
+          />
+        ) : (
+          <Link2 className="w-5 h-5 text-muted-foreground flex-shrink-0 mt-0.5" />
+        )}
+
+        <div className="min-w-0 flex-1">
+          <button
+            onClick={handleOpen}
+            className="block w-full text-left text-sm font-semibold text-foreground truncate hover:text-primary transition-colors"
+            title={bookmark.title}
+          >
+            {bookmark.title}
+          </button>
+          <p className="text-xs text-muted-foreground truncate">{bookmark.url}</p>
+
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-1.5 text-xs text-muted-foreground">
+            <span className={`px-1.5 py-0.5 rounded ${status === 'read' ? 'bg-success/10 text-success' : 'bg-primary/10 text-primary'}`}>
+              {t(`readLater.status.${status}`)}
+            </span>
+            {timestamp && (
+              <span className="flex items-center gap-1">
+                <Calendar className="w-3.5 h-3.5" />
+                {timestamp}
+              </span>
+            )}
+          </div>
+
+          {/* 阅读进度 */}
+          {status !== 'read' && (
+            <div className="flex items-center gap-3 mt-3">
+              <input
+                type="range"
+                min={0}
+                max={100}
+                step={5}
+                value={progress}
+                onChange={(e) => setProgress(Number(e.target.value))}
+                onMouseUp={commitProgress}
+                onTouchEnd={commitProgress}
+                onKeyUp={commitProgress}
+                className="flex-1 accent-primary"
+                aria-label={t('readLater.progress')}
+              />
+              <span className="w-10 text-right text-xs text-muted-foreground tabular-nums">{progress}%</span>
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center gap-1 flex-shrink-0">
+          {status === 'read' ? (
+            <button
+              onClick={() => update({ status: 'unread' })}
+              disabled={updateReadingState.isPending}
+              className="p-2 rounded-lg hover:bg-muted transition-colors"
+              title={t('readLater.markUnread')}
+            >
+              <RotateCcw className="w-4 h-4" />
+            </button>
+          ) : (
+            <>
+              {status === 'unread' && (
+                <button
+                  onClick={() => update({ status: 'reading' })}
+                  disabled={updateReadingState.isPending}
+                  className="p-2 rounded-lg hover:bg-muted transition-colors"
+                  title={t('readLater.startReading')}
+                >
+                  <BookOpenCheck className="w-4 h-4" />
+                </button>
+              )}
+              <button
+                onClick={() => update({ status: 'read' })}
+                disabled={updateReadingState.isPending}
+                className="p-2 rounded-lg hover:bg-success/10 hover:text-success transition-colors"
+                title={t('readLater.markRead')}
+              >
+                <CheckCircle className="w-4 h-4" />
+              </button>
+            </>
+          )}
+          <button
+            onClick={() => update({ status: null })}
+            disabled={updateReadingState.isPending}
+            className="p-2 rounded-lg hover:bg-destructive/10 hover:text-destructive transition-colors"
+            title={t('readLater.remove')}
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
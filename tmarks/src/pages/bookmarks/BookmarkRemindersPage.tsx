@@ -0,0 +1,360 @@
+import { useState, useEffect } from 'react'
+import { useTranslation } from 'react-i18next'
+import { AlarmClock, ArrowLeft, Bell, CheckCircle, Link2, RefreshCw, Sparkles, X } from 'lucide-react'
+import { Link } from 'react-router-dom'
+import { formatDistanceToNow } from 'date-fns'
+import { zhCN, enUS } from 'date-fns/locale'
+import { useRecordClick } from '@/hooks/useBookmarks'
+import {
+  useDueReminders,
+  useReminders,
+  useResurfacingSettings,
+  useUpdateReminder,
+  useUpdateResurfacingSettings,
+} from '@/hooks/useReminders'
+import type { ReminderAction, ReminderWithBookmark, UpdateResurfacingSettingsRequest } from '@/lib/types'
+import { useToastStore } from '@/stores/toastStore'
+import { logger } from '@/lib/logger'
+import { useIsMobile } from '@/hooks/useMediaQuery'
+import { MobileHeader } from '@/components/common/MobileHeader'
+
+const SNOOZE_OPTIONS = [1, 7] as const
+
+export function BookmarkRemindersPage() {
+  const { t } = useTranslation('bookmarks')
+  const isMobile = useIsMobile()
+
+  const dueQuery = useDueReminders()
+  const remindersQuery = useReminders()
+  const dueReminders = dueQuery.data ?? []
+  const dueIds = new Set(dueReminders.map((reminder) => reminder.id))
+  const upcomingReminders = (remindersQuery.data ?? []).filter((reminder) => !dueIds.has(reminder.id))
+
+  const isLoading = dueQuery.isLoading || remindersQuery.isLoading
+  const isError = dueQuery.isError || remindersQuery.isError
+
+  return (
+    <div className={`h-screen flex flex-col bg-background ${isMobile ? 'overflow-hidden' : ''}`}>
+      {/* 移动端顶部工具栏 */}
+      {isMobile && (
+        <MobileHeader
+          title={t('reminders.title')}
+          showMenu={false}
+          showSearch={false}
+          showMore={false}
+        />
+      )}
+
+      <div className={`flex-1 overflow-y-auto ${isMobile ? 'pb-20 min-h-0' : ''}`}>
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {/* Header - 桌面端显示 */}
+          {!isMobile && (
+            <div className="mb-8">
+              <Link
+                to="/bookmarks"
+                className="inline-flex items-center gap-2 text-muted-foreground hover:text-foreground mb-4 transition-colors"
+              >
+                <ArrowLeft className="w-5 h-5" />
+                <span>{t('reminders.backToBookmarks')}</span>
+              </Link>
+              <div className="flex items-center gap-3 mb-2">
+                <Bell className="w-8 h-8 text-muted-foreground" />
+                <h1 className="text-3xl font-bold text-foreground">{t('reminders.title')}</h1>
+              </div>
+              <p className="text-muted-foreground">{t('reminders.description')}</p>
+            </div>
+          )}
+
+          <ResurfacingSettingsCard />
+
+          {isLoading ? (
+            <div className="flex items-center justify-center min-h-[300px]">
+              <div className="text-center">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+                <p className="text-muted-foreground">{t('reminders.loading')}</p>
+              </div>
+            </div>
+          ) : isError ? (
+            <div className="flex items-center justify-center min-h-[300px]">
+              <div className="text-center">
+                <p className="text-destructive mb-4">{t('reminders.loadFailed')}</p>
+                <button
+                  onClick={() => {
+                    dueQuery.refetch()
+                    remindersQuery.refetch()
+                  }}
+                  className="px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90"
+                >
+                  {t('reminders.retry')}
+                </button>
+              </div>
+            </div>
+          ) : dueReminders.length === 0 && upcomingReminders.length === 0 ? (
+            <div className="text-center py-16">
+              <Bell className="w-16 h-16 text-muted-foreground/30 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-foreground mb-2">{t('reminders.emptyState.title')}</h3>
+              <p className="text-muted-foreground">{t('reminders.emptyState.description')}</p>
+            </div>
+          ) : (
+            <div className="space-y-8">
+              {dueReminders.length > 0 && (
+                <section>
+                  <h2 className="text-sm font-semibold text-foreground mb-3">
+                    {t('reminders.dueTitle', { count: dueReminders.length })}
+                  </h2>
+                  <div className="space-y-3">
+                    {dueReminders.map((reminder) => (
+                      <ReminderItem key={reminder.id} reminder={reminder} due />
+                    ))}
+                  </div>
+                </section>
+              )}
+
+              {upcomingReminders.length > 0 && (
+                <section>
+                  <h2 className="text-sm font-semibold text-foreground mb-3">
+                    {t('reminders.upcomingTitle', { count: upcomingReminders.length })}
+                  </h2>
+                  <div className="space-y-3">
+                    {upcomingReminders.map((reminder) => (
+                      <ReminderItem key={reminder.id} reminder={reminder} />
+                    ))}
+                  </div>
+                </section>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+function ResurfacingSettingsCard() {
+  const { t } = useTranslation('bookmarks')
+  const { addToast } = useToastStore()
+  const { data: settings } = useResurfacingSettings()
+  const updateSettings = useUpdateResurfacingSettings()
+  const [intervalDays, setIntervalDays] = useState(7)
+  const [batchSize, setBatchSize] = useState(3)
+  const [minAgeDays, setMinAgeDays] = useState(30)
+
+  useEffect(() => {
+    if (settings) {
+      setIntervalDays(settings.interval_days)
+      setBatchSize(settings.batch_size)
+      setMinAgeDays(settings.min_age_days)
+    }
+  }, [settings])
+
+  const save = async (data: UpdateResurfacingSettingsRequest) => {
+    try {
+      await updateSettings.mutateAsync(data)
+      addToast('success', t('reminders.resurfacing.saved'))
+    } catch (err) {
+      logger.error('Failed to update resurfacing settings:', err)
+      addToast('error', t('reminders.resurfacing.saveFailed'))
+    }
+  }
+
+  if (!settings) {
+    return null
+  }
+
+  const dirty =
+    intervalDays !== settings.interval_days ||
+    batchSize !== settings.batch_size ||
+    minAgeDays !== settings.min_age_days
+
+  return (
+    <div className="card p-4 mb-8">
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex items-start gap-3 min-w-0">
+          <Sparkles className="w-5 h-5 text-primary flex-shrink-0 mt-0.5" />
+          <div className="min-w-0">
+            <h2 className="text-sm font-semibold text-foreground">{t('reminders.resurfacing.title')}</h2>
+            <p className="text-xs text-muted-foreground mt-0.5">{t('reminders.resurfacing.description')}</p>
+          </div>
+        </div>
+        <label className="flex items-center gap-2 cursor-pointer flex-shrink-0">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => save({ enabled: e.target.checked })}
+            disabled={updateSettings.isPending}
+          />
+          <span className="text-xs text-foreground">{t('reminders.resurfacing.enabled')}</span>
+        </label>
+      </div>
+
+      {settings.enabled && (
+        <div className="flex flex-wrap items-end gap-3 mt-4 pl-8">
+          <NumberField
+            label={t('reminders.resurfacing.intervalDays')}
+            value={intervalDays}
+            min={1}
+            max={90}
+            onChange={setIntervalDays}
+          />
+          <NumberField
+            label={t('reminders.resurfacing.batchSize')}
+            value={batchSize}
+            min={1}
+            max={20}
+            onChange={setBatchSize}
+          />
+          <NumberField
+            label={t('reminders.resurfacing.minAgeDays')}
+            value={minAgeDays}
+            min={0}
+            max={365}
+            onChange={setMinAgeDays}
+          />
+          <button
+            onClick={() => save({ interval_days: intervalDays, batch_size: batchSize, min_age_days: minAgeDays })}
+            disabled={!dirty || updateSettings.isPending}
+            className="px-3 py-1.5 text-sm bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 disabled:opacity-50 transition-colors"
+          >
+            {t('reminders.resurfacing.save')}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function NumberField({
+  label,
+  value,
+  min,
+  max,
+  onChange,
+}: {
+  label: string
+  value: number
+  min: number
+  max: number
+  onChange: (value: number) => void
+}) {
+  return (
+    <label className="flex flex-col gap-1">
+      <span className="text-xs text-muted-foreground">{label}</span>
+      <input
+        type="number"
+        className="input w-24 text-sm"
+        value={value}
+        min={min}
+        max={max}
+        onChange={(e) => onChange(Math.min(max, Math.max(min, Number(e.target.value) || min)))}
+      />
+    </label>
+  )
+}
+
+function ReminderItem({ reminder, due = false }: { reminder: ReminderWithBookmark; due?: boolean }) {
+  const { t, i18n } = useTranslation('bookmarks')
+  const dateLocale = i18n.language === 'zh-CN' ? zhCN : enUS
+  const { addToast } = useToastStore()
+  const recordClick = useRecordClick()
+  const updateReminder = useUpdateReminder()
+  const { bookmark } = reminder
+
+  const update = async (action: ReminderAction, snoozeDays?: number) => {
+    try {
+      await updateReminder.mutateAsync({ id: reminder.id, action, snoozeDays })
+    } catch (err) {
+      logger.error('Failed to update reminder:', err)
+      addToast('error', t('reminders.updateFailed'))
+    }
+  }
+
+  const handleOpen = () => {
+    recordClick.mutate(bookmark.id)
+    window.open(bookmark.url, '_blank', 'noopener,noreferrer')
+    // 打开到期的提醒视为已处理
+    if (due) {
+      update('done')
+    }
+  }
+
+  const remindTime = formatDistanceToNow(new Date(reminder.remind_at), { addSuffix: true, locale: dateLocale })
+  const lastVisit = bookmark.last_clicked_at
+    ? formatDistanceToNow(new Date(bookmark.last_clicked_at), { addSuffix: true, locale: dateLocale })
+    : null
+
+  return (
+    <div className="card p-4">
+      <div className="flex items-start gap-3">
+        {bookmark.favicon ? (
+          <img
+            src={bookmark.favicon}
+            alt=""
+            className="w-5 h-5 rounded flex-shrink-0 mt-0.5"
+            onError={(e) => {
+              (e.target as HTMLImageElement).style.display = 'none'
+            }}
+          />
+        ) : (
+          <Link2 className="w-5 h-5 text-muted-foreground flex-shrink-0 mt-0.5" />
+        )}
+
+        <div className="min-w-0 flex-1">
+          <button
+            onClick={handleOpen}
+            className="block w-full text-left text-sm font-semibold text-foreground truncate hover:text-primary transition-colors"
+            title={bookmark.title}
+          >
+            {bookmark.title}
+          </button>
+          <p className="text-xs text-muted-foreground truncate">{bookmark.url}</p>
+
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-1.5 text-xs text-muted-foreground">
+            <span className={`px-1.5 py-0.5 rounded ${reminder.source === 'resurface' ? 'bg-accent/10 text-accent' : 'bg-primary/10 text-primary'}`}>
+              {t(`reminders.source.${reminder.source}`)}
+            </span>
+            <span className="flex items-center gap-1">
+              <AlarmClock className="w-3.5 h-3.5" />
+              {due ? t('reminders.dueSince', { time: remindTime }) : t('reminders.remindAt', { time: remindTime })}
+            </span>
+            <span>
+              {lastVisit ? t('reminders.lastVisit', { time: lastVisit }) : t('reminders.neverVisited')}
+            </span>
+          </div>
+
+          {reminder.note && <p className="text-xs text-foreground/80 mt-1.5">{reminder.note}</p>}
+        </div>
+
+        <div className="flex items-center gap-1 flex-shrink-0">
+          {SNOOZE_OPTIONS.map((days) => (
+            <button
+              key={days}
+              onClick={() => update('snooze', days)}
+              disabled={updateReminder.isPending}
+              className="px-2 py-1.5 rounded-lg text-xs hover:bg-muted transition-colors flex items-center gap-1"
+              title={t('reminders.snooze', { count: days })}
+            >
+              <RefreshCw className="w-3.5 h-3.5" />
+              {t('reminders.snoozeShort', { count: days })}
+            </button>
+          ))}
+          <button
+            onClick={() => update('done')}
+            disabled={updateReminder.isPending}
+            className="p-2 rounded-lg hover:bg-success/10 hover:text-success transition-colors"
+            title={t('reminders.markDone')}
+          >
+            <CheckCircle className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => update('dismiss')}
+            disabled={updateReminder.isPending}
+            className="p-2 rounded-lg hover:bg-destructive/10 hover:text-destructive transition-colors"
+            title={t('reminders.dismiss')}
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -11,7 +11,8 @@ import { useBookmarksEffects } from './hooks/useBookmarksEffects'
 import { setStoredViewMode } from './hooks/useBookmarksState'
 import { useInfiniteBookmarks } from '@/hooks/useBookmarks'
 import { useTags } from '@/hooks/useTags'
-import type { Bookmark, BookmarkQueryParams } from '@/lib/types'
+import { ApiError } from '@/lib/api-client'
+import type { Bookmark, BookmarkQueryParams, CollectionFilters, SmartCollection } from '@/lib/types'
 import type { SortOption } from '@/components/common/SortSelector'
 
 const SORT_OPTIONS: SortOption[] = ['created', 'updated', 'pinned', 'popular']
@@ -26,18 +27,28 @@ export function BookmarksPage() {
     setSelectedTags,
     debouncedSelectedTags,
     setDebouncedSelectedTags,
+    excludedTags,
+    setExcludedTags,
+    tagMode,
+    setTagMode,
+    includeDescendants,
+    setIncludeDescendants,
     searchKeyword,
     setSearchKeyword,
     debouncedSearchKeyword,
     setDebouncedSearchKeyword,
     searchMode,
     setSearchMode,
+    activeCollection,
+    setActiveCollection,
     sortBy,
     setSortBy,
     viewMode,
     setViewMode,
     visibilityFilter,
     setVisibilityFilter,
+    linkStatusFilter,
+    setLinkStatusFilter,
     tagLayout,
     setTagLayout,
     sortByInitialized,
@@ -63,7 +74,10 @@ export function BookmarksPage() {
     selectedTags,
     setSelectedTags,
     setDebouncedSelectedTags,
+    excludedTags,
+    setExcludedTags,
     searchKeyword,
+    isCollectionActive: activeCollection !== null,
     setSearchKeyword,
     setDebouncedSearchKeyword,
     setViewMode,
@@ -86,12 +100,49 @@ export function BookmarksPage() {
 
     if (debouncedSelectedTags.length > 0) {
       params.tags = debouncedSelectedTags.join(',')
+      if (tagMode === 'any' && debouncedSelectedTags.length > 1) {
+        params.tag_mode = 'any'
+      }
+    }
+
+    if (excludedTags.length > 0) {
+      params.exclude_tags = excludedTags.join(',')
+    }
+
+    if (includeDescendants && (debouncedSelectedTags.length > 0 || excludedTags.length > 0)) {
+      params.include_descendants = true
+    }
+
+    if (linkStatusFilter !== 'all') {
+      params.link_status = linkStatusFilter
+    }
+
+    // 归档/置顶筛选目前只来自智能集合
+    if (activeCollection?.filters.archived) {
+      params.archived = true
+    }
+    if (activeCollection?.filters.pinned) {
+      params.pinned = true
     }
 
-    params.sort = sortBy
+    // 关键词搜索时按相关度排序
+    params.sort = params.keyword ? 'relevance' : sortBy
 
     return params
-  }, [searchMode, debouncedSearchKeyword, debouncedSelectedTags, sortBy])
+  }, [searchMode, debouncedSearchKeyword, debouncedSelectedTags, tagMode, excludedTags, includeDescendants, linkStatusFilter, activeCollection, sortBy])
+
+  // 当前筛选条件（保存为智能集合时使用）
+  const currentFilters = useMemo<CollectionFilters>(() => ({
+    keyword: queryParams.keyword,
+    tags: queryParams.tags?.split(','),
+    tag_mode: queryParams.tag_mode,
+    exclude_tags: queryParams.exclude_tags?.split(','),
+    include_descendants: queryParams.include_descendants,
+    archived: queryParams.archived,
+    pinned: queryParams.pinned,
+    link_status: queryParams.link_status,
+    sort: queryParams.sort,
+  }), [queryParams])
 
   const bookmarksQuery = useInfiniteBookmarks(queryParams)
   const { refetch: refetchTags } = useTags()
@@ -147,6 +198,12 @@ export function BookmarksPage() {
 
   const hasMore = Boolean(bookmarksQuery.hasNextPage)
 
+  // 搜索语法错误（由服务端解析返回）
+  const searchError =
+    bookmarksQuery.error instanceof ApiError && bookmarksQuery.error.code === 'INVALID_SEARCH_QUERY'
+      ? bookmarksQuery.error.message
+      : null
+
   // 事件处理
   const handleOpenForm = useCallback((bookmark?: Bookmark) => {
     if (bookmark) {
@@ -195,6 +252,39 @@ export function BookmarksPage() {
     updatePreferences.mutate({ sort_by: nextSort })
   }, [sortBy, setSortBy, updatePreferences])
 
+  // 应用智能集合：一次性恢复全部筛选条件，取消时清空
+  const handleCollectionSelect = useCallback((collection: SmartCollection | null) => {
+    const filters: CollectionFilters = collection?.filters ?? {}
+    const keyword = filters.keyword ?? ''
+    const tags = filters.tags ?? []
+
+    setActiveCollection(collection)
+    setSearchMode('bookmark')
+    setSearchKeyword(keyword)
+    setDebouncedSearchKeyword(keyword)
+    setSelectedTags(tags)
+    setDebouncedSelectedTags(tags)
+    setExcludedTags(filters.exclude_tags ?? [])
+    setTagMode(filters.tag_mode ?? 'all')
+    if (collection) {
+      setIncludeDescendants(filters.include_descendants ?? false)
+      setSortBy(filters.sort && SORT_OPTIONS.includes(filters.sort as SortOption) ? filters.sort as SortOption : 'created')
+    }
+    setLinkStatusFilter(filters.link_status === 'broken' || filters.link_status === 'redirected' ? filters.link_status : 'all')
+  }, [
+    setActiveCollection,
+    setSearchMode,
+    setSearchKeyword,
+    setDebouncedSearchKeyword,
+    setSelectedTags,
+    setDebouncedSelectedTags,
+    setExcludedTags,
+    setTagMode,
+    setIncludeDescendants,
+    setSortBy,
+    setLinkStatusFilter,
+  ])
+
   const handleToggleSelect = useCallback((bookmarkId: string) => {
     setSelectedIds((prev) =>
       prev.includes(bookmarkId)
@@ -228,11 +318,20 @@ export function BookmarksPage() {
             <TagSidebar
               selectedTags={selectedTags}
               onTagsChange={setSelectedTags}
+              excludedTags={excludedTags}
+              onExcludedTagsChange={setExcludedTags}
+              tagMode={tagMode}
+              onTagModeChange={setTagMode}
+              includeDescendants={includeDescendants}
+              onIncludeDescendantsChange={setIncludeDescendants}
               tagLayout={tagLayout}
               onTagLayoutChange={handleTagLayoutChange}
               bookmarks={filteredBookmarks}
               isLoadingBookmarks={isInitialLoading || isFetchingExisting}
               searchQuery={searchMode === 'tag' ? debouncedSearchKeyword : ''}
+              activeCollectionId={activeCollection?.id ?? null}
+              onCollectionSelect={handleCollectionSelect}
+              currentFilters={currentFilters}
             />
           </aside>
 
@@ -244,10 +343,13 @@ export function BookmarksPage() {
               setSearchMode={setSearchMode}
               searchKeyword={searchKeyword}
               setSearchKeyword={setSearchKeyword}
+              searchError={searchError}
               sortBy={sortBy}
               onSortByChange={handleSortByChange}
               visibilityFilter={visibilityFilter}
               setVisibilityFilter={setVisibilityFilter}
+              linkStatusFilter={linkStatusFilter}
+              setLinkStatusFilter={setLinkStatusFilter}
               viewMode={viewMode}
               onViewModeChange={handleViewModeChange}
               batchMode={batchMode}
@@ -355,11 +457,20 @@ export function BookmarksPage() {
                       setTimeout(() => setIsTagSidebarOpen(false), 500)
                     }
                   }}
+                  excludedTags={excludedTags}
+                  onExcludedTagsChange={setExcludedTags}
+                  tagMode={tagMode}
+                  onTagModeChange={setTagMode}
+                  includeDescendants={includeDescendants}
+                  onIncludeDescendantsChange={setIncludeDescendants}
                   tagLayout={tagLayout}
                   onTagLayoutChange={handleTagLayoutChange}
                   bookmarks={filteredBookmarks}
                   isLoadingBookmarks={isInitialLoading || isFetchingExisting}
                   searchQuery={searchMode === 'tag' ? debouncedSearchKeyword : ''}
+                  activeCollectionId={activeCollection?.id ?? null}
+                  onCollectionSelect={handleCollectionSelect}
+                  currentFilters={currentFilters}
                 />
               </div>
             </div>
@@ -379,6 +490,9 @@ export function BookmarksPage() {
         {batchMode && selectedIds.length > 0 && (
           <BatchActionBar
             selectedIds={selectedIds}
+            showFixRedirects={linkStatusFilter === 'redirected'}
+            // 公开/私密筛选只在前端进行，此时不提供按条件批量操作
+            matchQuery={visibilityFilter === 'all' ? currentFilters : undefined}
             onClearSelection={handleClearSelection}
             onSuccess={handleBatchSuccess}
           />
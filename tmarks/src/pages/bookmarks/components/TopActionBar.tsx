@@ -15,11 +15,17 @@ import {
   Tag as TagIcon,
   Search,
   Plus,
-  Trash2
+  Trash2,
+  Copy,
+  Link2,
+  Unlink,
+  CornerUpRight,
+  BookOpen,
+  Bell
 } from 'lucide-react'
 import { Link } from 'react-router-dom'
 import { useTranslation } from 'react-i18next'
-import type { ViewMode, VisibilityFilter } from '../hooks/useBookmarksState'
+import type { LinkStatusFilter, ViewMode, VisibilityFilter } from '../hooks/useBookmarksState'
 import type { SortOption } from '@/components/common/SortSelector'
 
 function ViewModeIcon({ mode }: { mode: ViewMode }) {
@@ -50,6 +56,21 @@ function VisibilityIcon({ filter }: { filter: VisibilityFilter }) {
   }
 }
 
+function LinkStatusIcon({ filter }: { filter: LinkStatusFilter }) {
+  switch (filter) {
+    case 'broken':
+      return <Unlink className="w-4 h-4" />
+    case 'redirected':
+      return <CornerUpRight className="w-4 h-4" />
+    default:
+      return <Link2 className="w-4 h-4" />
+  }
+}
+
+function getNextLinkStatusFilter(filter: LinkStatusFilter): LinkStatusFilter {
+  return filter === 'all' ? 'broken' : filter === 'broken' ? 'redirected' : 'all'
+}
+
 function SortIcon({ sort }: { sort: SortOption }) {
   switch (sort) {
     case 'created':
@@ -70,10 +91,13 @@ interface TopActionBarProps {
   setSearchMode: (mode: 'bookmark' | 'tag') => void
   searchKeyword: string
   setSearchKeyword: (keyword: string) => void
+  searchError?: string | null
   sortBy: SortOption
   onSortByChange: () => void
   visibilityFilter: VisibilityFilter
   setVisibilityFilter: (filter: VisibilityFilter) => void
+  linkStatusFilter: LinkStatusFilter
+  setLinkStatusFilter: (filter: LinkStatusFilter) => void
   viewMode: ViewMode
   onViewModeChange: () => void
   batchMode: boolean
@@ -88,10 +112,13 @@ export function TopActionBar({
   setSearchMode,
   searchKeyword,
   setSearchKeyword,
+  searchError,
   sortBy,
   onSortByChange,
   visibilityFilter,
   setVisibilityFilter,
+  linkStatusFilter,
+  setLinkStatusFilter,
   viewMode,
   onViewModeChange,
   batchMode,
@@ -105,6 +132,7 @@ export function TopActionBar({
   const getViewModeLabel = (mode: ViewMode) => t(`viewMode.${mode}`)
   const getSortLabel = (sort: SortOption) => t(`sort.${sort}`)
   const getVisibilityLabel = (filter: VisibilityFilter) => t(`filter.${filter}`)
+  const getLinkStatusLabel = (filter: LinkStatusFilter) => t(`linkStatus.filter.${filter}`)
 
   return (
     <div className="flex-shrink-0 px-3 sm:px-4 md:px-6 pt-3 sm:pt-4 md:pt-6 pb-3 sm:pb-4 w-full">
@@ -148,10 +176,14 @@ export function TopActionBar({
                   type="text"
                   className="input w-full !pl-16 sm:!pl-[4.5rem] h-11 sm:h-auto text-sm sm:text-base"
                   placeholder={searchMode === 'bookmark' ? t('search.placeholder') : t('search.tagPlaceholder')}
+                  title={searchMode === 'bookmark' ? t('search.syntaxHint') : undefined}
                   value={searchKeyword}
                   onChange={(e) => setSearchKeyword(e.target.value)}
                 />
               </div>
+              {searchMode === 'bookmark' && searchError && (
+                <p className="mt-1 px-1 text-xs text-error">{t('search.invalidQuery', { message: searchError })}</p>
+              )}
             </div>
           </div>
 
@@ -186,6 +218,19 @@ export function TopActionBar({
               <VisibilityIcon filter={visibilityFilter} />
             </button>
 
+            {/* Link status filter button */}
+            <button
+              onClick={() => setLinkStatusFilter(getNextLinkStatusFilter(linkStatusFilter))}
+              className={`btn btn-sm p-2 flex-shrink-0 ${
+                linkStatusFilter === 'all' ? 'btn-ghost' : 'btn-primary'
+              }`}
+              title={`${getLinkStatusLabel(linkStatusFilter)} ${t('linkStatus.clickToSwitch')}`}
+              aria-label={`${getLinkStatusLabel(linkStatusFilter)} ${t('linkStatus.clickToSwitch')}`}
+              type="button"
+            >
+              <LinkStatusIcon filter={linkStatusFilter} />
+            </button>
+
             {/* View mode button */}
             <button
               onClick={onViewModeChange}
@@ -217,6 +262,36 @@ export function TopActionBar({
               <CheckCircle className="w-4 h-4" />
             </button>
 
+            {/* Read later button */}
+            <Link
+              to="/bookmarks/read-later"
+              className="btn btn-sm btn-ghost p-2 flex-shrink-0"
+              title={t('toolbar.readLater')}
+              aria-label={t('toolbar.readLater')}
+            >
+              <BookOpen className="w-4 h-4" />
+            </Link>
+
+            {/* Reminders button */}
+            <Link
+              to="/bookmarks/reminders"
+              className="btn btn-sm btn-ghost p-2 flex-shrink-0"
+              title={t('toolbar.reminders')}
+              aria-label={t('toolbar.reminders')}
+            >
+              <Bell className="w-4 h-4" />
+            </Link>
+
+            {/* Duplicates button */}
+            <Link
+              to="/bookmarks/duplicates"
+              className="btn btn-sm btn-ghost p-2 flex-shrink-0"
+              title={t('toolbar.duplicates')}
+              aria-label={t('toolbar.duplicates')}
+            >
+              <Copy className="w-4 h-4" />
+            </Link>
+
             {/* Trash button */}
             <Link
               to="/bookmarks/trash"
@@ -267,10 +342,14 @@ export function TopActionBar({
                 type="text"
                 className="input w-full !pl-[4.5rem] text-base"
                 placeholder={searchMode === 'bookmark' ? t('search.placeholder') : t('search.tagPlaceholder')}
+                title={searchMode === 'bookmark' ? t('search.syntaxHint') : undefined}
                 value={searchKeyword}
                 onChange={(e) => setSearchKeyword(e.target.value)}
               />
             </div>
+            {searchMode === 'bookmark' && searchError && (
+              <p className="mt-1 px-1 text-xs text-error">{t('search.invalidQuery', { message: searchError })}</p>
+            )}
           </div>
 
           {/* Action buttons */}
@@ -297,6 +376,19 @@ export function TopActionBar({
               <VisibilityIcon filter={visibilityFilter} />
             </button>
 
+            {/* Link status filter button */}
+            <button
+              onClick={() => setLinkStatusFilter(getNextLinkStatusFilter(linkStatusFilter))}
+              className={`btn btn-sm p-2 flex-shrink-0 ${
+                linkStatusFilter === 'all' ? 'btn-ghost' : 'btn-primary'
+              }`}
+              title={`${getLinkStatusLabel(linkStatusFilter)} ${t('linkStatus.clickToSwitch')}`}
+              aria-label={`${getLinkStatusLabel(linkStatusFilter)} ${t('linkStatus.clickToSwitch')}`}
+              type="button"
+            >
+              <LinkStatusIcon filter={linkStatusFilter} />
+            </button>
+
             {/* View mode button */}
             <button
               onClick={onViewModeChange}
@@ -326,6 +418,36 @@ export function TopActionBar({
               <CheckSquare className="w-5 h-5" />
             </button>
 
+            {/* Read later button */}
+            <Link
+              to="/bookmarks/read-later"
+              className="btn btn-sm btn-ghost p-2 flex-shrink-0"
+              title={t('toolbar.readLater')}
+              aria-label={t('toolbar.readLater')}
+            >
+              <BookOpen className="w-5 h-5" />
+            </Link>
+
+            {/* Reminders button */}
+            <Link
+              to="/bookmarks/reminders"
+              className="btn btn-sm btn-ghost p-2 flex-shrink-0"
+              title={t('toolbar.reminders')}
+              aria-label={t('toolbar.reminders')}
+            >
+              <Bell className="w-5 h-5" />
+            </Link>
+
+            {/* Duplicates button */}
+            <Link
+              to="/bookmarks/duplicates"
+              className="btn btn-sm btn-ghost p-2 flex-shrink-0"
+              title={t('toolbar.duplicates')}
+              aria-label={t('toolbar.duplicates')}
+            >
+              <Copy className="w-5 h-5" />
+            </Link>
+
             {/* Trash button */}
             <Link
               to="/bookmarks/trash"
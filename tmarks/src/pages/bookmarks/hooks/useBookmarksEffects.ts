@@ -13,7 +13,11 @@ interface UseBookmarksEffectsProps {
   selectedTags: string[]
   setSelectedTags: (tags: string[]) => void
   setDebouncedSelectedTags: (tags: string[]) => void
+  excludedTags: string[]
+  setExcludedTags: (tags: string[]) => void
   searchKeyword: string
+  /** 应用智能集合期间不自动清空标签和搜索 */
+  isCollectionActive: boolean
   setSearchKeyword: (keyword: string) => void
   setDebouncedSearchKeyword: (keyword: string) => void
   setViewMode: (mode: ViewMode) => void
@@ -33,7 +37,10 @@ export function useBookmarksEffects({
   selectedTags,
   setSelectedTags,
   setDebouncedSelectedTags,
+  excludedTags,
+  setExcludedTags,
   searchKeyword,
+  isCollectionActive,
   setSearchKeyword,
   setDebouncedSearchKeyword,
   setViewMode,
@@ -117,10 +124,11 @@ export function useBookmarksEffects({
     const enableAutoClear = preferences?.enable_tag_selection_auto_clear ?? false
     const clearSeconds = preferences?.tag_selection_auto_clear_seconds ?? 30
 
-    if (enableAutoClear && selectedTags.length > 0) {
+    if (enableAutoClear && !isCollectionActive && (selectedTags.length > 0 || excludedTags.length > 0)) {
       autoCleanupTimerRef.current = setTimeout(() => {
         setSelectedTags([])
         setDebouncedSelectedTags([])
+        setExcludedTags([])
       }, clearSeconds * 1000)
     }
 
@@ -130,7 +138,7 @@ export function useBookmarksEffects({
         autoCleanupTimerRef.current = null
       }
     }
-  }, [selectedTags, preferences, autoCleanupTimerRef, setSelectedTags, setDebouncedSelectedTags])
+  }, [selectedTags, excludedTags, isCollectionActive, preferences, autoCleanupTimerRef, setSelectedTags, setDebouncedSelectedTags, setExcludedTags])
 
   // 搜索自动清空
   useEffect(() => {
@@ -142,7 +150,7 @@ export function useBookmarksEffects({
     const enableAutoClear = preferences?.enable_search_auto_clear ?? true
     const clearSeconds = preferences?.search_auto_clear_seconds ?? 15
 
-    if (enableAutoClear && searchKeyword.trim()) {
+    if (enableAutoClear && !isCollectionActive && searchKeyword.trim()) {
       searchCleanupTimerRef.current = setTimeout(() => {
         setSearchKeyword('')
         setDebouncedSearchKeyword('')
@@ -155,7 +163,7 @@ export function useBookmarksEffects({
         searchCleanupTimerRef.current = null
       }
     }
-  }, [searchKeyword, preferences, searchCleanupTimerRef, setSearchKeyword, setDebouncedSearchKeyword])
+  }, [searchKeyword, isCollectionActive, preferences, searchCleanupTimerRef, setSearchKeyword, setDebouncedSearchKeyword])
 
   return {
     updatePreferences,
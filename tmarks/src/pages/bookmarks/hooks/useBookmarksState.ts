@@ -1,5 +1,5 @@
 import { useState, useRef } from 'react'
-import type { Bookmark } from '@/lib/types'
+import type { Bookmark, SmartCollection } from '@/lib/types'
 import type { SortOption } from '@/components/common/SortSelector'
 
 const VIEW_MODE_STORAGE_KEY = 'tmarks:view_mode'
@@ -8,6 +8,8 @@ const VIEW_MODE_UPDATED_AT_STORAGE_KEY = 'tmarks:view_mode_updated_at'
 const VIEW_MODES = ['list', 'card', 'minimal', 'title'] as const
 export type ViewMode = typeof VIEW_MODES[number]
 export type VisibilityFilter = 'all' | 'public' | 'private'
+export type TagMatchMode = 'all' | 'any'
+export type LinkStatusFilter = 'all' | 'broken' | 'redirected'
 
 function isValidViewMode(value: string | null): value is ViewMode {
   return !!value && (VIEW_MODES as readonly string[]).includes(value)
@@ -42,14 +44,19 @@ export function useBookmarksState() {
   // 标签和搜索状态
   const [selectedTags, setSelectedTags] = useState<string[]>([])
   const [debouncedSelectedTags, setDebouncedSelectedTags] = useState<string[]>([])
+  const [excludedTags, setExcludedTags] = useState<string[]>([])
+  const [tagMode, setTagMode] = useState<TagMatchMode>('all')
+  const [includeDescendants, setIncludeDescendants] = useState(true)
   const [searchKeyword, setSearchKeyword] = useState('')
   const [debouncedSearchKeyword, setDebouncedSearchKeyword] = useState('')
   const [searchMode, setSearchMode] = useState<'bookmark' | 'tag'>('bookmark')
+  const [activeCollection, setActiveCollection] = useState<SmartCollection | null>(null)
 
   // 排序和视图状态
   const [sortBy, setSortBy] = useState<SortOption>('created')
   const [viewMode, setViewMode] = useState<ViewMode>(() => getStoredViewMode() ?? 'card')
   const [visibilityFilter, setVisibilityFilter] = useState<VisibilityFilter>('all')
+  const [linkStatusFilter, setLinkStatusFilter] = useState<LinkStatusFilter>('all')
   const [tagLayout, setTagLayout] = useState<'grid' | 'masonry'>('grid')
   const [sortByInitialized, setSortByInitialized] = useState(false)
 
@@ -76,12 +83,20 @@ export function useBookmarksState() {
     setSelectedTags,
     debouncedSelectedTags,
     setDebouncedSelectedTags,
+    excludedTags,
+    setExcludedTags,
+    tagMode,
+    setTagMode,
+    includeDescendants,
+    setIncludeDescendants,
     searchKeyword,
     setSearchKeyword,
     debouncedSearchKeyword,
     setDebouncedSearchKeyword,
     searchMode,
     setSearchMode,
+    activeCollection,
+    setActiveCollection,
 
     // 排序和视图
     sortBy,
@@ -90,6 +105,8 @@ export function useBookmarksState() {
     setViewMode,
     visibilityFilter,
     setVisibilityFilter,
+    linkStatusFilter,
+    setLinkStatusFilter,
     tagLayout,
     setTagLayout,
     sortByInitialized,
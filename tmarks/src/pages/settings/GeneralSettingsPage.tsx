@@ -1,7 +1,7 @@
 import { useState, useEffect } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { useTranslation } from 'react-i18next'
-import { Save, RotateCcw, Settings, Zap, Chrome, Key, Database, LogOut, BarChart3, Camera, Share2 } from 'lucide-react'
+import { Save, RotateCcw, Settings, Zap, Chrome, Key, Database, LogOut, BarChart3, Camera, Share2, Webhook, Ticket } from 'lucide-react'
 import { usePreferences, useUpdatePreferences } from '@/hooks/usePreferences'
 import { useAuthStore } from '@/stores/authStore'
 import { useToastStore } from '@/stores/toastStore'
@@ -14,9 +14,11 @@ import { AutomationSettingsTab } from '@/components/settings/tabs/AutomationSett
 import { BrowserSettingsTab } from '@/components/settings/tabs/BrowserSettingsTab'
 import { ApiSettingsTab } from '@/components/settings/tabs/ApiSettingsTab'
 import { ShareSettingsTab } from '@/components/settings/tabs/ShareSettingsTab'
+import { WebhookSettingsTab } from '@/components/settings/tabs/WebhookSettingsTab'
 import { DataSettingsTab } from '@/components/settings/tabs/DataSettingsTab'
 import { BookmarkStatisticsPage } from '@/pages/bookmarks/BookmarkStatisticsPage'
 import { SnapshotSettingsTab } from '@/components/settings/tabs/SnapshotSettingsTab'
+import { InviteCodesPanel } from '@/components/invite-codes/InviteCodesPanel'
 
 export function GeneralSettingsPage() {
   const { t } = useTranslation('settings')
@@ -60,6 +62,7 @@ export function GeneralSettingsPage() {
         snapshot_auto_create: localPreferences.snapshot_auto_create,
         snapshot_auto_dedupe: localPreferences.snapshot_auto_dedupe,
         snapshot_auto_cleanup_days: localPreferences.snapshot_auto_cleanup_days,
+        trash_retention_days: localPreferences.trash_retention_days,
       })
       addToast('success', t('message.saveSuccess'))
     } catch (error) {
@@ -103,6 +106,8 @@ export function GeneralSettingsPage() {
     { id: 'browser', label: t('tabs.browser'), icon: <Chrome className="w-4 h-4" /> },
     { id: 'api', label: t('tabs.api'), icon: <Key className="w-4 h-4" /> },
     { id: 'share', label: t('tabs.share'), icon: <Share2 className="w-4 h-4" /> },
+    { id: 'webhooks', label: t('tabs.webhooks'), icon: <Webhook className="w-4 h-4" /> },
+    { id: 'invites', label: t('tabs.invites'), icon: <Ticket className="w-4 h-4" /> },
     { id: 'data', label: t('tabs.data'), icon: <Database className="w-4 h-4" /> },
     { id: 'statistics', label: t('tabs.statistics'), icon: <BarChart3 className="w-4 h-4" /> },
   ]
@@ -164,6 +169,8 @@ export function GeneralSettingsPage() {
               onSearchSecondsChange={(seconds) => handleUpdate({ search_auto_clear_seconds: seconds })}
               onTagEnabledChange={(enabled) => handleUpdate({ enable_tag_selection_auto_clear: enabled })}
               onTagSecondsChange={(seconds) => handleUpdate({ tag_selection_auto_clear_seconds: seconds })}
+              trashRetentionDays={localPreferences.trash_retention_days}
+              onTrashRetentionDaysChange={(days) => handleUpdate({ trash_retention_days: days })}
             />
           )}
 
@@ -188,6 +195,10 @@ export function GeneralSettingsPage() {
 
           {activeTab === 'share' && <ShareSettingsTab />}
 
+          {activeTab === 'webhooks' && <WebhookSettingsTab />}
+
+          {activeTab === 'invites' && <InviteCodesPanel />}
+
           {activeTab === 'data' && <DataSettingsTab />}
 
           {activeTab === 'statistics' && (
@@ -12,13 +12,15 @@ import {
   Calendar, 
   RefreshCw, 
   Bookmark as BookmarkIcon, 
-  TrendingUp 
+  TrendingUp,
+  Rss
 } from 'lucide-react'
 import { TagSidebar } from '@/components/tags/TagSidebar'
 import { BookmarkListContainer } from '@/components/bookmarks/BookmarkListContainer'
 import { PaginationFooter } from '@/components/common/PaginationFooter'
 import type { SortOption } from '@/components/common/SortSelector'
 import { usePublicShare } from '@/hooks/useShare'
+import { getPublicFeedUrl, type PublicFeedFormat } from '@/services/share'
 import type { Bookmark, Tag } from '@/lib/types'
 
 const VIEW_MODES = ['list', 'card', 'minimal', 'title'] as const
@@ -27,6 +29,13 @@ type VisibilityFilter = 'all' | 'public' | 'private'
 
 const SORT_OPTIONS: SortOption[] = ['created', 'updated', 'pinned', 'popular']
 
+// 订阅源自动发现使用的 MIME 类型
+const FEED_TYPES: Record<PublicFeedFormat, string> = {
+  atom: 'application/atom+xml',
+  rss: 'application/rss+xml',
+  json: 'application/feed+json',
+}
+
 // 分页配置
 const PAGE_SIZE = 30 // 每页显示30个书签
 
@@ -221,6 +230,30 @@ export function PublicSharePage() {
     return tagsCopy.sort((a, b) => (b.bookmark_count || 0) - (a.bookmark_count || 0))
   }, [shareQuery.data?.tags, tagSortBy])
 
+  // 只选中一个标签时订阅该标签的订阅源
+  const feedTag = useMemo(() => {
+    if (selectedTags.length !== 1) return undefined
+    return tags.find((tag) => tag.id === selectedTags[0])?.name
+  }, [selectedTags, tags])
+
+  // 在页面头部添加订阅源链接，供阅读器自动发现（服务端渲染的页面已包含时跳过）
+  const hasShareInfo = Boolean(shareInfo)
+  useEffect(() => {
+    if (!slug || !hasShareInfo) return
+    const formats = (Object.keys(FEED_TYPES) as PublicFeedFormat[]).filter(
+      (format) => !document.head.querySelector(`link[rel="alternate"][type="${FEED_TYPES[format]}"]`)
+    )
+    const links = formats.map((format) => {
+      const link = document.createElement('link')
+      link.rel = 'alternate'
+      link.type = FEED_TYPES[format]
+      link.href = getPublicFeedUrl(slug, format)
+      document.head.appendChild(link)
+      return link
+    })
+    return () => links.forEach((link) => link.remove())
+  }, [slug, hasShareInfo])
+
   // 当筛选条件改变时，重置到第一页（使用防抖后的值）
   useEffect(() => {
     setCurrentPage(1)
@@ -356,18 +389,33 @@ export function PublicSharePage() {
                         <p className="text-sm text-muted-foreground mt-1">{shareInfo.description}</p>
                       )}
                     </div>
-                    {/* 统计信息 */}
-                    {allBookmarks.length > 0 && (
-                      <div className="text-sm text-muted-foreground">
-                        {allFilteredBookmarks.length === allBookmarks.length ? (
-                          <span>{t('stats.total', { count: allBookmarks.length })}</span>
-                        ) : (
-                          <span>
-                            {t('stats.filtered', { filtered: allFilteredBookmarks.length, total: allBookmarks.length })}
-                          </span>
-                        )}
-                      </div>
-                    )}
+                    <div className="flex items-center gap-3">
+                      {/* 统计信息 */}
+                      {allBookmarks.length > 0 && (
+                        <div className="text-sm text-muted-foreground">
+                          {allFilteredBookmarks.length === allBookmarks.length ? (
+                            <span>{t('stats.total', { count: allBookmarks.length })}</span>
+                          ) : (
+                            <span>
+                              {t('stats.filtered', { filtered: allFilteredBookmarks.length, total: allBookmarks.length })}
+                            </span>
+                          )}
+                        </div>
+                      )}
+                      {/* 订阅源 */}
+                      {slug && (
+                        <a
+                          href={getPublicFeedUrl(slug, 'atom', feedTag)}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-primary transition-colors"
+                          title={feedTag ? t('feed.subscribeTag', { tag: feedTag }) : t('feed.subscribe')}
+                        >
+                          <Rss className="w-4 h-4" />
+                          <span>{t('feed.label')}</span>
+                        </a>
+                      )}
+                    </div>
                   </div>
                 </div>
 
@@ -0,0 +1,279 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Share2, Copy, Check, RefreshCw, Trash2, Eye, Clock, Lock, Layers, ArrowLeft } from 'lucide-react'
+import { Link } from 'react-router-dom'
+import { tabGroupsService } from '@/services/tab-groups'
+import type { ShareListItem } from '@/lib/types'
+import { formatDistanceToNow } from 'date-fns'
+import { zhCN, enUS } from 'date-fns/locale'
+import { useToastStore } from '@/stores/toastStore'
+import { ConfirmDialog } from '@/components/common/ConfirmDialog'
+import { logger } from '@/lib/logger'
+import { useIsMobile } from '@/hooks/useMediaQuery'
+import { MobileHeader } from '@/components/common/MobileHeader'
+import { BottomNav } from '@/components/common/BottomNav'
+
+export function SharesPage() {
+  const { t, i18n } = useTranslation('tabGroups')
+  const { t: tc } = useTranslation('common')
+  const dateLocale = i18n.language === 'zh-CN' ? zhCN : enUS
+  const isMobile = useIsMobile()
+  const { success, error: showError } = useToastStore()
+  const [shares, setShares] = useState<ShareListItem[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [copiedId, setCopiedId] = useState<string | null>(null)
+
+  // Confirm dialog state
+  const [confirmDialog, setConfirmDialog] = useState<{
+    isOpen: boolean
+    title: string
+    message: string
+    onConfirm: () => void
+  }>({
+    isOpen: false,
+    title: '',
+    message: '',
+    onConfirm: () => {},
+  })
+
+  const loadShares = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      setError(null)
+      const response = await tabGroupsService.getShares()
+      setShares(response.shares)
+    } catch (err) {
+      logger.error('Failed to load shares:', err)
+      setError(t('sharesPage.loadFailed'))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [t])
+
+  useEffect(() => {
+    loadShares()
+  }, [loadShares])
+
+  const closeConfirm = () => setConfirmDialog((prev) => ({ ...prev, isOpen: false }))
+
+  const handleCopy = async (share: ShareListItem) => {
+    try {
+      await navigator.clipboard.writeText(share.share_url)
+      setCopiedId(share.id)
+      setTimeout(() => setCopiedId(null), 2000)
+    } catch (err) {
+      logger.error('Failed to copy:', err)
+      showError(t('share.copyFailed'))
+    }
+  }
+
+  const handleRegenerate = (share: ShareListItem) => {
+    setConfirmDialog({
+      isOpen: true,
+      title: tc('dialog.confirmTitle'),
+      message: t('share.confirmRegenerate'),
+      onConfirm: async () => {
+        closeConfirm()
+        try {
+          const response = await tabGroupsService.regenerateShare(share.group_id)
+          setShares((prev) =>
+            prev.map((item) => (item.id === share.id ? { ...item, ...response.share } : item))
+          )
+          success(t('sharesPage.regenerateSuccess'))
+        } catch (err) {
+          logger.error('Failed to regenerate share:', err)
+          showError(t('share.regenerateFailed'))
+        }
+      },
+    })
+  }
+
+  const handleRevoke = (share: ShareListItem) => {
+    setConfirmDialog({
+      isOpen: true,
+      title: tc('dialog.confirmTitle'),
+      message: t('sharesPage.confirmRevoke', { title: share.group_title }),
+      onConfirm: async () => {
+        closeConfirm()
+        try {
+          await tabGroupsService.deleteShare(share.group_id)
+          setShares((prev) => prev.filter((item) => item.id !== share.id))
+          success(t('sharesPage.revokeSuccess'))
+        } catch (err) {
+          logger.error('Failed to revoke share:', err)
+          showError(t('share.deleteFailed'))
+        }
+      },
+    })
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">{tc('status.loading')}</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <p className="text-destructive mb-4">{error}</p>
+          <button
+            onClick={loadShares}
+            className="px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90"
+          >
+            {tc('button.retry')}
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className={`h-screen flex flex-col bg-background ${isMobile ? 'overflow-hidden' : ''}`}>
+      {/* 移动端顶部工具栏 */}
+      {isMobile && (
+        <MobileHeader
+          title={t('sharesPage.title')}
+          showMenu={false}
+          showSearch={false}
+          showMore={false}
+        />
+      )}
+
+      <div className={`flex-1 overflow-y-auto ${isMobile ? 'pb-20 min-h-0' : ''}`}>
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {/* Header - 桌面端显示 */}
+          {!isMobile && (
+            <div className="mb-8">
+              <Link
+                to="/tab"
+                className="inline-flex items-center gap-2 text-muted-foreground hover:text-foreground mb-4 transition-colors"
+              >
+                <ArrowLeft className="w-5 h-5" />
+                <span>{t('statistics.backToTabGroups')}</span>
+              </Link>
+              <div className="flex items-center gap-3 mb-2">
+                <Share2 className="w-8 h-8 text-muted-foreground" />
+                <h1 className="text-3xl font-bold text-foreground">{t('sharesPage.title')}</h1>
+              </div>
+              <p className="text-muted-foreground">{t('sharesPage.description')}</p>
+            </div>
+          )}
+
+          {/* Empty State */}
+          {shares.length === 0 ? (
+            <div className="text-center py-16">
+              <Share2 className="w-16 h-16 text-muted-foreground/30 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-foreground mb-2">{t('sharesPage.empty')}</h3>
+              <p className="text-muted-foreground">{t('sharesPage.emptyDescription')}</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {shares.map((share) => (
+                <div key={share.id} className="card p-6 hover:shadow-md transition-shadow">
+                  <div className={`flex gap-4 ${isMobile ? 'flex-col' : 'items-start justify-between'}`}>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 mb-2">
+                        <Link
+                          to={`/tab/${share.group_id}`}
+                          className="text-lg font-semibold text-foreground hover:text-primary truncate"
+                        >
+                          {share.group_title}
+                        </Link>
+                        {share.status !== 'active' && (
+                          <span className="px-2 py-0.5 text-xs rounded bg-destructive/10 text-destructive flex-shrink-0">
+                            {t(`share.status.${share.status}`)}
+                          </span>
+                        )}
+                      </div>
+                      <p className="text-sm text-muted-foreground font-mono truncate mb-2">{share.share_url}</p>
+                      <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+                        <div className="flex items-center gap-1">
+                          <Layers className="w-4 h-4" />
+                          <span>{t('header.tabCount', { count: share.item_count })}</span>
+                        </div>
+                        <div className="flex items-center gap-1">
+                          <Eye className="w-4 h-4" />
+                          <span>
+                            {share.view_count}
+                            {share.max_views ? ` / ${share.max_views}` : ''}
+                          </span>
+                        </div>
+                        <div className="flex items-center gap-1">
+                          <Clock className="w-4 h-4" />
+                          <span>
+                            {share.expires_at
+                              ? t('share.expiresAt', { date: new Date(share.expires_at).toLocaleString() })
+                              : t('share.neverExpires')}
+                          </span>
+                        </div>
+                        {share.has_password && (
+                          <div className="flex items-center gap-1">
+                            <Lock className="w-4 h-4" />
+                            <span>{t('share.passwordProtected')}</span>
+                          </div>
+                        )}
+                        <span>
+                          {t('sharesPage.createdAt')}{' '}
+                          {formatDistanceToNow(new Date(share.created_at), {
+                            addSuffix: true,
+                            locale: dateLocale,
+                          })}
+                        </span>
+                      </div>
+                    </div>
+
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      <button
+                        onClick={() => handleCopy(share)}
+                        className="flex items-center gap-2 px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors"
+                      >
+                        {copiedId === share.id ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                        {copiedId === share.id ? t('share.copied') : t('share.copy')}
+                      </button>
+                      <button
+                        onClick={() => handleRegenerate(share)}
+                        className="flex items-center gap-2 px-4 py-2 border border-border text-foreground rounded-lg hover:bg-muted transition-colors"
+                        title={t('share.regenerate')}
+                      >
+                        <RefreshCw className="w-4 h-4" />
+                        {!isMobile && t('share.regenerate')}
+                      </button>
+                      <button
+                        onClick={() => handleRevoke(share)}
+                        className="flex items-center gap-2 px-4 py-2 bg-destructive text-destructive-foreground rounded-lg hover:bg-destructive/90 transition-colors"
+                        title={t('share.delete')}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                        {!isMobile && t('share.delete')}
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Confirm Dialog */}
+          <ConfirmDialog
+            isOpen={confirmDialog.isOpen}
+            title={confirmDialog.title}
+            message={confirmDialog.message}
+            onConfirm={confirmDialog.onConfirm}
+            onCancel={closeConfirm}
+          />
+        </div>
+      </div>
+
+      {/* 移动端底部导航 */}
+      {isMobile && <BottomNav />}
+    </div>
+  )
+}
@@ -4,6 +4,7 @@ import { tabGroupsService } from '@/services/tab-groups'
 import { logger } from '@/lib/logger'
 import type { TabGroup, TabGroupItem } from '@/lib/types'
 import { ShareDialog } from '@/components/tab-groups/ShareDialog'
+import { MembersDialog } from '@/components/tab-groups/MembersDialog'
 import type { SortOption } from '@/components/tab-groups/sortUtils'
 import { sortTabGroups } from '@/components/tab-groups/sortUtils'
 import { ConfirmDialog } from '@/components/common/ConfirmDialog'
@@ -52,6 +53,7 @@ export function TabGroupsPage() {
   const [batchMode, setBatchMode] = useState(false)
   const [sortBy, setSortBy] = useState<SortOption>('created')
   const [sharingGroupId, setSharingGroupId] = useState<string | null>(null)
+  const [membersGroupId, setMembersGroupId] = useState<string | null>(null)
   const [selectedGroupId, setSelectedGroupId] = useState<string | null>(null)
   const searchCleanupTimerRef = useRef<NodeJS.Timeout | null>(null)
 
@@ -184,11 +186,26 @@ export function TabGroupsPage() {
     }
   }, [searchQuery, preferences?.enable_search_auto_clear, preferences?.search_auto_clear_seconds])
 
+  // 自己的分组和其他用户共享给我的分组放在同一个列表中，共享分组带有 access_role
+  const fetchTabGroups = async () => {
+    const [ownGroups, sharedGroups] = await Promise.all([
+      tabGroupsService.getAllTabGroups(),
+      tabGroupsService
+        .getSharedTabGroups()
+        .then((response) => response.tab_groups)
+        .catch((err) => {
+          logger.error('Failed to load shared tab groups:', err)
+          return [] as TabGroup[]
+        }),
+    ])
+    return [...ownGroups, ...sharedGroups]
+  }
+
   const loadTabGroups = async () => {
     try {
       setIsLoading(true)
       setError(null)
-      const groups = await tabGroupsService.getAllTabGroups()
+      const groups = await fetchTabGroups()
       // 调试日志：查看返回的数据
       logger.log('[TabGroupsPage] Loaded groups:', groups.length)
       groups.forEach((g, i) => {
@@ -206,7 +223,7 @@ export function TabGroupsPage() {
   // 只刷新左侧树形列表，不影响中间和右侧列
   const refreshTreeOnly = async () => {
     try {
-      const groups = await tabGroupsService.getAllTabGroups()
+      const groups = await fetchTabGroups()
       // 保持当前选中的分组不变
       const currentSelectedGroup = selectedGroupId
         ? groups.find(g => g.id === selectedGroupId)
@@ -371,6 +388,13 @@ export function TabGroupsPage() {
 
     if (!sourceGroup || !sourceItem || !targetGroup || !targetItem) return
 
+    // 只读的共享分组不能拖入或拖出，也不能在不同所有者的分组之间移动
+    if (
+      sourceGroup.access_role === 'viewer' ||
+      targetGroup.access_role === 'viewer' ||
+      sourceGroup.user_id !== targetGroup.user_id
+    ) return
+
     // 同一个组内移动
     if (sourceGroup.id === targetGroup.id) {
       if (!sourceGroup.items) {
@@ -545,13 +569,26 @@ export function TabGroupsPage() {
 
   // 使用 useMemo 缓存筛选结果，避免每次渲染都重新计算
   // 注意：必须在所有提前返回之前调用 hooks
+  const ownTabGroups = useMemo(() => tabGroups.filter(g => !g.access_role || g.access_role === 'owner'), [tabGroups])
+  const sharedTabGroups = useMemo(() => tabGroups.filter(g => g.access_role === 'viewer' || g.access_role === 'editor'), [tabGroups])
+
+  // 移动标签页时只能选择同一所有者且可编辑的分组
+  const moveTargetGroups = useMemo(() => {
+    const sourceGroup = tabGroups.find(g => g.id === moveItemDialog.currentGroupId)
+    if (!sourceGroup || !sharedTabGroups.includes(sourceGroup)) {
+      return ownTabGroups
+    }
+    return sharedTabGroups.filter(g => g.user_id === sourceGroup.user_id && g.access_role === 'editor')
+  }, [tabGroups, ownTabGroups, sharedTabGroups, moveItemDialog.currentGroupId])
+
   const groupFilteredTabGroups = useMemo(() => {
     if (!tabGroups || tabGroups.length === 0) {
       return []
     }
     
+    // “全部”只显示自己的分组，共享给我的分组在左侧“共享给我”中选择查看
     if (!selectedGroupId) {
-      return tabGroups
+      return ownTabGroups
     }
     
     const selectedGroup = tabGroups.find(g => g.id === selectedGroupId)
@@ -567,7 +604,7 @@ export function TabGroupsPage() {
     
     // 如果选中的是普通分组，只显示该分组
     return [selectedGroup]
-  }, [selectedGroupId, tabGroups])
+  }, [selectedGroupId, tabGroups, ownTabGroups])
 
   // 使用防抖后的搜索关键词进行筛选（高性能版）
   const filteredTabGroups = useMemo(() => {
@@ -616,6 +653,9 @@ export function TabGroupsPage() {
     return sortTabGroups(filteredTabGroups, sortBy)
   }, [filteredTabGroups, sortBy])
 
+  // 没有自己的分组且未选中共享分组时显示空状态
+  const isEmpty = ownTabGroups.length === 0 && !selectedGroupId
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
@@ -669,7 +709,8 @@ export function TabGroupsPage() {
           storageKey="tab-groups-left-sidebar-width"
         >
           <TabGroupTree
-            tabGroups={tabGroups}
+            tabGroups={ownTabGroups}
+            sharedGroups={sharedTabGroups}
             selectedGroupId={selectedGroupId}
             onSelectGroup={setSelectedGroupId}
             onCreateFolder={handleCreateFolder}
@@ -686,7 +727,8 @@ export function TabGroupsPage() {
           side="left"
         >
           <TabGroupTree
-            tabGroups={tabGroups}
+            tabGroups={ownTabGroups}
+            sharedGroups={sharedTabGroups}
             selectedGroupId={selectedGroupId}
             onSelectGroup={(id) => {
               setSelectedGroupId(id)
@@ -755,10 +797,10 @@ export function TabGroupsPage() {
           </div>
 
       {/* Empty State */}
-      {tabGroups.length === 0 && <EmptyState isSearching={false} searchQuery="" />}
+      {isEmpty && <EmptyState isSearching={false} searchQuery="" />}
 
       {/* No Search Results */}
-      {tabGroups.length > 0 && filteredTabGroups.length === 0 && (
+      {!isEmpty && filteredTabGroups.length === 0 && (
         <EmptyState isSearching={true} searchQuery={searchQuery} />
       )}
 
@@ -812,6 +854,7 @@ export function TabGroupsPage() {
                     onDelete={() => handleDelete(group.id, group.title)}
                     isDeleting={deletingId === group.id}
                     onShareClick={() => setSharingGroupId(group.id)}
+                    onMembersClick={() => setMembersGroupId(group.id)}
                   />
 
                   {group.items && group.items.length > 0 && (
@@ -833,6 +876,7 @@ export function TabGroupsPage() {
                       setEditingItemId={setEditingItemId}
                       setEditingTitle={setEditingTitle}
                       extractDomain={extractDomain}
+                      readOnly={group.access_role === 'viewer'}
                     />
                   )}
                 </div>
@@ -929,12 +973,25 @@ export function TabGroupsPage() {
         />
       )}
 
+      {/* Members Dialog */}
+      {membersGroupId && (
+        <MembersDialog
+          groupId={membersGroupId}
+          groupTitle={tabGroups.find((g) => g.id === membersGroupId)?.title || ''}
+          onClose={() => setMembersGroupId(null)}
+          onLeft={() => {
+            setSelectedGroupId(null)
+            loadTabGroups()
+          }}
+        />
+      )}
+
       {/* Move Item Dialog */}
       <MoveItemDialog
         isOpen={moveItemDialog.isOpen}
         itemTitle={moveItemDialog.item?.title || ''}
         currentGroupId={moveItemDialog.currentGroupId}
-        availableGroups={tabGroups}
+        availableGroups={moveTargetGroups}
         onMove={handleMoveItemToGroup}
         onClose={() =>
           setMoveItemDialog({
@@ -966,7 +1023,7 @@ export function TabGroupsPage() {
           storageKey="tab-groups-right-sidebar-width"
         >
           <TodoSidebar
-            tabGroups={tabGroups}
+            tabGroups={ownTabGroups}
             onUpdate={loadTabGroups}
           />
         </ResizablePanel>
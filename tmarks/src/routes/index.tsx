@@ -11,9 +11,13 @@ const LoginPage = lazy(() => import('@/pages/auth/LoginPage').then(m => ({ defau
 const RegisterPage = lazy(() => import('@/pages/auth/RegisterPage').then(m => ({ default: m.RegisterPage })))
 const BookmarksPage = lazy(() => import('@/pages/bookmarks/BookmarksPage').then(m => ({ default: m.BookmarksPage })))
 const BookmarkTrashPage = lazy(() => import('@/pages/bookmarks/BookmarkTrashPage').then(m => ({ default: m.BookmarkTrashPage })))
+const BookmarkDuplicatesPage = lazy(() => import('@/pages/bookmarks/BookmarkDuplicatesPage').then(m => ({ default: m.BookmarkDuplicatesPage })))
+const BookmarkReadLaterPage = lazy(() => import('@/pages/bookmarks/BookmarkReadLaterPage').then(m => ({ default: m.BookmarkReadLaterPage })))
+const BookmarkRemindersPage = lazy(() => import('@/pages/bookmarks/BookmarkRemindersPage').then(m => ({ default: m.BookmarkRemindersPage })))
 const TabGroupsPage = lazy(() => import('@/pages/tab-groups/TabGroupsPage').then(m => ({ default: m.TabGroupsPage })))
 const TabGroupDetailPage = lazy(() => import('@/pages/tab-groups/TabGroupDetailPage').then(m => ({ default: m.TabGroupDetailPage })))
 const TrashPage = lazy(() => import('@/pages/tab-groups/TrashPage').then(m => ({ default: m.TrashPage })))
+const SharesPage = lazy(() => import('@/pages/tab-groups/SharesPage').then(m => ({ default: m.SharesPage })))
 const StatisticsPage = lazy(() => import('@/pages/tab-groups/StatisticsPage').then(m => ({ default: m.StatisticsPage })))
 const TodoPage = lazy(() => import('@/pages/tab-groups/TodoPage').then(m => ({ default: m.TodoPage })))
 const ApiKeysPage = lazy(() => import('@/pages/settings/ApiKeysPage').then(m => ({ default: m.ApiKeysPage })))
@@ -21,6 +25,7 @@ const ShareSettingsPage = lazy(() => import('@/pages/settings/ShareSettingsPage'
 const ImportExportPage = lazy(() => import('@/pages/settings/ImportExportPage').then(m => ({ default: m.ImportExportPage })))
 const PermissionsPage = lazy(() => import('@/pages/settings/PermissionsPage').then(m => ({ default: m.PermissionsPage })))
 const GeneralSettingsPage = lazy(() => import('@/pages/settings/GeneralSettingsPage').then(m => ({ default: m.GeneralSettingsPage })))
+const AdminPage = lazy(() => import('@/pages/admin/AdminPage').then(m => ({ default: m.AdminPage })))
 const PublicSharePage = lazy(() => import('@/pages/share/PublicSharePage').then(m => ({ default: m.PublicSharePage })))
 const ExtensionPage = lazy(() => import('@/pages/extension/ExtensionPage').then(m => ({ default: m.ExtensionPage })))
 const AboutPage = lazy(() => import('@/pages/info/AboutPage').then(m => ({ default: m.AboutPage })))
@@ -67,8 +72,12 @@ export function AppRouter() {
           {/* 常规布局 - 用于设置和其他页面 */}
           <Route element={<AppShell />}>
             <Route path="/bookmarks/trash" element={<BookmarkTrashPage />} />
+            <Route path="/bookmarks/duplicates" element={<BookmarkDuplicatesPage />} />
+            <Route path="/bookmarks/read-later" element={<BookmarkReadLaterPage />} />
+            <Route path="/bookmarks/reminders" element={<BookmarkRemindersPage />} />
             <Route path="/tab/todo" element={<TodoPage />} />
             <Route path="/tab/trash" element={<TrashPage />} />
+            <Route path="/tab/shares" element={<SharesPage />} />
             <Route path="/tab/statistics" element={<StatisticsPage />} />
             <Route path="/tab/:id" element={<TabGroupDetailPage />} />
             <Route path="/settings/general" element={<GeneralSettingsPage />} />
@@ -76,6 +85,7 @@ export function AppRouter() {
             <Route path="/share-settings" element={<ShareSettingsPage />} />
             <Route path="/import-export" element={<ImportExportPage />} />
             <Route path="/permissions" element={<PermissionsPage />} />
+            <Route path="/admin" element={<AdminPage />} />
             <Route path="/extension" element={<ExtensionPage />} />
             <Route path="/about" element={<AboutPage />} />
             <Route path="/help" element={<HelpPage />} />
@@ -0,0 +1,77 @@
+import { apiClient } from '@/lib/api-client'
+import type {
+  AdminUsersResponse,
+  AdminUserResponse,
+  AdminResetPasswordResponse,
+  AdminRegistrationsResponse,
+  AdminSettingsResponse,
+  UpdateAppSettingsRequest,
+  InviteCodesResponse,
+  InviteCodeResponse,
+  CreateInviteCodeRequest,
+} from '@/lib/types'
+
+export interface AdminUsersQuery {
+  q?: string
+  page?: number
+  page_size?: number
+}
+
+/**
+ * 管理后台服务，所有接口仅管理员可用
+ */
+export const adminService = {
+  async getUsers(query: AdminUsersQuery = {}): Promise<AdminUsersResponse> {
+    const params = new URLSearchParams()
+    if (query.q) params.set('q', query.q)
+    if (query.page) params.set('page', String(query.page))
+    if (query.page_size) params.set('page_size', String(query.page_size))
+    const search = params.toString()
+    const response = await apiClient.get<AdminUsersResponse>(`/admin/users${search ? `?${search}` : ''}`)
+    return response.data!
+  },
+
+  async setUserDisabled(userId: string, disabled: boolean): Promise<AdminUserResponse> {
+    const response = await apiClient.patch<AdminUserResponse>(`/admin/users/${userId}`, { disabled })
+    return response.data!
+  },
+
+  /** 不传 password 时由服务端生成临时密码 */
+  async resetPassword(userId: string, password?: string): Promise<AdminResetPasswordResponse> {
+    const response = await apiClient.post<AdminResetPasswordResponse>(
+      `/admin/users/${userId}/reset-password`,
+      password ? { password } : {}
+    )
+    return response.data!
+  },
+
+  async getRegistrations(days = 30): Promise<AdminRegistrationsResponse> {
+    const response = await apiClient.get<AdminRegistrationsResponse>(`/admin/registrations?days=${days}`)
+    return response.data!
+  },
+
+  async getSettings(): Promise<AdminSettingsResponse> {
+    const response = await apiClient.get<AdminSettingsResponse>('/admin/settings')
+    return response.data!
+  },
+
+  async updateSettings(data: UpdateAppSettingsRequest): Promise<AdminSettingsResponse> {
+    const response = await apiClient.patch<AdminSettingsResponse>('/admin/settings', data)
+    return response.data!
+  },
+
+  async getInviteCodes(): Promise<InviteCodesResponse> {
+    const response = await apiClient.get<InviteCodesResponse>('/admin/invite-codes')
+    return response.data!
+  },
+
+  async createInviteCode(data: CreateInviteCodeRequest): Promise<InviteCodeResponse> {
+    const response = await apiClient.post<InviteCodeResponse>('/admin/invite-codes', data)
+    return response.data!
+  },
+
+  async revokeInviteCode(id: string): Promise<InviteCodeResponse> {
+    const response = await apiClient.delete<InviteCodeResponse>(`/admin/invite-codes/${id}`)
+    return response.data!
+  },
+}
@@ -2,10 +2,17 @@ import { apiClient } from '@/lib/api-client'
 import type {
   LoginRequest,
   LoginResponse,
+  LoginResult,
   RegisterRequest,
   RegisterResponse,
+  RegistrationInfo,
   RefreshTokenRequest,
   RefreshTokenResponse,
+  TwoFactorVerifyRequest,
+  TwoFactorStatus,
+  TwoFactorSetupResponse,
+  TwoFactorEnableResponse,
+  RecoveryCodesResponse,
 } from '@/lib/types'
 
 export const authService = {
@@ -17,11 +24,68 @@ export const authService = {
     return response.data!
   },
 
+  /**
+   * 获取注册策略（是否开放注册、是否需要邀请码）
+   */
+  async getRegistrationInfo() {
+    const response = await apiClient.get<RegistrationInfo>('/auth/registration')
+    return response.data!
+  },
+
   /**
    * 用户登录
+   * 开启两步验证的账号返回第二步挑战，需要再调用 verifyTwoFactor 才能拿到令牌
    */
   async login(data: LoginRequest) {
-    const response = await apiClient.post<LoginResponse>('/auth/login', data)
+    const response = await apiClient.post<LoginResult>('/auth/login', data)
+    return response.data!
+  },
+
+  /**
+   * 登录第二步：提交验证器验证码或恢复码
+   */
+  async verifyTwoFactor(data: TwoFactorVerifyRequest) {
+    const response = await apiClient.post<LoginResponse>('/auth/two-factor/verify', data)
+    return response.data!
+  },
+
+  /**
+   * 获取两步验证状态
+   */
+  async getTwoFactorStatus() {
+    const response = await apiClient.get<TwoFactorStatus>('/auth/two-factor')
+    return response.data!
+  },
+
+  /**
+   * 开始绑定两步验证，生成新的密钥
+   */
+  async setupTwoFactor() {
+    const response = await apiClient.post<TwoFactorSetupResponse>('/auth/two-factor/setup')
+    return response.data!
+  },
+
+  /**
+   * 用验证器中的验证码确认绑定，返回恢复码（只显示一次）
+   */
+  async enableTwoFactor(code: string) {
+    const response = await apiClient.post<TwoFactorEnableResponse>('/auth/two-factor/enable', { code })
+    return response.data!
+  },
+
+  /**
+   * 关闭两步验证，需要当前密码和验证码（或恢复码）
+   */
+  async disableTwoFactor(password: string, code: string) {
+    const response = await apiClient.post<{ enabled: false }>('/auth/two-factor/disable', { password, code })
+    return response.data!
+  },
+
+  /**
+   * 重新生成恢复码，旧的恢复码全部失效
+   */
+  async regenerateRecoveryCodes(code: string) {
+    const response = await apiClient.post<RecoveryCodesResponse>('/auth/two-factor/recovery-codes', { code })
     return response.data!
   },
 
@@ -7,6 +7,16 @@ import type {
   BookmarkQueryParams,
   BatchActionRequest,
   BatchActionResponse,
+  BulkJob,
+  DuplicateGroupsResponse,
+  MergeDuplicatesRequest,
+  MergeDuplicatesResponse,
+  BookmarkNote,
+  ReadingState,
+  UpdateReadingStateRequest,
+  CreateBookmarkNoteRequest,
+  UpdateBookmarkNoteRequest,
+  UnfurlMetadata,
 } from '@/lib/types'
 
 export const bookmarksService = {
@@ -18,11 +28,16 @@ export const bookmarksService = {
 
     if (params?.keyword) searchParams.set('keyword', params.keyword)
     if (params?.tags) searchParams.set('tags', params.tags)
+    if (params?.tag_mode) searchParams.set('tag_mode', params.tag_mode)
+    if (params?.exclude_tags) searchParams.set('exclude_tags', params.exclude_tags)
+    if (params?.include_descendants) searchParams.set('include_descendants', 'true')
     if (params?.page_size) searchParams.set('page_size', params.page_size.toString())
     if (params?.page_cursor) searchParams.set('page_cursor', params.page_cursor)
     if (params?.sort) searchParams.set('sort', params.sort)
     if (params?.archived !== undefined) searchParams.set('archived', params.archived.toString())
     if (params?.pinned !== undefined) searchParams.set('pinned', params.pinned.toString())
+    if (params?.link_status) searchParams.set('link_status', params.link_status)
+    if (params?.reading_status?.length) searchParams.set('reading_status', params.reading_status.join(','))
 
     const query = searchParams.toString()
     const endpoint = query ? `/bookmarks?${query}` : '/bookmarks'
@@ -75,7 +90,16 @@ export const bookmarksService = {
    */
   async batchAction(data: BatchActionRequest) {
     const response = await apiClient.patch<BatchActionResponse>('/bookmarks/bulk', data)
-    return response.data!
+    // 批量接口直接返回结果对象，未包裹在 data 中
+    return (response.data ?? response) as BatchActionResponse
+  },
+
+  /**
+   * 获取批量操作后台任务的进度
+   */
+  async getBulkJob(id: string) {
+    const response = await apiClient.get<{ job: BulkJob }>(`/bookmarks/bulk/jobs/${id}`)
+    return response.data!.job
   },
 
   /**
@@ -103,6 +127,32 @@ export const bookmarksService = {
     return response.data!
   },
 
+  /**
+   * 服务端抓取 URL 的标题、描述、封面图与图标
+   */
+  async unfurl(url: string) {
+    const response = await apiClient.post<{ metadata: UnfurlMetadata; cached: boolean }>('/unfurl', { url })
+    return response.data!.metadata
+  },
+
+  /**
+   * 获取重复书签分组
+   * @param rescan - 按当前规则重新计算全部书签的规范化 URL
+   */
+  async getDuplicates(params?: { rescan?: boolean }) {
+    const endpoint = params?.rescan ? '/bookmarks/duplicates?rescan=true' : '/bookmarks/duplicates'
+    const response = await apiClient.get<DuplicateGroupsResponse>(endpoint)
+    return response.data!
+  },
+
+  /**
+   * 合并重复书签到保留的书签
+   */
+  async mergeDuplicates(data: MergeDuplicatesRequest) {
+    const response = await apiClient.post<MergeDuplicatesResponse>('/bookmarks/duplicates/merge', data)
+    return response.data!
+  },
+
   /**
    * 获取回收站书签列表
    */
@@ -140,4 +190,43 @@ export const bookmarksService = {
     const response = await apiClient.delete<{ message: string; count: number }>('/bookmarks/trash/empty')
     return response.data!
   },
+
+  /**
+   * 设置阅读状态和进度
+   */
+  async updateReadingState(id: string, data: UpdateReadingStateRequest) {
+    const response = await apiClient.put<{ reading: ReadingState }>(`/bookmarks/${id}/reading`, data)
+    return response.data!.reading
+  },
+
+  /**
+   * 获取书签的笔记和高亮摘录
+   */
+  async getNotes(bookmarkId: string) {
+    const response = await apiClient.get<{ notes: BookmarkNote[] }>(`/bookmarks/${bookmarkId}/notes`)
+    return response.data!.notes
+  },
+
+  /**
+   * 添加笔记或高亮摘录
+   */
+  async createNote(bookmarkId: string, data: CreateBookmarkNoteRequest) {
+    const response = await apiClient.post<{ note: BookmarkNote }>(`/bookmarks/${bookmarkId}/notes`, data)
+    return response.data!.note
+  },
+
+  /**
+   * 编辑笔记
+   */
+  async updateNote(bookmarkId: string, noteId: string, data: UpdateBookmarkNoteRequest) {
+    const response = await apiClient.patch<{ note: BookmarkNote }>(`/bookmarks/${bookmarkId}/notes/${noteId}`, data)
+    return response.data!.note
+  },
+
+  /**
+   * 删除笔记
+   */
+  async deleteNote(bookmarkId: string, noteId: string) {
+    await apiClient.delete(`/bookmarks/${bookmarkId}/notes/${noteId}`)
+  },
 }
@@ -0,0 +1,55 @@
+import { apiClient } from '@/lib/api-client'
+import type {
+  SmartCollection,
+  CreateCollectionRequest,
+  UpdateCollectionRequest,
+  CollectionBookmarksResponse,
+} from '@/lib/types'
+
+export const collectionsService = {
+  /**
+   * 获取智能集合列表
+   */
+  async getCollections() {
+    const response = await apiClient.get<{ collections: SmartCollection[] }>('/collections')
+    return response.data!.collections
+  },
+
+  /**
+   * 创建智能集合
+   */
+  async createCollection(data: CreateCollectionRequest) {
+    const response = await apiClient.post<{ collection: SmartCollection }>('/collections', data)
+    return response.data!.collection
+  },
+
+  /**
+   * 更新智能集合（名称、筛选条件或顺序）
+   */
+  async updateCollection(id: string, data: UpdateCollectionRequest) {
+    const response = await apiClient.patch<{ collection: SmartCollection }>(`/collections/${id}`, data)
+    return response.data!.collection
+  },
+
+  /**
+   * 删除智能集合
+   */
+  async deleteCollection(id: string) {
+    await apiClient.delete(`/collections/${id}`)
+  },
+
+  /**
+   * 获取智能集合中的书签（服务端按保存的条件重新查询）
+   */
+  async getCollectionBookmarks(id: string, params?: { page_size?: number; page_cursor?: string }) {
+    const searchParams = new URLSearchParams()
+    if (params?.page_size) searchParams.set('page_size', params.page_size.toString())
+    if (params?.page_cursor) searchParams.set('page_cursor', params.page_cursor)
+
+    const query = searchParams.toString()
+    const endpoint = query ? `/collections/${id}/bookmarks?${query}` : `/collections/${id}/bookmarks`
+
+    const response = await apiClient.get<CollectionBookmarksResponse>(endpoint)
+    return response.data!
+  },
+}
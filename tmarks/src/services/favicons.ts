@@ -0,0 +1,12 @@
+import { apiClient } from '@/lib/api-client'
+import type { FaviconSignature } from '@/lib/types'
+
+export const faviconsService = {
+  /**
+   * 获取图标地址签名
+   */
+  async getSignature(): Promise<FaviconSignature> {
+    const response = await apiClient.get<FaviconSignature>('/favicons/token')
+    return response.data!
+  },
+}
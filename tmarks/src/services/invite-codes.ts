@@ -0,0 +1,22 @@
+import { apiClient } from '@/lib/api-client'
+import type { MyInviteCodesResponse, InviteCodeResponse, CreateInviteCodeRequest } from '@/lib/types'
+
+/**
+ * 当前用户创建的邀请码（受管理员设置的配额限制）
+ */
+export const inviteCodesService = {
+  async getInviteCodes(): Promise<MyInviteCodesResponse> {
+    const response = await apiClient.get<MyInviteCodesResponse>('/invite-codes')
+    return response.data!
+  },
+
+  async createInviteCode(data: CreateInviteCodeRequest): Promise<InviteCodeResponse> {
+    const response = await apiClient.post<InviteCodeResponse>('/invite-codes', data)
+    return response.data!
+  },
+
+  async revokeInviteCode(id: string): Promise<InviteCodeResponse> {
+    const response = await apiClient.delete<InviteCodeResponse>(`/invite-codes/${id}`)
+    return response.data!
+  },
+}
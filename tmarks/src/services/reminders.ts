@@ -0,0 +1,77 @@
+import { apiClient } from '@/lib/api-client'
+import type {
+  BookmarkReminder,
+  ReminderAction,
+  ReminderWithBookmark,
+  ResurfacingSettings,
+  SetReminderRequest,
+  UpdateResurfacingSettingsRequest,
+} from '@/lib/types'
+
+export const remindersService = {
+  /**
+   * 获取所有待处理提醒（含未到期）
+   */
+  async getReminders() {
+    const response = await apiClient.get<{ reminders: ReminderWithBookmark[] }>('/reminders')
+    return response.data!.reminders
+  },
+
+  /**
+   * 获取已到期的提醒（服务端会先生成到期的自动重温提醒）
+   */
+  async getDueReminders() {
+    const response = await apiClient.get<{ reminders: ReminderWithBookmark[] }>('/reminders/due')
+    return response.data!.reminders
+  },
+
+  /**
+   * 处理提醒：完成、忽略或推迟
+   */
+  async updateReminder(id: string, action: ReminderAction, snoozeDays?: number) {
+    const response = await apiClient.patch<{ reminder: BookmarkReminder }>(`/reminders/${id}`, {
+      action,
+      snooze_days: snoozeDays,
+    })
+    return response.data!.reminder
+  },
+
+  /**
+   * 获取书签的待处理提醒
+   */
+  async getBookmarkReminder(bookmarkId: string) {
+    const response = await apiClient.get<{ reminder: BookmarkReminder | null }>(`/bookmarks/${bookmarkId}/reminder`)
+    return response.data!.reminder
+  },
+
+  /**
+   * 设置书签提醒
+   */
+  async setBookmarkReminder(bookmarkId: string, data: SetReminderRequest) {
+    const response = await apiClient.put<{ reminder: BookmarkReminder }>(`/bookmarks/${bookmarkId}/reminder`, data)
+    return response.data!.reminder
+  },
+
+  /**
+   * 取消书签提醒
+   */
+  async clearBookmarkReminder(bookmarkId: string) {
+    await apiClient.delete(`/bookmarks/${bookmarkId}/reminder`)
+  },
+
+  /**
+   * 获取自动重温设置
+   */
+  async getResurfacingSettings() {
+    const response = await apiClient.get<{ settings: ResurfacingSettings }>('/reminders/settings')
+    return response.data!.settings
+  },
+
+  /**
+   * 更新自动重温设置
+   */
+  async updateResurfacingSettings(data: UpdateResurfacingSettingsRequest) {
+    const response = await apiClient.put<{ settings: ResurfacingSettings }>('/reminders/settings', data)
+    return response.data!.settings
+  },
+}
@@ -10,6 +10,39 @@ import type {
 
 const PUBLIC_SHARE_BASE = import.meta.env.VITE_PUBLIC_SHARE_URL || '/api/public'
 
+// 服务端渲染的分享页嵌入数据的元素 ID，需与 functions/lib/share-page.ts 保持一致
+const PUBLIC_SHARE_DATA_ELEMENT_ID = 'tmarks-public-share'
+
+/**
+ * 读取服务端渲染时嵌入页面的分享数据（只读取一次，读取后移除）
+ */
+export function takeEmbeddedPublicShare(slug: string): PublicSharePayload | undefined {
+  const element = document.getElementById(PUBLIC_SHARE_DATA_ELEMENT_ID)
+  if (!element) return undefined
+  element.remove()
+
+  try {
+    const payload = JSON.parse(element.textContent || '') as PublicSharePayload
+    return payload.profile?.slug.toLowerCase() === slug.toLowerCase() ? payload : undefined
+  } catch {
+    return undefined
+  }
+}
+
+export type PublicFeedFormat = 'atom' | 'rss' | 'json'
+
+/**
+ * 公开分享订阅源地址，tag 可以是标签名或标签 ID
+ */
+export function getPublicFeedUrl(slug: string, format: PublicFeedFormat, tag?: string): string {
+  const params = new URLSearchParams()
+  if (format === 'rss') params.set('format', 'rss')
+  if (tag) params.set('tag', tag)
+  const query = params.toString()
+  const file = format === 'json' ? 'feed.json' : 'feed.xml'
+  return `${window.location.origin}/share/${encodeURIComponent(slug)}/${file}${query ? `?${query}` : ''}`
+}
+
 export const shareService = {
   async getSettings(): Promise<ShareSettings> {
     const response = await apiClient.get<ShareSettingsResponse>('/settings/share')
@@ -5,7 +5,12 @@ import type {
   CreateTabGroupRequest,
   UpdateTabGroupRequest,
   ShareResponse,
+  TabGroupShareSettings,
+  SharesResponse,
   StatisticsResponse,
+  TabGroupMemberRole,
+  TabGroupMembersResponse,
+  TabGroupMemberResponse,
 } from '@/lib/types'
 
 export const tabGroupsService = {
@@ -190,9 +195,9 @@ export const tabGroupsService = {
   },
 
   /**
-   * 创建分享链接
+   * 创建分享链接或更新分享设置
    */
-  async createShare(groupId: string, options?: { is_public?: boolean; expires_in_days?: number }) {
+  async createShare(groupId: string, options?: TabGroupShareSettings) {
     const response = await apiClient.post<ShareResponse>(`/tab-groups/${groupId}/share`, options || {})
     return response.data!
   },
@@ -206,12 +211,72 @@ export const tabGroupsService = {
   },
 
   /**
-   * 删除分享
+   * 撤销分享
    */
   async deleteShare(groupId: string) {
     await apiClient.delete(`/tab-groups/${groupId}/share`)
   },
 
+  /**
+   * 重新生成分享链接（保留分享设置，旧链接失效）
+   */
+  async regenerateShare(groupId: string) {
+    const response = await apiClient.post<ShareResponse>(`/tab-groups/${groupId}/share/regenerate`, {})
+    return response.data!
+  },
+
+  /**
+   * 获取所有分享链接
+   */
+  async getShares() {
+    const response = await apiClient.get<SharesResponse>('/tab-groups/shares')
+    return response.data!
+  },
+
+  /**
+   * 获取其他用户共享给我的标签页组（包括共享文件夹下的子分组）
+   */
+  async getSharedTabGroups() {
+    const response = await apiClient.get<TabGroupsResponse>('/tab-groups/shared-with-me')
+    return response.data!
+  },
+
+  /**
+   * 获取协作成员列表
+   */
+  async getMembers(groupId: string) {
+    const response = await apiClient.get<TabGroupMembersResponse>(`/tab-groups/${groupId}/members`)
+    return response.data!
+  },
+
+  /**
+   * 按用户名或邮箱邀请协作成员
+   */
+  async addMember(groupId: string, identifier: string, role: TabGroupMemberRole) {
+    const response = await apiClient.post<TabGroupMemberResponse>(`/tab-groups/${groupId}/members`, {
+      identifier,
+      role,
+    })
+    return response.data!
+  },
+
+  /**
+   * 修改协作成员角色
+   */
+  async updateMemberRole(groupId: string, memberId: string, role: TabGroupMemberRole) {
+    const response = await apiClient.patch<TabGroupMemberResponse>(`/tab-groups/${groupId}/members/${memberId}`, {
+      role,
+    })
+    return response.data!
+  },
+
+  /**
+   * 移除协作成员（成员自己调用时为退出共享）
+   */
+  async removeMember(groupId: string, memberId: string) {
+    await apiClient.delete(`/tab-groups/${groupId}/members/${memberId}`)
+  },
+
   /**
    * 获取统计数据
    */
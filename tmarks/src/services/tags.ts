@@ -5,6 +5,9 @@ import type {
   CreateTagRequest,
   UpdateTagRequest,
   TagQueryParams,
+  TagAlias,
+  MergeTagRequest,
+  MergeTagResponse,
 } from '@/lib/types'
 
 export const tagsService = {
@@ -46,6 +49,37 @@ export const tagsService = {
     await apiClient.delete(`/tags/${id}`)
   },
 
+  /**
+   * 合并标签（dry_run 时只返回影响预览）
+   */
+  async mergeTag(id: string, data: MergeTagRequest) {
+    const response = await apiClient.post<MergeTagResponse>(`/tags/${id}/merge`, data)
+    return response.data!
+  },
+
+  /**
+   * 获取标签别名
+   */
+  async getAliases(id: string) {
+    const response = await apiClient.get<{ aliases: TagAlias[] }>(`/tags/${id}/aliases`)
+    return response.data!.aliases
+  },
+
+  /**
+   * 添加标签别名
+   */
+  async addAlias(id: string, alias: string) {
+    const response = await apiClient.post<{ alias: TagAlias }>(`/tags/${id}/aliases`, { alias })
+    return response.data!.alias
+  },
+
+  /**
+   * 删除标签别名
+   */
+  async deleteAlias(id: string, aliasId: string) {
+    await apiClient.delete(`/tags/${id}/aliases/${aliasId}`)
+  },
+
   /**
    * 增加标签点击计数
    */
@@ -0,0 +1,122 @@
+/**
+ * Webhooks 服务层
+ * 前端调用后端 API 的封装
+ */
+
+import { apiClient } from '@/lib/api-client'
+
+export type WebhookDeliveryStatus = 'pending' | 'success' | 'failed'
+
+export interface Webhook {
+  id: string
+  url: string
+  events: string[]
+  description: string | null
+  is_active: boolean
+  secret_hint: string
+  last_delivery_at: string | null
+  last_delivery_status: WebhookDeliveryStatus | null
+  created_at: string
+  updated_at: string
+}
+
+export interface WebhookDelivery {
+  id: string
+  webhook_id: string
+  event: string
+  payload: unknown
+  status: WebhookDeliveryStatus
+  attempt_count: number
+  next_attempt_at: string | null
+  response_status: number | null
+  response_body: string | null
+  error: string | null
+  duration_ms: number | null
+  created_at: string
+  delivered_at: string | null
+}
+
+export interface WebhookWithSecret {
+  webhook: Webhook
+  secret: string // 完整密钥，仅在创建和重新生成时返回
+}
+
+export interface CreateWebhookRequest {
+  url: string
+  events: string[]
+  description?: string
+}
+
+export interface UpdateWebhookRequest {
+  url?: string
+  events?: string[]
+  description?: string
+  is_active?: boolean
+}
+
+/**
+ * 获取用户的所有 Webhook 及可订阅的事件
+ */
+export async function getWebhooks(): Promise<{ webhooks: Webhook[]; events: string[]; limit: number }> {
+  const response = await apiClient.get('/settings/webhooks')
+  return response.data as { webhooks: Webhook[]; events: string[]; limit: number }
+}
+
+/**
+ * 创建 Webhook
+ */
+export async function createWebhook(data: CreateWebhookRequest): Promise<WebhookWithSecret> {
+  const response = await apiClient.post('/settings/webhooks', data)
+  return response.data as WebhookWithSecret
+}
+
+/**
+ * 更新 Webhook
+ */
+export async function updateWebhook(id: string, data: UpdateWebhookRequest): Promise<Webhook> {
+  const response = await apiClient.patch(`/settings/webhooks/${id}`, data)
+  return (response.data as { webhook: Webhook }).webhook
+}
+
+/**
+ * 删除 Webhook
+ */
+export async function deleteWebhook(id: string): Promise<void> {
+  await apiClient.delete(`/settings/webhooks/${id}`)
+}
+
+/**
+ * 重新生成签名密钥
+ */
+export async function rotateWebhookSecret(id: string): Promise<WebhookWithSecret> {
+  const response = await apiClient.post(`/settings/webhooks/${id}/secret`)
+  return response.data as WebhookWithSecret
+}
+
+/**
+ * 发送测试事件（ping）
+ */
+export async function testWebhook(id: string): Promise<WebhookDelivery> {
+  const response = await apiClient.post(`/settings/webhooks/${id}/test`)
+  return (response.data as { delivery: WebhookDelivery }).delivery
+}
+
+/**
+ * 获取 Webhook 投递记录
+ */
+export async function getWebhookDeliveries(
+  id: string,
+  status?: WebhookDeliveryStatus
+): Promise<WebhookDelivery[]> {
+  const query = status ? `?status=${status}` : ''
+  const response = await apiClient.get(`/settings/webhooks/${id}/deliveries${query}`)
+  return (response.data as { deliveries: WebhookDelivery[] }).deliveries
+}
+
+/**
+ * 重新投递
+ */
+export async function redeliverWebhook(id: string, deliveryId: string): Promise<WebhookDelivery> {
+  const response = await apiClient.post(`/settings/webhooks/${id}/deliveries/${deliveryId}/redeliver`)
+  return (response.data as { delivery: WebhookDelivery }).delivery
+}
@@ -1,6 +1,6 @@
 import { create } from 'zustand'
 import { createJSONStorage, persist } from 'zustand/middleware'
-import type { User } from '@/lib/types'
+import type { TwoFactorChallengeResponse, User } from '@/lib/types'
 import { authService } from '@/services/auth'
 import { logger } from '@/lib/logger'
 
@@ -12,8 +12,10 @@ interface AuthState {
   isLoading: boolean
 
   // Actions
-  login: (username: string, password: string, rememberMe?: boolean) => Promise<void>
-  register: (username: string, password: string, email?: string) => Promise<void>
+  /** 账号开启了两步验证时返回挑战，此时尚未登录 */
+  login: (username: string, password: string, rememberMe?: boolean) => Promise<TwoFactorChallengeResponse | null>
+  verifyTwoFactor: (challengeToken: string, code: string) => Promise<void>
+  register: (username: string, password: string, email?: string, inviteCode?: string) => Promise<void>
   logout: (revokeAll?: boolean) => Promise<void>
   refreshAccessToken: () => Promise<void>
   setUser: (user: User) => void
@@ -34,6 +36,29 @@ export const useAuthStore = create<AuthState>()(
         try {
           const data = await authService.login({ username, password, remember_me: rememberMe })
 
+          if ('two_factor_required' in data) {
+            set({ isLoading: false })
+            return data
+          }
+
+          set({
+            user: data.user,
+            accessToken: data.access_token,
+            refreshToken: data.refresh_token,
+            isAuthenticated: true,
+            isLoading: false,
+          })
+          return null
+        } catch (error) {
+          set({ isLoading: false })
+          throw error
+        }
+      },
+
+      verifyTwoFactor: async (challengeToken: string, code: string) => {
+        set({ isLoading: true })
+        try {
+          const data = await authService.verifyTwoFactor({ challenge_token: challengeToken, code })
           set({
             user: data.user,
             accessToken: data.access_token,
@@ -47,10 +72,10 @@ export const useAuthStore = create<AuthState>()(
         }
       },
 
-      register: async (username: string, password: string, email?: string) => {
+      register: async (username: string, password: string, email?: string, inviteCode?: string) => {
         set({ isLoading: true })
         try {
-          await authService.register({ username, password, email })
+          await authService.register({ username, password, email, invite_code: inviteCode })
           set({ isLoading: false })
           // 注册成功后不自动登录，让用户手动登录
         } catch (error) {
@@ -105,6 +105,11 @@ export default defineConfig(({ mode }) => {
           target: 'http://localhost:8787',
           changeOrigin: true,
         },
+        // 公开分享订阅源由 Functions 生成
+        '^/share/[^/]+/feed\\.(xml|json)': {
+          target: 'http://localhost:8787',
+          changeOrigin: true,
+        },
       },
     },
     build: {
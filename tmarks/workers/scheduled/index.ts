@@ -0,0 +1,88 @@
+/**
+ * 定时任务 Worker
+ *
+ * Pages Functions 不支持 Cron 触发器，定时任务以独立 Worker 部署，与 Pages 项目共用同一个 D1 / KV。
+ * 本地调试：pnpm cf:scheduled:dev，然后访问 http://localhost:8787/__scheduled 触发一次
+ */
+
+import type { ExportedHandler } from '@cloudflare/workers-types'
+import type { Env } from '../../functions/lib/types'
+import { CacheService } from '../../functions/lib/cache'
+import { createBookmarkCacheManager } from '../../functions/lib/cache/bookmark-cache'
+import {
+  LINK_CHECK_DEFAULT_BATCH_SIZE,
+  LINK_CHECK_DEFAULT_INTERVAL_DAYS,
+  runLinkChecks,
+} from '../../functions/lib/link-checker'
+import { backfillCanonicalUrls, getCanonicalUrlRules } from '../../functions/lib/canonical-url'
+import { cleanupWebhookDeliveries, retryWebhookDeliveries } from '../../functions/lib/webhooks'
+import { runDueMaintenanceJobs } from '../../functions/lib/maintenance'
+
+/** 每次定时任务最多为多少条历史书签补齐规范化 URL */
+const CANONICAL_BACKFILL_LIMIT = 2000
+/** 每次定时任务默认重试的 Webhook 投递数 */
+const WEBHOOK_RETRY_DEFAULT_BATCH_SIZE = 20
+
+function parsePositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value || '', 10)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback
+}
+
+async function checkLinks(env: Env): Promise<void> {
+  const summary = await runLinkChecks(env.DB, {
+    batchSize: parsePositiveInt(env.LINK_CHECK_BATCH_SIZE, LINK_CHECK_DEFAULT_BATCH_SIZE),
+    intervalDays: parsePositiveInt(env.LINK_CHECK_INTERVAL_DAYS, LINK_CHECK_DEFAULT_INTERVAL_DAYS),
+  })
+
+  // 检测结果变化会影响书签列表中的链接状态和“失效链接”筛选
+  const bookmarkCache = createBookmarkCacheManager(new CacheService(env))
+  await Promise.all(summary.changed_user_ids.map(userId => bookmarkCache.invalidateUserBookmarks(userId)))
+
+  console.log('Link check finished:', { checked: summary.checked, ...summary.counts })
+}
+
+async function backfillCanonical(env: Env): Promise<void> {
+  const updated = await backfillCanonicalUrls(env.DB, getCanonicalUrlRules(env), { limit: CANONICAL_BACKFILL_LIMIT })
+  if (updated > 0) {
+    console.log('Canonical URL backfill:', { updated })
+  }
+}
+
+async function retryWebhooks(env: Env): Promise<void> {
+  const summary = await retryWebhookDeliveries(
+    env,
+    parsePositiveInt(env.WEBHOOK_RETRY_BATCH_SIZE, WEBHOOK_RETRY_DEFAULT_BATCH_SIZE)
+  )
+  const removed = await cleanupWebhookDeliveries(env.DB)
+  if (summary.attempted > 0 || removed > 0) {
+    console.log('Webhook retry finished:', { ...summary, removed })
+  }
+}
+
+async function runMaintenance(env: Env): Promise<void> {
+  const runs = await runDueMaintenanceJobs(env)
+  for (const run of runs) {
+    console.log(`Maintenance job ${run.job_name} ${run.status}:`, run.error ?? run.result)
+  }
+}
+
+export default {
+  async scheduled(_controller, env, ctx) {
+    ctx.waitUntil(
+      Promise.all([
+        checkLinks(env).catch(error => {
+          console.error('Link check failed:', error)
+        }),
+        backfillCanonical(env).catch(error => {
+          console.error('Canonical URL backfill failed:', error)
+        }),
+        retryWebhooks(env).catch(error => {
+          console.error('Webhook retry failed:', error)
+        }),
+        runMaintenance(env).catch(error => {
+          console.error('Maintenance jobs failed:', error)
+        }),
+      ])
+    )
+  },
+} satisfies ExportedHandler<Env>